@@ -11,8 +11,16 @@ import { registerWhatsAppRoutes } from "./routes/whatsapp";
 import { registerDeepScanRoutes } from "./routes/deep-scan";
 import { registerBillingRoutes, registerStripeWebhook } from "./routes/billing";
 import { registerAccountantRoutes } from "./routes/accountant";
+import { registerAccountantFirmRoutes } from "./routes/accountant-firm";
+import { registerAuthRoutes } from "./routes/auth";
+import { registerEventRoutes } from "./routes/events";
+import { requireBusinessMember } from "./services/owner-auth";
+import { getVatRates } from "./services/vat-rates";
 
 export async function createServer() {
+  // Fail at startup on a malformed VAT_RATES override, not on the first estimate
+  getVatRates();
+
   const app = Fastify({
     logger: env.NODE_ENV === "development",
   });
@@ -34,7 +42,8 @@ export async function createServer() {
   app.addContentTypeParser("application/json", { parseAs: "string" }, (req, body, done) => {
     try {
       (req as any).rawBody = body;
-      done(null, JSON.parse(body as string));
+      // Bodyless POST/DELETE requests from the web client still send the JSON content type
+      done(null, body === "" ? undefined : JSON.parse(body as string));
     } catch (err: any) {
       done(err, undefined);
     }
@@ -51,7 +60,7 @@ export async function createServer() {
     }
 
     if (error instanceof Error) {
-      if (["Business not found", "Document not found", "Inbox not found"].includes(error.message)) {
+      if (["Business not found", "Document not found", "Document file not found", "Inbox not found"].includes(error.message)) {
         reply.status(404).send({ message: error.message });
         return;
       }
@@ -63,6 +72,11 @@ export async function createServer() {
         reply.status(400).send({ message: error.message });
         return;
       }
+      const { statusCode } = error as { statusCode?: number };
+      if (statusCode && statusCode >= 400 && statusCode < 500) {
+        reply.status(statusCode).send({ message: error.message });
+        return;
+      }
     }
 
     request.log.error(error);
@@ -71,14 +85,22 @@ export async function createServer() {
 
   await app.register(async (api) => {
     await registerHealthRoutes(api);
+    await registerAuthRoutes(api);
     await registerOnboardingRoutes(api);
     await registerOAuthRoutes(api);
     await registerWhatsAppRoutes(api);
-    await registerDashboardRoutes(api);
-    await registerSettingsRoutes(api);
-    await registerDeepScanRoutes(api);
-    await registerBillingRoutes(api);
     await registerAccountantRoutes(api);
+    await registerAccountantFirmRoutes(api);
+
+    // Business-scoped owner routes — the caller must be a member of :businessId
+    await api.register(async (owner) => {
+      owner.addHook("preHandler", requireBusinessMember);
+      await registerDashboardRoutes(owner);
+      await registerSettingsRoutes(owner);
+      await registerDeepScanRoutes(owner);
+      await registerBillingRoutes(owner);
+      await registerEventRoutes(owner);
+    });
   }, { prefix: "/api" });
 
   // Stripe webhook — registered at /api/webhooks/stripe (outside api prefix group for raw body)
@@ -17,6 +17,8 @@ const envSchema = z.object({
   WHATSAPP_ACCESS_TOKEN: z.string().optional(),
   WHATSAPP_PHONE_NUMBER_ID: z.string().optional(),
   WHATSAPP_VERIFY_TOKEN: z.string().optional(),
+  /** Meta app secret — Cloud API webhook deliveries are signed with it */
+  WHATSAPP_APP_SECRET: z.string().optional(),
   WHATSAPP_PROVIDER: z.enum(["baileys", "cloudapi"]).default("baileys"),
   WHATSAPP_BAILEYS_SESSIONS_DIR: z.string().default("server/data/baileys-sessions"),
   WHATSAPP_API_VERSION: z.string().default("v21.0"),
@@ -28,9 +30,25 @@ const envSchema = z.object({
   AI_MODEL_EXPENSIVE: z.string().default("claude-sonnet-4-20250514"),
   AI_MODEL_CHEAP: z.string().default("claude-haiku-4-5-20251001"),
   CRON_SECRET: z.string().optional(),
+  /** Run scheduled jobs inside the server process (self-hosting, local dev); Vercel ticks them from cron */
+  JOB_WORKER: z.enum(["on", "off"]).default("on"),
+  JOB_WORKER_POLL_MS: z.coerce.number().int().positive().default(15_000),
+  /** Overrides the built-in VAT table: "2015-10-01=17,2025-01-01=18" (effective date = percent) */
+  VAT_RATES: z.string().regex(/^\d{4}-\d{2}-\d{2}=\d+(\.\d+)?(,\d{4}-\d{2}-\d{2}=\d+(\.\d+)?)*$/).optional(),
+  /** Local representative-rate file (`date,currency,rate` rows), imported alongside the Bank of Israel feed */
+  EXCHANGE_RATES_FILE: z.string().optional(),
   ACCOUNTANT_TOKEN_SECRET: z.string().optional(),
+  OWNER_TOKEN_SECRET: z.string().optional(),
+  CREDENTIALS_ENCRYPTION_KEY: z.string().min(12).optional(),
   WHATSAPP_BRIDGE_URL: z.string().optional(),
   WHATSAPP_BRIDGE_SECRET: z.string().optional(),
+  BLOB_STORAGE_DRIVER: z.enum(["local", "s3"]).default("local"),
+  BLOB_STORAGE_DIR: z.string().default("server/data/blobs"),
+  S3_BUCKET: z.string().optional(),
+  S3_REGION: z.string().default("us-east-1"),
+  S3_ENDPOINT: z.string().optional(),
+  S3_ACCESS_KEY_ID: z.string().optional(),
+  S3_SECRET_ACCESS_KEY: z.string().optional(),
   STRIPE_SECRET_KEY: z.string().optional(),
   STRIPE_WEBHOOK_SECRET: z.string().optional(),
 });
@@ -6,34 +6,22 @@ async function start() {
   const app = await createServer();
   await app.listen({ host: env.HOST, port: env.PORT });
 
-  // Periodic Gmail sync every 5 minutes
-  if (env.DATABASE_URL) {
-    setInterval(async () => {
-      try {
-        const { syncAllGmailInboxes } = await import("./services/gmail-sync");
-        const result = await syncAllGmailInboxes();
-        if (result.total > 0) {
-          console.log(`[periodic-sync] Synced ${result.total} new documents`);
-        }
-      } catch (error) {
-        console.error("[periodic-sync] Failed:", error);
-      }
-    }, 5 * 60 * 1000);
-    console.log("[startup] Periodic Gmail sync enabled (every 5 min)");
+  // Background jobs (inbox sync, deep scan, monthly delivery, outbox…) run
+  // in-process here; on Vercel the cron routes tick the same scheduler.
+  if (env.JOB_WORKER === "on") {
+    const { startJobWorker } = await import("./services/jobs");
+    const stopJobWorker = startJobWorker();
 
-    // Monthly delivery check once per hour (local dev; Vercel uses cron)
-    setInterval(async () => {
-      try {
-        const { checkAndRunMonthlyDeliveries } = await import("./services/monthly-delivery");
-        const result = await checkAndRunMonthlyDeliveries();
-        if (result.delivered > 0) {
-          console.log(`[monthly-delivery] Delivered ${result.delivered} monthly reports`);
-        }
-      } catch (error) {
-        console.error("[monthly-delivery] Failed:", error);
-      }
-    }, 60 * 60 * 1000);
-    console.log("[startup] Monthly delivery check enabled (hourly)");
+    const shutdown = async (signal: string) => {
+      console.log(`[shutdown] ${signal} received, finishing current jobs`);
+      await stopJobWorker();
+      await app.close();
+      const { closeEventListener } = await import("./services/events");
+      await closeEventListener();
+      process.exit(0);
+    };
+    process.once("SIGTERM", () => void shutdown("SIGTERM"));
+    process.once("SIGINT", () => void shutdown("SIGINT"));
   }
 }
 
@@ -0,0 +1,131 @@
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { getAccountantSession } from "../services/accountant-auth";
+import {
+  STAFF_ROLES,
+  acceptStaffInvitation,
+  createFirm,
+  declineStaffInvitation,
+  getAccountantAccess,
+  inviteStaff,
+  listMyStaffInvitations,
+  listStaff,
+  listStaffInvitations,
+  reassignClient,
+  removeStaff,
+  revokeStaffInvitation,
+  updateStaffRole,
+  type AccountantAccess,
+} from "../services/accountant-firms";
+
+const createFirmSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  fullName: z.string().trim().max(200).nullable().optional(),
+});
+
+const inviteStaffSchema = z.object({
+  email: z.string().email(),
+  fullName: z.string().trim().max(200).nullable().optional(),
+  role: z.enum(STAFF_ROLES),
+});
+
+const staffParamsSchema = z.object({
+  staffId: z.string().min(1),
+});
+
+const invitationParamsSchema = z.object({
+  invitationId: z.string().min(1),
+});
+
+const updateStaffSchema = z.object({
+  role: z.enum(STAFF_ROLES),
+});
+
+const businessIdSchema = z.object({
+  businessId: z.string().min(1),
+});
+
+const assignmentSchema = z.object({
+  staffId: z.string().min(1),
+});
+
+/** The caller's firm, staff list and invitations, as GET /accountant/firm returns them. */
+async function serializeFirm(email: string, access: AccountantAccess) {
+  return {
+    firm: access.firm,
+    me: access.staff,
+    staff: access.staff ? await listStaff(email) : [],
+    /** Sent by the firm and not yet answered; admins only */
+    invitations: access.staff?.role === "admin" ? await listStaffInvitations(email) : [],
+    /** Addressed to the caller */
+    myInvitations: await listMyStaffInvitations(email),
+  };
+}
+
+export async function registerAccountantFirmRoutes(app: FastifyInstance): Promise<void> {
+  // The caller's firm and role, with the staff list; `firm` is null outside a firm
+  app.get("/accountant/firm", async (request) => {
+    const { email } = await getAccountantSession(request);
+    return serializeFirm(email, await getAccountantAccess(email));
+  });
+
+  // Start a firm; the caller becomes its admin
+  app.post("/accountant/firm", async (request) => {
+    const { email } = await getAccountantSession(request);
+    const payload = createFirmSchema.parse(request.body);
+    const access = await createFirm(email, { name: payload.name, fullName: payload.fullName });
+    return serializeFirm(email, access);
+  });
+
+  // Invite a staff member; they join once they accept
+  app.post("/accountant/firm/invitations", async (request) => {
+    const { email } = await getAccountantSession(request);
+    const payload = inviteStaffSchema.parse(request.body);
+    return {
+      invitation: await inviteStaff(email, { email: payload.email, fullName: payload.fullName, role: payload.role }),
+    };
+  });
+
+  app.delete("/accountant/firm/invitations/:invitationId", async (request) => {
+    const { email } = await getAccountantSession(request);
+    const { invitationId } = invitationParamsSchema.parse(request.params);
+    await revokeStaffInvitation(email, invitationId);
+    return { ok: true };
+  });
+
+  // The invitee's answer; only the invited address can give it
+  app.post("/accountant/firm/invitations/:invitationId/accept", async (request) => {
+    const { email } = await getAccountantSession(request);
+    const { invitationId } = invitationParamsSchema.parse(request.params);
+    return serializeFirm(email, await acceptStaffInvitation(email, invitationId));
+  });
+
+  app.post("/accountant/firm/invitations/:invitationId/decline", async (request) => {
+    const { email } = await getAccountantSession(request);
+    const { invitationId } = invitationParamsSchema.parse(request.params);
+    await declineStaffInvitation(email, invitationId);
+    return { ok: true };
+  });
+
+  app.patch("/accountant/firm/staff/:staffId", async (request) => {
+    const { email } = await getAccountantSession(request);
+    const { staffId } = staffParamsSchema.parse(request.params);
+    const { role } = updateStaffSchema.parse(request.body);
+    return { staff: await updateStaffRole(email, staffId, role) };
+  });
+
+  app.delete("/accountant/firm/staff/:staffId", async (request) => {
+    const { email } = await getAccountantSession(request);
+    const { staffId } = staffParamsSchema.parse(request.params);
+    await removeStaff(email, staffId);
+    return { ok: true };
+  });
+
+  // Hand a client to another staff member
+  app.put("/accountant/clients/:businessId/assignment", async (request) => {
+    const { email } = await getAccountantSession(request);
+    const { businessId } = businessIdSchema.parse(request.params);
+    const { staffId } = assignmentSchema.parse(request.body);
+    return { client: await reassignClient(email, businessId, staffId) };
+  });
+}
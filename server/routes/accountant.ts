@@ -3,10 +3,32 @@ import { z } from "zod";
 import { store } from "../store";
 import {
   sendMagicLinkEmail,
-  verifyMagicLinkToken,
-  createAccountantToken,
-  verifyAccountantToken,
+  consumeMagicLinkToken,
+  createAccountantSession,
+  getAccountantSession,
 } from "../services/accountant-auth";
+import { assertClientAccess, getAccountantAccess } from "../services/accountant-firms";
+import { inviteClient, listClientInvites, resendClientInvite, revokeClientInvite } from "../services/accountant-invites";
+import { contentDisposition, documentFileHeaders, loadDocumentFile } from "../services/blob-storage";
+import {
+  addAccountantComment,
+  closeRequestAsAccountant,
+  createDocumentRequest,
+  DOCUMENT_REQUEST_KINDS,
+  getDocumentThread,
+  listDocumentRequests,
+} from "../services/document-requests";
+import { buildExport, EXPORT_FORMATS } from "../services/exports";
+import { closeMonth, getPeriodStatus, reopenMonth } from "../services/period-close";
+import {
+  decodeCursor,
+  DEFAULT_PAGE_SIZE,
+  DOCUMENT_SORTS,
+  DOCUMENT_SOURCES,
+  DOCUMENT_TYPES,
+  MAX_PAGE_SIZE,
+} from "../services/document-search";
+import { buildVatReport, generatePcn874 } from "../services/vat-report";
 
 const magicLinkSchema = z.object({
   email: z.string().email(),
@@ -16,30 +38,93 @@ const verifySchema = z.object({
   token: z.string().min(1),
 });
 
+const sessionParamsSchema = z.object({
+  sessionId: z.string().min(1),
+});
+
 const businessIdSchema = z.object({
   businessId: z.string().min(1),
 });
 
+const documentParamsSchema = z.object({
+  businessId: z.string().min(1),
+  documentId: z.string().min(1),
+});
+
+const documentQuerySchema = z.object({
+  status: z.enum(["all", "sent", "pending", "review"]).default("all"),
+  q: z.string().trim().max(200).optional(),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  minAmountCents: z.coerce.number().int().min(0).optional(),
+  maxAmountCents: z.coerce.number().int().min(0).optional(),
+  category: z.string().min(1).max(100).optional(),
+  type: z.enum(DOCUMENT_TYPES).optional(),
+  source: z.enum(DOCUMENT_SOURCES).optional(),
+  inboxId: z.string().min(1).optional(),
+  late: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  sort: z.enum(DOCUMENT_SORTS).default("date_desc"),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  cursor: z.string().min(1).optional(),
+});
+
+const vatReportQuerySchema = z.object({
+  period: z.string().regex(/^\d{4}-\d{2}$/).optional(),
+});
+
+const periodParamsSchema = z.object({
+  businessId: z.string().min(1),
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/),
+});
+
+const reopenPeriodSchema = z.object({
+  reason: z.string().trim().min(3).max(500),
+});
+
+const requestListQuerySchema = z.object({
+  status: z.enum(["open", "resolved", "cancelled"]).optional(),
+});
+
+const requestParamsSchema = z.object({
+  businessId: z.string().min(1),
+  requestId: z.string().min(1),
+});
+
+const commentSchema = z.object({
+  body: z.string().trim().min(1).max(2000),
+});
+
+const createRequestSchema = z.object({
+  kind: z.enum(DOCUMENT_REQUEST_KINDS),
+  message: z.string().trim().max(1000).optional(),
+});
+
+const closeRequestSchema = z.object({
+  status: z.enum(["resolved", "cancelled"]),
+});
+
+const inviteClientSchema = z.object({
+  clientEmail: z.string().email(),
+  clientName: z.string().optional(),
+  // Prefilled into the client's accountant settings when they sign up
+  accountantName: z.string().max(200).optional(),
+  autoMonthlyDelivery: z.boolean().optional(),
+  monthlyDeliveryDay: z.number().int().min(1).max(28).optional(),
+});
+
+const invitationParamsSchema = z.object({
+  invitationId: z.string().min(1),
+});
+
 // ─── Auth middleware ───
 
 async function getAccountantEmail(request: FastifyRequest): Promise<string> {
-  const auth = request.headers.authorization;
-  if (!auth?.startsWith("Bearer ")) {
-    throw Object.assign(new Error("Unauthorized"), { statusCode: 401 });
-  }
-  const result = verifyAccountantToken(auth.slice(7));
-  if (!result) {
-    throw Object.assign(new Error("Invalid or expired token"), { statusCode: 401 });
-  }
-  return result.email;
+  const session = await getAccountantSession(request);
+  return session.email;
 }
 
 async function assertAccountantAccessToBusiness(email: string, businessId: string): Promise<void> {
-  const clients = await store.getBusinessesForAccountant(email);
-  const hasAccess = clients.some((c: any) => c.id === businessId);
-  if (!hasAccess) {
-    throw Object.assign(new Error("Access denied to this business"), { statusCode: 403 });
-  }
+  await assertClientAccess(email, businessId);
 }
 
 // ─── Routes ───
@@ -52,12 +137,12 @@ export async function registerAccountantRoutes(app: FastifyInstance): Promise<vo
     return { ok: true, message: "אם הכתובת קיימת במערכת, נשלח אליך קישור כניסה." };
   });
 
-  // Verify magic link token → return session JWT
+  // Verify magic link token (once) → create session
   app.post("/accountant/auth/verify", async (request) => {
     const { token } = verifySchema.parse(request.body);
-    const result = verifyMagicLinkToken(token);
+    const result = await consumeMagicLinkToken(token);
     if (!result) {
-      throw Object.assign(new Error("קישור לא תקין או שפג תוקפו"), { statusCode: 401 });
+      throw Object.assign(new Error("קישור לא תקין, שכבר נוצל או שפג תוקפו"), { statusCode: 401 });
     }
 
     const exists = await store.accountantEmailExists(result.email);
@@ -65,7 +150,10 @@ export async function registerAccountantRoutes(app: FastifyInstance): Promise<vo
       throw Object.assign(new Error("הכתובת לא נמצאה במערכת"), { statusCode: 404 });
     }
 
-    const sessionToken = createAccountantToken(result.email);
+    const sessionToken = await createAccountantSession(result.email, {
+      userAgent: request.headers["user-agent"],
+      ipAddress: request.ip,
+    });
     return {
       ok: true,
       token: sessionToken,
@@ -73,13 +161,50 @@ export async function registerAccountantRoutes(app: FastifyInstance): Promise<vo
     };
   });
 
-  // Get all client businesses for this accountant
+  app.post("/accountant/auth/logout", async (request) => {
+    const session = await getAccountantSession(request);
+    await store.revokeAccountantSession(session.email, session.sessionId);
+    return { ok: true };
+  });
+
+  // Log out everywhere, this device included
+  app.post("/accountant/auth/logout-all", async (request) => {
+    const session = await getAccountantSession(request);
+    const revoked = await store.revokeAccountantSessions(session.email);
+    return { ok: true, revoked };
+  });
+
+  // Signed-in devices, newest first
+  app.get("/accountant/auth/sessions", async (request) => {
+    const session = await getAccountantSession(request);
+    const sessions = await store.listAccountantSessions(session.email);
+    return {
+      sessions: sessions.map((entry: { id: string }) => ({ ...entry, current: entry.id === session.sessionId })),
+    };
+  });
+
+  app.delete("/accountant/auth/sessions/:sessionId", async (request) => {
+    const session = await getAccountantSession(request);
+    const { sessionId } = sessionParamsSchema.parse(request.params);
+    const revoked = await store.revokeAccountantSession(session.email, sessionId);
+    if (!revoked) {
+      throw Object.assign(new Error("Session not found"), { statusCode: 404 });
+    }
+    return { ok: true };
+  });
+
+  // Client businesses open to this accountant — in a firm, the ones assigned
+  // to them (admins see all)
   app.get("/accountant/clients", async (request) => {
     const email = await getAccountantEmail(request);
-    const clients = await store.getClientHealthForAccountant(email);
+    const access = await getAccountantAccess(email);
+    const assignedTo = new Map(access.clients.map((client) => [client.businessId, client.assignedStaffId]));
+    const clients = await store.getClientHealth([...assignedTo.keys()]);
 
     return {
       email,
+      firm: access.firm,
+      role: access.staff?.role ?? null,
       clients: clients.map((c: any) => ({
         businessId: c.businessId,
         businessName: c.businessName,
@@ -89,6 +214,7 @@ export async function registerAccountantRoutes(app: FastifyInstance): Promise<vo
         totalCount: c.totalCount,
         lastDocumentAt: c.lastDocumentAt,
         health: getHealthStatus(c.pendingCount + c.reviewCount),
+        assignedStaffId: assignedTo.get(c.businessId) ?? null,
       })),
     };
   });
@@ -101,14 +227,26 @@ export async function registerAccountantRoutes(app: FastifyInstance): Promise<vo
     return store.getDashboardSummary(businessId);
   });
 
-  // Get single client documents
+  // Search a client's documents, a page at a time
   app.get("/accountant/clients/:businessId/documents", async (request) => {
     const email = await getAccountantEmail(request);
     const { businessId } = businessIdSchema.parse(request.params);
     await assertAccountantAccessToBusiness(email, businessId);
-    const statusSchema = z.object({ status: z.enum(["all", "sent", "pending", "review"]).default("all") });
-    const { status } = statusSchema.parse(request.query);
-    return store.getDashboardDocuments(businessId, status);
+    const { cursor, ...query } = documentQuerySchema.parse(request.query);
+    return store.searchDocuments(businessId, { ...query, cursor: decodeCursor(query.sort, cursor) });
+  });
+
+  // Original invoice file for a client document
+  app.get("/accountant/clients/:businessId/documents/:documentId/file", async (request, reply) => {
+    const email = await getAccountantEmail(request);
+    const { businessId, documentId } = documentParamsSchema.parse(request.params);
+    await assertAccountantAccessToBusiness(email, businessId);
+
+    const fileQuerySchema = z.object({ disposition: z.enum(["inline", "attachment"]).default("inline") });
+    const { disposition } = fileQuerySchema.parse(request.query);
+    const { file, data } = await loadDocumentFile(businessId, documentId);
+    reply.headers(documentFileHeaders(file, disposition));
+    return reply.send(data);
   });
 
   // Download monthly PDF for a client
@@ -147,21 +285,126 @@ export async function registerAccountantRoutes(app: FastifyInstance): Promise<vo
     return reply.send(pdfBuffer);
   });
 
-  // Export client documents as CSV
+  // Export client documents (CSV or a bookkeeping-software import format)
   app.get("/accountant/clients/:businessId/export", async (request, reply) => {
     const email = await getAccountantEmail(request);
     const { businessId } = businessIdSchema.parse(request.params);
     await assertAccountantAccessToBusiness(email, businessId);
 
     const querySchema = z.object({
-      format: z.enum(["csv"]).default("csv"),
+      format: z.enum(EXPORT_FORMATS).default("csv"),
       status: z.enum(["all", "sent", "pending", "review"]).default("all"),
+      from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+      to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+      expenseAccount: z.string().min(1).max(15).optional(),
+      vatAccount: z.string().min(1).max(15).optional(),
+      supplierAccount: z.string().min(1).max(15).optional(),
     });
     const query = querySchema.parse(request.query);
-    const csv = store.exportDashboardCsv(businessId, query.status);
-    reply.header("Content-Type", "text/csv; charset=utf-8");
-    reply.header("Content-Disposition", `attachment; filename="sendtoamram-${businessId}.csv"`);
-    return csv;
+    const file = await buildExport(businessId, query.format, {
+      status: query.status,
+      from: query.from,
+      to: query.to,
+      accounts: { expense: query.expenseAccount, vat: query.vatAccount, supplier: query.supplierAccount },
+    });
+    reply.header("Content-Type", file.contentType);
+    reply.header("Content-Disposition", contentDisposition("attachment", file.filename));
+    return reply.send(file.body);
+  });
+
+  // VAT report for the client's reporting period (JSON, PDF summary or PCN874 file)
+  app.get("/accountant/clients/:businessId/vat-report", async (request) => {
+    const email = await getAccountantEmail(request);
+    const { businessId } = businessIdSchema.parse(request.params);
+    await assertAccountantAccessToBusiness(email, businessId);
+    const { period } = vatReportQuerySchema.parse(request.query);
+    return buildVatReport(businessId, period);
+  });
+
+  app.get("/accountant/clients/:businessId/vat-report/pdf", async (request, reply) => {
+    const email = await getAccountantEmail(request);
+    const { businessId } = businessIdSchema.parse(request.params);
+    await assertAccountantAccessToBusiness(email, businessId);
+    const { period } = vatReportQuerySchema.parse(request.query);
+    const report = await buildVatReport(businessId, period);
+
+    const { generateVatReport } = await import("../services/pdf");
+    const pdfBuffer = await generateVatReport(report);
+
+    reply.header("Content-Type", "application/pdf");
+    reply.header("Content-Disposition", `attachment; filename="vat-report-${report.period.key}.pdf"`);
+    return reply.send(pdfBuffer);
+  });
+
+  app.get("/accountant/clients/:businessId/vat-report/pcn874", async (request, reply) => {
+    const email = await getAccountantEmail(request);
+    const { businessId } = businessIdSchema.parse(request.params);
+    await assertAccountantAccessToBusiness(email, businessId);
+    const { period } = vatReportQuerySchema.parse(request.query);
+    const file = generatePcn874(await buildVatReport(businessId, period));
+    reply.header("Content-Type", "text/plain; charset=us-ascii");
+    reply.header("Content-Disposition", contentDisposition("attachment", file.filename));
+    return reply.send(file.body);
+  });
+
+  // Comment threads and requests to the owner about a document
+  app.get("/accountant/clients/:businessId/documents/:documentId/thread", async (request) => {
+    const email = await getAccountantEmail(request);
+    const { businessId, documentId } = documentParamsSchema.parse(request.params);
+    await assertAccountantAccessToBusiness(email, businessId);
+    return getDocumentThread(businessId, documentId);
+  });
+
+  app.post("/accountant/clients/:businessId/documents/:documentId/comments", async (request) => {
+    const email = await getAccountantEmail(request);
+    const { businessId, documentId } = documentParamsSchema.parse(request.params);
+    const { body } = commentSchema.parse(request.body);
+    return { comment: await addAccountantComment(email, businessId, documentId, body) };
+  });
+
+  app.post("/accountant/clients/:businessId/documents/:documentId/requests", async (request) => {
+    const email = await getAccountantEmail(request);
+    const { businessId, documentId } = documentParamsSchema.parse(request.params);
+    const payload = createRequestSchema.parse(request.body);
+    return {
+      request: await createDocumentRequest(email, businessId, documentId, { kind: payload.kind, message: payload.message }),
+    };
+  });
+
+  app.get("/accountant/clients/:businessId/requests", async (request) => {
+    const email = await getAccountantEmail(request);
+    const { businessId } = businessIdSchema.parse(request.params);
+    await assertAccountantAccessToBusiness(email, businessId);
+    const { status } = requestListQuerySchema.parse(request.query);
+    return { requests: await listDocumentRequests(businessId, status) };
+  });
+
+  app.patch("/accountant/clients/:businessId/requests/:requestId", async (request) => {
+    const email = await getAccountantEmail(request);
+    const { businessId, requestId } = requestParamsSchema.parse(request.params);
+    const { status } = closeRequestSchema.parse(request.body);
+    return { request: await closeRequestAsAccountant(email, businessId, requestId, status) };
+  });
+
+  // Month closing: closed months lock their documents until reopened
+  app.get("/accountant/clients/:businessId/periods", async (request) => {
+    const email = await getAccountantEmail(request);
+    const { businessId } = businessIdSchema.parse(request.params);
+    await assertAccountantAccessToBusiness(email, businessId);
+    return getPeriodStatus(businessId);
+  });
+
+  app.post("/accountant/clients/:businessId/periods/:month/close", async (request) => {
+    const email = await getAccountantEmail(request);
+    const { businessId, month } = periodParamsSchema.parse(request.params);
+    return { period: await closeMonth(email, businessId, month) };
+  });
+
+  app.post("/accountant/clients/:businessId/periods/:month/reopen", async (request) => {
+    const email = await getAccountantEmail(request);
+    const { businessId, month } = periodParamsSchema.parse(request.params);
+    const { reason } = reopenPeriodSchema.parse(request.body);
+    return { period: await reopenMonth(email, businessId, month, reason) };
   });
 
   // Bulk export — download CSVs for multiple clients
@@ -174,8 +417,8 @@ export async function registerAccountantRoutes(app: FastifyInstance): Promise<vo
     const { businessIds, status } = bulkSchema.parse(request.body);
 
     const results: Array<{ businessId: string; businessName: string; csv: string }> = [];
-    const clients = await store.getBusinessesForAccountant(email);
-    const allowedIds = new Set(clients.map((c: any) => c.id));
+    const { clients } = await getAccountantAccess(email);
+    const allowedIds = new Set(clients.map((client) => client.businessId));
 
     for (const businessId of businessIds) {
       if (!allowedIds.has(businessId)) continue;
@@ -187,61 +430,45 @@ export async function registerAccountantRoutes(app: FastifyInstance): Promise<vo
     return { exports: results };
   });
 
-  // Invite a new client — send invitation email
+  // Invite a new client — queue invitation email (at most one per client per day)
   app.post("/accountant/invite-client", async (request) => {
     const email = await getAccountantEmail(request);
-    const inviteSchema = z.object({
-      clientEmail: z.string().email(),
-      clientName: z.string().optional(),
+    const payload = inviteClientSchema.parse(request.body);
+    const { invitation, message } = await inviteClient(email, {
+      clientEmail: payload.clientEmail,
+      clientName: payload.clientName,
+      accountantName: payload.accountantName,
+      autoMonthlyDelivery: payload.autoMonthlyDelivery,
+      monthlyDeliveryDay: payload.monthlyDeliveryDay,
     });
-    const { clientEmail, clientName } = inviteSchema.parse(request.body);
 
-    const { env } = await import("../config");
-    if (!env.RESEND_API_KEY) {
-      throw new Error("Email delivery is not configured");
-    }
+    return {
+      ok: true,
+      invitation,
+      emailId: message.providerMessageId,
+      outboxMessageId: message.id,
+      deliveryStatus: message.status,
+      sentTo: invitation.clientEmail,
+    };
+  });
 
-    const { Resend } = await import("resend");
-    const resend = new Resend(env.RESEND_API_KEY);
-
-    const signupUrl = `${env.FRONTEND_BASE_URL}/onboarding`;
-    const result = await resend.emails.send({
-      from: env.RESEND_FROM_EMAIL,
-      to: clientEmail,
-      subject: "הוזמנת ל-SendToAmram – ניהול חשבוניות אוטומטי",
-      html: `
-<!DOCTYPE html>
-<html dir="rtl" lang="he">
-<head><meta charset="utf-8"></head>
-<body style="font-family:Arial,sans-serif;direction:rtl;text-align:right;background:#f5f5f5;margin:0;padding:20px;">
-  <div style="max-width:500px;margin:0 auto;background:#fff;border-radius:12px;overflow:hidden;box-shadow:0 2px 8px rgba(0,0,0,0.08);">
-    <div style="background:linear-gradient(135deg,#ff6b6b,#ee5a24);padding:24px 32px;">
-      <h1 style="color:#fff;margin:0;font-size:22px;">SendToAmram</h1>
-    </div>
-    <div style="padding:24px 32px;">
-      <p style="font-size:16px;color:#333;">שלום${clientName ? ` ${clientName}` : ""},</p>
-      <p style="font-size:15px;color:#555;">
-        רואה החשבון שלך הזמין אותך להשתמש ב-SendToAmram לניהול חשבוניות אוטומטי.
-      </p>
-      <div style="text-align:center;margin:24px 0;">
-        <a href="${signupUrl}" style="display:inline-block;padding:12px 32px;background:#ee5a24;color:#fff;text-decoration:none;border-radius:8px;font-weight:bold;font-size:16px;">
-          הרשמה חינם
-        </a>
-      </div>
-      <p style="font-size:13px;color:#999;">
-        הודעה זו נשלחה מ-<a href="https://sendtoamram.co.il" style="color:#ee5a24;">SendToAmram</a>.
-      </p>
-    </div>
-  </div>
-</body>
-</html>`,
-    });
+  // Invitations this accountant sent (the whole firm's, for admins)
+  app.get("/accountant/invitations", async (request) => {
+    const email = await getAccountantEmail(request);
+    return { invitations: await listClientInvites(email) };
+  });
 
-    if (result.error) {
-      throw new Error(`Failed to send invitation: ${result.error.message}`);
-    }
+  app.post("/accountant/invitations/:invitationId/resend", async (request) => {
+    const email = await getAccountantEmail(request);
+    const { invitationId } = invitationParamsSchema.parse(request.params);
+    const { invitation, message } = await resendClientInvite(email, invitationId);
+    return { invitation, deliveryStatus: message.status };
+  });
 
-    return { ok: true, emailId: result.data!.id, sentTo: clientEmail };
+  app.delete("/accountant/invitations/:invitationId", async (request) => {
+    const email = await getAccountantEmail(request);
+    const { invitationId } = invitationParamsSchema.parse(request.params);
+    return { invitation: await revokeClientInvite(email, invitationId) };
   });
 }
 
@@ -0,0 +1,71 @@
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { store } from "../store";
+import {
+  createOwnerSession,
+  getOwnerSession,
+  revokeOwnerSession,
+  sendOwnerMagicLinkEmail,
+  consumeOwnerMagicLinkToken,
+} from "../services/owner-auth";
+
+const magicLinkSchema = z.object({
+  email: z.string().email(),
+});
+
+const verifySchema = z.object({
+  token: z.string().min(1),
+});
+
+async function serializeOwner(userId: string) {
+  const user = await store.getUserById(userId);
+  if (!user) {
+    throw Object.assign(new Error("User not found"), { statusCode: 401 });
+  }
+  return {
+    user: { id: user.id, email: user.email, fullName: user.fullName },
+    businesses: await store.getBusinessesForUser(userId),
+  };
+}
+
+export async function registerAuthRoutes(app: FastifyInstance): Promise<void> {
+  // Send owner login magic link
+  app.post("/auth/send-magic-link", async (request) => {
+    const { email } = magicLinkSchema.parse(request.body);
+    await sendOwnerMagicLinkEmail(email);
+    return { ok: true, message: "אם הכתובת קיימת במערכת, נשלח אליך קישור כניסה." };
+  });
+
+  // Verify magic link token → create session
+  app.post("/auth/verify", async (request) => {
+    const { token } = verifySchema.parse(request.body);
+    const result = await consumeOwnerMagicLinkToken(token);
+    if (!result) {
+      throw Object.assign(new Error("קישור לא תקין או שפג תוקפו"), { statusCode: 401 });
+    }
+
+    const user = await store.getUserByEmail(result.email);
+    if (!user) {
+      throw Object.assign(new Error("הכתובת לא נמצאה במערכת"), { statusCode: 404 });
+    }
+
+    const sessionToken = await createOwnerSession(user.id);
+    return {
+      ok: true,
+      token: sessionToken,
+      ...(await serializeOwner(user.id)),
+    };
+  });
+
+  // Current user + the businesses they belong to
+  app.get("/auth/me", async (request) => {
+    const session = await getOwnerSession(request);
+    return serializeOwner(session.userId);
+  });
+
+  app.post("/auth/logout", async (request) => {
+    const session = await getOwnerSession(request);
+    await revokeOwnerSession(session.sessionId);
+    return { ok: true };
+  });
+}
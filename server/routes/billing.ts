@@ -2,6 +2,7 @@ import Stripe from "stripe";
 import { FastifyInstance } from "fastify";
 import { store } from "../store";
 import { env } from "../config";
+import { startDeepScans } from "../services/deep-scan";
 
 const ONBOARDING_AMOUNT = 1300; // $13 USD in cents (~40 NIS)
 const MONTHLY_AMOUNT = 700; // $7 USD in cents (~21.5 NIS)
@@ -173,19 +174,12 @@ export async function registerStripeWebhook(app: FastifyInstance): Promise<void>
           });
           console.log(`[stripe] Business ${businessId} — checkout completed, onboarding paid`);
 
-          // Auto-start deep scan after payment
+          // Auto-start deep scans of every Gmail inbox after payment
           try {
             const inboxes = await store.getGmailInboxes(businessId);
             if (inboxes.length > 0) {
-              const existing = await store.getActiveScanJob(businessId);
-              if (!existing) {
-                const afterDate = new Date();
-                afterDate.setFullYear(afterDate.getFullYear() - 3);
-                const afterStr = `${afterDate.getFullYear()}/${String(afterDate.getMonth() + 1).padStart(2, "0")}/${String(afterDate.getDate()).padStart(2, "0")}`;
-                const gmailQuery = `after:${afterStr} (has:attachment OR subject:(חשבונית OR invoice OR receipt OR קבלה OR payment OR תשלום OR billing OR הזמנה))`;
-                await store.createScanJob(businessId, inboxes[0].id, gmailQuery, afterDate.toISOString().slice(0, 10));
-                console.log(`[stripe] Auto-started deep scan for business ${businessId}`);
-              }
+              const scans = await startDeepScans(businessId);
+              console.log(`[stripe] Auto-started deep scan of ${scans.filter((s) => s.started).length} inboxes for business ${businessId}`);
             }
           } catch (err) {
             console.error("[stripe] Failed to auto-start deep scan:", err);
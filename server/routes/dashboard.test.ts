@@ -0,0 +1,97 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createServer } from "../app";
+import { store } from "../store";
+import { encodeCursor } from "../services/document-search";
+import { signUpOwner, type TestApp } from "../test/helpers";
+
+describe("Document list pagination", () => {
+  let app: TestApp;
+  let owner: Awaited<ReturnType<typeof signUpOwner>>;
+
+  const listDocuments = (query: Record<string, string>) => app.inject({
+    method: "GET",
+    url: `/api/dashboard/${owner.businessId}/documents`,
+    headers: { authorization: `Bearer ${owner.token}` },
+    query,
+  });
+
+  /** Follow nextCursor to the end, returning the IDs in the order they came. */
+  const listAll = async (sort: string) => {
+    const ids: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = await listDocuments({ sort, limit: "2", ...(cursor ? { cursor } : {}) });
+      expect(page.statusCode).toBe(200);
+      ids.push(...page.json().documents.map((document: { id: string }) => document.id));
+      cursor = page.json().nextCursor;
+    } while (cursor);
+    return ids;
+  };
+
+  beforeAll(async () => {
+    app = await createServer();
+    owner = await signUpOwner(app, "pagination-owner@example.com");
+
+    // Three documents share a date and an amount, so only the tie-breaker orders them
+    for (const [issuedAt, amountCents] of [
+      ["2025-03-10T09:00:00.000Z", 10_000],
+      ["2025-03-10T09:00:00.000Z", 10_000],
+      ["2025-03-10T09:00:00.000Z", 10_000],
+      ["2025-03-11T09:00:00.000Z", 20_000],
+      ["2025-03-09T09:00:00.000Z", 5_000],
+    ] as const) {
+      await store.createDocument({
+        businessId: owner.businessId,
+        source: "WHATSAPP",
+        type: "INVOICE",
+        status: "PENDING",
+        vendorName: "Same Vendor",
+        amountCents,
+        currency: "ILS",
+        issuedAt,
+        confidence: 0.9,
+      });
+    }
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it.each(["date_desc", "date_asc", "amount_desc", "amount_asc", "vendor_asc"])(
+    "pages through equal %s values without repeating or skipping a document",
+    async (sort) => {
+      const all = await listDocuments({ sort, limit: "50" });
+      const ids = await listAll(sort);
+      expect(ids).toHaveLength(5);
+      expect(new Set(ids).size).toBe(5);
+      expect(ids).toEqual(all.json().documents.map((document: { id: string }) => document.id));
+    },
+  );
+
+  it("returns an empty last page past the last document", async () => {
+    const all = await listDocuments({ sort: "date_desc", limit: "5" });
+    expect(all.json().documents).toHaveLength(5);
+    expect(all.json().nextCursor).toBeNull();
+
+    const last = all.json().documents[4];
+    const past = await listDocuments({
+      sort: "date_desc",
+      cursor: encodeCursor("date_desc", { value: "2025-03-09T09:00:00.000Z", id: last.id }),
+    });
+    expect(past.statusCode).toBe(200);
+    expect(past.json()).toMatchObject({ documents: [], nextCursor: null });
+  });
+
+  it.each([
+    ["not base64 JSON", "date_desc", "not-a-cursor"],
+    ["issued for another sort", "date_desc", encodeCursor("amount_asc", { value: 10_000, id: "doc" })],
+    ["with a value that isn't a date", "date_desc", encodeCursor("date_desc", { value: "yesterday", id: "doc" })],
+    ["with a value that isn't an amount", "amount_desc", encodeCursor("amount_desc", { value: "lots", id: "doc" })],
+    ["without an ID", "date_desc", Buffer.from(JSON.stringify({ s: "date_desc", v: "2025-03-10T09:00:00.000Z" })).toString("base64url")],
+  ])("rejects a cursor %s with 400", async (_label, sort, cursor) => {
+    const response = await listDocuments({ sort, cursor });
+    expect(response.statusCode).toBe(400);
+    expect(response.json().message).toBe("Invalid cursor");
+  });
+});
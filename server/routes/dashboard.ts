@@ -1,9 +1,27 @@
 import { FastifyInstance } from "fastify";
 import { z } from "zod";
 import { store } from "../store";
-import { syncGmailInbox } from "../services/gmail-sync";
-import { sendDocumentsToAccountant } from "../services/email";
-import { env } from "../config";
+import { startBusinessSync, syncBusinessInboxes } from "../services/inbox-sync";
+import { sendPendingToAccountant } from "../services/accountant-delivery";
+import { contentDisposition, documentFileHeaders, loadDocumentFile } from "../services/blob-storage";
+import {
+  addOwnerComment,
+  getDocumentThread,
+  listDocumentRequests,
+  resolveRequestAsOwner,
+} from "../services/document-requests";
+import { buildExport, EXPORT_FORMATS } from "../services/exports";
+import {
+  decodeCursor,
+  DEFAULT_PAGE_SIZE,
+  DOCUMENT_SORTS,
+  DOCUMENT_SOURCES,
+  DOCUMENT_TYPES,
+  MAX_PAGE_SIZE,
+} from "../services/document-search";
+import { buildVatReport, generatePcn874 } from "../services/vat-report";
+import { getPeriodStatus } from "../services/period-close";
+import { isValidBusinessId, normalizeBusinessId } from "../services/israeli-ids";
 
 const businessParamsSchema = z.object({
   businessId: z.string().min(1),
@@ -11,6 +29,19 @@ const businessParamsSchema = z.object({
 
 const documentQuerySchema = z.object({
   status: z.enum(["all", "sent", "pending", "review"]).default("all"),
+  q: z.string().trim().max(200).optional(),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  minAmountCents: z.coerce.number().int().min(0).optional(),
+  maxAmountCents: z.coerce.number().int().min(0).optional(),
+  category: z.string().min(1).max(100).optional(),
+  type: z.enum(DOCUMENT_TYPES).optional(),
+  source: z.enum(DOCUMENT_SOURCES).optional(),
+  inboxId: z.string().min(1).optional(),
+  late: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  sort: z.enum(DOCUMENT_SORTS).default("date_desc"),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  cursor: z.string().min(1).optional(),
 });
 
 const chatMessageSchema = z.object({
@@ -24,8 +55,17 @@ const documentParamsSchema = z.object({
 });
 
 const exportQuerySchema = z.object({
-  format: z.enum(["csv"]).default("csv"),
+  format: z.enum(EXPORT_FORMATS).default("csv"),
   status: z.enum(["all", "sent", "pending", "review"]).default("all"),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  expenseAccount: z.string().min(1).max(15).optional(),
+  vatAccount: z.string().min(1).max(15).optional(),
+  supplierAccount: z.string().min(1).max(15).optional(),
+});
+
+const vatReportQuerySchema = z.object({
+  period: z.string().regex(/^\d{4}-\d{2}$/).optional(),
 });
 
 const updateDocumentSchema = z.object({
@@ -34,12 +74,64 @@ const updateDocumentSchema = z.object({
   amountCents: z.number().int().optional(),
   vendorName: z.string().optional(),
   status: z.enum(["sent", "pending", "review"]).optional(),
+  vatCents: z.number().int().nullable().optional(),
+  supplierTaxId: z.string()
+    .refine(isValidBusinessId, "Supplier tax ID is not a valid Israeli business number")
+    .transform((value) => normalizeBusinessId(value)!)
+    .nullable()
+    .optional(),
+  isFixedAsset: z.boolean().optional(),
+  invoiceNumber: z.string().trim().max(30).nullable().optional(),
+  allocationNumber: z.string().regex(/^\d{9}$/, "Allocation number must be 9 digits").nullable().optional(),
+});
+
+const duplicateQuerySchema = z.object({
+  status: z.enum(["suspected", "confirmed"]).default("suspected"),
+});
+
+const resolveDuplicateSchema = z.object({
+  action: z.enum(["confirm", "dismiss"]),
+});
+
+const fileQuerySchema = z.object({
+  disposition: z.enum(["inline", "attachment"]).default("inline"),
 });
 
 const monthQuerySchema = z.object({
   month: z.string().regex(/^\d{4}-\d{2}$/).optional(),
 });
 
+const outboxQuerySchema = z.object({
+  status: z.enum(["pending", "sending", "retrying", "sent", "failed"]).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+const syncQuerySchema = z.object({
+  wait: z.enum(["true", "false"]).default("false").transform((value) => value === "true"),
+});
+
+const outboxParamsSchema = z.object({
+  businessId: z.string().min(1),
+  messageId: z.string().min(1),
+});
+
+const requestListQuerySchema = z.object({
+  status: z.enum(["open", "resolved", "cancelled"]).default("open"),
+});
+
+const requestParamsSchema = z.object({
+  businessId: z.string().min(1),
+  requestId: z.string().min(1),
+});
+
+const commentSchema = z.object({
+  body: z.string().trim().min(1).max(2000),
+});
+
+const resolveRequestSchema = z.object({
+  note: z.string().trim().max(2000).optional(),
+});
+
 export async function registerDashboardRoutes(app: FastifyInstance): Promise<void> {
   app.get("/dashboard/:businessId/summary", async (request) => {
     const { businessId } = businessParamsSchema.parse(request.params);
@@ -48,8 +140,8 @@ export async function registerDashboardRoutes(app: FastifyInstance): Promise<voi
 
   app.get("/dashboard/:businessId/documents", async (request) => {
     const { businessId } = businessParamsSchema.parse(request.params);
-    const query = documentQuerySchema.parse(request.query);
-    return store.getDashboardDocuments(businessId, query.status);
+    const { cursor, ...query } = documentQuerySchema.parse(request.query);
+    return store.searchDocuments(businessId, { ...query, cursor: decodeCursor(query.sort, cursor) });
   });
 
   app.get("/dashboard/:businessId/documents/:documentId", async (request) => {
@@ -57,12 +149,61 @@ export async function registerDashboardRoutes(app: FastifyInstance): Promise<voi
     return store.getDashboardDocumentDetail(businessId, documentId);
   });
 
+  // Original invoice file (PDF/image) for preview or download
+  app.get("/dashboard/:businessId/documents/:documentId/file", async (request, reply) => {
+    const { businessId, documentId } = documentParamsSchema.parse(request.params);
+    const { disposition } = fileQuerySchema.parse(request.query);
+    const { file, data } = await loadDocumentFile(businessId, documentId);
+    reply.headers(documentFileHeaders(file, disposition));
+    return reply.send(data);
+  });
+
   app.patch("/dashboard/:businessId/documents/:documentId", async (request) => {
     const { businessId, documentId } = documentParamsSchema.parse(request.params);
     const updates = updateDocumentSchema.parse(request.body);
     return store.updateDocument(businessId, documentId, updates);
   });
 
+  // The accountant's comments and requests on a document, and replies to them
+  app.get("/dashboard/:businessId/documents/:documentId/thread", async (request) => {
+    const { businessId, documentId } = documentParamsSchema.parse(request.params);
+    return getDocumentThread(businessId, documentId);
+  });
+
+  app.post("/dashboard/:businessId/documents/:documentId/comments", async (request) => {
+    const { businessId, documentId } = documentParamsSchema.parse(request.params);
+    const { body } = commentSchema.parse(request.body);
+    return { comment: await addOwnerComment(businessId, documentId, request.ownerSession?.userId ?? null, body) };
+  });
+
+  // To-do list: what the accountant asked for (open by default)
+  app.get("/dashboard/:businessId/requests", async (request) => {
+    const { businessId } = businessParamsSchema.parse(request.params);
+    const { status } = requestListQuerySchema.parse(request.query);
+    return { requests: await listDocumentRequests(businessId, status) };
+  });
+
+  app.post("/dashboard/:businessId/requests/:requestId/resolve", async (request) => {
+    const { businessId, requestId } = requestParamsSchema.parse(request.params);
+    const { note } = resolveRequestSchema.parse(request.body ?? {});
+    return {
+      request: await resolveRequestAsOwner(businessId, requestId, request.ownerSession?.userId ?? null, note),
+    };
+  });
+
+  // Possible duplicates, grouped under the document they copy
+  app.get("/dashboard/:businessId/duplicates", async (request) => {
+    const { businessId } = businessParamsSchema.parse(request.params);
+    const { status } = duplicateQuerySchema.parse(request.query);
+    return store.getDuplicateGroups(businessId, status.toUpperCase());
+  });
+
+  app.post("/dashboard/:businessId/documents/:documentId/duplicate", async (request) => {
+    const { businessId, documentId } = documentParamsSchema.parse(request.params);
+    const { action } = resolveDuplicateSchema.parse(request.body);
+    return store.resolveDuplicate(businessId, documentId, action);
+  });
+
   app.get("/dashboard/:businessId/monthly-pdf", async (request, reply) => {
     const { businessId } = businessParamsSchema.parse(request.params);
     const { month } = monthQuerySchema.parse(request.query);
@@ -97,10 +238,49 @@ export async function registerDashboardRoutes(app: FastifyInstance): Promise<voi
   app.get("/dashboard/:businessId/export", async (request, reply) => {
     const { businessId } = businessParamsSchema.parse(request.params);
     const query = exportQuerySchema.parse(request.query);
-    const csv = store.exportDashboardCsv(businessId, query.status);
-    reply.header("Content-Type", "text/csv; charset=utf-8");
-    reply.header("Content-Disposition", `attachment; filename="sendtoamram-${businessId}.csv"`);
-    return csv;
+    const file = await buildExport(businessId, query.format, {
+      status: query.status,
+      from: query.from,
+      to: query.to,
+      accounts: { expense: query.expenseAccount, vat: query.vatAccount, supplier: query.supplierAccount },
+    });
+    reply.header("Content-Type", file.contentType);
+    reply.header("Content-Disposition", contentDisposition("attachment", file.filename));
+    return reply.send(file.body);
+  });
+
+  // Months the accountant closed; their documents are read-only here
+  app.get("/dashboard/:businessId/periods", async (request) => {
+    const { businessId } = businessParamsSchema.parse(request.params);
+    return getPeriodStatus(businessId);
+  });
+
+  app.get("/dashboard/:businessId/vat-report", async (request) => {
+    const { businessId } = businessParamsSchema.parse(request.params);
+    const { period } = vatReportQuerySchema.parse(request.query);
+    return buildVatReport(businessId, period);
+  });
+
+  app.get("/dashboard/:businessId/vat-report/pdf", async (request, reply) => {
+    const { businessId } = businessParamsSchema.parse(request.params);
+    const { period } = vatReportQuerySchema.parse(request.query);
+    const report = await buildVatReport(businessId, period);
+
+    const { generateVatReport } = await import("../services/pdf");
+    const pdfBuffer = await generateVatReport(report);
+
+    reply.header("Content-Type", "application/pdf");
+    reply.header("Content-Disposition", `attachment; filename="vat-report-${report.period.key}.pdf"`);
+    return reply.send(pdfBuffer);
+  });
+
+  app.get("/dashboard/:businessId/vat-report/pcn874", async (request, reply) => {
+    const { businessId } = businessParamsSchema.parse(request.params);
+    const { period } = vatReportQuerySchema.parse(request.query);
+    const file = generatePcn874(await buildVatReport(businessId, period));
+    reply.header("Content-Type", "text/plain; charset=us-ascii");
+    reply.header("Content-Disposition", contentDisposition("attachment", file.filename));
+    return reply.send(file.body);
   });
 
   app.get("/dashboard/:businessId/chat", async (request) => {
@@ -116,46 +296,22 @@ export async function registerDashboardRoutes(app: FastifyInstance): Promise<voi
 
   app.post("/dashboard/:businessId/send-to-accountant", async (request) => {
     const { businessId } = businessParamsSchema.parse(request.params);
+    return sendPendingToAccountant(businessId);
+  });
 
-    if (!env.RESEND_API_KEY) {
-      throw new Error("Email delivery is not configured (missing RESEND_API_KEY)");
-    }
-
-    const accountant = await store.getAccountantForBusiness(businessId);
-    if (!accountant.email) {
-      throw new Error("לא הוגדר מייל לרואה חשבון. עדכנו בהגדרות.");
-    }
-
-    const { documents } = await store.getDashboardDocuments(businessId, "pending");
-    if (documents.length === 0) {
-      return { sent: false, message: "אין מסמכים ממתינים לשליחה." };
-    }
-
-    const summary = await store.getDashboardSummary(businessId);
-
-    const result = await sendDocumentsToAccountant({
-      accountantEmail: accountant.email,
-      accountantName: accountant.name,
-      businessName: summary.business.name,
-      documents: documents.map((d: any) => ({
-        vendor: d.vendor,
-        amountCents: d.amountCents,
-        currency: d.currency,
-        issuedAt: d.issuedAt,
-        category: d.category,
-        type: d.type ?? "invoice",
-      })),
-    });
-
-    const sentIds = documents.map((d: any) => d.id);
-    await store.markDocumentsSent(businessId, sentIds);
+  // Delivery status of the business's outbound emails and WhatsApp notifications
+  app.get("/dashboard/:businessId/outbox", async (request) => {
+    const { businessId } = businessParamsSchema.parse(request.params);
+    const { status, limit } = outboxQuerySchema.parse(request.query);
+    return store.getOutboxMessages(businessId, { status, limit });
+  });
 
-    return {
-      sent: true,
-      emailId: result.id,
-      documentCount: documents.length,
-      accountantEmail: accountant.email,
-    };
+  app.post("/dashboard/:businessId/outbox/:messageId/retry", async (request) => {
+    const { businessId, messageId } = outboxParamsSchema.parse(request.params);
+    await store.retryOutboxMessage(businessId, messageId);
+    const { processOutbox } = await import("../services/outbox");
+    await processOutbox();
+    return store.getOutboxMessage(businessId, messageId);
   });
 
   app.get("/dashboard/:businessId/categories", async (request) => {
@@ -186,21 +342,19 @@ export async function registerDashboardRoutes(app: FastifyInstance): Promise<voi
     return { ok: true };
   });
 
-  app.post("/dashboard/:businessId/sync", async (request) => {
+  // Sync runs in the background and reports over the event stream;
+  // ?wait=true blocks until it's done (scripts, serverless deployments)
+  app.post("/dashboard/:businessId/sync", async (request, reply) => {
     const { businessId } = businessParamsSchema.parse(request.params);
-    const gmailInboxes = await store.getGmailInboxes(businessId);
-    let totalNew = 0;
-
-    for (const inbox of gmailInboxes) {
-      try {
-        const result = await syncGmailInbox(inbox.id);
-        totalNew += result.newDocuments;
-      } catch (error) {
-        console.error(`[sync] Gmail sync failed for inbox ${inbox.id}:`, error);
-      }
+    const { wait } = syncQuerySchema.parse(request.query);
+    if (!wait) {
+      const started = startBusinessSync(businessId);
+      reply.code(202);
+      return { started, alreadyRunning: !started };
     }
 
+    const { newDocuments } = await syncBusinessInboxes(businessId);
     const summary = await store.getDashboardSummary(businessId);
-    return { newDocuments: totalNew, summary };
+    return { newDocuments, summary };
   });
 }
@@ -0,0 +1,50 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { createServer } from "../app";
+import { store } from "../store";
+import { signUpOwner, type TestApp } from "../test/helpers";
+
+describe("Deep scan actions", () => {
+  let app: TestApp;
+  let owner: Awaited<ReturnType<typeof signUpOwner>>;
+
+  const act = (action: string, scanJobId: string) => app.inject({
+    method: "POST",
+    url: `/api/deep-scan/${owner.businessId}/${action}`,
+    headers: { authorization: `Bearer ${owner.token}` },
+    payload: { scanJobId },
+  });
+
+  beforeAll(async () => {
+    app = await createServer();
+    owner = await signUpOwner(app, "scan-owner@example.com");
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it("returns 404 for an unknown scan", async () => {
+    for (const action of ["pause", "resume", "cancel"]) {
+      const response = await act(action, "no-such-scan");
+      expect(response.statusCode).toBe(404);
+      expect(response.json().message).toBe("Scan not found");
+    }
+  });
+
+  it("returns 404 for another business's scan", async () => {
+    vi.spyOn(store, "getScanJob").mockResolvedValue({
+      id: "other-scan",
+      businessId: "other-business",
+      inboxConnectionId: "other-inbox",
+      status: "AI_PASS",
+    });
+
+    const response = await act("pause", "other-scan");
+    expect(response.statusCode).toBe(404);
+    expect(response.json().message).toBe("Scan not found");
+  });
+});
@@ -1,9 +1,188 @@
 import { FastifyInstance } from "fastify";
+import { z } from "zod";
 import { store } from "../store";
 import { env } from "../config";
+import { ACTIVE_SCAN_STATUSES, startDeepScans } from "../services/deep-scan";
+import { publishEvent } from "../services/events";
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+const startScanSchema = z.object({
+  inboxId: z.string().min(1).optional(),
+  from: dateSchema.optional(),
+  to: dateSchema.optional(),
+  extraTerms: z.string().max(500).optional(),
+  excludedSenders: z.array(
+    z.string().trim().min(1).max(200).regex(/^[^\s()"]+$/, "Excluded senders must be addresses or domains"),
+  ).max(50).optional(),
+}).refine((body) => !body.from || !body.to || body.from <= body.to, {
+  message: "`from` must not be after `to`",
+  path: ["from"],
+});
+
+/** Without a scanJobId, the action applies to every scan it fits. */
+const scanTargetSchema = z.object({
+  scanJobId: z.string().min(1).optional(),
+});
+
+interface ScanJobRow {
+  id: string;
+  businessId: string;
+  inboxConnectionId: string;
+  inboxEmail?: string | null;
+  status: string;
+  currentPass: string | null;
+  discoveryPageToken: string | null;
+  totalDiscovered: number;
+  totalToProcess: number;
+  processedCount: number;
+  documentsCreated: number;
+  skippedCount: number;
+  errorCount: number;
+  aiTotal: number;
+  aiProcessed: number;
+  afterDate: Date | string | null;
+  beforeDate: Date | string | null;
+  extraTerms: string | null;
+  excludedSenders: string[] | null;
+  lastError: string | null;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
+const RUNNING_STATUSES = ["DISCOVERING", "PROCESSING", "AI_PASS"];
+/** The combined status shows the scan furthest from done. */
+const STATUS_ORDER = ["DISCOVERING", "PROCESSING", "AI_PASS", "PAUSED", "FAILED", "CANCELLED", "COMPLETED"];
+
+function toDateString(value: Date | string | null): string | null {
+  if (!value) return null;
+  return typeof value === "string" ? value.slice(0, 10) : value.toISOString().slice(0, 10);
+}
+
+function toIso(value: Date | string): string {
+  return typeof value === "string" ? value : value.toISOString();
+}
+
+function percent(done: number, total: number): number {
+  return total > 0 ? Math.round((done / total) * 100) : 0;
+}
+
+function describeScan(job: ScanJobRow) {
+  const totalToProcess = job.totalToProcess || job.totalDiscovered || 0;
+  return {
+    active: RUNNING_STATUSES.includes(job.status),
+    scanJobId: job.id,
+    inboxId: job.inboxConnectionId,
+    inboxEmail: job.inboxEmail ?? null,
+    status: job.status,
+    currentPass: job.currentPass,
+    filters: {
+      from: toDateString(job.afterDate),
+      to: toDateString(job.beforeDate),
+      extraTerms: job.extraTerms ?? null,
+      excludedSenders: job.excludedSenders ?? [],
+    },
+    discovery: {
+      totalFound: job.totalDiscovered,
+      isComplete: job.status !== "DISCOVERING",
+    },
+    processing: {
+      total: totalToProcess,
+      processed: job.processedCount,
+      created: job.documentsCreated,
+      skipped: job.skippedCount,
+      errors: job.errorCount,
+      percent: percent(job.processedCount, totalToProcess),
+    },
+    ai: {
+      total: job.aiTotal,
+      processed: job.aiProcessed,
+      percent: percent(job.aiProcessed, job.aiTotal),
+    },
+    lastError: job.lastError,
+    startedAt: toIso(job.createdAt),
+    updatedAt: toIso(job.updatedAt),
+  };
+}
+
+type ScanStatus = ReturnType<typeof describeScan>;
+
+/** All of a business's scans rolled into one progress summary. */
+function combineScans(scans: ScanStatus[]) {
+  const [first] = [...scans].sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status));
+  const sum = (pick: (scan: ScanStatus) => number) => scans.reduce((total, scan) => total + pick(scan), 0);
+
+  const processingTotal = sum((s) => s.processing.total);
+  const processed = sum((s) => s.processing.processed);
+  const aiTotal = sum((s) => s.ai.total);
+  const aiProcessed = sum((s) => s.ai.processed);
+
+  return {
+    active: scans.some((s) => s.active),
+    scanJobId: first.scanJobId,
+    status: first.status,
+    currentPass: first.currentPass,
+    discovery: {
+      totalFound: sum((s) => s.discovery.totalFound),
+      isComplete: scans.every((s) => s.discovery.isComplete),
+    },
+    processing: {
+      total: processingTotal,
+      processed,
+      created: sum((s) => s.processing.created),
+      skipped: sum((s) => s.processing.skipped),
+      errors: sum((s) => s.processing.errors),
+      percent: percent(processed, processingTotal),
+    },
+    ai: { total: aiTotal, processed: aiProcessed, percent: percent(aiProcessed, aiTotal) },
+    lastError: scans.find((s) => s.lastError)?.lastError ?? null,
+    startedAt: scans.map((s) => s.startedAt).sort()[0],
+    updatedAt: scans.map((s) => s.updatedAt).sort().pop(),
+  };
+}
+
+/**
+ * The scans an action applies to: the one named, or the business's latest
+ * scan on each inbox that is in one of `statuses`.
+ */
+async function getTargetScans(businessId: string, scanJobId: string | undefined, statuses: string[]): Promise<ScanJobRow[]> {
+  if (scanJobId) {
+    const job: ScanJobRow | null = await store.getScanJob(scanJobId);
+    if (!job || job.businessId !== businessId) {
+      throw Object.assign(new Error("Scan not found"), { statusCode: 404 });
+    }
+    return statuses.includes(job.status) ? [job] : [];
+  }
+  const jobs: ScanJobRow[] = await store.getScanJobsForBusiness(businessId);
+  return jobs.filter((job) => statuses.includes(job.status));
+}
+
+function publishPhase(job: ScanJobRow, status: string) {
+  return publishEvent(job.businessId, {
+    type: "scan.phase",
+    scanJobId: job.id,
+    inboxId: job.inboxConnectionId,
+    status,
+    previousStatus: job.status,
+  });
+}
+
+/** Pick up a paused scan in the phase it stopped in. */
+async function getResumeStatus(job: ScanJobRow): Promise<string> {
+  const counts = await store.getScanQueueCountByStatus(job.id);
+  const hasPending = (counts["PENDING"]?.count ?? 0) > 0;
+  const hasRegexDone = Object.entries(counts)
+    .filter(([s]) => s === "REGEX_DONE")
+    .some(([, v]: [string, any]) => (v.needsAi ?? 0) > 0);
+
+  if (hasPending) return "PROCESSING";
+  if (hasRegexDone) return "AI_PASS";
+  // Check if discovery was incomplete
+  return job.discoveryPageToken ? "DISCOVERING" : "PROCESSING";
+}
 
 export async function registerDeepScanRoutes(app: FastifyInstance): Promise<void> {
-  // Start a deep scan for a business
+  // Start deep scans — one per chosen inbox (all Gmail inboxes by default)
   app.post<{ Params: { businessId: string } }>(
     "/deep-scan/:businessId/start",
     async (request, reply) => {
@@ -13,6 +192,7 @@ export async function registerDeepScanRoutes(app: FastifyInstance): Promise<void
       }
 
       const { businessId } = request.params;
+      const options = startScanSchema.parse(request.body ?? {});
 
       // Gate behind billing (if Stripe is configured)
       if (env.STRIPE_SECRET_KEY) {
@@ -23,153 +203,104 @@ export async function registerDeepScanRoutes(app: FastifyInstance): Promise<void
         }
       }
 
-      // Check if there's already an active scan
-      const existing = await store.getActiveScanJob(businessId);
-      if (existing) {
-        return {
-          scanJobId: existing.id,
-          status: existing.status,
-          message: "A scan is already active",
-        };
-      }
-
-      // Find the Gmail inbox for this business
-      const inboxes = await store.getGmailInboxes(businessId);
-      if (inboxes.length === 0) {
-        reply.code(400);
-        return { error: "No Gmail inbox connected" };
-      }
-
-      const inbox = inboxes[0];
-
-      // Build Gmail search query for invoices going back 3 years
-      const afterDate = new Date();
-      afterDate.setFullYear(afterDate.getFullYear() - 3);
-      const afterStr = `${afterDate.getFullYear()}/${String(afterDate.getMonth() + 1).padStart(2, "0")}/${String(afterDate.getDate()).padStart(2, "0")}`;
-
-      const gmailQuery = `after:${afterStr} (has:attachment OR subject:(חשבונית OR invoice OR receipt OR קבלה OR payment OR תשלום OR billing OR הזמנה))`;
-
-      const { id } = await store.createScanJob(
-        businessId,
-        inbox.id,
-        gmailQuery,
-        afterDate.toISOString().slice(0, 10),
-      );
-
-      console.log(`[deep-scan] Started scan job ${id} for business ${businessId}`);
+      const scans = await startDeepScans(businessId, options);
+      const started = scans.filter((scan) => scan.started).length;
 
       return {
-        scanJobId: id,
-        status: "DISCOVERING",
-        message: "Deep scan started",
+        scans,
+        message: started === scans.length
+          ? "Deep scan started"
+          : started === 0 ? "A scan is already active" : `Deep scan started on ${started} of ${scans.length} inboxes`,
       };
     },
   );
 
-  // Get scan status
+  // Get scan status — combined progress, each inbox's latest scan, and the inboxes that can be scanned
   app.get<{ Params: { businessId: string } }>(
     "/deep-scan/:businessId/status",
-    async (request, reply) => {
+    async (request) => {
       const { businessId } = request.params;
 
-      // First check active scan
-      let job = await store.getActiveScanJob(businessId);
-
-      // If no active scan, check most recent completed/paused one
-      if (!job) {
-        job = await store.getLatestCompletedScanJob(businessId);
-      }
+      const jobs: ScanJobRow[] = await store.getScanJobsForBusiness(businessId);
+      const inboxes: Array<{ id: string; email: string }> = await store.getGmailInboxes(businessId);
+      const scans = jobs.map(describeScan);
 
-      if (!job) {
-        return { active: false };
+      if (scans.length === 0) {
+        return { active: false, scans, inboxes: inboxes.map(({ id, email }) => ({ id, email })) };
       }
 
-      // Calculate percentages
-      const discoveryComplete = job.status !== "DISCOVERING";
-      const totalToProcess = job.totalToProcess || job.totalDiscovered || 0;
-      const processedPercent = totalToProcess > 0
-        ? Math.round((job.processedCount / totalToProcess) * 100)
-        : 0;
-      const aiPercent = job.aiTotal > 0
-        ? Math.round((job.aiProcessed / job.aiTotal) * 100)
-        : 0;
-
       return {
-        active: ["DISCOVERING", "PROCESSING", "AI_PASS"].includes(job.status),
-        scanJobId: job.id,
-        status: job.status,
-        currentPass: job.currentPass,
-        discovery: {
-          totalFound: job.totalDiscovered,
-          isComplete: discoveryComplete,
-        },
-        processing: {
-          total: totalToProcess,
-          processed: job.processedCount,
-          created: job.documentsCreated,
-          skipped: job.skippedCount,
-          errors: job.errorCount,
-          percent: processedPercent,
-        },
-        ai: {
-          total: job.aiTotal,
-          processed: job.aiProcessed,
-          percent: aiPercent,
-        },
-        lastError: job.lastError,
-        startedAt: job.createdAt?.toISOString?.() ?? job.createdAt,
-        updatedAt: job.updatedAt?.toISOString?.() ?? job.updatedAt,
+        ...combineScans(scans),
+        scans,
+        inboxes: inboxes.map(({ id, email }) => ({ id, email })),
       };
     },
   );
 
-  // Pause a scan
+  // Pause running scans
   app.post<{ Params: { businessId: string } }>(
     "/deep-scan/:businessId/pause",
     async (request, reply) => {
       const { businessId } = request.params;
-      const job = await store.getActiveScanJob(businessId);
-      if (!job) {
+      const { scanJobId } = scanTargetSchema.parse(request.body ?? {});
+      const jobs = await getTargetScans(businessId, scanJobId, RUNNING_STATUSES);
+      if (jobs.length === 0) {
         reply.code(404);
         return { error: "No active scan to pause" };
       }
 
-      await store.updateScanJob(job.id, { status: "PAUSED" });
-      return { scanJobId: job.id, status: "PAUSED" };
+      for (const job of jobs) {
+        await store.updateScanJob(job.id, { status: "PAUSED" });
+        await publishPhase(job, "PAUSED");
+      }
+      return { scans: jobs.map((job) => ({ scanJobId: job.id, status: "PAUSED" })) };
     },
   );
 
-  // Resume a scan
+  // Resume paused scans
   app.post<{ Params: { businessId: string } }>(
     "/deep-scan/:businessId/resume",
     async (request, reply) => {
       const { businessId } = request.params;
-
-      const job = await store.getLatestCompletedScanJob(businessId);
-      if (!job || job.status !== "PAUSED") {
+      const { scanJobId } = scanTargetSchema.parse(request.body ?? {});
+      const jobs = await getTargetScans(businessId, scanJobId, ["PAUSED"]);
+      if (jobs.length === 0) {
         reply.code(404);
         return { error: "No paused scan to resume" };
       }
 
-      // Determine which phase to resume in
-      const counts = await store.getScanQueueCountByStatus(job.id);
-      const hasPending = (counts["PENDING"]?.count ?? 0) > 0;
-      const hasRegexDone = Object.entries(counts)
-        .filter(([s]) => s === "REGEX_DONE")
-        .some(([, v]: [string, any]) => (v.needsAi ?? 0) > 0);
-
-      let resumeStatus: string;
-      if (hasPending) {
-        resumeStatus = "PROCESSING";
-      } else if (hasRegexDone) {
-        resumeStatus = "AI_PASS";
-      } else {
-        // Check if discovery was incomplete
-        resumeStatus = job.discoveryPageToken ? "DISCOVERING" : "PROCESSING";
+      const scans = [];
+      for (const job of jobs) {
+        const resumeStatus = await getResumeStatus(job);
+        await store.updateScanJob(job.id, { status: resumeStatus });
+        await publishPhase(job, resumeStatus);
+        scans.push({ scanJobId: job.id, status: resumeStatus });
+      }
+      return { scans };
+    },
+  );
+
+  // Cancel scans for good — their queues are dropped, documents already found stay
+  app.post<{ Params: { businessId: string } }>(
+    "/deep-scan/:businessId/cancel",
+    async (request, reply) => {
+      const { businessId } = request.params;
+      const { scanJobId } = scanTargetSchema.parse(request.body ?? {});
+      const jobs = await getTargetScans(businessId, scanJobId, ACTIVE_SCAN_STATUSES);
+      if (jobs.length === 0) {
+        reply.code(404);
+        return { error: "No scan to cancel" };
       }
 
-      await store.updateScanJob(job.id, { status: resumeStatus });
-      return { scanJobId: job.id, status: resumeStatus };
+      const scans = [];
+      for (const job of jobs) {
+        if (await store.cancelScanJob(job.id)) {
+          console.log(`[deep-scan] Cancelled scan job ${job.id} for business ${businessId}`);
+          await publishPhase(job, "CANCELLED");
+          scans.push({ scanJobId: job.id, status: "CANCELLED" });
+        }
+      }
+      return { scans };
     },
   );
 }
@@ -0,0 +1,57 @@
+import type { ServerResponse } from "http";
+import { FastifyInstance } from "fastify";
+import { z } from "zod";
+import { subscribeToEvents, type BusinessEvent } from "../services/events";
+
+const businessParamsSchema = z.object({
+  businessId: z.string().min(1),
+});
+
+/** Keeps proxies and load balancers from closing an idle stream. */
+const HEARTBEAT_MS = 25_000;
+
+function formatEvent(event: { id?: string; type: string }): string {
+  return `${event.id ? `id: ${event.id}\n` : ""}event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+export async function registerEventRoutes(app: FastifyInstance): Promise<void> {
+  const openStreams = new Set<ServerResponse>();
+
+  // Streams never go idle, so end them or shutdown would wait on them forever
+  app.addHook("preClose", async () => {
+    for (const stream of openStreams) stream.end();
+  });
+
+  // Live dashboard updates as Server-Sent Events: scan phases and progress,
+  // new documents, sync results and alerts. Opens with a `ready` event —
+  // clients refetch then to catch up on anything missed while disconnected.
+  app.get("/events/:businessId", async (request, reply) => {
+    const { businessId } = businessParamsSchema.parse(request.params);
+
+    reply.hijack();
+    // Keep the CORS headers set by earlier hooks
+    for (const [name, value] of Object.entries(reply.getHeaders())) {
+      if (value !== undefined) reply.raw.setHeader(name, value);
+    }
+    reply.raw.writeHead(200, {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    openStreams.add(reply.raw);
+    reply.raw.write("retry: 5000\n\n");
+    reply.raw.write(formatEvent({ type: "ready" }));
+
+    const unsubscribe = subscribeToEvents(businessId, (event: BusinessEvent) => {
+      reply.raw.write(formatEvent(event));
+    });
+    const heartbeat = setInterval(() => reply.raw.write(": ping\n\n"), HEARTBEAT_MS);
+
+    request.raw.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+      openStreams.delete(reply.raw);
+    });
+  });
+}
@@ -1,85 +1,84 @@
-import { FastifyInstance } from "fastify";
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { z } from "zod";
 import { env } from "../config";
+import { store } from "../store";
+import type { JobName } from "../services/jobs";
 
-export async function registerHealthRoutes(app: FastifyInstance): Promise<void> {
-  app.get("/health", async () => ({
-    ok: true,
-    timestamp: new Date().toISOString(),
-  }));
+const jobRunsQuerySchema = z.object({
+  name: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
 
-  // Vercel Cron endpoint for monthly delivery
-  app.post("/cron/monthly-delivery", async (request, reply) => {
-    const authHeader = request.headers.authorization;
-    if (env.CRON_SECRET && authHeader !== `Bearer ${env.CRON_SECRET}`) {
+function isCronAuthorized(request: FastifyRequest): boolean {
+  return !env.CRON_SECRET || request.headers.authorization === `Bearer ${env.CRON_SECRET}`;
+}
+
+/**
+ * Cron routes just tick the job scheduler for their own jobs: the due slot is
+ * enqueued and run, and the run lands in job_runs. A failed run answers 500
+ * so it shows up in Vercel's cron logs.
+ */
+function cronTickHandler(label: string, jobs?: JobName[], options: { enqueue?: JobName } = {}) {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!isCronAuthorized(request)) {
       reply.code(401);
       return { error: "Unauthorized" };
     }
 
     try {
-      const { checkAndRunMonthlyDeliveries } = await import("../services/monthly-delivery");
-      const result = await checkAndRunMonthlyDeliveries();
+      const { enqueueJob, tickScheduler } = await import("../services/jobs");
+      if (options.enqueue) await enqueueJob(options.enqueue);
+      const result = await tickScheduler({ jobs });
+      if (result.runs.some((run) => run.status !== "succeeded")) reply.code(500);
       return { ok: true, ...result };
     } catch (error) {
-      console.error("[cron] Monthly delivery failed:", error);
+      console.error(`[cron] ${label} failed:`, error);
       reply.code(500);
-      return { error: "Monthly delivery failed" };
+      return { error: `${label} failed` };
     }
-  });
+  };
+}
 
-  // Vercel Cron endpoint for Gmail sync
-  app.post("/cron/gmail-sync", async (request, reply) => {
-    const authHeader = request.headers.authorization;
-    if (env.CRON_SECRET && authHeader !== `Bearer ${env.CRON_SECRET}`) {
-      reply.code(401);
-      return { error: "Unauthorized" };
-    }
+export async function registerHealthRoutes(app: FastifyInstance): Promise<void> {
+  app.get("/health", async () => ({
+    ok: true,
+    timestamp: new Date().toISOString(),
+  }));
 
-    try {
-      const { syncAllGmailInboxes } = await import("../services/gmail-sync");
-      const result = await syncAllGmailInboxes();
-      return { ok: true, ...result };
-    } catch (error) {
-      console.error("[cron] Gmail sync failed:", error);
-      reply.code(500);
-      return { error: "Gmail sync failed" };
-    }
-  });
+  // Runs every due job — for schedulers other than Vercel (system cron, uptime pingers)
+  app.post("/cron/tick", cronTickHandler("Scheduler tick"));
 
-  // Vercel Cron endpoint for deep scan processing
-  app.post("/cron/deep-scan", async (request, reply) => {
-    const authHeader = request.headers.authorization;
-    if (env.CRON_SECRET && authHeader !== `Bearer ${env.CRON_SECRET}`) {
-      reply.code(401);
-      return { error: "Unauthorized" };
-    }
+  // Vercel Cron endpoint for monthly delivery
+  app.post("/cron/monthly-delivery", cronTickHandler("Monthly delivery", ["monthly-delivery"]));
 
-    try {
-      const { processScanJobs } = await import("../services/deep-scan");
-      const result = await processScanJobs();
-      return { ok: true, ...result };
-    } catch (error) {
-      console.error("[cron] Deep scan failed:", error);
-      reply.code(500);
-      return { error: "Deep scan failed" };
-    }
-  });
+  // Vercel Cron endpoint for inbox sync (Gmail + Outlook).
+  // /cron/gmail-sync is kept for schedules that still point at the old path.
+  const inboxSyncHandler = cronTickHandler("Inbox sync", ["inbox-sync"]);
+  app.post("/cron/inbox-sync", inboxSyncHandler);
+  app.post("/cron/gmail-sync", inboxSyncHandler);
+
+  // Vercel Cron endpoint for deep scan processing
+  app.post("/cron/deep-scan", cronTickHandler("Deep scan", ["deep-scan"]));
 
   // Vercel Cron endpoint for missing receipt detection (1st of month, 9AM)
-  app.post("/cron/missing-receipts", async (request, reply) => {
-    const authHeader = request.headers.authorization;
-    if (env.CRON_SECRET && authHeader !== `Bearer ${env.CRON_SECRET}`) {
+  app.post("/cron/missing-receipts", cronTickHandler("Missing receipts check", ["missing-receipts"]));
+
+  // Vercel Cron endpoint for Bank of Israel representative rates (daily, after publication)
+  app.post("/cron/exchange-rates", cronTickHandler("Exchange rate sync", ["exchange-rates"]));
+
+  // Re-estimate VAT after a rate change (one-off, not scheduled)
+  app.post("/cron/vat-backfill", cronTickHandler("VAT backfill", ["vat-backfill"], { enqueue: "vat-backfill" }));
+
+  // Vercel Cron endpoint for retrying queued outbound messages
+  app.post("/cron/outbox", cronTickHandler("Outbox processing", ["outbox"]));
+
+  // Recent job runs, newest first
+  app.get("/cron/job-runs", async (request, reply) => {
+    if (!isCronAuthorized(request)) {
       reply.code(401);
       return { error: "Unauthorized" };
     }
-
-    try {
-      const { processAllBusinesses } = await import("../services/missing-receipts");
-      const result = await processAllBusinesses();
-      return { ok: true, ...result };
-    } catch (error) {
-      console.error("[cron] Missing receipts check failed:", error);
-      reply.code(500);
-      return { error: "Missing receipts check failed" };
-    }
+    const { name, limit } = jobRunsQuerySchema.parse(request.query);
+    return store.getJobRuns({ name, limit });
   });
 }
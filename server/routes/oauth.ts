@@ -10,6 +10,7 @@ import {
   isOAuthConfigured,
   parseOAuthState,
 } from "../services/oauth";
+import { requireBusinessMember } from "../services/owner-auth";
 
 const providerSchema = z.object({
   provider: z.enum(["gmail", "outlook"]),
@@ -45,7 +46,7 @@ function onboardingRedirect(params: {
 }
 
 export async function registerOAuthRoutes(app: FastifyInstance): Promise<void> {
-  app.get("/oauth/:provider/start", async (request) => {
+  app.get("/oauth/:provider/start", { preHandler: requireBusinessMember }, async (request) => {
     const { provider } = providerSchema.parse(request.params);
     const { businessId } = startQuerySchema.parse(request.query);
     store.getOnboardingState(businessId);
@@ -1,20 +1,35 @@
 import { FastifyInstance } from "fastify";
 import { z } from "zod";
 import { store } from "../store";
-import { syncGmailInbox } from "../services/gmail-sync";
+import { syncBusinessInboxes } from "../services/inbox-sync";
+import { connectImapInbox } from "../services/imap-sync";
+import { acceptClientInvite, getInvitePrefill, getOpenInvitation } from "../services/accountant-invites";
+import { createOwnerSession, getOptionalOwnerSession, requireBusinessMember } from "../services/owner-auth";
 
 const startPayloadSchema = z.object({
-  email: z.string().email().optional(),
+  email: z.string().email(),
   fullName: z.string().min(1).optional(),
   businessName: z.string().min(1).optional(),
   accountantName: z.string().min(1).optional(),
   accountantEmail: z.string().email().optional(),
+  /** From an accountant's invitation link; makes the inviter this business's accountant */
+  inviteToken: z.string().min(1).optional(),
+});
+
+const inviteQuerySchema = z.object({
+  token: z.string().min(1),
 });
 
 const connectInboxPayloadSchema = z.object({
   businessId: z.string().min(1),
   provider: z.enum(["gmail", "outlook", "imap", "yahoo", "icloud"]),
   email: z.string().email().optional(),
+  // IMAP / Yahoo / iCloud: app password (host settings only needed for generic IMAP)
+  appPassword: z.string().min(1).optional(),
+  imapHost: z.string().min(1).optional(),
+  imapPort: z.number().int().positive().max(65535).optional(),
+  imapSecure: z.boolean().optional(),
+  imapUsername: z.string().min(1).optional(),
 });
 
 const scanPayloadSchema = z.object({
@@ -29,31 +44,66 @@ const businessParamsSchema = z.object({
 export async function registerOnboardingRoutes(app: FastifyInstance): Promise<void> {
   app.post("/onboarding/start", async (request) => {
     const body = startPayloadSchema.parse(request.body);
-    return store.startOnboarding(body);
+    const session = await getOptionalOwnerSession(request);
+
+    // An existing account can only be resumed by its logged-in owner
+    const existingUser = await store.getUserByEmail(body.email);
+    if (existingUser && existingUser.id !== session?.userId) {
+      throw new Error("Email is already in use");
+    }
+
+    const { inviteToken, ...payload } = body;
+    const invitation = inviteToken ? await getOpenInvitation(inviteToken) : null;
+    const state = await store.startOnboarding({
+      ...payload,
+      accountantName: payload.accountantName ?? invitation?.accountantName ?? undefined,
+    });
+    if (invitation) {
+      await acceptClientInvite(invitation, state.business.id);
+    }
+    const sessionToken = session?.userId === state.user.id
+      ? null
+      : await createOwnerSession(state.user.id);
+    return { ...state, sessionToken };
   });
 
-  app.get("/onboarding/state/:businessId", async (request) => {
+  // Details to prefill the signup form from an accountant's invitation. The
+  // token goes in the query: it's longer than Fastify allows a path param
+  app.get("/onboarding/invite", async (request) => {
+    const { token } = inviteQuerySchema.parse(request.query);
+    return getInvitePrefill(token);
+  });
+
+  app.get("/onboarding/state/:businessId", { preHandler: requireBusinessMember }, async (request) => {
     const { businessId } = businessParamsSchema.parse(request.params);
     return store.getOnboardingState(businessId);
   });
 
-  app.post("/onboarding/connect-inbox", async (request) => {
+  app.post("/onboarding/connect-inbox", { preHandler: requireBusinessMember }, async (request) => {
     const body = connectInboxPayloadSchema.parse(request.body);
+    if (body.appPassword && (body.provider === "imap" || body.provider === "yahoo" || body.provider === "icloud")) {
+      if (!body.email) {
+        throw Object.assign(new Error("Email is required for IMAP inboxes"), { statusCode: 400 });
+      }
+      return connectImapInbox({
+        businessId: body.businessId,
+        provider: body.provider,
+        email: body.email,
+        appPassword: body.appPassword,
+        host: body.imapHost,
+        port: body.imapPort,
+        secure: body.imapSecure,
+        username: body.imapUsername,
+      });
+    }
     return store.connectInbox(body);
   });
 
-  app.post("/onboarding/scan", async (request) => {
+  app.post("/onboarding/scan", { preHandler: requireBusinessMember }, async (request) => {
     const body = scanPayloadSchema.parse(request.body);
 
     // Quick scan: 3-month window, max 10 messages, NO AI (free preview for non-paying users)
-    const gmailInboxes = await store.getGmailInboxes(body.businessId);
-    for (const inbox of gmailInboxes) {
-      try {
-        await syncGmailInbox(inbox.id, { quickScan: true });
-      } catch (error) {
-        console.error(`[scan] Gmail sync failed for inbox ${inbox.id}:`, error);
-      }
-    }
+    await syncBusinessInboxes(body.businessId, { quickScan: true });
 
     return store.runScan(body);
   });
@@ -0,0 +1,62 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createServer } from "../app";
+import { logInOwner, signUpOwner, type TestApp } from "../test/helpers";
+
+describe("WhatsApp senders", () => {
+  let app: TestApp;
+  let owner: Awaited<ReturnType<typeof signUpOwner>>;
+
+  beforeAll(async () => {
+    app = await createServer();
+    owner = await signUpOwner(app, "sender-owner@example.com");
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it("allowlists a number without giving its owner the dashboard", async () => {
+    const added = await app.inject({
+      method: "POST",
+      url: `/api/settings/${owner.businessId}/whatsapp-senders`,
+      headers: { authorization: `Bearer ${owner.token}` },
+      payload: { email: "bookkeeper@example.com", fullName: "Bookkeeper", phoneE164: "+972501234567" },
+    });
+    expect(added.statusCode).toBe(200);
+    expect(added.json().role).toBe("sender");
+
+    const senderToken = await logInOwner(app, "bookkeeper@example.com");
+    const me = await app.inject({ method: "GET", url: "/api/auth/me", headers: { authorization: `Bearer ${senderToken}` } });
+    expect(me.json().businesses).toEqual([]);
+
+    const summary = await app.inject({
+      method: "GET",
+      url: `/api/dashboard/${owner.businessId}/summary`,
+      headers: { authorization: `Bearer ${senderToken}` },
+    });
+    expect(summary.statusCode).toBe(403);
+  });
+
+  it("drops a sender-only entry when its number is removed", async () => {
+    const listed = await app.inject({
+      method: "GET",
+      url: `/api/settings/${owner.businessId}/whatsapp-senders`,
+      headers: { authorization: `Bearer ${owner.token}` },
+    });
+    const sender = listed.json().senders.find((entry: { role: string }) => entry.role === "sender");
+
+    const removed = await app.inject({
+      method: "DELETE",
+      url: `/api/settings/${owner.businessId}/whatsapp-senders/${sender.memberId}`,
+      headers: { authorization: `Bearer ${owner.token}` },
+    });
+    expect(removed.statusCode).toBe(200);
+
+    const after = await app.inject({
+      method: "GET",
+      url: `/api/settings/${owner.businessId}/whatsapp-senders`,
+      headers: { authorization: `Bearer ${owner.token}` },
+    });
+    expect(after.json().senders.map((entry: { role: string }) => entry.role)).toEqual(["owner"]);
+  });
+});
@@ -1,6 +1,9 @@
 import { FastifyInstance } from "fastify";
 import { z } from "zod";
 import { store } from "../store";
+import { backfillEstimatedVat } from "../services/vat";
+import { isValidBusinessId } from "../services/israeli-ids";
+import { revokeRemovedAccountantSessions } from "../services/accountant-auth";
 
 const businessParamsSchema = z.object({
   businessId: z.string().min(1),
@@ -18,6 +21,12 @@ const accountPayloadSchema = z.object({
   businessName: z.string().optional(),
   preferredLanguage: z.string().optional(),
   currency: z.string().optional(),
+  taxId: z.string()
+    .regex(/^\d{9}$/, "Tax ID must be 9 digits")
+    .refine(isValidBusinessId, "Tax ID is not a valid Israeli business number")
+    .nullable()
+    .optional(),
+  vatReportingFrequency: z.enum(["monthly", "bimonthly"]).optional(),
 });
 
 const accountantPayloadSchema = z.object({
@@ -29,6 +38,23 @@ const accountantPayloadSchema = z.object({
   autoMonthlyDelivery: z.boolean().optional(),
 });
 
+const memberParamsSchema = z.object({
+  businessId: z.string().min(1),
+  memberId: z.string().min(1),
+});
+
+const whatsappSenderPayloadSchema = z.object({
+  email: z.string().trim().email(),
+  fullName: z.string().trim().max(120).nullable().optional(),
+  phoneE164: z.string().trim().regex(/^\+?\d[\d\s-]{6,18}\d$/, "Phone must be in international format, e.g. +972501234567"),
+});
+
+const vatTreatmentPayloadSchema = z.object({
+  vendorName: z.string().trim().min(1),
+  /** null clears the override and falls back to the currency default */
+  treatment: z.enum(["standard", "exempt", "foreign"]).nullable(),
+});
+
 export async function registerSettingsRoutes(app: FastifyInstance): Promise<void> {
   app.get("/settings/:businessId", async (request) => {
     const { businessId } = businessParamsSchema.parse(request.params);
@@ -47,10 +73,49 @@ export async function registerSettingsRoutes(app: FastifyInstance): Promise<void
   app.patch("/settings/:businessId/accountant", async (request) => {
     const { businessId } = businessParamsSchema.parse(request.params);
     const payload = accountantPayloadSchema.parse(request.body);
-    return store.updateAccountantSettings({
+    const previousEmail: string | null = (await store.getAccountantForBusiness(businessId)).email;
+    const settings = await store.updateAccountantSettings({
       businessId,
       ...payload,
     });
+    // Access to this business ends with the next request; sessions end too
+    // once the old address isn't the accountant of any business
+    if (previousEmail && previousEmail.toLowerCase() !== settings.accountant.email?.toLowerCase()) {
+      await revokeRemovedAccountantSessions(previousEmail);
+    }
+    return settings;
+  });
+
+  app.get("/settings/:businessId/vat-treatments", async (request) => {
+    const { businessId } = businessParamsSchema.parse(request.params);
+    const treatments = await store.getVendorVatTreatments(businessId);
+    return { businessId, treatments };
+  });
+
+  app.put("/settings/:businessId/vat-treatments", async (request) => {
+    const { businessId } = businessParamsSchema.parse(request.params);
+    const { vendorName, treatment } = vatTreatmentPayloadSchema.parse(request.body);
+    await store.setVendorVatTreatment(businessId, vendorName, treatment);
+    // Re-estimate the vendor's existing documents under the new treatment
+    const backfill = await backfillEstimatedVat({ businessId, vendorName });
+    return { vendorName, treatment, updatedDocuments: backfill.updated };
+  });
+
+  app.get("/settings/:businessId/whatsapp-senders", async (request) => {
+    const { businessId } = businessParamsSchema.parse(request.params);
+    const senders = await store.getWhatsAppSenders(businessId);
+    return { businessId, senders };
+  });
+
+  app.post("/settings/:businessId/whatsapp-senders", async (request) => {
+    const { businessId } = businessParamsSchema.parse(request.params);
+    const payload = whatsappSenderPayloadSchema.parse(request.body);
+    return store.setWhatsAppSender(businessId, payload);
+  });
+
+  app.delete("/settings/:businessId/whatsapp-senders/:memberId", async (request) => {
+    const { businessId, memberId } = memberParamsSchema.parse(request.params);
+    return store.removeWhatsAppSender(businessId, memberId);
   });
 
   app.delete("/settings/:businessId/inboxes/:inboxId", async (request) => {
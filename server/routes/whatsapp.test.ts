@@ -0,0 +1,50 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { createServer } from "../app";
+import { env } from "../config";
+import { bridgeDisconnect } from "../services/whatsapp-bridge-client";
+import { signUpOwner, type TestApp } from "../test/helpers";
+
+vi.mock("../services/whatsapp-bridge-client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../services/whatsapp-bridge-client")>()),
+  bridgeDisconnect: vi.fn(async () => ({ ok: true })),
+}));
+
+describe("WhatsApp disconnect", () => {
+  let app: TestApp;
+  let owner: Awaited<ReturnType<typeof signUpOwner>>;
+
+  const disconnect = () => app.inject({
+    method: "DELETE",
+    url: `/api/whatsapp/session/${owner.businessId}`,
+    headers: { authorization: `Bearer ${owner.token}` },
+  });
+
+  beforeAll(async () => {
+    app = await createServer();
+    owner = await signUpOwner(app, "disconnect-owner@example.com");
+  });
+
+  afterEach(() => {
+    env.WHATSAPP_PROVIDER = "baileys";
+    vi.mocked(bridgeDisconnect).mockClear();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it("ends the bridge session in bridge mode", async () => {
+    const response = await disconnect();
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ ok: true, provider: "baileys" });
+    expect(bridgeDisconnect).toHaveBeenCalledWith(owner.businessId);
+  });
+
+  it("leaves the bridge alone in Cloud API mode", async () => {
+    env.WHATSAPP_PROVIDER = "cloudapi";
+    const response = await disconnect();
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ ok: true, provider: "cloudapi" });
+    expect(bridgeDisconnect).not.toHaveBeenCalled();
+  });
+});
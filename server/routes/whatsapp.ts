@@ -1,17 +1,30 @@
+import { randomUUID } from "crypto";
 import { FastifyInstance } from "fastify";
 import { z } from "zod";
 import { env } from "../config";
+import { store } from "../store";
 import {
   bridgeConnect,
   bridgeGetStatus,
-  bridgeSendText,
   bridgeDisconnect,
   bridgeHealthCheck,
 } from "../services/whatsapp-bridge-client";
 import {
+  parseCloudWebhook,
+  verifyCloudSignature,
+  type CloudWebhookPayload,
+} from "../services/whatsapp-cloud-client";
+import {
+  handleCloudApiMessage,
+  handleCloudApiStatus,
   handleWhatsAppInbound,
   handleWhatsAppMediaInbound,
+  queueWhatsAppMedia,
+  type WhatsAppMedia,
 } from "../services/whatsapp-chat";
+import { getWhatsAppSender, isWhatsAppConfigured } from "../services/whatsapp-sender";
+import { requireBusinessMember } from "../services/owner-auth";
+import { enqueueWhatsApp } from "../services/outbox";
 
 const businessIdSchema = z.object({
   businessId: z.string().min(1),
@@ -20,6 +33,8 @@ const businessIdSchema = z.object({
 const sendSchema = z.object({
   businessId: z.string().min(1),
   text: z.string().min(1),
+  /** Lets a client retry the request without the message going out twice */
+  idempotencyKey: z.string().min(1).max(200).optional(),
 });
 
 const connectSchema = z.object({
@@ -28,18 +43,59 @@ const connectSchema = z.object({
   customerName: z.string().optional(),
 });
 
+const INBOUND_BODY_LIMIT = 30 * 1024 * 1024;
+
+const inboundMediaSchema = z.object({
+  base64: z.string().min(1),
+  mimeType: z.string().min(1),
+  filename: z.string().nullish(),
+  caption: z.string().nullish(),
+});
+
 const webhookInboundSchema = z.object({
   businessId: z.string().min(1),
   fromPhone: z.string().min(1),
   text: z.string().optional(),
+  /** A PDF, a photo, or an album's photos in order — always one document */
+  media: z.array(inboundMediaSchema).max(20).optional(),
+  /** Single-photo payload from bridges predating `media` */
   imageBase64: z.string().optional(),
   mimeType: z.string().optional(),
 });
 
+const webhookVerifySchema = z.object({
+  "hub.mode": z.string().optional(),
+  "hub.verify_token": z.string().optional(),
+  "hub.challenge": z.string().optional(),
+});
+
 export async function registerWhatsAppRoutes(app: FastifyInstance): Promise<void> {
-  // Connect — start Baileys session via bridge
-  app.post("/whatsapp/connect", async (request) => {
-    const { businessId } = connectSchema.parse(request.body);
+  // Connect — Cloud API: register the owner's number; Baileys: start a session via the bridge
+  app.post("/whatsapp/connect", { preHandler: requireBusinessMember }, async (request) => {
+    const { businessId, phoneE164, customerName } = connectSchema.parse(request.body);
+
+    if (env.WHATSAPP_PROVIDER === "cloudapi") {
+      if (!isWhatsAppConfigured()) {
+        throw new Error("WhatsApp Cloud API is not configured (missing WHATSAPP_ACCESS_TOKEN or WHATSAPP_PHONE_NUMBER_ID)");
+      }
+      if (!phoneE164?.trim()) {
+        throw Object.assign(new Error("Phone number is required to connect WhatsApp"), { statusCode: 400 });
+      }
+      // Stays pending until the owner's first message opens the conversation
+      const integration = await store.connectWhatsApp({
+        businessId,
+        phoneE164,
+        customerName,
+        provider: "CLOUD_API",
+        businessPhoneNumberId: env.WHATSAPP_PHONE_NUMBER_ID,
+      });
+      return {
+        businessId,
+        provider: "cloudapi",
+        integration,
+        session: null,
+      };
+    }
 
     if (!env.WHATSAPP_BRIDGE_URL) {
       throw new Error("WhatsApp bridge is not configured (missing WHATSAPP_BRIDGE_URL)");
@@ -54,9 +110,23 @@ export async function registerWhatsAppRoutes(app: FastifyInstance): Promise<void
   });
 
   // Get session status (QR code, connection state)
-  app.get("/whatsapp/session/:businessId", async (request) => {
+  app.get("/whatsapp/session/:businessId", { preHandler: requireBusinessMember }, async (request) => {
     const { businessId } = businessIdSchema.parse(request.params);
 
+    if (env.WHATSAPP_PROVIDER === "cloudapi") {
+      const integration = await store.getWhatsAppIntegrationForBusiness(businessId);
+      return {
+        provider: "cloudapi",
+        status: integration?.status ?? "idle",
+        businessId,
+        mainPhoneE164: integration?.customerPhoneE164 ?? null,
+        qrDataUrl: null,
+        lastError: isWhatsAppConfigured() ? integration?.lastError ?? null : "WhatsApp Cloud API not configured",
+        connectedJid: null,
+        updatedAt: integration?.lastInboundAt ?? null,
+      };
+    }
+
     if (!env.WHATSAPP_BRIDGE_URL) {
       return {
         provider: "baileys",
@@ -84,27 +154,37 @@ export async function registerWhatsAppRoutes(app: FastifyInstance): Promise<void
   });
 
   // Send message
-  app.post("/whatsapp/send", async (request) => {
-    const { businessId, text } = sendSchema.parse(request.body);
+  app.post("/whatsapp/send", { preHandler: requireBusinessMember }, async (request) => {
+    const { businessId, text, idempotencyKey } = sendSchema.parse(request.body);
 
-    if (!env.WHATSAPP_BRIDGE_URL) {
-      throw new Error("WhatsApp bridge is not configured");
+    if (!isWhatsAppConfigured()) {
+      throw new Error("WhatsApp is not configured");
     }
 
-    const session = await bridgeGetStatus(businessId);
-    if (session.status !== "connected" || !session.connectedJid) {
-      throw new Error("WhatsApp session is not connected");
+    const sender = getWhatsAppSender();
+    const recipient = await sender.getOwnerRecipient(businessId);
+    if (!recipient) {
+      throw Object.assign(new Error("WhatsApp session is not connected"), { statusCode: 409 });
     }
 
-    await bridgeSendText(businessId, session.connectedJid, text);
-    return { ok: true };
+    const message = await enqueueWhatsApp({
+      businessId,
+      kind: "manual",
+      idempotencyKey: `whatsapp-send:${businessId}:${idempotencyKey ?? randomUUID()}`,
+      to: recipient,
+      text,
+    });
+    return { ok: true, outboxMessageId: message.id, deliveryStatus: message.status };
   });
 
-  // Disconnect session
-  app.delete("/whatsapp/session/:businessId", async (request) => {
+  // Disconnect session — only the bridge keeps one; a Cloud API number has nothing to log out of
+  app.delete("/whatsapp/session/:businessId", { preHandler: requireBusinessMember }, async (request) => {
     const { businessId } = businessIdSchema.parse(request.params);
+    if (env.WHATSAPP_PROVIDER === "cloudapi") {
+      return { ok: true, provider: "cloudapi" };
+    }
     await bridgeDisconnect(businessId);
-    return { ok: true };
+    return { ok: true, provider: "baileys" };
   });
 
   // Health check for bridge
@@ -115,7 +195,8 @@ export async function registerWhatsAppRoutes(app: FastifyInstance): Promise<void
 
   // ─── Webhook: inbound messages from VPS bridge ───
 
-  app.post("/whatsapp/webhook/inbound", async (request, reply) => {
+  // Media arrives base64-encoded in the body, well past the default 1MB limit
+  app.post("/whatsapp/webhook/inbound", { bodyLimit: INBOUND_BODY_LIMIT }, async (request, reply) => {
     // Verify bridge secret
     const bridgeSecret = request.headers["x-bridge-secret"];
     if (env.WHATSAPP_BRIDGE_SECRET && bridgeSecret !== env.WHATSAPP_BRIDGE_SECRET) {
@@ -126,13 +207,17 @@ export async function registerWhatsAppRoutes(app: FastifyInstance): Promise<void
     const payload = webhookInboundSchema.parse(request.body);
 
     // Process asynchronously (don't block response)
-    if (payload.imageBase64 && payload.mimeType) {
+    if (payload.media?.length) {
       handleWhatsAppMediaInbound(
         payload.businessId,
         payload.fromPhone,
-        payload.imageBase64,
-        payload.mimeType,
+        payload.media as WhatsAppMedia[],
       ).catch((err) => console.error("[whatsapp-webhook] Media handler error:", err));
+    } else if (payload.imageBase64 && payload.mimeType) {
+      queueWhatsAppMedia(payload.businessId, payload.fromPhone, {
+        base64: payload.imageBase64,
+        mimeType: payload.mimeType,
+      });
     } else if (payload.text) {
       handleWhatsAppInbound(
         payload.businessId,
@@ -143,4 +228,52 @@ export async function registerWhatsAppRoutes(app: FastifyInstance): Promise<void
 
     return { ok: true };
   });
+
+  // ─── Webhook: WhatsApp Cloud API ───
+
+  // Subscription handshake — Meta echoes hub.challenge back once the token matches
+  app.get("/whatsapp/webhook", async (request, reply) => {
+    if (!env.WHATSAPP_VERIFY_TOKEN) {
+      reply.code(400);
+      return { error: "WhatsApp webhook not configured" };
+    }
+
+    const query = webhookVerifySchema.parse(request.query);
+    if (query["hub.mode"] !== "subscribe" || query["hub.verify_token"] !== env.WHATSAPP_VERIFY_TOKEN) {
+      reply.code(403);
+      return { error: "Verification failed" };
+    }
+
+    reply.type("text/plain");
+    return query["hub.challenge"] ?? "";
+  });
+
+  app.post("/whatsapp/webhook", async (request, reply) => {
+    if (!env.WHATSAPP_APP_SECRET) {
+      reply.code(400);
+      return { error: "WhatsApp webhook not configured" };
+    }
+
+    const { rawBody } = request as typeof request & { rawBody?: string };
+    const signature = request.headers["x-hub-signature-256"] as string | undefined;
+    if (!rawBody || !verifyCloudSignature(rawBody, signature, env.WHATSAPP_APP_SECRET)) {
+      console.error("[whatsapp-webhook] Cloud API signature verification failed");
+      reply.code(401);
+      return { error: "Invalid signature" };
+    }
+
+    const { messages, statuses } = parseCloudWebhook(request.body as CloudWebhookPayload);
+
+    // Meta retries anything not acknowledged quickly, so process asynchronously
+    for (const message of messages) {
+      handleCloudApiMessage(message)
+        .catch((err) => console.error(`[whatsapp-webhook] Cloud API message ${message.id} error:`, err));
+    }
+    for (const status of statuses) {
+      handleCloudApiStatus(status)
+        .catch((err) => console.error("[whatsapp-webhook] Cloud API status error:", err));
+    }
+
+    return { ok: true };
+  });
 }
@@ -1,26 +1,42 @@
-import { createHmac, randomBytes } from "crypto";
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { FastifyRequest } from "fastify";
 import { env } from "../config";
 import { store } from "../store";
+import { enqueueEmail } from "./outbox";
 
 const TOKEN_SECRET = env.ACCOUNTANT_TOKEN_SECRET ?? env.OAUTH_STATE_SECRET;
-const TOKEN_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const SESSION_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const MAGIC_LINK_EXPIRY_MS = 15 * 60 * 1000; // 15 minutes
+/** How stale `lastUsedAt` may get before a request refreshes it */
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+interface AccountantSessionTokenPayload {
+  typ: "accountant_session";
+  sid: string;
+  email: string;
+  exp: number;
+}
 
-interface AccountantTokenPayload {
+interface AccountantMagicLinkPayload {
+  typ: "accountant_magic_link";
   email: string;
-  iat: number;
   exp: number;
+  nonce: string;
 }
 
-/**
- * Create a signed JWT-like token for accountant auth.
- * Uses HMAC-SHA256 for simple, stateless verification.
- */
-export function createAccountantToken(email: string): string {
-  const payload: AccountantTokenPayload = {
-    email: email.toLowerCase(),
-    iat: Date.now(),
-    exp: Date.now() + TOKEN_EXPIRY_MS,
-  };
+interface ClientInviteTokenPayload {
+  typ: "client_invite";
+  /** The invitation row; revoking or accepting it voids the token */
+  iid: string;
+  exp: number;
+}
+
+export interface AccountantSession {
+  sessionId: string;
+  email: string;
+}
+
+function signPayload(payload: object): string {
   const payloadB64 = Buffer.from(JSON.stringify(payload)).toString("base64url");
   const signature = createHmac("sha256", TOKEN_SECRET)
     .update(payloadB64)
@@ -29,56 +45,151 @@ export function createAccountantToken(email: string): string {
 }
 
 /**
- * Verify an accountant token and return the email.
+ * Check the signature, type and expiry of a token. The type keeps a magic
+ * link from working as a session and vice versa — and keeps owner tokens
+ * out when both secrets fall back to OAUTH_STATE_SECRET.
  */
-export function verifyAccountantToken(token: string): { email: string } | null {
+function readSignedPayload<T extends { typ: string; exp: number }>(token: string, typ: T["typ"]): T | null {
   const parts = token.split(".");
   if (parts.length !== 2) return null;
 
   const [payloadB64, signature] = parts;
-  const expectedSig = createHmac("sha256", TOKEN_SECRET)
-    .update(payloadB64)
-    .digest("base64url");
-
-  if (signature !== expectedSig) return null;
+  const expected = Buffer.from(
+    createHmac("sha256", TOKEN_SECRET).update(payloadB64).digest("base64url"),
+  );
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
 
   try {
-    const payload: AccountantTokenPayload = JSON.parse(
-      Buffer.from(payloadB64, "base64url").toString("utf-8"),
-    );
-    if (Date.now() > payload.exp) return null;
-    return { email: payload.email };
+    const payload = JSON.parse(Buffer.from(payloadB64, "base64url").toString("utf-8")) as T;
+    if (payload.typ !== typ || Date.now() > payload.exp) return null;
+    return payload;
   } catch {
     return null;
   }
 }
 
+/**
+ * Create a server-side session for an accountant and return its signed
+ * bearer token. The token only carries the session ID — revoking the row
+ * logs the accountant out.
+ */
+export async function createAccountantSession(
+  email: string,
+  client: { userAgent?: string | null; ipAddress?: string | null } = {},
+): Promise<string> {
+  const normalized = email.toLowerCase();
+  const exp = Date.now() + SESSION_EXPIRY_MS;
+  const session = await store.createAccountantSession({
+    email: normalized,
+    expiresAt: new Date(exp).toISOString(),
+    userAgent: client.userAgent?.slice(0, 300) ?? null,
+    ipAddress: client.ipAddress ?? null,
+  });
+  const payload: AccountantSessionTokenPayload = { typ: "accountant_session", sid: session.id, email: normalized, exp };
+  return signPayload(payload);
+}
+
+/**
+ * Verify an accountant session token against the sessions table.
+ */
+export async function verifyAccountantSessionToken(token: string): Promise<AccountantSession | null> {
+  const payload = readSignedPayload<AccountantSessionTokenPayload>(token, "accountant_session");
+  if (!payload) return null;
+
+  const session = await store.getAccountantSession(payload.sid);
+  if (!session || session.email !== payload.email || session.revokedAt) return null;
+  if (new Date(session.expiresAt).getTime() < Date.now()) return null;
+
+  if (!session.lastUsedAt || Date.now() - new Date(session.lastUsedAt).getTime() > TOUCH_INTERVAL_MS) {
+    await store.touchAccountantSession(session.id);
+  }
+  return { sessionId: session.id, email: session.email };
+}
+
+/**
+ * End every session an accountant has, unless the email is still the
+ * accountant of some business. Called when an owner changes or removes
+ * their accountant's email, so a dropped accountant is out right away.
+ */
+export async function revokeRemovedAccountantSessions(email: string): Promise<void> {
+  if (await store.accountantEmailExists(email)) return;
+  const revoked = await store.revokeAccountantSessions(email.toLowerCase());
+  if (revoked > 0) {
+    console.log(`[accountant-auth] Revoked ${revoked} session(s) for removed accountant ${email}`);
+  }
+}
+
 /**
  * Create a magic link token — short-lived (15 min) for the login email.
  */
-export function createMagicLinkToken(email: string): string {
-  const payload = {
+export function createMagicLinkToken(email: string, nonce = randomBytes(16).toString("hex")): string {
+  const payload: AccountantMagicLinkPayload = {
+    typ: "accountant_magic_link",
     email: email.toLowerCase(),
-    iat: Date.now(),
-    exp: Date.now() + 15 * 60 * 1000, // 15 minutes
-    nonce: randomBytes(8).toString("hex"),
+    exp: Date.now() + MAGIC_LINK_EXPIRY_MS,
+    nonce,
   };
-  const payloadB64 = Buffer.from(JSON.stringify(payload)).toString("base64url");
-  const signature = createHmac("sha256", TOKEN_SECRET)
-    .update(payloadB64)
-    .digest("base64url");
-  return `${payloadB64}.${signature}`;
+  return signPayload(payload);
+}
+
+/**
+ * Verify a magic link token and use it up, returning the email. A link
+ * works once: its nonce is recorded, and a second use returns null.
+ */
+export async function consumeMagicLinkToken(token: string): Promise<{ email: string } | null> {
+  const payload = readSignedPayload<AccountantMagicLinkPayload>(token, "accountant_magic_link");
+  if (!payload) return null;
+
+  const firstUse = await store.consumeAccountantMagicLink({
+    nonce: payload.nonce,
+    email: payload.email,
+    expiresAt: new Date(payload.exp).toISOString(),
+  });
+  return firstUse ? { email: payload.email } : null;
 }
 
 /**
- * Verify a magic link token and return the email.
+ * Create the token in a client invitation link. It names the invitation;
+ * whether that is still open is checked against the store on use.
  */
-export function verifyMagicLinkToken(token: string): { email: string } | null {
-  return verifyAccountantToken(token); // Same verification logic
+export function createClientInviteToken(invitationId: string, expiresAt: string): string {
+  const payload: ClientInviteTokenPayload = {
+    typ: "client_invite",
+    iid: invitationId,
+    exp: new Date(expiresAt).getTime(),
+  };
+  return signPayload(payload);
+}
+
+/** The invitation ID in a client invite token, or null if it's forged or expired. */
+export function readClientInviteToken(token: string): string | null {
+  return readSignedPayload<ClientInviteTokenPayload>(token, "client_invite")?.iid ?? null;
+}
+
+// ─── Request guard ───
+
+/**
+ * Resolve the accountant session from the Authorization header, or throw 401.
+ */
+export async function getAccountantSession(request: FastifyRequest): Promise<AccountantSession> {
+  const auth = request.headers.authorization;
+  if (!auth?.startsWith("Bearer ")) {
+    throw Object.assign(new Error("Unauthorized"), { statusCode: 401 });
+  }
+  const session = await verifyAccountantSessionToken(auth.slice(7));
+  if (!session) {
+    throw Object.assign(new Error("Invalid or expired token"), { statusCode: 401 });
+  }
+  return session;
 }
 
+// ─── Magic link email ───
+
 /**
- * Send magic link email via Resend.
+ * Queue the accountant magic link email through the outbox, keyed by the
+ * link's nonce so a retry never sends a second copy of the same link.
+ * The body is cleared from the outbox once the email is sent or given up on.
  */
 export async function sendMagicLinkEmail(email: string): Promise<{ sent: boolean }> {
   const exists = await store.accountantEmailExists(email);
@@ -88,7 +199,8 @@ export async function sendMagicLinkEmail(email: string): Promise<{ sent: boolean
     return { sent: true };
   }
 
-  const token = createMagicLinkToken(email);
+  const nonce = randomBytes(16).toString("hex");
+  const token = createMagicLinkToken(email, nonce);
   const magicLink = `${env.FRONTEND_BASE_URL}/accountant/verify?token=${encodeURIComponent(token)}`;
 
   if (!env.RESEND_API_KEY) {
@@ -96,14 +208,15 @@ export async function sendMagicLinkEmail(email: string): Promise<{ sent: boolean
     return { sent: true };
   }
 
-  const { Resend } = await import("resend");
-  const resend = new Resend(env.RESEND_API_KEY);
-
-  const result = await resend.emails.send({
-    from: env.RESEND_FROM_EMAIL,
-    to: email,
-    subject: "כניסה לפורטל רואה חשבון – SendToAmram",
-    html: `
+  await enqueueEmail({
+    businessId: null,
+    kind: "accountant_magic_link",
+    idempotencyKey: `accountant-magic-link:${nonce}`,
+    singleUse: true,
+    email: {
+      to: email,
+      subject: "כניסה לפורטל רואה חשבון – SendToAmram",
+      html: `
 <!DOCTYPE html>
 <html dir="rtl" lang="he">
 <head><meta charset="utf-8"></head>
@@ -131,11 +244,8 @@ export async function sendMagicLinkEmail(email: string): Promise<{ sent: boolean
   </div>
 </body>
 </html>`,
+    },
   });
 
-  if (result.error) {
-    throw new Error(`Failed to send magic link: ${result.error.message}`);
-  }
-
   return { sent: true };
 }
@@ -0,0 +1,81 @@
+import { env } from "../config";
+import { store, type AppStore } from "../store";
+import { buildDocumentsEmail } from "./email";
+import { digestIds, enqueueEmail, type OutboxStatus } from "./outbox";
+
+type PendingDocument = ReturnType<AppStore["getDashboardDocuments"]>["documents"][number];
+
+export type AccountantDeliveryResult =
+  | { sent: false; message: string }
+  | {
+    sent: true;
+    /** Resend's id, once the email has gone out */
+    emailId: string | null;
+    outboxMessageId: string;
+    deliveryStatus: OutboxStatus;
+    documentCount: number;
+    accountantEmail: string;
+  };
+
+/**
+ * Email every pending document to the business's accountant and mark them
+ * sent, leaving out any in a month the accountant has closed. Used by the dashboard button and the WhatsApp "שלח לרו״ח" command.
+ * The email goes through the outbox, so a failed send is retried rather than
+ * lost; sending the same set of documents twice only emails them once.
+ */
+export async function sendPendingToAccountant(
+  businessId: string,
+  options: { senderName?: string } = {},
+): Promise<AccountantDeliveryResult> {
+  if (!env.RESEND_API_KEY) {
+    throw new Error("Email delivery is not configured (missing RESEND_API_KEY)");
+  }
+
+  const accountant = await store.getAccountantForBusiness(businessId);
+  if (!accountant.email) {
+    throw new Error("לא הוגדר מייל לרואה חשבון. עדכנו בהגדרות.");
+  }
+
+  // Documents in a month the accountant already closed stay out
+  const pending: PendingDocument[] = (await store.getDashboardDocuments(businessId, "pending")).documents;
+  const documents = pending.filter((d) => !d.locked);
+  if (documents.length === 0) {
+    return { sent: false, message: "אין מסמכים ממתינים לשליחה." };
+  }
+
+  const summary = await store.getDashboardSummary(businessId);
+
+  const sentIds = documents.map((d) => d.id);
+  const email = buildDocumentsEmail({
+    accountantEmail: accountant.email,
+    accountantName: accountant.name,
+    businessName: summary.business.name,
+    senderName: options.senderName,
+    documents: documents.map((d) => ({
+      vendor: d.vendor,
+      amountCents: d.amountCents,
+      currency: d.currency,
+      amountIlsCents: d.amountIlsCents,
+      issuedAt: d.issuedAt,
+      category: d.category,
+      type: d.type ?? "invoice",
+    })),
+  });
+  const message = await enqueueEmail({
+    businessId,
+    kind: "accountant_documents",
+    idempotencyKey: `accountant-documents:${businessId}:${digestIds(sentIds)}`,
+    email,
+  });
+
+  await store.markDocumentsSent(businessId, sentIds);
+
+  return {
+    sent: true,
+    emailId: message.providerMessageId,
+    outboxMessageId: message.id,
+    deliveryStatus: message.status,
+    documentCount: documents.length,
+    accountantEmail: accountant.email,
+  };
+}
@@ -0,0 +1,74 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createServer } from "../app";
+import { logInAccountant, signUpOwner, type TestApp } from "../test/helpers";
+
+describe("firm staff invitations", () => {
+  let app: TestApp;
+  let adminToken: string;
+  let victimClient: Awaited<ReturnType<typeof signUpOwner>>;
+
+  const asAccountant = (token: string, method: "GET" | "POST" | "DELETE", url: string, payload?: object) =>
+    app.inject({ method, url: `/api/accountant${url}`, headers: { authorization: `Bearer ${token}` }, payload });
+
+  beforeAll(async () => {
+    app = await createServer();
+    await signUpOwner(app, "admin-client@example.com", { accountantEmail: "admin@firm.example" });
+    victimClient = await signUpOwner(app, "victim-client@example.com", { accountantEmail: "victim@cpa.example" });
+    await signUpOwner(app, "newcomer-client@example.com", { accountantEmail: "newcomer@cpa.example" });
+
+    adminToken = await logInAccountant(app, "admin@firm.example");
+    const created = await asAccountant(adminToken, "POST", "/firm", { name: "Admin & Co" });
+    expect(created.statusCode).toBe(200);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it("gives an admin no access to an invited accountant's clients before they accept", async () => {
+    const invited = await asAccountant(adminToken, "POST", "/firm/invitations", {
+      email: "victim@cpa.example",
+      role: "read_only",
+    });
+    expect(invited.statusCode).toBe(200);
+
+    const clients = await asAccountant(adminToken, "GET", "/clients");
+    expect(clients.json().clients.map((client: { businessId: string }) => client.businessId))
+      .not.toContain(victimClient.businessId);
+    const documents = await asAccountant(adminToken, "GET", `/clients/${victimClient.businessId}/documents`);
+    expect(documents.statusCode).toBe(403);
+
+    // The invitee keeps working on their own and can still start a firm
+    const victimToken = await logInAccountant(app, "victim@cpa.example");
+    const ownClients = await asAccountant(victimToken, "GET", "/clients");
+    expect(ownClients.json().firm).toBeNull();
+    expect(ownClients.json().clients.map((client: { businessId: string }) => client.businessId))
+      .toContain(victimClient.businessId);
+    const ownFirm = await asAccountant(victimToken, "POST", "/firm", { name: "Victim CPA" });
+    expect(ownFirm.statusCode).toBe(200);
+  });
+
+  it("adds the invitee and their clients once they accept", async () => {
+    const invited = await asAccountant(adminToken, "POST", "/firm/invitations", {
+      email: "newcomer@cpa.example",
+      role: "bookkeeper",
+    });
+    const invitationId = invited.json().invitation.id as string;
+
+    // Nobody but the invited address can answer
+    const intruderToken = await logInAccountant(app, "admin@firm.example");
+    const intruder = await asAccountant(intruderToken, "POST", `/firm/invitations/${invitationId}/accept`);
+    expect(intruder.statusCode).toBe(404);
+
+    const newcomerToken = await logInAccountant(app, "newcomer@cpa.example");
+    const firm = await asAccountant(newcomerToken, "GET", "/firm");
+    expect(firm.json().myInvitations.map((invitation: { id: string }) => invitation.id)).toEqual([invitationId]);
+
+    const accepted = await asAccountant(newcomerToken, "POST", `/firm/invitations/${invitationId}/accept`);
+    expect(accepted.statusCode).toBe(200);
+    expect(accepted.json().me.role).toBe("bookkeeper");
+
+    const clients = await asAccountant(adminToken, "GET", "/clients");
+    expect(clients.json().clients.map((client: { businessName: string }) => client.businessName)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,312 @@
+import { env } from "../config";
+import { store } from "../store";
+import { revokeRemovedAccountantSessions } from "./accountant-auth";
+import { escapeHtml } from "./email";
+import { enqueueEmail } from "./outbox";
+
+/**
+ * Accountant firms: staff members share the firm's clients and split them
+ * by assignment. A firm's clients are the businesses whose owners named one
+ * of its staff as their accountant; each is handled by the staff member it
+ * is assigned to, or by that named accountant until someone reassigns it.
+ * Admins see every client, bookkeepers and read-only staff see their own.
+ * An accountant who isn't in a firm sees the businesses that named them.
+ *
+ * Admins invite staff rather than add them: an address joins the firm (and
+ * brings its clients) only when its owner signs in and accepts.
+ */
+
+const STAFF_INVITATION_EXPIRY_MS = 14 * 24 * 60 * 60 * 1000; // 14 days
+
+export const STAFF_ROLES = ["admin", "bookkeeper", "read_only"] as const;
+export type StaffRole = (typeof STAFF_ROLES)[number];
+
+export interface StaffMember {
+  id: string;
+  firmId: string;
+  email: string;
+  fullName: string | null;
+  role: StaffRole;
+  createdAt: string;
+}
+
+export interface StaffInvitation {
+  id: string;
+  firmId: string;
+  firmName: string | null;
+  email: string;
+  fullName: string | null;
+  role: StaffRole;
+  invitedByStaffId: string;
+  expiresAt: string;
+  createdAt: string;
+}
+
+export interface AccountantClient {
+  businessId: string;
+  businessName: string;
+  /** The address the owner set as their accountant */
+  accountantEmail: string;
+  /** Staff member handling the client; null outside a firm */
+  assignedStaffId: string | null;
+}
+
+export interface AccountantAccess {
+  email: string;
+  firm: { id: string; name: string } | null;
+  staff: StaffMember | null;
+  /** Clients this accountant can open */
+  clients: AccountantClient[];
+}
+
+function forbidden(message: string): Error {
+  return Object.assign(new Error(message), { statusCode: 403 });
+}
+
+/** The firm's clients, each with the staff member handling it. */
+async function getFirmClients(firmId: string, staff: StaffMember[]): Promise<AccountantClient[]> {
+  const staffByEmail = new Map(staff.map((member) => [member.email, member.id]));
+  const [clients, assignments] = await Promise.all([
+    store.getAccountantClientsForEmails([...staffByEmail.keys()]),
+    store.getAccountantClientAssignments(firmId),
+  ]);
+  const assignedTo = new Map<string, string>(
+    assignments.map((entry: { businessId: string; staffId: string }) => [entry.businessId, entry.staffId]),
+  );
+
+  return clients.map((client: AccountantClient) => ({
+    ...client,
+    assignedStaffId: assignedTo.get(client.businessId) ?? staffByEmail.get(client.accountantEmail) ?? null,
+  }));
+}
+
+/** What an accountant can see: their firm and role, and the clients open to them. */
+export async function getAccountantAccess(email: string): Promise<AccountantAccess> {
+  const normalized = email.toLowerCase();
+  const staff: StaffMember | null = await store.getAccountantStaffByEmail(normalized);
+
+  if (!staff) {
+    const clients = await store.getAccountantClientsForEmails([normalized]);
+    return {
+      email: normalized,
+      firm: null,
+      staff: null,
+      clients: clients.map((client: AccountantClient) => ({ ...client, assignedStaffId: null })),
+    };
+  }
+
+  const [firm, members] = await Promise.all([
+    store.getAccountantFirm(staff.firmId),
+    store.listAccountantStaff(staff.firmId),
+  ]);
+  const clients = await getFirmClients(staff.firmId, members);
+  return {
+    email: normalized,
+    firm: firm ? { id: firm.id, name: firm.name } : null,
+    staff,
+    clients: staff.role === "admin" ? clients : clients.filter((client) => client.assignedStaffId === staff.id),
+  };
+}
+
+/**
+ * Require access to a client. `write` also rules out read-only staff, for
+ * actions that change something rather than view or download it.
+ */
+export async function assertClientAccess(
+  email: string,
+  businessId: string,
+  options: { write?: boolean } = {},
+): Promise<AccountantAccess> {
+  const access = await getAccountantAccess(email);
+  if (!access.clients.some((client) => client.businessId === businessId)) {
+    throw forbidden("Access denied to this business");
+  }
+  if (options.write && access.staff?.role === "read_only") {
+    throw forbidden("Read-only staff can't make changes");
+  }
+  return access;
+}
+
+/** Require a staff member of a firm, optionally with one of the given roles. */
+function requireStaff(access: AccountantAccess, roles?: StaffRole[]): StaffMember {
+  if (!access.staff) {
+    throw forbidden("Not a member of an accountant firm");
+  }
+  if (roles && !roles.includes(access.staff.role)) {
+    throw forbidden("Your role doesn't allow this");
+  }
+  return access.staff;
+}
+
+/** Start a firm with the caller as its first admin. Their clients come along. */
+export async function createFirm(email: string, payload: { name: string; fullName?: string | null }) {
+  const { staff } = await store.createAccountantFirm({
+    name: payload.name,
+    email: email.toLowerCase(),
+    fullName: payload.fullName ?? null,
+  });
+  console.log(`[accountant-firms] ${email} created firm ${staff.firmId}`);
+  return getAccountantAccess(email);
+}
+
+export async function listStaff(email: string): Promise<StaffMember[]> {
+  const staff = requireStaff(await getAccountantAccess(email));
+  return store.listAccountantStaff(staff.firmId);
+}
+
+const ROLE_LABELS: Record<StaffRole, string> = {
+  admin: "מנהל/ת",
+  bookkeeper: "מנהל/ת חשבונות",
+  read_only: "צפייה בלבד",
+};
+
+/** Tell the invitee; they accept from the portal after signing in with their own magic link. */
+async function sendStaffInvitationEmail(invitation: StaffInvitation, invitedBy: StaffMember) {
+  const inviter = escapeHtml(invitedBy.fullName || invitedBy.email);
+  const firmName = escapeHtml(invitation.firmName ?? "");
+  return enqueueEmail({
+    businessId: null,
+    kind: "accountant_staff_invite",
+    idempotencyKey: `accountant-staff-invite:${invitation.id}`,
+    email: {
+      to: invitation.email,
+      subject: `הוזמנת להצטרף ל${invitation.firmName ?? "משרד"} – SendToAmram`,
+      html: `
+<!DOCTYPE html>
+<html dir="rtl" lang="he">
+<head><meta charset="utf-8"></head>
+<body style="font-family:Arial,sans-serif;direction:rtl;text-align:right;background:#f5f5f5;margin:0;padding:20px;">
+  <div style="max-width:500px;margin:0 auto;background:#fff;border-radius:12px;overflow:hidden;box-shadow:0 2px 8px rgba(0,0,0,0.08);">
+    <div style="background:linear-gradient(135deg,#ff6b6b,#ee5a24);padding:24px 32px;">
+      <h1 style="color:#fff;margin:0;font-size:22px;">SendToAmram</h1>
+    </div>
+    <div style="padding:24px 32px;">
+      <p style="font-size:16px;color:#333;">שלום${invitation.fullName ? ` ${escapeHtml(invitation.fullName)}` : ""},</p>
+      <p style="font-size:15px;color:#555;">
+        ${inviter} הזמין/ה אותך להצטרף למשרד ${firmName} בתפקיד ${ROLE_LABELS[invitation.role]}.
+        כדי לאשר או לדחות, היכנס/י לפורטל רואי החשבון עם כתובת המייל הזו.
+      </p>
+      <div style="text-align:center;margin:24px 0;">
+        <a href="${env.FRONTEND_BASE_URL}/accountant" style="display:inline-block;padding:12px 32px;background:#ee5a24;color:#fff;text-decoration:none;border-radius:8px;font-weight:bold;font-size:16px;">
+          כניסה לפורטל
+        </a>
+      </div>
+      <p style="font-size:13px;color:#999;">
+        ההזמנה בתוקף ל-14 יום. אם אינך מכיר/ה את המשרד, אפשר להתעלם מהמייל הזה.
+      </p>
+    </div>
+  </div>
+</body>
+</html>`,
+    },
+  });
+}
+
+/**
+ * Invite an address to the firm. Nothing changes for that accountant until
+ * they accept: the firm sees none of their clients, and they remain free to
+ * start or join another firm.
+ */
+export async function inviteStaff(
+  email: string,
+  payload: { email: string; fullName?: string | null; role: StaffRole },
+): Promise<StaffInvitation> {
+  const admin = requireStaff(await getAccountantAccess(email), ["admin"]);
+  const invitedEmail = payload.email.trim().toLowerCase();
+  const members: StaffMember[] = await store.listAccountantStaff(admin.firmId);
+  if (members.some((member) => member.email === invitedEmail)) {
+    throw Object.assign(new Error("Already a member of this firm"), { statusCode: 409 });
+  }
+
+  const invitation: StaffInvitation = await store.createAccountantStaffInvitation({
+    firmId: admin.firmId,
+    email: invitedEmail,
+    fullName: payload.fullName ?? null,
+    role: payload.role,
+    invitedByStaffId: admin.id,
+    expiresAt: new Date(Date.now() + STAFF_INVITATION_EXPIRY_MS).toISOString(),
+  });
+  await sendStaffInvitationEmail(invitation, admin);
+  console.log(`[accountant-firms] ${email} invited ${invitedEmail} to firm ${admin.firmId}`);
+  return invitation;
+}
+
+/** The firm's open invitations (admins only). */
+export async function listStaffInvitations(email: string): Promise<StaffInvitation[]> {
+  const admin = requireStaff(await getAccountantAccess(email), ["admin"]);
+  return store.listAccountantStaffInvitations({ firmId: admin.firmId });
+}
+
+/** Open invitations addressed to the caller. */
+export async function listMyStaffInvitations(email: string): Promise<StaffInvitation[]> {
+  return store.listAccountantStaffInvitations({ email: email.toLowerCase() });
+}
+
+/** Withdraw an invitation; an invitee with no other access is signed out. */
+export async function revokeStaffInvitation(email: string, invitationId: string): Promise<void> {
+  const admin = requireStaff(await getAccountantAccess(email), ["admin"]);
+  const revoked: StaffInvitation = await store.revokeAccountantStaffInvitation(admin.firmId, invitationId);
+  await revokeRemovedAccountantSessions(revoked.email);
+}
+
+/** Join the firm an invitation is from; the caller's clients come along. */
+export async function acceptStaffInvitation(email: string, invitationId: string): Promise<AccountantAccess> {
+  const staff: StaffMember | null = await store.acceptAccountantStaffInvitation(invitationId, email);
+  if (!staff) {
+    throw Object.assign(new Error("Invitation not found"), { statusCode: 404 });
+  }
+  console.log(`[accountant-firms] ${email} joined firm ${staff.firmId}`);
+  return getAccountantAccess(email);
+}
+
+export async function declineStaffInvitation(email: string, invitationId: string): Promise<void> {
+  const declined = await store.declineAccountantStaffInvitation(invitationId, email);
+  if (!declined) {
+    throw Object.assign(new Error("Invitation not found"), { statusCode: 404 });
+  }
+  await revokeRemovedAccountantSessions(email);
+}
+
+/** The firm always keeps at least one admin. */
+async function assertKeepsAnAdmin(firmId: string, staffId: string): Promise<void> {
+  const members: StaffMember[] = await store.listAccountantStaff(firmId);
+  const otherAdmins = members.filter((member) => member.role === "admin" && member.id !== staffId);
+  if (otherAdmins.length === 0) {
+    throw Object.assign(new Error("A firm needs at least one admin"), { statusCode: 409 });
+  }
+}
+
+export async function updateStaffRole(email: string, staffId: string, role: StaffRole): Promise<StaffMember> {
+  const admin = requireStaff(await getAccountantAccess(email), ["admin"]);
+  if (role !== "admin") await assertKeepsAnAdmin(admin.firmId, staffId);
+  return store.updateAccountantStaffRole(admin.firmId, staffId, role);
+}
+
+/**
+ * Remove a staff member. Clients assigned to them go back to whoever the
+ * owner named, and they're signed out unless still some business's accountant.
+ */
+export async function removeStaff(email: string, staffId: string): Promise<void> {
+  const admin = requireStaff(await getAccountantAccess(email), ["admin"]);
+  await assertKeepsAnAdmin(admin.firmId, staffId);
+  const removed: StaffMember = await store.removeAccountantStaff(admin.firmId, staffId);
+  await revokeRemovedAccountantSessions(removed.email);
+}
+
+/**
+ * Hand a client to another staff member. Admins can reassign any client;
+ * bookkeepers only the ones they handle.
+ */
+export async function reassignClient(email: string, businessId: string, staffId: string): Promise<AccountantClient> {
+  const access = await assertClientAccess(email, businessId, { write: true });
+  const staff = requireStaff(access, ["admin", "bookkeeper"]);
+
+  const members: StaffMember[] = await store.listAccountantStaff(staff.firmId);
+  if (!members.some((member) => member.id === staffId)) {
+    throw Object.assign(new Error("Staff member not found"), { statusCode: 404 });
+  }
+
+  await store.assignAccountantClient({ firmId: staff.firmId, businessId, staffId, assignedByStaffId: staff.id });
+  const client = access.clients.find((entry) => entry.businessId === businessId)!;
+  return { ...client, assignedStaffId: staffId };
+}
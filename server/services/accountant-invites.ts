@@ -0,0 +1,230 @@
+import { env } from "../config";
+import { store } from "../store";
+import { createClientInviteToken, readClientInviteToken } from "./accountant-auth";
+import { getAccountantAccess } from "./accountant-firms";
+import { enqueueEmail } from "./outbox";
+
+/**
+ * Client invitations: an accountant emails a prospective client a signup
+ * link carrying a signed invite token. Onboarding reads the invitation to
+ * prefill the accountant's details, and signing up with it sets the new
+ * business's accountant to the inviter — which makes it one of their
+ * (and their firm's) clients right away.
+ */
+
+const INVITE_EXPIRY_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+export type ClientInvitationStatus = "pending" | "accepted" | "revoked" | "expired";
+
+export interface ClientInvitation {
+  id: string;
+  firmId: string | null;
+  accountantEmail: string;
+  accountantName: string | null;
+  firmName: string | null;
+  autoMonthlyDelivery: boolean;
+  monthlyDeliveryDay: number;
+  clientEmail: string;
+  clientName: string | null;
+  sendCount: number;
+  lastSentAt: string;
+  expiresAt: string;
+  revokedAt: string | null;
+  acceptedAt: string | null;
+  acceptedBusinessId: string | null;
+  createdAt: string;
+}
+
+function invitationStatus(invitation: ClientInvitation): ClientInvitationStatus {
+  if (invitation.acceptedAt) return "accepted";
+  if (invitation.revokedAt) return "revoked";
+  if (new Date(invitation.expiresAt).getTime() < Date.now()) return "expired";
+  return "pending";
+}
+
+function serializeInvitation(invitation: ClientInvitation) {
+  return { ...invitation, status: invitationStatus(invitation) };
+}
+
+function invalidInvite(): Error {
+  return Object.assign(new Error("ההזמנה לא תקינה, כבר נוצלה או בוטלה"), { statusCode: 400 });
+}
+
+/** Queue the invitation email with a fresh link; each send gets its own outbox entry. */
+async function sendInvitationEmail(invitation: ClientInvitation) {
+  const token = createClientInviteToken(invitation.id, invitation.expiresAt);
+  const signupUrl = `${env.FRONTEND_BASE_URL}/onboarding?invite=${encodeURIComponent(token)}`;
+  const inviter = invitation.accountantName
+    ? `${invitation.accountantName}${invitation.firmName ? ` מ${invitation.firmName}` : ""}`
+    : "רואה החשבון שלך";
+
+  return enqueueEmail({
+    businessId: null,
+    kind: "client_invite",
+    idempotencyKey: `client-invite:${invitation.id}:${invitation.sendCount}`,
+    email: {
+      to: invitation.clientEmail,
+      subject: "הוזמנת ל-SendToAmram – ניהול חשבוניות אוטומטי",
+      html: `
+<!DOCTYPE html>
+<html dir="rtl" lang="he">
+<head><meta charset="utf-8"></head>
+<body style="font-family:Arial,sans-serif;direction:rtl;text-align:right;background:#f5f5f5;margin:0;padding:20px;">
+  <div style="max-width:500px;margin:0 auto;background:#fff;border-radius:12px;overflow:hidden;box-shadow:0 2px 8px rgba(0,0,0,0.08);">
+    <div style="background:linear-gradient(135deg,#ff6b6b,#ee5a24);padding:24px 32px;">
+      <h1 style="color:#fff;margin:0;font-size:22px;">SendToAmram</h1>
+    </div>
+    <div style="padding:24px 32px;">
+      <p style="font-size:16px;color:#333;">שלום${invitation.clientName ? ` ${invitation.clientName}` : ""},</p>
+      <p style="font-size:15px;color:#555;">
+        ${inviter} הזמין אותך להשתמש ב-SendToAmram לניהול חשבוניות אוטומטי.
+        החשבוניות שלך יגיעו אליו ישירות, בלי שתצטרך להעביר אותן.
+      </p>
+      <div style="text-align:center;margin:24px 0;">
+        <a href="${signupUrl}" style="display:inline-block;padding:12px 32px;background:#ee5a24;color:#fff;text-decoration:none;border-radius:8px;font-weight:bold;font-size:16px;">
+          הרשמה חינם
+        </a>
+      </div>
+      <p style="font-size:13px;color:#999;">
+        הקישור בתוקף ל-30 יום. הודעה זו נשלחה מ-<a href="https://sendtoamram.co.il" style="color:#ee5a24;">SendToAmram</a>.
+      </p>
+    </div>
+  </div>
+</body>
+</html>`,
+    },
+  });
+}
+
+/**
+ * Invite a client. The accountant's name and firm default to their staff
+ * record; delivery preferences to the usual monthly report on the 3rd.
+ */
+export async function inviteClient(
+  email: string,
+  payload: {
+    clientEmail: string;
+    clientName?: string | null;
+    accountantName?: string | null;
+    autoMonthlyDelivery?: boolean;
+    monthlyDeliveryDay?: number;
+  },
+) {
+  const access = await getAccountantAccess(email);
+  if (access.staff?.role === "read_only") {
+    throw Object.assign(new Error("Read-only staff can't invite clients"), { statusCode: 403 });
+  }
+  if (!env.RESEND_API_KEY) {
+    throw new Error("Email delivery is not configured");
+  }
+
+  const invitation: ClientInvitation = await store.createClientInvitation({
+    firmId: access.firm?.id ?? null,
+    accountantEmail: access.email,
+    accountantName: payload.accountantName?.trim() || access.staff?.fullName || null,
+    firmName: access.firm?.name ?? null,
+    autoMonthlyDelivery: payload.autoMonthlyDelivery ?? true,
+    monthlyDeliveryDay: payload.monthlyDeliveryDay ?? 3,
+    clientEmail: payload.clientEmail,
+    clientName: payload.clientName?.trim() || null,
+    expiresAt: new Date(Date.now() + INVITE_EXPIRY_MS).toISOString(),
+  });
+  const message = await sendInvitationEmail(invitation);
+  console.log(`[accountant-invites] ${access.email} invited ${invitation.clientEmail}`);
+  return { invitation: serializeInvitation(invitation), message };
+}
+
+/** Invitations an accountant can manage: their own, or the whole firm's for admins. */
+export async function listClientInvites(email: string) {
+  const access = await getAccountantAccess(email);
+  const invitations: ClientInvitation[] = access.staff?.role === "admin"
+    ? await store.listClientInvitations({ firmId: access.staff.firmId })
+    : await store.listClientInvitations({ accountantEmail: access.email });
+  return invitations.map(serializeInvitation);
+}
+
+async function getManagedInvitation(email: string, invitationId: string): Promise<ClientInvitation> {
+  const access = await getAccountantAccess(email);
+  const invitation: ClientInvitation | null = await store.getClientInvitation(invitationId);
+  const canManage = invitation && (
+    invitation.accountantEmail === access.email
+    || (access.staff?.role === "admin" && invitation.firmId === access.staff.firmId)
+  );
+  if (!canManage) {
+    throw Object.assign(new Error("Invitation not found"), { statusCode: 404 });
+  }
+  return invitation;
+}
+
+/** Send an open (or lapsed) invitation again, with a fresh 30 days. */
+export async function resendClientInvite(email: string, invitationId: string) {
+  const invitation = await getManagedInvitation(email, invitationId);
+  const status = invitationStatus(invitation);
+  if (status === "accepted" || status === "revoked") {
+    throw Object.assign(new Error(`This invitation was already ${status}`), { statusCode: 409 });
+  }
+  if (!env.RESEND_API_KEY) {
+    throw new Error("Email delivery is not configured");
+  }
+
+  const renewed: ClientInvitation = await store.renewClientInvitation(
+    invitation.id,
+    new Date(Date.now() + INVITE_EXPIRY_MS).toISOString(),
+  );
+  const message = await sendInvitationEmail(renewed);
+  return { invitation: serializeInvitation(renewed), message };
+}
+
+export async function revokeClientInvite(email: string, invitationId: string) {
+  const invitation = await getManagedInvitation(email, invitationId);
+  if (invitation.acceptedAt) {
+    throw Object.assign(new Error("This invitation was already accepted"), { statusCode: 409 });
+  }
+  return serializeInvitation(await store.revokeClientInvitation(invitation.id));
+}
+
+/** The open invitation behind an invite token, or throw 400. */
+export async function getOpenInvitation(token: string): Promise<ClientInvitation> {
+  const invitationId = readClientInviteToken(token);
+  const invitation: ClientInvitation | null = invitationId ? await store.getClientInvitation(invitationId) : null;
+  if (!invitation || invitationStatus(invitation) !== "pending") {
+    throw invalidInvite();
+  }
+  return invitation;
+}
+
+/** What onboarding prefills from an invitation. */
+export async function getInvitePrefill(token: string) {
+  const invitation = await getOpenInvitation(token);
+  return {
+    clientEmail: invitation.clientEmail,
+    clientName: invitation.clientName,
+    accountantName: invitation.accountantName,
+    accountantEmail: invitation.accountantEmail,
+    firmName: invitation.firmName,
+  };
+}
+
+/**
+ * Accept an invitation for a newly onboarded business: mark it used and
+ * point the business's accountant settings at the inviter. Returns false
+ * if someone else used it first.
+ */
+export async function acceptClientInvite(invitation: ClientInvitation, businessId: string): Promise<boolean> {
+  const accepted = await store.acceptClientInvitation(invitation.id, businessId);
+  if (!accepted) {
+    console.warn(`[accountant-invites] Invitation ${invitation.id} was used before business ${businessId} could accept it`);
+    return false;
+  }
+
+  await store.updateAccountantSettings({
+    businessId,
+    ...(invitation.accountantName ? { name: invitation.accountantName } : {}),
+    email: invitation.accountantEmail,
+    firmName: invitation.firmName,
+    autoMonthlyDelivery: invitation.autoMonthlyDelivery,
+    monthlyDeliveryDay: invitation.monthlyDeliveryDay,
+  });
+  console.log(`[accountant-invites] Invitation ${invitation.id} accepted by business ${businessId}`);
+  return true;
+}
@@ -1,6 +1,7 @@
 import Anthropic from "@anthropic-ai/sdk";
 import { env } from "../config";
 import { pool } from "../db";
+import { parseAllocationNumber, parseBusinessId } from "./israeli-ids";
 
 let client: Anthropic | null = null;
 
@@ -52,6 +53,12 @@ export interface ExtractedInvoice {
   type: string;
   category: string;
   confidence: number;
+  /** Invoice / receipt number as printed */
+  invoiceNumber: string | null;
+  /** Supplier ח.פ / עוסק מורשה — only kept when the check digit is valid */
+  supplierTaxId: string | null;
+  /** Tax Authority allocation number (מספר הקצאה) */
+  allocationNumber: string | null;
 }
 
 export interface VendorCategoryMapping {
@@ -72,6 +79,9 @@ Return exactly this shape:
   "issuedAt": "YYYY-MM-DD",
   "type": "INVOICE",
   "category": "כללי",
+  "invoiceNumber": null,
+  "supplierTaxId": null,
+  "allocationNumber": null,
   "confidence": 0.8
 }
 
@@ -81,6 +91,9 @@ Rules:
 - type: one of INVOICE, RECEIPT, SUBSCRIPTION, PAYMENT_CONFIRMATION
 - category: one of תוכנה, חשבונות, משרד, ציוד, נסיעות, שיווק, מקצועי, כללי
 - issuedAt: Best guess date in YYYY-MM-DD. If unknown, use today.
+- invoiceNumber: the document's own number (חשבונית מס מספר / קבלה מספר / Invoice #), as printed. Not an order or customer number. null if absent.
+- supplierTaxId: the ISSUER's ח.פ / ע.מ / עוסק מורשה (9 digits, digits only). Not the customer's number. null if absent.
+- allocationNumber: מספר הקצאה (9 digits, digits only), printed on Israeli tax invoices approved by the Tax Authority. null if absent.
 - confidence: 0-1 how confident you are in the extraction.
 - If you truly cannot extract anything useful, return confidence: 0.1 with best guesses.`;
 
@@ -122,6 +135,9 @@ function parseExtractedJson(response: Anthropic.Message): ExtractedInvoice {
       type: String(parsed.type || "INVOICE").toUpperCase(),
       category: String(parsed.category || "כללי"),
       confidence: Math.min(1, Math.max(0, Number(parsed.confidence) || 0.5)),
+      invoiceNumber: parsed.invoiceNumber ? String(parsed.invoiceNumber).trim().slice(0, 30) || null : null,
+      supplierTaxId: parseBusinessId(parsed.supplierTaxId != null ? String(parsed.supplierTaxId) : null),
+      allocationNumber: parseAllocationNumber(parsed.allocationNumber != null ? String(parsed.allocationNumber) : null),
     };
   } catch {
     console.error("[ai] Failed to parse JSON response:", cleaned.slice(0, 200));
@@ -134,6 +150,9 @@ function parseExtractedJson(response: Anthropic.Message): ExtractedInvoice {
       type: "INVOICE",
       category: "כללי",
       confidence: 0.1,
+      invoiceNumber: null,
+      supplierTaxId: null,
+      allocationNumber: null,
     };
   }
 }
@@ -193,6 +212,48 @@ export async function extractInvoiceFromImage(
   return parseExtractedJson(response);
 }
 
+/**
+ * Extract one invoice from several photos — a long receipt or a multi-page
+ * invoice photographed page by page, in order.
+ */
+export async function extractInvoiceFromImages(
+  businessId: string,
+  images: Array<{ base64: string; mimeType: string }>,
+  modelOverride?: string,
+  vendorMappings?: VendorCategoryMapping[],
+): Promise<ExtractedInvoice> {
+  if (images.length === 1) {
+    return extractInvoiceFromImage(businessId, images[0].base64, images[0].mimeType, modelOverride, vendorMappings);
+  }
+  const model = modelOverride ?? env.AI_MODEL_EXPENSIVE;
+  const response = await getClient().messages.create({
+    model,
+    max_tokens: 1024,
+    system: buildExtractionPrompt(vendorMappings),
+    messages: [
+      {
+        role: "user",
+        content: [
+          ...images.map((image) => ({
+            type: "image" as const,
+            source: {
+              type: "base64" as const,
+              media_type: image.mimeType as "image/jpeg" | "image/png" | "image/gif" | "image/webp",
+              data: image.base64,
+            },
+          })),
+          {
+            type: "text",
+            text: `These ${images.length} images are consecutive pages of one invoice/receipt. Extract its data. Return JSON only.`,
+          },
+        ],
+      },
+    ],
+  });
+  await logUsage(businessId, model, "extract_image", response.usage);
+  return parseExtractedJson(response);
+}
+
 // ── Extraction: PDF (Sonnet document) ──────────────────────────
 
 export async function extractInvoiceFromPdf(
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { documentFileHeaders, saveDocumentFile } from "./blob-storage";
+
+const PDF = Buffer.from("%PDF-1.7\n%test\n");
+const SVG = Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"><script>alert(1)</script></svg>');
+
+describe("document file types", () => {
+  it("keeps a PDF under its normalized type", async () => {
+    const file = await saveDocumentFile("biz_1", { filename: "invoice.pdf", mimeType: "Application/PDF; name=x", data: PDF });
+    expect(file.mimeType).toBe("application/pdf");
+  });
+
+  it("refuses types outside the allowlist", async () => {
+    await expect(saveDocumentFile("biz_1", { filename: "invoice.svg", mimeType: "image/svg+xml", data: SVG }))
+      .rejects.toThrow("Unsupported document file type");
+  });
+
+  it("refuses contents that don't match the claimed type", async () => {
+    await expect(saveDocumentFile("biz_1", { filename: "invoice.pdf", mimeType: "application/pdf", data: SVG }))
+      .rejects.toThrow("Unsupported document file type");
+  });
+
+  it("serves a file stored with another type as a nosniff download", () => {
+    const headers = documentFileHeaders(
+      { key: "documents/biz_1/old.svg", filename: "old.svg", mimeType: "image/svg+xml", sizeBytes: SVG.length },
+      "inline",
+    );
+    expect(headers["Content-Type"]).toBe("application/octet-stream");
+    expect(headers["Content-Disposition"]).toMatch(/^attachment;/);
+    expect(headers["X-Content-Type-Options"]).toBe("nosniff");
+  });
+});
@@ -0,0 +1,245 @@
+import { createHash, createHmac, randomUUID } from "crypto";
+import { existsSync } from "fs";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { env } from "../config";
+import { store } from "../store";
+
+export interface BlobStorageDriver {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
+
+/** Reference to an original invoice file, as persisted on the document row. */
+export interface StoredFile {
+  key: string;
+  filename: string;
+  mimeType: string;
+  sizeBytes: number;
+  /** Hex SHA-256 of the file contents, for spotting the same file arriving twice */
+  sha256?: string;
+}
+
+/** The only file types kept as document originals, and so the only ones served back. */
+export const DOCUMENT_FILE_TYPES = ["application/pdf", "image/png", "image/jpeg"] as const;
+export type DocumentFileType = (typeof DOCUMENT_FILE_TYPES)[number];
+
+/**
+ * Map a sender-supplied MIME type onto the allowlist: parameters and case
+ * are dropped and image/jpg is read as image/jpeg. Null for anything else.
+ */
+export function toDocumentFileType(mimeType: string | null | undefined): DocumentFileType | null {
+  const type = (mimeType ?? "").split(";")[0].trim().toLowerCase();
+  const normalized = type === "image/jpg" ? "image/jpeg" : type;
+  return (DOCUMENT_FILE_TYPES as readonly string[]).includes(normalized) ? normalized as DocumentFileType : null;
+}
+
+/** The type the file's leading bytes actually are, if it's one we keep. */
+function sniffDocumentFileType(data: Buffer): DocumentFileType | null {
+  if (data.subarray(0, 5).toString("latin1") === "%PDF-") return "application/pdf";
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return "image/png";
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return "image/jpeg";
+  return null;
+}
+
+// ─── Local filesystem driver ───
+
+function createLocalDriver(rootDir: string): BlobStorageDriver {
+  const resolve = (key: string) => {
+    const fullPath = path.resolve(rootDir, key);
+    if (!fullPath.startsWith(path.resolve(rootDir) + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return fullPath;
+  };
+
+  return {
+    async put(key, data) {
+      const fullPath = resolve(key);
+      await mkdir(path.dirname(fullPath), { recursive: true });
+      await writeFile(fullPath, data);
+    },
+    async get(key) {
+      const fullPath = resolve(key);
+      if (!existsSync(fullPath)) return null;
+      return readFile(fullPath);
+    },
+    async delete(key) {
+      await rm(resolve(key), { force: true });
+    },
+  };
+}
+
+// ─── S3-compatible driver (AWS S3, R2, MinIO…) ───
+
+function sha256Hex(data: Buffer | string): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+function createS3Driver(config: {
+  bucket: string;
+  region: string;
+  endpoint?: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}): BlobStorageDriver {
+  /**
+   * Signed S3 request (SigV4). Custom endpoints use path-style addressing,
+   * plain AWS uses virtual-hosted buckets.
+   */
+  async function s3Request(method: "GET" | "PUT" | "DELETE", key: string, body?: Buffer, contentType?: string) {
+    const encodedKey = key.split("/").map(encodeURIComponent).join("/");
+    const url = config.endpoint
+      ? new URL(`${config.endpoint.replace(/\/$/, "")}/${config.bucket}/${encodedKey}`)
+      : new URL(`https://${config.bucket}.s3.${config.region}.amazonaws.com/${encodedKey}`);
+
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex(body ?? "");
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+    };
+    if (contentType) headers["content-type"] = contentType;
+
+    const signedHeaderNames = Object.keys(headers).sort();
+    const canonicalHeaders = signedHeaderNames.map((name) => `${name}:${headers[name]}\n`).join("");
+    const signedHeaders = signedHeaderNames.join(";");
+    const canonicalRequest = [method, url.pathname, "", canonicalHeaders, signedHeaders, payloadHash].join("\n");
+
+    const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+    const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region), "s3"), "aws4_request");
+    const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+    const { host: _host, ...requestHeaders } = headers;
+    return fetch(url, {
+      method,
+      headers: {
+        ...requestHeaders,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+      },
+      body,
+    });
+  }
+
+  return {
+    async put(key, data, contentType) {
+      const response = await s3Request("PUT", key, data, contentType);
+      if (!response.ok) {
+        throw new Error(`S3 PUT ${key} failed (${response.status}): ${await response.text()}`);
+      }
+    },
+    async get(key) {
+      const response = await s3Request("GET", key);
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`S3 GET ${key} failed (${response.status}): ${await response.text()}`);
+      }
+      return Buffer.from(await response.arrayBuffer());
+    },
+    async delete(key) {
+      const response = await s3Request("DELETE", key);
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`S3 DELETE ${key} failed (${response.status}): ${await response.text()}`);
+      }
+    },
+  };
+}
+
+// ─── Driver selection ───
+
+let driver: BlobStorageDriver | null = null;
+
+export function getBlobStorage(): BlobStorageDriver {
+  if (driver) return driver;
+
+  if (env.BLOB_STORAGE_DRIVER === "s3") {
+    if (!env.S3_BUCKET || !env.S3_ACCESS_KEY_ID || !env.S3_SECRET_ACCESS_KEY) {
+      throw new Error("S3 blob storage is not configured (missing S3_BUCKET or credentials)");
+    }
+    driver = createS3Driver({
+      bucket: env.S3_BUCKET,
+      region: env.S3_REGION,
+      endpoint: env.S3_ENDPOINT,
+      accessKeyId: env.S3_ACCESS_KEY_ID,
+      secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+    });
+  } else {
+    driver = createLocalDriver(path.resolve(process.cwd(), env.BLOB_STORAGE_DIR));
+  }
+  return driver;
+}
+
+// ─── Document files ───
+
+/**
+ * Persist an original invoice file (email attachment, WhatsApp media) and
+ * return the reference to store on the document. Only PDF, PNG and JPEG are
+ * kept, and the contents must match the claimed type; anything else throws
+ * "Unsupported document file type".
+ */
+export async function saveDocumentFile(
+  businessId: string,
+  file: { filename: string; mimeType: string; data: Buffer },
+): Promise<StoredFile> {
+  const mimeType = toDocumentFileType(file.mimeType);
+  if (!mimeType || sniffDocumentFileType(file.data) !== mimeType) {
+    throw new Error(`Unsupported document file type: ${file.mimeType}`);
+  }
+  const safeName = file.filename.replace(/[^\w.-]+/g, "_").slice(-100) || "file";
+  const key = `documents/${businessId}/${randomUUID()}-${safeName}`;
+  await getBlobStorage().put(key, file.data, mimeType);
+  return {
+    key,
+    filename: file.filename,
+    mimeType,
+    sizeBytes: file.data.length,
+    sha256: sha256Hex(file.data),
+  };
+}
+
+/**
+ * Load a document's original file, or throw "Document file not found".
+ */
+export async function loadDocumentFile(
+  businessId: string,
+  documentId: string,
+): Promise<{ file: StoredFile; data: Buffer }> {
+  const file: StoredFile | null = await store.getDocumentFile(businessId, documentId);
+  const data = file ? await getBlobStorage().get(file.key) : null;
+  if (!file || !data) {
+    throw new Error("Document file not found");
+  }
+  return { file, data };
+}
+
+/** Delete a document's original file once the document itself is gone. */
+export async function deleteDocumentFile(file: StoredFile): Promise<void> {
+  await getBlobStorage().delete(file.key);
+}
+
+/**
+ * Response headers for serving a stored original. Files saved before the
+ * type allowlist may carry any type; those go out as a plain download.
+ */
+export function documentFileHeaders(file: StoredFile, disposition: "inline" | "attachment"): Record<string, string> {
+  const mimeType = toDocumentFileType(file.mimeType);
+  return {
+    "Content-Type": mimeType ?? "application/octet-stream",
+    "Content-Disposition": contentDisposition(mimeType ? disposition : "attachment", file.filename),
+    "X-Content-Type-Options": "nosniff",
+  };
+}
+
+export function contentDisposition(disposition: "inline" | "attachment", filename: string): string {
+  const asciiName = filename.replace(/[^\x20-\x7e]+/g, "_").replace(/"/g, "");
+  return `${disposition}; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
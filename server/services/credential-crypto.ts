@@ -0,0 +1,36 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import { env } from "../config";
+
+// AES-256-GCM with a key derived from the configured secret.
+// Stored format: v1.<iv>.<authTag>.<ciphertext> (base64url parts).
+const KEY = createHash("sha256")
+  .update(env.CREDENTIALS_ENCRYPTION_KEY ?? env.OAUTH_STATE_SECRET)
+  .digest();
+
+/**
+ * Encrypt an inbox credential (e.g. an IMAP app password) for storage.
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", KEY, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf-8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return ["v1", iv, tag, ciphertext].map((part) => (typeof part === "string" ? part : part.toString("base64url"))).join(".");
+}
+
+/**
+ * Decrypt a value produced by `encryptSecret`. Throws if it was tampered with
+ * or encrypted under a different key.
+ */
+export function decryptSecret(encrypted: string): string {
+  const [version, iv, tag, ciphertext] = encrypted.split(".");
+  if (version !== "v1" || !iv || !tag || !ciphertext) {
+    throw new Error("Unsupported credential format");
+  }
+  const decipher = createDecipheriv("aes-256-gcm", KEY, Buffer.from(iv, "base64url"));
+  decipher.setAuthTag(Buffer.from(tag, "base64url"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, "base64url")),
+    decipher.final(),
+  ]).toString("utf-8");
+}
@@ -7,9 +7,15 @@ import {
   fetchGmailAttachment,
   extractDocumentFromEmail,
   getLatestHistoryId,
+  storeFirstGmailAttachment,
 } from "./gmail-sync";
+import { flagDuplicate } from "./duplicates";
+import { publishDocumentCreated, publishEvent } from "./events";
+import { applyExchangeRate, convertToIls } from "./exchange-rates";
+import { applyVendorVatTreatment, resolveDocumentVat } from "./vat";
 
 const TIME_BUDGET_MS = 22_000; // 22s — leave 8s buffer for Vercel's 30s limit
+const MAX_CONCURRENT_SCANS = 4;
 
 interface GmailListResponse {
   messages?: Array<{ id: string; threadId: string }>;
@@ -17,6 +23,120 @@ interface GmailListResponse {
   resultSizeEstimate?: number;
 }
 
+// ─── Starting scans ───
+
+const DEFAULT_SCAN_YEARS = 3;
+/** A scan in one of these states holds its inbox until it finishes or is cancelled. */
+export const ACTIVE_SCAN_STATUSES = ["DISCOVERING", "PROCESSING", "AI_PASS", "PAUSED"];
+const INVOICE_TERMS = "has:attachment OR subject:(חשבונית OR invoice OR receipt OR קבלה OR payment OR תשלום OR billing OR הזמנה)";
+
+export interface DeepScanOptions {
+  /** One inbox, or every connected Gmail inbox when omitted */
+  inboxId?: string;
+  /** YYYY-MM-DD, defaults to three years back */
+  from?: string;
+  /** YYYY-MM-DD, inclusive; open-ended (up to today) when omitted */
+  to?: string;
+  /** Extra Gmail search terms, matched in addition to the built-in invoice terms */
+  extraTerms?: string;
+  /** Addresses or domains whose mail is skipped */
+  excludedSenders?: string[];
+}
+
+export interface StartedScan {
+  scanJobId: string;
+  inboxId: string;
+  inboxEmail: string;
+  status: string;
+  /** False when the inbox already had a scan running */
+  started: boolean;
+}
+
+function gmailDate(date: string): string {
+  return date.replace(/-/g, "/");
+}
+
+function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+/** Gmail search for a scan. Gmail's before: is exclusive, so `to` is moved a day on. */
+export function buildScanQuery(filters: {
+  afterDate: string;
+  beforeDate: string | null;
+  extraTerms: string | null;
+  excludedSenders: string[];
+}): string {
+  const parts = [`after:${gmailDate(filters.afterDate)}`];
+  if (filters.beforeDate) parts.push(`before:${gmailDate(addDays(filters.beforeDate, 1))}`);
+  parts.push(filters.extraTerms ? `(${INVOICE_TERMS} OR (${filters.extraTerms}))` : `(${INVOICE_TERMS})`);
+  for (const sender of filters.excludedSenders) parts.push(`-from:${sender}`);
+  return parts.join(" ");
+}
+
+/**
+ * Start a scan on each chosen Gmail inbox. Inboxes that already have a scan
+ * running keep it; each inbox's scan runs alongside the others.
+ */
+export async function startDeepScans(businessId: string, options: DeepScanOptions = {}): Promise<StartedScan[]> {
+  const inboxes: Array<{ id: string; email: string }> = await store.getGmailInboxes(businessId);
+  const selected = options.inboxId ? inboxes.filter((inbox) => inbox.id === options.inboxId) : inboxes;
+  if (selected.length === 0) {
+    throw options.inboxId
+      ? new Error("Inbox not found")
+      : Object.assign(new Error("No Gmail inbox connected"), { statusCode: 400 });
+  }
+
+  const defaultFrom = new Date();
+  defaultFrom.setFullYear(defaultFrom.getFullYear() - DEFAULT_SCAN_YEARS);
+  const filters = {
+    afterDate: options.from ?? defaultFrom.toISOString().slice(0, 10),
+    beforeDate: options.to ?? null,
+    extraTerms: options.extraTerms?.trim() || null,
+    excludedSenders: [...new Set((options.excludedSenders ?? []).map((s) => s.trim().toLowerCase()).filter(Boolean))],
+  };
+  const gmailQuery = buildScanQuery(filters);
+
+  const latestScans: Array<{ id: string; inboxConnectionId: string; status: string }> =
+    await store.getScanJobsForBusiness(businessId);
+  const scans: StartedScan[] = [];
+  for (const inbox of selected) {
+    const active = latestScans.find((job) =>
+      job.inboxConnectionId === inbox.id && ACTIVE_SCAN_STATUSES.includes(job.status));
+    if (active) {
+      scans.push({ scanJobId: active.id, inboxId: inbox.id, inboxEmail: inbox.email, status: active.status, started: false });
+      continue;
+    }
+
+    const { id } = await store.createScanJob(businessId, inbox.id, gmailQuery, filters.afterDate, {
+      beforeDate: filters.beforeDate,
+      extraTerms: filters.extraTerms,
+      excludedSenders: filters.excludedSenders,
+    });
+    console.log(`[deep-scan] Started scan job ${id} for inbox ${inbox.email} (${gmailQuery})`);
+    await publishEvent(businessId, { type: "scan.phase", scanJobId: id, inboxId: inbox.id, status: "DISCOVERING", previousStatus: null });
+    scans.push({ scanJobId: id, inboxId: inbox.id, inboxEmail: inbox.email, status: "DISCOVERING", started: true });
+  }
+  return scans;
+}
+
+/**
+ * Mark a scan done. A scan that ran up to today moves the inbox's history
+ * cursor to now; one with an end date leaves it, so incremental sync still
+ * picks up whatever arrived while the scan held it off.
+ */
+async function completeScan(job: { id: string; inboxConnectionId: string; beforeDate: string | null }, accessToken: string) {
+  if (!job.beforeDate) {
+    try {
+      const latestHistoryId = await getLatestHistoryId(accessToken);
+      await store.updateInboxSyncCursor(job.inboxConnectionId, latestHistoryId);
+    } catch { /* ignore */ }
+  }
+  await store.updateScanJob(job.id, { status: "COMPLETED" });
+}
+
 // ─── Phase 1: Discovery ───
 // Paginates through Gmail to collect all matching message IDs
 
@@ -140,12 +260,7 @@ export async function processRegexBatch(scanJobId: string): Promise<{ processed:
       });
     } else {
       console.log("[deep-scan] Processing complete — no AI needed");
-      // Update history cursor so incremental sync resumes properly
-      try {
-        const latestHistoryId = await getLatestHistoryId(accessToken);
-        await store.updateInboxSyncCursor(job.inboxConnectionId, latestHistoryId);
-      } catch { /* ignore */ }
-      await store.updateScanJob(scanJobId, { status: "COMPLETED" });
+      await completeScan(job, accessToken);
     }
     return { processed: 0, created: 0, done: true };
   }
@@ -186,8 +301,26 @@ export async function processRegexBatch(scanJobId: string): Promise<{ processed:
         continue;
       }
 
+      // Keep the original attachment alongside the document
+      try {
+        const attachment = await storeFirstGmailAttachment(
+          accessToken, item.gmailMessageId, inbox.businessId, doc.attachments,
+        );
+        doc.file = attachment?.file ?? null;
+      } catch (fileErr) {
+        console.error(
+          `[deep-scan] Failed to store attachment for ${item.gmailMessageId}:`,
+          fileErr instanceof Error ? fileErr.message : String(fileErr),
+        );
+      }
+
+      await applyVendorVatTreatment(doc);
+      await applyExchangeRate(doc);
+
       // Create the document
       const { id: docId } = await store.createDocument(doc);
+      await flagDuplicate(docId);
+      await publishDocumentCreated(inbox.businessId, docId);
 
       // Check if this message has attachments that need AI
       const hasDownloadableAttachment = doc.attachments.length > 0;
@@ -266,11 +399,7 @@ export async function processAiBatch(scanJobId: string): Promise<{ processed: nu
   } catch { /* ignore */ }
   if (!isAiEnabled()) {
     console.log("[deep-scan] AI not enabled — completing scan without AI pass");
-    try {
-      const latestHistoryId = await getLatestHistoryId(accessToken);
-      await store.updateInboxSyncCursor(job.inboxConnectionId, latestHistoryId);
-    } catch { /* ignore */ }
-    await store.updateScanJob(scanJobId, { status: "COMPLETED" });
+    await completeScan(job, accessToken);
     return { processed: 0, done: true };
   }
 
@@ -278,11 +407,7 @@ export async function processAiBatch(scanJobId: string): Promise<{ processed: nu
   const batch = await store.claimAiMessages(scanJobId, 5);
   if (batch.length === 0) {
     console.log("[deep-scan] AI pass complete");
-    try {
-      const latestHistoryId = await getLatestHistoryId(accessToken);
-      await store.updateInboxSyncCursor(job.inboxConnectionId, latestHistoryId);
-    } catch { /* ignore */ }
-    await store.updateScanJob(scanJobId, { status: "COMPLETED" });
+    await completeScan(job, accessToken);
     return { processed: 0, done: true };
   }
 
@@ -365,12 +490,44 @@ export async function processAiBatch(scanJobId: string): Promise<{ processed: nu
       if (extracted && extracted.confidence > 0.2 && item.documentId) {
         const updates: Record<string, any> = {};
         if (extracted.vendorName) updates.vendorName = extracted.vendorName;
-        if (extracted.amountCents) updates.amountCents = extracted.amountCents;
+        if (extracted.amountCents) {
+          updates.amountCents = extracted.amountCents;
+          updates.currency = extracted.currency;
+        }
         if (extracted.category) updates.category = extracted.category;
+        if (extracted.invoiceNumber) updates.invoiceNumber = extracted.invoiceNumber;
+        if (extracted.supplierTaxId) updates.supplierTaxId = extracted.supplierTaxId;
+        if (extracted.allocationNumber) updates.allocationNumber = extracted.allocationNumber;
         if (extracted.confidence >= 0.6) updates.status = "pending";
         else updates.status = "review";
 
+        const existing = await store.getDocumentById(item.documentId);
+        if (existing) {
+          const vat = await resolveDocumentVat({
+            businessId: inbox.businessId,
+            vendorName: updates.vendorName ?? existing.vendorName,
+            amountCents: updates.amountCents ?? 0,
+            currency: updates.currency ?? existing.currency,
+            issuedAt: existing.issuedAt,
+            extractedVatCents: extracted.vatCents,
+          });
+          // Without a new amount there's nothing to re-estimate from
+          if (updates.amountCents || !vat.vatEstimated) {
+            updates.vatCents = vat.vatCents;
+            updates.vatEstimated = vat.vatEstimated;
+          }
+          if (updates.amountCents) {
+            Object.assign(updates, await convertToIls({
+              amountCents: updates.amountCents,
+              currency: updates.currency,
+              issuedAt: existing.issuedAt,
+            }));
+          }
+        }
+
         await store.updateDocument(inbox.businessId, item.documentId, updates);
+        // The corrected vendor and amount may now match an earlier copy
+        await flagDuplicate(item.documentId);
       }
 
       await store.updateScanMessage(item.id, { status: "AI_DONE" });
@@ -395,31 +552,68 @@ export async function processAiBatch(scanJobId: string): Promise<{ processed: nu
 
 // ─── Orchestrator: called by cron ───
 
-export async function processScanJobs(): Promise<{ processed: number }> {
-  const jobs = await store.getAllActiveScanJobs();
-  if (jobs.length === 0) return { processed: 0 };
-
-  let totalProcessed = 0;
+interface ActiveScanJob {
+  id: string;
+  businessId: string;
+  inboxConnectionId: string;
+  status: string;
+}
 
-  for (const job of jobs) {
-    if (job.status === "PAUSED") continue;
+/** Report a scan's counters after a step, plus a phase event when its status moved on. */
+async function publishScanUpdate(before: ActiveScanJob): Promise<void> {
+  const job = await store.getScanJob(before.id);
+  if (!job) return;
+  if (job.status !== before.status) {
+    await publishEvent(job.businessId, {
+      type: "scan.phase",
+      scanJobId: job.id,
+      inboxId: job.inboxConnectionId,
+      status: job.status,
+      previousStatus: before.status,
+    });
+  }
+  await publishEvent(job.businessId, {
+    type: "scan.progress",
+    scanJobId: job.id,
+    inboxId: job.inboxConnectionId,
+    status: job.status,
+    discovered: job.totalDiscovered,
+    processed: job.processedCount,
+    total: job.totalToProcess || job.totalDiscovered,
+    created: job.documentsCreated,
+    aiProcessed: job.aiProcessed,
+    aiTotal: job.aiTotal,
+  });
+}
 
+/**
+ * Advance active scans side by side — each inbox has its own Gmail quota and
+ * time budget. Jobs come least recently advanced first, so with more scans
+ * than slots every one still gets its turn.
+ */
+export async function processScanJobs(): Promise<{ processed: number; scans: number }> {
+  const jobs = (await store.getAllActiveScanJobs()).slice(0, MAX_CONCURRENT_SCANS);
+  if (jobs.length === 0) return { processed: 0, scans: 0 };
+
+  const results = await Promise.all(jobs.map(async (job: ActiveScanJob) => {
+    let processed = 0;
     try {
       if (job.status === "DISCOVERING") {
-        const result = await discoverMessages(job.id);
-        totalProcessed += result.found;
+        processed = (await discoverMessages(job.id)).found;
       } else if (job.status === "PROCESSING") {
-        const result = await processRegexBatch(job.id);
-        totalProcessed += result.processed;
+        processed = (await processRegexBatch(job.id)).processed;
       } else if (job.status === "AI_PASS") {
-        const result = await processAiBatch(job.id);
-        totalProcessed += result.processed;
+        processed = (await processAiBatch(job.id)).processed;
       }
     } catch (error: any) {
       console.error(`[deep-scan] Job ${job.id} error:`, error);
       await store.updateScanJob(job.id, { lastError: error.message?.substring(0, 500) });
     }
-  }
+    await publishScanUpdate(job).catch((error) => {
+      console.error(`[deep-scan] Failed to report progress for job ${job.id}:`, error);
+    });
+    return processed;
+  }));
 
-  return { processed: totalProcessed };
+  return { processed: results.reduce((sum, count) => sum + count, 0), scans: jobs.length };
 }
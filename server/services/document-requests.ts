@@ -0,0 +1,250 @@
+import { env } from "../config";
+import { store } from "../store";
+import { assertClientAccess } from "./accountant-firms";
+import { escapeHtml } from "./email";
+import { publishEvent } from "./events";
+import { enqueueEmail, enqueueWhatsApp } from "./outbox";
+
+/**
+ * Document threads: the accountant comments on a client's document or asks
+ * for something about it — the original, a tax invoice in place of a
+ * receipt, or what the expense was. Requests reach the owner by email and
+ * WhatsApp and sit on their dashboard as a to-do list until the owner (or
+ * the accountant) marks them resolved; the portal sees the same status.
+ */
+
+export const DOCUMENT_REQUEST_KINDS = ["original", "tax_invoice", "explain"] as const;
+export type DocumentRequestKind = (typeof DOCUMENT_REQUEST_KINDS)[number];
+export type DocumentRequestStatus = "open" | "resolved" | "cancelled";
+
+export interface DocumentRequest {
+  id: string;
+  businessId: string;
+  documentId: string;
+  kind: DocumentRequestKind;
+  message: string | null;
+  status: DocumentRequestStatus;
+  requestedByEmail: string;
+  createdAt: string;
+  resolvedAt: string | null;
+  resolvedBy: "accountant" | "owner" | null;
+  document: { vendor: string; issuedAt: string; amountCents: number; currency: string };
+}
+
+export interface DocumentComment {
+  id: string;
+  businessId: string;
+  documentId: string;
+  requestId: string | null;
+  author: "accountant" | "owner";
+  authorName: string | null;
+  body: string;
+  createdAt: string;
+}
+
+const KIND_LABELS: Record<DocumentRequestKind, string> = {
+  original: "שליחת המסמך המקורי",
+  tax_invoice: "חשבונית מס במקום קבלה",
+  explain: "הסבר על מהות ההוצאה",
+};
+
+function describeDocument(document: DocumentRequest["document"]): string {
+  const date = new Date(document.issuedAt).toLocaleDateString("he-IL");
+  const amount = (document.amountCents / 100).toLocaleString("he-IL", { maximumFractionDigits: 2 });
+  return `${document.vendor} (${date}, ${amount} ${document.currency === "ILS" ? "₪" : document.currency})`;
+}
+
+/**
+ * Tell the owner the accountant needs something, by email and WhatsApp where
+ * set up. `key` makes each notification go out once per channel; failing to
+ * queue one doesn't fail the accountant's action.
+ */
+async function notifyOwner(businessId: string, key: string, notice: { subject: string; lines: string[] }) {
+  const settings = await store.getSettings(businessId);
+  const dashboardUrl = `${env.FRONTEND_BASE_URL}/dashboard`;
+
+  if (env.RESEND_API_KEY && settings.owner?.email) {
+    try {
+      await enqueueEmail({
+        businessId,
+        kind: "document_request",
+        idempotencyKey: `${key}:email`,
+        email: {
+          to: settings.owner.email,
+          subject: `${notice.subject} | SendToAmram`,
+          html: `
+<!DOCTYPE html>
+<html dir="rtl" lang="he">
+<head><meta charset="utf-8"></head>
+<body style="font-family:Arial,sans-serif;direction:rtl;text-align:right;background:#f5f5f5;margin:0;padding:20px;">
+  <div style="max-width:500px;margin:0 auto;background:#fff;border-radius:12px;overflow:hidden;box-shadow:0 2px 8px rgba(0,0,0,0.08);">
+    <div style="background:linear-gradient(135deg,#ff6b6b,#ee5a24);padding:20px 32px;">
+      <h1 style="color:#fff;margin:0;font-size:20px;">${escapeHtml(notice.subject)}</h1>
+    </div>
+    <div style="padding:24px 32px;">
+      ${notice.lines.map((line) => `<p style="font-size:15px;color:#555;white-space:pre-wrap;">${escapeHtml(line)}</p>`).join("\n      ")}
+      <div style="text-align:center;margin:24px 0;">
+        <a href="${dashboardUrl}" style="display:inline-block;padding:12px 32px;background:#ee5a24;color:#fff;text-decoration:none;border-radius:8px;font-weight:bold;font-size:16px;">
+          לדשבורד
+        </a>
+      </div>
+      <p style="font-size:13px;color:#999;">נשלח מ-<a href="https://sendtoamram.co.il" style="color:#ee5a24;">SendToAmram</a> עבור ${escapeHtml(settings.business.name)}</p>
+    </div>
+  </div>
+</body>
+</html>`,
+        },
+      });
+    } catch (error) {
+      console.error(`[document-requests] Failed to queue email for ${key}:`, error);
+    }
+  }
+
+  const { getWhatsAppSender, isWhatsAppConfigured } = await import("./whatsapp-sender");
+  if (isWhatsAppConfigured()) {
+    try {
+      const recipient = await getWhatsAppSender().getOwnerRecipient(businessId);
+      if (recipient) {
+        await enqueueWhatsApp({
+          businessId,
+          kind: "document_request",
+          idempotencyKey: `${key}:whatsapp`,
+          to: recipient,
+          text: `📌 ${notice.subject}\n\n${notice.lines.join("\n")}\n\n${dashboardUrl}`,
+        });
+      }
+    } catch (error) {
+      console.error(`[document-requests] Failed to queue WhatsApp for ${key}:`, error);
+    }
+  }
+}
+
+async function getRequestOrThrow(businessId: string, requestId: string): Promise<DocumentRequest> {
+  const request: DocumentRequest | null = await store.getDocumentRequest(businessId, requestId);
+  if (!request) {
+    throw Object.assign(new Error("Request not found"), { statusCode: 404 });
+  }
+  return request;
+}
+
+/** A document's comments (oldest first) and requests (newest first). */
+export async function getDocumentThread(businessId: string, documentId: string) {
+  const comments: DocumentComment[] = await store.listDocumentComments(businessId, documentId);
+  const requests: DocumentRequest[] = await store.listDocumentRequests(businessId, { documentId });
+  return { comments, requests };
+}
+
+export async function listDocumentRequests(businessId: string, status?: DocumentRequestStatus): Promise<DocumentRequest[]> {
+  return store.listDocumentRequests(businessId, status ? { status } : {});
+}
+
+// ─── Accountant side ───
+
+export async function addAccountantComment(
+  email: string,
+  businessId: string,
+  documentId: string,
+  body: string,
+): Promise<DocumentComment> {
+  await assertClientAccess(email, businessId, { write: true });
+  const comment: DocumentComment = await store.addDocumentComment({
+    businessId,
+    documentId,
+    author: "accountant",
+    authorEmail: email.toLowerCase(),
+    body: body.trim(),
+  });
+  await publishEvent(businessId, { type: "comment.created", commentId: comment.id, documentId, author: "accountant" });
+
+  const document: DocumentRequest["document"] = await store.getDashboardDocumentDetail(businessId, documentId);
+  await notifyOwner(businessId, `document-comment:${comment.id}`, {
+    subject: "הודעה חדשה מרואה החשבון",
+    lines: [`לגבי ${describeDocument(document)}:`, comment.body],
+  });
+  return comment;
+}
+
+/** Ask the owner for something about a document; one open request per kind. */
+export async function createDocumentRequest(
+  email: string,
+  businessId: string,
+  documentId: string,
+  payload: { kind: DocumentRequestKind; message?: string | null },
+): Promise<DocumentRequest> {
+  await assertClientAccess(email, businessId, { write: true });
+  const request: DocumentRequest = await store.createDocumentRequest({
+    businessId,
+    documentId,
+    kind: payload.kind,
+    message: payload.message?.trim() || null,
+    requestedByEmail: email.toLowerCase(),
+  });
+  console.log(`[document-requests] ${email} requested ${request.kind} for document ${documentId}`);
+  await publishEvent(businessId, { type: "request.created", requestId: request.id, documentId, kind: request.kind });
+
+  await notifyOwner(businessId, `document-request:${request.id}`, {
+    subject: `רואה החשבון מבקש: ${KIND_LABELS[request.kind]}`,
+    lines: [
+      `לגבי ${describeDocument(request.document)}.`,
+      ...(request.message ? [request.message] : []),
+      "אפשר להשיב ולסמן כטופל ברשימת המשימות בדשבורד.",
+    ],
+  });
+  return request;
+}
+
+/** The accountant closes a request themselves: got what they needed, or no longer need it. */
+export async function closeRequestAsAccountant(
+  email: string,
+  businessId: string,
+  requestId: string,
+  status: "resolved" | "cancelled",
+): Promise<DocumentRequest> {
+  await assertClientAccess(email, businessId, { write: true });
+  const request: DocumentRequest = await store.closeDocumentRequest({ businessId, requestId, status, by: "accountant" });
+  await publishEvent(businessId, { type: "request.updated", requestId, documentId: request.documentId, status });
+  return request;
+}
+
+// ─── Owner side ───
+
+export async function addOwnerComment(
+  businessId: string,
+  documentId: string,
+  userId: string | null,
+  body: string,
+): Promise<DocumentComment> {
+  const comment: DocumentComment = await store.addDocumentComment({
+    businessId,
+    documentId,
+    author: "owner",
+    authorUserId: userId,
+    body: body.trim(),
+  });
+  await publishEvent(businessId, { type: "comment.created", commentId: comment.id, documentId, author: "owner" });
+  return comment;
+}
+
+/** The owner marks a request done, optionally with a note for the accountant. */
+export async function resolveRequestAsOwner(
+  businessId: string,
+  requestId: string,
+  userId: string | null,
+  note?: string | null,
+): Promise<DocumentRequest> {
+  const open = await getRequestOrThrow(businessId, requestId);
+  const request: DocumentRequest = await store.closeDocumentRequest({ businessId, requestId, status: "resolved", by: "owner" });
+  if (note?.trim()) {
+    await store.addDocumentComment({
+      businessId,
+      documentId: open.documentId,
+      requestId,
+      author: "owner",
+      authorUserId: userId,
+      body: note.trim(),
+    });
+  }
+  console.log(`[document-requests] Request ${requestId} resolved by the owner of business ${businessId}`);
+  await publishEvent(businessId, { type: "request.updated", requestId, documentId: open.documentId, status: "resolved" });
+  return request;
+}
@@ -0,0 +1,105 @@
+/**
+ * Document search for the dashboard and accountant portal: full-text search,
+ * filters, sort orders and cursor pagination. Both stores implement
+ * `searchDocuments` against the same DocumentSearch; this module owns the
+ * pieces they share — sort orders, search tokens and the cursor format.
+ */
+
+export const DOCUMENT_SORTS = [
+  "date_desc",
+  "date_asc",
+  "amount_desc",
+  "amount_asc",
+  "vendor_asc",
+  "vendor_desc",
+  "added_desc",
+] as const;
+
+export type DocumentSort = (typeof DOCUMENT_SORTS)[number];
+
+export const DOCUMENT_TYPES = ["invoice", "receipt", "subscription", "payment_confirmation"] as const;
+export const DOCUMENT_SOURCES = ["email", "whatsapp"] as const;
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+/** What a sort orders by; every order is tie-broken on document ID in the same direction. */
+export type DocumentSortField = "issuedAt" | "amount" | "vendor" | "createdAt";
+
+export const SORT_SPECS: Record<DocumentSort, { field: DocumentSortField; descending: boolean }> = {
+  date_desc: { field: "issuedAt", descending: true },
+  date_asc: { field: "issuedAt", descending: false },
+  amount_desc: { field: "amount", descending: true },
+  amount_asc: { field: "amount", descending: false },
+  vendor_asc: { field: "vendor", descending: false },
+  vendor_desc: { field: "vendor", descending: true },
+  added_desc: { field: "createdAt", descending: true },
+};
+
+/** Position after the last row of a page: its sort value and ID. */
+export interface DocumentCursor {
+  value: string | number;
+  id: string;
+}
+
+export interface DocumentSearch {
+  status: "all" | "sent" | "pending" | "review";
+  /** Matched against vendor, comments and the original email / caption text */
+  q?: string;
+  /** Issue date, YYYY-MM-DD, inclusive */
+  from?: string;
+  to?: string;
+  /** Shekel amount range, in agorot */
+  minAmountCents?: number;
+  maxAmountCents?: number;
+  category?: string;
+  type?: (typeof DOCUMENT_TYPES)[number];
+  source?: (typeof DOCUMENT_SOURCES)[number];
+  inboxId?: string;
+  /** Only documents that arrived after their month was closed */
+  late?: boolean;
+  sort: DocumentSort;
+  limit: number;
+  cursor?: DocumentCursor | null;
+}
+
+/**
+ * Words of a search, lowercased. Every word must match: as a word prefix in
+ * Postgres full-text search (so "סופר פ" finds "סופר פארם"), anywhere in the
+ * text in the JSON store.
+ */
+export function searchTokens(q: string | undefined): string[] {
+  if (!q) return [];
+  return (q.normalize("NFC").toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).slice(0, 8);
+}
+
+export function encodeCursor(sort: DocumentSort, cursor: DocumentCursor): string {
+  return Buffer.from(JSON.stringify({ s: sort, v: cursor.value, id: cursor.id })).toString("base64url");
+}
+
+/**
+ * What a cursor value must look like for each sort field, so a tampered
+ * cursor is a 400 rather than a failed cast in Postgres. Values come back as
+ * numbers or as the text Postgres renders for the sort key.
+ */
+const CURSOR_VALUE_PATTERNS: Record<DocumentSortField, RegExp> = {
+  issuedAt: /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])[T ]\d{2}:\d{2}/,
+  amount: /^-?\d{1,15}$/,
+  vendor: /^/,
+  createdAt: /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])[T ]\d{2}:\d{2}/,
+};
+
+/** Read a cursor from the previous page; one issued for a different sort is rejected. */
+export function decodeCursor(sort: DocumentSort, token: string | undefined): DocumentCursor | null {
+  if (!token) return null;
+  try {
+    const { s, v, id } = JSON.parse(Buffer.from(token, "base64url").toString("utf-8"));
+    if (s === sort && typeof id === "string" && (typeof v === "string" || typeof v === "number")
+      && CURSOR_VALUE_PATTERNS[SORT_SPECS[sort].field].test(String(v))) {
+      return { value: v, id };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw Object.assign(new Error("Invalid cursor"), { statusCode: 400 });
+}
@@ -0,0 +1,133 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createServer } from "../app";
+import { store } from "../store";
+import { signUpOwner, type TestApp } from "../test/helpers";
+import { flagDuplicate, matchDuplicate, normalizeVendorName, type DuplicateFingerprint } from "./duplicates";
+
+const fingerprint = (overrides: Partial<DuplicateFingerprint> = {}): DuplicateFingerprint => ({
+  id: "doc",
+  businessId: "business",
+  vendorName: "Google Israel Ltd.",
+  amountCents: 24_900,
+  currency: "ILS",
+  issuedAt: "2025-03-10T09:00:00.000Z",
+  type: "INVOICE",
+  invoiceNumber: null,
+  contentHash: null,
+  duplicateStatus: null,
+  ...overrides,
+});
+
+describe("normalizeVendorName", () => {
+  it.each([
+    ["Google Israel Ltd.", "google israel"],
+    ["ACME, Inc", "acme"],
+    ["גוגל ישראל בע״מ", "גוגל ישראל"],
+    ['גוגל ישראל בע"מ', "גוגל ישראל"],
+    ["גוגל ישראל בעמ", "גוגל ישראל"],
+  ])("%s → %s", (name, normalized) => {
+    expect(normalizeVendorName(name)).toBe(normalized);
+  });
+});
+
+describe("matchDuplicate", () => {
+  it("confirms the same file whatever its fields say", () => {
+    expect(matchDuplicate(
+      fingerprint({ contentHash: "abc" }),
+      fingerprint({ id: "other", contentHash: "abc", vendorName: "Someone else", amountCents: 1 }),
+    )).toEqual({ reason: "same_file", status: "CONFIRMED" });
+  });
+
+  it("confirms the same invoice number from the same vendor for the same amount", () => {
+    expect(matchDuplicate(
+      fingerprint({ invoiceNumber: "00-123" }),
+      fingerprint({ id: "other", invoiceNumber: "123", vendorName: "Google Israel בע״מ" }),
+    )).toEqual({ reason: "same_invoice_number", status: "CONFIRMED" });
+  });
+
+  it("only suspects the same invoice number when the amount differs", () => {
+    expect(matchDuplicate(
+      fingerprint({ invoiceNumber: "123" }),
+      fingerprint({ id: "other", invoiceNumber: "123", amountCents: 25_000 }),
+    )).toEqual({ reason: "same_invoice_number", status: "SUSPECTED" });
+  });
+
+  it("treats different invoice numbers as different invoices", () => {
+    expect(matchDuplicate(
+      fingerprint({ invoiceNumber: "123" }),
+      fingerprint({ id: "other", invoiceNumber: "124" }),
+    )).toBeNull();
+  });
+
+  it("suspects the same vendor and amount up to 10 days apart", () => {
+    expect(matchDuplicate(
+      fingerprint(),
+      fingerprint({ id: "other", vendorName: "google israel", issuedAt: "2025-03-20T09:00:00.000Z" }),
+    )).toEqual({ reason: "same_vendor_amount_date", status: "SUSPECTED" });
+    expect(matchDuplicate(
+      fingerprint(),
+      fingerprint({ id: "other", issuedAt: "2025-03-20T09:00:01.000Z" }),
+    )).toBeNull();
+  });
+
+  it("ignores the same vendor and amount in another currency or at zero", () => {
+    expect(matchDuplicate(fingerprint(), fingerprint({ id: "other", currency: "USD" }))).toBeNull();
+    expect(matchDuplicate(fingerprint({ amountCents: 0 }), fingerprint({ id: "other", amountCents: 0 }))).toBeNull();
+  });
+
+  it("never matches a payment confirmation to the invoice it pays", () => {
+    expect(matchDuplicate(
+      fingerprint({ type: "PAYMENT_CONFIRMATION", invoiceNumber: "123" }),
+      fingerprint({ id: "other", invoiceNumber: "123" }),
+    )).toBeNull();
+    expect(matchDuplicate(fingerprint({ type: "PAYMENT_CONFIRMATION" }), fingerprint({ id: "other" }))).toBeNull();
+  });
+});
+
+describe("flagDuplicate", () => {
+  let app: TestApp;
+  let owner: Awaited<ReturnType<typeof signUpOwner>>;
+
+  const createDocument = async (issuedAt: string) => {
+    const { id } = await store.createDocument({
+      businessId: owner.businessId,
+      source: "WHATSAPP",
+      type: "INVOICE",
+      status: "PENDING",
+      vendorName: "Corner Shop",
+      amountCents: 5_850,
+      currency: "ILS",
+      issuedAt,
+      confidence: 0.9,
+    });
+    return id as string;
+  };
+
+  beforeAll(async () => {
+    app = await createServer();
+    owner = await signUpOwner(app, "duplicates-owner@example.com");
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it("links a later copy and clears the link once a correction tells them apart", async () => {
+    const originalId = await createDocument("2025-03-10T09:00:00.000Z");
+    expect(await flagDuplicate(originalId)).toBeNull();
+
+    const copyId = await createDocument("2025-03-12T09:00:00.000Z");
+    expect(await flagDuplicate(copyId)).toEqual({
+      duplicateOfId: originalId,
+      reason: "same_vendor_amount_date",
+      status: "SUSPECTED",
+    });
+
+    await store.updateDocument(owner.businessId, copyId, { amountCents: 6_000 });
+    expect(await flagDuplicate(copyId)).toBeNull();
+    const corrected = await store.getDuplicateFingerprint(copyId);
+    expect(corrected.duplicateStatus).toBeNull();
+    expect(corrected.hasDuplicates).toBe(false);
+    expect((await store.getDuplicateFingerprint(originalId)).hasDuplicates).toBe(false);
+  });
+});
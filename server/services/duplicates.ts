@@ -0,0 +1,137 @@
+import { store, type DuplicateStatus } from "../store";
+
+export type DuplicateReason = "same_file" | "same_invoice_number" | "same_vendor_amount_date";
+
+/** Fields a duplicate check compares — the new document and each candidate. */
+export interface DuplicateFingerprint {
+  id: string;
+  businessId: string;
+  vendorName: string;
+  amountCents: number;
+  currency: string;
+  issuedAt: string;
+  type: string;
+  invoiceNumber: string | null;
+  contentHash: string | null;
+  duplicateStatus: DuplicateStatus | null;
+}
+
+export interface DuplicateMatch {
+  duplicateOfId: string;
+  reason: DuplicateReason;
+  status: DuplicateStatus;
+}
+
+/**
+ * How far apart two copies of one invoice can be dated. Email-only documents
+ * are dated by the message, so a re-forward or a photo taken a few days later
+ * still lands inside the window.
+ */
+const DATE_WINDOW_DAYS = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Lowercase, drop punctuation and company suffixes: "Google Israel Ltd." → "google israel". */
+export function normalizeVendorName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/בע["״']?מ/g, " ")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .replace(/\b(ltd|inc|llc|gmbh|limited|co)\b/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function vendorsMatch(a: string, b: string): boolean {
+  const left = normalizeVendorName(a);
+  const right = normalizeVendorName(b);
+  if (!left || !right) return false;
+  return left === right || left.includes(right) || right.includes(left);
+}
+
+function normalizeInvoiceNumber(value: string | null): string | null {
+  const compact = value?.toUpperCase().replace(/[^0-9A-Z]/g, "").replace(/^0+/, "");
+  return compact || null;
+}
+
+/**
+ * Compare two documents. Identical files and invoice numbers from the same
+ * vendor for the same amount are certain, so they're confirmed straight away;
+ * the same vendor and amount a few days apart is only suspected, since
+ * repeat purchases look exactly like that.
+ */
+export function matchDuplicate(doc: DuplicateFingerprint, candidate: DuplicateFingerprint): Omit<DuplicateMatch, "duplicateOfId"> | null {
+  if (doc.contentHash && doc.contentHash === candidate.contentHash) {
+    return { reason: "same_file", status: "CONFIRMED" };
+  }
+
+  // A payment confirmation matches the invoice it pays, but isn't a copy of it
+  if ((doc.type === "PAYMENT_CONFIRMATION") !== (candidate.type === "PAYMENT_CONFIRMATION")) return null;
+
+  const sameVendor = vendorsMatch(doc.vendorName, candidate.vendorName);
+  const sameAmount = doc.amountCents === candidate.amountCents && doc.currency === candidate.currency;
+  const invoiceNumber = normalizeInvoiceNumber(doc.invoiceNumber);
+  const candidateInvoiceNumber = normalizeInvoiceNumber(candidate.invoiceNumber);
+
+  if (invoiceNumber && candidateInvoiceNumber) {
+    // Different numbers on both sides means two different invoices
+    if (invoiceNumber !== candidateInvoiceNumber || !(sameVendor || sameAmount)) return null;
+    return { reason: "same_invoice_number", status: sameVendor && sameAmount ? "CONFIRMED" : "SUSPECTED" };
+  }
+
+  const daysApart = Math.abs(new Date(doc.issuedAt).getTime() - new Date(candidate.issuedAt).getTime()) / DAY_MS;
+  if (sameVendor && sameAmount && doc.amountCents !== 0 && daysApart <= DATE_WINDOW_DAYS) {
+    return { reason: "same_vendor_amount_date", status: "SUSPECTED" };
+  }
+  return null;
+}
+
+const REASON_RANK: Record<DuplicateReason, number> = {
+  same_file: 3,
+  same_invoice_number: 2,
+  same_vendor_amount_date: 1,
+};
+
+/**
+ * Look for an earlier copy of a newly stored document and link it. Run after
+ * every createDocument (and after AI corrects a document's fields); returns
+ * the link, or null when the document looks original. Never throws — a failed
+ * check just leaves the document unlinked.
+ */
+export async function flagDuplicate(documentId: string): Promise<DuplicateMatch | null> {
+  try {
+    const doc = await store.getDuplicateFingerprint(documentId);
+    // Reviewed documents keep their verdict; originals keep their group
+    if (!doc || doc.duplicateStatus === "CONFIRMED" || doc.duplicateStatus === "DISMISSED" || doc.hasDuplicates) {
+      return null;
+    }
+
+    const issuedAt = new Date(doc.issuedAt).getTime();
+    const candidates: DuplicateFingerprint[] = await store.getDuplicateCandidates(doc.businessId, {
+      excludeId: doc.id,
+      contentHash: doc.contentHash,
+      from: new Date(issuedAt - DATE_WINDOW_DAYS * DAY_MS).toISOString(),
+      to: new Date(issuedAt + DATE_WINDOW_DAYS * DAY_MS).toISOString(),
+    });
+
+    let best: DuplicateMatch | null = null;
+    for (const candidate of candidates) {
+      const match = matchDuplicate(doc, candidate);
+      if (match && (!best || REASON_RANK[match.reason] > REASON_RANK[best.reason])) {
+        best = { ...match, duplicateOfId: candidate.id };
+      }
+    }
+
+    if (best) {
+      await store.markDuplicate(doc.id, best);
+      console.log(`[duplicates] ${doc.id} ${best.status.toLowerCase()} duplicate of ${best.duplicateOfId} (${best.reason})`);
+    } else if (doc.duplicateStatus === "SUSPECTED") {
+      // Corrected fields no longer match anything
+      await store.markDuplicate(doc.id, null);
+    }
+    return best;
+  } catch (error) {
+    console.error(`[duplicates] Check failed for ${documentId}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,251 @@
+import { store } from "../store";
+import {
+  isAiEnabled,
+  extractInvoiceFromText,
+  extractInvoiceFromImage,
+  extractInvoiceFromPdf,
+  type ExtractedInvoice,
+  type VendorCategoryMapping,
+} from "./ai";
+import type { StoredFile } from "./blob-storage";
+import { parseBusinessId } from "./israeli-ids";
+import { estimateVatCents } from "./vat";
+
+/**
+ * Provider-neutral email extraction shared by the Gmail and Outlook syncs:
+ * regex classification of the message, optional AI enrichment and the
+ * learned vendor→category override.
+ */
+
+export interface EmailDocumentDraft {
+  businessId: string;
+  inboxConnectionId: string;
+  source: string;
+  type: string;
+  status: string;
+  vendorName: string;
+  amountCents: number;
+  currency: string;
+  vatCents: number | null;
+  /** VAT derived from the rate table rather than read off the invoice */
+  vatEstimated: boolean;
+  /** Shekel conversion, filled in by applyExchangeRate before the draft is stored */
+  amountIlsCents: number | null;
+  exchangeRate: number | null;
+  issuedAt: string;
+  confidence: number;
+  category: string | null;
+  rawText: string | null;
+  invoiceNumber: string | null;
+  supplierTaxId: string | null;
+  allocationNumber: string | null;
+  file: StoredFile | null;
+}
+
+export interface EmailFields {
+  subject: string;
+  /** Raw From header, e.g. `"Vendor Ltd" <billing@vendor.com>` */
+  from: string;
+  snippet: string;
+  bodyText: string | null;
+  receivedAt: Date;
+  /** Filenames of every attachment on the message */
+  attachmentFilenames: string[];
+}
+
+const INVOICE_FILE_EXTENSIONS = [".pdf", ".png", ".jpg", ".jpeg", ".xlsx", ".csv"];
+
+const CURRENCY_TOKENS: Record<string, string> = {
+  "₪": "ILS", ILS: "ILS", NIS: "ILS",
+  "$": "USD", USD: "USD",
+  "€": "EUR", EUR: "EUR",
+  "£": "GBP", GBP: "GBP",
+};
+
+const AMOUNT_PATTERN = /(₪|ILS|NIS|\$|USD|€|EUR|£|GBP)\s*([\d,]+\.?\d*)|(\d[\d,]*\.?\d*)\s*(₪|ILS|NIS|\$|USD|€|EUR|£|GBP)/;
+
+/** "חשבונית מס 10234", "Invoice #INV-2291", "קבלה מספר 5512" */
+const INVOICE_NUMBER_PATTERN = /(?:חשבונית(?:\s+מס)?(?:\s+קבלה)?|קבלה|invoice|receipt)\s*(?:מס['׳]|מספר|no\.?|number)?\s*[:#]?\s*([A-Z]{0,5}-?\d[\d-]{2,19})/i;
+
+/** "ח.פ 514123456", "ע.מ: 034567891", "עוסק מורשה 300000007" */
+const SUPPLIER_ID_PATTERN = /(?:ח\.?\s?פ|ח"פ|ע\.?\s?מ|ע"מ|עוסק\s+מורשה|company\s+(?:no|number)|vat\s+(?:no|number))\.?\s*[:#]?\s*(\d{9})/i;
+
+/**
+ * Pull the invoice number and supplier ID out of the message text. The
+ * supplier ID only counts if its check digit is valid.
+ */
+export function extractIdentifiers(text: string): { invoiceNumber: string | null; supplierTaxId: string | null } {
+  return {
+    invoiceNumber: text.match(INVOICE_NUMBER_PATTERN)?.[1] ?? null,
+    supplierTaxId: parseBusinessId(text.match(SUPPLIER_ID_PATTERN)?.[1]),
+  };
+}
+
+export function classifyEmail(
+  email: EmailFields,
+  inbox: { id: string; businessId: string },
+): EmailDocumentDraft | null {
+  const { subject, from } = email;
+
+  // Extract sender name
+  const vendorMatch = from.match(/^"?([^"<]+)"?\s*</);
+  const vendorName = vendorMatch?.[1]?.trim() ?? from.split("@")[0]?.replace(/[._-]/g, " ") ?? "Unknown";
+
+  const lowerSubject = subject.toLowerCase();
+  const hasInvoiceSignal = /invoice|חשבונית|receipt|קבלה|payment|תשלום|billing|הזמנה|order|confirmation/.test(lowerSubject);
+
+  const hasAttachment = email.attachmentFilenames.some(
+    (filename) => filename.length > 0 && INVOICE_FILE_EXTENSIONS.some((ext) => filename.endsWith(ext)),
+  );
+
+  // Accept emails that have invoice signals OR attachments
+  if (!hasInvoiceSignal && !hasAttachment) {
+    return null;
+  }
+
+  // Determine type
+  let type = "INVOICE";
+  if (/receipt|קבלה/.test(lowerSubject)) type = "RECEIPT";
+  else if (/subscription|מנוי/.test(lowerSubject)) type = "SUBSCRIPTION";
+  else if (/confirmation|אישור/.test(lowerSubject)) type = "PAYMENT_CONFIRMATION";
+
+  // Try to extract amount and currency from subject or snippet (basic regex)
+  let amountCents = 0;
+  let currency = "ILS";
+  const amountMatch = (subject + " " + email.snippet).match(AMOUNT_PATTERN);
+  if (amountMatch) {
+    const raw = (amountMatch[2] ?? amountMatch[3]).replace(/,/g, "");
+    amountCents = Math.round(parseFloat(raw) * 100);
+    currency = CURRENCY_TOKENS[amountMatch[1] ?? amountMatch[4]] ?? "ILS";
+  }
+
+  const identifiers = extractIdentifiers(`${subject}\n${email.snippet}\n${email.bodyText ?? ""}`);
+
+  return {
+    businessId: inbox.businessId,
+    inboxConnectionId: inbox.id,
+    source: "EMAIL",
+    type,
+    status: "PENDING",
+    vendorName,
+    amountCents,
+    currency,
+    vatCents: estimateVatCents(amountCents, email.receivedAt),
+    vatEstimated: amountCents > 0,
+    amountIlsCents: null,
+    exchangeRate: null,
+    issuedAt: email.receivedAt.toISOString(),
+    confidence: hasInvoiceSignal && hasAttachment ? 0.85 : hasInvoiceSignal ? 0.65 : 0.45,
+    category: null,
+    rawText: email.bodyText?.substring(0, 2000) ?? null,
+    invoiceNumber: identifiers.invoiceNumber,
+    supplierTaxId: identifiers.supplierTaxId,
+    allocationNumber: null,
+    file: null,
+  };
+}
+
+/**
+ * Load learned vendor→category mappings for AI prompt enhancement.
+ */
+export async function loadVendorMappings(businessId: string): Promise<VendorCategoryMapping[]> {
+  if (!isAiEnabled()) return [];
+  try {
+    const mappings = await store.getVendorCategoryMappings(businessId);
+    return mappings.map((m: VendorCategoryMapping) => ({
+      vendorNameOriginal: m.vendorNameOriginal,
+      category: m.category,
+    }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Keep VAT the AI read off the invoice; otherwise re-estimate, since the AI
+ * may have corrected the amount or the date.
+ */
+function applyExtractedVat(doc: EmailDocumentDraft, vatCents: number | null): void {
+  if (vatCents != null) {
+    doc.vatCents = vatCents;
+    doc.vatEstimated = false;
+  } else if (doc.vatEstimated || doc.vatCents == null) {
+    doc.vatCents = estimateVatCents(doc.amountCents, doc.issuedAt);
+    doc.vatEstimated = doc.vatCents != null;
+  }
+}
+
+/** Identifiers the AI read off the document win over the regex guesses. */
+function applyExtractedIdentifiers(doc: EmailDocumentDraft, extracted: ExtractedInvoice): void {
+  doc.invoiceNumber = extracted.invoiceNumber ?? doc.invoiceNumber;
+  doc.supplierTaxId = extracted.supplierTaxId ?? doc.supplierTaxId;
+  doc.allocationNumber = extracted.allocationNumber ?? doc.allocationNumber;
+}
+
+/**
+ * Refine a regex-extracted draft with AI — from the attachment when there is
+ * one, otherwise from the body text. Returns true if an AI call was made.
+ */
+export async function enrichWithAi(
+  doc: EmailDocumentDraft,
+  attachment: { base64Data: string; mimeType: string } | null,
+  vendorMappings: VendorCategoryMapping[],
+): Promise<boolean> {
+  if (attachment) {
+    const { base64Data, mimeType } = attachment;
+
+    let extracted;
+    if (mimeType === "application/pdf") {
+      extracted = await extractInvoiceFromPdf(doc.businessId, base64Data, undefined, vendorMappings);
+    } else if (mimeType.startsWith("image/")) {
+      extracted = await extractInvoiceFromImage(doc.businessId, base64Data, mimeType, undefined, vendorMappings);
+    }
+
+    if (extracted && extracted.confidence > 0.2) {
+      doc.vendorName = extracted.vendorName || doc.vendorName;
+      doc.amountCents = extracted.amountCents || doc.amountCents;
+      doc.currency = extracted.amountCents ? extracted.currency : doc.currency;
+      doc.category = extracted.category || doc.category;
+      doc.confidence = extracted.confidence;
+      doc.type = extracted.type || doc.type;
+      if (extracted.issuedAt && extracted.issuedAt !== new Date().toISOString().slice(0, 10)) {
+        doc.issuedAt = new Date(extracted.issuedAt).toISOString();
+      }
+      applyExtractedVat(doc, extracted.vatCents);
+      applyExtractedIdentifiers(doc, extracted);
+    }
+    return true;
+  }
+
+  if (doc.rawText) {
+    // Text-only AI extraction
+    const extracted = await extractInvoiceFromText(doc.businessId, doc.rawText, vendorMappings);
+    if (extracted && extracted.confidence > 0.2) {
+      doc.vendorName = extracted.vendorName || doc.vendorName;
+      doc.amountCents = extracted.amountCents || doc.amountCents;
+      doc.currency = extracted.amountCents ? extracted.currency : doc.currency;
+      applyExtractedVat(doc, extracted.vatCents);
+      doc.category = extracted.category || doc.category;
+      doc.confidence = extracted.confidence;
+      doc.type = extracted.type || doc.type;
+      applyExtractedIdentifiers(doc, extracted);
+    }
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Apply learned vendor→category override (exact match wins over AI).
+ */
+export async function applyVendorCategoryMapping(doc: EmailDocumentDraft): Promise<void> {
+  if (!doc.vendorName) return;
+  try {
+    const mapping = await store.getVendorCategoryMapping(doc.businessId, doc.vendorName);
+    if (mapping) {
+      doc.category = mapping.category;
+      doc.confidence = Math.max(doc.confidence, 0.9);
+    }
+  } catch { /* ignore */ }
+}
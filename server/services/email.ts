@@ -17,17 +17,31 @@ interface DocumentRow {
   vendor: string;
   amountCents: number;
   currency: string;
+  /** Shekel total; null for a foreign-currency document with no rate yet */
+  amountIlsCents: number | null;
   issuedAt: string;
   category: string;
   type: string;
 }
 
+/** For user-supplied text (names, notes) placed in an email body. */
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"]/g, (char) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[char]!);
+}
+
 function formatAmount(cents: number, currency: string): string {
   if (cents === 0) return "ממתין לחילוץ";
   const symbol = currency === "ILS" ? "₪" : currency;
   return `${symbol}${(cents / 100).toLocaleString("he-IL", { maximumFractionDigits: 0 })}`;
 }
 
+/** Shekel amount, followed by the original when the invoice was in another currency. */
+function formatDocumentAmount(doc: DocumentRow): string {
+  if (doc.currency === "ILS") return formatAmount(doc.amountCents, "ILS");
+  const original = formatAmount(doc.amountCents, doc.currency);
+  return doc.amountIlsCents != null ? `${formatAmount(doc.amountIlsCents, "ILS")} (${original})` : original;
+}
+
 function formatDate(dateIso: string): string {
   return new Intl.DateTimeFormat("he-IL", {
     day: "numeric",
@@ -42,7 +56,7 @@ function buildDocumentTable(documents: DocumentRow[]): string {
       (doc) =>
         `<tr>
           <td style="padding:8px 12px;border-bottom:1px solid #eee;">${doc.vendor}</td>
-          <td style="padding:8px 12px;border-bottom:1px solid #eee;">${formatAmount(doc.amountCents, doc.currency)}</td>
+          <td style="padding:8px 12px;border-bottom:1px solid #eee;">${formatDocumentAmount(doc)}</td>
           <td style="padding:8px 12px;border-bottom:1px solid #eee;">${formatDate(doc.issuedAt)}</td>
           <td style="padding:8px 12px;border-bottom:1px solid #eee;">${doc.category}</td>
         </tr>`,
@@ -65,16 +79,65 @@ function buildDocumentTable(documents: DocumentRow[]): string {
     </table>`;
 }
 
-export async function sendDocumentsToAccountant(payload: {
+/** Resend rejects these outright; sending the same email again won't help. */
+const PERMANENT_RESEND_ERRORS = new Set([
+  "validation_error",
+  "missing_required_field",
+  "invalid_from_address",
+  "invalid_attachment",
+  "invalid_parameter",
+]);
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  attachments?: Array<{ filename: string; content: Buffer }>;
+}
+
+/**
+ * Send one email through Resend. The idempotency key makes a retry after a
+ * lost response a no-op on Resend's side. Errors that retrying can't fix
+ * are flagged `permanent`.
+ */
+export async function sendEmail(message: EmailMessage, idempotencyKey?: string): Promise<{ id: string }> {
+  const result = await getResend().emails.send(
+    {
+      from: env.RESEND_FROM_EMAIL,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      attachments: message.attachments,
+    },
+    idempotencyKey ? { idempotencyKey } : undefined,
+  );
+
+  if (result.error) {
+    throw Object.assign(new Error(`Resend error: ${result.error.message}`), {
+      permanent: PERMANENT_RESEND_ERRORS.has(result.error.name),
+    });
+  }
+
+  return { id: result.data!.id };
+}
+
+/**
+ * The "new documents" email to the accountant — a summary line and a table
+ * of every document being sent.
+ */
+export function buildDocumentsEmail(payload: {
   accountantEmail: string;
   accountantName: string;
   businessName: string;
   documents: DocumentRow[];
   senderName?: string;
-}): Promise<{ id: string }> {
+}): EmailMessage {
   const { accountantEmail, accountantName, businessName, documents, senderName } = payload;
 
-  const totalAmount = documents.reduce((sum, doc) => sum + doc.amountCents, 0);
+  const totalAmount = documents.reduce(
+    (sum, doc) => sum + (doc.amountIlsCents ?? (doc.currency === "ILS" ? doc.amountCents : 0)),
+    0,
+  );
   const subject = `${businessName} – ${documents.length} מסמכים חדשים | SendToAmram`;
 
   const html = `
@@ -105,16 +168,5 @@ export async function sendDocumentsToAccountant(payload: {
 </body>
 </html>`;
 
-  const result = await getResend().emails.send({
-    from: env.RESEND_FROM_EMAIL,
-    to: accountantEmail,
-    subject,
-    html,
-  });
-
-  if (result.error) {
-    throw new Error(`Resend error: ${result.error.message}`);
-  }
-
-  return { id: result.data!.id };
+  return { to: accountantEmail, subject, html };
 }
@@ -0,0 +1,167 @@
+import { EventEmitter } from "events";
+import { randomUUID } from "crypto";
+import pg from "pg";
+import { env } from "../config";
+import { store } from "../store";
+
+/**
+ * Live per-business events for the dashboard, streamed to browsers by
+ * GET /events/:businessId. Subscribers in this process get an event right
+ * away; with Postgres it's also fanned out to every other instance over
+ * LISTEN/NOTIFY, since the worker running a scan or sync is often not the
+ * instance holding the browser's stream.
+ */
+
+const CHANNEL = "business_events";
+/** NOTIFY payloads are capped at 8000 bytes; larger events go out without their snapshot. */
+const MAX_NOTIFY_BYTES = 7_900;
+const RECONNECT_DELAY_MS = 5_000;
+const INSTANCE_ID = randomUUID();
+
+export type BusinessEventData =
+  | { type: "scan.phase"; scanJobId: string; inboxId: string; status: string; previousStatus: string | null }
+  | {
+      type: "scan.progress";
+      scanJobId: string;
+      inboxId: string;
+      status: string;
+      discovered: number;
+      processed: number;
+      total: number;
+      created: number;
+      aiProcessed: number;
+      aiTotal: number;
+    }
+  /** `document` is the dashboard list row; omitted when it didn't fit in the notification */
+  | { type: "document.created"; documentId: string; document?: Record<string, unknown> }
+  | { type: "sync.started" }
+  | { type: "sync.completed"; newDocuments: number }
+  | { type: "sync.failed"; error: string }
+  | { type: "alert.created"; alertId: string; vendorName: string; expectedMonth: string }
+  | { type: "period.closed"; monthKey: string }
+  | { type: "period.reopened"; monthKey: string; reason: string }
+  | { type: "request.created"; requestId: string; documentId: string; kind: string }
+  | { type: "request.updated"; requestId: string; documentId: string; status: string }
+  | { type: "comment.created"; commentId: string; documentId: string; author: string };
+
+export type BusinessEvent = BusinessEventData & {
+  id: string;
+  businessId: string;
+  at: string;
+};
+
+interface Notification {
+  origin: string;
+  event: BusinessEvent;
+}
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+let listener: pg.Client | null = null;
+let connecting: Promise<void> | null = null;
+let closed = false;
+
+function dispatch(event: BusinessEvent) {
+  emitter.emit(event.businessId, event);
+}
+
+/** One connection per instance LISTENs for events published elsewhere. */
+function ensureListener(): void {
+  if (!env.DATABASE_URL || listener || connecting || closed) return;
+
+  const client = new pg.Client({
+    connectionString: env.DATABASE_URL,
+    ssl: { rejectUnauthorized: false },
+  });
+
+  const reset = () => {
+    if (listener !== client && connecting === null) return;
+    listener = null;
+    connecting = null;
+    client.removeAllListeners();
+    client.end().catch(() => {});
+    if (!closed && emitter.eventNames().length > 0) {
+      setTimeout(ensureListener, RECONNECT_DELAY_MS).unref();
+    }
+  };
+
+  client.on("notification", (message) => {
+    if (!message.payload) return;
+    try {
+      const { origin, event } = JSON.parse(message.payload) as Notification;
+      if (origin !== INSTANCE_ID) dispatch(event);
+    } catch (error) {
+      console.error("[events] Unreadable notification:", error);
+    }
+  });
+  client.on("error", (error) => {
+    console.error("[events] Listener connection failed:", error.message);
+    reset();
+  });
+  client.on("end", reset);
+
+  connecting = client.connect()
+    .then(() => client.query(`LISTEN ${CHANNEL}`))
+    .then(() => {
+      listener = client;
+      connecting = null;
+    })
+    .catch((error) => {
+      console.error("[events] Could not listen for events:", error.message);
+      reset();
+    });
+}
+
+/**
+ * Publish an event to everyone watching the business. Never throws — a lost
+ * live update only means the dashboard catches up on its next refetch.
+ */
+export async function publishEvent(businessId: string, data: BusinessEventData): Promise<void> {
+  const event = { ...data, id: randomUUID(), businessId, at: new Date().toISOString() } as BusinessEvent;
+  dispatch(event);
+
+  if (!env.DATABASE_URL) return;
+  try {
+    let payload = JSON.stringify({ origin: INSTANCE_ID, event } satisfies Notification);
+    if (Buffer.byteLength(payload) > MAX_NOTIFY_BYTES && event.type === "document.created") {
+      payload = JSON.stringify({ origin: INSTANCE_ID, event: { ...event, document: undefined } } satisfies Notification);
+    }
+    const { pool } = await import("../db");
+    await pool.query("SELECT pg_notify($1, $2)", [CHANNEL, payload]);
+  } catch (error) {
+    console.error(`[events] Failed to publish ${data.type} for business ${businessId}:`, error);
+  }
+}
+
+/** Publish a new document with its dashboard row, so open lists can add it in place. */
+export async function publishDocumentCreated(businessId: string, documentId: string): Promise<void> {
+  let document: Record<string, unknown> | null = null;
+  try {
+    document = await store.getDashboardDocument(businessId, documentId);
+  } catch (error) {
+    console.error(`[events] Failed to load document ${documentId}:`, error);
+  }
+  await publishEvent(businessId, { type: "document.created", documentId, document: document ?? undefined });
+}
+
+/** Watch a business's events; returns the unsubscribe function. */
+export function subscribeToEvents(businessId: string, handler: (event: BusinessEvent) => void): () => void {
+  emitter.on(businessId, handler);
+  ensureListener();
+  return () => {
+    emitter.off(businessId, handler);
+  };
+}
+
+/** Drop the LISTEN connection on shutdown. */
+export async function closeEventListener(): Promise<void> {
+  closed = true;
+  const client = listener;
+  listener = null;
+  connecting = null;
+  if (client) {
+    client.removeAllListeners();
+    await client.end().catch(() => {});
+  }
+}
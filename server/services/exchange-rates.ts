@@ -0,0 +1,263 @@
+import { readFile } from "fs/promises";
+import { env } from "../config";
+import { store } from "../store";
+import { toIsraelDate } from "./exports/shared";
+
+export interface ExchangeRate {
+  /** ISO 4217 code of the foreign currency */
+  currency: string;
+  /** YYYY-MM-DD the rate was published for */
+  rateDate: string;
+  /** Shekels per one unit of the currency */
+  rate: number;
+  source: string;
+}
+
+/** Bank of Israel SDMX feed, representative rates (שער יציג) against the shekel. */
+const BOI_FEED_URL = "https://edge.boi.org.il/FusionEdgeServer/sdmx/v2/data/dataflow/BOI.STATISTICS/EXR/1.0/";
+
+/**
+ * Rates aren't published on weekends and holidays, so the latest rate before
+ * the invoice date is used — but never one older than this.
+ */
+const MAX_RATE_AGE_DAYS = 7;
+
+const CONVERSION_BATCH_SIZE = 500;
+
+/** Don't re-query the feed for a date it just came back empty (or failed) for. */
+const FEED_RETRY_MS = 60 * 60 * 1000;
+const feedMisses = new Map<string, number>();
+
+function addDays(isoDate: string, days: number): string {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/** Split one CSV line, honouring quoted cells (the feed quotes free-text columns). */
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+/**
+ * Parse a local rates file: one `date,currency,rate` row per line
+ * (e.g. `2025-03-02,USD,3.612`). A header row and blank lines are skipped.
+ */
+export function parseExchangeRatesCsv(text: string, source = "FILE"): ExchangeRate[] {
+  const rates: ExchangeRate[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const [date, currency, value] = splitCsvLine(line);
+    const rate = Number(value);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date ?? "") || !/^[A-Za-z]{3}$/.test(currency ?? "") || !(rate > 0)) {
+      continue;
+    }
+    rates.push({ currency: currency.toUpperCase(), rateDate: date, rate, source });
+  }
+  return rates;
+}
+
+/**
+ * Parse the Bank of Israel SDMX CSV. Columns are located by header name;
+ * the currency comes from BASE_CURRENCY, or the RER_<CCY>_ILS series code.
+ */
+export function parseBankOfIsraelCsv(text: string): ExchangeRate[] {
+  const [headerLine, ...lines] = text.split(/\r?\n/).filter((line) => line.trim().length > 0);
+  if (!headerLine) return [];
+  const header = splitCsvLine(headerLine).map((name) => name.toUpperCase());
+  const column = (name: string) => header.indexOf(name);
+  const seriesIdx = column("SERIES_CODE");
+  const baseIdx = column("BASE_CURRENCY");
+  const counterIdx = column("COUNTER_CURRENCY");
+  const dateIdx = column("TIME_PERIOD");
+  const valueIdx = column("OBS_VALUE");
+  if (dateIdx < 0 || valueIdx < 0) return [];
+
+  const rates: ExchangeRate[] = [];
+  for (const line of lines) {
+    const cells = splitCsvLine(line);
+    if (counterIdx >= 0 && cells[counterIdx] && cells[counterIdx] !== "ILS") continue;
+    const currency = (baseIdx >= 0 ? cells[baseIdx] : "")
+      || cells[seriesIdx]?.match(/^RER_([A-Z]{3})_ILS$/)?.[1];
+    const rate = Number(cells[valueIdx]);
+    const rateDate = cells[dateIdx]?.slice(0, 10);
+    if (!currency || !/^\d{4}-\d{2}-\d{2}$/.test(rateDate ?? "") || !(rate > 0)) continue;
+    rates.push({ currency, rateDate, rate, source: "BOI" });
+  }
+  return rates;
+}
+
+/**
+ * Fetch representative rates for every published currency between two dates
+ * (inclusive, YYYY-MM-DD).
+ */
+export async function fetchBankOfIsraelRates(from: string, to: string): Promise<ExchangeRate[]> {
+  const params = new URLSearchParams({
+    "c[DATA_TYPE]": "OF00",
+    startperiod: from,
+    endperiod: to,
+    format: "csv",
+  });
+  const response = await fetch(`${BOI_FEED_URL}?${params}`, { signal: AbortSignal.timeout(10_000) });
+  if (!response.ok) {
+    throw new Error(`Bank of Israel feed returned ${response.status}`);
+  }
+  return parseBankOfIsraelCsv(await response.text());
+}
+
+let fileImport: Promise<number> | null = null;
+
+/**
+ * Import EXCHANGE_RATES_FILE into the store, once per process. For
+ * deployments without access to the feed, or to backfill older years.
+ */
+export function importExchangeRatesFile(): Promise<number> {
+  if (!env.EXCHANGE_RATES_FILE) return Promise.resolve(0);
+  fileImport ??= readFile(env.EXCHANGE_RATES_FILE, "utf-8")
+    .then((text) => store.upsertExchangeRates(parseExchangeRatesCsv(text)))
+    .then((count: number) => {
+      console.log(`[exchange-rates] Imported ${count} rates from ${env.EXCHANGE_RATES_FILE}`);
+      return count;
+    })
+    .catch((error) => {
+      console.error("[exchange-rates] Failed to import rates file:", error);
+      fileImport = null;
+      return 0;
+    });
+  return fileImport;
+}
+
+/**
+ * Representative rate for a currency on a date (YYYY-MM-DD). Checks the store
+ * first and falls back to the Bank of Israel feed; null if neither has one.
+ */
+export async function getRepresentativeRate(currency: string, date: string): Promise<number | null> {
+  if (currency === "ILS") return 1;
+  await importExchangeRatesFile();
+
+  const oldest = addDays(date, -MAX_RATE_AGE_DAYS);
+  const cached = await store.getExchangeRate(currency, date);
+  if (cached && cached.rateDate >= oldest) return cached.rate;
+
+  // Tests shouldn't depend on the network
+  if (env.NODE_ENV === "test") return null;
+  const missKey = `${currency}:${date}`;
+  if (Date.now() - (feedMisses.get(missKey) ?? 0) < FEED_RETRY_MS) return null;
+
+  try {
+    const fetched = await fetchBankOfIsraelRates(oldest, date);
+    if (fetched.length > 0) {
+      await store.upsertExchangeRates(fetched);
+    }
+    const latest = fetched
+      .filter((rate) => rate.currency === currency && rate.rateDate <= date)
+      .sort((a, b) => b.rateDate.localeCompare(a.rateDate))[0];
+    if (!latest) feedMisses.set(missKey, Date.now());
+    return latest?.rate ?? null;
+  } catch (error) {
+    console.error(`[exchange-rates] Feed lookup failed for ${currency} ${date}:`, error);
+    feedMisses.set(missKey, Date.now());
+    return null;
+  }
+}
+
+/**
+ * Convert a document total to shekels at the rate for its issue date.
+ * Both fields are null when no rate is available yet.
+ */
+export async function convertToIls(doc: {
+  amountCents: number;
+  currency: string;
+  issuedAt: string | Date;
+}): Promise<{ amountIlsCents: number | null; exchangeRate: number | null }> {
+  const issuedAt = typeof doc.issuedAt === "string" ? doc.issuedAt : doc.issuedAt.toISOString();
+  const rate = await getRepresentativeRate(doc.currency.toUpperCase(), toIsraelDate(issuedAt));
+  if (rate == null) return { amountIlsCents: null, exchangeRate: null };
+  return { amountIlsCents: Math.round(doc.amountCents * rate), exchangeRate: rate };
+}
+
+/**
+ * Attach the shekel conversion to a draft before it is stored.
+ */
+export async function applyExchangeRate(doc: {
+  amountCents: number;
+  currency: string;
+  issuedAt: string;
+  amountIlsCents?: number | null;
+  exchangeRate?: number | null;
+}): Promise<void> {
+  const conversion = await convertToIls(doc);
+  doc.amountIlsCents = conversion.amountIlsCents;
+  doc.exchangeRate = conversion.exchangeRate;
+}
+
+/**
+ * Convert every foreign-currency document still missing a shekel amount —
+ * typically ones received before that day's rate was published.
+ */
+export async function convertPendingDocuments(): Promise<{ scanned: number; converted: number }> {
+  let scanned = 0;
+  let converted = 0;
+  let afterId: string | undefined;
+
+  for (;;) {
+    const batch = await store.getUnconvertedDocuments({ afterId, limit: CONVERSION_BATCH_SIZE });
+    if (batch.length === 0) break;
+
+    for (const doc of batch) {
+      scanned++;
+      const conversion = await convertToIls(doc);
+      if (conversion.exchangeRate != null) {
+        await store.updateDocumentConversion(doc.id, conversion);
+        converted++;
+      }
+    }
+
+    afterId = batch[batch.length - 1].id;
+    if (batch.length < CONVERSION_BATCH_SIZE) break;
+  }
+
+  return { scanned, converted };
+}
+
+/**
+ * Daily job: pull the last two weeks of rates from the feed (plus the local
+ * file, if configured), then convert documents that were waiting on them.
+ */
+export async function syncExchangeRates(): Promise<{ imported: number; scanned: number; converted: number }> {
+  let imported = await importExchangeRatesFile();
+  const today = toIsraelDate(new Date().toISOString());
+  try {
+    const fetched = await fetchBankOfIsraelRates(addDays(today, -14), today);
+    if (fetched.length > 0) imported += await store.upsertExchangeRates(fetched);
+  } catch (error) {
+    // Rates from the file (or earlier runs) can still convert waiting documents
+    console.error("[exchange-rates] Feed fetch failed:", error);
+  }
+  const result = await convertPendingDocuments();
+  console.log(`[exchange-rates] Imported ${imported} rates, converted ${result.converted}/${result.scanned} documents`);
+  return { imported, ...result };
+}
@@ -0,0 +1,26 @@
+import type { ExportFormatter } from "./types";
+import { escapeCsv } from "./shared";
+
+/** The generic CSV the dashboard has always exported. */
+export const csvFormatter: ExportFormatter = {
+  format: "csv",
+  label: "CSV",
+  build(data) {
+    const header = [
+      "id", "vendor", "amount_cents", "currency", "issued_at", "category", "status", "source", "provider", "type", "confidence",
+      "amount_ils_cents", "exchange_rate", "invoice_number", "supplier_tax_id", "allocation_number",
+    ].join(",");
+    const body = data.documents.map((doc) =>
+      [
+        doc.id, doc.vendor, doc.amountCents, doc.currency, doc.issuedAt, doc.category,
+        doc.status, doc.source, doc.provider, doc.type, doc.confidence,
+        doc.amountIlsCents, doc.exchangeRate, doc.invoiceNumber, doc.supplierTaxId, doc.allocationNumber,
+      ].map(escapeCsv).join(","),
+    );
+    return {
+      filename: `sendtoamram-${data.business.id}.csv`,
+      contentType: "text/csv; charset=utf-8",
+      body: Buffer.from([header, ...body].join("\n"), "utf-8"),
+    };
+  },
+};
@@ -0,0 +1,265 @@
+import iconv from "iconv-lite";
+import { unzipSync } from "fflate";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { blank, num, record, recordLength, signed, text } from "./fixed-width";
+import { hashavshevetFormatter } from "./hashavshevet";
+import { DEFAULT_EXPORT_ACCOUNTS } from "./index";
+import { priorityFormatter } from "./priority";
+import { rivhitFormatter } from "./rivhit";
+import type { ExportData, ExportDocument } from "./types";
+import { uniformStructureFormatter } from "./uniform-structure";
+
+const document = (overrides: Partial<ExportDocument>): ExportDocument => ({
+  id: "00000000-0000-0000-0000-000000000000",
+  vendor: "Vendor",
+  amountCents: 0,
+  vatCents: null,
+  currency: "ILS",
+  amountIlsCents: null,
+  exchangeRate: null,
+  issuedAt: "2025-04-01T09:00:00.000Z",
+  category: "כללי",
+  type: "INVOICE",
+  status: "PENDING",
+  source: "EMAIL",
+  provider: "gmail",
+  confidence: 0.9,
+  supplierTaxId: null,
+  isFixedAsset: false,
+  vatEstimated: false,
+  invoiceNumber: null,
+  allocationNumber: null,
+  ...overrides,
+});
+
+/** An ILS invoice issued just after midnight on 1 April in Israel, and a USD one with no VAT. */
+const FIXTURE: ExportData = {
+  business: { id: "biz", name: "עסק לדוגמה", currency: "ILS", taxId: "516179157", vatReportingFrequency: "bimonthly" },
+  period: { from: "2025-04-01", to: "2025-04-30" },
+  documents: [
+    document({
+      id: "a1b2c3d4-0000-0000-0000-000000000001",
+      vendor: "משרד ציוד",
+      amountCents: 11_800,
+      vatCents: 1_800,
+      amountIlsCents: 11_800,
+      exchangeRate: 1,
+      issuedAt: "2025-03-31T22:30:00.000Z",
+      category: "משרד",
+      supplierTaxId: "516179157",
+      invoiceNumber: "INV-2041",
+      allocationNumber: "123456789",
+    }),
+    document({
+      id: "0f8c2a4e-0000-0000-0000-000000000002",
+      vendor: "Cloud Hosting Inc",
+      amountCents: 10_000,
+      vatCents: 0,
+      currency: "USD",
+      amountIlsCents: 37_000,
+      exchangeRate: 3.7,
+      issuedAt: "2025-04-10T09:00:00.000Z",
+      category: "תוכנה",
+    }),
+  ],
+};
+
+describe("fixed-width records", () => {
+  it("pads text right and numbers left, truncating both", () => {
+    expect(record([text(5, "ab"), num(5, 42), text(3, "abcdef"), num(3, 12345)])).toBe("ab   00042abc345");
+  });
+
+  it("keeps only the digits of a number and blanks a missing value", () => {
+    expect(record([num(9, "51-617915-7"), num(4, null), text(3, null), blank(2)])).toBe("5161791570000     ");
+  });
+
+  it("signs amounts and folds newlines in text", () => {
+    expect(record([signed(8, 12_345), signed(8, -500), signed(4, 0), text(6, "a\r\nb")])).toBe("+0012345-0000500+000a b   ");
+  });
+
+  it("adds up a record's length", () => {
+    expect(recordLength([text(4, "A100"), num(9, 1), signed(15, 0)])).toBe(28);
+  });
+});
+
+describe("Hashavshevet MOVEIN", () => {
+  const files = unzipSync(new Uint8Array(hashavshevetFormatter.build(FIXTURE, DEFAULT_EXPORT_ACCOUNTS).body));
+  const dat = iconv.decode(Buffer.from(files["MOVEIN.DAT"]), "windows-1255");
+  const prm = iconv.decode(Buffer.from(files["MOVEIN.PRM"]), "windows-1255");
+
+  /** Field name → its 1-based [start, end] columns, as the import wizard reads them. */
+  const columns = new Map(prm.split("\r\n").slice(1, -1).map((line) => {
+    const [start, end, ...name] = line.split(" ");
+    return [name.join(" "), [Number(start), Number(end)] as const];
+  }));
+  const lines = dat.split("\r\n");
+  const field = (line: string, name: string) => {
+    const [start, end] = columns.get(name)!;
+    return line.slice(start - 1, end);
+  };
+
+  it("describes 16 contiguous fields in 184 columns", () => {
+    expect(prm.split("\r\n")[0]).toBe("16");
+    expect(columns.size).toBe(16);
+    expect(columns.get("סוג תנועה")).toEqual([1, 3]);
+    expect(columns.get("מספר הקצאה")).toEqual([176, 184]);
+  });
+
+  it("writes one CRLF-terminated record per document", () => {
+    expect(lines).toHaveLength(3);
+    expect(lines[2]).toBe("");
+    expect(lines[0]).toHaveLength(184);
+    expect(lines[1]).toHaveLength(184);
+  });
+
+  it("lays out an ILS invoice field by field", () => {
+    expect(lines[0]).toBe(
+      "חש " +
+      "0000001" +
+      "INV-2041  " +
+      "01/04/2025" +
+      "01/04/2025" +
+      "משרד ציוד".padEnd(30) +
+      "6000".padEnd(15) + "18100".padEnd(15) + "40000".padEnd(15) +
+      "      100.00" + "       18.00" + "      118.00" +
+      "ILS" +
+      "        0.00" +
+      "516179157" +
+      "123456789",
+    );
+  });
+
+  it("books a foreign invoice in shekels with its original total", () => {
+    const line = lines[1];
+    expect(field(line, "אסמכתא")).toBe("0000002");
+    expect(field(line, "אסמכתא 2")).toBe("0F8C2A4E  ");
+    expect(field(line, "סכום חובה 1")).toBe("      370.00");
+    expect(field(line, "סכום חובה 2")).toBe("        0.00");
+    expect(field(line, "סכום זכות 1")).toBe("      370.00");
+    expect(field(line, "מטבע")).toBe("USD");
+    expect(field(line, "סכום מט\"ח")).toBe("      100.00");
+    expect(field(line, "מספר עוסק")).toBe("         ");
+  });
+});
+
+describe("uniform structure (OPENFRMT)", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const build = () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    // 10:30 on 2 May in Israel
+    vi.setSystemTime(new Date("2025-05-02T07:30:00.000Z"));
+    const files = unzipSync(new Uint8Array(uniformStructureFormatter.build(FIXTURE, DEFAULT_EXPORT_ACCOUNTS).body));
+    const read = (name: string) => iconv.decode(Buffer.from(files[`OPENFRMT/51617915.25/05021030/${name}`]), "iso-8859-8");
+    return { names: Object.keys(files), data: read("BKMVDATA.TXT").split("\r\n").slice(0, -1), ini: read("INI.TXT").split("\r\n").slice(0, -1) };
+  };
+
+  it("places both files in the spec's directory", () => {
+    expect(build().names.sort()).toEqual([
+      "OPENFRMT/51617915.25/05021030/BKMVDATA.TXT",
+      "OPENFRMT/51617915.25/05021030/INI.TXT",
+    ]);
+  });
+
+  it("writes each record type at its spec length, numbered in order", () => {
+    const { data, ini } = build();
+    const lengths: Record<string, number> = { A100: 95, B110: 376, B100: 317, Z900: 110 };
+    expect(data.map((line) => line.slice(0, 4))).toEqual([
+      "A100", "B110", "B110", "B110", "B100", "B100", "B100", "B100", "B100", "Z900",
+    ]);
+    data.forEach((line, index) => {
+      expect(line).toHaveLength(lengths[line.slice(0, 4)]);
+      expect(line.slice(4, 13)).toBe(String(index + 1).padStart(9, "0"));
+    });
+    expect(ini[0]).toHaveLength(466);
+  });
+
+  it("keeps every account's totals and each journal entry balanced", () => {
+    const { data } = build();
+
+    const accounts = data.filter((line) => line.startsWith("B110")).map((line) => ({
+      account: line.slice(22, 37).trim(),
+      debit: Number(line.slice(292, 307)),
+      credit: Number(line.slice(307, 322)),
+    }));
+    expect(accounts).toEqual([
+      { account: "6000", debit: 47_000, credit: 0 },
+      { account: "18100", debit: 1_800, credit: 0 },
+      { account: "40000", debit: 0, credit: 48_800 },
+    ]);
+
+    const legs = data.filter((line) => line.startsWith("B100")).map((line) => ({
+      transaction: Number(line.slice(22, 32)),
+      date: line.slice(156, 164),
+      account: line.slice(172, 187).trim(),
+      side: line.slice(202, 203),
+      currency: line.slice(203, 206).trim(),
+      cents: Number(line.slice(206, 221)),
+      originalCents: line.slice(221, 236).trim() ? Number(line.slice(221, 236)) : null,
+    }));
+    expect(legs).toEqual([
+      { transaction: 1, date: "20250401", account: "6000", side: "1", currency: "", cents: 10_000, originalCents: null },
+      { transaction: 1, date: "20250401", account: "18100", side: "1", currency: "", cents: 1_800, originalCents: null },
+      { transaction: 1, date: "20250401", account: "40000", side: "2", currency: "", cents: 11_800, originalCents: null },
+      { transaction: 2, date: "20250410", account: "6000", side: "1", currency: "USD", cents: 37_000, originalCents: 10_000 },
+      { transaction: 2, date: "20250410", account: "40000", side: "2", currency: "USD", cents: 37_000, originalCents: 10_000 },
+    ]);
+  });
+
+  it("ties INI.TXT to the data file with the same ID and record counts", () => {
+    const { data, ini } = build();
+    const primaryId = data[0].slice(22, 37);
+    expect(data[data.length - 1].slice(22, 37)).toBe(primaryId);
+    expect(data[data.length - 1].slice(45, 60)).toBe("000000000000010");
+
+    const [header, ...counts] = ini;
+    expect(header.slice(0, 4)).toBe("A000");
+    expect(header.slice(9, 24)).toBe("000000000000010");
+    expect(header.slice(24, 33)).toBe("516179157");
+    expect(header.slice(33, 48)).toBe(primaryId);
+    expect(counts).toEqual([
+      "A100000000000000001",
+      "B110000000000000003",
+      "B100000000000000005",
+      "Z900000000000000001",
+    ]);
+  });
+
+  it("requires the business tax ID", () => {
+    expect(() => uniformStructureFormatter.build(
+      { ...FIXTURE, business: { ...FIXTURE.business, taxId: null } },
+      DEFAULT_EXPORT_ACCOUNTS,
+    )).toThrow(expect.objectContaining({ statusCode: 400 }));
+  });
+});
+
+describe("Priority journal entries", () => {
+  it("writes a balanced entry per invoice, skipping a zero VAT line", () => {
+    const text = priorityFormatter.build(FIXTURE, DEFAULT_EXPORT_ACCOUNTS).body.toString("utf-8");
+    expect(text.startsWith("\uFEFF")).toBe(true);
+    expect(text.slice(1).split("\r\n")).toEqual([
+      "1\t01/04/2025\tINV-2041\tמשרד ציוד - משרד הקצאה 123456789\tILS",
+      "2\t6000\t100.00\t0.00\tמשרד ציוד - משרד הקצאה 123456789",
+      "2\t18100\t18.00\t0.00\tמשרד ציוד - משרד הקצאה 123456789",
+      "2\t40000\t0.00\t118.00\tמשרד ציוד - משרד הקצאה 123456789",
+      "1\t10/04/2025\t0F8C2A4E\tCloud Hosting Inc - תוכנה (USD 100.00)\tILS",
+      "2\t6000\t370.00\t0.00\tCloud Hosting Inc - תוכנה (USD 100.00)",
+      "2\t40000\t0.00\t370.00\tCloud Hosting Inc - תוכנה (USD 100.00)",
+    ]);
+  });
+});
+
+describe("Rivhit expenses", () => {
+  it("writes a header and one shekel row per invoice", () => {
+    const text = rivhitFormatter.build(FIXTURE, DEFAULT_EXPORT_ACCOUNTS).body.toString("utf-8");
+    expect(text.startsWith("\uFEFF")).toBe(true);
+    const [header, ...rows] = text.slice(1).split("\r\n");
+    expect(header.split(",")).toHaveLength(13);
+    expect(rows).toEqual([
+      "01/04/2025,INV-2041,משרד ציוד,INVOICE,משרד,100.00,18.00,118.00,ILS,,,516179157,123456789",
+      "10/04/2025,0F8C2A4E,Cloud Hosting Inc,INVOICE,תוכנה,370.00,0.00,370.00,USD,100.00,3.7,,",
+    ]);
+  });
+});
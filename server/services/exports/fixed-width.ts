@@ -0,0 +1,53 @@
+/**
+ * Fixed-width record builder for the DOS-era import formats (Hashavshevet
+ * MOVEIN, Tax Authority uniform structure). Text fields are left-aligned and
+ * space padded, numeric fields right-aligned and zero padded; both truncate.
+ */
+
+export type FixedField =
+  | { type: "X"; length: number; value: string | null | undefined }
+  | { type: "N"; length: number; value: number | string | null | undefined }
+  /** Signed amount (agorot or whole shekels, per format): sign + zero-padded digits, e.g. "+00000000012345" */
+  | { type: "S"; length: number; value: number };
+
+export function text(length: number, value: string | null | undefined): FixedField {
+  return { type: "X", length, value };
+}
+
+export function num(length: number, value: number | string | null | undefined): FixedField {
+  return { type: "N", length, value };
+}
+
+export function signed(length: number, cents: number): FixedField {
+  return { type: "S", length, value: cents };
+}
+
+export function blank(length: number): FixedField {
+  return { type: "X", length, value: "" };
+}
+
+function renderField(field: FixedField): string {
+  switch (field.type) {
+    case "X": {
+      const value = (field.value ?? "").replace(/[\r\n]+/g, " ");
+      return value.slice(0, field.length).padEnd(field.length, " ");
+    }
+    case "N": {
+      const digits = String(field.value ?? "").replace(/\D/g, "");
+      return digits.slice(-field.length).padStart(field.length, "0");
+    }
+    case "S": {
+      const sign = field.value < 0 ? "-" : "+";
+      const digits = String(Math.abs(Math.round(field.value)));
+      return sign + digits.slice(-(field.length - 1)).padStart(field.length - 1, "0");
+    }
+  }
+}
+
+export function record(fields: FixedField[]): string {
+  return fields.map(renderField).join("");
+}
+
+export function recordLength(fields: FixedField[]): number {
+  return fields.reduce((sum, field) => sum + field.length, 0);
+}
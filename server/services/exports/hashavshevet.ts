@@ -0,0 +1,80 @@
+import iconv from "iconv-lite";
+import { zipSync } from "fflate";
+import type { ExportAccounts, ExportDocument, ExportFormatter } from "./types";
+import { documentReference, formatAmount, formatDateIL, isForeignCurrency, splitVat } from "./shared";
+import { num, record, text, type FixedField } from "./fixed-width";
+
+/** Movement type for a supplier invoice in the default Hashavshevet chart. */
+const MOVEMENT_TYPE = "חש";
+
+interface MoveinField {
+  name: string;
+  length: number;
+  /** "amount" = right-aligned decimal ("    1234.50"), the way the import wizard reads it */
+  kind: "text" | "num" | "amount";
+  value: (doc: ExportDocument, index: number, accounts: ExportAccounts) => string | number;
+}
+
+const FIELDS: MoveinField[] = [
+  { name: "סוג תנועה", length: 3, kind: "text", value: () => MOVEMENT_TYPE },
+  { name: "אסמכתא", length: 7, kind: "num", value: (_doc, index) => index + 1 },
+  { name: "אסמכתא 2", length: 10, kind: "text", value: (doc) => documentReference(doc) },
+  { name: "תאריך אסמכתא", length: 10, kind: "text", value: (doc) => formatDateIL(doc.issuedAt) },
+  { name: "תאריך ערך", length: 10, kind: "text", value: (doc) => formatDateIL(doc.issuedAt) },
+  { name: "פרטים", length: 30, kind: "text", value: (doc) => doc.vendor },
+  { name: "חשבון חובה 1", length: 15, kind: "text", value: (_doc, _index, accounts) => accounts.expense },
+  { name: "חשבון חובה 2", length: 15, kind: "text", value: (_doc, _index, accounts) => accounts.vat },
+  { name: "חשבון זכות 1", length: 15, kind: "text", value: (_doc, _index, accounts) => accounts.supplier },
+  { name: "סכום חובה 1", length: 12, kind: "amount", value: (doc) => splitVat(doc).netCents },
+  { name: "סכום חובה 2", length: 12, kind: "amount", value: (doc) => splitVat(doc).vatCents },
+  { name: "סכום זכות 1", length: 12, kind: "amount", value: (doc) => splitVat(doc).totalCents },
+  { name: "מטבע", length: 3, kind: "text", value: (doc) => doc.currency },
+  { name: "סכום מט\"ח", length: 12, kind: "amount", value: (doc) => (isForeignCurrency(doc) ? doc.amountCents : 0) },
+  { name: "מספר עוסק", length: 9, kind: "text", value: (doc) => doc.supplierTaxId ?? "" },
+  { name: "מספר הקצאה", length: 9, kind: "text", value: (doc) => doc.allocationNumber ?? "" },
+];
+
+function renderField(field: MoveinField, doc: ExportDocument, index: number, accounts: ExportAccounts): FixedField {
+  const value = field.value(doc, index, accounts);
+  switch (field.kind) {
+    case "num":
+      return num(field.length, value);
+    case "amount":
+      return text(field.length, formatAmount(Number(value)).padStart(field.length, " "));
+    default:
+      return text(field.length, String(value));
+  }
+}
+
+/**
+ * Hashavshevet "קליטת תנועות" import: MOVEIN.DAT (fixed width, Windows-1255)
+ * plus MOVEIN.PRM, the field map the import wizard loads — one line per field
+ * with its start/end columns (1-based) and name. Shipped together as a zip.
+ */
+export const hashavshevetFormatter: ExportFormatter = {
+  format: "hashavshevet",
+  label: "חשבשבת",
+  build(data, accounts) {
+    const lines = data.documents.map((doc, index) =>
+      record(FIELDS.map((field) => renderField(field, doc, index, accounts))),
+    );
+
+    let start = 1;
+    const prmLines = FIELDS.map((field) => {
+      const line = `${start} ${start + field.length - 1} ${field.name}`;
+      start += field.length;
+      return line;
+    });
+
+    const zip = zipSync({
+      "MOVEIN.DAT": iconv.encode(lines.join("\r\n") + "\r\n", "windows-1255"),
+      "MOVEIN.PRM": iconv.encode(`${FIELDS.length}\r\n${prmLines.join("\r\n")}\r\n`, "windows-1255"),
+    });
+
+    return {
+      filename: `hashavshevet-${data.business.id}.zip`,
+      contentType: "application/zip",
+      body: Buffer.from(zip),
+    };
+  },
+};
@@ -0,0 +1,52 @@
+import { store } from "../../store";
+import type { ExportAccounts, ExportData, ExportFile, ExportFormat, ExportFormatter } from "./types";
+import { csvFormatter } from "./csv";
+import { hashavshevetFormatter } from "./hashavshevet";
+import { rivhitFormatter } from "./rivhit";
+import { priorityFormatter } from "./priority";
+import { uniformStructureFormatter } from "./uniform-structure";
+
+export type { ExportAccounts, ExportDocument, ExportFile, ExportFormat, ExportFormatter } from "./types";
+
+export const EXPORT_FORMATS = ["csv", "hashavshevet", "rivhit", "priority", "uniform"] as const satisfies readonly ExportFormat[];
+
+const formatters: Record<ExportFormat, ExportFormatter> = {
+  csv: csvFormatter,
+  hashavshevet: hashavshevetFormatter,
+  rivhit: rivhitFormatter,
+  priority: priorityFormatter,
+  uniform: uniformStructureFormatter,
+};
+
+/** Default ledger accounts; accountants override them per export to match their chart. */
+export const DEFAULT_EXPORT_ACCOUNTS: ExportAccounts = {
+  expense: "6000",
+  vat: "18100",
+  supplier: "40000",
+};
+
+/**
+ * Build an export file for a business in the requested bookkeeping format.
+ */
+export async function buildExport(
+  businessId: string,
+  format: ExportFormat,
+  options: {
+    status: string;
+    from?: string;
+    to?: string;
+    accounts?: Partial<ExportAccounts>;
+  },
+): Promise<ExportFile> {
+  const { business, documents } = await store.getExportDocuments(businessId, {
+    status: options.status,
+    from: options.from,
+    to: options.to,
+  });
+  const data: ExportData = { business, documents, period: { from: options.from, to: options.to } };
+  const accounts: ExportAccounts = { ...DEFAULT_EXPORT_ACCOUNTS };
+  for (const [key, value] of Object.entries(options.accounts ?? {}) as Array<[keyof ExportAccounts, string | undefined]>) {
+    if (value) accounts[key] = value;
+  }
+  return formatters[format].build(data, accounts);
+}
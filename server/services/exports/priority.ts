@@ -0,0 +1,36 @@
+import type { ExportFormatter } from "./types";
+import { documentReference, formatAmount, formatDateIL, isForeignCurrency, splitVat, utf8WithBom } from "./shared";
+
+/**
+ * Priority journal-entry interface file (tab separated, hierarchical):
+ *   1 <date> <reference> <details>            — journal entry header
+ *   2 <account> <debit> <credit> <details>    — entry line
+ * Each invoice becomes one balanced entry: expense + input VAT against the supplier.
+ * Lines are in shekels; a foreign-currency invoice notes its original total in the details,
+ * and an allocation number (מספר הקצאה) is noted there too.
+ */
+export const priorityFormatter: ExportFormatter = {
+  format: "priority",
+  label: "Priority",
+  build(data, accounts) {
+    const clean = (value: string) => value.replace(/[\t\r\n]+/g, " ");
+    const lines: string[] = [];
+    for (const doc of data.documents) {
+      const { netCents, vatCents, totalCents } = splitVat(doc);
+      const original = isForeignCurrency(doc) ? ` (${doc.currency} ${formatAmount(doc.amountCents)})` : "";
+      const allocation = doc.allocationNumber ? ` הקצאה ${doc.allocationNumber}` : "";
+      const details = clean(`${doc.vendor} - ${doc.category}${original}${allocation}`);
+      lines.push(["1", formatDateIL(doc.issuedAt), documentReference(doc), details, "ILS"].join("\t"));
+      lines.push(["2", accounts.expense, formatAmount(netCents), "0.00", details].join("\t"));
+      if (vatCents !== 0) {
+        lines.push(["2", accounts.vat, formatAmount(vatCents), "0.00", details].join("\t"));
+      }
+      lines.push(["2", accounts.supplier, "0.00", formatAmount(totalCents), details].join("\t"));
+    }
+    return {
+      filename: `priority-${data.business.id}.txt`,
+      contentType: "text/plain; charset=utf-8",
+      body: utf8WithBom(lines.join("\r\n")),
+    };
+  },
+};
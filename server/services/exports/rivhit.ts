@@ -0,0 +1,39 @@
+import type { ExportFormatter } from "./types";
+import { documentReference, escapeCsv, formatAmount, formatDateIL, isForeignCurrency, splitVat, utf8WithBom } from "./shared";
+
+/**
+ * Rivhit expense import — one row per supplier invoice, matched by the
+ * column headers in Rivhit's "ייבוא הוצאות מאקסל" wizard. Amounts are in
+ * shekels; foreign-currency invoices carry their original total and rate.
+ * אסמכתא is the supplier's invoice number when it was extracted.
+ */
+export const rivhitFormatter: ExportFormatter = {
+  format: "rivhit",
+  label: "רווחית",
+  build(data) {
+    const header = ["תאריך", "אסמכתא", "שם ספק", "פרטים", "סוג הוצאה", "סכום לפני מע\"מ", "מע\"מ", "סה\"כ", "מטבע מקור", "סכום מקור", "שער", "ע.מ ספק", "מספר הקצאה"];
+    const rows = data.documents.map((doc) => {
+      const { netCents, vatCents, totalCents } = splitVat(doc);
+      return [
+        formatDateIL(doc.issuedAt),
+        documentReference(doc),
+        doc.vendor,
+        doc.type,
+        doc.category,
+        formatAmount(netCents),
+        formatAmount(vatCents),
+        formatAmount(totalCents),
+        doc.currency,
+        isForeignCurrency(doc) ? formatAmount(doc.amountCents) : "",
+        isForeignCurrency(doc) ? doc.exchangeRate ?? "" : "",
+        doc.supplierTaxId ?? "",
+        doc.allocationNumber ?? "",
+      ].map(escapeCsv).join(",");
+    });
+    return {
+      filename: `rivhit-${data.business.id}.csv`,
+      contentType: "text/csv; charset=utf-8",
+      body: utf8WithBom([header.map(escapeCsv).join(","), ...rows].join("\r\n")),
+    };
+  },
+};
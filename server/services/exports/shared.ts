@@ -0,0 +1,59 @@
+import type { ExportDocument } from "./types";
+
+export function escapeCsv(value: unknown): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** UTF-8 with BOM — Excel and the Israeli bookkeeping apps need it to read Hebrew. */
+export function utf8WithBom(text: string): Buffer {
+  return Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from(text, "utf-8")]);
+}
+
+/**
+ * Split an invoice total into net + VAT, in shekels. A foreign-currency
+ * document still waiting for a rate falls back to its original figures.
+ */
+export function splitVat(doc: ExportDocument): { netCents: number; vatCents: number; totalCents: number } {
+  const totalCents = doc.amountIlsCents ?? doc.amountCents;
+  const vatCents = Math.round((doc.vatCents ?? 0) * (doc.amountIlsCents != null ? doc.exchangeRate ?? 1 : 1));
+  return { netCents: totalCents - vatCents, vatCents, totalCents };
+}
+
+/** Net + VAT in the invoice's own currency. */
+export function splitVatOriginal(doc: ExportDocument): { netCents: number; vatCents: number; totalCents: number } {
+  const vatCents = doc.vatCents ?? 0;
+  return { netCents: doc.amountCents - vatCents, vatCents, totalCents: doc.amountCents };
+}
+
+export function isForeignCurrency(doc: ExportDocument): boolean {
+  return doc.currency !== "ILS";
+}
+
+export function formatAmount(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+/** DD/MM/YYYY in Israel time — the date format every local import wizard expects. */
+export function formatDateIL(iso: string): string {
+  const [year, month, day] = toIsraelDate(iso).split("-");
+  return `${day}/${month}/${year}`;
+}
+
+/** YYYY-MM-DD of an ISO timestamp in Asia/Jerusalem. */
+export function toIsraelDate(iso: string): string {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: "Asia/Jerusalem",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(new Date(iso));
+}
+
+/**
+ * Document reference for the bookkeeping systems: the supplier's invoice
+ * number when we have it, otherwise a short, stable stand-in for our UUID.
+ */
+export function documentReference(doc: ExportDocument): string {
+  return doc.invoiceNumber ?? doc.id.replace(/-/g, "").slice(0, 8).toUpperCase();
+}
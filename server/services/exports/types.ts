@@ -0,0 +1,61 @@
+export type ExportFormat = "csv" | "hashavshevet" | "rivhit" | "priority" | "uniform";
+
+export interface ExportDocument {
+  id: string;
+  vendor: string;
+  /** Invoice total including VAT, in the invoice currency */
+  amountCents: number;
+  vatCents: number | null;
+  currency: string;
+  /** Total in shekels; null while a foreign-currency document waits for a rate */
+  amountIlsCents: number | null;
+  /** Shekels per unit of `currency` (1 for ILS) */
+  exchangeRate: number | null;
+  issuedAt: string;
+  category: string;
+  type: string;
+  status: string;
+  source: string;
+  provider: string;
+  confidence: number;
+  supplierTaxId: string | null;
+  isFixedAsset: boolean;
+  /** VAT was estimated from the rate table rather than read off the invoice */
+  vatEstimated: boolean;
+  /** Supplier's invoice number, as printed */
+  invoiceNumber: string | null;
+  /** Tax Authority allocation number (מספר הקצאה) */
+  allocationNumber: string | null;
+}
+
+export interface ExportData {
+  business: {
+    id: string;
+    name: string;
+    currency: string;
+    taxId: string | null;
+    vatReportingFrequency: "monthly" | "bimonthly";
+  };
+  documents: ExportDocument[];
+  /** Requested period (YYYY-MM-DD), if any */
+  period: { from?: string; to?: string };
+}
+
+/** Ledger accounts used by the double-entry formats (Hashavshevet, Priority, uniform structure). */
+export interface ExportAccounts {
+  expense: string;
+  vat: string;
+  supplier: string;
+}
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  body: Buffer;
+}
+
+export interface ExportFormatter {
+  format: ExportFormat;
+  label: string;
+  build(data: ExportData, accounts: ExportAccounts): ExportFile;
+}
@@ -0,0 +1,215 @@
+import iconv from "iconv-lite";
+import { zipSync } from "fflate";
+import type { ExportAccounts, ExportData, ExportFormatter } from "./types";
+import { documentReference, isForeignCurrency, splitVat, splitVatOriginal, toIsraelDate } from "./shared";
+import { blank, num, record, signed, text } from "./fixed-width";
+
+/**
+ * Israel Tax Authority uniform structure (מבנה אחיד, spec 1.31) for a
+ * double-entry ledger: BKMVDATA.TXT holds the records (A100 opening, B110
+ * accounts, B100 journal lines, Z900 closing) and INI.TXT the A000 header
+ * plus a count per record type. Both are ISO-8859-8, CRLF-terminated, and
+ * placed under OPENFRMT\<tax id 8>.<yy>\<MMDDhhmm>\ as the spec requires.
+ */
+
+const SYSTEM_CONSTANT = "&OF1.31&";
+const SOFTWARE_NAME = "SendToAmram";
+const SOFTWARE_VERSION = "1.0";
+
+const ACCOUNT_NAMES = (accounts: ExportAccounts): Record<string, string> => ({
+  [accounts.expense]: "הוצאות",
+  [accounts.vat]: "מע\"מ תשומות",
+  [accounts.supplier]: "ספקים",
+});
+
+function compactDate(isoDate: string): string {
+  return isoDate.replace(/-/g, "");
+}
+
+export const uniformStructureFormatter: ExportFormatter = {
+  format: "uniform",
+  label: "מבנה אחיד (BKMVDATA)",
+  build(data, accounts) {
+    const taxId = (data.business.taxId ?? "").replace(/\D/g, "");
+    if (taxId.length !== 9) {
+      throw Object.assign(
+        new Error("Business tax ID (9 digits) is required for the uniform structure export"),
+        { statusCode: 400 },
+      );
+    }
+
+    const now = new Date();
+    const dates = data.documents.map((doc) => toIsraelDate(doc.issuedAt)).sort();
+    const today = toIsraelDate(now.toISOString());
+    const periodStart = data.period.from ?? dates[0] ?? today;
+    const periodEnd = data.period.to ?? dates[dates.length - 1] ?? today;
+    // Shared by A100, Z900 and A000 to tie the two files together
+    const primaryId = String(now.getTime()).slice(-15);
+
+    const lines: string[] = [];
+    const counts = new Map<string, number>();
+    const push = (code: string, fields: Parameters<typeof record>[0]) => {
+      lines.push(record([text(4, code), num(9, lines.length + 1), ...fields]));
+      counts.set(code, (counts.get(code) ?? 0) + 1);
+    };
+
+    // A100 — opening record
+    push("A100", [num(9, taxId), num(15, primaryId), text(8, SYSTEM_CONSTANT), blank(50)]);
+
+    // B110 — one record per ledger account, with the period's totals
+    const totals = new Map<string, { debit: number; credit: number }>();
+    const add = (account: string, side: "debit" | "credit", cents: number) => {
+      const entry = totals.get(account) ?? { debit: 0, credit: 0 };
+      entry[side] += cents;
+      totals.set(account, entry);
+    };
+    for (const doc of data.documents) {
+      const { netCents, vatCents, totalCents } = splitVat(doc);
+      add(accounts.expense, "debit", netCents);
+      if (vatCents !== 0) add(accounts.vat, "debit", vatCents);
+      add(accounts.supplier, "credit", totalCents);
+    }
+    const names = ACCOUNT_NAMES(accounts);
+    for (const [account, { debit, credit }] of totals) {
+      push("B110", [
+        num(9, taxId),
+        text(15, account),
+        text(50, names[account] ?? account),
+        text(15, ""), text(30, ""), // trial balance code + description
+        text(50, ""), text(10, ""), text(30, ""), text(8, ""), text(30, ""), text(2, "IL"), // address
+        text(15, ""), // parent account
+        signed(15, 0), signed(15, debit), signed(15, credit),
+        num(4, 0), num(9, 0), text(7, ""),
+        signed(15, 0), text(3, ""),
+        blank(16),
+      ]);
+    }
+
+    // B100 — journal lines: expense + input VAT against the supplier
+    data.documents.forEach((doc, index) => {
+      const { netCents, vatCents, totalCents } = splitVat(doc);
+      const original = splitVatOriginal(doc);
+      const date = compactDate(toIsraelDate(doc.issuedAt));
+      const legs: Array<{ account: string; counter: string; side: 1 | 2; cents: number; originalCents: number }> = [
+        { account: accounts.expense, counter: accounts.supplier, side: 1, cents: netCents, originalCents: original.netCents },
+        ...(vatCents !== 0
+          ? [{ account: accounts.vat, counter: accounts.supplier, side: 1 as const, cents: vatCents, originalCents: original.vatCents }]
+          : []),
+        { account: accounts.supplier, counter: accounts.expense, side: 2, cents: totalCents, originalCents: original.totalCents },
+      ];
+      legs.forEach((leg, legIndex) => {
+        push("B100", [
+          num(9, taxId),
+          num(10, index + 1), // transaction number
+          num(5, legIndex + 1), // line in transaction
+          num(8, 0), // batch
+          text(15, "חשבונית ספק"),
+          text(20, documentReference(doc)),
+          num(3, 0),
+          text(20, ""),
+          num(3, 0),
+          text(50, doc.vendor),
+          num(8, date),
+          num(8, date),
+          text(15, leg.account),
+          text(15, leg.counter),
+          num(1, leg.side),
+          text(3, isForeignCurrency(doc) ? doc.currency : ""),
+          signed(15, leg.cents),
+          isForeignCurrency(doc) ? signed(15, leg.originalCents) : text(15, ""), // foreign currency amount
+          text(12, ""), // quantity
+          text(10, ""), text(10, ""), // matching fields
+          text(7, ""), // branch
+          num(8, compactDate(today)),
+          text(9, ""), // operator
+          blank(25),
+        ]);
+      });
+    });
+
+    // Z900 — closing record; total includes itself
+    push("Z900", [num(9, taxId), num(15, primaryId), text(8, SYSTEM_CONSTANT), num(15, lines.length + 1), blank(50)]);
+
+    const ini = buildIni(data, {
+      taxId,
+      primaryId,
+      totalRecords: lines.length,
+      periodStart,
+      periodEnd,
+      now,
+      counts,
+    });
+
+    const yy = periodStart.slice(2, 4);
+    const stamp = toIsraelDate(now.toISOString()).slice(5).replace("-", "")
+      + now.toLocaleTimeString("en-GB", { timeZone: "Asia/Jerusalem", hour: "2-digit", minute: "2-digit" }).replace(":", "");
+    const dir = `OPENFRMT/${taxId.slice(0, 8)}.${yy}/${stamp}`;
+
+    const zip = zipSync({
+      [`${dir}/INI.TXT`]: iconv.encode(ini, "iso-8859-8"),
+      [`${dir}/BKMVDATA.TXT`]: iconv.encode(lines.join("\r\n") + "\r\n", "iso-8859-8"),
+    });
+
+    return {
+      filename: `openfrmt-${taxId}-${periodStart}-${periodEnd}.zip`,
+      contentType: "application/zip",
+      body: Buffer.from(zip),
+    };
+  },
+};
+
+function buildIni(
+  data: ExportData,
+  meta: {
+    taxId: string;
+    primaryId: string;
+    totalRecords: number;
+    periodStart: string;
+    periodEnd: string;
+    now: Date;
+    counts: Map<string, number>;
+  },
+): string {
+  const processTime = meta.now.toLocaleTimeString("en-GB", {
+    timeZone: "Asia/Jerusalem",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).replace(":", "");
+
+  const header = record([
+    text(4, "A000"),
+    blank(5),
+    num(15, meta.totalRecords),
+    num(9, meta.taxId),
+    num(15, meta.primaryId),
+    text(8, SYSTEM_CONSTANT),
+    num(8, 0), // software registration number
+    text(20, SOFTWARE_NAME),
+    text(20, SOFTWARE_VERSION),
+    num(9, 0), // manufacturer VAT id
+    text(20, SOFTWARE_NAME),
+    num(1, 2), // multi-year software
+    text(50, "OPENFRMT"),
+    num(1, 2), // double-entry bookkeeping
+    num(1, 1), // balance required
+    num(9, meta.taxId), // company registrar number
+    num(9, 0), // withholding file
+    blank(10),
+    text(50, data.business.name),
+    text(50, ""), text(10, ""), text(30, ""), text(8, ""), // address
+    num(4, meta.periodStart.slice(0, 4)),
+    num(8, compactDate(meta.periodStart)),
+    num(8, compactDate(meta.periodEnd)),
+    num(8, compactDate(toIsraelDate(meta.now.toISOString()))),
+    num(4, processTime),
+    num(1, 0), // Hebrew
+    num(1, 1), // ISO-8859-8-i
+    text(20, "zip"),
+    text(3, "ILS"),
+    num(1, 0), // no branches
+    blank(46),
+  ]);
+
+  const summary = [...meta.counts].map(([code, count]) => record([text(4, code), num(15, count)]));
+  return [header, ...summary].join("\r\n") + "\r\n";
+}
@@ -1,7 +1,19 @@
 import { env } from "../config";
 import { store } from "../store";
 import { getValidAccessToken } from "./oauth";
-import { isAiEnabled, extractInvoiceFromText, extractInvoiceFromImage, extractInvoiceFromPdf, type VendorCategoryMapping } from "./ai";
+import { isAiEnabled, type VendorCategoryMapping } from "./ai";
+import { saveDocumentFile, toDocumentFileType, type StoredFile } from "./blob-storage";
+import { flagDuplicate } from "./duplicates";
+import { publishDocumentCreated } from "./events";
+import {
+  classifyEmail,
+  enrichWithAi,
+  loadVendorMappings,
+  applyVendorCategoryMapping,
+  type EmailDocumentDraft,
+} from "./email-extraction";
+import { applyExchangeRate } from "./exchange-rates";
+import { applyVendorVatTreatment } from "./vat";
 
 const GMAIL_API = "https://gmail.googleapis.com/gmail/v1";
 
@@ -151,80 +163,39 @@ function extractPlainText(message: GmailMessage): string | null {
 export function extractDocumentFromEmail(
   message: GmailMessage,
   inbox: { id: string; businessId: string },
-): {
-  businessId: string;
-  inboxConnectionId: string;
-  source: string;
-  type: string;
-  status: string;
-  vendorName: string;
-  amountCents: number;
-  currency: string;
-  vatCents: number | null;
-  issuedAt: string;
-  confidence: number;
-  category: string | null;
-  rawText: string | null;
+): (EmailDocumentDraft & {
   gmailMessageId: string;
   attachments: AttachmentInfo[];
   attachmentFilenames: string[];
-} | null {
+}) | null {
   const headers = Object.fromEntries(
     message.payload.headers.map((h) => [h.name.toLowerCase(), h.value]),
   );
-  const subject = headers["subject"] ?? "";
-  const from = headers["from"] ?? "";
-  const date = new Date(parseInt(message.internalDate));
-
-  // Extract sender name
-  const vendorMatch = from.match(/^"?([^"<]+)"?\s*</);
-  const vendorName = vendorMatch?.[1]?.trim() ?? from.split("@")[0]?.replace(/[._-]/g, " ") ?? "Unknown";
-
-  const lowerSubject = subject.toLowerCase();
-  const hasInvoiceSignal = /invoice|חשבונית|receipt|קבלה|payment|תשלום|billing|הזמנה|order|confirmation/.test(lowerSubject);
-
-  const hasAttachment = message.payload.parts?.some(
-    (p) =>
-      p.filename &&
-      p.filename.length > 0 &&
-      (p.filename.endsWith(".pdf") || p.filename.endsWith(".png") ||
-       p.filename.endsWith(".jpg") || p.filename.endsWith(".jpeg") ||
-       p.filename.endsWith(".xlsx") || p.filename.endsWith(".csv")),
-  );
-
-  // Accept emails that have invoice signals OR attachments
-  if (!hasInvoiceSignal && !hasAttachment) {
-    return null;
-  }
-
-  const bodyText = extractPlainText(message);
-
-  // Determine type
-  let type = "INVOICE";
-  if (/receipt|קבלה/.test(lowerSubject)) type = "RECEIPT";
-  else if (/subscription|מנוי/.test(lowerSubject)) type = "SUBSCRIPTION";
-  else if (/confirmation|אישור/.test(lowerSubject)) type = "PAYMENT_CONFIRMATION";
 
-  // Try to extract amount from subject or snippet (basic regex)
-  let amountCents = 0;
-  const amountMatch = (subject + " " + (message.snippet ?? "")).match(
-    /(?:₪|ILS|NIS)\s*([\d,]+\.?\d*)|(\d[\d,]*\.?\d*)\s*(?:₪|ILS|NIS)/,
+  const draft = classifyEmail(
+    {
+      subject: headers["subject"] ?? "",
+      from: headers["from"] ?? "",
+      snippet: message.snippet ?? "",
+      bodyText: extractPlainText(message),
+      receivedAt: new Date(parseInt(message.internalDate)),
+      attachmentFilenames: (message.payload.parts ?? []).map((p) => p.filename ?? ""),
+    },
+    inbox,
   );
-  if (amountMatch) {
-    const raw = (amountMatch[1] ?? amountMatch[2]).replace(/,/g, "");
-    amountCents = Math.round(parseFloat(raw) * 100);
-  }
+  if (!draft) return null;
 
-  // Collect downloadable attachments
+  // Collect downloadable attachments; only PDF and PNG/JPEG images are kept
   const attachments: AttachmentInfo[] = [];
   const attachmentFilenames: string[] = [];
   for (const part of message.payload.parts ?? []) {
     if (part.body?.attachmentId && part.filename && part.filename.length > 0) {
       const lower = part.filename.toLowerCase();
-      if (lower.endsWith(".pdf") || lower.endsWith(".png") || lower.endsWith(".jpg") || lower.endsWith(".jpeg")) {
+      const mimeType = toDocumentFileType(part.mimeType);
+      if (mimeType && (lower.endsWith(".pdf") || lower.endsWith(".png") || lower.endsWith(".jpg") || lower.endsWith(".jpeg"))) {
         attachments.push({
           filename: part.filename,
-          mimeType: part.mimeType,
+          mimeType,
           attachmentId: part.body.attachmentId,
         });
         attachmentFilenames.push(part.filename);
@@ -233,25 +204,35 @@ export function extractDocumentFromEmail(
   }
 
   return {
-    businessId: inbox.businessId,
-    inboxConnectionId: inbox.id,
-    source: "EMAIL",
-    type,
-    status: "PENDING",
-    vendorName,
-    amountCents,
-    currency: "ILS",
-    vatCents: amountCents > 0 ? Math.floor(amountCents * 0.17) : null,
-    issuedAt: date.toISOString(),
-    confidence: hasInvoiceSignal && hasAttachment ? 0.85 : hasInvoiceSignal ? 0.65 : 0.45,
-    category: null,
-    rawText: bodyText?.substring(0, 2000) ?? null,
+    ...draft,
     gmailMessageId: message.id,
     attachments,
     attachmentFilenames,
   };
 }
 
+/**
+ * Download the first invoice attachment of a message and persist it to blob storage.
+ * Returns the base64 payload too so callers can reuse it for AI extraction.
+ */
+export async function storeFirstGmailAttachment(
+  accessToken: string,
+  messageId: string,
+  businessId: string,
+  attachments: AttachmentInfo[],
+): Promise<{ file: StoredFile; base64Data: string; mimeType: string } | null> {
+  const att = attachments[0];
+  if (!att) return null;
+
+  const base64Data = await fetchGmailAttachment(accessToken, messageId, att.attachmentId);
+  const file = await saveDocumentFile(businessId, {
+    filename: att.filename,
+    mimeType: att.mimeType,
+    data: Buffer.from(base64Data, "base64"),
+  });
+  return { file, base64Data, mimeType: file.mimeType };
+}
+
 // ─── Main sync function ───
 
 export interface SyncOptions {
@@ -298,16 +279,7 @@ export async function syncGmailInbox(inboxConnectionId: string, options?: SyncOp
   console.log(`[gmail-sync] Found ${messageIds.length} messages to process for inbox ${inboxConnectionId}${quickScan ? " (quick scan)" : ""}`);
 
   // Load learned vendor→category mappings for AI prompt enhancement
-  let vendorMappings: VendorCategoryMapping[] = [];
-  if (!quickScan && isAiEnabled()) {
-    try {
-      const mappings = await store.getVendorCategoryMappings(inbox.businessId);
-      vendorMappings = mappings.map(m => ({
-        vendorNameOriginal: m.vendorNameOriginal,
-        category: m.category,
-      }));
-    } catch { /* ignore */ }
-  }
+  const vendorMappings: VendorCategoryMapping[] = quickScan ? [] : await loadVendorMappings(inbox.businessId);
 
   let newDocuments = 0;
   let aiProcessed = 0;
@@ -323,44 +295,21 @@ export async function syncGmailInbox(inboxConnectionId: string, options?: SyncOp
       const doc = extractDocumentFromEmail(message, inbox);
       if (!doc) continue;
 
+      // Keep the original attachment (skipped in quick scan — free preview only)
+      let attachment: Awaited<ReturnType<typeof storeFirstGmailAttachment>> = null;
+      if (!quickScan && doc.attachments.length > 0) {
+        try {
+          attachment = await storeFirstGmailAttachment(accessToken, messageId, inbox.businessId, doc.attachments);
+          doc.file = attachment?.file ?? null;
+        } catch (fileErr) {
+          console.error(`[gmail-sync] Failed to store attachment for ${messageId}:`, fileErr);
+        }
+      }
+
       // AI extraction (if enabled, under batch limit, and NOT quick scan)
       if (!quickScan && isAiEnabled() && aiProcessed < AI_BATCH_LIMIT) {
         try {
-          if (doc.attachments.length > 0) {
-            // Download and process the first attachment
-            const att = doc.attachments[0];
-            const base64Data = await fetchGmailAttachment(accessToken, messageId, att.attachmentId);
-
-            let extracted;
-            if (att.mimeType === "application/pdf") {
-              extracted = await extractInvoiceFromPdf(inbox.businessId, base64Data, undefined, vendorMappings);
-            } else if (att.mimeType.startsWith("image/")) {
-              extracted = await extractInvoiceFromImage(inbox.businessId, base64Data, att.mimeType, undefined, vendorMappings);
-            }
-
-            if (extracted && extracted.confidence > 0.2) {
-              doc.vendorName = extracted.vendorName || doc.vendorName;
-              doc.amountCents = extracted.amountCents || doc.amountCents;
-              doc.vatCents = extracted.vatCents ?? doc.vatCents;
-              doc.category = extracted.category || doc.category;
-              doc.confidence = extracted.confidence;
-              doc.type = extracted.type || doc.type;
-              if (extracted.issuedAt && extracted.issuedAt !== new Date().toISOString().slice(0, 10)) {
-                doc.issuedAt = new Date(extracted.issuedAt).toISOString();
-              }
-            }
-            aiProcessed++;
-          } else if (doc.rawText) {
-            // Text-only AI extraction
-            const extracted = await extractInvoiceFromText(inbox.businessId, doc.rawText, vendorMappings);
-            if (extracted && extracted.confidence > 0.2) {
-              doc.vendorName = extracted.vendorName || doc.vendorName;
-              doc.amountCents = extracted.amountCents || doc.amountCents;
-              doc.vatCents = extracted.vatCents ?? doc.vatCents;
-              doc.category = extracted.category || doc.category;
-              doc.confidence = extracted.confidence;
-              doc.type = extracted.type || doc.type;
-            }
+          if (await enrichWithAi(doc, attachment, vendorMappings)) {
             aiProcessed++;
           }
         } catch (aiErr) {
@@ -369,18 +318,15 @@ export async function syncGmailInbox(inboxConnectionId: string, options?: SyncOp
         }
       }
 
-      // Apply learned vendor→category override (exact match wins over AI)
-      if (!quickScan && doc.vendorName) {
-        try {
-          const mapping = await store.getVendorCategoryMapping(inbox.businessId, doc.vendorName);
-          if (mapping) {
-            doc.category = mapping.category;
-            doc.confidence = Math.max(doc.confidence, 0.9);
-          }
-        } catch { /* ignore */ }
+      if (!quickScan) {
+        await applyVendorCategoryMapping(doc);
       }
+      await applyVendorVatTreatment(doc);
+      await applyExchangeRate(doc);
 
-      await store.createDocument(doc);
+      const { id } = await store.createDocument(doc);
+      await flagDuplicate(id);
+      await publishDocumentCreated(doc.businessId, id);
       newDocuments++;
     } catch (error) {
       console.error(`[gmail-sync] Failed to process message ${messageId}:`, error);
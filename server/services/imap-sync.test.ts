@@ -0,0 +1,171 @@
+import { createServer as createTcpServer, type AddressInfo, type Server } from "net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { createServer } from "../app";
+import { store } from "../store";
+import { signUpOwner, type TestApp } from "../test/helpers";
+import { connectImapInbox, syncImapInbox } from "./imap-sync";
+
+/** The mailbox the fake IMAP client serves, and the UIDs each sync fetched. */
+const mailbox = vi.hoisted(() => ({
+  uidValidity: 1n,
+  uids: [] as number[],
+  fetched: [] as number[][],
+}));
+
+vi.mock("imapflow", () => ({
+  ImapFlow: class {
+    async connect() {}
+    async logout() {}
+    async mailboxOpen() {
+      return { uidValidity: mailbox.uidValidity, uidNext: Math.max(0, ...mailbox.uids) + 1 };
+    }
+    async search(query: { since?: Date; uid?: string }) {
+      if (!query.uid) return [...mailbox.uids];
+      // Like a real server, "n:*" matches the newest message even when its UID is below n
+      const from = Number(query.uid.split(":")[0]);
+      const matched = mailbox.uids.filter((uid) => uid >= from);
+      return matched.length > 0 ? matched : mailbox.uids.slice(-1);
+    }
+    async fetchAll(uids: number[]) {
+      mailbox.fetched.push([...uids]);
+      return uids.map((uid) => ({ uid, source: Buffer.from(`Subject: Note ${uid}\r\n\r\nNothing to file.\r\n`) }));
+    }
+  },
+}));
+
+describe("connecting an IMAP inbox", () => {
+  let app: TestApp;
+  let owner: Awaited<ReturnType<typeof signUpOwner>>;
+  // Stands in for an internal service: answers like an IMAP server and counts who dials it
+  let stubImap: Server;
+  let stubPort: number;
+  let stubConnections = 0;
+
+  beforeAll(async () => {
+    stubImap = createTcpServer((socket) => {
+      stubConnections += 1;
+      socket.end("* OK IMAP4rev1 Service Ready\r\n");
+    });
+    await new Promise<void>((resolve) => stubImap.listen(0, "127.0.0.1", resolve));
+    stubPort = (stubImap.address() as AddressInfo).port;
+
+    app = await createServer();
+    owner = await signUpOwner(app, "imap-owner@example.com");
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await new Promise((resolve) => stubImap.close(resolve));
+  });
+
+  const connect = (imapHost: string, imapPort: number) => app.inject({
+    method: "POST",
+    url: "/api/onboarding/connect-inbox",
+    headers: { authorization: `Bearer ${owner.token}` },
+    payload: {
+      businessId: owner.businessId,
+      provider: "imap",
+      email: "imap-owner@example.com",
+      appPassword: "app-password",
+      imapHost,
+      imapPort,
+      imapSecure: false,
+    },
+  });
+
+  it.each([
+    ["a loopback address", "127.0.0.1"],
+    ["a name that resolves to loopback", "localhost"],
+    ["an IPv6 loopback", "::1"],
+    ["a private address", "10.0.0.1"],
+    ["a link-local address", "169.254.169.254"],
+    ["an IPv4-mapped private address", "::ffff:10.0.0.1"],
+  ])("refuses %s with a generic error", async (_label, host) => {
+    const response = await connect(host, 143);
+    expect(response.statusCode).toBe(400);
+    expect(response.json().message).toBe("IMAP login failed. Check the server, port and app password.");
+  });
+
+  it("refuses ports other than 993 and 143 with the same error", async () => {
+    const response = await connect("127.0.0.1", stubPort);
+    expect(response.statusCode).toBe(400);
+    expect(response.json().message).toBe("IMAP login failed. Check the server, port and app password.");
+  });
+
+  it("never dials the stub server", () => {
+    expect(stubConnections).toBe(0);
+  });
+});
+
+describe("syncing an IMAP inbox", () => {
+  let app: TestApp;
+  let inboxId: string;
+
+  const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+  const cursor = async () => {
+    const inbox = await store.getImapInboxCredentials(inboxId);
+    return { uidValidity: inbox.uidValidity, lastUid: inbox.lastUid };
+  };
+
+  beforeAll(async () => {
+    app = await createServer();
+    const owner = await signUpOwner(app, "imap-sync-owner@example.com");
+    const connected = await connectImapInbox({
+      businessId: owner.businessId,
+      provider: "imap",
+      email: "imap-sync-owner@example.com",
+      appPassword: "app-password",
+      // A documentation address: public, so it passes the host check, and never dialled
+      host: "203.0.113.10",
+      port: 993,
+    });
+    inboxId = connected.connectedInboxes[0].id;
+  });
+
+  beforeEach(() => {
+    mailbox.fetched = [];
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it("reads the recent mail on the first sync and saves the cursor", async () => {
+    mailbox.uids = range(1, 3);
+    await syncImapInbox(inboxId);
+    expect(mailbox.fetched).toEqual([[1, 2, 3]]);
+    expect(await cursor()).toEqual({ uidValidity: "1", lastUid: 3 });
+  });
+
+  it("advances the UID cursor to only the new messages", async () => {
+    mailbox.uids = range(1, 5);
+    await syncImapInbox(inboxId);
+    expect(mailbox.fetched).toEqual([[4, 5]]);
+    expect(await cursor()).toEqual({ uidValidity: "1", lastUid: 5 });
+
+    // Nothing new: the newest message matched by "6:*" isn't fetched again
+    await syncImapInbox(inboxId);
+    expect(mailbox.fetched).toEqual([[4, 5]]);
+    expect(await cursor()).toEqual({ uidValidity: "1", lastUid: 5 });
+  });
+
+  it("starts over when UIDVALIDITY changes", async () => {
+    mailbox.uidValidity = 2n;
+    mailbox.uids = range(1, 2);
+    await syncImapInbox(inboxId);
+    expect(mailbox.fetched).toEqual([[1, 2]]);
+    expect(await cursor()).toEqual({ uidValidity: "2", lastUid: 2 });
+  });
+
+  it("caps a run at 100 messages and picks up the rest next time", async () => {
+    mailbox.uidValidity = 3n;
+    mailbox.uids = range(1, 150);
+    await syncImapInbox(inboxId);
+    expect(mailbox.fetched).toEqual([range(1, 100)]);
+    expect(await cursor()).toEqual({ uidValidity: "3", lastUid: 100 });
+
+    await syncImapInbox(inboxId);
+    expect(mailbox.fetched).toEqual([range(1, 100), range(101, 150)]);
+    expect(await cursor()).toEqual({ uidValidity: "3", lastUid: 150 });
+  });
+});
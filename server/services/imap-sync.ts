@@ -0,0 +1,360 @@
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+import { ImapFlow } from "imapflow";
+import { simpleParser, type ParsedMail } from "mailparser";
+import { store } from "../store";
+import { isAiEnabled, type VendorCategoryMapping } from "./ai";
+import { saveDocumentFile, toDocumentFileType, type StoredFile } from "./blob-storage";
+import { decryptSecret, encryptSecret } from "./credential-crypto";
+import { flagDuplicate } from "./duplicates";
+import { publishDocumentCreated } from "./events";
+import {
+  classifyEmail,
+  enrichWithAi,
+  loadVendorMappings,
+  applyVendorCategoryMapping,
+  type EmailDocumentDraft,
+} from "./email-extraction";
+import { applyExchangeRate } from "./exchange-rates";
+import { applyVendorVatTreatment } from "./vat";
+import type { SyncOptions } from "./gmail-sync";
+
+export type ImapProvider = "imap" | "yahoo" | "icloud";
+
+export interface ImapSettings {
+  host: string;
+  port: number;
+  secure: boolean;
+  username: string;
+  password: string;
+}
+
+/** Known hosts for providers that only need an app password. */
+const IMAP_PRESETS: Record<Exclude<ImapProvider, "imap">, { host: string; port: number; secure: boolean }> = {
+  yahoo: { host: "imap.mail.yahoo.com", port: 993, secure: true },
+  icloud: { host: "imap.mail.me.com", port: 993, secure: true },
+};
+
+/** IMAPS and IMAP (STARTTLS); the host is user-supplied, so nothing else is dialled. */
+const ALLOWED_IMAP_PORTS = [993, 143];
+
+/**
+ * Private, loopback, link-local and other non-public ranges an inbox host may
+ * not resolve to. IPv4-mapped IPv6 addresses are checked against the IPv4
+ * ranges by BlockList itself; listing ::ffff:0:0/96 would block every IPv4 host.
+ */
+const BLOCKED_IMAP_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3],
+] as const) {
+  BLOCKED_IMAP_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127], ["64:ff9b::", 96], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as const) {
+  BLOCKED_IMAP_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+/** What the user sees for any connect failure, so the endpoint can't be used to probe hosts. */
+const IMAP_CONNECT_FAILED = "IMAP login failed. Check the server, port and app password.";
+
+const INITIAL_SYNC_DAYS = 30;
+const MAX_MESSAGES_PER_SYNC = 100;
+
+// ─── Connection helpers ───
+
+/**
+ * Resolve a user-supplied IMAP host and return the address to dial. Throws
+ * if the port isn't 993/143 or any address the name resolves to is private,
+ * loopback or link-local.
+ */
+async function resolvePublicImapAddress(host: string, port: number): Promise<string> {
+  if (!ALLOWED_IMAP_PORTS.includes(port)) {
+    throw new Error(`IMAP port ${port} is not allowed`);
+  }
+  const addresses = await lookup(host, { all: true });
+  const blocked = addresses.find(({ address, family }) =>
+    BLOCKED_IMAP_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4"));
+  if (addresses.length === 0 || blocked) {
+    throw new Error(`IMAP host ${host} resolves to a non-public address`);
+  }
+  return addresses[0].address;
+}
+
+/**
+ * Open an authenticated IMAP connection. The host is checked on every
+ * connect and the resolved address is dialled directly (with the host name
+ * kept for TLS), so a DNS change can't point a stored inbox inside the network.
+ */
+export async function createImapClient(settings: ImapSettings): Promise<ImapFlow> {
+  const address = await resolvePublicImapAddress(settings.host, settings.port);
+  const client = new ImapFlow({
+    host: address,
+    servername: isIP(settings.host) ? undefined : settings.host,
+    port: settings.port,
+    secure: settings.secure,
+    auth: { user: settings.username, pass: settings.password },
+    logger: false,
+  });
+  await client.connect();
+  return client;
+}
+
+export function resolveImapSettings(
+  provider: ImapProvider,
+  input: { email: string; appPassword: string; host?: string; port?: number; secure?: boolean; username?: string },
+): ImapSettings {
+  const preset = provider === "imap" ? null : IMAP_PRESETS[provider];
+  const host = input.host ?? preset?.host;
+  if (!host) {
+    throw Object.assign(new Error("IMAP host is required"), { statusCode: 400 });
+  }
+  return {
+    host,
+    port: input.port ?? preset?.port ?? 993,
+    secure: input.secure ?? preset?.secure ?? true,
+    username: input.username ?? input.email,
+    password: input.appPassword,
+  };
+}
+
+/**
+ * Verify the app password with a real login, then store the inbox with the
+ * password encrypted at rest.
+ */
+export async function connectImapInbox(payload: {
+  businessId: string;
+  provider: ImapProvider;
+  email: string;
+  appPassword: string;
+  host?: string;
+  port?: number;
+  secure?: boolean;
+  username?: string;
+}) {
+  const settings = resolveImapSettings(payload.provider, payload);
+
+  try {
+    const client = await createImapClient(settings);
+    await client.logout();
+  } catch (error) {
+    console.error(`[imap-sync] Connect check failed for ${settings.host}:${settings.port}:`, error);
+    throw Object.assign(new Error(IMAP_CONNECT_FAILED), { statusCode: 400 });
+  }
+
+  return store.connectImapInbox({
+    businessId: payload.businessId,
+    provider: payload.provider,
+    email: payload.email,
+    imap: {
+      host: settings.host,
+      port: settings.port,
+      secure: settings.secure,
+      username: settings.username,
+      passwordEncrypted: encryptSecret(settings.password),
+    },
+  });
+}
+
+// ─── Message → Document extraction ───
+
+function isInvoiceAttachment(filename: string): boolean {
+  const lower = filename.toLowerCase();
+  return lower.endsWith(".pdf") || lower.endsWith(".png") || lower.endsWith(".jpg") || lower.endsWith(".jpeg");
+}
+
+/**
+ * Dedupe key for an IMAP message — the RFC Message-ID when present, otherwise
+ * the UIDVALIDITY/UID pair (stable for the lifetime of the mailbox).
+ */
+function imapMessageKey(parsed: ParsedMail, uidValidity: string, uid: number): string {
+  return parsed.messageId ?? `${uidValidity}:${uid}`;
+}
+
+export function extractDocumentFromParsedMail(
+  parsed: ParsedMail,
+  inbox: { id: string; businessId: string },
+): EmailDocumentDraft | null {
+  const text = parsed.text ?? null;
+  return classifyEmail(
+    {
+      subject: parsed.subject ?? "",
+      from: parsed.from?.text ?? "",
+      snippet: text?.slice(0, 200) ?? "",
+      bodyText: text,
+      receivedAt: parsed.date ?? new Date(),
+      attachmentFilenames: parsed.attachments
+        .filter((a) => a.contentDisposition !== "inline")
+        .map((a) => a.filename ?? ""),
+    },
+    inbox,
+  );
+}
+
+async function storeFirstImapAttachment(
+  businessId: string,
+  parsed: ParsedMail,
+): Promise<{ file: StoredFile; base64Data: string; mimeType: string } | null> {
+  const att = parsed.attachments.find((a) => a.filename && isInvoiceAttachment(a.filename) && toDocumentFileType(a.contentType));
+  if (!att?.filename) return null;
+
+  const file = await saveDocumentFile(businessId, {
+    filename: att.filename,
+    mimeType: att.contentType,
+    data: att.content,
+  });
+  return { file, base64Data: att.content.toString("base64"), mimeType: file.mimeType };
+}
+
+// ─── Main sync function ───
+
+export async function syncImapInbox(inboxConnectionId: string, options?: SyncOptions): Promise<{ newDocuments: number }> {
+  const { quickScan = false } = options ?? {};
+  const inbox = await store.getImapInboxCredentials(inboxConnectionId);
+  if (!inbox) {
+    throw new Error("No IMAP credentials for this inbox");
+  }
+
+  const client = await createImapClient({
+    host: inbox.host,
+    port: inbox.port,
+    secure: inbox.secure,
+    username: inbox.username,
+    password: decryptSecret(inbox.passwordEncrypted),
+  });
+
+  let newDocuments = 0;
+  try {
+    const mailbox = await client.mailboxOpen("INBOX", { readOnly: true });
+    const uidValidity = mailbox.uidValidity.toString();
+
+    // The UID cursor is only meaningful while UIDVALIDITY is unchanged
+    const cursorValid = inbox.uidValidity === uidValidity && inbox.lastUid != null;
+
+    let uids: number[];
+    if (quickScan) {
+      // Quick scan: last 3 months, max 10 messages, no AI, cursor untouched
+      const threeMonthsAgo = new Date();
+      threeMonthsAgo.setMonth(threeMonthsAgo.getMonth() - 3);
+      uids = ((await client.search({ since: threeMonthsAgo }, { uid: true })) || []).slice(-10);
+    } else if (cursorValid) {
+      // "n:*" always matches the newest message, even when its UID is below n
+      const lastUid = Number(inbox.lastUid);
+      uids = ((await client.search({ uid: `${lastUid + 1}:*` }, { uid: true })) || [])
+        .filter((uid) => uid > lastUid);
+    } else {
+      if (inbox.uidValidity && inbox.uidValidity !== uidValidity) {
+        console.warn(`[imap-sync] UIDVALIDITY changed for inbox ${inboxConnectionId}, resyncing last ${INITIAL_SYNC_DAYS} days`);
+      }
+      const since = new Date(Date.now() - INITIAL_SYNC_DAYS * 24 * 60 * 60 * 1000);
+      uids = (await client.search({ since }, { uid: true })) || [];
+    }
+
+    uids.sort((a, b) => a - b);
+    // Oldest first, capped per run; the cursor advances only as far as we got
+    const capped = uids.length > MAX_MESSAGES_PER_SYNC;
+    uids = uids.slice(0, MAX_MESSAGES_PER_SYNC);
+
+    console.log(`[imap-sync] Found ${uids.length} messages to process for inbox ${inboxConnectionId}${quickScan ? " (quick scan)" : ""}`);
+
+    const vendorMappings: VendorCategoryMapping[] = quickScan ? [] : await loadVendorMappings(inbox.businessId);
+    let aiProcessed = 0;
+    const AI_BATCH_LIMIT = 5; // Max AI calls per sync cycle for serverless timeout safety
+    // Everything up to uidNext has been seen unless this run was capped
+    let maxUid = capped ? 0 : mailbox.uidNext - 1;
+    if (cursorValid) maxUid = Math.max(maxUid, Number(inbox.lastUid));
+
+    // Fetch up front — no IMAP commands may run while a FETCH is streaming
+    const messages = uids.length > 0
+      ? await client.fetchAll(uids, { uid: true, source: true }, { uid: true })
+      : [];
+
+    for (const message of messages) {
+      maxUid = Math.max(maxUid, message.uid);
+      if (!message.source) continue;
+
+      try {
+        const parsed = await simpleParser(message.source);
+        const imapMessageId = imapMessageKey(parsed, uidValidity, message.uid);
+        if (await store.hasDocumentForImapMessage(inbox.businessId, imapMessageId)) {
+          continue;
+        }
+
+        const doc = extractDocumentFromParsedMail(parsed, inbox);
+        if (!doc) continue;
+
+        // Keep the original attachment (skipped in quick scan — free preview only)
+        let attachment: Awaited<ReturnType<typeof storeFirstImapAttachment>> = null;
+        if (!quickScan) {
+          try {
+            attachment = await storeFirstImapAttachment(inbox.businessId, parsed);
+            doc.file = attachment?.file ?? null;
+          } catch (fileErr) {
+            console.error(`[imap-sync] Failed to store attachment for UID ${message.uid}:`, fileErr);
+          }
+        }
+
+        if (!quickScan && isAiEnabled() && aiProcessed < AI_BATCH_LIMIT) {
+          try {
+            if (await enrichWithAi(doc, attachment, vendorMappings)) {
+              aiProcessed++;
+            }
+          } catch (aiErr) {
+            console.error(`[imap-sync] AI extraction failed for UID ${message.uid}:`, aiErr);
+            // Continue with regex-extracted data
+          }
+        }
+
+        if (!quickScan) {
+          await applyVendorCategoryMapping(doc);
+        }
+        await applyVendorVatTreatment(doc);
+        await applyExchangeRate(doc);
+
+        const { id } = await store.createDocument({ ...doc, imapMessageId });
+        await flagDuplicate(id);
+        await publishDocumentCreated(doc.businessId, id);
+        newDocuments++;
+      } catch (error) {
+        console.error(`[imap-sync] Failed to process UID ${message.uid}:`, error);
+      }
+    }
+
+    if (!quickScan) {
+      try {
+        await store.updateImapSyncCursor(inboxConnectionId, uidValidity, maxUid);
+      } catch (error) {
+        console.error("[imap-sync] Failed to update UID cursor:", error);
+      }
+    }
+  } finally {
+    await client.logout().catch(() => undefined);
+  }
+
+  console.log(`[imap-sync] Sync complete: ${newDocuments} new documents`);
+  return { newDocuments };
+}
+
+export async function syncAllImapInboxes(): Promise<{ total: number }> {
+  let total = 0;
+  try {
+    const { pool } = await import("../db");
+    const result = await pool.query(
+      `SELECT id FROM inbox_connections
+       WHERE status = 'CONNECTED' AND auth_method = 'APP_PASSWORD'`,
+    );
+    for (const row of result.rows) {
+      try {
+        const { newDocuments } = await syncImapInbox(row.id);
+        total += newDocuments;
+      } catch (error) {
+        console.error(`[imap-sync] Failed to sync inbox ${row.id}:`, error);
+      }
+    }
+  } catch {
+    // Fallback for JSON store
+    console.log("[imap-sync] Periodic sync skipped (no DATABASE_URL)");
+  }
+  return { total };
+}
@@ -0,0 +1,79 @@
+import { store } from "../store";
+import { syncGmailInbox, syncAllGmailInboxes, type SyncOptions } from "./gmail-sync";
+import { syncOutlookInbox, syncAllOutlookInboxes } from "./outlook-sync";
+import { syncImapInbox, syncAllImapInboxes } from "./imap-sync";
+import { publishEvent } from "./events";
+
+/** Businesses with a manual sync running in this process. */
+const runningSyncs = new Set<string>();
+
+/**
+ * Sync every connected inbox of a business (Gmail, Outlook and IMAP app-password inboxes).
+ * A failing inbox is logged and skipped so the others still sync.
+ */
+export async function syncBusinessInboxes(businessId: string, options?: SyncOptions): Promise<{ newDocuments: number }> {
+  const [gmailInboxes, outlookInboxes, imapInboxes] = await Promise.all([
+    store.getGmailInboxes(businessId),
+    store.getOutlookInboxes(businessId),
+    store.getImapInboxes(businessId),
+  ]);
+
+  const jobs: Array<{ id: string; provider: string; sync: (id: string, options?: SyncOptions) => Promise<{ newDocuments: number }> }> = [
+    ...gmailInboxes.map((inbox: { id: string }) => ({ id: inbox.id, provider: "Gmail", sync: syncGmailInbox })),
+    ...outlookInboxes.map((inbox: { id: string }) => ({ id: inbox.id, provider: "Outlook", sync: syncOutlookInbox })),
+    ...imapInboxes.map((inbox: { id: string }) => ({ id: inbox.id, provider: "IMAP", sync: syncImapInbox })),
+  ];
+
+  let newDocuments = 0;
+  for (const job of jobs) {
+    try {
+      const result = await job.sync(job.id, options);
+      newDocuments += result.newDocuments;
+    } catch (error) {
+      console.error(`[sync] ${job.provider} sync failed for inbox ${job.id}:`, error);
+    }
+  }
+  return { newDocuments };
+}
+
+/**
+ * Manual "sync now": runs in the background so the request returns at once.
+ * The dashboard follows it through sync.* and document.created events.
+ * Returns false if this business already has a sync running.
+ */
+export function startBusinessSync(businessId: string): boolean {
+  if (runningSyncs.has(businessId)) return false;
+  runningSyncs.add(businessId);
+
+  void (async () => {
+    await publishEvent(businessId, { type: "sync.started" });
+    try {
+      const { newDocuments } = await syncBusinessInboxes(businessId);
+      await publishEvent(businessId, { type: "sync.completed", newDocuments });
+    } catch (error) {
+      console.error(`[sync] Manual sync failed for business ${businessId}:`, error);
+      await publishEvent(businessId, {
+        type: "sync.failed",
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      runningSyncs.delete(businessId);
+    }
+  })();
+  return true;
+}
+
+/**
+ * Periodic sync across all businesses (cron / local interval).
+ */
+export async function syncAllInboxes(): Promise<{ total: number; gmail: number; outlook: number; imap: number }> {
+  const gmail = await syncAllGmailInboxes();
+  const outlook = await syncAllOutlookInboxes();
+  const imap = await syncAllImapInboxes();
+  return {
+    total: gmail.total + outlook.total + imap.total,
+    gmail: gmail.total,
+    outlook: outlook.total,
+    imap: imap.total,
+  };
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+  allocationThresholdOn,
+  isValidBusinessId,
+  normalizeBusinessId,
+  parseAllocationNumber,
+  parseBusinessId,
+  requiresAllocationNumber,
+} from "./israeli-ids";
+
+describe("business IDs", () => {
+  it.each([
+    ["a 9-digit ID", "123456782"],
+    ["a ח.פ written with dashes", "51-617915-7"],
+    ["a short ID, zero-padded", "12344"],
+  ])("accepts %s", (_label, value) => {
+    expect(isValidBusinessId(value)).toBe(true);
+  });
+
+  it.each([
+    ["a wrong check digit", "123456789"],
+    ["all zeros", "000000000"],
+    ["too few digits", "1234"],
+    ["too many digits", "1234567820"],
+    ["nothing", null],
+  ])("rejects %s", (_label, value) => {
+    expect(isValidBusinessId(value)).toBe(false);
+  });
+
+  it("normalizes to 9 digits", () => {
+    expect(normalizeBusinessId("51-617915-7")).toBe("516179157");
+    expect(normalizeBusinessId("12344")).toBe("000012344");
+    expect(parseBusinessId("ח.פ 51-617915-7")).toBe("516179157");
+    expect(parseBusinessId("123456789")).toBeNull();
+  });
+
+  it("keeps only 9-digit allocation numbers", () => {
+    expect(parseAllocationNumber("123 456 789")).toBe("123456789");
+    expect(parseAllocationNumber("12345678")).toBeNull();
+  });
+});
+
+describe("allocation number thresholds", () => {
+  it.each([
+    ["the day before the reform", "2024-05-04T12:00:00.000Z", null],
+    ["the reform's first day", "2024-05-05T12:00:00.000Z", 25_000_00],
+    // 00:30 on 5 May in Israel, still 4 May in UTC
+    ["just after midnight on its first day in Israel", "2024-05-04T21:30:00.000Z", 25_000_00],
+    ["the last day at 25k", "2024-12-31T12:00:00.000Z", 25_000_00],
+    ["1 January 2025", "2024-12-31T22:30:00.000Z", 20_000_00],
+    ["the last day at 20k", "2025-12-31T21:30:00.000Z", 20_000_00],
+    ["1 January 2026", "2025-12-31T22:30:00.000Z", 10_000_00],
+    ["the last day at 10k", "2026-05-31T20:30:00.000Z", 10_000_00],
+    ["1 June 2026", "2026-05-31T21:30:00.000Z", 5_000_00],
+  ])("on %s", (_label, date, threshold) => {
+    expect(allocationThresholdOn(date)).toBe(threshold);
+  });
+
+  const invoice = (netCents: number, issuedAt: string) => ({
+    type: "INVOICE",
+    currency: "ILS",
+    amountCents: netCents + 1_800_00,
+    vatCents: 1_800_00,
+    issuedAt,
+  });
+
+  it.each([
+    ["2024-06-01T12:00:00.000Z", 25_000_00],
+    ["2025-06-01T12:00:00.000Z", 20_000_00],
+    ["2026-03-01T12:00:00.000Z", 10_000_00],
+    ["2026-07-01T12:00:00.000Z", 5_000_00],
+  ])("on %s requires a number only above %i agorot before VAT", (issuedAt, threshold) => {
+    expect(requiresAllocationNumber(invoice(threshold, issuedAt))).toBe(false);
+    expect(requiresAllocationNumber(invoice(threshold + 1, issuedAt))).toBe(true);
+  });
+
+  it("never requires one before the reform, on receipts or on foreign invoices", () => {
+    expect(requiresAllocationNumber(invoice(100_000_00, "2024-05-04T12:00:00.000Z"))).toBe(false);
+    expect(requiresAllocationNumber({ ...invoice(100_000_00, "2026-07-01T12:00:00.000Z"), type: "RECEIPT" })).toBe(false);
+    expect(requiresAllocationNumber({ ...invoice(100_000_00, "2026-07-01T12:00:00.000Z"), currency: "USD" })).toBe(false);
+  });
+});
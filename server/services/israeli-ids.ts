@@ -0,0 +1,85 @@
+import { toIsraelDate } from "./exports/shared";
+
+/**
+ * Israeli business identifiers on supplier invoices: the supplier's
+ * ח.פ / עוסק מורשה and the Tax Authority allocation number (מספר הקצאה)
+ * that "חשבוניות ישראל" requires on large tax invoices.
+ */
+
+export interface AllocationThreshold {
+  /** YYYY-MM-DD, Israel time */
+  effectiveFrom: string;
+  /** Invoices with a pre-VAT total above this need an allocation number */
+  netCents: number;
+}
+
+/** The reform's phase-in schedule; before the first date no number was required. */
+const ALLOCATION_THRESHOLDS: AllocationThreshold[] = [
+  { effectiveFrom: "2024-05-05", netCents: 25_000_00 },
+  { effectiveFrom: "2025-01-01", netCents: 20_000_00 },
+  { effectiveFrom: "2026-01-01", netCents: 10_000_00 },
+  { effectiveFrom: "2026-06-01", netCents: 5_000_00 },
+];
+
+/** Document types issued as tax invoices — receipts and payment confirmations carry no allocation number. */
+const TAX_INVOICE_TYPES = new Set(["INVOICE", "SUBSCRIPTION"]);
+
+/** Digits only, zero-padded to 9 (IDs issued before 9 digits were standard are shorter). */
+export function normalizeBusinessId(value: string | null | undefined): string | null {
+  const digits = (value ?? "").replace(/\D/g, "");
+  if (digits.length < 5 || digits.length > 9) return null;
+  return digits.padStart(9, "0");
+}
+
+/**
+ * Check-digit validation shared by ת.ז, ח.פ and עוסק מורשה numbers: digits are
+ * weighted 1,2,1,2…, two-digit products are reduced to their digit sum, and
+ * the total must divide by 10.
+ */
+export function isValidBusinessId(value: string | null | undefined): boolean {
+  const id = normalizeBusinessId(value);
+  if (!id || /^0+$/.test(id)) return false;
+  let sum = 0;
+  for (let i = 0; i < id.length; i++) {
+    const product = Number(id[i]) * ((i % 2) + 1);
+    sum += product > 9 ? product - 9 : product;
+  }
+  return sum % 10 === 0;
+}
+
+/** A valid, normalized business ID, or null — for values read off invoices. */
+export function parseBusinessId(value: string | null | undefined): string | null {
+  return isValidBusinessId(value) ? normalizeBusinessId(value) : null;
+}
+
+/** Allocation numbers are 9 digits; anything else is an extraction error. */
+export function parseAllocationNumber(value: string | null | undefined): string | null {
+  const digits = (value ?? "").replace(/\D/g, "");
+  return digits.length === 9 ? digits : null;
+}
+
+/** Pre-VAT threshold in force on a date, or null before the reform. */
+export function allocationThresholdOn(date: string | Date): number | null {
+  const day = toIsraelDate(new Date(date).toISOString());
+  let threshold: number | null = null;
+  for (const entry of ALLOCATION_THRESHOLDS) {
+    if (entry.effectiveFrom <= day) threshold = entry.netCents;
+  }
+  return threshold;
+}
+
+/**
+ * Whether input VAT on this document can only be deducted with an allocation
+ * number. Only shekel tax invoices are covered; foreign suppliers don't issue them.
+ */
+export function requiresAllocationNumber(doc: {
+  type: string;
+  currency: string;
+  amountCents: number;
+  vatCents: number | null;
+  issuedAt: string | Date;
+}): boolean {
+  if (doc.currency !== "ILS" || !TAX_INVOICE_TYPES.has(doc.type.toUpperCase())) return false;
+  const threshold = allocationThresholdOn(doc.issuedAt);
+  return threshold != null && doc.amountCents - (doc.vatCents ?? 0) > threshold;
+}
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { store } from "../store";
+import { syncExchangeRates } from "./exchange-rates";
+import { currentSlot, tickScheduler } from "./jobs";
+
+vi.mock("./exchange-rates", () => ({
+  syncExchangeRates: vi.fn(async () => ({ imported: 0, scanned: 0, converted: 0 })),
+}));
+
+const at = (iso: string) => vi.setSystemTime(new Date(iso));
+
+describe("currentSlot", () => {
+  it.each([
+    ["every 5 minutes", { everyMinutes: 5 }, "2026-10-19T10:07:30.000Z", "2026-10-19T10:05:00.000Z"],
+    ["daily, after today's run time", { atUtc: { hour: 14, minute: 0 } }, "2026-10-19T14:00:00.000Z", "2026-10-19T14:00:00.000Z"],
+    ["daily, before today's run time", { atUtc: { hour: 14, minute: 0 } }, "2026-10-19T13:59:59.000Z", "2026-10-18T14:00:00.000Z"],
+    ["daily, just after midnight on the 1st", { atUtc: { hour: 14, minute: 0 } }, "2026-11-01T00:05:00.000Z", "2026-10-31T14:00:00.000Z"],
+    ["monthly, after this month's run", { atUtc: { hour: 9, minute: 0 }, dayOfMonth: 1 }, "2026-10-19T08:00:00.000Z", "2026-10-01T09:00:00.000Z"],
+    ["monthly, before this month's run", { atUtc: { hour: 9, minute: 0 }, dayOfMonth: 1 }, "2026-10-01T08:59:00.000Z", "2026-09-01T09:00:00.000Z"],
+    ["monthly, across the new year", { atUtc: { hour: 9, minute: 0 }, dayOfMonth: 1 }, "2026-01-01T00:00:00.000Z", "2025-12-01T09:00:00.000Z"],
+  ])("%s", (_label, schedule, now, slot) => {
+    expect(currentSlot(schedule, new Date(now)).toISOString()).toBe(slot);
+  });
+});
+
+describe("tickScheduler", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.mocked(syncExchangeRates).mockClear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("runs each slot once however often it ticks", async () => {
+    at("2026-10-19T15:00:00.000Z");
+    const first = await tickScheduler({ jobs: ["exchange-rates"] });
+    expect(first.enqueued).toBe(1);
+    expect(first.runs.map((run) => run.status)).toEqual(["succeeded"]);
+
+    at("2026-10-19T20:00:00.000Z");
+    expect(await tickScheduler({ jobs: ["exchange-rates"] })).toEqual({ enqueued: 0, runs: [] });
+    // Still the 19th's slot until 14:00 UTC
+    at("2026-10-20T13:59:00.000Z");
+    expect(await tickScheduler({ jobs: ["exchange-rates"] })).toEqual({ enqueued: 0, runs: [] });
+
+    at("2026-10-20T14:00:00.000Z");
+    const next = await tickScheduler({ jobs: ["exchange-rates"] });
+    expect(next.enqueued).toBe(1);
+    expect(next.runs).toHaveLength(1);
+    expect(syncExchangeRates).toHaveBeenCalledTimes(2);
+  });
+
+  it("runs a slot once when two ticks race", async () => {
+    at("2026-10-21T14:30:00.000Z");
+    const ticks = await Promise.all([
+      tickScheduler({ jobs: ["exchange-rates"] }),
+      tickScheduler({ jobs: ["exchange-rates"] }),
+    ]);
+    expect(ticks.reduce((sum, tick) => sum + tick.enqueued, 0)).toBe(1);
+    expect(ticks.flatMap((tick) => tick.runs)).toHaveLength(1);
+    expect(syncExchangeRates).toHaveBeenCalledTimes(1);
+  });
+
+  it("records every failed run and gives up after the last attempt", async () => {
+    vi.mocked(syncExchangeRates).mockRejectedValue(new Error("Bank of Israel is down"));
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    at("2026-10-22T14:00:00.000Z");
+    const first = await tickScheduler({ jobs: ["exchange-rates"] });
+    expect(first.runs.map((run) => run.status)).toEqual(["retrying"]);
+
+    // Not retried before the retry delay is up
+    expect((await tickScheduler({ jobs: ["exchange-rates"] })).runs).toEqual([]);
+    at("2026-10-22T14:05:00.000Z");
+    expect((await tickScheduler({ jobs: ["exchange-rates"] })).runs.map((run) => run.status)).toEqual(["retrying"]);
+    at("2026-10-22T14:15:00.000Z");
+    expect((await tickScheduler({ jobs: ["exchange-rates"] })).runs.map((run) => run.status)).toEqual(["failed"]);
+    at("2026-10-22T16:00:00.000Z");
+    expect((await tickScheduler({ jobs: ["exchange-rates"] })).runs).toEqual([]);
+
+    const { runs } = await store.getJobRuns({ name: "exchange-rates", limit: 3 });
+    expect(runs.map((run: { attempt: number }) => run.attempt)).toEqual([3, 2, 1]);
+    for (const run of runs) {
+      expect(run).toMatchObject({ status: "failed", error: "Bank of Israel is down", result: null });
+    }
+    vi.mocked(console.error).mockRestore();
+  });
+});
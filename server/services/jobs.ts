@@ -0,0 +1,223 @@
+import * as os from "os";
+import { env } from "../config";
+import { store } from "../store";
+
+/**
+ * Background jobs. Work is queued in the jobs table and claimed with row
+ * locks, so any number of processes can run it; every run is recorded in
+ * job_runs. Recurring jobs are enqueued by the scheduler once per slot —
+ * ticked by Vercel cron in production, or by the in-process worker when the
+ * server runs on its own.
+ */
+
+const WORKER_ID = `${os.hostname()}-${process.pid}`;
+/** A job still running after this long belonged to a worker that died. */
+const LOCK_TIMEOUT_MS = 15 * 60_000;
+/** Stop claiming new jobs after this long, to stay inside Vercel's 30s limit. */
+const TICK_BUDGET_MS = 22_000;
+const RETRY_DELAY_MS = 5 * 60_000;
+
+type JobSchedule =
+  | { everyMinutes: number }
+  /** Daily at a UTC time, or monthly when dayOfMonth is set */
+  | { atUtc: { hour: number; minute: number }; dayOfMonth?: number };
+
+interface JobDefinition {
+  run: (payload: Record<string, unknown>) => Promise<object>;
+  /** Unscheduled jobs only run when enqueued on demand */
+  schedule?: JobSchedule;
+  maxAttempts: number;
+  /** Relies on queries the JSON dev store doesn't implement */
+  requiresPostgres?: boolean;
+}
+
+const JOBS = {
+  "inbox-sync": {
+    run: async () => (await import("./inbox-sync")).syncAllInboxes(),
+    schedule: { everyMinutes: 5 },
+    maxAttempts: 1,
+    requiresPostgres: true,
+  },
+  "deep-scan": {
+    run: async () => (await import("./deep-scan")).processScanJobs(),
+    schedule: { everyMinutes: 1 },
+    maxAttempts: 1,
+    requiresPostgres: true,
+  },
+  "monthly-delivery": {
+    run: async () => (await import("./monthly-delivery")).checkAndRunMonthlyDeliveries(),
+    schedule: { atUtc: { hour: 8, minute: 0 } },
+    maxAttempts: 3,
+    requiresPostgres: true,
+  },
+  "missing-receipts": {
+    run: async () => (await import("./missing-receipts")).processAllBusinesses(),
+    schedule: { atUtc: { hour: 9, minute: 0 }, dayOfMonth: 1 },
+    maxAttempts: 3,
+    requiresPostgres: true,
+  },
+  "exchange-rates": {
+    run: async () => (await import("./exchange-rates")).syncExchangeRates(),
+    schedule: { atUtc: { hour: 14, minute: 0 } },
+    maxAttempts: 3,
+  },
+  outbox: {
+    run: async () => (await import("./outbox")).processOutbox(),
+    schedule: { everyMinutes: 1 },
+    maxAttempts: 1,
+  },
+  "vat-backfill": {
+    run: async () => (await import("./vat")).backfillEstimatedVat(),
+    maxAttempts: 1,
+  },
+} satisfies Record<string, JobDefinition>;
+
+export type JobName = keyof typeof JOBS;
+
+export const JOB_NAMES = Object.keys(JOBS) as JobName[];
+
+export interface JobRunSummary {
+  jobId: string;
+  name: string;
+  status: "succeeded" | "failed" | "retrying";
+  result: object | null;
+  error: string | null;
+}
+
+function getDefinition(name: JobName): JobDefinition {
+  return JOBS[name];
+}
+
+function isAvailable(name: JobName): boolean {
+  return Boolean(env.DATABASE_URL) || !getDefinition(name).requiresPostgres;
+}
+
+/**
+ * Start of the schedule slot `now` falls in — the latest time the job was
+ * due. A slot missed while nothing was ticking still runs once, late.
+ */
+export function currentSlot(schedule: JobSchedule, now: Date): Date {
+  if ("everyMinutes" in schedule) {
+    const intervalMs = schedule.everyMinutes * 60_000;
+    return new Date(Math.floor(now.getTime() / intervalMs) * intervalMs);
+  }
+
+  const { hour, minute } = schedule.atUtc;
+  if (schedule.dayOfMonth != null) {
+    const slot = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), schedule.dayOfMonth, hour, minute));
+    if (slot > now) slot.setUTCMonth(slot.getUTCMonth() - 1);
+    return slot;
+  }
+  const slot = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate(), hour, minute));
+  if (slot > now) slot.setUTCDate(slot.getUTCDate() - 1);
+  return slot;
+}
+
+/**
+ * Enqueue the current slot of each scheduled job. Slots are deduped, so
+ * ticking often or from several places is harmless; a new slot replaces one
+ * that never got to run.
+ */
+async function enqueueScheduledJobs(names: JobName[], now: Date): Promise<number> {
+  let enqueued = 0;
+  for (const name of names) {
+    const definition = getDefinition(name);
+    if (!definition.schedule || !isAvailable(name)) continue;
+
+    const slot = currentSlot(definition.schedule, now);
+    const { created } = await store.enqueueJob({
+      name,
+      payload: {},
+      runAt: slot.toISOString(),
+      dedupeKey: `${name}:${slot.toISOString()}`,
+      maxAttempts: definition.maxAttempts,
+      supersedeQueued: true,
+    });
+    if (created) enqueued++;
+  }
+  return enqueued;
+}
+
+/** Queue a job to run as soon as a worker picks it up. */
+export async function enqueueJob(name: JobName, payload: Record<string, unknown> = {}) {
+  const { job } = await store.enqueueJob({
+    name,
+    payload,
+    runAt: new Date().toISOString(),
+    dedupeKey: null,
+    maxAttempts: getDefinition(name).maxAttempts,
+  });
+  return job;
+}
+
+async function runJob(job: { id: string; name: string; payload: Record<string, unknown>; attempts: number; maxAttempts: number }): Promise<JobRunSummary> {
+  const startedAt = new Date().toISOString();
+  try {
+    const result = await getDefinition(job.name as JobName).run(job.payload);
+    await store.finishJob(job.id, {
+      workerId: WORKER_ID,
+      startedAt,
+      result: result as Record<string, unknown>,
+      error: null,
+      retryAt: null,
+    });
+    return { jobId: job.id, name: job.name, status: "succeeded", result, error: null };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const retryAt = job.attempts < job.maxAttempts
+      ? new Date(Date.now() + RETRY_DELAY_MS * job.attempts).toISOString()
+      : null;
+    console.error(`[jobs] ${job.name} (${job.id}) failed on attempt ${job.attempts}:`, error);
+    await store.finishJob(job.id, { workerId: WORKER_ID, startedAt, result: null, error: message, retryAt });
+    return { jobId: job.id, name: job.name, status: retryAt ? "retrying" : "failed", result: null, error: message };
+  }
+}
+
+/**
+ * One scheduler pass: enqueue due slots, then run queued jobs until none are
+ * left or the time budget is spent. `jobs` limits both to some job names,
+ * so each cron route only does its own work.
+ */
+export async function tickScheduler(options: { jobs?: JobName[]; budgetMs?: number } = {}): Promise<{
+  enqueued: number;
+  runs: JobRunSummary[];
+}> {
+  const names = (options.jobs ?? JOB_NAMES).filter(isAvailable);
+  const deadline = Date.now() + (options.budgetMs ?? TICK_BUDGET_MS);
+  const enqueued = await enqueueScheduledJobs(names, new Date());
+
+  const runs: JobRunSummary[] = [];
+  while (names.length > 0 && Date.now() < deadline) {
+    const job = await store.claimNextJob(WORKER_ID, names, LOCK_TIMEOUT_MS);
+    if (!job) break;
+    runs.push(await runJob(job));
+  }
+
+  return { enqueued, runs };
+}
+
+/**
+ * In-process worker for `server/index.ts`: ticks the scheduler every
+ * JOB_WORKER_POLL_MS. Returns a function that stops it after the current tick.
+ */
+export function startJobWorker(): () => Promise<void> {
+  let stopped = false;
+  let current: Promise<unknown> = Promise.resolve();
+
+  const loop = async () => {
+    if (stopped) return;
+    current = tickScheduler().catch((error) => console.error("[jobs] Scheduler tick failed:", error));
+    await current;
+    if (!stopped) timer = setTimeout(loop, env.JOB_WORKER_POLL_MS);
+  };
+  let timer = setTimeout(loop, 0);
+
+  const available = JOB_NAMES.filter((name) => getDefinition(name).schedule && isAvailable(name));
+  console.log(`[jobs] Worker ${WORKER_ID} started (${available.join(", ")})`);
+
+  return async () => {
+    stopped = true;
+    clearTimeout(timer);
+    await current;
+  };
+}
@@ -1,5 +1,7 @@
 import { store } from "../store";
 import { env } from "../config";
+import { publishEvent } from "./events";
+import { digestIds, enqueueEmail, enqueueWhatsApp } from "./outbox";
 
 /**
  * Detect vendor patterns — looks at last 12 months of documents
@@ -73,12 +75,13 @@ export async function checkMissingReceipts(businessId: string): Promise<number>
     );
 
     if (!hasDoc) {
-      await store.createMissingReceiptAlert({
+      const { id } = await store.createMissingReceiptAlert({
         businessId,
         vendorPatternId: pattern.id,
         expectedMonth,
       });
       alertsCreated++;
+      await publishEvent(businessId, { type: "alert.created", alertId: id, vendorName: pattern.vendorName, expectedMonth });
       console.log(`[missing-receipts] Alert: ${pattern.vendorName} missing for ${expectedMonth}`);
     }
   }
@@ -97,13 +100,12 @@ export async function sendMissingReceiptAlerts(
 
   let notified = 0;
   const summary = await store.getDashboardSummary(businessId);
+  // The same batch of alerts is only ever notified once per channel
+  const alertsKey = `${businessId}:${digestIds(alerts.map((a) => a.id))}`;
 
-  // Send email notification if Resend is configured
+  // Queue an email notification if Resend is configured
   if (env.RESEND_API_KEY) {
     try {
-      const { Resend } = await import("resend");
-      const resend = new Resend(env.RESEND_API_KEY);
-
       const alertRows = alerts.map((a) => {
         const amount = a.avgAmountCents > 0
           ? `~₪${(a.avgAmountCents / 100).toLocaleString("he-IL")}`
@@ -114,11 +116,14 @@ export async function sendMissingReceiptAlerts(
       const accountant = await store.getAccountantForBusiness(businessId);
       const toEmail = accountant?.email;
       if (toEmail) {
-        await resend.emails.send({
-          from: env.RESEND_FROM_EMAIL,
-          to: toEmail,
-          subject: `${summary.business.name} – ${alerts.length} חשבוניות חסרות | SendToAmram`,
-          html: `
+        await enqueueEmail({
+          businessId,
+          kind: "missing_receipts",
+          idempotencyKey: `missing-receipts:email:${alertsKey}`,
+          email: {
+            to: toEmail,
+            subject: `${summary.business.name} – ${alerts.length} חשבוניות חסרות | SendToAmram`,
+            html: `
 <!DOCTYPE html>
 <html dir="rtl" lang="he">
 <head><meta charset="utf-8"></head>
@@ -138,20 +143,22 @@ export async function sendMissingReceiptAlerts(
   </div>
 </body>
 </html>`,
+          },
         });
         notified++;
       }
     } catch (error) {
-      console.error(`[missing-receipts] Failed to send email alerts:`, error);
+      console.error(`[missing-receipts] Failed to queue email alerts:`, error);
     }
   }
 
-  // Send WhatsApp notification if bridge is configured
-  if (env.WHATSAPP_BRIDGE_URL) {
+  // Queue a WhatsApp notification if a provider is configured
+  const { getWhatsAppSender, isWhatsAppConfigured } = await import("./whatsapp-sender");
+  if (isWhatsAppConfigured()) {
     try {
-      const { bridgeSendText, bridgeGetStatus } = await import("./whatsapp-bridge-client");
-      const session = await bridgeGetStatus(businessId);
-      if (session.status === "connected" && session.connectedJid) {
+      const sender = getWhatsAppSender();
+      const recipient = await sender.getOwnerRecipient(businessId);
+      if (recipient) {
         const lines = alerts.map((a) => {
           const amount = a.avgAmountCents > 0
             ? ` (~₪${(a.avgAmountCents / 100).toLocaleString("he-IL")})`
@@ -159,11 +166,17 @@ export async function sendMissingReceiptAlerts(
           return `• ${a.vendorName} – ${a.expectedMonth}${amount}`;
         });
         const message = `⚠️ חשבוניות חסרות עבור ${summary.business.name}:\n\n${lines.join("\n")}\n\nבדוק/י בדשבורד.`;
-        await bridgeSendText(businessId, session.connectedJid, message);
+        await enqueueWhatsApp({
+          businessId,
+          kind: "missing_receipts",
+          idempotencyKey: `missing-receipts:whatsapp:${alertsKey}`,
+          to: recipient,
+          text: message,
+        });
         notified++;
       }
     } catch (error) {
-      console.error(`[missing-receipts] Failed to send WhatsApp alerts:`, error);
+      console.error(`[missing-receipts] Failed to queue WhatsApp alerts:`, error);
     }
   }
 
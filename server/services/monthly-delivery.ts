@@ -1,6 +1,7 @@
 import { pool } from "../db";
 import { generateMonthlyReport } from "./pdf";
 import { env } from "../config";
+import { enqueueEmail } from "./outbox";
 
 interface DeliveryCandidate {
   businessId: string;
@@ -54,9 +55,10 @@ export async function checkAndRunMonthlyDeliveries(): Promise<{ delivered: numbe
 
       const docsResult = await pool.query(
         `SELECT vendor_name AS "vendor", amount_cents AS "amountCents",
-                currency, issued_at AS "issuedAt", category, status, type
+                currency, amount_ils_cents AS "amountIlsCents", issued_at AS "issuedAt", category, status, type
          FROM documents
          WHERE business_id = $1 AND issued_at >= $2 AND issued_at < $3
+           AND duplicate_status IS DISTINCT FROM 'CONFIRMED'
          ORDER BY issued_at ASC`,
         [biz.businessId, monthStart.toISOString(), nextMonth.toISOString()],
       );
@@ -75,41 +77,41 @@ export async function checkAndRunMonthlyDeliveries(): Promise<{ delivered: numbe
         docsResult.rows,
       );
 
-      // Send email with PDF attachment via Resend
+      // Queue the email with the PDF attached; the outbox retries it if Resend fails
       if (!env.RESEND_API_KEY) {
         console.warn("[monthly-delivery] No RESEND_API_KEY, skipping email");
         continue;
       }
 
-      const { Resend } = await import("resend");
-      const resend = new Resend(env.RESEND_API_KEY);
-
-      const totalAmount = docsResult.rows.reduce((s: number, d: any) => s + (d.amountCents || 0), 0);
+      const totalAmount = docsResult.rows.reduce(
+        (s: number, d: any) => s + (d.amountIlsCents ?? (d.currency === "ILS" ? d.amountCents : 0)),
+        0,
+      );
       const amountStr = `₪${(totalAmount / 100).toLocaleString("he-IL", { maximumFractionDigits: 0 })}`;
 
-      const result = await resend.emails.send({
-        from: env.RESEND_FROM_EMAIL,
-        to: biz.accountantEmail,
-        subject: `${biz.businessName} – דוח חודשי ${monthKey} | SendToAmram`,
-        html: `
+      const message = await enqueueEmail({
+        businessId: biz.businessId,
+        kind: "monthly_report",
+        idempotencyKey: `monthly-report:${biz.businessId}:${monthKey}`,
+        email: {
+          to: biz.accountantEmail,
+          subject: `${biz.businessName} – דוח חודשי ${monthKey} | SendToAmram`,
+          html: `
           <div dir="rtl" style="font-family:Arial,sans-serif;text-align:right;">
             <p>שלום ${biz.accountantName},</p>
             <p>מצורף דוח חודשי של ${biz.businessName} לחודש ${monthKey}.</p>
             <p><strong>${docsResult.rows.length}</strong> מסמכים בסך כולל של <strong>${amountStr}</strong>.</p>
             <p style="color:#999;font-size:12px;">נשלח אוטומטית מ-SendToAmram</p>
           </div>`,
-        attachments: [
-          {
-            filename: `sendtoamram-${monthKey}.pdf`,
-            content: pdfBuffer,
-          },
-        ],
+          attachments: [
+            {
+              filename: `sendtoamram-${monthKey}.pdf`,
+              content: pdfBuffer,
+            },
+          ],
+        },
       });
 
-      if (result.error) {
-        throw new Error(`Resend: ${result.error.message}`);
-      }
-
       // Record delivery
       await pool.query(
         `INSERT INTO monthly_summaries (id, business_id, month_key, total_documents, total_amount_cents, delivered_at)
@@ -124,7 +126,7 @@ export async function checkAndRunMonthlyDeliveries(): Promise<{ delivered: numbe
       );
 
       delivered++;
-      console.log(`[monthly-delivery] Delivered ${monthKey} to ${biz.accountantEmail} for ${biz.businessName}`);
+      console.log(`[monthly-delivery] Queued ${monthKey} to ${biz.accountantEmail} for ${biz.businessName} (${message.status})`);
     } catch (error) {
       console.error(`[monthly-delivery] Failed for ${biz.businessName}:`, error);
     }
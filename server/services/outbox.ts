@@ -0,0 +1,200 @@
+import { createHash } from "crypto";
+import { store } from "../store";
+import { sendEmail, type EmailMessage } from "./email";
+import { getWhatsAppSender } from "./whatsapp-sender";
+
+/**
+ * Outbound notifications go through a durable outbox: each message is stored
+ * first, sent right away when possible, and retried with backoff by the
+ * /cron/outbox worker until it's delivered or runs out of attempts.
+ * Enqueuing the same idempotency key twice never sends twice. Messages that
+ * carry a login link are wiped once they're sent or given up on.
+ */
+
+/** Wait before attempt 2, 3, … — a few quick retries, then spread out over hours. */
+const RETRY_DELAYS_MS = [60_000, 5 * 60_000, 30 * 60_000, 2 * 60 * 60_000, 6 * 60 * 60_000];
+const DEFAULT_MAX_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+/** A message still "sending" after this long belonged to a worker that died. */
+const LOCK_TIMEOUT_MS = 10 * 60_000;
+
+export type OutboxStatus = "pending" | "sending" | "retrying" | "sent" | "failed";
+
+export interface OutboxMessage {
+  id: string;
+  businessId: string | null;
+  channel: "email" | "whatsapp";
+  kind: string;
+  recipient: string;
+  status: OutboxStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  providerMessageId: string | null;
+  sentAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface EmailPayload {
+  subject: string;
+  html: string;
+  attachments?: Array<{ filename: string; contentBase64: string }>;
+  /** The body holds a usable login link; it's cleared once the message is done */
+  singleUse?: boolean;
+}
+
+interface WhatsAppPayload {
+  text: string;
+}
+
+type ClaimedMessage = OutboxMessage & { payload: EmailPayload | WhatsAppPayload };
+
+/** Stable key part for "these records", whatever order they were listed in. */
+export function digestIds(ids: string[]): string {
+  return createHash("sha256").update([...ids].sort().join(",")).digest("hex").slice(0, 32);
+}
+
+async function deliver(message: ClaimedMessage): Promise<string | null> {
+  if (message.channel === "email") {
+    const payload = message.payload as EmailPayload;
+    const result = await sendEmail(
+      {
+        to: message.recipient,
+        subject: payload.subject,
+        html: payload.html,
+        attachments: payload.attachments?.map((a) => ({
+          filename: a.filename,
+          content: Buffer.from(a.contentBase64, "base64"),
+        })),
+      },
+      `outbox-${message.id}`,
+    );
+    return result.id;
+  }
+
+  const { text } = message.payload as WhatsAppPayload;
+  const result = await getWhatsAppSender().sendText(message.businessId ?? "", message.recipient, text);
+  if (!result.ok) {
+    throw new Error("WhatsApp provider did not accept the message");
+  }
+  return result.messageId ?? null;
+}
+
+/** Drop a finished single-use message's body, so no live login link stays stored. */
+async function clearIfSingleUse(message: ClaimedMessage, result: OutboxMessage): Promise<OutboxMessage> {
+  const done = result.status === "sent" || result.status === "failed";
+  if (done && (message.payload as EmailPayload).singleUse) {
+    await store.clearOutboxPayload(message.id);
+  }
+  return result;
+}
+
+/** Send a claimed message and record the outcome, scheduling a retry if it failed. */
+async function attempt(message: ClaimedMessage): Promise<OutboxMessage> {
+  try {
+    const providerMessageId = await deliver(message);
+    console.log(`[outbox] Sent ${message.kind} ${message.id} via ${message.channel}`);
+    return await clearIfSingleUse(message, await store.markOutboxSent(message.id, providerMessageId));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const permanent = Boolean((error as { permanent?: boolean }).permanent);
+    const delay = RETRY_DELAYS_MS[message.attempts - 1];
+    const nextAttemptAt = !permanent && message.attempts < message.maxAttempts && delay != null
+      ? new Date(Date.now() + delay).toISOString()
+      : null;
+
+    if (nextAttemptAt) {
+      console.warn(`[outbox] Attempt ${message.attempts} for ${message.id} failed, retrying at ${nextAttemptAt}: ${errorMessage}`);
+    } else {
+      console.error(`[outbox] Giving up on ${message.kind} ${message.id} after ${message.attempts} attempts: ${errorMessage}`);
+    }
+    return await clearIfSingleUse(message, await store.markOutboxFailed(message.id, errorMessage, nextAttemptAt));
+  }
+}
+
+/**
+ * Store a message and make the first delivery attempt inline. Returns the
+ * message with its delivery status; a failed first attempt is left to the
+ * worker. If the key was already enqueued, the existing message is returned
+ * untouched.
+ */
+async function enqueue(entry: {
+  businessId: string | null;
+  channel: OutboxMessage["channel"];
+  kind: string;
+  recipient: string;
+  idempotencyKey: string;
+  payload: EmailPayload | WhatsAppPayload;
+}): Promise<OutboxMessage> {
+  const { message, created } = await store.createOutboxMessage({
+    ...entry,
+    maxAttempts: DEFAULT_MAX_ATTEMPTS,
+  });
+  if (!created) return message;
+
+  const claimed: ClaimedMessage | null = await store.claimOutboxMessage(message.id);
+  return claimed ? attempt(claimed) : message;
+}
+
+export async function enqueueEmail(entry: {
+  businessId: string | null;
+  kind: string;
+  idempotencyKey: string;
+  email: EmailMessage;
+  /** The email holds a login link; its body is cleared once sent or given up on */
+  singleUse?: boolean;
+}): Promise<OutboxMessage> {
+  const { to, subject, html, attachments } = entry.email;
+  return enqueue({
+    businessId: entry.businessId,
+    channel: "email",
+    kind: entry.kind,
+    recipient: to,
+    idempotencyKey: entry.idempotencyKey,
+    payload: {
+      subject,
+      html,
+      attachments: attachments?.map((a) => ({ filename: a.filename, contentBase64: a.content.toString("base64") })),
+      ...(entry.singleUse ? { singleUse: true } : {}),
+    },
+  });
+}
+
+export async function enqueueWhatsApp(entry: {
+  businessId: string;
+  kind: string;
+  idempotencyKey: string;
+  to: string;
+  text: string;
+}): Promise<OutboxMessage> {
+  return enqueue({
+    businessId: entry.businessId,
+    channel: "whatsapp",
+    kind: entry.kind,
+    recipient: entry.to,
+    idempotencyKey: entry.idempotencyKey,
+    payload: { text: entry.text },
+  });
+}
+
+/**
+ * Worker pass — called by cron job. Sends every message whose next attempt
+ * is due, plus any abandoned mid-send.
+ */
+export async function processOutbox(limit = 50): Promise<{ processed: number; sent: number; failed: number }> {
+  const due: ClaimedMessage[] = await store.claimDueOutboxMessages(limit, LOCK_TIMEOUT_MS);
+  let sent = 0;
+  let failed = 0;
+
+  for (const message of due) {
+    const result = await attempt(message);
+    if (result.status === "sent") sent++;
+    else if (result.status === "failed") failed++;
+  }
+
+  if (due.length > 0) {
+    console.log(`[outbox] Processed ${due.length} messages: ${sent} sent, ${failed} failed for good`);
+  }
+  return { processed: due.length, sent, failed };
+}
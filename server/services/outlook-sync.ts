@@ -0,0 +1,306 @@
+import { env } from "../config";
+import { store } from "../store";
+import { getValidAccessToken } from "./oauth";
+import { isAiEnabled, type VendorCategoryMapping } from "./ai";
+import { saveDocumentFile, toDocumentFileType, type StoredFile } from "./blob-storage";
+import { flagDuplicate } from "./duplicates";
+import { publishDocumentCreated } from "./events";
+import {
+  classifyEmail,
+  enrichWithAi,
+  loadVendorMappings,
+  applyVendorCategoryMapping,
+  type EmailDocumentDraft,
+} from "./email-extraction";
+import { applyExchangeRate } from "./exchange-rates";
+import { applyVendorVatTreatment } from "./vat";
+import type { SyncOptions } from "./gmail-sync";
+
+const GRAPH_API = "https://graph.microsoft.com/v1.0";
+
+const MESSAGE_FIELDS = "id,subject,from,receivedDateTime,hasAttachments,bodyPreview,body";
+const INITIAL_SYNC_DAYS = 30;
+
+interface GraphMessage {
+  id: string;
+  subject?: string | null;
+  from?: { emailAddress?: { name?: string; address?: string } } | null;
+  receivedDateTime: string;
+  hasAttachments?: boolean;
+  bodyPreview?: string;
+  body?: { contentType: "text" | "html"; content: string };
+  "@removed"?: { reason: string };
+}
+
+interface GraphPage<T> {
+  value: T[];
+  "@odata.nextLink"?: string;
+  "@odata.deltaLink"?: string;
+}
+
+interface GraphAttachment {
+  "@odata.type": string;
+  id: string;
+  name: string;
+  contentType: string;
+  size: number;
+  isInline?: boolean;
+  contentBytes?: string;
+}
+
+// ─── Graph API helpers ───
+
+export async function graphFetch<T>(accessToken: string, pathOrUrl: string): Promise<T> {
+  const url = pathOrUrl.startsWith("https://") ? pathOrUrl : `${GRAPH_API}/me${pathOrUrl}`;
+  const response = await fetch(url, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      // Plain-text bodies feed the regex/AI extraction; the page size applies to delta rounds too
+      Prefer: 'outlook.body-content-type="text", odata.maxpagesize=50',
+    },
+  });
+  if (!response.ok) {
+    const text = await response.text();
+    throw Object.assign(
+      new Error(`Graph API ${url.replace(GRAPH_API, "")} failed (${response.status}): ${text}`),
+      { status: response.status },
+    );
+  }
+  return response.json();
+}
+
+function initialDeltaPath(): string {
+  const since = new Date(Date.now() - INITIAL_SYNC_DAYS * 24 * 60 * 60 * 1000);
+  const params = new URLSearchParams({
+    $select: MESSAGE_FIELDS,
+    $filter: `receivedDateTime ge ${since.toISOString()}`,
+  });
+  return `/mailFolders/inbox/messages/delta?${params.toString()}`;
+}
+
+/**
+ * Run a delta round on the inbox folder. Starts a fresh 30-day round when there
+ * is no stored deltaLink, or when Graph has dropped the sync state (410).
+ * Returns the new/changed messages and the deltaLink to resume from next time.
+ */
+async function fetchMessagesSinceDelta(
+  accessToken: string,
+  deltaLink: string | null,
+): Promise<{ messages: GraphMessage[]; deltaLink: string | null }> {
+  const messages: GraphMessage[] = [];
+  let next: string | undefined = deltaLink ?? initialDeltaPath();
+
+  try {
+    while (next) {
+      const page = await graphFetch<GraphPage<GraphMessage>>(accessToken, next);
+      messages.push(...page.value.filter((m) => !m["@removed"]));
+      if (page["@odata.deltaLink"]) {
+        return { messages, deltaLink: page["@odata.deltaLink"] };
+      }
+      next = page["@odata.nextLink"];
+    }
+  } catch (error) {
+    const { status } = error as { status?: number };
+    if (deltaLink && (status === 410 || status === 404)) {
+      console.warn("[outlook-sync] Delta token expired, starting a fresh delta round");
+      return fetchMessagesSinceDelta(accessToken, null);
+    }
+    throw error;
+  }
+
+  return { messages, deltaLink: null };
+}
+
+async function fetchRecentMessages(accessToken: string, top: number, afterDate: Date): Promise<GraphMessage[]> {
+  const params = new URLSearchParams({
+    $select: MESSAGE_FIELDS,
+    $filter: `receivedDateTime ge ${afterDate.toISOString()}`,
+    $orderby: "receivedDateTime desc",
+    $top: String(top),
+  });
+  const page = await graphFetch<GraphPage<GraphMessage>>(accessToken, `/mailFolders/inbox/messages?${params.toString()}`);
+  return page.value;
+}
+
+async function fetchOutlookAttachments(accessToken: string, messageId: string): Promise<GraphAttachment[]> {
+  const page = await graphFetch<GraphPage<GraphAttachment>>(
+    accessToken,
+    `/messages/${encodeURIComponent(messageId)}/attachments`,
+  );
+  return page.value;
+}
+
+// ─── Message → Document extraction ───
+
+function isInvoiceAttachment(att: GraphAttachment): boolean {
+  const lower = att.name.toLowerCase();
+  return att["@odata.type"] === "#microsoft.graph.fileAttachment"
+    && !att.isInline
+    && toDocumentFileType(att.contentType) !== null
+    && (lower.endsWith(".pdf") || lower.endsWith(".png") || lower.endsWith(".jpg") || lower.endsWith(".jpeg"));
+}
+
+export function extractDocumentFromOutlookMessage(
+  message: GraphMessage,
+  attachments: GraphAttachment[],
+  inbox: { id: string; businessId: string },
+): (EmailDocumentDraft & { outlookMessageId: string }) | null {
+  const sender = message.from?.emailAddress;
+  const from = sender?.name ? `"${sender.name}" <${sender.address ?? ""}>` : sender?.address ?? "";
+
+  const draft = classifyEmail(
+    {
+      subject: message.subject ?? "",
+      from,
+      snippet: message.bodyPreview ?? "",
+      bodyText: message.body?.content ?? message.bodyPreview ?? null,
+      receivedAt: new Date(message.receivedDateTime),
+      attachmentFilenames: attachments.filter((a) => !a.isInline).map((a) => a.name),
+    },
+    inbox,
+  );
+  if (!draft) return null;
+
+  return { ...draft, outlookMessageId: message.id };
+}
+
+/**
+ * Persist the first invoice attachment to blob storage. Graph returns the
+ * content inline (base64), so it is reused as-is for AI extraction.
+ */
+async function storeFirstOutlookAttachment(
+  businessId: string,
+  attachments: GraphAttachment[],
+): Promise<{ file: StoredFile; base64Data: string; mimeType: string } | null> {
+  const att = attachments.find((a) => isInvoiceAttachment(a) && a.contentBytes);
+  if (!att?.contentBytes) return null;
+
+  const file = await saveDocumentFile(businessId, {
+    filename: att.name,
+    mimeType: att.contentType,
+    data: Buffer.from(att.contentBytes, "base64"),
+  });
+  return { file, base64Data: att.contentBytes, mimeType: file.mimeType };
+}
+
+// ─── Main sync function ───
+
+export async function syncOutlookInbox(inboxConnectionId: string, options?: SyncOptions): Promise<{ newDocuments: number }> {
+  const { quickScan = false } = options ?? {};
+  const inbox = await store.getInboxConnection(inboxConnectionId);
+  if (!inbox || !inbox.oauthConnectionId) {
+    throw new Error("No OAuth connection for this inbox");
+  }
+
+  const oauth = await store.getOAuthConnection(inbox.oauthConnectionId);
+  if (!oauth) {
+    throw new Error("OAuth connection not found");
+  }
+
+  const accessToken = await getValidAccessToken(oauth, store, env);
+
+  let messages: GraphMessage[];
+  let nextDeltaLink: string | null = null;
+
+  if (quickScan) {
+    // Quick scan: last 3 months, max 10 messages, no AI, cursor untouched
+    const threeMonthsAgo = new Date();
+    threeMonthsAgo.setMonth(threeMonthsAgo.getMonth() - 3);
+    messages = await fetchRecentMessages(accessToken, 10, threeMonthsAgo);
+  } else {
+    ({ messages, deltaLink: nextDeltaLink } = await fetchMessagesSinceDelta(accessToken, inbox.outlookDeltaLink));
+  }
+
+  console.log(`[outlook-sync] Found ${messages.length} messages to process for inbox ${inboxConnectionId}${quickScan ? " (quick scan)" : ""}`);
+
+  const vendorMappings: VendorCategoryMapping[] = quickScan ? [] : await loadVendorMappings(inbox.businessId);
+
+  let newDocuments = 0;
+  let aiProcessed = 0;
+  const AI_BATCH_LIMIT = 5; // Max AI calls per sync cycle for serverless timeout safety
+
+  for (const message of messages) {
+    if (await store.hasDocumentForOutlookMessage(inbox.businessId, message.id)) {
+      continue;
+    }
+
+    try {
+      // Attachments are only downloaded outside quick scan (free preview only)
+      const attachments = !quickScan && message.hasAttachments
+        ? await fetchOutlookAttachments(accessToken, message.id)
+        : [];
+
+      const doc = extractDocumentFromOutlookMessage(message, attachments, inbox);
+      if (!doc) continue;
+
+      let attachment: Awaited<ReturnType<typeof storeFirstOutlookAttachment>> = null;
+      if (attachments.length > 0) {
+        try {
+          attachment = await storeFirstOutlookAttachment(inbox.businessId, attachments);
+          doc.file = attachment?.file ?? null;
+        } catch (fileErr) {
+          console.error(`[outlook-sync] Failed to store attachment for ${message.id}:`, fileErr);
+        }
+      }
+
+      if (!quickScan && isAiEnabled() && aiProcessed < AI_BATCH_LIMIT) {
+        try {
+          if (await enrichWithAi(doc, attachment, vendorMappings)) {
+            aiProcessed++;
+          }
+        } catch (aiErr) {
+          console.error(`[outlook-sync] AI extraction failed for ${message.id}:`, aiErr);
+          // Continue with regex-extracted data
+        }
+      }
+
+      if (!quickScan) {
+        await applyVendorCategoryMapping(doc);
+      }
+      await applyVendorVatTreatment(doc);
+      await applyExchangeRate(doc);
+
+      const { id } = await store.createDocument(doc);
+      await flagDuplicate(id);
+      await publishDocumentCreated(doc.businessId, id);
+      newDocuments++;
+    } catch (error) {
+      console.error(`[outlook-sync] Failed to process message ${message.id}:`, error);
+    }
+  }
+
+  if (nextDeltaLink) {
+    try {
+      await store.updateInboxDeltaLink(inboxConnectionId, nextDeltaLink);
+    } catch (error) {
+      console.error("[outlook-sync] Failed to update delta cursor:", error);
+    }
+  }
+
+  console.log(`[outlook-sync] Sync complete: ${newDocuments} new documents`);
+  return { newDocuments };
+}
+
+export async function syncAllOutlookInboxes(): Promise<{ total: number }> {
+  let total = 0;
+  try {
+    const { pool } = await import("../db");
+    const result = await pool.query(
+      `SELECT id FROM inbox_connections
+       WHERE provider = 'OUTLOOK' AND status = 'CONNECTED'
+         AND auth_method = 'OAUTH' AND oauth_connection_id IS NOT NULL`,
+    );
+    for (const row of result.rows) {
+      try {
+        const { newDocuments } = await syncOutlookInbox(row.id);
+        total += newDocuments;
+      } catch (error) {
+        console.error(`[outlook-sync] Failed to sync inbox ${row.id}:`, error);
+      }
+    }
+  } catch {
+    // Fallback for JSON store
+    console.log("[outlook-sync] Periodic sync skipped (no DATABASE_URL)");
+  }
+  return { total };
+}
@@ -0,0 +1,91 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { createServer } from "../app";
+import { env } from "../config";
+import { store } from "../store";
+import { signUpOwner, type TestApp } from "../test/helpers";
+import { sendEmail } from "./email";
+import { createOwnerMagicLinkToken } from "./owner-auth";
+
+vi.mock("./email", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./email")>()),
+  sendEmail: vi.fn(async () => ({ id: "email_test" })),
+}));
+
+describe("owner magic links", () => {
+  let app: TestApp;
+
+  beforeAll(async () => {
+    app = await createServer();
+    await signUpOwner(app, "owner@example.com");
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it("logs in once and rejects a replay of the same link", async () => {
+    const token = createOwnerMagicLinkToken("owner@example.com");
+
+    const first = await app.inject({ method: "POST", url: "/api/auth/verify", payload: { token } });
+    expect(first.statusCode).toBe(200);
+    expect(first.json().token).toEqual(expect.any(String));
+
+    const replay = await app.inject({ method: "POST", url: "/api/auth/verify", payload: { token } });
+    expect(replay.statusCode).toBe(401);
+  });
+
+  it("rejects a tampered link", async () => {
+    const token = createOwnerMagicLinkToken("owner@example.com");
+    const response = await app.inject({ method: "POST", url: "/api/auth/verify", payload: { token: `${token}x` } });
+    expect(response.statusCode).toBe(401);
+  });
+});
+
+describe("owner magic link emails", () => {
+  let app: TestApp;
+
+  beforeAll(async () => {
+    env.RESEND_API_KEY = "re_test";
+    app = await createServer();
+    await signUpOwner(app, "mailed-owner@example.com");
+  });
+
+  afterAll(async () => {
+    delete env.RESEND_API_KEY;
+    await app.close();
+  });
+
+  it("sends each requested link once through the outbox", async () => {
+    for (let i = 0; i < 2; i += 1) {
+      const response = await app.inject({
+        method: "POST",
+        url: "/api/auth/send-magic-link",
+        payload: { email: "mailed-owner@example.com" },
+      });
+      expect(response.statusCode).toBe(200);
+    }
+
+    const calls = vi.mocked(sendEmail).mock.calls.filter(([message]) => message.to === "mailed-owner@example.com");
+    expect(calls).toHaveLength(2);
+    // Two links, two outbox entries: each send carries its own outbox idempotency key
+    expect(new Set(calls.map(([, key]) => key)).size).toBe(2);
+
+    const token = decodeURIComponent(calls[0][0].html.match(/token=([^"&]+)/)?.[1] ?? "");
+    const verified = await app.inject({ method: "POST", url: "/api/auth/verify", payload: { token } });
+    expect(verified.statusCode).toBe(200);
+  });
+
+  it("keeps no live link in the outbox once a message is sent or given up on", async () => {
+    vi.mocked(sendEmail).mockRejectedValueOnce(Object.assign(new Error("Invalid recipient"), { permanent: true }));
+    for (let i = 0; i < 2; i += 1) {
+      await app.inject({ method: "POST", url: "/api/auth/send-magic-link", payload: { email: "mailed-owner@example.com" } });
+    }
+
+    const links = store.data.outboxMessages
+      .filter((entry: { kind: string }) => entry.kind === "owner_magic_link");
+    expect(links.map((entry: { status: string }) => entry.status)).toEqual(expect.arrayContaining(["SENT", "FAILED"]));
+    for (const entry of links) {
+      expect(entry.payload).toEqual({});
+    }
+  });
+});
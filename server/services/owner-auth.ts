@@ -0,0 +1,229 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { FastifyRequest } from "fastify";
+import { env } from "../config";
+import { store } from "../store";
+import { enqueueEmail } from "./outbox";
+
+const TOKEN_SECRET = env.OWNER_TOKEN_SECRET ?? env.OAUTH_STATE_SECRET;
+const SESSION_EXPIRY_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const MAGIC_LINK_EXPIRY_MS = 15 * 60 * 1000; // 15 minutes
+
+interface OwnerSessionTokenPayload {
+  typ: "owner_session";
+  sid: string;
+  uid: string;
+  exp: number;
+}
+
+interface OwnerMagicLinkPayload {
+  typ: "owner_magic_link";
+  email: string;
+  exp: number;
+  nonce: string;
+}
+
+export interface OwnerSession {
+  sessionId: string;
+  userId: string;
+}
+
+declare module "fastify" {
+  interface FastifyRequest {
+    ownerSession?: OwnerSession;
+  }
+}
+
+function signPayload(payload: object): string {
+  const payloadB64 = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  const signature = createHmac("sha256", TOKEN_SECRET)
+    .update(payloadB64)
+    .digest("base64url");
+  return `${payloadB64}.${signature}`;
+}
+
+function readSignedPayload<T extends { typ: string; exp: number }>(token: string, typ: T["typ"]): T | null {
+  const parts = token.split(".");
+  if (parts.length !== 2) return null;
+
+  const [payloadB64, signature] = parts;
+  const expected = Buffer.from(
+    createHmac("sha256", TOKEN_SECRET).update(payloadB64).digest("base64url"),
+  );
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(payloadB64, "base64url").toString("utf-8")) as T;
+    if (payload.typ !== typ || Date.now() > payload.exp) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create a server-side session for a user and return its signed bearer token.
+ * The token only carries the session ID — revoking the session row logs the user out.
+ */
+export async function createOwnerSession(userId: string): Promise<string> {
+  const exp = Date.now() + SESSION_EXPIRY_MS;
+  const session = await store.createUserSession(userId, new Date(exp).toISOString());
+  const payload: OwnerSessionTokenPayload = { typ: "owner_session", sid: session.id, uid: userId, exp };
+  return signPayload(payload);
+}
+
+/**
+ * Verify an owner session token against the sessions table.
+ */
+export async function verifyOwnerSessionToken(token: string): Promise<OwnerSession | null> {
+  const payload = readSignedPayload<OwnerSessionTokenPayload>(token, "owner_session");
+  if (!payload) return null;
+
+  const session = await store.getUserSession(payload.sid);
+  if (!session || session.userId !== payload.uid || session.revokedAt) return null;
+  if (new Date(session.expiresAt).getTime() < Date.now()) return null;
+
+  return { sessionId: session.id, userId: session.userId };
+}
+
+export async function revokeOwnerSession(sessionId: string): Promise<void> {
+  await store.revokeUserSession(sessionId);
+}
+
+/**
+ * Create a magic link token — short-lived (15 min) for the owner login email.
+ */
+export function createOwnerMagicLinkToken(email: string, nonce = randomBytes(16).toString("hex")): string {
+  const payload: OwnerMagicLinkPayload = {
+    typ: "owner_magic_link",
+    email: email.toLowerCase(),
+    exp: Date.now() + MAGIC_LINK_EXPIRY_MS,
+    nonce,
+  };
+  return signPayload(payload);
+}
+
+/**
+ * Verify an owner magic link token and use it up, returning the email. A
+ * link works once: its nonce is recorded, and a second use returns null.
+ */
+export async function consumeOwnerMagicLinkToken(token: string): Promise<{ email: string } | null> {
+  const payload = readSignedPayload<OwnerMagicLinkPayload>(token, "owner_magic_link");
+  if (!payload) return null;
+
+  const firstUse = await store.consumeUserMagicLink({
+    nonce: payload.nonce,
+    email: payload.email,
+    expiresAt: new Date(payload.exp).toISOString(),
+  });
+  return firstUse ? { email: payload.email } : null;
+}
+
+// ─── Request guards ───
+
+/**
+ * Resolve the owner session from the Authorization header, or throw 401.
+ */
+export async function getOwnerSession(request: FastifyRequest): Promise<OwnerSession> {
+  const session = await getOptionalOwnerSession(request);
+  if (!session) {
+    throw Object.assign(new Error("Unauthorized"), { statusCode: 401 });
+  }
+  return session;
+}
+
+export async function getOptionalOwnerSession(request: FastifyRequest): Promise<OwnerSession | null> {
+  const auth = request.headers.authorization;
+  if (!auth?.startsWith("Bearer ")) return null;
+  return verifyOwnerSessionToken(auth.slice(7));
+}
+
+/**
+ * Fastify preHandler for business-scoped owner routes. Reads the business ID
+ * from the route params (or body/query for routes that take it there) and
+ * requires the caller to be a member of that business.
+ */
+export async function requireBusinessMember(request: FastifyRequest): Promise<void> {
+  const session = await getOwnerSession(request);
+  const { businessId } = {
+    ...(request.query as Record<string, unknown>),
+    ...(request.body as Record<string, unknown>),
+    ...(request.params as Record<string, unknown>),
+  };
+
+  if (typeof businessId !== "string" || !businessId) {
+    throw Object.assign(new Error("Missing businessId"), { statusCode: 400 });
+  }
+
+  const isMember = await store.isBusinessMember(session.userId, businessId);
+  if (!isMember) {
+    throw Object.assign(new Error("Access denied to this business"), { statusCode: 403 });
+  }
+  request.ownerSession = session;
+}
+
+// ─── Magic link email ───
+
+/**
+ * Queue the owner login magic link email. Each link has its own nonce, so
+ * the outbox sends every requested link once and retries it if Resend fails.
+ * The body is cleared from the outbox once the email is sent or given up on.
+ */
+export async function sendOwnerMagicLinkEmail(email: string): Promise<{ sent: boolean }> {
+  const user = await store.getUserByEmail(email);
+  if (!user) {
+    // Don't reveal whether the email exists — silently succeed
+    console.log(`[owner-auth] Magic link requested for unknown email: ${email}`);
+    return { sent: true };
+  }
+
+  const nonce = randomBytes(16).toString("hex");
+  const token = createOwnerMagicLinkToken(user.email, nonce);
+  const magicLink = `${env.FRONTEND_BASE_URL}/login/verify?token=${encodeURIComponent(token)}`;
+
+  if (!env.RESEND_API_KEY) {
+    console.log(`[owner-auth] Magic link for ${user.email}: ${magicLink}`);
+    return { sent: true };
+  }
+
+  await enqueueEmail({
+    businessId: null,
+    kind: "owner_magic_link",
+    idempotencyKey: `owner-magic-link:${nonce}`,
+    singleUse: true,
+    email: {
+      to: user.email,
+      subject: "כניסה לחשבון – SendToAmram",
+      html: `
+<!DOCTYPE html>
+<html dir="rtl" lang="he">
+<head><meta charset="utf-8"></head>
+<body style="font-family:Arial,sans-serif;direction:rtl;text-align:right;background:#f5f5f5;margin:0;padding:20px;">
+  <div style="max-width:500px;margin:0 auto;background:#fff;border-radius:12px;overflow:hidden;box-shadow:0 2px 8px rgba(0,0,0,0.08);">
+    <div style="background:linear-gradient(135deg,#ff6b6b,#ee5a24);padding:24px 32px;">
+      <h1 style="color:#fff;margin:0;font-size:22px;">SendToAmram</h1>
+    </div>
+    <div style="padding:24px 32px;">
+      <p style="font-size:16px;color:#333;">שלום${user.fullName ? ` ${user.fullName}` : ""},</p>
+      <p style="font-size:15px;color:#555;">
+        לחצ/י על הכפתור למטה כדי להיכנס לחשבון שלך:
+      </p>
+      <div style="text-align:center;margin:24px 0;">
+        <a href="${magicLink}"
+           style="display:inline-block;padding:12px 32px;background:#ee5a24;color:#fff;
+                  text-decoration:none;border-radius:8px;font-weight:bold;font-size:16px;">
+          כניסה לחשבון
+        </a>
+      </div>
+      <p style="font-size:13px;color:#999;">
+        הקישור תקף ל-15 דקות. אם לא ביקשת כניסה, ניתן להתעלם מהמייל הזה.
+      </p>
+    </div>
+  </div>
+</body>
+</html>`,
+    },
+  });
+
+  return { sent: true };
+}
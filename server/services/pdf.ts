@@ -2,12 +2,15 @@ import PDFDocument from "pdfkit";
 import path from "path";
 import { fileURLToPath } from "url";
 import { existsSync } from "fs";
+import type { VatIssue, VatReport } from "./vat-report";
 
 interface DocumentRow {
   vendor?: string;
   vendorName?: string;
   amountCents: number;
   currency?: string;
+  /** Converted total; missing on rows that predate conversion */
+  amountIlsCents?: number | null;
   issuedAt: string;
   category?: string;
   status?: string;
@@ -19,6 +22,11 @@ function formatAmount(cents: number): string {
   return `${(cents / 100).toLocaleString("he-IL", { maximumFractionDigits: 0 })}`;
 }
 
+/** Shekel total of a row; null for a foreign-currency row with no rate yet. */
+function ilsCents(row: DocumentRow): number | null {
+  return row.amountIlsCents ?? ((row.currency ?? "ILS") === "ILS" ? row.amountCents : null);
+}
+
 function formatDate(dateIso: string): string {
   try {
     const d = new Date(dateIso);
@@ -40,8 +48,8 @@ const STATUS_LABELS: Record<string, string> = {
 function getFontPath(): string | null {
   // Try multiple paths for different environments (dev vs bundled)
   const candidates = [
-    // Dev: server/services/pdf.ts → server/assets/
-    path.join(__dirname, "..", "assets", "NotoSansHebrew-Regular.ttf"),
+    // Dev: server/services/pdf.ts → server/assets/ (__dirname only exists in CJS builds)
+    ...(typeof __dirname !== "undefined" ? [path.join(__dirname, "..", "assets", "NotoSansHebrew-Regular.ttf")] : []),
     // Bundled ESM: alongside the bundle
     path.join(path.dirname(fileURLToPath(import.meta.url)), "assets", "NotoSansHebrew-Regular.ttf"),
     // Process cwd fallback
@@ -62,6 +70,20 @@ function reverseHebrew(text: string): string {
   return text.split("").reverse().join("");
 }
 
+// Try to register Hebrew font, fall back to Helvetica
+function registerHebrewFont(doc: InstanceType<typeof PDFDocument>): string {
+  const fontPath = getFontPath();
+  if (fontPath) {
+    try {
+      doc.registerFont("Hebrew", fontPath);
+      return "Hebrew";
+    } catch {
+      // Font not available, use default
+    }
+  }
+  return "Helvetica";
+}
+
 export async function generateMonthlyReport(
   businessId: string,
   monthKey: string,
@@ -86,17 +108,7 @@ export async function generateMonthlyReport(
       doc.on("end", () => resolve(Buffer.concat(chunks)));
       doc.on("error", reject);
 
-      // Try to register Hebrew font, fall back to Helvetica
-      let fontName = "Helvetica";
-      const fontPath = getFontPath();
-      if (fontPath) {
-        try {
-          doc.registerFont("Hebrew", fontPath);
-          fontName = "Hebrew";
-        } catch {
-          // Font not available, use default
-        }
-      }
+      const fontName = registerHebrewFont(doc);
 
       const pageWidth = doc.page.width - 80; // margins
 
@@ -112,7 +124,7 @@ export async function generateMonthlyReport(
       doc.y = 120;
 
       // Summary section
-      const totalAmount = documents.reduce((sum, d) => sum + d.amountCents, 0);
+      const totalAmount = documents.reduce((sum, d) => sum + (ilsCents(d) ?? 0), 0);
       const pendingCount = documents.filter((d) => (d.status ?? "").toLowerCase() === "pending").length;
       const sentCount = documents.filter((d) => (d.status ?? "").toLowerCase() === "sent").length;
 
@@ -131,12 +143,12 @@ export async function generateMonthlyReport(
 
       // Table header
       const tableTop = doc.y;
-      const colWidths = [40, 150, 80, 80, 90, 70];
+      const colWidths = [30, 130, 70, 75, 70, 85, 55];
       const colStarts = [40];
       for (let i = 1; i < colWidths.length; i++) {
         colStarts.push(colStarts[i - 1] + colWidths[i - 1]);
       }
-      const headers = ["#", "Vendor", "Amount (ILS)", "Date", "Category", "Status"];
+      const headers = ["#", "Vendor", "Amount (ILS)", "Original", "Date", "Category", "Status"];
 
       // Header row background
       doc.rect(40, tableTop - 4, pageWidth, 20).fill("#f0f0f0");
@@ -172,10 +184,12 @@ export async function generateMonthlyReport(
         doc.fillColor("#333333").fontSize(8).font(fontName);
         doc.text(String(index + 1), colStarts[0] + 4, rowY, { width: colWidths[0] - 8 });
         doc.text(vendor.substring(0, 30), colStarts[1] + 4, rowY, { width: colWidths[1] - 8 });
-        doc.text(formatAmount(row.amountCents), colStarts[2] + 4, rowY, { width: colWidths[2] - 8 });
-        doc.text(formatDate(row.issuedAt), colStarts[3] + 4, rowY, { width: colWidths[3] - 8 });
-        doc.text(category.substring(0, 15), colStarts[4] + 4, rowY, { width: colWidths[4] - 8 });
-        doc.text(status, colStarts[5] + 4, rowY, { width: colWidths[5] - 8 });
+        const currency = row.currency ?? "ILS";
+        doc.text(formatAmount(ilsCents(row) ?? 0), colStarts[2] + 4, rowY, { width: colWidths[2] - 8 });
+        doc.text(currency === "ILS" ? "" : `${currency} ${formatAmount(row.amountCents)}`, colStarts[3] + 4, rowY, { width: colWidths[3] - 8 });
+        doc.text(formatDate(row.issuedAt), colStarts[4] + 4, rowY, { width: colWidths[4] - 8 });
+        doc.text(category.substring(0, 15), colStarts[5] + 4, rowY, { width: colWidths[5] - 8 });
+        doc.text(status, colStarts[6] + 4, rowY, { width: colWidths[6] - 8 });
 
         doc.y = rowY + 18;
       });
@@ -196,3 +210,148 @@ export async function generateMonthlyReport(
     }
   });
 }
+
+const VAT_ISSUE_LABELS: Record<VatIssue, string> = {
+  missing_vat: "No VAT",
+  estimated_vat: "Estimated VAT",
+  missing_supplier_id: "No supplier ID",
+  missing_allocation_number: "No allocation no.",
+  foreign_currency: "Foreign currency",
+};
+
+export async function generateVatReport(report: VatReport): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    try {
+      const doc = new PDFDocument({
+        size: "A4",
+        margin: 40,
+        layout: "portrait",
+        info: {
+          Title: `SendToAmram VAT Report - ${report.period.label}`,
+          Author: "SendToAmram",
+        },
+      });
+
+      const chunks: Buffer[] = [];
+      doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+      doc.on("end", () => resolve(Buffer.concat(chunks)));
+      doc.on("error", reject);
+
+      const fontName = registerHebrewFont(doc);
+      const pageWidth = doc.page.width - 80;
+
+      doc.rect(0, 0, doc.page.width, 100).fill("#ee5a24");
+      doc.fontSize(24).font(fontName).fillColor("#ffffff");
+      doc.text("VAT Report", 40, 30, { align: "center" });
+      doc.fontSize(12).fillColor("#ffffff");
+      doc.text(`${report.period.label} | ${report.business.name}`, 40, 62, { align: "center" });
+
+      doc.fillColor("#333333");
+      doc.y = 120;
+
+      const { expenses, fixedAssets, inputVatCents } = report.totals;
+      doc.fontSize(14).font(fontName).fillColor("#333333");
+      doc.text("Summary", 40, doc.y, { align: "left" });
+      doc.moveDown(0.5);
+
+      doc.fontSize(10).fillColor("#555555");
+      doc.text(`Business: ${report.business.name}`, 40);
+      doc.text(`VAT file: ${report.business.taxId ?? "-"}`);
+      doc.text(`Period: ${report.period.from} - ${report.period.to}`);
+      doc.text(`Expenses: ${expenses.count} documents | Net ILS ${formatAmount(expenses.netCents)} | VAT ILS ${formatAmount(expenses.vatCents)}`);
+      doc.text(`Fixed assets: ${fixedAssets.count} documents | Net ILS ${formatAmount(fixedAssets.netCents)} | VAT ILS ${formatAmount(fixedAssets.vatCents)}`);
+      doc.text(`Total input VAT: ILS ${formatAmount(inputVatCents)}`);
+      doc.text(`Documents needing attention: ${report.flaggedCount}`);
+      doc.moveDown(1);
+
+      const tableTop = doc.y;
+      const colWidths = [30, 130, 65, 70, 60, 75, 85];
+      const colStarts = [40];
+      for (let i = 1; i < colWidths.length; i++) {
+        colStarts.push(colStarts[i - 1] + colWidths[i - 1]);
+      }
+      const headers = ["#", "Vendor", "Date", "Net (ILS)", "VAT", "Supplier ID", "Issues"];
+
+      doc.rect(40, tableTop - 4, pageWidth, 20).fill("#f0f0f0");
+      doc.fillColor("#333333").fontSize(9).font(fontName);
+      headers.forEach((header, i) => {
+        doc.text(header, colStarts[i] + 4, tableTop, { width: colWidths[i] - 8, align: "left" });
+      });
+      doc.y = tableTop + 20;
+
+      report.documents.forEach((row, index) => {
+        if (doc.y > doc.page.height - 80) {
+          doc.addPage();
+          doc.y = 40;
+        }
+
+        const rowY = doc.y;
+        if (row.issues.length > 0) {
+          doc.rect(40, rowY - 2, pageWidth, 18).fill("#fff4e5");
+        } else if (index % 2 === 0) {
+          doc.rect(40, rowY - 2, pageWidth, 18).fill("#fafafa");
+        }
+
+        const vendor = row.isFixedAsset ? `${row.vendor} (asset)` : row.vendor;
+        const cells = [
+          String(index + 1),
+          vendor.substring(0, 28),
+          formatDate(row.issuedAt),
+          row.currency === "ILS" ? formatAmount(row.netCents) : `${row.currency} ${formatAmount(row.netCents)}`,
+          formatAmount(row.vatCents),
+          row.supplierTaxId ?? "-",
+          row.issues.map((issue) => VAT_ISSUE_LABELS[issue]).join(", ") || "-",
+        ];
+        doc.fillColor("#333333").fontSize(8).font(fontName);
+        cells.forEach((cell, i) => {
+          doc.text(cell, colStarts[i] + 4, rowY, { width: colWidths[i] - 8 });
+        });
+
+        doc.y = rowY + 18;
+      });
+
+      doc.y = doc.page.height - 50;
+      doc.fontSize(8).fillColor("#999999").font(fontName);
+      doc.text(
+        `Generated by SendToAmram on ${new Date().toISOString().slice(0, 10)}`,
+        40,
+        doc.y,
+        { align: "center" },
+      );
+
+      doc.end();
+    } catch (err) {
+      reject(err);
+    }
+  });
+}
+
+/**
+ * Combine photographed pages into one PDF, a page per image scaled to fit A4.
+ * PDFKit only embeds JPEG and PNG.
+ */
+export async function combineImagesToPdf(images: Array<{ data: Buffer; mimeType: string }>): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    try {
+      const doc = new PDFDocument({ size: "A4", margin: 20, autoFirstPage: false });
+
+      const chunks: Buffer[] = [];
+      doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+      doc.on("end", () => resolve(Buffer.concat(chunks)));
+      doc.on("error", reject);
+
+      for (const image of images) {
+        doc.addPage();
+        doc.image(image.data, 20, 20, {
+          fit: [doc.page.width - 40, doc.page.height - 40],
+          align: "center",
+          valign: "center",
+        });
+      }
+
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
@@ -0,0 +1,162 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createServer } from "../app";
+import { store } from "../store";
+import { logInAccountant, signUpOwner, type TestApp } from "../test/helpers";
+import { convertPendingDocuments } from "./exchange-rates";
+
+const MONTH = "2025-03";
+
+describe("Closed months", () => {
+  let app: TestApp;
+  let owner: Awaited<ReturnType<typeof signUpOwner>>;
+  let originalId: string;
+  let copyId: string;
+
+  const vatTotals = async () => {
+    const report = await app.inject({
+      method: "GET",
+      url: `/api/dashboard/${owner.businessId}/vat-report?period=${MONTH}`,
+      headers: { authorization: `Bearer ${owner.token}` },
+    });
+    expect(report.statusCode).toBe(200);
+    return report.json().totals;
+  };
+
+  beforeAll(async () => {
+    app = await createServer();
+    owner = await signUpOwner(app, "closed-owner@example.com", { accountantEmail: "closer@cpa.example" });
+
+    const document = {
+      businessId: owner.businessId,
+      source: "WHATSAPP",
+      type: "INVOICE",
+      status: "PENDING",
+      vendorName: "Cloud Vendor",
+      amountCents: 11_700,
+      currency: "ILS",
+      vatCents: 1_700,
+      vatEstimated: true,
+      issuedAt: `${MONTH}-10T09:00:00.000Z`,
+      confidence: 0.9,
+    };
+    originalId = (await store.createDocument(document)).id;
+    copyId = (await store.createDocument(document)).id;
+    await store.markDuplicate(copyId, { duplicateOfId: originalId, status: "SUSPECTED", reason: "Same amount and vendor" });
+
+    const accountantToken = await logInAccountant(app, "closer@cpa.example");
+    const closed = await app.inject({
+      method: "POST",
+      url: `/api/accountant/clients/${owner.businessId}/periods/${MONTH}/close`,
+      headers: { authorization: `Bearer ${accountantToken}` },
+    });
+    expect(closed.statusCode).toBe(200);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it("keeps a closed month's VAT when the vendor's treatment changes", async () => {
+    const before = await vatTotals();
+
+    const updated = await app.inject({
+      method: "PUT",
+      url: `/api/settings/${owner.businessId}/vat-treatments`,
+      headers: { authorization: `Bearer ${owner.token}` },
+      payload: { vendorName: "Cloud Vendor", treatment: "exempt" },
+    });
+    expect(updated.statusCode).toBe(200);
+    expect(updated.json().updatedDocuments).toBe(0);
+
+    expect(await vatTotals()).toEqual(before);
+  });
+
+  it("refuses to resolve a duplicate in a closed month", async () => {
+    const resolved = await app.inject({
+      method: "POST",
+      url: `/api/dashboard/${owner.businessId}/documents/${copyId}/duplicate`,
+      headers: { authorization: `Bearer ${owner.token}` },
+      payload: { action: "confirm" },
+    });
+    expect(resolved.statusCode).toBe(409);
+  });
+});
+
+describe("Closed month boundaries", () => {
+  let app: TestApp;
+  let owner: Awaited<ReturnType<typeof signUpOwner>>;
+  let copyId: string;
+
+  // 01:30 on 1 April in Israel, still 31 March in UTC
+  const EARLY_APRIL = "2025-03-31T22:30:00.000Z";
+  // 23:00 on 31 March in Israel
+  const LATE_MARCH = "2025-03-31T20:00:00.000Z";
+
+  const createDocument = async (overrides: { issuedAt: string; currency?: string; vatCents?: number }) => {
+    const { id } = await store.createDocument({
+      businessId: owner.businessId,
+      source: "WHATSAPP",
+      type: "INVOICE",
+      status: "PENDING",
+      vendorName: "Boundary Vendor",
+      amountCents: 11_700,
+      currency: "ILS",
+      vatCents: 1_700,
+      vatEstimated: true,
+      confidence: 0.9,
+      ...overrides,
+    });
+    return id as string;
+  };
+
+  beforeAll(async () => {
+    app = await createServer();
+    owner = await signUpOwner(app, "boundary-owner@example.com", { accountantEmail: "boundary@cpa.example" });
+
+    const originalId = await createDocument({ issuedAt: EARLY_APRIL });
+    copyId = await createDocument({ issuedAt: EARLY_APRIL });
+    await store.markDuplicate(copyId, { duplicateOfId: originalId, status: "SUSPECTED", reason: "Same amount and vendor" });
+    await createDocument({ issuedAt: EARLY_APRIL, currency: "USD", vatCents: 0 });
+    await createDocument({ issuedAt: LATE_MARCH });
+
+    const accountantToken = await logInAccountant(app, "boundary@cpa.example");
+    const closed = await app.inject({
+      method: "POST",
+      url: `/api/accountant/clients/${owner.businessId}/periods/2025-04/close`,
+      headers: { authorization: `Bearer ${accountantToken}` },
+    });
+    expect(closed.statusCode).toBe(200);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it("locks a document issued early on the 1st in Israel with its Israeli month", async () => {
+    const resolved = await app.inject({
+      method: "POST",
+      url: `/api/dashboard/${owner.businessId}/documents/${copyId}/duplicate`,
+      headers: { authorization: `Bearer ${owner.token}` },
+      payload: { action: "confirm" },
+    });
+    expect(resolved.statusCode).toBe(409);
+  });
+
+  it("re-estimates VAT only outside the closed Israeli month", async () => {
+    const updated = await app.inject({
+      method: "PUT",
+      url: `/api/settings/${owner.businessId}/vat-treatments`,
+      headers: { authorization: `Bearer ${owner.token}` },
+      payload: { vendorName: "Boundary Vendor", treatment: "exempt" },
+    });
+    expect(updated.statusCode).toBe(200);
+    // Only the late-March document, whose month is still open
+    expect(updated.json().updatedDocuments).toBe(1);
+  });
+
+  it("leaves the closed month's foreign documents unconverted", async () => {
+    await store.upsertExchangeRates([{ currency: "USD", rateDate: "2025-03-31", rate: 3.7, source: "test" }]);
+    const result = await convertPendingDocuments();
+    expect(result).toEqual({ scanned: 0, converted: 0 });
+  });
+});
@@ -0,0 +1,92 @@
+import { store } from "../store";
+import { assertClientAccess } from "./accountant-firms";
+import { publishEvent } from "./events";
+import { toIsraelDate } from "./exports/shared";
+
+/**
+ * Month closing: once the accountant has booked a client's month they close
+ * it, and the documents it held become read-only — the stores refuse to edit,
+ * delete or mark them sent. Documents for the month that arrive later aren't
+ * locked; they're flagged late for the accountant to pick up. Reopening
+ * takes an explicit action with a reason, kept with the month's history.
+ *
+ * A document's month is the Israeli calendar month (YYYY-MM) of its issue
+ * date, the same month the exports and VAT report put it in.
+ */
+
+export interface PeriodClose {
+  id: string;
+  businessId: string;
+  monthKey: string;
+  closedAt: string;
+  closedByEmail: string;
+  reopenedAt: string | null;
+  reopenedByEmail: string | null;
+  reopenReason: string | null;
+}
+
+export interface ClosedMonth {
+  monthKey: string;
+  closedAt: string;
+  closedByEmail: string;
+  /** Documents for the month that arrived after it was closed */
+  lateCount: number;
+}
+
+function currentMonthKey(): string {
+  return toIsraelDate(new Date().toISOString()).slice(0, 7);
+}
+
+/** Closed months with their late documents, plus every close and reopen so far. */
+export async function getPeriodStatus(businessId: string) {
+  const [closes, lateCounts] = await Promise.all([
+    store.listPeriodCloses(businessId) as Promise<PeriodClose[]>,
+    store.getLateDocumentCounts(businessId) as Promise<Array<{ monthKey: string; count: number }>>,
+  ]);
+  const late = new Map(lateCounts.map((entry) => [entry.monthKey, entry.count]));
+
+  const closedMonths: ClosedMonth[] = closes
+    .filter((close) => !close.reopenedAt)
+    .map((close) => ({
+      monthKey: close.monthKey,
+      closedAt: close.closedAt,
+      closedByEmail: close.closedByEmail,
+      lateCount: late.get(close.monthKey) ?? 0,
+    }))
+    .sort((a, b) => b.monthKey.localeCompare(a.monthKey));
+
+  return { closedMonths, history: closes };
+}
+
+/** Close a client's month. Only finished or current months can be closed. */
+export async function closeMonth(email: string, businessId: string, monthKey: string): Promise<PeriodClose> {
+  await assertClientAccess(email, businessId, { write: true });
+  if (monthKey > currentMonthKey()) {
+    throw Object.assign(new Error("Can't close a month that hasn't started"), { statusCode: 400 });
+  }
+
+  const close: PeriodClose = await store.closePeriod({ businessId, monthKey, closedByEmail: email.toLowerCase() });
+  console.log(`[period-close] ${email} closed ${monthKey} for business ${businessId}`);
+  await publishEvent(businessId, { type: "period.closed", monthKey });
+  return close;
+}
+
+/** Reopen a closed month; the reason is kept with the month's history. */
+export async function reopenMonth(
+  email: string,
+  businessId: string,
+  monthKey: string,
+  reason: string,
+): Promise<PeriodClose> {
+  await assertClientAccess(email, businessId, { write: true });
+
+  const close: PeriodClose = await store.reopenPeriod({
+    businessId,
+    monthKey,
+    reopenedByEmail: email.toLowerCase(),
+    reason: reason.trim(),
+  });
+  console.log(`[period-close] ${email} reopened ${monthKey} for business ${businessId}: ${reason}`);
+  await publishEvent(businessId, { type: "period.reopened", monthKey, reason: close.reopenReason ?? reason });
+  return close;
+}
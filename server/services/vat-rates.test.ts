@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { estimateVatCents, parseVatRates, vatRateOn } from "./vat-rates";
+
+describe("parseVatRates", () => {
+  it("reads date=percent entries, oldest first", () => {
+    expect(parseVatRates("2025-01-01=18, 2015-10-01=17")).toEqual([
+      { effectiveFrom: "2015-10-01", rate: 0.17 },
+      { effectiveFrom: "2025-01-01", rate: 0.18 },
+    ]);
+    expect(parseVatRates("2030-06-01=18.5")).toEqual([{ effectiveFrom: "2030-06-01", rate: 0.185 }]);
+  });
+
+  it.each([
+    ["a missing percent", "2025-01-01", /expected YYYY-MM-DD=percent/],
+    ["a word for a percent", "2025-01-01=high", /expected YYYY-MM-DD=percent/],
+    ["an empty entry", "2015-10-01=17,", /expected YYYY-MM-DD=percent/],
+    ["month 13", "2025-13-01=18", /not a calendar date/],
+    ["30 February", "2025-02-30=18", /not a calendar date/],
+    ["a percent of 100 or more", "2025-01-01=180", /below 100/],
+    ["a date listed twice", "2025-01-01=17,2025-01-01=18", /listed twice/],
+  ])("rejects %s", (_label, spec, message) => {
+    expect(() => parseVatRates(spec)).toThrow(message);
+  });
+});
+
+describe("vatRateOn", () => {
+  it.each([
+    ["2014-06-01T10:00:00.000Z", 0.17],
+    ["2024-12-31T12:00:00.000Z", 0.17],
+    ["2025-01-01T12:00:00.000Z", 0.18],
+    // 00:30 on 1 January in Israel, still 31 December in UTC
+    ["2024-12-31T22:30:00.000Z", 0.18],
+    // 23:30 on 31 December in Israel
+    ["2024-12-31T21:30:00.000Z", 0.17],
+  ])("picks the rate in force on %s", (issuedAt, rate) => {
+    expect(vatRateOn(issuedAt)).toBe(rate);
+  });
+
+  it("backs the VAT out of a VAT-inclusive total", () => {
+    expect(estimateVatCents(11_800, "2025-03-01T12:00:00.000Z")).toBe(1_800);
+    expect(estimateVatCents(11_700, "2024-03-01T12:00:00.000Z")).toBe(1_700);
+    expect(estimateVatCents(11_800, "2025-03-01T12:00:00.000Z", "exempt")).toBe(0);
+    expect(estimateVatCents(0, "2025-03-01T12:00:00.000Z")).toBeNull();
+  });
+});
+
+describe("a VAT_RATES override", () => {
+  afterEach(() => {
+    delete process.env.VAT_RATES;
+    vi.resetModules();
+  });
+
+  it("replaces the built-in table", async () => {
+    process.env.VAT_RATES = "2015-10-01=17,2025-01-01=18,2027-01-01=19";
+    vi.resetModules();
+    const { vatRateOn: overriddenRateOn } = await import("./vat-rates");
+    expect(overriddenRateOn("2027-02-01T12:00:00.000Z")).toBe(0.19);
+  });
+
+  it("stops the server from starting when an entry is malformed", async () => {
+    process.env.VAT_RATES = "2015-10-01=17,2025-02-30=18";
+    vi.resetModules();
+    const { createServer } = await import("../app");
+    await expect(createServer()).rejects.toThrow('Invalid VAT_RATES entry "2025-02-30=18"');
+  });
+});
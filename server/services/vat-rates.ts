@@ -0,0 +1,80 @@
+import { env } from "../config";
+import { toIsraelDate } from "./exports/shared";
+
+export type VatTreatment = "standard" | "exempt" | "foreign";
+
+export interface VatRate {
+  /** YYYY-MM-DD, Israel time */
+  effectiveFrom: string;
+  rate: number;
+}
+
+/** Israeli VAT history since the last time it was 17%. */
+const DEFAULT_VAT_RATES: VatRate[] = [
+  { effectiveFrom: "2015-10-01", rate: 0.17 },
+  { effectiveFrom: "2025-01-01", rate: 0.18 },
+];
+
+let cachedRates: VatRate[] | null = null;
+
+function invalidVatRate(entry: string, reason: string): Error {
+  return new Error(`Invalid VAT_RATES entry "${entry}": ${reason}`);
+}
+
+/**
+ * Parse a VAT table override ("2015-10-01=17,2025-01-01=18"), oldest first.
+ * Throws on an entry that isn't a real date and a percent below 100, or on
+ * a date listed twice, rather than let it skew every VAT estimate.
+ */
+export function parseVatRates(spec: string): VatRate[] {
+  const rates = spec.split(",").map((raw) => {
+    const entry = raw.trim();
+    const match = /^(\d{4}-\d{2}-\d{2})=(\d+(?:\.\d+)?)$/.exec(entry);
+    if (!match) throw invalidVatRate(entry, "expected YYYY-MM-DD=percent");
+    const [, effectiveFrom, percent] = match;
+    const date = new Date(`${effectiveFrom}T00:00:00Z`);
+    if (Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== effectiveFrom) {
+      throw invalidVatRate(entry, `${effectiveFrom} is not a calendar date`);
+    }
+    const rate = Number(percent) / 100;
+    if (rate >= 1) throw invalidVatRate(entry, "the percent must be below 100");
+    return { effectiveFrom, rate };
+  });
+  rates.sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+  const repeated = rates.find((entry, i) => i > 0 && rates[i - 1].effectiveFrom === entry.effectiveFrom);
+  if (repeated) throw invalidVatRate(repeated.effectiveFrom, "the date is listed twice");
+  return rates;
+}
+
+export function getVatRates(): VatRate[] {
+  if (!cachedRates) {
+    cachedRates = env.VAT_RATES ? parseVatRates(env.VAT_RATES) : DEFAULT_VAT_RATES;
+  }
+  return cachedRates;
+}
+
+/** VAT rate in force on a given date (the earliest known rate for older dates). */
+export function vatRateOn(date: string | Date): number {
+  const day = toIsraelDate(new Date(date).toISOString());
+  const rates = getVatRates();
+  let rate = rates[0].rate;
+  for (const entry of rates) {
+    if (entry.effectiveFrom <= day) rate = entry.rate;
+  }
+  return rate;
+}
+
+/**
+ * Estimate the VAT component of an invoice total. Amounts are VAT-inclusive,
+ * so the VAT is total × rate / (1 + rate), not total × rate.
+ */
+export function estimateVatCents(
+  amountCents: number,
+  issuedAt: string | Date,
+  treatment: VatTreatment = "standard",
+): number | null {
+  if (treatment !== "standard") return 0;
+  if (amountCents <= 0) return null;
+  const rate = vatRateOn(issuedAt);
+  return Math.round((amountCents * rate) / (1 + rate));
+}
@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { generatePcn874, resolveVatPeriod, type VatReport, type VatReportDocument } from "./vat-report";
+
+const document = (overrides: Partial<VatReportDocument>): VatReportDocument => ({
+  id: "doc",
+  vendor: "Vendor",
+  issuedAt: "2025-03-10T09:00:00.000Z",
+  currency: "ILS",
+  category: "כללי",
+  supplierTaxId: null,
+  invoiceNumber: null,
+  allocationNumber: null,
+  isFixedAsset: false,
+  vatTreatment: "standard",
+  netCents: 0,
+  vatCents: 0,
+  totalCents: 0,
+  issues: [],
+  ...overrides,
+});
+
+/** March–April 2025: an expense, a fixed asset and a credit note, plus two documents PCN874 leaves out. */
+const REPORT: VatReport = {
+  business: { id: "biz", name: "עסק לדוגמה", taxId: "51-617915-7" },
+  period: resolveVatPeriod("bimonthly", "2025-04"),
+  totals: {
+    expenses: { count: 2, netCents: 8_000, vatCents: 1_440, totalCents: 9_440 },
+    fixedAssets: { count: 1, netCents: 500_000, vatCents: 90_000, totalCents: 590_000 },
+    inputVatCents: 91_440,
+  },
+  documents: [
+    document({
+      // 00:30 on 1 March in Israel
+      issuedAt: "2025-02-28T22:30:00.000Z",
+      supplierTaxId: "516179157",
+      invoiceNumber: "INV-2041",
+      allocationNumber: "123456789",
+      netCents: 10_000,
+      vatCents: 1_800,
+      totalCents: 11_800,
+    }),
+    document({ issuedAt: "2025-03-15T09:00:00.000Z", currency: "USD", netCents: 37_000, vatCents: 0, totalCents: 37_000 }),
+    document({ issuedAt: "2025-04-01T09:00:00.000Z", vatTreatment: "exempt", netCents: 5_000, totalCents: 5_000 }),
+    document({ issuedAt: "2025-04-15T09:00:00.000Z", isFixedAsset: true, netCents: 500_000, vatCents: 90_000, totalCents: 590_000 }),
+    document({
+      issuedAt: "2025-04-20T09:00:00.000Z",
+      supplierTaxId: "123456782",
+      invoiceNumber: "CN/77",
+      netCents: -2_000,
+      vatCents: -360,
+      totalCents: -2_360,
+    }),
+  ],
+  flaggedCount: 0,
+};
+
+describe("resolveVatPeriod", () => {
+  it.each([
+    ["bimonthly", "2025-04", { key: "2025-03", from: "2025-03-01", to: "2025-04-30", label: "03-04/2025" }],
+    ["bimonthly", "2025-01", { key: "2025-01", from: "2025-01-01", to: "2025-02-28", label: "01-02/2025" }],
+    ["monthly", "2024-02", { key: "2024-02", from: "2024-02-01", to: "2024-02-29", label: "02/2024" }],
+  ] as const)("puts a %s report for %s in its period", (frequency, month, period) => {
+    expect(resolveVatPeriod(frequency, month)).toMatchObject(period);
+  });
+
+  it("steps across the new year", () => {
+    expect(resolveVatPeriod("bimonthly", "2025-01")).toMatchObject({ previousKey: "2024-11", nextKey: "2025-03" });
+  });
+});
+
+describe("generatePcn874", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const build = () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2025-05-10T09:00:00.000Z"));
+    return generatePcn874(REPORT);
+  };
+
+  it("names the file by tax ID and reporting month", () => {
+    expect(build().filename).toBe("PCN874-516179157-202503.txt");
+  });
+
+  it("writes an opening record with the period's totals", () => {
+    const [opening] = build().body.toString("ascii").split("\r\n");
+    expect(opening).toHaveLength(105);
+    expect(opening).toBe(
+      "O" +
+      "516179157" +
+      "202503" +
+      "1" +
+      "20250510" +
+      "+00000000000" + "+00000000" + "+00000000000" + "000000000" + // no sales
+      "+00000014" + // input VAT on expenses, in whole shekels
+      "+00000900" + // input VAT on fixed assets
+      "000000003" +
+      "-0000000914", // refund due
+    );
+  });
+
+  it("writes a record per ILS document with VAT, then a closing record", () => {
+    const lines = build().body.toString("ascii").split("\r\n");
+    expect(lines.slice(1)).toEqual([
+      "T" + "516179157" + "20250301" + "0000" + "000002041" + "000000018" + "+" + "0000000100" + "123456789",
+      // No supplier ID or invoice number: zeros and the record's position
+      "T" + "000000000" + "20250415" + "0000" + "000000002" + "000000900" + "+" + "0000005000" + " ".repeat(9),
+      "T" + "123456782" + "20250420" + "0000" + "000000077" + "000000004" + "-" + "0000000020" + " ".repeat(9),
+      "X516179157",
+      "",
+    ]);
+    for (const line of lines.slice(1, 4)) expect(line).toHaveLength(60);
+  });
+
+  it("requires the business tax ID", () => {
+    expect(() => generatePcn874({ ...REPORT, business: { ...REPORT.business, taxId: "1234" } }))
+      .toThrow(expect.objectContaining({ statusCode: 400 }));
+  });
+});
@@ -0,0 +1,274 @@
+import { store } from "../store";
+import type { ExportDocument } from "./exports";
+import { blank, num, record, signed, text } from "./exports/fixed-width";
+import { splitVat, toIsraelDate } from "./exports/shared";
+import { requiresAllocationNumber } from "./israeli-ids";
+import { getVendorVatTreatment, type VatTreatment } from "./vat";
+
+export type VatReportingFrequency = "monthly" | "bimonthly";
+
+export type VatIssue =
+  | "missing_vat"
+  | "estimated_vat"
+  | "missing_supplier_id"
+  | "missing_allocation_number"
+  | "foreign_currency";
+
+export interface VatPeriod {
+  /** First month of the period (YYYY-MM) — also the PCN874 reporting month */
+  key: string;
+  frequency: VatReportingFrequency;
+  from: string;
+  to: string;
+  label: string;
+  previousKey: string;
+  nextKey: string;
+}
+
+export interface VatBucket {
+  count: number;
+  netCents: number;
+  vatCents: number;
+  totalCents: number;
+}
+
+export interface VatReportDocument {
+  id: string;
+  vendor: string;
+  issuedAt: string;
+  currency: string;
+  category: string;
+  supplierTaxId: string | null;
+  invoiceNumber: string | null;
+  allocationNumber: string | null;
+  isFixedAsset: boolean;
+  vatTreatment: VatTreatment;
+  netCents: number;
+  vatCents: number;
+  totalCents: number;
+  issues: VatIssue[];
+}
+
+export interface VatReport {
+  business: { id: string; name: string; taxId: string | null };
+  period: VatPeriod;
+  totals: {
+    expenses: VatBucket;
+    fixedAssets: VatBucket;
+    /** Deductible input VAT (expenses + fixed assets, ILS documents only) */
+    inputVatCents: number;
+  };
+  documents: VatReportDocument[];
+  flaggedCount: number;
+}
+
+// ─── Periods ───
+
+function monthKey(year: number, month: number): string {
+  // month is 1-based and may overflow either way
+  const date = new Date(Date.UTC(year, month - 1, 1));
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, "0")}`;
+}
+
+function lastDayOfMonth(key: string): string {
+  const [year, month] = key.split("-").map(Number);
+  const day = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return `${key}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * Resolve the reporting period containing `month` (YYYY-MM). Bi-monthly
+ * periods are Jan–Feb, Mar–Apr, … so an even month maps to the period that
+ * starts the month before. Without a month, returns the last closed period —
+ * the one being filed now.
+ */
+export function resolveVatPeriod(frequency: VatReportingFrequency, month?: string): VatPeriod {
+  const span = frequency === "bimonthly" ? 2 : 1;
+  let year: number;
+  let monthIndex: number;
+  if (month) {
+    [year, monthIndex] = month.split("-").map(Number);
+  } else {
+    const [currentYear, currentMonth] = toIsraelDate(new Date().toISOString()).split("-").map(Number);
+    year = currentYear;
+    monthIndex = currentMonth - span;
+  }
+  const normalized = monthKey(year, monthIndex);
+  [year, monthIndex] = normalized.split("-").map(Number);
+  const startMonth = monthIndex - ((monthIndex - 1) % span);
+
+  const key = monthKey(year, startMonth);
+  const endKey = monthKey(year, startMonth + span - 1);
+  const label = span === 2
+    ? `${key.slice(5)}-${endKey.slice(5)}/${key.slice(0, 4)}`
+    : `${key.slice(5)}/${key.slice(0, 4)}`;
+
+  return {
+    key,
+    frequency,
+    from: `${key}-01`,
+    to: lastDayOfMonth(endKey),
+    label,
+    previousKey: monthKey(year, startMonth - span),
+    nextKey: monthKey(year, startMonth + span),
+  };
+}
+
+// ─── Report ───
+
+function emptyBucket(): VatBucket {
+  return { count: 0, netCents: 0, vatCents: 0, totalCents: 0 };
+}
+
+function documentIssues(doc: ExportDocument, treatment: VatTreatment): VatIssue[] {
+  // Exempt and foreign vendors carry no deductible VAT, so there's nothing to complete
+  if (treatment !== "standard") return [];
+  const issues: VatIssue[] = [];
+  if (doc.currency !== "ILS") issues.push("foreign_currency");
+  if (doc.vatCents == null) issues.push("missing_vat");
+  else if (doc.vatEstimated) issues.push("estimated_vat");
+  if (!doc.supplierTaxId) issues.push("missing_supplier_id");
+  // Above the reform threshold, VAT without an allocation number isn't deductible
+  if (!doc.allocationNumber && requiresAllocationNumber(doc)) issues.push("missing_allocation_number");
+  return issues;
+}
+
+/**
+ * Aggregate input VAT for one reporting period. Fixed-asset purchases are
+ * totalled separately (they have their own line on the VAT return), and every
+ * document that can't be deducted as-is is flagged for review.
+ */
+export async function buildVatReport(businessId: string, month?: string): Promise<VatReport> {
+  const settings = await store.getSettings(businessId);
+  const period = resolveVatPeriod(settings.business.vatReportingFrequency, month);
+  const { business, documents } = await store.getExportDocuments(businessId, {
+    status: "all",
+    from: period.from,
+    to: period.to,
+  });
+
+  const expenses = emptyBucket();
+  const fixedAssets = emptyBucket();
+  const rows: VatReportDocument[] = [];
+  const treatments = new Map<string, VatTreatment>();
+  const treatmentFor = async (doc: ExportDocument): Promise<VatTreatment> => {
+    const key = `${doc.vendor}\u0000${doc.currency}`;
+    if (!treatments.has(key)) {
+      treatments.set(key, await getVendorVatTreatment(businessId, doc.vendor, doc.currency));
+    }
+    return treatments.get(key)!;
+  };
+
+  // Payment confirmations duplicate the invoice they pay, so they're not VAT documents
+  for (const doc of documents.filter((entry: ExportDocument) => entry.type !== "payment_confirmation")) {
+    const { netCents, vatCents, totalCents } = splitVat(doc);
+    const vatTreatment = await treatmentFor(doc);
+    const issues = documentIssues(doc, vatTreatment);
+    if (doc.currency === "ILS") {
+      const bucket = doc.isFixedAsset ? fixedAssets : expenses;
+      bucket.count++;
+      bucket.netCents += netCents;
+      bucket.vatCents += vatCents;
+      bucket.totalCents += totalCents;
+    }
+    rows.push({
+      id: doc.id,
+      vendor: doc.vendor,
+      issuedAt: doc.issuedAt,
+      currency: doc.currency,
+      category: doc.category,
+      supplierTaxId: doc.supplierTaxId,
+      invoiceNumber: doc.invoiceNumber,
+      allocationNumber: doc.allocationNumber,
+      isFixedAsset: doc.isFixedAsset,
+      vatTreatment,
+      netCents,
+      vatCents,
+      totalCents,
+      issues,
+    });
+  }
+
+  return {
+    business: { id: business.id, name: business.name, taxId: business.taxId },
+    period,
+    totals: {
+      expenses,
+      fixedAssets,
+      inputVatCents: expenses.vatCents + fixedAssets.vatCents,
+    },
+    documents: rows,
+    flaggedCount: rows.filter((row) => row.issues.length > 0).length,
+  };
+}
+
+// ─── PCN874 ───
+
+function shekels(cents: number): number {
+  return Math.round(cents / 100);
+}
+
+/** The invoice number as the numeric reference PCN874 expects, if it has digits to give. */
+function invoiceReference(doc: VatReportDocument): string | null {
+  const digits = doc.invoiceNumber?.replace(/\D/g, "") ?? "";
+  return digits ? digits.slice(-9) : null;
+}
+
+/**
+ * PCN874 — the detailed VAT report file uploaded alongside the return.
+ * One "O" opening record with the period totals, a "T" record per input
+ * tax invoice (referenced by the supplier's invoice number, with its
+ * allocation number when it has one) and an "X" closing record. Amounts are whole shekels.
+ * We only collect expenses, so the sales fields are always zero.
+ */
+export function generatePcn874(report: VatReport): { filename: string; body: Buffer } {
+  const taxId = (report.business.taxId ?? "").replace(/\D/g, "");
+  if (taxId.length !== 9) {
+    throw Object.assign(
+      new Error("Business tax ID (9 digits) is required for the PCN874 file"),
+      { statusCode: 400 },
+    );
+  }
+
+  const period = report.period.key.replace("-", "");
+  const inputs = report.documents.filter((doc) => doc.currency === "ILS" && doc.vatCents !== 0);
+  const inputVatOther = shekels(report.totals.expenses.vatCents);
+  const inputVatAssets = shekels(report.totals.fixedAssets.vatCents);
+
+  const lines = [
+    record([
+      text(1, "O"),
+      num(9, taxId),
+      num(6, period),
+      num(1, 1), // regular report
+      num(8, toIsraelDate(new Date().toISOString()).replace(/-/g, "")),
+      signed(12, 0), // taxable sales
+      signed(9, 0), // VAT on sales
+      signed(12, 0), // zero-rated / exempt sales
+      num(9, 0), // sales records
+      signed(9, inputVatOther),
+      signed(9, inputVatAssets),
+      num(9, inputs.length),
+      signed(11, -(inputVatOther + inputVatAssets)), // VAT payable (negative = refund)
+    ]),
+    ...inputs.map((doc, index) =>
+      record([
+        text(1, "T"),
+        num(9, doc.supplierTaxId ?? 0),
+        num(8, toIsraelDate(doc.issuedAt).replace(/-/g, "")),
+        num(4, 0), // reference group
+        num(9, invoiceReference(doc) ?? index + 1), // reference number
+        num(9, Math.abs(shekels(doc.vatCents))),
+        text(1, doc.totalCents < 0 ? "-" : "+"),
+        num(10, Math.abs(shekels(doc.netCents))),
+        doc.allocationNumber ? num(9, doc.allocationNumber) : blank(9),
+      ]),
+    ),
+    record([text(1, "X"), num(9, taxId)]),
+  ];
+
+  return {
+    filename: `PCN874-${taxId}-${period}.txt`,
+    body: Buffer.from(lines.join("\r\n") + "\r\n", "ascii"),
+  };
+}
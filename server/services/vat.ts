@@ -0,0 +1,102 @@
+import { store } from "../store";
+import { estimateVatCents, type VatTreatment } from "./vat-rates";
+
+export { estimateVatCents, getVatRates, vatRateOn, type VatTreatment } from "./vat-rates";
+
+/**
+ * A vendor's VAT treatment: the business's explicit setting wins; otherwise
+ * invoices in a foreign currency are assumed to come from abroad.
+ */
+export async function getVendorVatTreatment(
+  businessId: string,
+  vendorName: string,
+  currency = "ILS",
+): Promise<VatTreatment> {
+  try {
+    const treatment = await store.getVendorVatTreatment(businessId, vendorName);
+    if (treatment) return treatment;
+  } catch {
+    // Fall through to the currency default
+  }
+  return currency === "ILS" ? "standard" : "foreign";
+}
+
+/**
+ * Final VAT for a document: exempt and foreign vendors carry none, VAT read
+ * off the invoice is kept, and anything else is estimated from the rate table.
+ */
+export async function resolveDocumentVat(doc: {
+  businessId: string;
+  vendorName: string;
+  amountCents: number;
+  currency: string;
+  issuedAt: string | Date;
+  /** VAT read off the invoice, if any */
+  extractedVatCents: number | null;
+}): Promise<{ vatCents: number | null; vatEstimated: boolean }> {
+  const treatment = await getVendorVatTreatment(doc.businessId, doc.vendorName, doc.currency);
+  if (treatment !== "standard") {
+    return { vatCents: 0, vatEstimated: true };
+  }
+  if (doc.extractedVatCents != null) {
+    return { vatCents: doc.extractedVatCents, vatEstimated: false };
+  }
+  const vatCents = estimateVatCents(doc.amountCents, doc.issuedAt);
+  return { vatCents, vatEstimated: vatCents != null };
+}
+
+/**
+ * Apply the vendor's VAT treatment to a draft before it is stored.
+ */
+export async function applyVendorVatTreatment(doc: {
+  businessId: string;
+  vendorName: string;
+  amountCents: number;
+  currency: string;
+  issuedAt: string;
+  vatCents: number | null;
+  vatEstimated: boolean;
+}): Promise<void> {
+  const resolved = await resolveDocumentVat({
+    ...doc,
+    extractedVatCents: doc.vatEstimated ? null : doc.vatCents,
+  });
+  doc.vatCents = resolved.vatCents;
+  doc.vatEstimated = resolved.vatEstimated;
+}
+
+const BACKFILL_BATCH_SIZE = 500;
+
+/**
+ * Recompute VAT on every document whose VAT we estimated (including rows from
+ * before the rate table, estimated at a flat 17% of the total). Run after a
+ * rate change or a vendor treatment change; VAT read off invoices is untouched.
+ */
+export async function backfillEstimatedVat(filter: { businessId?: string; vendorName?: string } = {}): Promise<{
+  scanned: number;
+  updated: number;
+}> {
+  let scanned = 0;
+  let updated = 0;
+  let afterId: string | undefined;
+
+  for (;;) {
+    const batch = await store.getVatBackfillCandidates({ ...filter, afterId, limit: BACKFILL_BATCH_SIZE });
+    if (batch.length === 0) break;
+
+    for (const doc of batch) {
+      scanned++;
+      const { vatCents } = await resolveDocumentVat({ ...doc, extractedVatCents: null });
+      if (vatCents !== doc.vatCents) {
+        await store.updateDocumentVat(doc.id, vatCents);
+        updated++;
+      }
+    }
+
+    afterId = batch[batch.length - 1].id;
+    if (batch.length < BACKFILL_BATCH_SIZE) break;
+  }
+
+  console.log(`[vat] Backfill complete: ${updated}/${scanned} documents updated`);
+  return { scanned, updated };
+}
@@ -0,0 +1,88 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { createServer } from "../app";
+import { store } from "../store";
+import { signUpOwner, type TestApp } from "../test/helpers";
+import { handleWhatsAppMediaInbound } from "./whatsapp-chat";
+import { sendWhatsAppText } from "./whatsapp-sender";
+
+vi.mock("./whatsapp-sender", () => ({ sendWhatsAppText: vi.fn(async () => undefined) }));
+
+vi.mock("./ai", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./ai")>()),
+  isAiEnabled: () => true,
+  extractInvoiceFromImages: vi.fn(async () => ({
+    type: "INVOICE",
+    vendorName: "Corner Shop",
+    amountCents: 5_850,
+    currency: "ILS",
+    vatCents: 850,
+    issuedAt: "2026-09-01",
+    confidence: 0.9,
+    category: "Office",
+    invoiceNumber: null,
+    supplierTaxId: null,
+    allocationNumber: null,
+  })),
+}));
+
+const SENDER_PHONE = "+972501112233";
+const PNG_BYTES = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+
+describe("WhatsApp media", () => {
+  let app: TestApp;
+  let owner: Awaited<ReturnType<typeof signUpOwner>>;
+
+  const documentCount = async () => (await store.getDashboardDocuments(owner.businessId, "all")).documents.length;
+  const replies = () => vi.mocked(sendWhatsAppText).mock.calls.map(([, , text]) => text);
+
+  beforeAll(async () => {
+    app = await createServer();
+    owner = await signUpOwner(app, "media-owner@example.com");
+    const added = await app.inject({
+      method: "POST",
+      url: `/api/settings/${owner.businessId}/whatsapp-senders`,
+      headers: { authorization: `Bearer ${owner.token}` },
+      payload: { email: "media-sender@example.com", fullName: "Sender", phoneE164: SENDER_PHONE },
+    });
+    expect(added.statusCode).toBe(200);
+  });
+
+  beforeEach(() => {
+    vi.mocked(sendWhatsAppText).mockClear();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it("turns WebP photos away with the supported formats", async () => {
+    await handleWhatsAppMediaInbound(owner.businessId, SENDER_PHONE, [
+      { base64: Buffer.from("RIFF0000WEBPVP8 ").toString("base64"), mimeType: "image/webp", filename: null, caption: null },
+    ]);
+
+    expect(await documentCount()).toBe(0);
+    expect(replies()).toHaveLength(1);
+    expect(replies()[0]).toContain("JPEG או PNG");
+  });
+
+  it("creates no document when the original can't be stored", async () => {
+    // Claims to be a JPEG but isn't one, so blob storage refuses it
+    await handleWhatsAppMediaInbound(owner.businessId, SENDER_PHONE, [
+      { base64: Buffer.from("not really a jpeg").toString("base64"), mimeType: "image/jpeg", filename: null, caption: null },
+    ]);
+
+    expect(await documentCount()).toBe(0);
+    expect(replies()).toEqual(["מצטער, לא הצלחתי לעבד את המסמך."]);
+  });
+
+  it("stores the photo with the document", async () => {
+    await handleWhatsAppMediaInbound(owner.businessId, SENDER_PHONE, [
+      { base64: PNG_BYTES.toString("base64"), mimeType: "image/png", filename: null, caption: null },
+    ]);
+
+    const { documents } = await store.getDashboardDocuments(owner.businessId, "all");
+    expect(documents).toHaveLength(1);
+    const file = await store.getDocumentFile(owner.businessId, documents[0].id);
+    expect(file?.mimeType).toBe("image/png");
+  });
+});
@@ -1,17 +1,79 @@
 import { store } from "../store";
-import { bridgeSendText } from "./whatsapp-bridge-client";
-import { chatResponse, isAiEnabled, extractInvoiceFromImage } from "./ai";
+import { chatResponse, isAiEnabled, extractInvoiceFromImages, extractInvoiceFromPdf } from "./ai";
+import { saveDocumentFile, toDocumentFileType, type StoredFile } from "./blob-storage";
+import { flagDuplicate } from "./duplicates";
+import { publishDocumentCreated } from "./events";
+import { convertToIls } from "./exchange-rates";
+import { combineImagesToPdf } from "./pdf";
+import { resolveDocumentVat } from "./vat";
+import { cloudDownloadMedia, cloudSendText, type CloudInboundMessage, type CloudMessageStatus } from "./whatsapp-cloud-client";
+import { parseWhatsAppCommand, runWhatsAppCommand } from "./whatsapp-commands";
+import { sendWhatsAppText } from "./whatsapp-sender";
+
+/** Don't answer the same unknown number more than once an hour. */
+const REFUSAL_INTERVAL_MS = 60 * 60 * 1000;
+const refusedSenders = new Map<string, number>();
+
+const REFUSAL_TEXT = "שלום! המספר הזה לא מורשה לשלוח מסמכים לעסק. בקש/י מבעל העסק להוסיף אותו בהגדרות.";
+
+interface WhatsAppSenderMember {
+  memberId: string;
+  userId: string;
+  email: string | null;
+  fullName: string | null;
+}
+
+async function refuseSender(key: string, fromPhone: string, send: (text: string) => Promise<unknown>): Promise<void> {
+  const last = refusedSenders.get(key) ?? 0;
+  if (Date.now() - last < REFUSAL_INTERVAL_MS) return;
+  refusedSenders.set(key, Date.now());
+  console.warn(`[whatsapp-chat] Refused message from unlisted number ${fromPhone}`);
+  try {
+    await send(REFUSAL_TEXT);
+  } catch (error) {
+    console.error(`[whatsapp-chat] Failed to send refusal to ${fromPhone}:`, error);
+  }
+}
+
+/**
+ * The business member behind an inbound number. Only allowlisted numbers
+ * reach the AI or create documents; anyone else gets a polite refusal.
+ */
+async function resolveSender(businessId: string, fromPhone: string): Promise<WhatsAppSenderMember | null> {
+  let sender: WhatsAppSenderMember | null = null;
+  try {
+    sender = await store.findWhatsAppSender(businessId, fromPhone);
+  } catch (error) {
+    console.error(`[whatsapp-chat] Sender lookup failed for ${fromPhone}:`, error);
+    return null;
+  }
+  if (!sender) {
+    await refuseSender(`${businessId}:${fromPhone}`, fromPhone, (text) => sendWhatsAppText(businessId, fromPhone, text));
+  }
+  return sender;
+}
 
 /**
  * Handle an inbound text message from WhatsApp.
- * Looks up business context, runs AI chat, sends reply back.
+ * Fixed commands ("ממתינים", "בטל"…) are answered directly; anything else
+ * gets business context, runs AI chat, sends reply back.
  */
 export async function handleWhatsAppInbound(
   businessId: string,
   fromPhone: string,
   text: string,
 ): Promise<void> {
+  const sender = await resolveSender(businessId, fromPhone);
+  if (!sender) return;
+
   try {
+    const command = parseWhatsAppCommand(text);
+    if (command) {
+      console.log(`[whatsapp-chat] Command ${command.kind} from ${fromPhone}`);
+      await sendWhatsAppText(businessId, fromPhone, await runWhatsAppCommand(businessId, sender, command));
+      return;
+    }
+
     // Get business context for AI
     const summary = await store.getDashboardSummary(businessId);
     const { documents: recentDocs } = await store.getDashboardDocuments(businessId, "all");
@@ -29,12 +91,12 @@ export async function handleWhatsAppInbound(
     await store.postDashboardChat({
       businessId,
       text,
-      userId: fromPhone,
+      userId: sender.userId,
       channel: "whatsapp",
     });
 
     if (!isAiEnabled()) {
-      await bridgeSendText(businessId, fromPhone, "שלום! המערכת פעילה אך AI לא זמין כרגע.");
+      await sendWhatsAppText(businessId, fromPhone, "שלום! המערכת פעילה אך AI לא זמין כרגע.");
       return;
     }
 
@@ -54,42 +116,172 @@ export async function handleWhatsAppInbound(
       channel: "whatsapp",
     });
 
-    // Send reply back via WhatsApp bridge
-    await bridgeSendText(businessId, fromPhone, reply);
+    // Send reply back through the configured provider
+    await sendWhatsAppText(businessId, fromPhone, reply);
   } catch (error) {
     console.error(`[whatsapp-chat] Error handling inbound from ${fromPhone}:`, error);
     try {
-      await bridgeSendText(businessId, fromPhone, "מצטער, אירעה שגיאה. נסה שוב מאוחר יותר.");
+      await sendWhatsAppText(businessId, fromPhone, "מצטער, אירעה שגיאה. נסה שוב מאוחר יותר.");
     } catch { /* ignore send error */ }
   }
 }
 
+export interface WhatsAppMedia {
+  base64: string;
+  mimeType: string;
+  filename?: string | null;
+  caption?: string | null;
+}
+
+/** Photos of one receipt arrive as separate messages; wait this long for the next page. */
+const ALBUM_WINDOW_MS = 6_000;
+
+/** More pages than this is a batch of receipts, not one document. */
+const MAX_ALBUM_PAGES = 10;
+
+const pendingAlbums = new Map<string, { businessId: string; fromPhone: string; pages: WhatsAppMedia[]; timer: ReturnType<typeof setTimeout> }>();
+
 /**
- * Handle an inbound image/media message from WhatsApp.
- * Runs AI extraction, creates a document, sends confirmation.
+ * Photos and PDFs are all a receipt needs. Media is accepted only in the
+ * types blob storage keeps; anything else (WebP, SVG, HEIC, video) is turned away.
+ */
+const UNSUPPORTED_MEDIA_TEXT = "אפשר לשלוח הודעת טקסט, תמונה (JPEG או PNG) או PDF של חשבונית.";
+
+function isPdf(media: WhatsAppMedia): boolean {
+  return media.mimeType === "application/pdf";
+}
+
+function flushAlbum(key: string): void {
+  const album = pendingAlbums.get(key);
+  if (!album) return;
+  clearTimeout(album.timer);
+  pendingAlbums.delete(key);
+  handleWhatsAppMediaInbound(album.businessId, album.fromPhone, album.pages)
+    .catch((err) => console.error(`[whatsapp-chat] Album handler error for ${album.fromPhone}:`, err));
+}
+
+/**
+ * Queue inbound media from a sender. PDFs are processed right away; photos
+ * are held until none has arrived for ALBUM_WINDOW_MS, then stored as one
+ * multi-page document. The Baileys bridge groups albums itself, so this is
+ * for providers that deliver each photo separately.
+ */
+export function queueWhatsAppMedia(businessId: string, fromPhone: string, media: WhatsAppMedia): void {
+  const key = `${businessId}:${fromPhone}`;
+  if (isPdf(media)) {
+    handleWhatsAppMediaInbound(businessId, fromPhone, [media])
+      .catch((err) => console.error(`[whatsapp-chat] Media handler error for ${fromPhone}:`, err));
+    return;
+  }
+
+  const album = pendingAlbums.get(key);
+  if (album) {
+    clearTimeout(album.timer);
+    album.pages.push(media);
+    album.timer = setTimeout(() => flushAlbum(key), ALBUM_WINDOW_MS);
+    if (album.pages.length >= MAX_ALBUM_PAGES) flushAlbum(key);
+    return;
+  }
+  pendingAlbums.set(key, {
+    businessId,
+    fromPhone,
+    pages: [media],
+    timer: setTimeout(() => flushAlbum(key), ALBUM_WINDOW_MS),
+  });
+}
+
+/** Keep what was received as one file: the PDF itself, the photo, or the photos combined into a PDF. */
+async function storeWhatsAppMedia(businessId: string, pages: WhatsAppMedia[]): Promise<StoredFile> {
+  const first = pages[0];
+  const combinable = pages.length > 1 && pages.every((page) => page.mimeType === "image/jpeg" || page.mimeType === "image/png");
+  if (combinable) {
+    return saveDocumentFile(businessId, {
+      filename: `whatsapp-${Date.now()}.pdf`,
+      mimeType: "application/pdf",
+      data: await combineImagesToPdf(pages.map((page) => ({ data: Buffer.from(page.base64, "base64"), mimeType: page.mimeType }))),
+    });
+  }
+  const extension = first.mimeType.split("/")[1]?.split(";")[0] || "bin";
+  return saveDocumentFile(businessId, {
+    filename: first.filename || `whatsapp-${Date.now()}.${extension}`,
+    mimeType: first.mimeType,
+    data: Buffer.from(first.base64, "base64"),
+  });
+}
+
+/**
+ * Handle an inbound document from WhatsApp: a single PDF, or one or more
+ * photos of the same receipt. Runs AI extraction, creates a document,
+ * sends confirmation.
  */
 export async function handleWhatsAppMediaInbound(
   businessId: string,
   fromPhone: string,
-  imageBase64: string,
-  mimeType: string,
+  received: WhatsAppMedia[],
 ): Promise<void> {
+  if (received.length === 0) return;
+  const sender = await resolveSender(businessId, fromPhone);
+  if (!sender) return;
+  const pages = received.flatMap((page) => {
+    const mimeType = toDocumentFileType(page.mimeType);
+    return mimeType ? [{ ...page, mimeType }] : [];
+  });
+  if (pages.length === 0) {
+    await sendWhatsAppText(businessId, fromPhone, UNSUPPORTED_MEDIA_TEXT);
+    return;
+  }
+  // A PDF is a document on its own; photos sent alongside it are handled separately
+  if (pages.length > 1 && pages.some(isPdf)) {
+    for (const pdf of pages.filter(isPdf)) {
+      await handleWhatsAppMediaInbound(businessId, fromPhone, [pdf]);
+    }
+    const images = pages.filter((page) => !isPdf(page));
+    if (images.length > 0) await handleWhatsAppMediaInbound(businessId, fromPhone, images);
+    return;
+  }
+
   try {
     if (!isAiEnabled()) {
-      await bridgeSendText(businessId, fromPhone, "קיבלתי תמונה, אבל AI לא זמין כרגע לעיבוד.");
+      await sendWhatsAppText(businessId, fromPhone, "קיבלתי את המסמך, אבל AI לא זמין כרגע לעיבוד.");
       return;
     }
 
-    // Extract invoice data from image
-    const extracted = await extractInvoiceFromImage(businessId, imageBase64, mimeType);
+    const extracted = isPdf(pages[0])
+      ? await extractInvoiceFromPdf(businessId, pages[0].base64)
+      : await extractInvoiceFromImages(businessId, pages.map(({ base64, mimeType }) => ({ base64, mimeType })));
 
     if (extracted.confidence < 0.2) {
-      await bridgeSendText(businessId, fromPhone, "קיבלתי תמונה, אבל לא הצלחתי לזהות חשבונית. נסה תמונה ברורה יותר.");
+      await sendWhatsAppText(
+        businessId,
+        fromPhone,
+        isPdf(pages[0])
+          ? "קיבלתי את הקובץ, אבל לא הצלחתי לזהות בו חשבונית."
+          : "קיבלתי תמונה, אבל לא הצלחתי לזהות חשבונית. נסה תמונה ברורה יותר.",
+      );
       return;
     }
 
+    // Keep the original so it can be previewed from the dashboard; no document without it
+    const file = await storeWhatsAppMedia(businessId, pages);
+    const caption = pages.map((page) => page.caption?.trim()).filter(Boolean).join("\n") || null;
+
+    const issuedAt = new Date(extracted.issuedAt).toISOString();
+    const vat = await resolveDocumentVat({
+      businessId,
+      vendorName: extracted.vendorName,
+      amountCents: extracted.amountCents,
+      currency: extracted.currency,
+      issuedAt,
+      extractedVatCents: extracted.vatCents,
+    });
+    const conversion = await convertToIls({
+      amountCents: extracted.amountCents,
+      currency: extracted.currency,
+      issuedAt,
+    });
+
     // Create document
-    await store.createDocument({
+    const { id: documentId } = await store.createDocument({
       businessId,
       inboxConnectionId: "whatsapp",
       source: "WHATSAPP",
@@ -98,34 +290,102 @@ export async function handleWhatsAppMediaInbound(
       vendorName: extracted.vendorName,
       amountCents: extracted.amountCents,
       currency: extracted.currency,
-      vatCents: extracted.vatCents,
-      issuedAt: new Date(extracted.issuedAt).toISOString(),
+      vatCents: vat.vatCents,
+      vatEstimated: vat.vatEstimated,
+      amountIlsCents: conversion.amountIlsCents,
+      exchangeRate: conversion.exchangeRate,
+      issuedAt,
       confidence: extracted.confidence,
       category: extracted.category,
-      rawText: null,
+      invoiceNumber: extracted.invoiceNumber,
+      supplierTaxId: extracted.supplierTaxId,
+      allocationNumber: extracted.allocationNumber,
+      uploadedByUserId: sender.userId,
+      rawText: caption,
       gmailMessageId: `whatsapp-${Date.now()}`,
       attachments: [],
       attachmentFilenames: [],
+      file,
     });
+    const duplicate = await flagDuplicate(documentId);
+    await publishDocumentCreated(businessId, documentId);
 
     const amount = extracted.amountCents > 0
-      ? `₪${(extracted.amountCents / 100).toLocaleString("he-IL")}`
+      ? `${extracted.currency === "ILS" ? "₪" : `${extracted.currency} `}${(extracted.amountCents / 100).toLocaleString("he-IL")}`
+        + (extracted.currency !== "ILS" && conversion.amountIlsCents != null
+          ? ` (₪${(conversion.amountIlsCents / 100).toLocaleString("he-IL")})`
+          : "")
       : "סכום לא ידוע";
 
-    await bridgeSendText(
+    await sendWhatsAppText(
       businessId,
       fromPhone,
       `זיהיתי חשבונית!\n` +
+      (pages.length > 1 ? `עמודים: ${pages.length}\n` : "") +
       `ספק: ${extracted.vendorName}\n` +
       `סכום: ${amount}\n` +
       `קטגוריה: ${extracted.category}\n` +
       `ביטחון: ${Math.round(extracted.confidence * 100)}%\n\n` +
-      `המסמך נשמר בדשבורד.`,
+      (duplicate ? `נראה שהמסמך הזה כבר התקבל — סימנו אותו ככפילות בדשבורד.` : `המסמך נשמר בדשבורד.`),
     );
   } catch (error) {
     console.error(`[whatsapp-chat] Error handling media from ${fromPhone}:`, error);
     try {
-      await bridgeSendText(businessId, fromPhone, "מצטער, לא הצלחתי לעבד את התמונה.");
+      await sendWhatsAppText(businessId, fromPhone, "מצטער, לא הצלחתי לעבד את המסמך.");
     } catch { /* ignore */ }
   }
 }
+
+/**
+ * Handle one message from the Cloud API webhook. The sender's number is
+ * matched to a business by its connected WhatsApp number or a member's
+ * allowlisted one; images and PDFs are downloaded from Meta and go through
+ * the same path as bridge media.
+ */
+export async function handleCloudApiMessage(message: CloudInboundMessage): Promise<void> {
+  const integration = await store.markWhatsAppInbound({ fromPhone: message.from });
+  if (!integration) {
+    // Not a connected number or an allowlisted member of any business; they just wrote, so a plain reply is allowed
+    await refuseSender(`cloudapi:${message.from}`, message.from, (text) => cloudSendText(message.from, text));
+    return;
+  }
+  const { businessId } = integration;
+
+  if (message.type === "text" && message.text?.body) {
+    await handleWhatsAppInbound(businessId, message.from, message.text.body);
+    return;
+  }
+
+  const media = message.type === "image" ? message.image : message.type === "document" ? message.document : undefined;
+  if (!media || !toDocumentFileType(media.mime_type)) {
+    await sendWhatsAppText(businessId, message.from, UNSUPPORTED_MEDIA_TEXT);
+    return;
+  }
+
+  let downloaded: { data: Buffer; mimeType: string };
+  try {
+    downloaded = await cloudDownloadMedia(media.id);
+  } catch (error) {
+    console.error(`[whatsapp-chat] Failed to download media ${media.id} from ${message.from}:`, error);
+    await sendWhatsAppText(businessId, message.from, "מצטער, לא הצלחתי להוריד את הקובץ. נסה לשלוח שוב.");
+    return;
+  }
+  queueWhatsAppMedia(businessId, message.from, {
+    base64: downloaded.data.toString("base64"),
+    mimeType: downloaded.mimeType,
+    filename: media.filename ?? null,
+    caption: media.caption ?? null,
+  });
+}
+
+/**
+ * Record failed deliveries reported by the Cloud API webhook, so the
+ * integration shows the error in settings.
+ */
+export async function handleCloudApiStatus(status: CloudMessageStatus): Promise<void> {
+  if (status.status !== "failed") return;
+  const error = status.errors?.[0];
+  const message = error ? `${error.title} (${error.code})` : "Message delivery failed";
+  console.warn(`[whatsapp-chat] Delivery to ${status.recipient_id} failed: ${message}`);
+  await store.markWhatsAppStatusByPhone(status.recipient_id, message);
+}
@@ -0,0 +1,207 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { env } from "../config";
+
+/** Meta caps inbound documents at 100MB; anything near that is not a receipt. */
+const MAX_MEDIA_BYTES = 25 * 1024 * 1024;
+
+/** Template parameters may not contain newlines or tabs, and are limited in length. */
+const MAX_TEMPLATE_PARAM_LENGTH = 1000;
+
+function getGraphUrl(path: string): string {
+  return `https://graph.facebook.com/${env.WHATSAPP_API_VERSION}/${path.replace(/^\//, "")}`;
+}
+
+function getAccessToken(): string {
+  if (!env.WHATSAPP_ACCESS_TOKEN) {
+    throw new Error("WHATSAPP_ACCESS_TOKEN is not configured");
+  }
+  return env.WHATSAPP_ACCESS_TOKEN;
+}
+
+function getPhoneNumberId(): string {
+  if (!env.WHATSAPP_PHONE_NUMBER_ID) {
+    throw new Error("WHATSAPP_PHONE_NUMBER_ID is not configured");
+  }
+  return env.WHATSAPP_PHONE_NUMBER_ID;
+}
+
+async function graphFetch<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(getGraphUrl(path), {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${getAccessToken()}`,
+      "Content-Type": "application/json",
+    },
+    signal: AbortSignal.timeout(15_000),
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`WhatsApp Cloud API ${path} failed (${response.status}): ${text}`);
+  }
+
+  return response.json() as Promise<T>;
+}
+
+/** Cloud API recipients are bare digits in international format. */
+function toRecipient(phone: string): string {
+  return phone.replace(/@.*$/, "").replace(/\D/g, "");
+}
+
+// ─── Webhook payload ───
+
+export interface CloudMediaRef {
+  id: string;
+  mime_type?: string;
+  filename?: string;
+  caption?: string;
+}
+
+export interface CloudInboundMessage {
+  from: string;
+  id: string;
+  timestamp: string;
+  type: string;
+  text?: { body: string };
+  image?: CloudMediaRef;
+  document?: CloudMediaRef;
+}
+
+export interface CloudMessageStatus {
+  id: string;
+  status: "sent" | "delivered" | "read" | "failed";
+  recipient_id: string;
+  errors?: Array<{ code: number; title: string; message?: string }>;
+}
+
+export interface CloudWebhookPayload {
+  object?: string;
+  entry?: Array<{
+    id: string;
+    changes?: Array<{
+      field: string;
+      value: {
+        metadata?: { display_phone_number: string; phone_number_id: string };
+        messages?: CloudInboundMessage[];
+        statuses?: CloudMessageStatus[];
+      };
+    }>;
+  }>;
+}
+
+/**
+ * Check the X-Hub-Signature-256 header Meta sends with every webhook: an
+ * HMAC-SHA256 of the raw request body keyed with the app secret.
+ */
+export function verifyCloudSignature(rawBody: string, signatureHeader: string | undefined, appSecret: string): boolean {
+  const signature = signatureHeader?.startsWith("sha256=") ? signatureHeader.slice(7) : null;
+  if (!signature || !/^[0-9a-f]{64}$/i.test(signature)) return false;
+  const expected = createHmac("sha256", appSecret).update(rawBody, "utf8").digest();
+  return timingSafeEqual(expected, Buffer.from(signature, "hex"));
+}
+
+/**
+ * Flatten a webhook delivery into the messages and delivery statuses for our
+ * phone number. Other numbers on the same WhatsApp Business account are skipped.
+ */
+export function parseCloudWebhook(payload: CloudWebhookPayload): {
+  messages: CloudInboundMessage[];
+  statuses: CloudMessageStatus[];
+} {
+  const messages: CloudInboundMessage[] = [];
+  const statuses: CloudMessageStatus[] = [];
+  if (payload.object !== "whatsapp_business_account") return { messages, statuses };
+
+  for (const entry of payload.entry ?? []) {
+    for (const change of entry.changes ?? []) {
+      if (change.field !== "messages") continue;
+      const phoneNumberId = change.value.metadata?.phone_number_id;
+      if (env.WHATSAPP_PHONE_NUMBER_ID && phoneNumberId !== env.WHATSAPP_PHONE_NUMBER_ID) continue;
+      messages.push(...(change.value.messages ?? []));
+      statuses.push(...(change.value.statuses ?? []));
+    }
+  }
+  return { messages, statuses };
+}
+
+// ─── Outbound ───
+
+/**
+ * Send a free-form text message. Only delivered inside the 24h customer
+ * service window — outside it, use cloudSendTemplate.
+ */
+export async function cloudSendText(
+  to: string,
+  text: string,
+): Promise<{ ok: boolean; messageId?: string }> {
+  const data = await graphFetch<{ messages?: Array<{ id: string }> }>(`${getPhoneNumberId()}/messages`, {
+    method: "POST",
+    body: JSON.stringify({
+      messaging_product: "whatsapp",
+      recipient_type: "individual",
+      to: toRecipient(to),
+      type: "text",
+      text: { preview_url: false, body: text },
+    }),
+  });
+  return { ok: true, messageId: data.messages?.[0]?.id };
+}
+
+/**
+ * Send an approved template message, with `bodyParams` filling its {{1}}, {{2}}…
+ * placeholders in order.
+ */
+export async function cloudSendTemplate(
+  to: string,
+  templateName: string,
+  languageCode: string,
+  bodyParams: string[],
+): Promise<{ ok: boolean; messageId?: string }> {
+  const parameters = bodyParams.map((param) => ({
+    type: "text",
+    text: param
+      .replace(/[\r\n\t]+/g, " · ")
+      .replace(/ {4,}/g, "   ")
+      .slice(0, MAX_TEMPLATE_PARAM_LENGTH),
+  }));
+  const data = await graphFetch<{ messages?: Array<{ id: string }> }>(`${getPhoneNumberId()}/messages`, {
+    method: "POST",
+    body: JSON.stringify({
+      messaging_product: "whatsapp",
+      to: toRecipient(to),
+      type: "template",
+      template: {
+        name: templateName,
+        language: { code: languageCode },
+        components: parameters.length > 0 ? [{ type: "body", parameters }] : [],
+      },
+    }),
+  });
+  return { ok: true, messageId: data.messages?.[0]?.id };
+}
+
+// ─── Media ───
+
+/**
+ * Download an inbound image or document. Media IDs resolve to a short-lived
+ * URL, which itself needs the access token.
+ */
+export async function cloudDownloadMedia(mediaId: string): Promise<{ data: Buffer; mimeType: string }> {
+  const meta = await graphFetch<{ url: string; mime_type: string; file_size?: number }>(mediaId);
+  if (meta.file_size && meta.file_size > MAX_MEDIA_BYTES) {
+    throw new Error(`WhatsApp media ${mediaId} is too large (${meta.file_size} bytes)`);
+  }
+
+  const response = await fetch(meta.url, {
+    headers: { Authorization: `Bearer ${getAccessToken()}` },
+    signal: AbortSignal.timeout(30_000),
+  });
+  if (!response.ok) {
+    throw new Error(`WhatsApp media download ${mediaId} failed (${response.status})`);
+  }
+  const data = Buffer.from(await response.arrayBuffer());
+  if (data.length > MAX_MEDIA_BYTES) {
+    throw new Error(`WhatsApp media ${mediaId} is too large (${data.length} bytes)`);
+  }
+  return { data, mimeType: meta.mime_type.split(";")[0].trim() };
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { parseWhatsAppCommand } from "./whatsapp-commands";
+
+describe("parseWhatsAppCommand", () => {
+  it.each([
+    ["שלח לרו״ח", { kind: "send_to_accountant" }],
+    ['שלח לרו"ח', { kind: "send_to_accountant" }],
+    ["שלח לרו׳ח", { kind: "send_to_accountant" }],
+    ["שלח לרוח", { kind: "send_to_accountant" }],
+    ["שלח לרואה החשבון", { kind: "send_to_accountant" }],
+    ["  שלח   לרו״ח!  ", { kind: "send_to_accountant" }],
+    ["ממתינים", { kind: "list_pending" }],
+    ["ממתינים?", { kind: "list_pending" }],
+    ["בטל", { kind: "undo" }],
+    ["בטל.", { kind: "undo" }],
+    ["חסרים", { kind: "list_missing" }],
+  ])("reads %s", (text, command) => {
+    expect(parseWhatsAppCommand(text)).toEqual(command);
+  });
+
+  it("recategorizes the last upload without a number", () => {
+    expect(parseWhatsAppCommand("תקן קטגוריה משרד")).toEqual({ kind: "recategorize", position: null, category: "משרד" });
+  });
+
+  it("recategorizes a pending document by its number", () => {
+    expect(parseWhatsAppCommand("תקן 3 קטגוריה  רכב ודלק")).toEqual({ kind: "recategorize", position: 3, category: "רכב ודלק" });
+  });
+
+  it.each([
+    ["no category", "תקן"],
+    ["a number but no category", "תקן 3"],
+    ["an empty category", "תקן קטגוריה"],
+    ["a category that's too long", `תקן קטגוריה ${"א".repeat(41)}`],
+    ["no קטגוריה keyword", "תקן 3 משרד"],
+  ])("explains the recategorize syntax on %s", (_label, text) => {
+    expect(parseWhatsAppCommand(text)).toEqual({ kind: "recategorize_usage" });
+  });
+
+  it.each([
+    ["a question for the AI", "כמה הוצאתי החודש על דלק?"],
+    ["a command inside a sentence", "אפשר בבקשה לשלוח לרו״ח?"],
+    ["a command with extra words", "ממתינים בבקשה"],
+    ["a word that starts like a command", "תקנון"],
+    ["an empty message", "   "],
+  ])("leaves %s to the AI", (_label, text) => {
+    expect(parseWhatsAppCommand(text)).toBeNull();
+  });
+});
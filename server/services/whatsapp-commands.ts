@@ -0,0 +1,216 @@
+import { store } from "../store";
+import { sendPendingToAccountant } from "./accountant-delivery";
+import { deleteDocumentFile, type StoredFile } from "./blob-storage";
+
+/**
+ * Fixed WhatsApp commands, answered without the AI:
+ *
+ *   שלח לרו״ח                 — email pending documents to the accountant
+ *   ממתינים                   — numbered list of pending documents
+ *   תקן [מספר] קטגוריה <שם>   — recategorize a pending document by its number,
+ *                               or without a number the sender's last upload
+ *   בטל                       — delete the sender's last upload
+ *   חסרים                     — open missing-receipt alerts
+ */
+export type WhatsAppCommand =
+  | { kind: "send_to_accountant" }
+  | { kind: "list_pending" }
+  | { kind: "recategorize"; position: number | null; category: string }
+  | { kind: "undo" }
+  | { kind: "list_missing" }
+  | { kind: "recategorize_usage" };
+
+/** Longer lists are cut short; the numbers keep counting so "תקן 14" still works. */
+const MAX_LISTED = 10;
+
+const MAX_CATEGORY_LENGTH = 40;
+
+const RECATEGORIZE_USAGE =
+  "לתיקון קטגוריה כתבו:\n" +
+  "תקן קטגוריה <שם> — למסמך האחרון ששלחתם\n" +
+  "תקן <מספר> קטגוריה <שם> — למסמך מרשימת הממתינים";
+
+const OPEN_ALERT_STATUSES = new Set(["pending", "notified"]);
+
+const CLOSED_MONTH_REPLY = "החודש של המסמך כבר נסגר אצל רו״ח, ולא ניתן לשנות אותו.";
+
+interface PendingDocument {
+  id: string;
+  vendor: string;
+  amountCents: number;
+  currency: string;
+  category: string;
+  /** In a month the accountant closed */
+  locked: boolean;
+}
+
+interface MissingReceiptAlert {
+  status: string;
+  vendorName: string;
+  expectedMonth: string;
+  avgAmountCents: number | null;
+}
+
+/** Pending documents that can still be sent or changed. */
+async function getPendingDocuments(businessId: string): Promise<PendingDocument[]> {
+  const { documents } = await store.getDashboardDocuments(businessId, "pending");
+  return (documents as PendingDocument[]).filter((document) => !document.locked);
+}
+
+/** The stores refuse changes to documents in a closed month with a 409. */
+function isClosedMonthError(error: unknown): boolean {
+  return (error as { statusCode?: number } | null)?.statusCode === 409;
+}
+
+/** Fold the ways people type רו״ח, trailing punctuation and extra spaces. */
+function normalizeCommandText(text: string): string {
+  return text
+    .trim()
+    .replace(/[״“”]/g, "\"")
+    .replace(/[׳‘’]/g, "'")
+    .replace(/[.!?]+$/, "")
+    .replace(/\s+/g, " ");
+}
+
+/**
+ * Match a message against the command vocabulary. Anything else returns
+ * null and goes to the AI chat.
+ */
+export function parseWhatsAppCommand(text: string): WhatsAppCommand | null {
+  const normalized = normalizeCommandText(text);
+
+  if (/^שלח ל(רו["']?ח|רואה ה?חשבון)$/.test(normalized)) return { kind: "send_to_accountant" };
+  if (/^ממתינים$/.test(normalized)) return { kind: "list_pending" };
+  if (/^בטל$/.test(normalized)) return { kind: "undo" };
+  if (/^חסרים$/.test(normalized)) return { kind: "list_missing" };
+
+  if (/^תקן(\s|$)/.test(normalized)) {
+    const match = normalized.match(/^תקן(?: (\d+))? קטגוריה (.+)$/);
+    const category = match?.[2].trim();
+    if (!match || !category || category.length > MAX_CATEGORY_LENGTH) return { kind: "recategorize_usage" };
+    return { kind: "recategorize", position: match[1] ? Number(match[1]) : null, category };
+  }
+
+  return null;
+}
+
+function formatAmount(amountCents: number, currency: string): string {
+  const value = (amountCents / 100).toLocaleString("he-IL");
+  return currency === "ILS" ? `₪${value}` : `${currency} ${value}`;
+}
+
+async function listPending(businessId: string): Promise<string> {
+  const documents = await getPendingDocuments(businessId);
+  if (documents.length === 0) return "אין מסמכים ממתינים לשליחה.";
+
+  const lines = documents
+    .slice(0, MAX_LISTED)
+    .map((d, index) => `${index + 1}. ${d.vendor} · ${formatAmount(d.amountCents, d.currency)} · ${d.category}`);
+  if (documents.length > MAX_LISTED) lines.push(`ועוד ${documents.length - MAX_LISTED}...`);
+
+  return (
+    `ממתינים לשליחה: ${documents.length} מסמכים\n` +
+    `${lines.join("\n")}\n\n` +
+    `לשינוי קטגוריה: תקן <מספר> קטגוריה <שם>\n` +
+    `לשליחה לרו״ח: שלח לרו״ח`
+  );
+}
+
+async function recategorize(
+  businessId: string,
+  userId: string,
+  position: number | null,
+  category: string,
+): Promise<string> {
+  let target: { id: string; vendor: string } | null;
+  if (position == null) {
+    target = await store.getLastWhatsAppUpload(businessId, userId);
+    if (!target) return "לא מצאתי מסמך ששלחתם ב-WhatsApp.";
+  } else {
+    target = (await getPendingDocuments(businessId))[position - 1] ?? null;
+    if (!target) return `אין מסמך מספר ${position} ברשימת הממתינים. שלחו "ממתינים" לרשימה המעודכנת.`;
+  }
+
+  // updateDocument also learns the vendor → category mapping for next time
+  try {
+    await store.updateDocument(businessId, target.id, { category });
+  } catch (error) {
+    if (isClosedMonthError(error)) return CLOSED_MONTH_REPLY;
+    throw error;
+  }
+  return `עודכן: ${target.vendor} → ${category}`;
+}
+
+async function undoLastUpload(businessId: string, userId: string): Promise<string> {
+  const last = await store.getLastWhatsAppUpload(businessId, userId);
+  if (!last) return "לא מצאתי מסמך ששלחתם ב-WhatsApp.";
+  if (last.status === "sent") return `המסמך של ${last.vendor} כבר נשלח לרו״ח ולא ניתן לבטל אותו.`;
+
+  let file: StoredFile | null;
+  try {
+    file = await store.deleteDocument(businessId, last.id);
+  } catch (error) {
+    if (isClosedMonthError(error)) return CLOSED_MONTH_REPLY;
+    throw error;
+  }
+  if (file) {
+    try {
+      await deleteDocumentFile(file);
+    } catch (error) {
+      console.error(`[whatsapp-commands] Failed to delete file ${file.key}:`, error);
+    }
+  }
+  return `בוטל: ${last.vendor} · ${formatAmount(last.amountCents, last.currency)} נמחק מהדשבורד.`;
+}
+
+async function listMissing(businessId: string): Promise<string> {
+  const alerts = ((await store.getMissingReceiptAlerts(businessId)) as MissingReceiptAlert[])
+    .filter((alert) => OPEN_ALERT_STATUSES.has(alert.status));
+  if (alerts.length === 0) return "אין קבלות חסרות. 👌";
+
+  const lines = alerts
+    .slice(0, MAX_LISTED)
+    .map((alert) =>
+      `• ${alert.vendorName} — ${alert.expectedMonth}` +
+      (alert.avgAmountCents ? ` (כ-${formatAmount(alert.avgAmountCents, "ILS")})` : ""),
+    );
+  if (alerts.length > MAX_LISTED) lines.push(`ועוד ${alerts.length - MAX_LISTED}...`);
+
+  return `חסרות ${alerts.length} קבלות:\n${lines.join("\n")}\n\nאפשר לשלוח אותן לכאן כתמונה או PDF.`;
+}
+
+async function sendToAccountant(businessId: string, senderName: string | null): Promise<string> {
+  try {
+    const result = await sendPendingToAccountant(businessId, { senderName: senderName ?? undefined });
+    if (result.sent === false) return result.message;
+    return `נשלחו ${result.documentCount} מסמכים לרו״ח (${result.accountantEmail}).`;
+  } catch (error) {
+    console.error(`[whatsapp-commands] Send to accountant failed for ${businessId}:`, error);
+    return `לא הצלחתי לשלוח לרו״ח: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+/**
+ * Run a parsed command on behalf of an allowlisted sender and return the
+ * reply to send back.
+ */
+export async function runWhatsAppCommand(
+  businessId: string,
+  sender: { userId: string; fullName: string | null },
+  command: WhatsAppCommand,
+): Promise<string> {
+  switch (command.kind) {
+    case "send_to_accountant":
+      return sendToAccountant(businessId, sender.fullName);
+    case "list_pending":
+      return listPending(businessId);
+    case "recategorize":
+      return recategorize(businessId, sender.userId, command.position, command.category);
+    case "recategorize_usage":
+      return RECATEGORIZE_USAGE;
+    case "undo":
+      return undoLastUpload(businessId, sender.userId);
+    case "list_missing":
+      return listMissing(businessId);
+  }
+}
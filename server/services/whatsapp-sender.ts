@@ -0,0 +1,84 @@
+import { env } from "../config";
+import { store } from "../store";
+import { bridgeGetStatus, bridgeSendText } from "./whatsapp-bridge-client";
+import { cloudSendTemplate, cloudSendText } from "./whatsapp-cloud-client";
+
+/** Free-form messages are only allowed within 24h of the customer's last message. */
+const CUSTOMER_SERVICE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export type WhatsAppProviderName = "baileys" | "cloudapi";
+
+/**
+ * Outbound WhatsApp, whichever provider the deployment runs. Replies go to
+ * the sender of an inbound message; notifications go to the owner's chat.
+ */
+export interface WhatsAppSender {
+  provider: WhatsAppProviderName;
+  /** `to` is a phone number, or a Baileys JID */
+  sendText(businessId: string, to: string, text: string): Promise<{ ok: boolean; messageId?: string }>;
+  /** Where notifications for this business go, or null if WhatsApp isn't connected */
+  getOwnerRecipient(businessId: string): Promise<string | null>;
+}
+
+const bridgeSender: WhatsAppSender = {
+  provider: "baileys",
+  sendText: bridgeSendText,
+  async getOwnerRecipient(businessId) {
+    const session = await bridgeGetStatus(businessId);
+    return session.status === "connected" ? session.connectedJid : null;
+  },
+};
+
+function withinServiceWindow(lastInboundAt: string | null): boolean {
+  return lastInboundAt != null && Date.now() - new Date(lastInboundAt).getTime() < CUSTOMER_SERVICE_WINDOW_MS;
+}
+
+const cloudApiSender: WhatsAppSender = {
+  provider: "cloudapi",
+  async sendText(businessId, to, text) {
+    const lastInboundAt: string | null = await store.getWhatsAppLastInboundAt(businessId, to);
+    try {
+      let result: { ok: boolean; messageId?: string };
+      if (withinServiceWindow(lastInboundAt)) {
+        result = await cloudSendText(to, text);
+      } else if (env.WHATSAPP_TEMPLATE_NAME) {
+        // Outside the window Meta only delivers pre-approved templates
+        result = await cloudSendTemplate(to, env.WHATSAPP_TEMPLATE_NAME, env.WHATSAPP_TEMPLATE_LANG, [text]);
+      } else {
+        throw new Error("WhatsApp template is not configured (missing WHATSAPP_TEMPLATE_NAME) and the 24h window has closed");
+      }
+      await store.markWhatsAppStatusByPhone(to, null);
+      return result;
+    } catch (error) {
+      await store.markWhatsAppStatusByPhone(to, error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+  },
+  async getOwnerRecipient(businessId) {
+    const integration = await store.getWhatsAppIntegrationForBusiness(businessId);
+    if (!integration || integration.provider !== "cloud_api") return null;
+    return integration.customerPhoneE164 || null;
+  },
+};
+
+/** Whether the configured provider has what it needs to send. */
+export function isWhatsAppConfigured(): boolean {
+  return env.WHATSAPP_PROVIDER === "cloudapi"
+    ? Boolean(env.WHATSAPP_ACCESS_TOKEN && env.WHATSAPP_PHONE_NUMBER_ID)
+    : Boolean(env.WHATSAPP_BRIDGE_URL);
+}
+
+export function getWhatsAppSender(): WhatsAppSender {
+  return env.WHATSAPP_PROVIDER === "cloudapi" ? cloudApiSender : bridgeSender;
+}
+
+/**
+ * Send a text message through the configured provider.
+ */
+export async function sendWhatsAppText(
+  businessId: string,
+  to: string,
+  text: string,
+): Promise<{ ok: boolean; messageId?: string }> {
+  return getWhatsAppSender().sendText(businessId, to, text);
+}
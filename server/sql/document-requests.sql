@@ -0,0 +1,13 @@
+-- One open request of each kind per document (store-pg.ts createDocumentRequest
+-- relies on it for ON CONFLICT), plus the thread and to-do list lookups.
+-- Safe to re-run; run with psql, not inside a transaction:
+--   psql "$DATABASE_URL" -f server/sql/document-requests.sql
+
+CREATE UNIQUE INDEX CONCURRENTLY IF NOT EXISTS document_requests_open_kind_idx
+  ON document_requests (document_id, kind) WHERE status = 'OPEN';
+
+CREATE INDEX CONCURRENTLY IF NOT EXISTS document_requests_business_status_idx
+  ON document_requests (business_id, status, created_at DESC);
+
+CREATE INDEX CONCURRENTLY IF NOT EXISTS document_comments_document_idx
+  ON document_comments (document_id, created_at);
@@ -0,0 +1,33 @@
+-- Indexes behind document search (GET /dashboard/:businessId/documents and the
+-- accountant portal). Safe to re-run; CONCURRENTLY keeps the table writable
+-- while they build, so run with psql (not inside a transaction):
+--   psql "$DATABASE_URL" -f server/sql/document-search.sql
+--
+-- The expressions must match the ones in store-pg.ts (DOCUMENT_SEARCH_VECTOR_SQL,
+-- DOCUMENT_SORT_SQL) exactly, or the planner won't use them.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Full-text search over vendor, comments and the original email / caption text
+CREATE INDEX CONCURRENTLY IF NOT EXISTS documents_search_idx ON documents USING gin (
+  to_tsvector('simple',
+    coalesce(vendor_name, '') || ' ' || coalesce(comments, '') || ' ' || coalesce(raw_text, ''))
+);
+
+-- Partial vendor names (ILIKE '%…%')
+CREATE INDEX CONCURRENTLY IF NOT EXISTS documents_vendor_trgm_idx ON documents
+  USING gin (vendor_name gin_trgm_ops);
+
+-- Sort orders, tie-broken on id for keyset pagination
+CREATE INDEX CONCURRENTLY IF NOT EXISTS documents_business_issued_idx ON documents
+  (business_id, issued_at, id);
+CREATE INDEX CONCURRENTLY IF NOT EXISTS documents_business_created_idx ON documents
+  (business_id, created_at, id);
+CREATE INDEX CONCURRENTLY IF NOT EXISTS documents_business_amount_idx ON documents
+  (business_id, (COALESCE(COALESCE(amount_ils_cents, CASE WHEN currency = 'ILS' THEN amount_cents END), 0)), id);
+CREATE INDEX CONCURRENTLY IF NOT EXISTS documents_business_vendor_idx ON documents
+  (business_id, lower(vendor_name), id);
+
+-- Filters
+CREATE INDEX CONCURRENTLY IF NOT EXISTS documents_business_category_idx ON documents (business_id, category);
+CREATE INDEX CONCURRENTLY IF NOT EXISTS documents_inbox_idx ON documents (inbox_connection_id, issued_at);
@@ -0,0 +1,6 @@
+-- One open close per client month (store-pg.ts closePeriod relies on it for
+-- ON CONFLICT). Safe to re-run; run with psql, not inside a transaction:
+--   psql "$DATABASE_URL" -f server/sql/period-closes.sql
+
+CREATE UNIQUE INDEX CONCURRENTLY IF NOT EXISTS period_closes_open_month_idx
+  ON period_closes (business_id, month_key) WHERE reopened_at IS NULL;
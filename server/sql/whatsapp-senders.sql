@@ -0,0 +1,6 @@
+-- WhatsApp senders added by email used to be created as MEMBER rows, which
+-- also let them open the dashboard. They are sender-only now (store-pg.ts
+-- setWhatsAppSender). Safe to re-run:
+--   psql "$DATABASE_URL" -f server/sql/whatsapp-senders.sql
+
+UPDATE business_members SET role = 'SENDER' WHERE role = 'MEMBER';
@@ -13,6 +13,14 @@ import type {
   WhatsAppIntegrationStatus,
   WhatsAppProvider,
 } from "./store";
+import { requiresAllocationNumber } from "./services/israeli-ids";
+import {
+  SORT_SPECS,
+  encodeCursor,
+  searchTokens,
+  type DocumentSearch,
+  type DocumentSortField,
+} from "./services/document-search";
 
 function nowIso(): string {
   return new Date().toISOString();
@@ -41,6 +49,150 @@ function escapeCsv(value: string | number | null): string {
   return text;
 }
 
+/** Shekel amount of a document; foreign-currency rows without a rate yet are left out of sums. */
+const ILS_AMOUNT_SQL = `COALESCE(amount_ils_cents, CASE WHEN currency = 'ILS' THEN amount_cents END)`;
+
+/** Confirmed duplicates stay stored (and visible in their group) but count nowhere else. */
+const COUNTED_SQL = `duplicate_status IS DISTINCT FROM 'CONFIRMED'`;
+
+/**
+ * The close in force for a document's month, as `pc`. Documents there at the
+ * close are locked; ones that arrived after it are late. Months are Israeli
+ * calendar months, as in the exports.
+ */
+const PERIOD_CLOSE_JOIN_SQL = `LEFT JOIN period_closes pc ON pc.business_id = d.business_id
+    AND pc.month_key = to_char(d.issued_at AT TIME ZONE 'Asia/Jerusalem', 'YYYY-MM') AND pc.reopened_at IS NULL`;
+const DOCUMENT_LOCKED_SQL = `(pc.closed_at IS NOT NULL AND d.created_at <= pc.closed_at)`;
+const DOCUMENT_LATE_SQL = `(pc.closed_at IS NOT NULL AND d.created_at > pc.closed_at)`;
+
+function closedPeriodError(): Error {
+  return Object.assign(new Error("This document's month was closed by the accountant"), { statusCode: 409 });
+}
+
+/** Dashboard list rows; filters on `d` (documents) follow. */
+const DASHBOARD_DOCUMENT_SELECT_SQL = `SELECT d.id, d.vendor_name AS vendor, d.amount_cents AS "amountCents",
+         d.currency, ${ILS_AMOUNT_SQL.replace(/amount_|currency/g, "d.$&")} AS "amountIlsCents",
+         d.issued_at AS "issuedAt", d.category,
+         d.status, d.source, d.type, d.confidence,
+         (d.file_key IS NOT NULL) AS "hasFile", d.duplicate_status AS "duplicateStatus",
+         COALESCE(ic.provider, 'WHATSAPP') AS "inboxProvider",
+         COALESCE(NULLIF(ub.full_name, ''), ub.email) AS "uploadedBy",
+         ${DOCUMENT_LOCKED_SQL} AS locked, ${DOCUMENT_LATE_SQL} AS late
+  FROM documents d
+  LEFT JOIN inbox_connections ic ON ic.id = d.inbox_connection_id
+  LEFT JOIN users ub ON ub.id = d.uploaded_by_user_id
+  ${PERIOD_CLOSE_JOIN_SQL}`;
+
+/** Staff rows as the API shows them; roles are stored uppercase. */
+const ACCOUNTANT_STAFF_COLUMNS_SQL = `id, firm_id AS "firmId", email, full_name AS "fullName",
+  LOWER(role) AS role, created_at AS "createdAt"`;
+
+const STAFF_INVITATION_SELECT_SQL = `SELECT i.id, i.firm_id AS "firmId", f.name AS "firmName", i.email,
+    i.full_name AS "fullName", LOWER(i.role) AS role, i.invited_by_staff_id AS "invitedByStaffId",
+    i.expires_at AS "expiresAt", i.created_at AS "createdAt"
+  FROM accountant_staff_invitations i
+  JOIN accountant_firms f ON f.id = i.firm_id`;
+
+/** Not yet accepted, declined, revoked or expired */
+const OPEN_STAFF_INVITATION_SQL = `i.accepted_at IS NULL AND i.declined_at IS NULL AND i.revoked_at IS NULL
+  AND i.expires_at > now()`;
+
+const PERIOD_CLOSE_COLUMNS_SQL = `id, business_id AS "businessId", month_key AS "monthKey",
+  closed_at AS "closedAt", closed_by_email AS "closedByEmail", reopened_at AS "reopenedAt",
+  reopened_by_email AS "reopenedByEmail", reopen_reason AS "reopenReason"`;
+
+/** Thread comments, with `users u` joined for the business's authors. Kinds and statuses are stored uppercase. */
+const DOCUMENT_COMMENT_COLUMNS_SQL = `c.id, c.business_id AS "businessId", c.document_id AS "documentId",
+  c.request_id AS "requestId", LOWER(c.author_type) AS author,
+  COALESCE(c.author_email, NULLIF(u.full_name, ''), u.email) AS "authorName", c.body, c.created_at AS "createdAt"`;
+
+/** Requests with the document they're about, from `document_requests r` joined to `documents d`. */
+const DOCUMENT_REQUEST_SELECT_SQL = `SELECT r.id, r.business_id AS "businessId", r.document_id AS "documentId",
+    LOWER(r.kind) AS kind, r.message, LOWER(r.status) AS status, r.requested_by_email AS "requestedByEmail",
+    r.created_at AS "createdAt", r.resolved_at AS "resolvedAt", LOWER(r.resolved_by) AS "resolvedBy",
+    json_build_object('vendor', d.vendor_name, 'issuedAt', d.issued_at, 'amountCents', d.amount_cents,
+      'currency', d.currency) AS document
+  FROM document_requests r
+  JOIN documents d ON d.id = r.document_id`;
+
+const CLIENT_INVITATION_COLUMNS_SQL = `id, firm_id AS "firmId", accountant_email AS "accountantEmail",
+  accountant_name AS "accountantName", firm_name AS "firmName",
+  auto_monthly_delivery AS "autoMonthlyDelivery", monthly_delivery_day AS "monthlyDeliveryDay",
+  client_email AS "clientEmail", client_name AS "clientName", send_count AS "sendCount",
+  last_sent_at AS "lastSentAt", expires_at AS "expiresAt", revoked_at AS "revokedAt",
+  accepted_at AS "acceptedAt", accepted_business_id AS "acceptedBusinessId", created_at AS "createdAt"`;
+
+/**
+ * Full-text search document; server/sql/document-search.sql indexes this exact
+ * expression. 'simple' since Postgres has no Hebrew dictionary.
+ */
+const DOCUMENT_SEARCH_VECTOR_SQL = `to_tsvector('simple',
+  coalesce(d.vendor_name, '') || ' ' || coalesce(d.comments, '') || ' ' || coalesce(d.raw_text, ''))`;
+
+/** Sort keys for document search, each with the type its cursor value is cast back to. */
+const DOCUMENT_SORT_SQL: Record<DocumentSortField, { expr: string; cast: string }> = {
+  issuedAt: { expr: "d.issued_at", cast: "timestamptz" },
+  amount: { expr: `COALESCE(${ILS_AMOUNT_SQL.replace(/amount_|currency/g, "d.$&")}, 0)`, cast: "bigint" },
+  vendor: { expr: "lower(d.vendor_name)", cast: "text" },
+  createdAt: { expr: "d.created_at", cast: "timestamptz" },
+};
+
+function toDashboardDocument(r: any) {
+  return {
+    id: r.id,
+    vendor: r.vendor,
+    amountCents: r.amountCents,
+    currency: r.currency,
+    amountIlsCents: r.amountIlsCents,
+    issuedAt: r.issuedAt?.toISOString?.() ?? r.issuedAt,
+    category: r.category ?? "כללי",
+    status: r.status.toLowerCase(),
+    source: r.source.toLowerCase(),
+    provider: r.inboxProvider.toLowerCase(),
+    type: r.type.toLowerCase(),
+    confidence: parseFloat(r.confidence),
+    hasFile: r.hasFile,
+    duplicateStatus: r.duplicateStatus?.toLowerCase() ?? null,
+    uploadedBy: r.uploadedBy ?? null,
+    locked: r.locked,
+    late: r.late,
+  };
+}
+
+const DUPLICATE_FINGERPRINT_SQL =`d.id, d.business_id AS "businessId", d.vendor_name AS "vendorName",
+  d.amount_cents AS "amountCents", d.currency, d.issued_at AS "issuedAt", d.type,
+  d.invoice_number AS "invoiceNumber", d.content_hash AS "contentHash", d.duplicate_status AS "duplicateStatus"`;
+
+/** Business members as WhatsApp senders; expects `bm` (business_members) joined to `u` (users). */
+const WHATSAPP_SENDER_SQL = `bm.id AS "memberId", bm.user_id AS "userId", u.email, u.full_name AS "fullName",
+  LOWER(bm.role) AS role, bm.whatsapp_phone_e164 AS "phoneE164"`;
+
+const SCAN_JOB_COLUMNS_SQL = `id, business_id AS "businessId", inbox_connection_id AS "inboxConnectionId",
+  status, current_pass AS "currentPass",
+  gmail_query AS "gmailQuery", discovery_page_token AS "discoveryPageToken",
+  total_discovered AS "totalDiscovered",
+  total_to_process AS "totalToProcess", processed_count AS "processedCount",
+  documents_created AS "documentsCreated", skipped_count AS "skippedCount",
+  error_count AS "errorCount",
+  ai_total AS "aiTotal", ai_processed AS "aiProcessed",
+  after_date AS "afterDate", before_date AS "beforeDate",
+  extra_terms AS "extraTerms", excluded_senders AS "excludedSenders",
+  last_error AS "lastError",
+  created_at AS "createdAt", updated_at AS "updatedAt"`;
+
+const OUTBOX_COLUMNS_SQL = `id, business_id AS "businessId", LOWER(channel) AS channel, kind, recipient,
+  LOWER(status) AS status, attempts, max_attempts AS "maxAttempts",
+  CASE WHEN status IN ('SENT', 'FAILED') THEN NULL ELSE next_attempt_at END AS "nextAttemptAt",
+  last_error AS "lastError", provider_message_id AS "providerMessageId", sent_at AS "sentAt",
+  created_at AS "createdAt", updated_at AS "updatedAt"`;
+
+const JOB_COLUMNS_SQL = `id, name, payload, LOWER(status) AS status, run_at AS "runAt", attempts,
+  max_attempts AS "maxAttempts", locked_by AS "lockedBy", last_error AS "lastError",
+  created_at AS "createdAt", updated_at AS "updatedAt"`;
+
+const JOB_RUN_COLUMNS_SQL = `id, job_id AS "jobId", name, worker_id AS "workerId", LOWER(status) AS status, attempt,
+  started_at AS "startedAt", finished_at AS "finishedAt", duration_ms AS "durationMs", result, error`;
+
 const PROVIDER_MAP: Record<string, string> = {
   gmail: "GMAIL",
   outlook: "OUTLOOK",
@@ -65,7 +217,9 @@ export class AppStorePg {
   private async getBusinessOrThrow(businessId: string) {
     const row = await this.queryOne(
       `SELECT id, name, accountant_display_name AS "accountantDisplayName",
-              currency, timezone, onboarding_completed_at AS "onboardingCompletedAt",
+              currency, timezone, tax_id AS "taxId",
+              vat_reporting_frequency AS "vatReportingFrequency",
+              onboarding_completed_at AS "onboardingCompletedAt",
               stripe_customer_id AS "stripeCustomerId",
               stripe_subscription_id AS "stripeSubscriptionId",
               subscription_status AS "subscriptionStatus",
@@ -336,6 +490,52 @@ export class AppStorePg {
     };
   }
 
+  // ─── imap inbox ───
+
+  async connectImapInbox(payload: {
+    businessId: string;
+    provider: "imap" | "yahoo" | "icloud";
+    email: string;
+    imap: { host: string; port: number; secure: boolean; username: string; passwordEncrypted: string };
+  }) {
+    await this.getBusinessOrThrow(payload.businessId);
+    const provider = PROVIDER_MAP[payload.provider];
+    const email = normalizeEmail(payload.email);
+    const owner = await this.getOwnerForBusiness(payload.businessId);
+    const { host, port, secure, username, passwordEncrypted } = payload.imap;
+
+    const inbox = await this.queryOne(
+      `SELECT id FROM inbox_connections WHERE business_id = $1 AND LOWER(email) = $2`,
+      [payload.businessId, email],
+    );
+
+    if (!inbox) {
+      await this.query(
+        `INSERT INTO inbox_connections
+         (id, business_id, user_id, provider, email, status, auth_method,
+          imap_host, imap_port, imap_secure, imap_username, imap_password_encrypted)
+         VALUES ($1, $2, $3, $4, $5, 'CONNECTED', 'APP_PASSWORD', $6, $7, $8, $9, $10)`,
+        [randomUUID(), payload.businessId, owner?.id ?? null, provider, email,
+          host, port, secure, username, passwordEncrypted],
+      );
+    } else {
+      // New credentials may point at a different mailbox — restart the cursor
+      await this.query(
+        `UPDATE inbox_connections SET provider = $1, status = 'CONNECTED', auth_method = 'APP_PASSWORD',
+         oauth_connection_id = NULL, imap_host = $2, imap_port = $3, imap_secure = $4,
+         imap_username = $5, imap_password_encrypted = $6,
+         imap_uid_validity = NULL, imap_last_uid = NULL, updated_at = now()
+         WHERE id = $7`,
+        [provider, host, port, secure, username, passwordEncrypted, inbox.id],
+      );
+    }
+
+    return {
+      businessId: payload.businessId,
+      connectedInboxes: await this.serializeConnectedInboxes(payload.businessId),
+    };
+  }
+
   // ─── oauth inbox ───
 
   async upsertOAuthInbox(payload: {
@@ -478,7 +678,7 @@ export class AppStorePg {
     return this.serializeWhatsAppIntegration(payload.businessId);
   }
 
-  async markWhatsAppInbound(payload: { fromPhone: string; text: string }) {
+  async markWhatsAppInbound(payload: { fromPhone: string; text?: string | null }) {
     const phone = normalizePhone(payload.fromPhone);
     const integration = await this.queryOne(
       `SELECT id, business_id FROM whatsapp_integrations
@@ -486,18 +686,31 @@ export class AppStorePg {
        LIMIT 1`,
       [phone],
     );
-    if (!integration) return null;
+    if (!integration) {
+      // Other allowlisted members message the same number
+      const member = phone
+        ? await this.queryOne(
+          `UPDATE business_members SET whatsapp_last_inbound_at = now()
+           WHERE id = (SELECT id FROM business_members WHERE whatsapp_phone_e164 = $1 ORDER BY created_at LIMIT 1)
+           RETURNING business_id`,
+          [phone],
+        )
+        : null;
+      return member ? { businessId: member.business_id } : null;
+    }
 
     await this.query(
       `UPDATE whatsapp_integrations SET status = 'CONNECTED', last_inbound_at = now(),
        last_error = NULL, updated_at = now() WHERE id = $1`,
       [integration.id],
     );
-    await this.query(
-      `INSERT INTO conversation_messages (id, business_id, channel, direction, text)
-       VALUES ($1, $2, 'WHATSAPP', 'USER', $3)`,
-      [randomUUID(), integration.business_id, payload.text],
-    );
+    if (payload.text) {
+      await this.query(
+        `INSERT INTO conversation_messages (id, business_id, channel, direction, text)
+         VALUES ($1, $2, 'WHATSAPP', 'USER', $3)`,
+        [randomUUID(), integration.business_id, payload.text],
+      );
+    }
     return { businessId: integration.business_id };
   }
 
@@ -535,11 +748,11 @@ export class AppStorePg {
     const totalsRow = await this.queryOne(
       `SELECT
          COUNT(*)::int AS documents,
-         COALESCE(SUM(amount_cents), 0)::int AS "amountCents",
+         COALESCE(SUM(${ILS_AMOUNT_SQL}), 0)::int AS "amountCents",
          COUNT(*) FILTER (WHERE status = 'SENT')::int AS sent,
          COUNT(*) FILTER (WHERE status = 'PENDING')::int AS pending,
          COUNT(*) FILTER (WHERE status = 'REVIEW')::int AS review
-       FROM documents WHERE business_id = $1`,
+       FROM documents WHERE business_id = $1 AND ${COUNTED_SQL}`,
       [businessId],
     );
 
@@ -554,14 +767,14 @@ export class AppStorePg {
     const prevMonthStart = new Date(now.getFullYear(), now.getMonth() - 1, 1);
 
     const currentRow = await this.queryOne(
-      `SELECT COUNT(*)::int AS documents, COALESCE(SUM(amount_cents), 0)::int AS "amountCents"
-       FROM documents WHERE business_id = $1 AND issued_at >= $2`,
+      `SELECT COUNT(*)::int AS documents, COALESCE(SUM(${ILS_AMOUNT_SQL}), 0)::int AS "amountCents"
+       FROM documents WHERE business_id = $1 AND issued_at >= $2 AND ${COUNTED_SQL}`,
       [businessId, monthStart.toISOString()],
     );
 
     const prevRow = await this.queryOne(
-      `SELECT COUNT(*)::int AS documents, COALESCE(SUM(amount_cents), 0)::int AS "amountCents"
-       FROM documents WHERE business_id = $1 AND issued_at >= $2 AND issued_at < $3`,
+      `SELECT COUNT(*)::int AS documents, COALESCE(SUM(${ILS_AMOUNT_SQL}), 0)::int AS "amountCents"
+       FROM documents WHERE business_id = $1 AND issued_at >= $2 AND issued_at < $3 AND ${COUNTED_SQL}`,
       [businessId, prevMonthStart.toISOString(), monthStart.toISOString()],
     );
 
@@ -642,31 +855,154 @@ export class AppStorePg {
     }
 
     const rows = await this.query(
-      `SELECT d.id, d.vendor_name AS vendor, d.amount_cents AS "amountCents",
-              d.currency, d.issued_at AS "issuedAt", d.category,
-              d.status, d.source, d.type, d.confidence,
+      `${DASHBOARD_DOCUMENT_SELECT_SQL}
+       WHERE d.business_id = $1 AND d.${COUNTED_SQL} ${statusFilter}
+       ORDER BY d.issued_at DESC`,
+      params,
+    );
+
+    return {
+      businessId,
+      documents: rows.map(toDashboardDocument),
+    };
+  }
+
+  /** Filtered, sorted page of dashboard rows; `nextCursor` is null on the last page. */
+  async searchDocuments(businessId: string, search: DocumentSearch) {
+    await this.getBusinessOrThrow(businessId);
+
+    const conditions = ["d.business_id = $1", `d.${COUNTED_SQL}`];
+    const params: unknown[] = [businessId];
+    const add = (value: unknown) => {
+      params.push(value);
+      return `$${params.length}`;
+    };
+
+    if (search.status !== "all") conditions.push(`d.status = ${add(search.status.toUpperCase())}`);
+    if (search.from) conditions.push(`d.issued_at >= ${add(search.from)}::date`);
+    if (search.to) conditions.push(`d.issued_at < ${add(search.to)}::date + 1`);
+    if (search.minAmountCents !== undefined) {
+      conditions.push(`${DOCUMENT_SORT_SQL.amount.expr} >= ${add(search.minAmountCents)}`);
+    }
+    if (search.maxAmountCents !== undefined) {
+      conditions.push(`${DOCUMENT_SORT_SQL.amount.expr} <= ${add(search.maxAmountCents)}`);
+    }
+    if (search.category) conditions.push(`COALESCE(d.category, 'כללי') = ${add(search.category)}`);
+    if (search.type) conditions.push(`d.type = ${add(search.type.toUpperCase())}`);
+    if (search.source) conditions.push(`d.source = ${add(search.source.toUpperCase())}`);
+    if (search.inboxId) conditions.push(`d.inbox_connection_id = ${add(search.inboxId)}`);
+    if (search.late) conditions.push(DOCUMENT_LATE_SQL);
+
+    const tokens = searchTokens(search.q);
+    if (tokens.length > 0) {
+      // Full-text for words anywhere in the text; the trigram match on vendor
+      // also catches partial vendor names that aren't word prefixes
+      const tsQuery = add(tokens.map((token) => `${token}:*`).join(" & "));
+      const vendorPattern = add(`%${search.q!.trim().replace(/[\\%_]/g, "\\$&")}%`);
+      conditions.push(`(${DOCUMENT_SEARCH_VECTOR_SQL} @@ to_tsquery('simple', ${tsQuery}) OR d.vendor_name ILIKE ${vendorPattern})`);
+    }
+
+    const { field, descending } = SORT_SPECS[search.sort];
+    const sortKey = DOCUMENT_SORT_SQL[field];
+    const direction = descending ? "DESC" : "ASC";
+    if (search.cursor) {
+      conditions.push(
+        `(${sortKey.expr}, d.id) ${descending ? "<" : ">"} (${add(search.cursor.value)}::${sortKey.cast}, ${add(search.cursor.id)})`,
+      );
+    }
+
+    // One extra row tells whether there's a next page
+    const rows = await this.query(
+      `${DASHBOARD_DOCUMENT_SELECT_SQL.replace("SELECT ", `SELECT (${sortKey.expr})::text AS "sortKey", `)}
+       WHERE ${conditions.join(" AND ")}
+       ORDER BY ${sortKey.expr} ${direction}, d.id ${direction}
+       LIMIT ${add(search.limit + 1)}`,
+      params,
+    );
+
+    const page = rows.slice(0, search.limit);
+    const last = page[page.length - 1];
+    return {
+      businessId,
+      documents: page.map(toDashboardDocument),
+      nextCursor: rows.length > search.limit && last
+        ? encodeCursor(search.sort, { value: last.sortKey, id: last.id })
+        : null,
+    };
+  }
+
+  /** One document as a dashboard list row, or null if the list doesn't show it. */
+  async getDashboardDocument(businessId: string, documentId: string) {
+    const row = await this.queryOne(
+      `${DASHBOARD_DOCUMENT_SELECT_SQL}
+       WHERE d.business_id = $1 AND d.id = $2 AND d.${COUNTED_SQL}`,
+      [businessId, documentId],
+    );
+    return row ? toDashboardDocument(row) : null;
+  }
+
+  async getExportDocuments(businessId: string, filter: { status: string; from?: string; to?: string }) {
+    const business = await this.getBusinessOrThrow(businessId);
+
+    const conditions = ["d.business_id = $1", `d.${COUNTED_SQL}`];
+    const params: unknown[] = [businessId];
+    if (filter.status !== "all") {
+      params.push(filter.status.toUpperCase());
+      conditions.push(`d.status = $${params.length}`);
+    }
+    if (filter.from) {
+      params.push(filter.from);
+      conditions.push(`d.issued_at >= $${params.length}::date`);
+    }
+    if (filter.to) {
+      params.push(filter.to);
+      conditions.push(`d.issued_at < $${params.length}::date + 1`);
+    }
+
+    const rows = await this.query(
+      `SELECT d.id, d.vendor_name AS vendor, d.amount_cents AS "amountCents", d.vat_cents AS "vatCents",
+              d.currency, d.issued_at AS "issuedAt", d.category, d.type, d.status, d.source, d.confidence,
+              d.supplier_tax_id AS "supplierTaxId", d.is_fixed_asset AS "isFixedAsset",
+              d.vat_estimated AS "vatEstimated", d.invoice_number AS "invoiceNumber",
+              d.allocation_number AS "allocationNumber",
+              ${ILS_AMOUNT_SQL.replace(/amount_|currency/g, "d.$&")} AS "amountIlsCents",
+              COALESCE(d.exchange_rate, CASE WHEN d.currency = 'ILS' THEN 1 END)::float AS "exchangeRate",
               COALESCE(ic.provider, 'WHATSAPP') AS "inboxProvider"
        FROM documents d
        LEFT JOIN inbox_connections ic ON ic.id = d.inbox_connection_id
-       WHERE d.business_id = $1 ${statusFilter}
-       ORDER BY d.issued_at DESC`,
+       WHERE ${conditions.join(" AND ")}
+       ORDER BY d.issued_at ASC`,
       params,
     );
 
     return {
-      businessId,
-      documents: rows.map((r: any) => ({
+      business: {
+        id: business.id,
+        name: business.name,
+        currency: business.currency,
+        taxId: business.taxId ?? null,
+        vatReportingFrequency: business.vatReportingFrequency ?? "bimonthly",
+      },
+      documents: rows.map((r) => ({
         id: r.id,
         vendor: r.vendor,
         amountCents: r.amountCents,
+        vatCents: r.vatCents,
         currency: r.currency,
+        amountIlsCents: r.amountIlsCents,
+        exchangeRate: r.exchangeRate,
         issuedAt: r.issuedAt?.toISOString?.() ?? r.issuedAt,
         category: r.category ?? "כללי",
+        type: r.type.toLowerCase(),
         status: r.status.toLowerCase(),
         source: r.source.toLowerCase(),
         provider: r.inboxProvider.toLowerCase(),
-        type: r.type.toLowerCase(),
         confidence: parseFloat(r.confidence),
+        supplierTaxId: r.supplierTaxId ?? null,
+        isFixedAsset: r.isFixedAsset ?? false,
+        vatEstimated: r.vatEstimated ?? false,
+        invoiceNumber: r.invoiceNumber ?? null,
+        allocationNumber: r.allocationNumber ?? null,
       })),
     };
   }
@@ -675,9 +1011,13 @@ export class AppStorePg {
     await this.getBusinessOrThrow(businessId);
 
     const row = await this.queryOne(
-      `SELECT d.*, COALESCE(ic.provider, 'WHATSAPP') AS "inboxProvider"
+      `SELECT d.*, COALESCE(ic.provider, 'WHATSAPP') AS "inboxProvider",
+              COALESCE(NULLIF(ub.full_name, ''), ub.email) AS "uploadedBy",
+              ${DOCUMENT_LOCKED_SQL} AS locked, ${DOCUMENT_LATE_SQL} AS late
        FROM documents d
        LEFT JOIN inbox_connections ic ON ic.id = d.inbox_connection_id
+       LEFT JOIN users ub ON ub.id = d.uploaded_by_user_id
+       ${PERIOD_CLOSE_JOIN_SQL}
        WHERE d.business_id = $1 AND d.id = $2`,
       [businessId, documentId],
     );
@@ -689,7 +1029,10 @@ export class AppStorePg {
       vendor: row.vendor_name,
       amountCents: row.amount_cents,
       currency: row.currency,
+      amountIlsCents: row.amount_ils_cents ?? (row.currency === "ILS" ? row.amount_cents : null),
+      exchangeRate: row.exchange_rate != null ? parseFloat(row.exchange_rate) : row.currency === "ILS" ? 1 : null,
       vatCents: row.vat_cents,
+      vatEstimated: row.vat_estimated ?? false,
       issuedAt: row.issued_at?.toISOString?.() ?? row.issued_at,
       status: row.status.toLowerCase(),
       source: row.source.toLowerCase(),
@@ -697,7 +1040,26 @@ export class AppStorePg {
       type: row.type.toLowerCase(),
       category: row.category ?? "כללי",
       confidence: parseFloat(row.confidence),
+      supplierTaxId: row.supplier_tax_id ?? null,
+      isFixedAsset: row.is_fixed_asset ?? false,
+      invoiceNumber: row.invoice_number ?? null,
+      allocationNumber: row.allocation_number ?? null,
+      allocationNumberRequired: !row.allocation_number && requiresAllocationNumber({
+        type: row.type,
+        currency: row.currency,
+        amountCents: row.amount_cents,
+        vatCents: row.vat_cents,
+        issuedAt: row.issued_at,
+      }),
+      duplicateOfId: row.duplicate_of_id ?? null,
+      duplicateStatus: row.duplicate_status?.toLowerCase() ?? null,
+      uploadedBy: row.uploadedBy ?? null,
+      locked: row.locked,
+      late: row.late,
       rawText: row.raw_text,
+      file: row.file_key
+        ? { filename: row.file_name, mimeType: row.file_mime_type, sizeBytes: row.file_size_bytes }
+        : null,
       createdAt: row.created_at?.toISOString?.() ?? row.created_at,
       updatedAt: row.updated_at?.toISOString?.() ?? row.updated_at,
     };
@@ -705,13 +1067,16 @@ export class AppStorePg {
 
   async exportDashboardCsv(businessId: string, status: string = "all") {
     const data = await this.getDashboardDocuments(businessId, status);
-    const header = ["id", "vendor", "amount_cents", "currency", "issued_at", "category", "status", "source", "provider", "type", "confidence"].join(",");
+    const header = [
+      "id", "vendor", "amount_cents", "currency", "issued_at", "category", "status", "source", "provider", "type", "confidence",
+      "amount_ils_cents",
+    ].join(",");
     const body = data.documents.map((row: any) =>
       [
         escapeCsv(row.id), escapeCsv(row.vendor), escapeCsv(row.amountCents),
         escapeCsv(row.currency), escapeCsv(row.issuedAt), escapeCsv(row.category),
         escapeCsv(row.status), escapeCsv(row.source), escapeCsv(row.provider),
-        escapeCsv(row.type), escapeCsv(row.confidence),
+        escapeCsv(row.type), escapeCsv(row.confidence), escapeCsv(row.amountIlsCents),
       ].join(","),
     );
     return [header, ...body].join("\n");
@@ -835,6 +1200,8 @@ export class AppStorePg {
         accountantName: business.accountantDisplayName,
         currency: business.currency,
         timezone: business.timezone,
+        taxId: business.taxId ?? null,
+        vatReportingFrequency: business.vatReportingFrequency ?? "bimonthly",
       },
       owner: owner
         ? {
@@ -872,6 +1239,8 @@ export class AppStorePg {
     businessName?: string;
     preferredLanguage?: string;
     currency?: string;
+    taxId?: string | null;
+    vatReportingFrequency?: "monthly" | "bimonthly";
   }) {
     await this.getBusinessOrThrow(payload.businessId);
     const owner = await this.getOwnerForBusiness(payload.businessId);
@@ -903,6 +1272,12 @@ export class AppStorePg {
     if (payload.currency?.trim()) {
       await this.query(`UPDATE businesses SET currency = $1, updated_at = now() WHERE id = $2`, [payload.currency.trim().toUpperCase(), payload.businessId]);
     }
+    if (payload.taxId !== undefined) {
+      await this.query(`UPDATE businesses SET tax_id = $1, updated_at = now() WHERE id = $2`, [payload.taxId?.trim() || null, payload.businessId]);
+    }
+    if (payload.vatReportingFrequency !== undefined) {
+      await this.query(`UPDATE businesses SET vat_reporting_frequency = $1, updated_at = now() WHERE id = $2`, [payload.vatReportingFrequency, payload.businessId]);
+    }
 
     return this.getSettings(payload.businessId);
   }
@@ -989,6 +1364,7 @@ export class AppStorePg {
               provider, email, status, auth_method AS "authMethod",
               oauth_connection_id AS "oauthConnectionId",
               last_sync_at AS "lastSyncAt", gmail_history_id AS "gmailHistoryId",
+              outlook_delta_link AS "outlookDeltaLink",
               created_at AS "createdAt", updated_at AS "updatedAt"
        FROM inbox_connections WHERE id = $1`,
       [id],
@@ -1033,6 +1409,57 @@ export class AppStorePg {
     );
   }
 
+  async getOutlookInboxes(businessId: string) {
+    return this.query(
+      `SELECT id, business_id AS "businessId", provider, email, status,
+              auth_method AS "authMethod", oauth_connection_id AS "oauthConnectionId",
+              outlook_delta_link AS "outlookDeltaLink"
+       FROM inbox_connections
+       WHERE business_id = $1 AND provider = 'OUTLOOK' AND status = 'CONNECTED'
+         AND auth_method = 'OAUTH' AND oauth_connection_id IS NOT NULL`,
+      [businessId],
+    );
+  }
+
+  async getImapInboxes(businessId: string) {
+    return this.query(
+      `SELECT id, business_id AS "businessId", provider, email, status
+       FROM inbox_connections
+       WHERE business_id = $1 AND status = 'CONNECTED' AND auth_method = 'APP_PASSWORD'`,
+      [businessId],
+    );
+  }
+
+  async getImapInboxCredentials(inboxConnectionId: string) {
+    return this.queryOne(
+      `SELECT id, business_id AS "businessId", provider, email,
+              imap_host AS "host", imap_port AS "port", imap_secure AS "secure",
+              COALESCE(imap_username, email) AS "username",
+              imap_password_encrypted AS "passwordEncrypted",
+              imap_uid_validity AS "uidValidity", imap_last_uid AS "lastUid"
+       FROM inbox_connections
+       WHERE id = $1 AND auth_method = 'APP_PASSWORD'
+         AND imap_host IS NOT NULL AND imap_password_encrypted IS NOT NULL`,
+      [inboxConnectionId],
+    );
+  }
+
+  async hasDocumentForImapMessage(businessId: string, imapMessageId: string): Promise<boolean> {
+    const row = await this.queryOne(
+      `SELECT 1 FROM documents WHERE business_id = $1 AND imap_message_id = $2 LIMIT 1`,
+      [businessId, imapMessageId],
+    );
+    return Boolean(row);
+  }
+
+  async hasDocumentForOutlookMessage(businessId: string, outlookMessageId: string): Promise<boolean> {
+    const row = await this.queryOne(
+      `SELECT 1 FROM documents WHERE business_id = $1 AND outlook_message_id = $2 LIMIT 1`,
+      [businessId, outlookMessageId],
+    );
+    return Boolean(row);
+  }
+
   async hasDocumentForGmailMessage(businessId: string, gmailMessageId: string): Promise<boolean> {
     const row = await this.queryOne(
       `SELECT 1 FROM documents WHERE business_id = $1 AND gmail_message_id = $2 LIMIT 1`,
@@ -1051,31 +1478,135 @@ export class AppStorePg {
     amountCents: number;
     currency: string;
     vatCents?: number | null;
+    vatEstimated?: boolean;
+    amountIlsCents?: number | null;
+    exchangeRate?: number | null;
     issuedAt: string;
     confidence: number;
     category?: string | null;
     rawText?: string | null;
     gmailMessageId?: string | null;
+    outlookMessageId?: string | null;
+    imapMessageId?: string | null;
+    invoiceNumber?: string | null;
+    supplierTaxId?: string | null;
+    allocationNumber?: string | null;
+    uploadedByUserId?: string | null;
+    file?: { key: string; filename: string; mimeType: string; sizeBytes: number; sha256?: string } | null;
   }) {
     const id = randomUUID();
     await this.query(
       `INSERT INTO documents
        (id, business_id, inbox_connection_id, source, type, status,
-        vendor_name, amount_cents, currency, vat_cents, issued_at,
-        confidence, category, raw_text, gmail_message_id)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)`,
+        vendor_name, amount_cents, currency, vat_cents, vat_estimated, issued_at,
+        confidence, category, raw_text, gmail_message_id, outlook_message_id, imap_message_id,
+        file_key, file_name, file_mime_type, file_size_bytes, amount_ils_cents, exchange_rate,
+        invoice_number, content_hash, supplier_tax_id, allocation_number, uploaded_by_user_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24,
+               $25, $26, $27, $28, $29)`,
       [
         id, doc.businessId, doc.inboxConnectionId ?? null,
         doc.source, doc.type, doc.status,
         doc.vendorName, doc.amountCents, doc.currency,
-        doc.vatCents ?? null, doc.issuedAt,
+        doc.vatCents ?? null, doc.vatEstimated ?? false, doc.issuedAt,
         doc.confidence, doc.category ?? null, doc.rawText ?? null,
-        doc.gmailMessageId ?? null,
+        doc.gmailMessageId ?? null, doc.outlookMessageId ?? null, doc.imapMessageId ?? null,
+        doc.file?.key ?? null, doc.file?.filename ?? null,
+        doc.file?.mimeType ?? null, doc.file?.sizeBytes ?? null,
+        doc.amountIlsCents ?? (doc.currency === "ILS" ? doc.amountCents : null),
+        doc.exchangeRate ?? (doc.currency === "ILS" ? 1 : null),
+        doc.invoiceNumber ?? null, doc.file?.sha256 ?? null,
+        doc.supplierTaxId ?? null, doc.allocationNumber ?? null,
+        doc.uploadedByUserId ?? null,
       ],
     );
     return { id };
   }
 
+  async attachDocumentFile(businessId: string, documentId: string, file: {
+    key: string;
+    filename: string;
+    mimeType: string;
+    sizeBytes: number;
+    sha256?: string;
+  }) {
+    const rows = await this.query(
+      `UPDATE documents
+       SET file_key = $1, file_name = $2, file_mime_type = $3, file_size_bytes = $4,
+           content_hash = COALESCE($7, content_hash), updated_at = now()
+       WHERE business_id = $5 AND id = $6
+       RETURNING id`,
+      [file.key, file.filename, file.mimeType, file.sizeBytes, businessId, documentId, file.sha256 ?? null],
+    );
+    if (rows.length === 0) throw new Error("Document not found");
+  }
+
+  async getDocumentFile(businessId: string, documentId: string) {
+    const row = await this.queryOne(
+      `SELECT file_key AS key, file_name AS filename,
+              file_mime_type AS "mimeType", file_size_bytes AS "sizeBytes"
+       FROM documents WHERE business_id = $1 AND id = $2`,
+      [businessId, documentId],
+    );
+    if (!row) throw new Error("Document not found");
+    if (!row.key) return null;
+    return {
+      key: row.key,
+      filename: row.filename ?? "document",
+      mimeType: row.mimeType ?? "application/octet-stream",
+      sizeBytes: row.sizeBytes ?? 0,
+    };
+  }
+
+  /** The newest document a member sent over WhatsApp, or null. */
+  async getLastWhatsAppUpload(businessId: string, userId: string) {
+    const row = await this.queryOne(
+      `SELECT id, vendor_name AS vendor, amount_cents AS "amountCents", currency,
+              category, status, created_at AS "createdAt"
+       FROM documents
+       WHERE business_id = $1 AND source = 'WHATSAPP' AND uploaded_by_user_id = $2
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [businessId, userId],
+    );
+    if (!row) return null;
+    return {
+      id: row.id,
+      vendor: row.vendor,
+      amountCents: row.amountCents,
+      currency: row.currency,
+      category: row.category ?? "כללי",
+      status: row.status.toLowerCase(),
+      createdAt: row.createdAt?.toISOString?.() ?? row.createdAt,
+    };
+  }
+
+  /**
+   * Remove a document. Duplicates that pointed at it are unlinked; the
+   * stored file reference is returned so the caller can delete the blob.
+   */
+  async deleteDocument(businessId: string, documentId: string) {
+    const doc = await this.queryOne(
+      `SELECT ${DOCUMENT_LOCKED_SQL} AS locked
+       FROM documents d ${PERIOD_CLOSE_JOIN_SQL}
+       WHERE d.business_id = $1 AND d.id = $2`,
+      [businessId, documentId],
+    );
+    if (doc?.locked) throw closedPeriodError();
+    const file = await this.getDocumentFile(businessId, documentId);
+    await this.query(
+      `UPDATE documents
+       SET duplicate_of_id = NULL, duplicate_status = NULL, duplicate_reason = NULL, updated_at = now()
+       WHERE business_id = $1 AND duplicate_of_id = $2`,
+      [businessId, documentId],
+    );
+    await this.query(
+      `DELETE FROM documents WHERE business_id = $1 AND id = $2`,
+      [businessId, documentId],
+    );
+    return file;
+  }
+
   async updateInboxSyncCursor(inboxConnectionId: string, gmailHistoryId: string) {
     await this.query(
       `UPDATE inbox_connections SET gmail_history_id = $1, last_sync_at = now(), updated_at = now()
@@ -1084,6 +1615,23 @@ export class AppStorePg {
     );
   }
 
+  async updateInboxDeltaLink(inboxConnectionId: string, outlookDeltaLink: string) {
+    await this.query(
+      `UPDATE inbox_connections SET outlook_delta_link = $1, last_sync_at = now(), updated_at = now()
+       WHERE id = $2`,
+      [outlookDeltaLink, inboxConnectionId],
+    );
+  }
+
+  async updateImapSyncCursor(inboxConnectionId: string, uidValidity: string, lastUid: number) {
+    await this.query(
+      `UPDATE inbox_connections SET imap_uid_validity = $1, imap_last_uid = $2,
+       last_sync_at = now(), updated_at = now()
+       WHERE id = $3`,
+      [uidValidity, lastUid, inboxConnectionId],
+    );
+  }
+
   async getConnectedWhatsAppIntegrations() {
     return this.query(
       `SELECT id, business_id AS "businessId", provider,
@@ -1094,6 +1642,10 @@ export class AppStorePg {
     );
   }
 
+  async getWhatsAppIntegrationForBusiness(businessId: string) {
+    return this.serializeWhatsAppIntegration(businessId);
+  }
+
   async getAccountantForBusiness(businessId: string) {
     const business = await this.getBusinessOrThrow(businessId);
     return this.ensureAccountantContact(businessId, business.accountantDisplayName ?? business.name);
@@ -1104,7 +1656,11 @@ export class AppStorePg {
     const placeholders = documentIds.map((_, i) => `$${i + 3}`).join(",");
     const result = await this.query(
       `UPDATE documents SET status = 'SENT', updated_at = $1
-       WHERE business_id = $2 AND id IN (${placeholders}) AND status != 'SENT'`,
+       WHERE business_id = $2 AND id IN (${placeholders}) AND status != 'SENT'
+         AND id NOT IN (
+           SELECT d.id FROM documents d ${PERIOD_CLOSE_JOIN_SQL}
+           WHERE d.business_id = $2 AND ${DOCUMENT_LOCKED_SQL}
+         )`,
       [nowIso(), businessId, ...documentIds],
     );
     return (result as any).rowCount ?? documentIds.length;
@@ -1114,15 +1670,29 @@ export class AppStorePg {
     category?: string;
     comments?: string | null;
     amountCents?: number;
+    currency?: string;
+    /** Conversion for a new amount or currency; without it the stored rate is reapplied */
+    amountIlsCents?: number | null;
+    exchangeRate?: number | null;
     vendorName?: string;
     status?: string;
+    vatCents?: number | null;
+    vatEstimated?: boolean;
+    supplierTaxId?: string | null;
+    isFixedAsset?: boolean;
+    invoiceNumber?: string | null;
+    allocationNumber?: string | null;
   }) {
     await this.getBusinessOrThrow(businessId);
     const doc = await this.queryOne(
-      `SELECT id FROM documents WHERE business_id = $1 AND id = $2`,
+      `SELECT d.id, d.amount_cents AS "amountCents", d.currency, d.exchange_rate::float AS "exchangeRate",
+              ${DOCUMENT_LOCKED_SQL} AS locked
+       FROM documents d ${PERIOD_CLOSE_JOIN_SQL}
+       WHERE d.business_id = $1 AND d.id = $2`,
       [businessId, documentId],
     );
     if (!doc) throw new Error("Document not found");
+    if (doc.locked) throw closedPeriodError();
 
     const sets: string[] = [];
     const vals: any[] = [];
@@ -1131,8 +1701,27 @@ export class AppStorePg {
     if (updates.category !== undefined) { sets.push(`category = $${idx++}`); vals.push(updates.category); }
     if (updates.comments !== undefined) { sets.push(`comments = $${idx++}`); vals.push(updates.comments); }
     if (updates.amountCents !== undefined) { sets.push(`amount_cents = $${idx++}`); vals.push(updates.amountCents); }
+    if (updates.currency !== undefined) { sets.push(`currency = $${idx++}`); vals.push(updates.currency); }
+    if (updates.exchangeRate !== undefined) {
+      sets.push(`exchange_rate = $${idx++}`, `amount_ils_cents = $${idx++}`);
+      vals.push(updates.exchangeRate, updates.amountIlsCents ?? null);
+    } else if (updates.amountCents !== undefined || updates.currency !== undefined) {
+      const amountCents = updates.amountCents ?? doc.amountCents;
+      const currency = updates.currency ?? doc.currency;
+      const rate = currency === "ILS" ? 1 : updates.currency !== undefined ? null : doc.exchangeRate ?? null;
+      sets.push(`exchange_rate = $${idx++}`, `amount_ils_cents = $${idx++}`);
+      vals.push(rate, rate != null ? Math.round(amountCents * rate) : null);
+    }
     if (updates.vendorName !== undefined) { sets.push(`vendor_name = $${idx++}`); vals.push(updates.vendorName); }
     if (updates.status !== undefined) { sets.push(`status = $${idx++}`); vals.push(updates.status.toUpperCase()); }
+    if (updates.vatCents !== undefined) {
+      sets.push(`vat_cents = $${idx++}`, `vat_estimated = $${idx++}`);
+      vals.push(updates.vatCents, updates.vatEstimated ?? false);
+    }
+    if (updates.supplierTaxId !== undefined) { sets.push(`supplier_tax_id = $${idx++}`); vals.push(updates.supplierTaxId?.trim() || null); }
+    if (updates.isFixedAsset !== undefined) { sets.push(`is_fixed_asset = $${idx++}`); vals.push(updates.isFixedAsset); }
+    if (updates.invoiceNumber !== undefined) { sets.push(`invoice_number = $${idx++}`); vals.push(updates.invoiceNumber?.trim() || null); }
+    if (updates.allocationNumber !== undefined) { sets.push(`allocation_number = $${idx++}`); vals.push(updates.allocationNumber?.trim() || null); }
     sets.push(`updated_at = now()`);
 
     vals.push(businessId, documentId);
@@ -1185,28 +1774,24 @@ export class AppStorePg {
     inboxConnectionId: string,
     gmailQuery: string,
     afterDate: string,
+    filters: { beforeDate: string | null; extraTerms: string | null; excludedSenders: string[] } = {
+      beforeDate: null, extraTerms: null, excludedSenders: [],
+    },
   ) {
     const id = randomUUID();
     await this.query(
-      `INSERT INTO scan_jobs (id, business_id, inbox_connection_id, gmail_query, after_date)
-       VALUES ($1, $2, $3, $4, $5)`,
-      [id, businessId, inboxConnectionId, gmailQuery, afterDate],
+      `INSERT INTO scan_jobs (id, business_id, inbox_connection_id, gmail_query, after_date,
+                              before_date, extra_terms, excluded_senders)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [id, businessId, inboxConnectionId, gmailQuery, afterDate,
+        filters.beforeDate, filters.extraTerms, filters.excludedSenders],
     );
     return { id };
   }
 
   async getActiveScanJob(businessId: string) {
     return this.queryOne(
-      `SELECT id, business_id AS "businessId", inbox_connection_id AS "inboxConnectionId",
-              status, current_pass AS "currentPass",
-              gmail_query AS "gmailQuery", discovery_page_token AS "discoveryPageToken",
-              total_discovered AS "totalDiscovered",
-              total_to_process AS "totalToProcess", processed_count AS "processedCount",
-              documents_created AS "documentsCreated", skipped_count AS "skippedCount",
-              error_count AS "errorCount",
-              ai_total AS "aiTotal", ai_processed AS "aiProcessed",
-              after_date AS "afterDate", last_error AS "lastError",
-              created_at AS "createdAt", updated_at AS "updatedAt"
+      `SELECT ${SCAN_JOB_COLUMNS_SQL}
        FROM scan_jobs
        WHERE business_id = $1 AND status IN ('DISCOVERING', 'PROCESSING', 'AI_PASS')
        ORDER BY created_at DESC LIMIT 1`,
@@ -1216,16 +1801,7 @@ export class AppStorePg {
 
   async getScanJob(scanJobId: string) {
     return this.queryOne(
-      `SELECT id, business_id AS "businessId", inbox_connection_id AS "inboxConnectionId",
-              status, current_pass AS "currentPass",
-              gmail_query AS "gmailQuery", discovery_page_token AS "discoveryPageToken",
-              total_discovered AS "totalDiscovered",
-              total_to_process AS "totalToProcess", processed_count AS "processedCount",
-              documents_created AS "documentsCreated", skipped_count AS "skippedCount",
-              error_count AS "errorCount",
-              ai_total AS "aiTotal", ai_processed AS "aiProcessed",
-              after_date AS "afterDate", last_error AS "lastError",
-              created_at AS "createdAt", updated_at AS "updatedAt"
+      `SELECT ${SCAN_JOB_COLUMNS_SQL}
        FROM scan_jobs WHERE id = $1`,
       [scanJobId],
     );
@@ -1233,19 +1809,10 @@ export class AppStorePg {
 
   async getAllActiveScanJobs() {
     return this.query(
-      `SELECT id, business_id AS "businessId", inbox_connection_id AS "inboxConnectionId",
-              status, current_pass AS "currentPass",
-              gmail_query AS "gmailQuery", discovery_page_token AS "discoveryPageToken",
-              total_discovered AS "totalDiscovered",
-              total_to_process AS "totalToProcess", processed_count AS "processedCount",
-              documents_created AS "documentsCreated", skipped_count AS "skippedCount",
-              error_count AS "errorCount",
-              ai_total AS "aiTotal", ai_processed AS "aiProcessed",
-              after_date AS "afterDate", last_error AS "lastError",
-              created_at AS "createdAt", updated_at AS "updatedAt"
+      `SELECT ${SCAN_JOB_COLUMNS_SQL}
        FROM scan_jobs
        WHERE status IN ('DISCOVERING', 'PROCESSING', 'AI_PASS')
-       ORDER BY created_at ASC`,
+       ORDER BY updated_at ASC`,
     );
   }
 
@@ -1255,7 +1822,10 @@ export class AppStorePg {
     let idx = 1;
     for (const [key, value] of Object.entries(updates)) {
       const col = key.replace(/[A-Z]/g, (m) => `_${m.toLowerCase()}`);
-      sets.push(`${col} = $${idx++}`);
+      // A batch that was mid-flight when the scan got cancelled must not revive it
+      sets.push(col === "status"
+        ? `status = CASE WHEN status = 'CANCELLED' THEN status ELSE $${idx++} END`
+        : `${col} = $${idx++}`);
       vals.push(value);
     }
     sets.push(`updated_at = now()`);
@@ -1361,18 +1931,41 @@ export class AppStorePg {
     return Boolean(row);
   }
 
+  /** The latest scan of each inbox, with the inbox's address. */
+  async getScanJobsForBusiness(businessId: string) {
+    return this.query(
+      `SELECT latest.*, ic.email AS "inboxEmail"
+       FROM (
+         SELECT DISTINCT ON (inbox_connection_id) ${SCAN_JOB_COLUMNS_SQL}
+         FROM scan_jobs
+         WHERE business_id = $1
+         ORDER BY inbox_connection_id, created_at DESC
+       ) latest
+       LEFT JOIN inbox_connections ic ON ic.id = latest."inboxConnectionId"
+       ORDER BY latest."createdAt" DESC`,
+      [businessId],
+    );
+  }
+
+  /**
+   * Stop a scan for good and drop its queue. Documents it already created
+   * stay. Returns false if the scan had already finished.
+   */
+  async cancelScanJob(scanJobId: string): Promise<boolean> {
+    const row = await this.queryOne(
+      `UPDATE scan_jobs SET status = 'CANCELLED', discovery_page_token = NULL, updated_at = now()
+       WHERE id = $1 AND status IN ('DISCOVERING', 'PROCESSING', 'AI_PASS', 'PAUSED')
+       RETURNING id`,
+      [scanJobId],
+    );
+    if (!row) return false;
+    await this.query(`DELETE FROM scan_queue WHERE scan_job_id = $1`, [scanJobId]);
+    return true;
+  }
+
   async getLatestCompletedScanJob(businessId: string) {
     return this.queryOne(
-      `SELECT id, business_id AS "businessId", inbox_connection_id AS "inboxConnectionId",
-              status, current_pass AS "currentPass",
-              discovery_page_token AS "discoveryPageToken",
-              total_discovered AS "totalDiscovered",
-              total_to_process AS "totalToProcess", processed_count AS "processedCount",
-              documents_created AS "documentsCreated", skipped_count AS "skippedCount",
-              error_count AS "errorCount",
-              ai_total AS "aiTotal", ai_processed AS "aiProcessed",
-              last_error AS "lastError",
-              created_at AS "createdAt", updated_at AS "updatedAt"
+      `SELECT ${SCAN_JOB_COLUMNS_SQL}
        FROM scan_jobs
        WHERE business_id = $1
        ORDER BY created_at DESC LIMIT 1`,
@@ -1380,59 +1973,254 @@ export class AppStorePg {
     );
   }
 
-  // ─── Billing ───
+  // ─── owner auth ───
 
-  async getBusinessBilling(businessId: string) {
-    const biz = await this.getBusinessOrThrow(businessId);
-    return {
-      stripeCustomerId: biz.stripeCustomerId ?? null,
-      stripeSubscriptionId: biz.stripeSubscriptionId ?? null,
-      subscriptionStatus: biz.subscriptionStatus ?? "free",
-      onboardingPaid: biz.onboardingPaid ?? false,
-    };
+  async getUserByEmail(email: string) {
+    return this.queryOne(
+      `SELECT id, email, full_name AS "fullName", phone,
+              preferred_language AS "preferredLanguage"
+       FROM users WHERE email = $1`,
+      [normalizeEmail(email)],
+    );
   }
 
-  async updateBusinessBilling(businessId: string, updates: {
-    stripeCustomerId?: string;
-    stripeSubscriptionId?: string;
-    subscriptionStatus?: string;
-    onboardingPaid?: boolean;
-  }) {
-    const setClauses: string[] = ["updated_at = now()"];
-    const params: any[] = [];
-    let idx = 1;
-
-    if (updates.stripeCustomerId !== undefined) {
-      setClauses.push(`stripe_customer_id = $${idx++}`);
-      params.push(updates.stripeCustomerId);
-    }
-    if (updates.stripeSubscriptionId !== undefined) {
-      setClauses.push(`stripe_subscription_id = $${idx++}`);
-      params.push(updates.stripeSubscriptionId);
-    }
-    if (updates.subscriptionStatus !== undefined) {
-      setClauses.push(`subscription_status = $${idx++}`);
-      params.push(updates.subscriptionStatus);
-    }
-    if (updates.onboardingPaid !== undefined) {
-      setClauses.push(`onboarding_paid = $${idx++}`);
-      params.push(updates.onboardingPaid);
-    }
-
-    params.push(businessId);
-    await pool.query(
-      `UPDATE businesses SET ${setClauses.join(", ")} WHERE id = $${idx}`,
-      params,
+  async getUserById(userId: string) {
+    return this.queryOne(
+      `SELECT id, email, full_name AS "fullName", phone,
+              preferred_language AS "preferredLanguage"
+       FROM users WHERE id = $1`,
+      [userId],
     );
   }
 
-  async getBusinessByStripeCustomerId(stripeCustomerId: string) {
-    return this.queryOne(
-      `SELECT id, name, stripe_customer_id AS "stripeCustomerId",
-              subscription_status AS "subscriptionStatus",
-              onboarding_paid AS "onboardingPaid"
-       FROM businesses WHERE stripe_customer_id = $1`,
-      [stripeCustomerId],
+  async getBusinessesForUser(userId: string) {
+    return this.query(
+      `SELECT b.id, b.name, bm.role
+       FROM business_members bm
+       JOIN businesses b ON b.id = bm.business_id
+       WHERE bm.user_id = $1 AND bm.role <> 'SENDER'
+       ORDER BY bm.created_at ASC`,
+      [userId],
+    );
+  }
+
+  async isBusinessMember(userId: string, businessId: string): Promise<boolean> {
+    const row = await this.queryOne(
+      `SELECT 1 FROM business_members WHERE user_id = $1 AND business_id = $2 AND role <> 'SENDER' LIMIT 1`,
+      [userId, businessId],
+    );
+    return Boolean(row);
+  }
+
+  async createUserSession(userId: string, expiresAt: string) {
+    const id = randomUUID();
+    await this.query(
+      `INSERT INTO user_sessions (id, user_id, expires_at) VALUES ($1, $2, $3)`,
+      [id, userId, expiresAt],
+    );
+    return this.getUserSession(id);
+  }
+
+  async getUserSession(sessionId: string) {
+    return this.queryOne(
+      `SELECT id, user_id AS "userId", expires_at AS "expiresAt",
+              revoked_at AS "revokedAt", created_at AS "createdAt"
+       FROM user_sessions WHERE id = $1`,
+      [sessionId],
+    );
+  }
+
+  async revokeUserSession(sessionId: string): Promise<void> {
+    await this.query(
+      `UPDATE user_sessions SET revoked_at = now() WHERE id = $1 AND revoked_at IS NULL`,
+      [sessionId],
+    );
+  }
+
+  /** Record an owner magic link nonce; false if it was already used. */
+  async consumeUserMagicLink(payload: { nonce: string; email: string; expiresAt: string }): Promise<boolean> {
+    // Used links only matter until they'd have expired anyway
+    await this.query(`DELETE FROM user_magic_link_uses WHERE expires_at < now()`);
+    const row = await this.queryOne(
+      `INSERT INTO user_magic_link_uses (nonce, email, expires_at)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (nonce) DO NOTHING
+       RETURNING nonce`,
+      [payload.nonce, payload.email, payload.expiresAt],
+    );
+    return Boolean(row);
+  }
+
+  // ─── WhatsApp senders ───
+
+  async getWhatsAppSenders(businessId: string) {
+    await this.getBusinessOrThrow(businessId);
+    return this.query(
+      `SELECT ${WHATSAPP_SENDER_SQL}
+       FROM business_members bm
+       JOIN users u ON u.id = bm.user_id
+       WHERE bm.business_id = $1
+       ORDER BY (bm.role = 'OWNER') DESC, bm.created_at ASC`,
+      [businessId],
+    );
+  }
+
+  /**
+   * Allow a number to send documents, as an existing member or a sender-only
+   * entry added by email. Allowlisting never grants access to the dashboard.
+   */
+  async setWhatsAppSender(businessId: string, payload: { email: string; fullName?: string | null; phoneE164: string }) {
+    await this.getBusinessOrThrow(businessId);
+    const phone = normalizePhone(payload.phoneE164);
+    const email = normalizeEmail(payload.email);
+
+    let user = await this.queryOne(`SELECT id FROM users WHERE email = $1 LIMIT 1`, [email]);
+    if (!user) {
+      user = { id: randomUUID() };
+      await this.query(
+        `INSERT INTO users (id, email, full_name, phone, preferred_language) VALUES ($1, $2, $3, $4, 'he')`,
+        [user.id, email, payload.fullName?.trim() || null, phone],
+      );
+    }
+
+    const taken = await this.queryOne(
+      `SELECT 1 FROM business_members WHERE business_id = $1 AND user_id <> $2 AND whatsapp_phone_e164 = $3 LIMIT 1`,
+      [businessId, user.id, phone],
+    );
+    if (taken) {
+      throw Object.assign(new Error("This phone number is already assigned to another member"), { statusCode: 409 });
+    }
+
+    let member = await this.queryOne(
+      `UPDATE business_members SET whatsapp_phone_e164 = $3
+       WHERE business_id = $1 AND user_id = $2 RETURNING id`,
+      [businessId, user.id, phone],
+    );
+    if (!member) {
+      member = { id: randomUUID() };
+      await this.query(
+        `INSERT INTO business_members (id, business_id, user_id, role, whatsapp_phone_e164)
+         VALUES ($1, $2, $3, 'SENDER', $4)`,
+        [member.id, businessId, user.id, phone],
+      );
+    }
+    return this.queryOne(
+      `SELECT ${WHATSAPP_SENDER_SQL}
+       FROM business_members bm JOIN users u ON u.id = bm.user_id
+       WHERE bm.id = $1`,
+      [member.id],
+    );
+  }
+
+  async removeWhatsAppSender(businessId: string, memberId: string) {
+    const member = await this.queryOne(
+      `UPDATE business_members SET whatsapp_phone_e164 = NULL
+       WHERE business_id = $1 AND id = $2 RETURNING id`,
+      [businessId, memberId],
+    );
+    if (!member) throw new Error("Member not found");
+    const sender = await this.queryOne(
+      `SELECT ${WHATSAPP_SENDER_SQL}
+       FROM business_members bm JOIN users u ON u.id = bm.user_id
+       WHERE bm.id = $1`,
+      [member.id],
+    );
+    // A sender-only entry has nothing left once its number is gone
+    await this.query(`DELETE FROM business_members WHERE id = $1 AND role = 'SENDER'`, [member.id]);
+    return sender;
+  }
+
+  /**
+   * The member a WhatsApp number belongs to, or null if it isn't allowlisted.
+   * The number WhatsApp was connected with counts as the owner's.
+   */
+  async findWhatsAppSender(businessId: string, fromPhone: string) {
+    const phone = normalizePhone(fromPhone);
+    if (!phone) return null;
+    return this.queryOne(
+      `SELECT ${WHATSAPP_SENDER_SQL}
+       FROM business_members bm
+       JOIN users u ON u.id = bm.user_id
+       WHERE bm.business_id = $1
+         AND (bm.whatsapp_phone_e164 = $2
+           OR (bm.role = 'OWNER' AND EXISTS (
+             SELECT 1 FROM whatsapp_integrations wi
+             WHERE wi.business_id = bm.business_id
+               AND REPLACE(REPLACE(wi.customer_phone_e164, ' ', ''), '-', '') = $2)))
+       ORDER BY (bm.whatsapp_phone_e164 = $2) DESC NULLS LAST
+       LIMIT 1`,
+      [businessId, phone],
+    );
+  }
+
+  /** When this number last messaged the business — the start of its 24h reply window. */
+  async getWhatsAppLastInboundAt(businessId: string, phoneOrJid: string): Promise<string | null> {
+    const phone = normalizePhone(phoneOrJid.replace(/@.*$/, ""));
+    const row = await this.queryOne(
+      `SELECT GREATEST(
+         (SELECT MAX(last_inbound_at) FROM whatsapp_integrations
+          WHERE business_id = $1 AND REPLACE(REPLACE(customer_phone_e164, ' ', ''), '-', '') = $2),
+         (SELECT MAX(whatsapp_last_inbound_at) FROM business_members
+          WHERE business_id = $1 AND whatsapp_phone_e164 = $2)
+       ) AS "lastInboundAt"`,
+      [businessId, phone],
+    );
+    return row?.lastInboundAt?.toISOString?.() ?? row?.lastInboundAt ?? null;
+  }
+
+  // ─── Billing ───
+
+  async getBusinessBilling(businessId: string) {
+    const biz = await this.getBusinessOrThrow(businessId);
+    return {
+      stripeCustomerId: biz.stripeCustomerId ?? null,
+      stripeSubscriptionId: biz.stripeSubscriptionId ?? null,
+      subscriptionStatus: biz.subscriptionStatus ?? "free",
+      onboardingPaid: biz.onboardingPaid ?? false,
+    };
+  }
+
+  async updateBusinessBilling(businessId: string, updates: {
+    stripeCustomerId?: string;
+    stripeSubscriptionId?: string;
+    subscriptionStatus?: string;
+    onboardingPaid?: boolean;
+  }) {
+    const setClauses: string[] = ["updated_at = now()"];
+    const params: any[] = [];
+    let idx = 1;
+
+    if (updates.stripeCustomerId !== undefined) {
+      setClauses.push(`stripe_customer_id = $${idx++}`);
+      params.push(updates.stripeCustomerId);
+    }
+    if (updates.stripeSubscriptionId !== undefined) {
+      setClauses.push(`stripe_subscription_id = $${idx++}`);
+      params.push(updates.stripeSubscriptionId);
+    }
+    if (updates.subscriptionStatus !== undefined) {
+      setClauses.push(`subscription_status = $${idx++}`);
+      params.push(updates.subscriptionStatus);
+    }
+    if (updates.onboardingPaid !== undefined) {
+      setClauses.push(`onboarding_paid = $${idx++}`);
+      params.push(updates.onboardingPaid);
+    }
+
+    params.push(businessId);
+    await pool.query(
+      `UPDATE businesses SET ${setClauses.join(", ")} WHERE id = $${idx}`,
+      params,
+    );
+  }
+
+  async getBusinessByStripeCustomerId(stripeCustomerId: string) {
+    return this.queryOne(
+      `SELECT id, name, stripe_customer_id AS "stripeCustomerId",
+              subscription_status AS "subscriptionStatus",
+              onboarding_paid AS "onboardingPaid"
+       FROM businesses WHERE stripe_customer_id = $1`,
+      [stripeCustomerId],
     );
   }
 
@@ -1483,12 +2271,280 @@ export class AppStorePg {
     );
   }
 
+  // ─── Vendor VAT treatments ───
+
+  async getVendorVatTreatment(businessId: string, vendorName: string): Promise<"standard" | "exempt" | "foreign" | null> {
+    const row = await this.queryOne(
+      `SELECT treatment FROM vendor_vat_treatments
+       WHERE business_id = $1 AND vendor_name_normalized = $2`,
+      [businessId, vendorName.trim().toLowerCase()],
+    );
+    return row?.treatment ?? null;
+  }
+
+  async getVendorVatTreatments(businessId: string) {
+    return this.query(
+      `SELECT vendor_name_original AS "vendorName", treatment
+       FROM vendor_vat_treatments
+       WHERE business_id = $1
+       ORDER BY vendor_name_original`,
+      [businessId],
+    );
+  }
+
+  async setVendorVatTreatment(
+    businessId: string,
+    vendorName: string,
+    treatment: "standard" | "exempt" | "foreign" | null,
+  ) {
+    await this.getBusinessOrThrow(businessId);
+    const normalized = vendorName.trim().toLowerCase();
+    if (!treatment) {
+      await this.query(
+        `DELETE FROM vendor_vat_treatments WHERE business_id = $1 AND vendor_name_normalized = $2`,
+        [businessId, normalized],
+      );
+    } else {
+      await this.query(
+        `INSERT INTO vendor_vat_treatments
+           (id, business_id, vendor_name_normalized, vendor_name_original, treatment)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (business_id, vendor_name_normalized)
+         DO UPDATE SET treatment = $5, updated_at = now()`,
+        [randomUUID(), businessId, normalized, vendorName.trim(), treatment],
+      );
+    }
+    return this.getVendorVatTreatments(businessId);
+  }
+
+  /**
+   * Documents whose VAT we derived rather than read off the invoice. Legacy
+   * rows predate vat_estimated, so they match on the old flat 17%-of-total estimate.
+   * Documents in a closed month are left as the accountant closed them.
+   */
+  async getVatBackfillCandidates(filter: { businessId?: string; vendorName?: string; afterId?: string; limit: number }) {
+    const conditions = [
+      "d.amount_cents > 0",
+      `(d.vat_estimated = true
+        OR (d.vat_estimated IS NULL AND (d.vat_cents IS NULL OR d.vat_cents = FLOOR(d.amount_cents * 0.17))))`,
+      `NOT ${DOCUMENT_LOCKED_SQL}`,
+    ];
+    const params: unknown[] = [];
+    if (filter.businessId) {
+      params.push(filter.businessId);
+      conditions.push(`d.business_id = $${params.length}`);
+    }
+    if (filter.vendorName) {
+      params.push(filter.vendorName.trim().toLowerCase());
+      conditions.push(`LOWER(TRIM(d.vendor_name)) = $${params.length}`);
+    }
+    if (filter.afterId) {
+      params.push(filter.afterId);
+      conditions.push(`d.id > $${params.length}`);
+    }
+    params.push(filter.limit);
+
+    const rows = await this.query(
+      `SELECT d.id, d.business_id AS "businessId", d.vendor_name AS "vendorName",
+              d.amount_cents AS "amountCents", d.vat_cents AS "vatCents", d.currency, d.issued_at AS "issuedAt"
+       FROM documents d ${PERIOD_CLOSE_JOIN_SQL}
+       WHERE ${conditions.join(" AND ")}
+       ORDER BY d.id
+       LIMIT $${params.length}`,
+      params,
+    );
+    return rows.map((r) => ({ ...r, issuedAt: r.issuedAt?.toISOString?.() ?? r.issuedAt }));
+  }
+
+  async updateDocumentVat(documentId: string, vatCents: number | null): Promise<void> {
+    await this.query(
+      `UPDATE documents SET vat_cents = $1, vat_estimated = true, updated_at = now()
+       WHERE id = $2
+         AND id NOT IN (SELECT d.id FROM documents d ${PERIOD_CLOSE_JOIN_SQL} WHERE d.id = $2 AND ${DOCUMENT_LOCKED_SQL})`,
+      [vatCents, documentId],
+    );
+  }
+
+  // ─── Exchange rates ───
+
+  async upsertExchangeRates(rates: Array<{ currency: string; rateDate: string; rate: number; source: string }>): Promise<number> {
+    for (const rate of rates) {
+      await this.query(
+        `INSERT INTO exchange_rates (currency, rate_date, rate, source)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (currency, rate_date) DO UPDATE SET rate = $3, source = $4`,
+        [rate.currency, rate.rateDate, rate.rate, rate.source],
+      );
+    }
+    return rates.length;
+  }
+
+  /** Latest published rate on or before `date` (YYYY-MM-DD). */
+  async getExchangeRate(currency: string, date: string): Promise<{ currency: string; rateDate: string; rate: number } | null> {
+    return this.queryOne(
+      `SELECT currency, to_char(rate_date, 'YYYY-MM-DD') AS "rateDate", rate::float AS rate
+       FROM exchange_rates
+       WHERE currency = $1 AND rate_date <= $2::date
+       ORDER BY rate_date DESC LIMIT 1`,
+      [currency, date],
+    );
+  }
+
+  /** Foreign-currency documents still waiting for a rate, outside closed months. */
+  async getUnconvertedDocuments(filter: { afterId?: string; limit: number }) {
+    const conditions = ["d.currency <> 'ILS'", "d.amount_ils_cents IS NULL", `NOT ${DOCUMENT_LOCKED_SQL}`];
+    const params: unknown[] = [];
+    if (filter.afterId) {
+      params.push(filter.afterId);
+      conditions.push(`d.id > $${params.length}`);
+    }
+    params.push(filter.limit);
+
+    const rows = await this.query(
+      `SELECT d.id, d.amount_cents AS "amountCents", d.currency, d.issued_at AS "issuedAt"
+       FROM documents d ${PERIOD_CLOSE_JOIN_SQL}
+       WHERE ${conditions.join(" AND ")}
+       ORDER BY d.id
+       LIMIT $${params.length}`,
+      params,
+    );
+    return rows.map((r) => ({ ...r, issuedAt: r.issuedAt?.toISOString?.() ?? r.issuedAt }));
+  }
+
+  async updateDocumentConversion(
+    documentId: string,
+    conversion: { amountIlsCents: number | null; exchangeRate: number | null },
+  ): Promise<void> {
+    await this.query(
+      `UPDATE documents SET amount_ils_cents = $1, exchange_rate = $2, updated_at = now()
+       WHERE id = $3
+         AND id NOT IN (SELECT d.id FROM documents d ${PERIOD_CLOSE_JOIN_SQL} WHERE d.id = $3 AND ${DOCUMENT_LOCKED_SQL})`,
+      [conversion.amountIlsCents, conversion.exchangeRate, documentId],
+    );
+  }
+
+  // ─── Duplicates ───
+
+  async getDuplicateFingerprint(documentId: string) {
+    const row = await this.queryOne(
+      `SELECT ${DUPLICATE_FINGERPRINT_SQL},
+              EXISTS (SELECT 1 FROM documents c WHERE c.duplicate_of_id = d.id) AS "hasDuplicates"
+       FROM documents d WHERE d.id = $1`,
+      [documentId],
+    );
+    return row ? { ...row, issuedAt: row.issuedAt?.toISOString?.() ?? row.issuedAt } : null;
+  }
+
+  /** Possible originals: the same file, or anything dated inside the window. */
+  async getDuplicateCandidates(
+    businessId: string,
+    filter: { excludeId: string; contentHash: string | null; from: string; to: string },
+  ) {
+    const rows = await this.query(
+      `SELECT ${DUPLICATE_FINGERPRINT_SQL}
+       FROM documents d
+       WHERE d.business_id = $1 AND d.id <> $2 AND d.duplicate_of_id IS NULL
+         AND (d.content_hash = $3 OR d.issued_at BETWEEN $4 AND $5)
+       ORDER BY d.created_at ASC
+       LIMIT 200`,
+      [businessId, filter.excludeId, filter.contentHash, filter.from, filter.to],
+    );
+    return rows.map((r) => ({ ...r, issuedAt: r.issuedAt?.toISOString?.() ?? r.issuedAt }));
+  }
+
+  async markDuplicate(
+    documentId: string,
+    link: { duplicateOfId: string; status: string; reason: string } | null,
+  ): Promise<void> {
+    await this.query(
+      `UPDATE documents
+       SET duplicate_of_id = $1, duplicate_status = $2, duplicate_reason = $3, updated_at = now()
+       WHERE id = $4`,
+      [link?.duplicateOfId ?? null, link?.status ?? null, link?.reason ?? null, documentId],
+    );
+  }
+
+  /** Originals with their linked copies, for review. */
+  async getDuplicateGroups(businessId: string, status: "SUSPECTED" | "CONFIRMED") {
+    await this.getBusinessOrThrow(businessId);
+
+    const rows = await this.query(
+      `SELECT d.id, d.duplicate_of_id AS "duplicateOfId", d.vendor_name AS vendor, d.amount_cents AS "amountCents",
+              d.currency, ${ILS_AMOUNT_SQL.replace(/amount_|currency/g, "d.$&")} AS "amountIlsCents",
+              d.issued_at AS "issuedAt", d.source, d.type, d.invoice_number AS "invoiceNumber",
+              (d.file_key IS NOT NULL) AS "hasFile",
+              d.duplicate_status AS "duplicateStatus", d.duplicate_reason AS "duplicateReason",
+              COALESCE(ic.provider, 'WHATSAPP') AS "inboxProvider"
+       FROM documents d
+       LEFT JOIN inbox_connections ic ON ic.id = d.inbox_connection_id
+       WHERE d.business_id = $1
+         AND (d.id IN (SELECT duplicate_of_id FROM documents WHERE business_id = $1 AND duplicate_status = $2)
+              OR (d.duplicate_of_id IS NOT NULL AND d.duplicate_status = $2))
+       ORDER BY d.issued_at DESC`,
+      [businessId, status],
+    );
+
+    const toDocument = (r: (typeof rows)[number]) => ({
+      id: r.id,
+      vendor: r.vendor,
+      amountCents: r.amountCents,
+      currency: r.currency,
+      amountIlsCents: r.amountIlsCents,
+      issuedAt: r.issuedAt?.toISOString?.() ?? r.issuedAt,
+      source: r.source.toLowerCase(),
+      provider: r.inboxProvider.toLowerCase(),
+      type: r.type.toLowerCase(),
+      invoiceNumber: r.invoiceNumber ?? null,
+      hasFile: r.hasFile,
+      duplicateStatus: r.duplicateStatus?.toLowerCase() ?? null,
+      duplicateReason: r.duplicateReason ?? null,
+    });
+    const originals = new Map(rows.filter((r) => !r.duplicateOfId).map((r) => [r.id, r]));
+    const groups = new Map<string, { original: ReturnType<typeof toDocument>; duplicates: ReturnType<typeof toDocument>[] }>();
+    for (const row of rows) {
+      const original = row.duplicateOfId ? originals.get(row.duplicateOfId) : undefined;
+      if (!original) continue;
+      if (!groups.has(original.id)) {
+        groups.set(original.id, { original: toDocument(original), duplicates: [] });
+      }
+      groups.get(original.id)!.duplicates.push(toDocument(row));
+    }
+    return { businessId, groups: [...groups.values()] };
+  }
+
+  /** Confirm a linked copy (drops it from totals) or dismiss the link for good. */
+  async resolveDuplicate(businessId: string, documentId: string, action: "confirm" | "dismiss") {
+    const doc = await this.queryOne(
+      `SELECT d.duplicate_of_id AS "duplicateOfId", ${DOCUMENT_LOCKED_SQL} AS locked
+       FROM documents d ${PERIOD_CLOSE_JOIN_SQL}
+       WHERE d.business_id = $1 AND d.id = $2`,
+      [businessId, documentId],
+    );
+    if (!doc) throw new Error("Document not found");
+    if (doc.locked) throw closedPeriodError();
+    if (!doc.duplicateOfId) {
+      throw Object.assign(new Error("Document is not linked as a duplicate"), { statusCode: 400 });
+    }
+
+    const status = action === "confirm" ? "CONFIRMED" : "DISMISSED";
+    await this.query(
+      action === "confirm"
+        ? `UPDATE documents SET duplicate_status = $1, updated_at = now() WHERE id = $2`
+        : `UPDATE documents
+           SET duplicate_status = $1, duplicate_of_id = NULL, duplicate_reason = NULL, updated_at = now()
+           WHERE id = $2`,
+      [status, documentId],
+    );
+    return { id: documentId, duplicateStatus: status.toLowerCase() };
+  }
+
   /** Lightweight document lookup by ID (for deep scan vendor checks). */
   async getDocumentById(
     documentId: string,
-  ): Promise<{ id: string; vendorName: string; businessId: string } | null> {
+  ): Promise<{ id: string; vendorName: string; businessId: string; amountCents: number; currency: string; issuedAt: string } | null> {
     return this.queryOne(
-      `SELECT id, vendor_name AS "vendorName", business_id AS "businessId"
+      `SELECT id, vendor_name AS "vendorName", business_id AS "businessId",
+              amount_cents AS "amountCents", currency, issued_at AS "issuedAt"
        FROM documents WHERE id = $1`,
       [documentId],
     );
@@ -1624,32 +2680,298 @@ export class AppStorePg {
     return Boolean(row);
   }
 
+  // ─── Outbox ───
+
+  private serializeOutboxMessage(row: Record<string, unknown> & {
+    status: string; nextAttemptAt: Date | null; sentAt: Date | null; createdAt: Date; updatedAt: Date;
+  }) {
+    return {
+      ...row,
+      nextAttemptAt: row.nextAttemptAt?.toISOString() ?? null,
+      sentAt: row.sentAt?.toISOString() ?? null,
+      createdAt: row.createdAt.toISOString(),
+      updatedAt: row.updatedAt.toISOString(),
+    };
+  }
+
+  /** idempotency_key is unique, so a repeated enqueue returns the first message. */
+  async createOutboxMessage(payload: {
+    businessId: string | null; channel: string; kind: string; recipient: string;
+    idempotencyKey: string; payload: Record<string, unknown>; maxAttempts: number;
+  }) {
+    const created = await this.queryOne(
+      `INSERT INTO outbox_messages (id, business_id, channel, kind, recipient, idempotency_key, payload,
+                                    status, attempts, max_attempts, next_attempt_at, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, 'PENDING', 0, $8, now(), now(), now())
+       ON CONFLICT (idempotency_key) DO NOTHING
+       RETURNING ${OUTBOX_COLUMNS_SQL}`,
+      [randomUUID(), payload.businessId, payload.channel.toUpperCase(), payload.kind, payload.recipient,
+        payload.idempotencyKey, JSON.stringify(payload.payload), payload.maxAttempts],
+    );
+    if (created) return { message: this.serializeOutboxMessage(created), created: true };
+
+    const existing = await this.queryOne(
+      `SELECT ${OUTBOX_COLUMNS_SQL} FROM outbox_messages WHERE idempotency_key = $1`,
+      [payload.idempotencyKey],
+    );
+    return { message: this.serializeOutboxMessage(existing), created: false };
+  }
+
+  /** Claim one message for sending now, unless another worker has it or it's done. */
+  async claimOutboxMessage(messageId: string) {
+    const row = await this.queryOne(
+      `UPDATE outbox_messages
+       SET status = 'SENDING', attempts = attempts + 1, locked_at = now(), updated_at = now()
+       WHERE id = $1 AND status IN ('PENDING', 'RETRYING')
+       RETURNING ${OUTBOX_COLUMNS_SQL}, payload`,
+      [messageId],
+    );
+    return row ? this.serializeOutboxMessage(row) : null;
+  }
+
+  /** Claim messages whose next attempt is due, plus any whose sender died mid-send. */
+  async claimDueOutboxMessages(limit: number, lockTimeoutMs: number) {
+    const rows = await this.query(
+      `UPDATE outbox_messages
+       SET status = 'SENDING', attempts = attempts + 1, locked_at = now(), updated_at = now()
+       WHERE id IN (
+         SELECT id FROM outbox_messages
+         WHERE (status IN ('PENDING', 'RETRYING') AND next_attempt_at <= now())
+            OR (status = 'SENDING' AND locked_at < now() - $2::int * interval '1 millisecond')
+         ORDER BY next_attempt_at ASC
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING ${OUTBOX_COLUMNS_SQL}, payload`,
+      [limit, lockTimeoutMs],
+    );
+    return rows.map((row) => this.serializeOutboxMessage(row));
+  }
+
+  async markOutboxSent(messageId: string, providerMessageId: string | null) {
+    const row = await this.queryOne(
+      `UPDATE outbox_messages
+       SET status = 'SENT', provider_message_id = $2, last_error = NULL, locked_at = NULL,
+           sent_at = now(), updated_at = now()
+       WHERE id = $1
+       RETURNING ${OUTBOX_COLUMNS_SQL}`,
+      [messageId, providerMessageId],
+    );
+    if (!row) throw new Error("Outbox message not found");
+    return this.serializeOutboxMessage(row);
+  }
+
+  /** Record a failed attempt; without a next attempt time the message has failed for good. */
+  async markOutboxFailed(messageId: string, error: string, nextAttemptAt: string | null) {
+    const row = await this.queryOne(
+      `UPDATE outbox_messages
+       SET status = CASE WHEN $3::timestamptz IS NULL THEN 'FAILED' ELSE 'RETRYING' END,
+           last_error = $2, locked_at = NULL,
+           next_attempt_at = COALESCE($3::timestamptz, next_attempt_at), updated_at = now()
+       WHERE id = $1
+       RETURNING ${OUTBOX_COLUMNS_SQL}`,
+      [messageId, error, nextAttemptAt],
+    );
+    if (!row) throw new Error("Outbox message not found");
+    return this.serializeOutboxMessage(row);
+  }
+
+  /** Wipe a finished message's body; only its delivery record is kept. */
+  async clearOutboxPayload(messageId: string): Promise<void> {
+    await this.query(
+      `UPDATE outbox_messages SET payload = '{}', updated_at = now() WHERE id = $1`,
+      [messageId],
+    );
+  }
+
+  async getOutboxMessages(businessId: string, filter: { status?: string; limit: number }) {
+    await this.getBusinessOrThrow(businessId);
+    const statusFilter = filter.status ? "AND status = $3" : "";
+    const params: unknown[] = [businessId, filter.limit];
+    if (filter.status) params.push(filter.status.toUpperCase());
+    const rows = await this.query(
+      `SELECT ${OUTBOX_COLUMNS_SQL} FROM outbox_messages
+       WHERE business_id = $1 ${statusFilter}
+       ORDER BY created_at DESC
+       LIMIT $2`,
+      params,
+    );
+    return { businessId, messages: rows.map((row) => this.serializeOutboxMessage(row)) };
+  }
+
+  async getOutboxMessage(businessId: string, messageId: string) {
+    const row = await this.queryOne(
+      `SELECT ${OUTBOX_COLUMNS_SQL} FROM outbox_messages WHERE business_id = $1 AND id = $2`,
+      [businessId, messageId],
+    );
+    if (!row) throw new Error("Outbox message not found");
+    return this.serializeOutboxMessage(row);
+  }
+
+  /** Give a failed message a fresh set of attempts. */
+  async retryOutboxMessage(businessId: string, messageId: string) {
+    const message = await this.getOutboxMessage(businessId, messageId);
+    if (message.status !== "failed") {
+      throw Object.assign(new Error("Only failed messages can be retried"), { statusCode: 409 });
+    }
+    const row = await this.queryOne(
+      `UPDATE outbox_messages
+       SET status = 'PENDING', attempts = 0, next_attempt_at = now(), updated_at = now()
+       WHERE id = $1 AND status = 'FAILED'
+       RETURNING ${OUTBOX_COLUMNS_SQL}`,
+      [messageId],
+    );
+    if (!row) throw Object.assign(new Error("Only failed messages can be retried"), { statusCode: 409 });
+    return this.serializeOutboxMessage(row);
+  }
+
+  // ─── Jobs ───
+
+  private serializeJob(row: Record<string, unknown> & { runAt: Date; createdAt: Date; updatedAt: Date }) {
+    return {
+      ...row,
+      runAt: row.runAt.toISOString(),
+      createdAt: row.createdAt.toISOString(),
+      updatedAt: row.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Queue a job. A dedupe key that was already used returns the existing job;
+   * `supersedeQueued` skips older jobs of the same name still waiting to run.
+   */
+  async enqueueJob(payload: {
+    name: string; payload: Record<string, unknown>; runAt: string;
+    dedupeKey: string | null; maxAttempts: number; supersedeQueued?: boolean;
+  }) {
+    const created = await this.queryOne(
+      `INSERT INTO jobs (id, name, payload, status, run_at, attempts, max_attempts, dedupe_key, created_at, updated_at)
+       VALUES ($1, $2, $3, 'QUEUED', $4, 0, $5, $6, now(), now())
+       ON CONFLICT (dedupe_key) DO NOTHING
+       RETURNING ${JOB_COLUMNS_SQL}`,
+      [randomUUID(), payload.name, JSON.stringify(payload.payload), payload.runAt, payload.maxAttempts, payload.dedupeKey],
+    );
+    if (!created) {
+      const existing = await this.queryOne(
+        `SELECT ${JOB_COLUMNS_SQL} FROM jobs WHERE dedupe_key = $1`,
+        [payload.dedupeKey],
+      );
+      return { job: this.serializeJob(existing), created: false };
+    }
+
+    if (payload.supersedeQueued) {
+      await this.query(
+        `UPDATE jobs SET status = 'SKIPPED', updated_at = now()
+         WHERE name = $1 AND status = 'QUEUED' AND id <> $2`,
+        [payload.name, created.id],
+      );
+    }
+    return { job: this.serializeJob(created), created: true };
+  }
+
+  /**
+   * Claim the next due job, optionally limited to some names. Jobs whose
+   * worker died are reclaimed after the lock timeout; a name that is already
+   * running elsewhere waits.
+   */
+  async claimNextJob(workerId: string, names: string[] | null, lockTimeoutMs: number) {
+    const row = await this.queryOne(
+      `UPDATE jobs
+       SET status = 'RUNNING', attempts = attempts + 1, locked_by = $1, locked_at = now(), updated_at = now()
+       WHERE id = (
+         SELECT c.id FROM jobs c
+         WHERE ((c.status = 'QUEUED' AND c.run_at <= now())
+             OR (c.status = 'RUNNING' AND c.locked_at < now() - $3::int * interval '1 millisecond'))
+           AND ($2::text[] IS NULL OR c.name = ANY($2::text[]))
+           AND NOT EXISTS (
+             SELECT 1 FROM jobs r
+             WHERE r.name = c.name AND r.id <> c.id AND r.status = 'RUNNING'
+               AND r.locked_at >= now() - $3::int * interval '1 millisecond'
+           )
+         ORDER BY c.run_at ASC
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING ${JOB_COLUMNS_SQL}`,
+      [workerId, names, lockTimeoutMs],
+    );
+    return row ? this.serializeJob(row) : null;
+  }
+
+  /**
+   * Record how a run went. A failure with a retry time is queued again,
+   * otherwise it's final.
+   */
+  async finishJob(jobId: string, outcome: {
+    workerId: string; startedAt: string; result: Record<string, unknown> | null;
+    error: string | null; retryAt: string | null;
+  }) {
+    const status = outcome.error == null ? "SUCCEEDED" : outcome.retryAt ? "QUEUED" : "FAILED";
+    const row = await this.queryOne(
+      `UPDATE jobs
+       SET status = $2, last_error = $3, run_at = COALESCE($4::timestamptz, run_at),
+           locked_by = NULL, locked_at = NULL, updated_at = now()
+       WHERE id = $1
+       RETURNING ${JOB_COLUMNS_SQL}`,
+      [jobId, status, outcome.error, outcome.retryAt],
+    );
+    if (!row) throw new Error("Job not found");
+
+    await this.query(
+      `INSERT INTO job_runs (id, job_id, name, worker_id, status, attempt, started_at, finished_at, duration_ms, result, error)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, now(), (EXTRACT(EPOCH FROM now() - $7::timestamptz) * 1000)::int, $8, $9)`,
+      [randomUUID(), jobId, row.name, outcome.workerId, outcome.error == null ? "SUCCEEDED" : "FAILED",
+        row.attempts, outcome.startedAt, outcome.result ? JSON.stringify(outcome.result) : null, outcome.error],
+    );
+    return this.serializeJob(row);
+  }
+
+  async getJobRuns(filter: { name?: string; limit: number }) {
+    const rows = await this.query(
+      `SELECT ${JOB_RUN_COLUMNS_SQL} FROM job_runs
+       WHERE ($1::text IS NULL OR name = $1)
+       ORDER BY started_at DESC
+       LIMIT $2`,
+      [filter.name ?? null, filter.limit],
+    );
+    return {
+      runs: rows.map((row) => ({
+        ...row,
+        startedAt: row.startedAt.toISOString(),
+        finishedAt: row.finishedAt.toISOString(),
+      })),
+    };
+  }
+
   // ─── Accountant portal ───
 
+  /** Whether the address may sign in: some business's accountant, or firm staff */
   async accountantEmailExists(email: string): Promise<boolean> {
     const row = await this.queryOne(
-      `SELECT 1 FROM accountant_contacts WHERE LOWER(email) = $1 LIMIT 1`,
+      `SELECT 1 FROM accountant_contacts WHERE LOWER(email) = $1
+       UNION ALL
+       SELECT 1 FROM accountant_staff WHERE email = $1
+       UNION ALL
+       SELECT 1 FROM accountant_staff_invitations i WHERE i.email = $1 AND ${OPEN_STAFF_INVITATION_SQL}
+       LIMIT 1`,
       [email.toLowerCase()],
     );
     return Boolean(row);
   }
 
-  async getBusinessesForAccountant(accountantEmail: string) {
+  /** Businesses whose accountant is one of these addresses */
+  async getAccountantClientsForEmails(emails: string[]) {
     return this.query(
-      `SELECT b.id, b.name, b.created_at AS "createdAt",
-              ac.name AS "accountantName",
-              ac.auto_monthly_delivery AS "autoDelivery",
-              ac.monthly_delivery_day AS "deliveryDay",
-              ac.last_delivered_at AS "lastDeliveredAt"
+      `SELECT b.id AS "businessId", b.name AS "businessName", LOWER(ac.email) AS "accountantEmail"
        FROM accountant_contacts ac
        JOIN businesses b ON b.id = ac.business_id
-       WHERE LOWER(ac.email) = $1
+       WHERE LOWER(ac.email) = ANY($1)
        ORDER BY b.name ASC`,
-      [accountantEmail.toLowerCase()],
+      [emails.map((email) => email.toLowerCase())],
     );
   }
 
-  async getClientHealthForAccountant(accountantEmail: string) {
+  async getClientHealth(businessIds: string[]) {
     return this.query(
       `SELECT b.id AS "businessId", b.name AS "businessName",
               COUNT(d.id) FILTER (WHERE d.status = 'PENDING')::int AS "pendingCount",
@@ -1657,16 +2979,509 @@ export class AppStorePg {
               COUNT(d.id) FILTER (WHERE d.status = 'SENT')::int AS "sentCount",
               COUNT(d.id)::int AS "totalCount",
               MAX(d.created_at) AS "lastDocumentAt"
-       FROM accountant_contacts ac
-       JOIN businesses b ON b.id = ac.business_id
-       LEFT JOIN documents d ON d.business_id = b.id
-       WHERE LOWER(ac.email) = $1
+       FROM businesses b
+       LEFT JOIN documents d ON d.business_id = b.id AND d.${COUNTED_SQL}
+       WHERE b.id = ANY($1)
        GROUP BY b.id, b.name
        ORDER BY b.name ASC`,
-      [accountantEmail.toLowerCase()],
+      [businessIds],
+    );
+  }
+
+  async createAccountantSession(payload: { email: string; expiresAt: string; userAgent: string | null; ipAddress: string | null }) {
+    return this.queryOne(
+      `INSERT INTO accountant_sessions (id, email, user_agent, ip_address, expires_at)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING id, email, expires_at AS "expiresAt", created_at AS "createdAt"`,
+      [randomUUID(), payload.email, payload.userAgent, payload.ipAddress, payload.expiresAt],
+    );
+  }
+
+  async getAccountantSession(sessionId: string) {
+    return this.queryOne(
+      `SELECT id, email, expires_at AS "expiresAt", last_used_at AS "lastUsedAt",
+              revoked_at AS "revokedAt", created_at AS "createdAt"
+       FROM accountant_sessions WHERE id = $1`,
+      [sessionId],
+    );
+  }
+
+  async touchAccountantSession(sessionId: string): Promise<void> {
+    await this.query(`UPDATE accountant_sessions SET last_used_at = now() WHERE id = $1`, [sessionId]);
+  }
+
+  /** Sessions still signed in, most recently used first */
+  async listAccountantSessions(email: string) {
+    return this.query(
+      `SELECT id, user_agent AS "userAgent", ip_address AS "ipAddress", created_at AS "createdAt",
+              last_used_at AS "lastUsedAt", expires_at AS "expiresAt"
+       FROM accountant_sessions
+       WHERE email = $1 AND revoked_at IS NULL AND expires_at > now()
+       ORDER BY COALESCE(last_used_at, created_at) DESC`,
+      [email],
+    );
+  }
+
+  /** Revoke one of the accountant's own sessions; false if there's no such live session */
+  async revokeAccountantSession(email: string, sessionId: string): Promise<boolean> {
+    const rows = await this.query(
+      `UPDATE accountant_sessions SET revoked_at = now()
+       WHERE id = $1 AND email = $2 AND revoked_at IS NULL
+       RETURNING id`,
+      [sessionId, email],
+    );
+    return rows.length > 0;
+  }
+
+  async revokeAccountantSessions(email: string): Promise<number> {
+    const rows = await this.query(
+      `UPDATE accountant_sessions SET revoked_at = now()
+       WHERE email = $1 AND revoked_at IS NULL
+       RETURNING id`,
+      [email],
+    );
+    return rows.length;
+  }
+
+  /** Record a magic link nonce; false if it was already used. */
+  async consumeAccountantMagicLink(payload: { nonce: string; email: string; expiresAt: string }): Promise<boolean> {
+    // Used links only matter until they'd have expired anyway
+    await this.query(`DELETE FROM accountant_magic_link_uses WHERE expires_at < now()`);
+    const row = await this.queryOne(
+      `INSERT INTO accountant_magic_link_uses (nonce, email, expires_at)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (nonce) DO NOTHING
+       RETURNING nonce`,
+      [payload.nonce, payload.email, payload.expiresAt],
+    );
+    return Boolean(row);
+  }
+
+  // ─── Accountant firms ───
+
+  async getAccountantStaffByEmail(email: string) {
+    return this.queryOne(
+      `SELECT ${ACCOUNTANT_STAFF_COLUMNS_SQL} FROM accountant_staff WHERE email = $1`,
+      [email.toLowerCase()],
+    );
+  }
+
+  async getAccountantFirm(firmId: string) {
+    return this.queryOne(
+      `SELECT id, name, created_at AS "createdAt" FROM accountant_firms WHERE id = $1`,
+      [firmId],
+    );
+  }
+
+  /** New firm with its first admin */
+  async createAccountantFirm(payload: { name: string; email: string; fullName: string | null }) {
+    if (await this.getAccountantStaffByEmail(payload.email)) {
+      throw Object.assign(new Error("This email already belongs to a firm"), { statusCode: 409 });
+    }
+    const firmId = randomUUID();
+    await this.query(
+      `INSERT INTO accountant_firms (id, name) VALUES ($1, $2)`,
+      [firmId, payload.name.trim()],
+    );
+    const staff = await this.addAccountantStaff({ firmId, email: payload.email, fullName: payload.fullName, role: "admin" });
+    return { firm: await this.getAccountantFirm(firmId), staff };
+  }
+
+  async listAccountantStaff(firmId: string) {
+    return this.query(
+      `SELECT ${ACCOUNTANT_STAFF_COLUMNS_SQL} FROM accountant_staff WHERE firm_id = $1 ORDER BY created_at ASC`,
+      [firmId],
+    );
+  }
+
+  async addAccountantStaff(payload: { firmId: string; email: string; fullName: string | null; role: string }) {
+    const row = await this.queryOne(
+      `INSERT INTO accountant_staff (id, firm_id, email, full_name, role)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (email) DO NOTHING
+       RETURNING ${ACCOUNTANT_STAFF_COLUMNS_SQL}`,
+      [randomUUID(), payload.firmId, payload.email.trim().toLowerCase(), payload.fullName?.trim() || null, payload.role.toUpperCase()],
+    );
+    if (!row) {
+      throw Object.assign(new Error("This email already belongs to a firm"), { statusCode: 409 });
+    }
+    return row;
+  }
+
+  async updateAccountantStaffRole(firmId: string, staffId: string, role: string) {
+    const row = await this.queryOne(
+      `UPDATE accountant_staff SET role = $3 WHERE firm_id = $1 AND id = $2
+       RETURNING ${ACCOUNTANT_STAFF_COLUMNS_SQL}`,
+      [firmId, staffId, role.toUpperCase()],
+    );
+    if (!row) throw Object.assign(new Error("Staff member not found"), { statusCode: 404 });
+    return row;
+  }
+
+  /** Remove a staff member; their clients fall back to the default assignment. */
+  async removeAccountantStaff(firmId: string, staffId: string) {
+    await this.query(`DELETE FROM accountant_client_assignments WHERE firm_id = $1 AND staff_id = $2`, [firmId, staffId]);
+    const row = await this.queryOne(
+      `DELETE FROM accountant_staff WHERE firm_id = $1 AND id = $2
+       RETURNING ${ACCOUNTANT_STAFF_COLUMNS_SQL}`,
+      [firmId, staffId],
+    );
+    if (!row) throw Object.assign(new Error("Staff member not found"), { statusCode: 404 });
+    return row;
+  }
+
+  /** Invite an address to a firm; one open invitation per firm and address */
+  async createAccountantStaffInvitation(payload: {
+    firmId: string;
+    email: string;
+    fullName: string | null;
+    role: string;
+    invitedByStaffId: string;
+    expiresAt: string;
+  }) {
+    const email = payload.email.trim().toLowerCase();
+    const open = await this.queryOne(
+      `SELECT 1 FROM accountant_staff_invitations i
+       WHERE i.firm_id = $1 AND i.email = $2 AND ${OPEN_STAFF_INVITATION_SQL}`,
+      [payload.firmId, email],
+    );
+    if (open) {
+      throw Object.assign(new Error("This address already has an open invitation"), { statusCode: 409 });
+    }
+    const id = randomUUID();
+    await this.query(
+      `INSERT INTO accountant_staff_invitations (id, firm_id, email, full_name, role, invited_by_staff_id, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [id, payload.firmId, email, payload.fullName?.trim() || null, payload.role.toUpperCase(),
+        payload.invitedByStaffId, payload.expiresAt],
+    );
+    return this.queryOne(`${STAFF_INVITATION_SELECT_SQL} WHERE i.id = $1`, [id]);
+  }
+
+  /** Open invitations sent by a firm, or addressed to one email; newest first */
+  async listAccountantStaffInvitations(filter: { firmId?: string; email?: string }) {
+    return filter.firmId
+      ? this.query(
+        `${STAFF_INVITATION_SELECT_SQL} WHERE i.firm_id = $1 AND ${OPEN_STAFF_INVITATION_SQL} ORDER BY i.created_at DESC`,
+        [filter.firmId],
+      )
+      : this.query(
+        `${STAFF_INVITATION_SELECT_SQL} WHERE i.email = $1 AND ${OPEN_STAFF_INVITATION_SQL} ORDER BY i.created_at DESC`,
+        [filter.email?.toLowerCase()],
+      );
+  }
+
+  async revokeAccountantStaffInvitation(firmId: string, invitationId: string) {
+    const row = await this.queryOne(
+      `UPDATE accountant_staff_invitations i SET revoked_at = now()
+       WHERE i.firm_id = $1 AND i.id = $2 AND ${OPEN_STAFF_INVITATION_SQL}
+       RETURNING i.id`,
+      [firmId, invitationId],
+    );
+    if (!row) throw Object.assign(new Error("Invitation not found"), { statusCode: 404 });
+    return this.queryOne(`${STAFF_INVITATION_SELECT_SQL} WHERE i.id = $1`, [invitationId]);
+  }
+
+  /**
+   * Accept an open invitation addressed to `email`, adding them to the firm
+   * with the invited role. Null if there is no such invitation.
+   */
+  async acceptAccountantStaffInvitation(invitationId: string, email: string) {
+    const invitation = await this.queryOne(
+      `UPDATE accountant_staff_invitations i SET accepted_at = now()
+       WHERE i.id = $1 AND i.email = $2 AND ${OPEN_STAFF_INVITATION_SQL}
+       RETURNING i.firm_id AS "firmId", i.email, i.full_name AS "fullName", i.role`,
+      [invitationId, email.toLowerCase()],
+    );
+    if (!invitation) return null;
+    try {
+      return await this.addAccountantStaff(invitation);
+    } catch (error) {
+      // Already in a firm: leave the invitation open rather than half-accepted
+      await this.query(`UPDATE accountant_staff_invitations SET accepted_at = NULL WHERE id = $1`, [invitationId]);
+      throw error;
+    }
+  }
+
+  /** Decline an open invitation addressed to `email`; null if there is no such invitation */
+  async declineAccountantStaffInvitation(invitationId: string, email: string) {
+    const row = await this.queryOne(
+      `UPDATE accountant_staff_invitations i SET declined_at = now()
+       WHERE i.id = $1 AND i.email = $2 AND ${OPEN_STAFF_INVITATION_SQL}
+       RETURNING i.id`,
+      [invitationId, email.toLowerCase()],
+    );
+    return row ? this.queryOne(`${STAFF_INVITATION_SELECT_SQL} WHERE i.id = $1`, [invitationId]) : null;
+  }
+
+  async getAccountantClientAssignments(firmId: string) {
+    return this.query(
+      `SELECT business_id AS "businessId", staff_id AS "staffId", assigned_at AS "assignedAt"
+       FROM accountant_client_assignments WHERE firm_id = $1`,
+      [firmId],
+    );
+  }
+
+  async assignAccountantClient(payload: { firmId: string; businessId: string; staffId: string; assignedByStaffId: string | null }) {
+    await this.query(
+      `INSERT INTO accountant_client_assignments (firm_id, business_id, staff_id, assigned_by_staff_id)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (firm_id, business_id)
+       DO UPDATE SET staff_id = $3, assigned_by_staff_id = $4, assigned_at = now()`,
+      [payload.firmId, payload.businessId, payload.staffId, payload.assignedByStaffId],
+    );
+  }
+
+  /** Every close of the business's months, newest first; reopened ones included */
+  async listPeriodCloses(businessId: string) {
+    return this.query(
+      `SELECT ${PERIOD_CLOSE_COLUMNS_SQL} FROM period_closes
+       WHERE business_id = $1
+       ORDER BY closed_at DESC`,
+      [businessId],
+    );
+  }
+
+  /** Late documents per closed month */
+  async getLateDocumentCounts(businessId: string) {
+    return this.query(
+      `SELECT pc.month_key AS "monthKey", COUNT(*)::int AS count
+       FROM documents d ${PERIOD_CLOSE_JOIN_SQL}
+       WHERE d.business_id = $1 AND d.${COUNTED_SQL} AND ${DOCUMENT_LATE_SQL}
+       GROUP BY pc.month_key`,
+      [businessId],
+    );
+  }
+
+  async closePeriod(payload: { businessId: string; monthKey: string; closedByEmail: string }) {
+    await this.getBusinessOrThrow(payload.businessId);
+    // The partial unique index on open closes turns a concurrent second close into a no-op
+    const close = await this.queryOne(
+      `INSERT INTO period_closes (id, business_id, month_key, closed_by_email)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (business_id, month_key) WHERE reopened_at IS NULL DO NOTHING
+       RETURNING ${PERIOD_CLOSE_COLUMNS_SQL}`,
+      [randomUUID(), payload.businessId, payload.monthKey, payload.closedByEmail],
+    );
+    if (!close) throw Object.assign(new Error("This month is already closed"), { statusCode: 409 });
+    return close;
+  }
+
+  async reopenPeriod(payload: { businessId: string; monthKey: string; reopenedByEmail: string; reason: string }) {
+    const close = await this.queryOne(
+      `UPDATE period_closes
+       SET reopened_at = now(), reopened_by_email = $3, reopen_reason = $4
+       WHERE business_id = $1 AND month_key = $2 AND reopened_at IS NULL
+       RETURNING ${PERIOD_CLOSE_COLUMNS_SQL}`,
+      [payload.businessId, payload.monthKey, payload.reopenedByEmail, payload.reason],
+    );
+    if (!close) throw Object.assign(new Error("This month isn't closed"), { statusCode: 409 });
+    return close;
+  }
+
+  async createClientInvitation(payload: {
+    firmId: string | null;
+    accountantEmail: string;
+    accountantName: string | null;
+    firmName: string | null;
+    autoMonthlyDelivery: boolean;
+    monthlyDeliveryDay: number;
+    clientEmail: string;
+    clientName: string | null;
+    expiresAt: string;
+  }) {
+    return this.queryOne(
+      `INSERT INTO client_invitations
+         (id, firm_id, accountant_email, accountant_name, firm_name, auto_monthly_delivery,
+          monthly_delivery_day, client_email, client_name, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       RETURNING ${CLIENT_INVITATION_COLUMNS_SQL}`,
+      [
+        randomUUID(),
+        payload.firmId,
+        payload.accountantEmail,
+        payload.accountantName,
+        payload.firmName,
+        payload.autoMonthlyDelivery,
+        payload.monthlyDeliveryDay,
+        payload.clientEmail.trim().toLowerCase(),
+        payload.clientName,
+        payload.expiresAt,
+      ],
+    );
+  }
+
+  async getClientInvitation(invitationId: string) {
+    return this.queryOne(
+      `SELECT ${CLIENT_INVITATION_COLUMNS_SQL} FROM client_invitations WHERE id = $1`,
+      [invitationId],
+    );
+  }
+
+  async listClientInvitations(filter: { firmId?: string; accountantEmail?: string }) {
+    return this.query(
+      `SELECT ${CLIENT_INVITATION_COLUMNS_SQL} FROM client_invitations
+       WHERE ${filter.firmId ? "firm_id" : "accountant_email"} = $1
+       ORDER BY created_at DESC`,
+      [filter.firmId ?? filter.accountantEmail],
+    );
+  }
+
+  async renewClientInvitation(invitationId: string, expiresAt: string) {
+    const invitation = await this.queryOne(
+      `UPDATE client_invitations
+       SET send_count = send_count + 1, last_sent_at = now(), expires_at = $2
+       WHERE id = $1
+       RETURNING ${CLIENT_INVITATION_COLUMNS_SQL}`,
+      [invitationId, expiresAt],
+    );
+    if (!invitation) throw Object.assign(new Error("Invitation not found"), { statusCode: 404 });
+    return invitation;
+  }
+
+  async revokeClientInvitation(invitationId: string) {
+    const invitation = await this.queryOne(
+      `UPDATE client_invitations SET revoked_at = COALESCE(revoked_at, now())
+       WHERE id = $1
+       RETURNING ${CLIENT_INVITATION_COLUMNS_SQL}`,
+      [invitationId],
+    );
+    if (!invitation) throw Object.assign(new Error("Invitation not found"), { statusCode: 404 });
+    return invitation;
+  }
+
+  /** Mark an invitation accepted; false if it was already used, revoked or has expired */
+  async acceptClientInvitation(invitationId: string, businessId: string): Promise<boolean> {
+    const rows = await this.query(
+      `UPDATE client_invitations SET accepted_at = now(), accepted_business_id = $2
+       WHERE id = $1 AND accepted_at IS NULL AND revoked_at IS NULL AND expires_at > now()
+       RETURNING id`,
+      [invitationId, businessId],
+    );
+    return rows.length > 0;
+  }
+
+  // ─── Document requests and comments ───
+
+  private async assertBusinessDocument(businessId: string, documentId: string): Promise<void> {
+    const row = await this.queryOne(`SELECT id FROM documents WHERE id = $1 AND business_id = $2`, [documentId, businessId]);
+    if (!row) throw new Error("Document not found");
+  }
+
+  async listDocumentComments(businessId: string, documentId: string) {
+    await this.assertBusinessDocument(businessId, documentId);
+    return this.query(
+      `SELECT ${DOCUMENT_COMMENT_COLUMNS_SQL}
+       FROM document_comments c
+       LEFT JOIN users u ON u.id = c.author_user_id
+       WHERE c.business_id = $1 AND c.document_id = $2
+       ORDER BY c.created_at ASC`,
+      [businessId, documentId],
     );
   }
 
+  async addDocumentComment(payload: {
+    businessId: string;
+    documentId: string;
+    requestId?: string | null;
+    author: "accountant" | "owner";
+    authorEmail?: string | null;
+    authorUserId?: string | null;
+    body: string;
+  }) {
+    await this.assertBusinessDocument(payload.businessId, payload.documentId);
+    return this.queryOne(
+      `WITH c AS (
+         INSERT INTO document_comments (id, business_id, document_id, request_id, author_type, author_email, author_user_id, body)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING *
+       )
+       SELECT ${DOCUMENT_COMMENT_COLUMNS_SQL} FROM c LEFT JOIN users u ON u.id = c.author_user_id`,
+      [
+        randomUUID(),
+        payload.businessId,
+        payload.documentId,
+        payload.requestId ?? null,
+        payload.author.toUpperCase(),
+        payload.authorEmail ?? null,
+        payload.authorUserId ?? null,
+        payload.body,
+      ],
+    );
+  }
+
+  /** A business's requests, newest first, optionally for one document or status */
+  async listDocumentRequests(businessId: string, filter: { documentId?: string; status?: "open" | "resolved" | "cancelled" } = {}) {
+    const params: unknown[] = [businessId];
+    const conditions = ["r.business_id = $1"];
+    if (filter.documentId) {
+      params.push(filter.documentId);
+      conditions.push(`r.document_id = $${params.length}`);
+    }
+    if (filter.status) {
+      params.push(filter.status.toUpperCase());
+      conditions.push(`r.status = $${params.length}`);
+    }
+    return this.query(
+      `${DOCUMENT_REQUEST_SELECT_SQL}
+       WHERE ${conditions.join(" AND ")}
+       ORDER BY r.created_at DESC`,
+      params,
+    );
+  }
+
+  async getDocumentRequest(businessId: string, requestId: string) {
+    return this.queryOne(
+      `${DOCUMENT_REQUEST_SELECT_SQL} WHERE r.business_id = $1 AND r.id = $2`,
+      [businessId, requestId],
+    );
+  }
+
+  /** One open request per kind and document */
+  async createDocumentRequest(payload: {
+    businessId: string;
+    documentId: string;
+    kind: "original" | "tax_invoice" | "explain";
+    message: string | null;
+    requestedByEmail: string;
+  }) {
+    await this.assertBusinessDocument(payload.businessId, payload.documentId);
+    // The partial unique index on open requests turns a duplicate into a no-op
+    const row = await this.queryOne(
+      `INSERT INTO document_requests (id, business_id, document_id, kind, message, requested_by_email)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (document_id, kind) WHERE status = 'OPEN' DO NOTHING
+       RETURNING id`,
+      [randomUUID(), payload.businessId, payload.documentId, payload.kind.toUpperCase(), payload.message, payload.requestedByEmail],
+    );
+    if (!row) {
+      throw Object.assign(new Error("This request is already open for the document"), { statusCode: 409 });
+    }
+    return this.getDocumentRequest(payload.businessId, row.id);
+  }
+
+  /** Resolve or cancel an open request */
+  async closeDocumentRequest(payload: {
+    businessId: string;
+    requestId: string;
+    status: "resolved" | "cancelled";
+    by: "accountant" | "owner";
+  }) {
+    const row = await this.queryOne(
+      `UPDATE document_requests SET status = $3, resolved_at = now(), resolved_by = $4
+       WHERE business_id = $1 AND id = $2 AND status = 'OPEN'
+       RETURNING id`,
+      [payload.businessId, payload.requestId, payload.status.toUpperCase(), payload.by.toUpperCase()],
+    );
+    if (!row) {
+      const existing = await this.getDocumentRequest(payload.businessId, payload.requestId);
+      throw existing
+        ? Object.assign(new Error("This request was already closed"), { statusCode: 409 })
+        : Object.assign(new Error("Request not found"), { statusCode: 404 });
+    }
+    return this.getDocumentRequest(payload.businessId, payload.requestId);
+  }
+
   async getAllActiveBusinessIds(): Promise<string[]> {
     const rows = await this.query(
       `SELECT id FROM businesses WHERE onboarding_completed_at IS NOT NULL`,
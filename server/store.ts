@@ -1,18 +1,36 @@
 import { randomUUID } from "crypto";
 import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
 import path from "path";
+import { toIsraelDate } from "./services/exports/shared";
+import { estimateVatCents, type VatTreatment } from "./services/vat-rates";
+import { requiresAllocationNumber } from "./services/israeli-ids";
+import {
+  SORT_SPECS,
+  encodeCursor,
+  searchTokens,
+  type DocumentSearch,
+  type DocumentSortField,
+} from "./services/document-search";
 
 export type InboxProvider = "GMAIL" | "OUTLOOK" | "IMAP" | "YAHOO" | "ICLOUD";
 export type InboxStatus = "CONNECTED" | "SYNCING" | "FAILED" | "DISCONNECTED";
-export type InboxAuthMethod = "MANUAL" | "OAUTH";
+export type InboxAuthMethod = "MANUAL" | "OAUTH" | "APP_PASSWORD";
 export type OAuthProvider = "gmail" | "outlook";
 export type DocumentSource = "EMAIL" | "WHATSAPP";
 export type DocumentType = "INVOICE" | "RECEIPT" | "SUBSCRIPTION" | "PAYMENT_CONFIRMATION";
 export type DocumentStatus = "SENT" | "PENDING" | "REVIEW";
+/** SUSPECTED awaits review; CONFIRMED duplicates are left out of totals, reports and sends */
+export type DuplicateStatus = "SUSPECTED" | "CONFIRMED" | "DISMISSED";
 export type MessageDirection = "USER" | "BOT";
 export type MessageChannel = "WEBCHAT" | "WHATSAPP";
 export type WhatsAppIntegrationStatus = "CONNECTED" | "PENDING" | "FAILED";
 export type WhatsAppProvider = "CLOUD_API" | "BAILEYS";
+/** ADMIN manages staff and sees every client; the others see the clients assigned to them */
+export type AccountantStaffRole = "ADMIN" | "BOOKKEEPER" | "READ_ONLY";
+/** What the accountant asked the owner for about a document */
+export type DocumentRequestKind = "ORIGINAL" | "TAX_INVOICE" | "EXPLAIN";
+export type DocumentRequestStatus = "OPEN" | "RESOLVED" | "CANCELLED";
+export type DocumentCommentAuthor = "ACCOUNTANT" | "OWNER";
 
 interface User {
   id: string;
@@ -24,12 +42,18 @@ interface User {
   updatedAt: string;
 }
 
+type VatReportingFrequency = "monthly" | "bimonthly";
+
 interface Business {
   id: string;
   name: string;
   accountantDisplayName: string;
   currency: string;
   timezone: string;
+  /** Israeli VAT / company number (עוסק מורשה / ח.פ) — needed for official exports */
+  taxId?: string | null;
+  /** מע"מ reporting cadence; small dealers file every two months */
+  vatReportingFrequency?: VatReportingFrequency;
   onboardingCompletedAt: string | null;
   createdAt: string;
   updatedAt: string;
@@ -39,7 +63,155 @@ interface BusinessMember {
   id: string;
   businessId: string;
   userId: string;
-  role: "OWNER" | "MEMBER";
+  /** SENDER rows only allowlist a WhatsApp number; they give no dashboard access */
+  role: "OWNER" | "MEMBER" | "SENDER";
+  /** Number this member sends documents from over WhatsApp — the sender allowlist */
+  whatsappPhoneE164?: string | null;
+  /** Last message from that number; opens the Cloud API 24h reply window */
+  whatsappLastInboundAt?: string | null;
+  createdAt: string;
+}
+
+interface UserSession {
+  id: string;
+  userId: string;
+  expiresAt: string;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+/** An owner magic link nonce that has been used; kept until the link would have expired anyway */
+interface UserMagicLinkUse {
+  nonce: string;
+  email: string;
+  expiresAt: string;
+  usedAt: string;
+}
+
+interface AccountantSession {
+  id: string;
+  /** Lowercased */
+  email: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  expiresAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+/** A magic link nonce that has been used; kept until the link would have expired anyway */
+interface AccountantMagicLinkUse {
+  nonce: string;
+  email: string;
+  expiresAt: string;
+  usedAt: string;
+}
+
+interface AccountantFirm {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface AccountantStaffMember {
+  id: string;
+  firmId: string;
+  /** Lowercased; one firm per address */
+  email: string;
+  fullName: string | null;
+  role: AccountantStaffRole;
+  createdAt: string;
+}
+
+/** An admin's invitation to join a firm; the address only becomes staff once its owner accepts */
+interface AccountantStaffInvitation {
+  id: string;
+  firmId: string;
+  /** Lowercased */
+  email: string;
+  fullName: string | null;
+  role: AccountantStaffRole;
+  invitedByStaffId: string;
+  expiresAt: string;
+  acceptedAt: string | null;
+  declinedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+/** Who handles a client; without one, the staff member the owner named as accountant does */
+interface AccountantClientAssignment {
+  firmId: string;
+  businessId: string;
+  staffId: string;
+  assignedByStaffId: string | null;
+  assignedAt: string;
+}
+
+/**
+ * An accountant's close of one client month (YYYY-MM of issuedAt). Reopening
+ * keeps the row, with who reopened it and why, as the month's history.
+ */
+interface PeriodClose {
+  id: string;
+  businessId: string;
+  monthKey: string;
+  closedAt: string;
+  closedByEmail: string;
+  reopenedAt: string | null;
+  reopenedByEmail: string | null;
+  reopenReason: string | null;
+}
+
+/** A message on a document's thread, from the accountant or someone in the business */
+interface DocumentComment {
+  id: string;
+  businessId: string;
+  documentId: string;
+  /** Set when the comment was posted while resolving a request */
+  requestId: string | null;
+  authorType: DocumentCommentAuthor;
+  /** The accountant's address; null for the business's users */
+  authorEmail: string | null;
+  authorUserId: string | null;
+  body: string;
+  createdAt: string;
+}
+
+/** Something the accountant asked for about a document; the owner resolves it */
+interface DocumentRequest {
+  id: string;
+  businessId: string;
+  documentId: string;
+  kind: DocumentRequestKind;
+  message: string | null;
+  status: DocumentRequestStatus;
+  requestedByEmail: string;
+  createdAt: string;
+  resolvedAt: string | null;
+  resolvedBy: DocumentCommentAuthor | null;
+}
+
+/** A signup link an accountant sent a prospective client; prefills their accountant settings */
+interface ClientInvitation {
+  id: string;
+  firmId: string | null;
+  /** The inviting accountant; the client's accountant email once accepted */
+  accountantEmail: string;
+  accountantName: string | null;
+  firmName: string | null;
+  autoMonthlyDelivery: boolean;
+  monthlyDeliveryDay: number;
+  clientEmail: string;
+  clientName: string | null;
+  sendCount: number;
+  lastSentAt: string;
+  expiresAt: string;
+  revokedAt: string | null;
+  acceptedAt: string | null;
+  acceptedBusinessId: string | null;
   createdAt: string;
 }
 
@@ -82,6 +254,14 @@ interface InboxConnection {
   authMethod: InboxAuthMethod;
   oauthConnectionId: string | null;
   lastSyncAt: string | null;
+  outlookDeltaLink?: string | null;
+  imapHost?: string | null;
+  imapPort?: number | null;
+  imapSecure?: boolean | null;
+  imapUsername?: string | null;
+  imapPasswordEncrypted?: string | null;
+  imapUidValidity?: string | null;
+  imapLastUid?: number | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -117,10 +297,58 @@ interface DocumentRecord {
   confidence: number;
   category: string | null;
   rawText: string | null;
+  comments?: string | null;
+  fileKey?: string | null;
+  fileName?: string | null;
+  fileMimeType?: string | null;
+  fileSizeBytes?: number | null;
+  outlookMessageId?: string | null;
+  imapMessageId?: string | null;
+  /** Supplier עוסק מורשה / ח.פ, required on input-VAT reports */
+  supplierTaxId?: string | null;
+  /** Fixed-asset purchase (ציוד / רכוש קבוע) — reported separately for VAT */
+  isFixedAsset?: boolean;
+  /** VAT was derived from the rate table / vendor treatment, not read off the invoice */
+  vatEstimated?: boolean;
+  /** Total in shekels at the Bank of Israel representative rate; null until a rate is available */
+  amountIlsCents?: number | null;
+  /** Shekels per one unit of `currency` behind amountIlsCents (1 for ILS) */
+  exchangeRate?: number | null;
+  /** Supplier's invoice / receipt number, as printed on the document */
+  invoiceNumber?: string | null;
+  /** Tax Authority allocation number (מספר הקצאה), required on large tax invoices */
+  allocationNumber?: string | null;
+  /** SHA-256 of the stored original file */
+  contentHash?: string | null;
+  /** The earlier document this one duplicates */
+  duplicateOfId?: string | null;
+  duplicateStatus?: DuplicateStatus | null;
+  /** Which signal linked the two (same_file, same_invoice_number, same_vendor_amount_date) */
+  duplicateReason?: string | null;
+  /** Member who sent the document over WhatsApp */
+  uploadedByUserId?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface VendorVatTreatment {
+  id: string;
+  businessId: string;
+  vendorNameNormalized: string;
+  vendorNameOriginal: string;
+  treatment: VatTreatment;
   createdAt: string;
   updatedAt: string;
 }
 
+interface ExchangeRateRecord {
+  currency: string;
+  /** YYYY-MM-DD the rate was published for */
+  rateDate: string;
+  rate: number;
+  source: string;
+}
+
 interface ConversationMessage {
   id: string;
   businessId: string;
@@ -131,6 +359,65 @@ interface ConversationMessage {
   createdAt: string;
 }
 
+type OutboxStatus = "PENDING" | "SENDING" | "RETRYING" | "SENT" | "FAILED";
+
+interface OutboxMessageRecord {
+  id: string;
+  businessId: string | null;
+  channel: "EMAIL" | "WHATSAPP";
+  /** What the message is for (monthly_report, missing_receipts…) */
+  kind: string;
+  recipient: string;
+  /** Enqueuing the same key twice returns the first message */
+  idempotencyKey: string;
+  payload: Record<string, unknown>;
+  status: OutboxStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  /** When a worker claimed it; a stale claim means the worker died mid-send */
+  lockedAt: string | null;
+  lastError: string | null;
+  providerMessageId: string | null;
+  sentAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+type JobStatus = "QUEUED" | "RUNNING" | "SUCCEEDED" | "FAILED" | "SKIPPED";
+
+interface JobRecord {
+  id: string;
+  /** Handler name (inbox-sync, deep-scan…) */
+  name: string;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  runAt: string;
+  attempts: number;
+  maxAttempts: number;
+  /** Scheduled jobs use name + slot, so a slot is only ever enqueued once */
+  dedupeKey: string | null;
+  lockedBy: string | null;
+  lockedAt: string | null;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface JobRunRecord {
+  id: string;
+  jobId: string;
+  name: string;
+  workerId: string;
+  status: "SUCCEEDED" | "FAILED";
+  attempt: number;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  result: Record<string, unknown> | null;
+  error: string | null;
+}
+
 interface MonthlySummary {
   id: string;
   businessId: string;
@@ -145,13 +432,30 @@ interface AppDatabase {
   users: User[];
   businesses: Business[];
   members: BusinessMember[];
+  userSessions: UserSession[];
+  userMagicLinkUses: UserMagicLinkUse[];
   accountantContacts: AccountantContact[];
+  accountantSessions: AccountantSession[];
+  accountantMagicLinkUses: AccountantMagicLinkUse[];
+  accountantFirms: AccountantFirm[];
+  accountantStaff: AccountantStaffMember[];
+  accountantStaffInvitations: AccountantStaffInvitation[];
+  accountantClientAssignments: AccountantClientAssignment[];
+  clientInvitations: ClientInvitation[];
+  periodCloses: PeriodClose[];
+  documentComments: DocumentComment[];
+  documentRequests: DocumentRequest[];
   oauthConnections: OAuthConnection[];
   inboxConnections: InboxConnection[];
   whatsappIntegrations: WhatsAppIntegration[];
   documents: DocumentRecord[];
+  vendorVatTreatments: VendorVatTreatment[];
+  exchangeRates: ExchangeRateRecord[];
   conversationMessages: ConversationMessage[];
   monthlySummaries: MonthlySummary[];
+  outboxMessages: OutboxMessageRecord[];
+  jobs: JobRecord[];
+  jobRuns: JobRunRecord[];
 }
 
 const PROVIDER_MAP = {
@@ -217,18 +521,83 @@ function escapeCsv(value: string | number | null): string {
   return text;
 }
 
+/** Shekel total for sums; foreign-currency documents without a rate yet are left out. */
+function ilsAmountCents(entry: DocumentRecord): number | null {
+  return entry.amountIlsCents ?? (entry.currency === "ILS" ? entry.amountCents : null);
+}
+
+function duplicateFingerprint(entry: DocumentRecord) {
+  return {
+    id: entry.id,
+    businessId: entry.businessId,
+    vendorName: entry.vendorName,
+    amountCents: entry.amountCents,
+    currency: entry.currency,
+    issuedAt: entry.issuedAt,
+    type: entry.type,
+    invoiceNumber: entry.invoiceNumber ?? null,
+    contentHash: entry.contentHash ?? null,
+    duplicateStatus: entry.duplicateStatus ?? null,
+  };
+}
+
+function duplicateGroupDocument(entry: DocumentRecord, provider: string) {
+  return {
+    id: entry.id,
+    vendor: entry.vendorName,
+    amountCents: entry.amountCents,
+    currency: entry.currency,
+    amountIlsCents: ilsAmountCents(entry),
+    issuedAt: entry.issuedAt,
+    source: entry.source.toLowerCase(),
+    provider: provider.toLowerCase(),
+    type: entry.type.toLowerCase(),
+    invoiceNumber: entry.invoiceNumber ?? null,
+    hasFile: Boolean(entry.fileKey),
+    duplicateStatus: entry.duplicateStatus?.toLowerCase() ?? null,
+    duplicateReason: entry.duplicateReason ?? null,
+  };
+}
+
+/** Confirmed duplicates stay stored (and visible in their group) but count nowhere else. */
+function isCountedDocument(entry: DocumentRecord): boolean {
+  return entry.duplicateStatus !== "CONFIRMED";
+}
+
+/** Not yet accepted, declined, revoked or expired */
+function isOpenStaffInvitation(entry: AccountantStaffInvitation, now: string): boolean {
+  return !entry.acceptedAt && !entry.declinedAt && !entry.revokedAt && entry.expiresAt > now;
+}
+
 function createInitialDb(): AppDatabase {
   return {
     users: [],
     businesses: [],
     members: [],
+    userSessions: [],
+    userMagicLinkUses: [],
     accountantContacts: [],
+    accountantSessions: [],
+    accountantMagicLinkUses: [],
+    accountantFirms: [],
+    accountantStaff: [],
+    accountantStaffInvitations: [],
+    accountantClientAssignments: [],
+    clientInvitations: [],
+    periodCloses: [],
+    documentComments: [],
+    documentRequests: [],
     oauthConnections: [],
     inboxConnections: [],
     whatsappIntegrations: [],
     documents: [],
+    vendorVatTreatments: [],
+    exchangeRates: [],
     conversationMessages: [],
     monthlySummaries: [],
+    outboxMessages: [],
+    jobs: [],
+    jobRuns: [],
   };
 }
 
@@ -256,8 +625,21 @@ export class AppStore {
     return {
       users: parsed.users ?? [],
       businesses: parsed.businesses ?? [],
-      members: parsed.members ?? [],
+      // MEMBER rows used to come only from the WhatsApp sender allowlist
+      members: (parsed.members ?? []).map((member) => (member.role === "MEMBER" ? { ...member, role: "SENDER" } : member)),
+      userSessions: parsed.userSessions ?? [],
+      userMagicLinkUses: parsed.userMagicLinkUses ?? [],
       accountantContacts: parsed.accountantContacts ?? [],
+      accountantSessions: parsed.accountantSessions ?? [],
+      accountantMagicLinkUses: parsed.accountantMagicLinkUses ?? [],
+      accountantFirms: parsed.accountantFirms ?? [],
+      accountantStaff: parsed.accountantStaff ?? [],
+      accountantStaffInvitations: parsed.accountantStaffInvitations ?? [],
+      accountantClientAssignments: parsed.accountantClientAssignments ?? [],
+      clientInvitations: parsed.clientInvitations ?? [],
+      periodCloses: parsed.periodCloses ?? [],
+      documentComments: parsed.documentComments ?? [],
+      documentRequests: parsed.documentRequests ?? [],
       oauthConnections: parsed.oauthConnections ?? [],
       inboxConnections: (parsed.inboxConnections ?? []).map((entry) => ({
         ...entry,
@@ -269,8 +651,13 @@ export class AppStore {
         provider: entry.provider ?? "CLOUD_API",
       })),
       documents: parsed.documents ?? [],
+      vendorVatTreatments: parsed.vendorVatTreatments ?? [],
+      exchangeRates: parsed.exchangeRates ?? [],
       conversationMessages: parsed.conversationMessages ?? [],
       monthlySummaries: parsed.monthlySummaries ?? [],
+      outboxMessages: parsed.outboxMessages ?? [],
+      jobs: parsed.jobs ?? [],
+      jobRuns: parsed.jobRuns ?? [],
     };
   }
 
@@ -321,6 +708,37 @@ export class AppStore {
     return this.data.whatsappIntegrations.find((entry) => entry.businessId === businessId) ?? null;
   }
 
+  private activePeriodClose(businessId: string, monthKey: string): PeriodClose | null {
+    return this.data.periodCloses.find(
+      (entry) => entry.businessId === businessId && entry.monthKey === monthKey && !entry.reopenedAt,
+    ) ?? null;
+  }
+
+  /**
+   * Whether a document's month is closed: documents that were there at the
+   * close are locked, ones that arrived after it are late. Months are Israeli
+   * calendar months, as in the exports.
+   */
+  private documentPeriodState(document: DocumentRecord) {
+    const close = this.activePeriodClose(document.businessId, toIsraelDate(document.issuedAt).slice(0, 7));
+    return {
+      locked: Boolean(close && document.createdAt <= close.closedAt),
+      late: Boolean(close && document.createdAt > close.closedAt),
+    };
+  }
+
+  private assertDocumentUnlocked(document: DocumentRecord) {
+    if (this.documentPeriodState(document).locked) {
+      throw Object.assign(new Error("This document's month was closed by the accountant"), { statusCode: 409 });
+    }
+  }
+
+  private uploaderName(document: DocumentRecord): string | null {
+    if (!document.uploadedByUserId) return null;
+    const user = this.data.users.find((entry) => entry.id === document.uploadedByUserId);
+    return user ? user.fullName || user.email : null;
+  }
+
   private serializeConnectedInboxes(businessId: string) {
     return this.data.inboxConnections
       .filter((entry) => entry.businessId === businessId && entry.status !== "DISCONNECTED")
@@ -525,6 +943,58 @@ export class AppStore {
     };
   }
 
+  connectImapInbox(payload: {
+    businessId: string;
+    provider: "imap" | "yahoo" | "icloud";
+    email: string;
+    imap: { host: string; port: number; secure: boolean; username: string; passwordEncrypted: string };
+  }) {
+    this.getBusinessOrThrow(payload.businessId);
+    const email = normalizeEmail(payload.email);
+    const timestamp = nowIso();
+    const owner = this.getOwnerForBusiness(payload.businessId);
+    let inbox = this.data.inboxConnections.find(
+      (entry) => entry.businessId === payload.businessId && normalizeEmail(entry.email) === email,
+    );
+    if (!inbox) {
+      inbox = {
+        id: randomUUID(),
+        businessId: payload.businessId,
+        userId: owner?.id ?? null,
+        provider: PROVIDER_MAP[payload.provider],
+        email,
+        status: "CONNECTED",
+        authMethod: "APP_PASSWORD",
+        oauthConnectionId: null,
+        lastSyncAt: null,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+      this.data.inboxConnections.push(inbox);
+    }
+    Object.assign(inbox, {
+      provider: PROVIDER_MAP[payload.provider],
+      status: "CONNECTED",
+      authMethod: "APP_PASSWORD",
+      oauthConnectionId: null,
+      imapHost: payload.imap.host,
+      imapPort: payload.imap.port,
+      imapSecure: payload.imap.secure,
+      imapUsername: payload.imap.username,
+      imapPasswordEncrypted: payload.imap.passwordEncrypted,
+      // New credentials may point at a different mailbox — restart the cursor
+      imapUidValidity: null,
+      imapLastUid: null,
+      updatedAt: timestamp,
+    });
+
+    this.save();
+    return {
+      businessId: payload.businessId,
+      connectedInboxes: this.serializeConnectedInboxes(payload.businessId),
+    };
+  }
+
   upsertOAuthInbox(payload: {
     businessId: string;
     provider: OAuthProvider;
@@ -656,28 +1126,37 @@ export class AppStore {
     return this.serializeWhatsAppIntegration(payload.businessId);
   }
 
-  markWhatsAppInbound(payload: { fromPhone: string; text: string }) {
+  markWhatsAppInbound(payload: { fromPhone: string; text?: string | null }) {
     const phone = normalizePhone(payload.fromPhone);
     const integration = this.data.whatsappIntegrations.find(
       (entry) => normalizePhone(entry.customerPhoneE164 ?? "") === phone,
     );
     if (!integration) {
-      return null;
+      // Other allowlisted members message the same number
+      const member = this.data.members.find((entry) => normalizePhone(entry.whatsappPhoneE164 ?? "") === phone);
+      if (!member || !phone) {
+        return null;
+      }
+      member.whatsappLastInboundAt = nowIso();
+      this.save();
+      return { businessId: member.businessId };
     }
 
     integration.status = "CONNECTED";
     integration.lastInboundAt = nowIso();
     integration.lastError = null;
     integration.updatedAt = nowIso();
-    this.data.conversationMessages.push({
-      id: randomUUID(),
-      businessId: integration.businessId,
-      userId: null,
-      channel: "WHATSAPP",
-      direction: "USER",
-      text: payload.text,
-      createdAt: nowIso(),
-    });
+    if (payload.text) {
+      this.data.conversationMessages.push({
+        id: randomUUID(),
+        businessId: integration.businessId,
+        userId: null,
+        channel: "WHATSAPP",
+        direction: "USER",
+        text: payload.text,
+        createdAt: nowIso(),
+      });
+    }
     this.save();
     return { businessId: integration.businessId };
   }
@@ -719,10 +1198,10 @@ export class AppStore {
 
   private buildSummary(businessId: string) {
     const business = this.getBusinessOrThrow(businessId);
-    const docs = this.data.documents.filter((entry) => entry.businessId === businessId);
+    const docs = this.data.documents.filter((entry) => entry.businessId === businessId && isCountedDocument(entry));
     const totals = {
       documents: docs.length,
-      amountCents: docs.reduce((sum, entry) => sum + entry.amountCents, 0),
+      amountCents: docs.reduce((sum, entry) => sum + (ilsAmountCents(entry) ?? 0), 0),
       sent: docs.filter((entry) => entry.status === "SENT").length,
       pending: docs.filter((entry) => entry.status === "PENDING").length,
       review: docs.filter((entry) => entry.status === "REVIEW").length,
@@ -740,8 +1219,8 @@ export class AppStore {
       return issuedAt >= previousMonthStart && issuedAt < monthStart;
     });
 
-    const currentAmount = currentDocs.reduce((sum, entry) => sum + entry.amountCents, 0);
-    const previousAmount = previousDocs.reduce((sum, entry) => sum + entry.amountCents, 0);
+    const currentAmount = currentDocs.reduce((sum, entry) => sum + (ilsAmountCents(entry) ?? 0), 0);
+    const previousAmount = previousDocs.reduce((sum, entry) => sum + (ilsAmountCents(entry) ?? 0), 0);
     const deltaPercent = previousAmount === 0
       ? 100
       : Number((((currentAmount - previousAmount) / previousAmount) * 100).toFixed(1));
@@ -792,7 +1271,10 @@ export class AppStore {
         vendorName: template.vendorName,
         amountCents,
         currency: "ILS",
-        vatCents: Math.floor(amountCents * 0.17),
+        vatCents: estimateVatCents(amountCents, issuedAt),
+        vatEstimated: true,
+        amountIlsCents: amountCents,
+        exchangeRate: 1,
         issuedAt,
         confidence: Number((0.82 + rand() * 0.18).toFixed(3)),
         category: template.category,
@@ -877,26 +1359,138 @@ export class AppStore {
     const target = STATUS_MAP[status];
     const documents = this.data.documents
       .filter((entry) => entry.businessId === businessId && (target ? entry.status === target : true))
+      .filter(isCountedDocument)
       .sort((a, b) => b.issuedAt.localeCompare(a.issuedAt));
 
     return {
       businessId,
-      documents: documents.map((entry) => {
-        const inbox = this.data.inboxConnections.find((item) => item.id === entry.inboxConnectionId);
-        return {
-          id: entry.id,
-          vendor: entry.vendorName,
-          amountCents: entry.amountCents,
-          currency: entry.currency,
-          issuedAt: entry.issuedAt,
-          category: entry.category ?? "כללי",
-          status: entry.status.toLowerCase(),
-          source: entry.source.toLowerCase(),
-          provider: (inbox?.provider ?? "WHATSAPP").toLowerCase(),
-          type: entry.type.toLowerCase(),
-          confidence: entry.confidence,
-        };
-      }),
+      documents: documents.map((entry) => this.toDashboardDocument(entry)),
+    };
+  }
+
+  /** One document as a dashboard list row, or null if the list doesn't show it. */
+  getDashboardDocument(businessId: string, documentId: string) {
+    const entry = this.data.documents.find((item) => item.id === documentId && item.businessId === businessId);
+    return entry && isCountedDocument(entry) ? this.toDashboardDocument(entry) : null;
+  }
+
+  /** Filtered, sorted page of dashboard rows; `nextCursor` is null on the last page. */
+  searchDocuments(businessId: string, search: DocumentSearch) {
+    this.getBusinessOrThrow(businessId);
+    const target = STATUS_MAP[search.status];
+    const tokens = searchTokens(search.q);
+    const { field, descending } = SORT_SPECS[search.sort];
+
+    const sortValue = (entry: DocumentRecord): string | number => {
+      const values: Record<DocumentSortField, () => string | number> = {
+        issuedAt: () => entry.issuedAt,
+        amount: () => ilsAmountCents(entry) ?? 0,
+        vendor: () => entry.vendorName.toLowerCase(),
+        createdAt: () => entry.createdAt,
+      };
+      return values[field]();
+    };
+    const compare = (a: { value: string | number; id: string }, b: { value: string | number; id: string }) => {
+      const order = a.value < b.value ? -1 : a.value > b.value ? 1 : a.id.localeCompare(b.id);
+      return descending ? -order : order;
+    };
+
+    const matches = this.data.documents
+      .filter((entry) => entry.businessId === businessId && isCountedDocument(entry))
+      .filter((entry) => !target || entry.status === target)
+      .filter((entry) => {
+        if (search.from && entry.issuedAt.slice(0, 10) < search.from) return false;
+        if (search.to && entry.issuedAt.slice(0, 10) > search.to) return false;
+        const amount = ilsAmountCents(entry) ?? 0;
+        if (search.minAmountCents !== undefined && amount < search.minAmountCents) return false;
+        if (search.maxAmountCents !== undefined && amount > search.maxAmountCents) return false;
+        if (search.category && (entry.category ?? "כללי") !== search.category) return false;
+        if (search.type && entry.type !== search.type.toUpperCase()) return false;
+        if (search.source && entry.source !== search.source.toUpperCase()) return false;
+        if (search.inboxId && entry.inboxConnectionId !== search.inboxId) return false;
+        if (search.late && !this.documentPeriodState(entry).late) return false;
+        if (tokens.length > 0) {
+          const text = [entry.vendorName, entry.comments, entry.rawText].filter(Boolean).join(" ").toLowerCase();
+          if (!tokens.every((token) => text.includes(token))) return false;
+        }
+        return true;
+      })
+      .map((entry) => ({ entry, value: sortValue(entry), id: entry.id }))
+      .filter((row) => !search.cursor || compare(row, search.cursor) > 0)
+      .sort(compare);
+
+    const page = matches.slice(0, search.limit);
+    const last = page[page.length - 1];
+    return {
+      businessId,
+      documents: page.map((row) => this.toDashboardDocument(row.entry)),
+      nextCursor: matches.length > search.limit && last
+        ? encodeCursor(search.sort, { value: last.value, id: last.id })
+        : null,
+    };
+  }
+
+  private toDashboardDocument(entry: DocumentRecord) {
+    const inbox = this.data.inboxConnections.find((item) => item.id === entry.inboxConnectionId);
+    return {
+      id: entry.id,
+      vendor: entry.vendorName,
+      amountCents: entry.amountCents,
+      currency: entry.currency,
+      amountIlsCents: ilsAmountCents(entry),
+      issuedAt: entry.issuedAt,
+      category: entry.category ?? "כללי",
+      status: entry.status.toLowerCase(),
+      source: entry.source.toLowerCase(),
+      provider: (inbox?.provider ?? "WHATSAPP").toLowerCase(),
+      type: entry.type.toLowerCase(),
+      confidence: entry.confidence,
+      hasFile: Boolean(entry.fileKey),
+      duplicateStatus: entry.duplicateStatus?.toLowerCase() ?? null,
+      uploadedBy: this.uploaderName(entry),
+      ...this.documentPeriodState(entry),
+    };
+  }
+
+  getExportDocuments(businessId: string, filter: { status: keyof typeof STATUS_MAP; from?: string; to?: string }) {
+    const business = this.getBusinessOrThrow(businessId);
+    const target = STATUS_MAP[filter.status];
+    const documents = this.data.documents
+      .filter((entry) => entry.businessId === businessId && (target ? entry.status === target : true))
+      .filter(isCountedDocument)
+      .filter((entry) => (!filter.from || entry.issuedAt.slice(0, 10) >= filter.from)
+        && (!filter.to || entry.issuedAt.slice(0, 10) <= filter.to))
+      .sort((a, b) => a.issuedAt.localeCompare(b.issuedAt));
+
+    return {
+      business: {
+        id: business.id,
+        name: business.name,
+        currency: business.currency,
+        taxId: business.taxId ?? null,
+        vatReportingFrequency: business.vatReportingFrequency ?? "bimonthly",
+      },
+      documents: documents.map((entry) => ({
+        id: entry.id,
+        vendor: entry.vendorName,
+        amountCents: entry.amountCents,
+        vatCents: entry.vatCents,
+        currency: entry.currency,
+        amountIlsCents: ilsAmountCents(entry),
+        exchangeRate: entry.exchangeRate ?? (entry.currency === "ILS" ? 1 : null),
+        issuedAt: entry.issuedAt,
+        category: entry.category ?? "כללי",
+        type: entry.type.toLowerCase(),
+        status: entry.status.toLowerCase(),
+        source: entry.source.toLowerCase(),
+        provider: (this.data.inboxConnections.find((item) => item.id === entry.inboxConnectionId)?.provider ?? "WHATSAPP").toLowerCase(),
+        confidence: entry.confidence,
+        supplierTaxId: entry.supplierTaxId ?? null,
+        isFixedAsset: entry.isFixedAsset ?? false,
+        vatEstimated: entry.vatEstimated ?? false,
+        invoiceNumber: entry.invoiceNumber ?? null,
+        allocationNumber: entry.allocationNumber ?? null,
+      })),
     };
   }
 
@@ -913,7 +1507,10 @@ export class AppStore {
       vendor: document.vendorName,
       amountCents: document.amountCents,
       currency: document.currency,
+      amountIlsCents: ilsAmountCents(document),
+      exchangeRate: document.exchangeRate ?? (document.currency === "ILS" ? 1 : null),
       vatCents: document.vatCents,
+      vatEstimated: document.vatEstimated ?? false,
       issuedAt: document.issuedAt,
       status: document.status.toLowerCase(),
       source: document.source.toLowerCase(),
@@ -921,7 +1518,19 @@ export class AppStore {
       type: document.type.toLowerCase(),
       category: document.category ?? "כללי",
       confidence: document.confidence,
+      supplierTaxId: document.supplierTaxId ?? null,
+      isFixedAsset: document.isFixedAsset ?? false,
+      invoiceNumber: document.invoiceNumber ?? null,
+      allocationNumber: document.allocationNumber ?? null,
+      allocationNumberRequired: !document.allocationNumber && requiresAllocationNumber(document),
+      duplicateOfId: document.duplicateOfId ?? null,
+      duplicateStatus: document.duplicateStatus?.toLowerCase() ?? null,
+      uploadedBy: this.uploaderName(document),
+      ...this.documentPeriodState(document),
       rawText: document.rawText,
+      file: document.fileKey
+        ? { filename: document.fileName, mimeType: document.fileMimeType, sizeBytes: document.fileSizeBytes }
+        : null,
       createdAt: document.createdAt,
       updatedAt: document.updatedAt,
     };
@@ -929,7 +1538,10 @@ export class AppStore {
 
   exportDashboardCsv(businessId: string, status: keyof typeof STATUS_MAP = "all") {
     const rows = this.getDashboardDocuments(businessId, status).documents;
-    const header = ["id", "vendor", "amount_cents", "currency", "issued_at", "category", "status", "source", "provider", "type", "confidence"].join(",");
+    const header = [
+      "id", "vendor", "amount_cents", "currency", "issued_at", "category", "status", "source", "provider", "type", "confidence",
+      "amount_ils_cents",
+    ].join(",");
     const body = rows.map((row) =>
       [
         escapeCsv(row.id),
@@ -943,6 +1555,7 @@ export class AppStore {
         escapeCsv(row.provider),
         escapeCsv(row.type),
         escapeCsv(row.confidence),
+        escapeCsv(row.amountIlsCents),
       ].join(",")
     );
     return [header, ...body].join("\n");
@@ -1057,6 +1670,8 @@ export class AppStore {
         accountantName: business.accountantDisplayName,
         currency: business.currency,
         timezone: business.timezone,
+        taxId: business.taxId ?? null,
+        vatReportingFrequency: business.vatReportingFrequency ?? "bimonthly",
       },
       owner: owner
         ? {
@@ -1094,6 +1709,8 @@ export class AppStore {
     businessName?: string;
     preferredLanguage?: string;
     currency?: string;
+    taxId?: string | null;
+    vatReportingFrequency?: VatReportingFrequency;
   }) {
     const business = this.getBusinessOrThrow(payload.businessId);
     const owner = this.getOwnerForBusiness(payload.businessId);
@@ -1124,6 +1741,12 @@ export class AppStore {
     if (payload.currency?.trim()) {
       business.currency = payload.currency.trim().toUpperCase();
     }
+    if (payload.taxId !== undefined) {
+      business.taxId = payload.taxId?.trim() || null;
+    }
+    if (payload.vatReportingFrequency !== undefined) {
+      business.vatReportingFrequency = payload.vatReportingFrequency;
+    }
     owner.updatedAt = nowIso();
     business.updatedAt = nowIso();
     this.save();
@@ -1195,7 +1818,13 @@ export class AppStore {
 
   getInboxConnection(id: string) {
     const entry = this.data.inboxConnections.find((e) => e.id === id);
-    return entry ? { ...entry, gmailHistoryId: (entry as any).gmailHistoryId ?? null } : null;
+    return entry
+      ? {
+        ...entry,
+        gmailHistoryId: (entry as any).gmailHistoryId ?? null,
+        outlookDeltaLink: entry.outlookDeltaLink ?? null,
+      }
+      : null;
   }
 
   getOAuthConnection(id: string) {
@@ -1219,6 +1848,49 @@ export class AppStore {
     ).map((e) => ({ ...e, gmailHistoryId: (e as any).gmailHistoryId ?? null }));
   }
 
+  getOutlookInboxes(businessId: string) {
+    return this.data.inboxConnections.filter(
+      (e) => e.businessId === businessId && e.provider === "OUTLOOK" && e.status === "CONNECTED"
+        && e.authMethod === "OAUTH" && e.oauthConnectionId,
+    ).map((e) => ({ ...e, outlookDeltaLink: e.outlookDeltaLink ?? null }));
+  }
+
+  getImapInboxes(businessId: string) {
+    return this.data.inboxConnections
+      .filter((e) => e.businessId === businessId && e.status === "CONNECTED" && e.authMethod === "APP_PASSWORD")
+      .map((e) => ({ id: e.id, businessId: e.businessId, provider: e.provider, email: e.email, status: e.status }));
+  }
+
+  getImapInboxCredentials(inboxConnectionId: string) {
+    const e = this.data.inboxConnections.find((entry) => entry.id === inboxConnectionId);
+    if (!e || e.authMethod !== "APP_PASSWORD" || !e.imapHost || !e.imapPasswordEncrypted) return null;
+    return {
+      id: e.id,
+      businessId: e.businessId,
+      provider: e.provider,
+      email: e.email,
+      host: e.imapHost,
+      port: e.imapPort ?? 993,
+      secure: e.imapSecure ?? true,
+      username: e.imapUsername ?? e.email,
+      passwordEncrypted: e.imapPasswordEncrypted,
+      uidValidity: e.imapUidValidity ?? null,
+      lastUid: e.imapLastUid ?? null,
+    };
+  }
+
+  hasDocumentForImapMessage(businessId: string, imapMessageId: string): boolean {
+    return this.data.documents.some(
+      (e) => e.businessId === businessId && e.imapMessageId === imapMessageId,
+    );
+  }
+
+  hasDocumentForOutlookMessage(businessId: string, outlookMessageId: string): boolean {
+    return this.data.documents.some(
+      (e) => e.businessId === businessId && e.outlookMessageId === outlookMessageId,
+    );
+  }
+
   hasDocumentForGmailMessage(businessId: string, gmailMessageId: string): boolean {
     return this.data.documents.some(
       (e) => e.businessId === businessId && (e as any).gmailMessageId === gmailMessageId,
@@ -1228,8 +1900,12 @@ export class AppStore {
   createDocument(doc: {
     businessId: string; inboxConnectionId?: string | null; source: string; type: string;
     status: string; vendorName: string; amountCents: number; currency: string;
-    vatCents?: number | null; issuedAt: string; confidence: number;
+    vatCents?: number | null; vatEstimated?: boolean; issuedAt: string; confidence: number;
+    amountIlsCents?: number | null; exchangeRate?: number | null;
     category?: string | null; rawText?: string | null; gmailMessageId?: string | null;
+    outlookMessageId?: string | null; imapMessageId?: string | null; invoiceNumber?: string | null;
+    supplierTaxId?: string | null; allocationNumber?: string | null; uploadedByUserId?: string | null;
+    file?: { key: string; filename: string; mimeType: string; sizeBytes: number; sha256?: string } | null;
   }) {
     const timestamp = nowIso();
     const record = {
@@ -1243,10 +1919,25 @@ export class AppStore {
       amountCents: doc.amountCents,
       currency: doc.currency,
       vatCents: doc.vatCents ?? null,
+      vatEstimated: doc.vatEstimated ?? false,
+      amountIlsCents: doc.amountIlsCents ?? (doc.currency === "ILS" ? doc.amountCents : null),
+      exchangeRate: doc.exchangeRate ?? (doc.currency === "ILS" ? 1 : null),
       issuedAt: doc.issuedAt,
       confidence: doc.confidence,
       category: doc.category ?? null,
       rawText: doc.rawText ?? null,
+      gmailMessageId: doc.gmailMessageId ?? null,
+      outlookMessageId: doc.outlookMessageId ?? null,
+      imapMessageId: doc.imapMessageId ?? null,
+      fileKey: doc.file?.key ?? null,
+      fileName: doc.file?.filename ?? null,
+      fileMimeType: doc.file?.mimeType ?? null,
+      fileSizeBytes: doc.file?.sizeBytes ?? null,
+      invoiceNumber: doc.invoiceNumber ?? null,
+      supplierTaxId: doc.supplierTaxId ?? null,
+      allocationNumber: doc.allocationNumber ?? null,
+      contentHash: doc.file?.sha256 ?? null,
+      uploadedByUserId: doc.uploadedByUserId ?? null,
       createdAt: timestamp,
       updatedAt: timestamp,
     };
@@ -1265,6 +1956,27 @@ export class AppStore {
     }
   }
 
+  updateInboxDeltaLink(inboxConnectionId: string, outlookDeltaLink: string) {
+    const entry = this.data.inboxConnections.find((e) => e.id === inboxConnectionId);
+    if (entry) {
+      entry.outlookDeltaLink = outlookDeltaLink;
+      entry.lastSyncAt = nowIso();
+      entry.updatedAt = nowIso();
+      this.save();
+    }
+  }
+
+  updateImapSyncCursor(inboxConnectionId: string, uidValidity: string, lastUid: number) {
+    const entry = this.data.inboxConnections.find((e) => e.id === inboxConnectionId);
+    if (entry) {
+      entry.imapUidValidity = uidValidity;
+      entry.imapLastUid = lastUid;
+      entry.lastSyncAt = nowIso();
+      entry.updatedAt = nowIso();
+      this.save();
+    }
+  }
+
   getConnectedWhatsAppIntegrations() {
     return this.data.whatsappIntegrations
       .filter((e) => e.status === "CONNECTED" && e.provider === "BAILEYS")
@@ -1278,6 +1990,10 @@ export class AppStore {
       }));
   }
 
+  getWhatsAppIntegrationForBusiness(businessId: string) {
+    return this.serializeWhatsAppIntegration(businessId);
+  }
+
   getAccountantForBusiness(businessId: string) {
     const business = this.getBusinessOrThrow(businessId);
     return this.ensureAccountantContact(businessId, business.accountantDisplayName);
@@ -1286,7 +2002,10 @@ export class AppStore {
   markDocumentsSent(businessId: string, documentIds: string[]) {
     let count = 0;
     for (const doc of this.data.documents) {
-      if (doc.businessId === businessId && documentIds.includes(doc.id) && doc.status !== "SENT") {
+      if (
+        doc.businessId === businessId && documentIds.includes(doc.id) && doc.status !== "SENT"
+        && !this.documentPeriodState(doc).locked
+      ) {
         doc.status = "SENT";
         doc.updatedAt = new Date().toISOString();
         count++;
@@ -1300,40 +2019,1389 @@ export class AppStore {
     category?: string;
     comments?: string | null;
     amountCents?: number;
+    currency?: string;
+    /** Conversion for a new amount or currency; without it the stored rate is reapplied */
+    amountIlsCents?: number | null;
+    exchangeRate?: number | null;
     vendorName?: string;
     status?: string;
+    vatCents?: number | null;
+    vatEstimated?: boolean;
+    supplierTaxId?: string | null;
+    isFixedAsset?: boolean;
+    invoiceNumber?: string | null;
+    allocationNumber?: string | null;
   }) {
     this.getBusinessOrThrow(businessId);
     const doc = this.data.documents.find((d) => d.businessId === businessId && d.id === documentId);
     if (!doc) throw new Error("Document not found");
+    this.assertDocumentUnlocked(doc);
     if (updates.category !== undefined) doc.category = updates.category;
-    if (updates.comments !== undefined) (doc as any).comments = updates.comments;
+    if (updates.comments !== undefined) doc.comments = updates.comments;
     if (updates.amountCents !== undefined) doc.amountCents = updates.amountCents;
+    if (updates.currency !== undefined) doc.currency = updates.currency;
+    if (updates.exchangeRate !== undefined) {
+      doc.exchangeRate = updates.exchangeRate;
+      doc.amountIlsCents = updates.amountIlsCents ?? null;
+    } else if (updates.amountCents !== undefined || updates.currency !== undefined) {
+      const rate = doc.currency === "ILS" ? 1 : updates.currency !== undefined ? null : doc.exchangeRate ?? null;
+      doc.exchangeRate = rate;
+      doc.amountIlsCents = rate != null ? Math.round(doc.amountCents * rate) : null;
+    }
     if (updates.vendorName !== undefined) doc.vendorName = updates.vendorName;
     if (updates.status !== undefined) doc.status = updates.status.toUpperCase() as any;
+    if (updates.vatCents !== undefined) {
+      doc.vatCents = updates.vatCents;
+      doc.vatEstimated = updates.vatEstimated ?? false;
+    }
+    if (updates.supplierTaxId !== undefined) doc.supplierTaxId = updates.supplierTaxId?.trim() || null;
+    if (updates.isFixedAsset !== undefined) doc.isFixedAsset = updates.isFixedAsset;
+    if (updates.invoiceNumber !== undefined) doc.invoiceNumber = updates.invoiceNumber?.trim() || null;
+    if (updates.allocationNumber !== undefined) doc.allocationNumber = updates.allocationNumber?.trim() || null;
     doc.updatedAt = nowIso();
     this.save();
     return this.getDashboardDocumentDetail(businessId, documentId);
   }
 
-  createDocumentFromWhatsApp(payload: { businessId: string; filename: string; mimetype: string; caption: string }) {
-    const isImage = payload.mimetype.startsWith("image/");
-    const isPdf = payload.mimetype === "application/pdf";
-    const type = isPdf || isImage ? "INVOICE" : "RECEIPT";
-    return this.createDocument({
-      businessId: payload.businessId,
-      source: "WHATSAPP",
-      type,
-      status: "PENDING",
-      vendorName: payload.caption || payload.filename || "WhatsApp Media",
-      amountCents: 0,
-      currency: "ILS",
-      issuedAt: new Date().toISOString(),
+  attachDocumentFile(businessId: string, documentId: string, file: { key: string; filename: string; mimeType: string; sizeBytes: number; sha256?: string }) {
+    const doc = this.data.documents.find((e) => e.businessId === businessId && e.id === documentId);
+    if (!doc) throw new Error("Document not found");
+    doc.fileKey = file.key;
+    doc.fileName = file.filename;
+    doc.fileMimeType = file.mimeType;
+    doc.fileSizeBytes = file.sizeBytes;
+    doc.contentHash = file.sha256 ?? doc.contentHash ?? null;
+    doc.updatedAt = nowIso();
+    this.save();
+  }
+
+  getDocumentFile(businessId: string, documentId: string) {
+    const doc = this.data.documents.find((e) => e.businessId === businessId && e.id === documentId);
+    if (!doc) throw new Error("Document not found");
+    if (!doc.fileKey) return null;
+    return {
+      key: doc.fileKey,
+      filename: doc.fileName ?? "document",
+      mimeType: doc.fileMimeType ?? "application/octet-stream",
+      sizeBytes: doc.fileSizeBytes ?? 0,
+    };
+  }
+
+  /** The newest document a member sent over WhatsApp, or null. */
+  getLastWhatsAppUpload(businessId: string, userId: string) {
+    const doc = this.data.documents
+      .filter((e) => e.businessId === businessId && e.source === "WHATSAPP" && e.uploadedByUserId === userId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+    if (!doc) return null;
+    return {
+      id: doc.id,
+      vendor: doc.vendorName,
+      amountCents: doc.amountCents,
+      currency: doc.currency,
+      category: doc.category ?? "כללי",
+      status: doc.status.toLowerCase(),
+      createdAt: doc.createdAt,
+    };
+  }
+
+  /**
+   * Remove a document. Duplicates that pointed at it are unlinked; the
+   * stored file reference is returned so the caller can delete the blob.
+   */
+  deleteDocument(businessId: string, documentId: string) {
+    const doc = this.data.documents.find((e) => e.businessId === businessId && e.id === documentId);
+    if (!doc) throw new Error("Document not found");
+    this.assertDocumentUnlocked(doc);
+    for (const entry of this.data.documents) {
+      if (entry.duplicateOfId === documentId) {
+        entry.duplicateOfId = null;
+        entry.duplicateStatus = null;
+        entry.duplicateReason = null;
+        entry.updatedAt = nowIso();
+      }
+    }
+    this.data.documents = this.data.documents.filter((e) => e.id !== documentId);
+    this.save();
+    return doc.fileKey
+      ? { key: doc.fileKey, filename: doc.fileName ?? "document", mimeType: doc.fileMimeType ?? "application/octet-stream", sizeBytes: doc.fileSizeBytes ?? 0 }
+      : null;
+  }
+
+  createDocumentFromWhatsApp(payload: { businessId: string; filename: string; mimetype: string; caption: string }) {
+    const isImage = payload.mimetype.startsWith("image/");
+    const isPdf = payload.mimetype === "application/pdf";
+    const type = isPdf || isImage ? "INVOICE" : "RECEIPT";
+    return this.createDocument({
+      businessId: payload.businessId,
+      source: "WHATSAPP",
+      type,
+      status: "PENDING",
+      vendorName: payload.caption || payload.filename || "WhatsApp Media",
+      amountCents: 0,
+      currency: "ILS",
+      issuedAt: new Date().toISOString(),
       confidence: 0.3,
       rawText: payload.caption || null,
     });
   }
 
+  // ─── owner auth ───
+
+  getUserByEmail(email: string) {
+    return this.data.users.find((entry) => entry.email === normalizeEmail(email)) ?? null;
+  }
+
+  getUserById(userId: string) {
+    return this.data.users.find((entry) => entry.id === userId) ?? null;
+  }
+
+  getBusinessesForUser(userId: string) {
+    return this.data.members
+      .filter((entry) => entry.userId === userId && entry.role !== "SENDER")
+      .map((member) => {
+        const business = this.data.businesses.find((entry) => entry.id === member.businessId);
+        return business ? { id: business.id, name: business.name, role: member.role } : null;
+      })
+      .filter(Boolean);
+  }
+
+  isBusinessMember(userId: string, businessId: string): boolean {
+    return this.data.members.some((entry) => entry.userId === userId && entry.businessId === businessId
+      && entry.role !== "SENDER");
+  }
+
+  createUserSession(userId: string, expiresAt: string) {
+    const session: UserSession = {
+      id: randomUUID(),
+      userId,
+      expiresAt,
+      revokedAt: null,
+      createdAt: nowIso(),
+    };
+    this.data.userSessions.push(session);
+    this.save();
+    return session;
+  }
+
+  getUserSession(sessionId: string) {
+    return this.data.userSessions.find((entry) => entry.id === sessionId) ?? null;
+  }
+
+  revokeUserSession(sessionId: string) {
+    const session = this.data.userSessions.find((entry) => entry.id === sessionId);
+    if (session && !session.revokedAt) {
+      session.revokedAt = nowIso();
+      this.save();
+    }
+  }
+
+  /** Record an owner magic link nonce; false if it was already used. */
+  consumeUserMagicLink(payload: { nonce: string; email: string; expiresAt: string }): boolean {
+    const now = nowIso();
+    this.data.userMagicLinkUses = this.data.userMagicLinkUses.filter((entry) => entry.expiresAt > now);
+    if (this.data.userMagicLinkUses.some((entry) => entry.nonce === payload.nonce)) return false;
+    this.data.userMagicLinkUses.push({ ...payload, usedAt: now });
+    this.save();
+    return true;
+  }
+
+  // ─── Accountant portal ───
+
+  /** Whether the address may sign in: some business's accountant, firm staff, or invited to a firm */
+  accountantEmailExists(email: string): boolean {
+    const normalized = email.toLowerCase();
+    const now = nowIso();
+    return this.data.accountantContacts.some((entry) => entry.email?.toLowerCase() === normalized)
+      || this.data.accountantStaff.some((entry) => entry.email === normalized)
+      || this.data.accountantStaffInvitations.some((entry) => entry.email === normalized && isOpenStaffInvitation(entry, now));
+  }
+
+  /** Businesses whose accountant is one of these addresses */
+  getAccountantClientsForEmails(emails: string[]) {
+    const wanted = new Set(emails.map((email) => email.toLowerCase()));
+    return this.data.accountantContacts
+      .filter((entry) => entry.email && wanted.has(entry.email.toLowerCase()))
+      .map((entry) => {
+        const business = this.data.businesses.find((item) => item.id === entry.businessId);
+        return business
+          ? { businessId: business.id, businessName: business.name, accountantEmail: entry.email!.toLowerCase() }
+          : null;
+      })
+      .filter((entry): entry is NonNullable<typeof entry> => entry !== null)
+      .sort((a, b) => a.businessName.localeCompare(b.businessName));
+  }
+
+  getClientHealth(businessIds: string[]) {
+    return businessIds
+      .map((businessId) => {
+        const business = this.data.businesses.find((item) => item.id === businessId);
+        if (!business) return null;
+        const docs = this.data.documents.filter((entry) => entry.businessId === businessId && isCountedDocument(entry));
+        return {
+          businessId,
+          businessName: business.name,
+          pendingCount: docs.filter((entry) => entry.status === "PENDING").length,
+          reviewCount: docs.filter((entry) => entry.status === "REVIEW").length,
+          sentCount: docs.filter((entry) => entry.status === "SENT").length,
+          totalCount: docs.length,
+          lastDocumentAt: docs.reduce<string | null>(
+            (latest, entry) => (!latest || entry.createdAt > latest ? entry.createdAt : latest),
+            null,
+          ),
+        };
+      })
+      .filter((entry): entry is NonNullable<typeof entry> => entry !== null)
+      .sort((a, b) => a.businessName.localeCompare(b.businessName));
+  }
+
+  // ─── Accountant firms ───
+
+  private serializeAccountantStaff(member: AccountantStaffMember) {
+    return {
+      id: member.id,
+      firmId: member.firmId,
+      email: member.email,
+      fullName: member.fullName,
+      role: member.role.toLowerCase(),
+      createdAt: member.createdAt,
+    };
+  }
+
+  getAccountantStaffByEmail(email: string) {
+    const member = this.data.accountantStaff.find((entry) => entry.email === email.toLowerCase());
+    return member ? this.serializeAccountantStaff(member) : null;
+  }
+
+  getAccountantFirm(firmId: string) {
+    const firm = this.data.accountantFirms.find((entry) => entry.id === firmId);
+    return firm ? { id: firm.id, name: firm.name, createdAt: firm.createdAt } : null;
+  }
+
+  /** New firm with its first admin */
+  createAccountantFirm(payload: { name: string; email: string; fullName: string | null }) {
+    if (this.getAccountantStaffByEmail(payload.email)) {
+      throw Object.assign(new Error("This email already belongs to a firm"), { statusCode: 409 });
+    }
+    const timestamp = nowIso();
+    const firm: AccountantFirm = { id: randomUUID(), name: payload.name.trim(), createdAt: timestamp, updatedAt: timestamp };
+    this.data.accountantFirms.push(firm);
+    const admin = this.addAccountantStaff({ firmId: firm.id, email: payload.email, fullName: payload.fullName, role: "admin" });
+    return { firm: this.getAccountantFirm(firm.id)!, staff: admin };
+  }
+
+  listAccountantStaff(firmId: string) {
+    return this.data.accountantStaff
+      .filter((entry) => entry.firmId === firmId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map((entry) => this.serializeAccountantStaff(entry));
+  }
+
+  addAccountantStaff(payload: { firmId: string; email: string; fullName: string | null; role: string }) {
+    const email = payload.email.trim().toLowerCase();
+    if (this.data.accountantStaff.some((entry) => entry.email === email)) {
+      throw Object.assign(new Error("This email already belongs to a firm"), { statusCode: 409 });
+    }
+    const member: AccountantStaffMember = {
+      id: randomUUID(),
+      firmId: payload.firmId,
+      email,
+      fullName: payload.fullName?.trim() || null,
+      role: payload.role.toUpperCase() as AccountantStaffRole,
+      createdAt: nowIso(),
+    };
+    this.data.accountantStaff.push(member);
+    this.save();
+    return this.serializeAccountantStaff(member);
+  }
+
+  updateAccountantStaffRole(firmId: string, staffId: string, role: string) {
+    const member = this.data.accountantStaff.find((entry) => entry.firmId === firmId && entry.id === staffId);
+    if (!member) throw Object.assign(new Error("Staff member not found"), { statusCode: 404 });
+    member.role = role.toUpperCase() as AccountantStaffRole;
+    this.save();
+    return this.serializeAccountantStaff(member);
+  }
+
+  /** Remove a staff member; their clients fall back to the default assignment. */
+  removeAccountantStaff(firmId: string, staffId: string) {
+    const member = this.data.accountantStaff.find((entry) => entry.firmId === firmId && entry.id === staffId);
+    if (!member) throw Object.assign(new Error("Staff member not found"), { statusCode: 404 });
+    this.data.accountantStaff = this.data.accountantStaff.filter((entry) => entry !== member);
+    this.data.accountantClientAssignments = this.data.accountantClientAssignments
+      .filter((entry) => entry.staffId !== staffId);
+    this.save();
+    return this.serializeAccountantStaff(member);
+  }
+
+  private serializeStaffInvitation(invitation: AccountantStaffInvitation) {
+    const firm = this.data.accountantFirms.find((entry) => entry.id === invitation.firmId);
+    return {
+      id: invitation.id,
+      firmId: invitation.firmId,
+      firmName: firm?.name ?? null,
+      email: invitation.email,
+      fullName: invitation.fullName,
+      role: invitation.role.toLowerCase(),
+      invitedByStaffId: invitation.invitedByStaffId,
+      expiresAt: invitation.expiresAt,
+      createdAt: invitation.createdAt,
+    };
+  }
+
+  private findOpenStaffInvitation(predicate: (entry: AccountantStaffInvitation) => boolean) {
+    const now = nowIso();
+    return this.data.accountantStaffInvitations.find((entry) => isOpenStaffInvitation(entry, now) && predicate(entry));
+  }
+
+  /** Invite an address to a firm; one open invitation per firm and address */
+  createAccountantStaffInvitation(payload: {
+    firmId: string;
+    email: string;
+    fullName: string | null;
+    role: string;
+    invitedByStaffId: string;
+    expiresAt: string;
+  }) {
+    const email = payload.email.trim().toLowerCase();
+    if (this.findOpenStaffInvitation((entry) => entry.firmId === payload.firmId && entry.email === email)) {
+      throw Object.assign(new Error("This address already has an open invitation"), { statusCode: 409 });
+    }
+    const invitation: AccountantStaffInvitation = {
+      id: randomUUID(),
+      firmId: payload.firmId,
+      email,
+      fullName: payload.fullName?.trim() || null,
+      role: payload.role.toUpperCase() as AccountantStaffRole,
+      invitedByStaffId: payload.invitedByStaffId,
+      expiresAt: payload.expiresAt,
+      acceptedAt: null,
+      declinedAt: null,
+      revokedAt: null,
+      createdAt: nowIso(),
+    };
+    this.data.accountantStaffInvitations.push(invitation);
+    this.save();
+    return this.serializeStaffInvitation(invitation);
+  }
+
+  /** Open invitations sent by a firm, or addressed to one email; newest first */
+  listAccountantStaffInvitations(filter: { firmId?: string; email?: string }) {
+    const now = nowIso();
+    return this.data.accountantStaffInvitations
+      .filter((entry) => isOpenStaffInvitation(entry, now)
+        && (filter.firmId ? entry.firmId === filter.firmId : entry.email === filter.email?.toLowerCase()))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map((entry) => this.serializeStaffInvitation(entry));
+  }
+
+  revokeAccountantStaffInvitation(firmId: string, invitationId: string) {
+    const invitation = this.findOpenStaffInvitation((entry) => entry.firmId === firmId && entry.id === invitationId);
+    if (!invitation) throw Object.assign(new Error("Invitation not found"), { statusCode: 404 });
+    invitation.revokedAt = nowIso();
+    this.save();
+    return this.serializeStaffInvitation(invitation);
+  }
+
+  /**
+   * Accept an open invitation addressed to `email`, adding them to the firm
+   * with the invited role. Null if there is no such invitation.
+   */
+  acceptAccountantStaffInvitation(invitationId: string, email: string) {
+    const normalized = email.toLowerCase();
+    const invitation = this.findOpenStaffInvitation((entry) => entry.id === invitationId && entry.email === normalized);
+    if (!invitation) return null;
+    const staff = this.addAccountantStaff({
+      firmId: invitation.firmId,
+      email: invitation.email,
+      fullName: invitation.fullName,
+      role: invitation.role,
+    });
+    invitation.acceptedAt = nowIso();
+    this.save();
+    return staff;
+  }
+
+  /** Decline an open invitation addressed to `email`; null if there is no such invitation */
+  declineAccountantStaffInvitation(invitationId: string, email: string) {
+    const normalized = email.toLowerCase();
+    const invitation = this.findOpenStaffInvitation((entry) => entry.id === invitationId && entry.email === normalized);
+    if (!invitation) return null;
+    invitation.declinedAt = nowIso();
+    this.save();
+    return this.serializeStaffInvitation(invitation);
+  }
+
+  getAccountantClientAssignments(firmId: string) {
+    return this.data.accountantClientAssignments
+      .filter((entry) => entry.firmId === firmId)
+      .map(({ businessId, staffId, assignedAt }) => ({ businessId, staffId, assignedAt }));
+  }
+
+  assignAccountantClient(payload: { firmId: string; businessId: string; staffId: string; assignedByStaffId: string | null }) {
+    const assignedAt = nowIso();
+    const existing = this.data.accountantClientAssignments
+      .find((entry) => entry.firmId === payload.firmId && entry.businessId === payload.businessId);
+    if (existing) {
+      Object.assign(existing, { staffId: payload.staffId, assignedByStaffId: payload.assignedByStaffId, assignedAt });
+    } else {
+      this.data.accountantClientAssignments.push({ ...payload, assignedAt });
+    }
+    this.save();
+  }
+
+  // ─── Period closing ───
+
+  /** Every close of the business's months, newest first; reopened ones included */
+  listPeriodCloses(businessId: string) {
+    return this.data.periodCloses
+      .filter((entry) => entry.businessId === businessId)
+      .sort((a, b) => b.closedAt.localeCompare(a.closedAt))
+      .map((entry) => ({ ...entry }));
+  }
+
+  /** Late documents per closed month */
+  getLateDocumentCounts(businessId: string) {
+    const counts = new Map<string, number>();
+    for (const entry of this.data.documents) {
+      if (entry.businessId !== businessId || !isCountedDocument(entry)) continue;
+      if (!this.documentPeriodState(entry).late) continue;
+      const monthKey = toIsraelDate(entry.issuedAt).slice(0, 7);
+      counts.set(monthKey, (counts.get(monthKey) ?? 0) + 1);
+    }
+    return [...counts].map(([monthKey, count]) => ({ monthKey, count }));
+  }
+
+  closePeriod(payload: { businessId: string; monthKey: string; closedByEmail: string }) {
+    this.getBusinessOrThrow(payload.businessId);
+    if (this.activePeriodClose(payload.businessId, payload.monthKey)) {
+      throw Object.assign(new Error("This month is already closed"), { statusCode: 409 });
+    }
+    const close: PeriodClose = {
+      id: randomUUID(),
+      ...payload,
+      closedAt: nowIso(),
+      reopenedAt: null,
+      reopenedByEmail: null,
+      reopenReason: null,
+    };
+    this.data.periodCloses.push(close);
+    this.save();
+    return { ...close };
+  }
+
+  reopenPeriod(payload: { businessId: string; monthKey: string; reopenedByEmail: string; reason: string }) {
+    const close = this.activePeriodClose(payload.businessId, payload.monthKey);
+    if (!close) {
+      throw Object.assign(new Error("This month isn't closed"), { statusCode: 409 });
+    }
+    close.reopenedAt = nowIso();
+    close.reopenedByEmail = payload.reopenedByEmail;
+    close.reopenReason = payload.reason;
+    this.save();
+    return { ...close };
+  }
+
+  // ─── Document requests and comments ───
+
+  private getBusinessDocumentOrThrow(businessId: string, documentId: string): DocumentRecord {
+    const doc = this.data.documents.find((entry) => entry.businessId === businessId && entry.id === documentId);
+    if (!doc) throw new Error("Document not found");
+    return doc;
+  }
+
+  private serializeDocumentComment(comment: DocumentComment) {
+    const user = comment.authorUserId ? this.data.users.find((entry) => entry.id === comment.authorUserId) : null;
+    return {
+      id: comment.id,
+      businessId: comment.businessId,
+      documentId: comment.documentId,
+      requestId: comment.requestId,
+      author: comment.authorType.toLowerCase(),
+      authorName: comment.authorEmail ?? (user ? user.fullName || user.email : null),
+      body: comment.body,
+      createdAt: comment.createdAt,
+    };
+  }
+
+  private serializeDocumentRequest(request: DocumentRequest) {
+    const doc = this.data.documents.find((entry) => entry.id === request.documentId);
+    return {
+      id: request.id,
+      businessId: request.businessId,
+      documentId: request.documentId,
+      kind: request.kind.toLowerCase(),
+      message: request.message,
+      status: request.status.toLowerCase(),
+      requestedByEmail: request.requestedByEmail,
+      createdAt: request.createdAt,
+      resolvedAt: request.resolvedAt,
+      resolvedBy: request.resolvedBy?.toLowerCase() ?? null,
+      document: {
+        vendor: doc?.vendorName ?? "",
+        issuedAt: doc?.issuedAt ?? request.createdAt,
+        amountCents: doc?.amountCents ?? 0,
+        currency: doc?.currency ?? "ILS",
+      },
+    };
+  }
+
+  listDocumentComments(businessId: string, documentId: string) {
+    this.getBusinessDocumentOrThrow(businessId, documentId);
+    return this.data.documentComments
+      .filter((entry) => entry.businessId === businessId && entry.documentId === documentId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map((entry) => this.serializeDocumentComment(entry));
+  }
+
+  addDocumentComment(payload: {
+    businessId: string;
+    documentId: string;
+    requestId?: string | null;
+    author: "accountant" | "owner";
+    authorEmail?: string | null;
+    authorUserId?: string | null;
+    body: string;
+  }) {
+    this.getBusinessDocumentOrThrow(payload.businessId, payload.documentId);
+    const comment: DocumentComment = {
+      id: randomUUID(),
+      businessId: payload.businessId,
+      documentId: payload.documentId,
+      requestId: payload.requestId ?? null,
+      authorType: payload.author.toUpperCase() as DocumentCommentAuthor,
+      authorEmail: payload.authorEmail ?? null,
+      authorUserId: payload.authorUserId ?? null,
+      body: payload.body,
+      createdAt: nowIso(),
+    };
+    this.data.documentComments.push(comment);
+    this.save();
+    return this.serializeDocumentComment(comment);
+  }
+
+  /** A business's requests, newest first, optionally for one document or status */
+  listDocumentRequests(businessId: string, filter: { documentId?: string; status?: "open" | "resolved" | "cancelled" } = {}) {
+    return this.data.documentRequests
+      .filter((entry) => entry.businessId === businessId)
+      .filter((entry) => !filter.documentId || entry.documentId === filter.documentId)
+      .filter((entry) => !filter.status || entry.status === filter.status.toUpperCase())
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map((entry) => this.serializeDocumentRequest(entry));
+  }
+
+  getDocumentRequest(businessId: string, requestId: string) {
+    const request = this.data.documentRequests.find((entry) => entry.businessId === businessId && entry.id === requestId);
+    return request ? this.serializeDocumentRequest(request) : null;
+  }
+
+  /** One open request per kind and document */
+  createDocumentRequest(payload: {
+    businessId: string;
+    documentId: string;
+    kind: "original" | "tax_invoice" | "explain";
+    message: string | null;
+    requestedByEmail: string;
+  }) {
+    this.getBusinessDocumentOrThrow(payload.businessId, payload.documentId);
+    const kind = payload.kind.toUpperCase() as DocumentRequestKind;
+    const open = this.data.documentRequests.some(
+      (entry) => entry.documentId === payload.documentId && entry.kind === kind && entry.status === "OPEN",
+    );
+    if (open) {
+      throw Object.assign(new Error("This request is already open for the document"), { statusCode: 409 });
+    }
+    const request: DocumentRequest = {
+      id: randomUUID(),
+      businessId: payload.businessId,
+      documentId: payload.documentId,
+      kind,
+      message: payload.message,
+      status: "OPEN",
+      requestedByEmail: payload.requestedByEmail,
+      createdAt: nowIso(),
+      resolvedAt: null,
+      resolvedBy: null,
+    };
+    this.data.documentRequests.push(request);
+    this.save();
+    return this.serializeDocumentRequest(request);
+  }
+
+  /** Resolve or cancel an open request */
+  closeDocumentRequest(payload: {
+    businessId: string;
+    requestId: string;
+    status: "resolved" | "cancelled";
+    by: "accountant" | "owner";
+  }) {
+    const request = this.data.documentRequests.find(
+      (entry) => entry.businessId === payload.businessId && entry.id === payload.requestId,
+    );
+    if (!request) {
+      throw Object.assign(new Error("Request not found"), { statusCode: 404 });
+    }
+    if (request.status !== "OPEN") {
+      throw Object.assign(new Error("This request was already closed"), { statusCode: 409 });
+    }
+    request.status = payload.status.toUpperCase() as DocumentRequestStatus;
+    request.resolvedAt = nowIso();
+    request.resolvedBy = payload.by.toUpperCase() as DocumentCommentAuthor;
+    this.save();
+    return this.serializeDocumentRequest(request);
+  }
+
+  // ─── Client invitations ───
+
+  createClientInvitation(payload: {
+    firmId: string | null;
+    accountantEmail: string;
+    accountantName: string | null;
+    firmName: string | null;
+    autoMonthlyDelivery: boolean;
+    monthlyDeliveryDay: number;
+    clientEmail: string;
+    clientName: string | null;
+    expiresAt: string;
+  }) {
+    const timestamp = nowIso();
+    const invitation: ClientInvitation = {
+      id: randomUUID(),
+      ...payload,
+      clientEmail: payload.clientEmail.trim().toLowerCase(),
+      sendCount: 1,
+      lastSentAt: timestamp,
+      revokedAt: null,
+      acceptedAt: null,
+      acceptedBusinessId: null,
+      createdAt: timestamp,
+    };
+    this.data.clientInvitations.push(invitation);
+    this.save();
+    return { ...invitation };
+  }
+
+  getClientInvitation(invitationId: string) {
+    const invitation = this.data.clientInvitations.find((entry) => entry.id === invitationId);
+    return invitation ? { ...invitation } : null;
+  }
+
+  /** A firm's invitations, or one accountant's; newest first */
+  listClientInvitations(filter: { firmId?: string; accountantEmail?: string }) {
+    return this.data.clientInvitations
+      .filter((entry) => (filter.firmId ? entry.firmId === filter.firmId : entry.accountantEmail === filter.accountantEmail))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map((entry) => ({ ...entry }));
+  }
+
+  /** Count another send and push out the expiry */
+  renewClientInvitation(invitationId: string, expiresAt: string) {
+    const invitation = this.data.clientInvitations.find((entry) => entry.id === invitationId);
+    if (!invitation) throw Object.assign(new Error("Invitation not found"), { statusCode: 404 });
+    invitation.sendCount += 1;
+    invitation.lastSentAt = nowIso();
+    invitation.expiresAt = expiresAt;
+    this.save();
+    return { ...invitation };
+  }
+
+  revokeClientInvitation(invitationId: string) {
+    const invitation = this.data.clientInvitations.find((entry) => entry.id === invitationId);
+    if (!invitation) throw Object.assign(new Error("Invitation not found"), { statusCode: 404 });
+    invitation.revokedAt ??= nowIso();
+    this.save();
+    return { ...invitation };
+  }
+
+  /** Mark an invitation accepted; false if it was already used, revoked or has expired */
+  acceptClientInvitation(invitationId: string, businessId: string) {
+    const invitation = this.data.clientInvitations.find((entry) => entry.id === invitationId);
+    if (!invitation || invitation.acceptedAt || invitation.revokedAt || invitation.expiresAt < nowIso()) {
+      return false;
+    }
+    invitation.acceptedAt = nowIso();
+    invitation.acceptedBusinessId = businessId;
+    this.save();
+    return true;
+  }
+
+  createAccountantSession(payload: { email: string; expiresAt: string; userAgent: string | null; ipAddress: string | null }) {
+    const session: AccountantSession = {
+      id: randomUUID(),
+      email: payload.email,
+      userAgent: payload.userAgent,
+      ipAddress: payload.ipAddress,
+      expiresAt: payload.expiresAt,
+      lastUsedAt: null,
+      revokedAt: null,
+      createdAt: nowIso(),
+    };
+    this.data.accountantSessions.push(session);
+    this.save();
+    return session;
+  }
+
+  getAccountantSession(sessionId: string) {
+    return this.data.accountantSessions.find((entry) => entry.id === sessionId) ?? null;
+  }
+
+  touchAccountantSession(sessionId: string) {
+    const session = this.getAccountantSession(sessionId);
+    if (session) {
+      session.lastUsedAt = nowIso();
+      this.save();
+    }
+  }
+
+  /** Sessions still signed in, most recently used first */
+  listAccountantSessions(email: string) {
+    const now = nowIso();
+    return this.data.accountantSessions
+      .filter((entry) => entry.email === email && !entry.revokedAt && entry.expiresAt > now)
+      .sort((a, b) => (b.lastUsedAt ?? b.createdAt).localeCompare(a.lastUsedAt ?? a.createdAt))
+      .map(({ id, userAgent, ipAddress, createdAt, lastUsedAt, expiresAt }) => ({
+        id, userAgent, ipAddress, createdAt, lastUsedAt, expiresAt,
+      }));
+  }
+
+  /** Revoke one of the accountant's own sessions; false if there's no such live session */
+  revokeAccountantSession(email: string, sessionId: string): boolean {
+    const session = this.data.accountantSessions.find((entry) => entry.id === sessionId && entry.email === email);
+    if (!session || session.revokedAt) return false;
+    session.revokedAt = nowIso();
+    this.save();
+    return true;
+  }
+
+  revokeAccountantSessions(email: string): number {
+    const revokedAt = nowIso();
+    const sessions = this.data.accountantSessions.filter((entry) => entry.email === email && !entry.revokedAt);
+    for (const session of sessions) session.revokedAt = revokedAt;
+    if (sessions.length > 0) this.save();
+    return sessions.length;
+  }
+
+  /** Record a magic link nonce; false if it was already used. */
+  consumeAccountantMagicLink(payload: { nonce: string; email: string; expiresAt: string }): boolean {
+    const now = nowIso();
+    this.data.accountantMagicLinkUses = this.data.accountantMagicLinkUses.filter((entry) => entry.expiresAt > now);
+    if (this.data.accountantMagicLinkUses.some((entry) => entry.nonce === payload.nonce)) return false;
+    this.data.accountantMagicLinkUses.push({ ...payload, usedAt: now });
+    this.save();
+    return true;
+  }
+
+  // ─── Vendor VAT treatments ───
+
+  getVendorVatTreatment(businessId: string, vendorName: string): VatTreatment | null {
+    const normalized = vendorName.trim().toLowerCase();
+    return this.data.vendorVatTreatments.find(
+      (entry) => entry.businessId === businessId && entry.vendorNameNormalized === normalized,
+    )?.treatment ?? null;
+  }
+
+  getVendorVatTreatments(businessId: string) {
+    return this.data.vendorVatTreatments
+      .filter((entry) => entry.businessId === businessId)
+      .map((entry) => ({ vendorName: entry.vendorNameOriginal, treatment: entry.treatment }));
+  }
+
+  setVendorVatTreatment(businessId: string, vendorName: string, treatment: VatTreatment | null) {
+    this.getBusinessOrThrow(businessId);
+    const normalized = vendorName.trim().toLowerCase();
+    const existing = this.data.vendorVatTreatments.find(
+      (entry) => entry.businessId === businessId && entry.vendorNameNormalized === normalized,
+    );
+    if (!treatment) {
+      this.data.vendorVatTreatments = this.data.vendorVatTreatments.filter((entry) => entry !== existing);
+    } else if (existing) {
+      existing.treatment = treatment;
+      existing.updatedAt = nowIso();
+    } else {
+      const timestamp = nowIso();
+      this.data.vendorVatTreatments.push({
+        id: randomUUID(),
+        businessId,
+        vendorNameNormalized: normalized,
+        vendorNameOriginal: vendorName.trim(),
+        treatment,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      });
+    }
+    this.save();
+    return this.getVendorVatTreatments(businessId);
+  }
+
+  /**
+   * Documents whose VAT we derived rather than read off the invoice. Legacy
+   * rows predate the flag, so they match on the old flat 17%-of-total estimate.
+   * Documents in a closed month are left as the accountant closed them.
+   */
+  getVatBackfillCandidates(filter: { businessId?: string; vendorName?: string; afterId?: string; limit: number }) {
+    const vendor = filter.vendorName?.trim().toLowerCase();
+    return this.data.documents
+      .filter((entry) => (!filter.businessId || entry.businessId === filter.businessId)
+        && (!vendor || entry.vendorName.trim().toLowerCase() === vendor)
+        && entry.amountCents > 0
+        && (entry.vatEstimated === true
+          || (entry.vatEstimated === undefined
+            && (entry.vatCents === null || entry.vatCents === Math.floor(entry.amountCents * 0.17))))
+        && !this.documentPeriodState(entry).locked)
+      .sort((a, b) => a.id.localeCompare(b.id))
+      .filter((entry) => !filter.afterId || entry.id > filter.afterId)
+      .slice(0, filter.limit)
+      .map((entry) => ({
+        id: entry.id,
+        businessId: entry.businessId,
+        vendorName: entry.vendorName,
+        amountCents: entry.amountCents,
+        vatCents: entry.vatCents,
+        currency: entry.currency,
+        issuedAt: entry.issuedAt,
+      }));
+  }
+
+  updateDocumentVat(documentId: string, vatCents: number | null) {
+    const doc = this.data.documents.find((entry) => entry.id === documentId);
+    if (!doc) throw new Error("Document not found");
+    if (this.documentPeriodState(doc).locked) return;
+    doc.vatCents = vatCents;
+    doc.vatEstimated = true;
+    doc.updatedAt = nowIso();
+    this.save();
+  }
+
+  // ─── Exchange rates ───
+
+  upsertExchangeRates(rates: Array<{ currency: string; rateDate: string; rate: number; source: string }>) {
+    for (const rate of rates) {
+      const existing = this.data.exchangeRates.find(
+        (entry) => entry.currency === rate.currency && entry.rateDate === rate.rateDate,
+      );
+      if (existing) {
+        existing.rate = rate.rate;
+        existing.source = rate.source;
+      } else {
+        this.data.exchangeRates.push({ ...rate });
+      }
+    }
+    this.save();
+    return rates.length;
+  }
+
+  /** Latest published rate on or before `date` (YYYY-MM-DD). */
+  getExchangeRate(currency: string, date: string) {
+    let latest: ExchangeRateRecord | null = null;
+    for (const entry of this.data.exchangeRates) {
+      if (entry.currency !== currency || entry.rateDate > date) continue;
+      if (!latest || entry.rateDate > latest.rateDate) latest = entry;
+    }
+    return latest ? { currency: latest.currency, rateDate: latest.rateDate, rate: latest.rate } : null;
+  }
+
+  /** Foreign-currency documents still waiting for a rate, outside closed months. */
+  getUnconvertedDocuments(filter: { afterId?: string; limit: number }) {
+    return this.data.documents
+      .filter((entry) => entry.currency !== "ILS" && entry.amountIlsCents == null
+        && !this.documentPeriodState(entry).locked)
+      .sort((a, b) => a.id.localeCompare(b.id))
+      .filter((entry) => !filter.afterId || entry.id > filter.afterId)
+      .slice(0, filter.limit)
+      .map((entry) => ({
+        id: entry.id,
+        amountCents: entry.amountCents,
+        currency: entry.currency,
+        issuedAt: entry.issuedAt,
+      }));
+  }
+
+  updateDocumentConversion(documentId: string, conversion: { amountIlsCents: number | null; exchangeRate: number | null }) {
+    const doc = this.data.documents.find((entry) => entry.id === documentId);
+    if (!doc) throw new Error("Document not found");
+    if (this.documentPeriodState(doc).locked) return;
+    doc.amountIlsCents = conversion.amountIlsCents;
+    doc.exchangeRate = conversion.exchangeRate;
+    doc.updatedAt = nowIso();
+    this.save();
+  }
+
+  // ─── Duplicates ───
+
+  getDuplicateFingerprint(documentId: string) {
+    const doc = this.data.documents.find((entry) => entry.id === documentId);
+    if (!doc) return null;
+    return {
+      ...duplicateFingerprint(doc),
+      hasDuplicates: this.data.documents.some((entry) => entry.duplicateOfId === doc.id),
+    };
+  }
+
+  /** Possible originals: the same file, or anything dated inside the window. */
+  getDuplicateCandidates(businessId: string, filter: { excludeId: string; contentHash: string | null; from: string; to: string }) {
+    return this.data.documents
+      .filter((entry) => entry.businessId === businessId && entry.id !== filter.excludeId && !entry.duplicateOfId)
+      .filter((entry) => (filter.contentHash && entry.contentHash === filter.contentHash)
+        || (entry.issuedAt >= filter.from && entry.issuedAt <= filter.to))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map(duplicateFingerprint);
+  }
+
+  markDuplicate(documentId: string, link: { duplicateOfId: string; status: DuplicateStatus; reason: string } | null) {
+    const doc = this.data.documents.find((entry) => entry.id === documentId);
+    if (!doc) throw new Error("Document not found");
+    doc.duplicateOfId = link?.duplicateOfId ?? null;
+    doc.duplicateStatus = link?.status ?? null;
+    doc.duplicateReason = link?.reason ?? null;
+    doc.updatedAt = nowIso();
+    this.save();
+  }
+
+  /** Originals with their linked copies, for review. */
+  getDuplicateGroups(businessId: string, status: "SUSPECTED" | "CONFIRMED") {
+    this.getBusinessOrThrow(businessId);
+    const duplicates = this.data.documents
+      .filter((entry) => entry.businessId === businessId && entry.duplicateOfId && entry.duplicateStatus === status)
+      .sort((a, b) => b.issuedAt.localeCompare(a.issuedAt));
+
+    const provider = (entry: DocumentRecord) =>
+      this.data.inboxConnections.find((item) => item.id === entry.inboxConnectionId)?.provider ?? "WHATSAPP";
+    const groups = new Map<string, {
+      original: ReturnType<typeof duplicateGroupDocument>;
+      duplicates: ReturnType<typeof duplicateGroupDocument>[];
+    }>();
+    for (const entry of duplicates) {
+      const original = this.data.documents.find((item) => item.id === entry.duplicateOfId);
+      if (!original) continue;
+      if (!groups.has(original.id)) {
+        groups.set(original.id, { original: duplicateGroupDocument(original, provider(original)), duplicates: [] });
+      }
+      groups.get(original.id)!.duplicates.push(duplicateGroupDocument(entry, provider(entry)));
+    }
+    return { businessId, groups: [...groups.values()] };
+  }
+
+  /** Confirm a linked copy (drops it from totals) or dismiss the link for good. */
+  resolveDuplicate(businessId: string, documentId: string, action: "confirm" | "dismiss") {
+    const doc = this.data.documents.find((entry) => entry.businessId === businessId && entry.id === documentId);
+    if (!doc) throw new Error("Document not found");
+    this.assertDocumentUnlocked(doc);
+    if (!doc.duplicateOfId) {
+      throw Object.assign(new Error("Document is not linked as a duplicate"), { statusCode: 400 });
+    }
+    if (action === "confirm") {
+      doc.duplicateStatus = "CONFIRMED";
+    } else {
+      doc.duplicateOfId = null;
+      doc.duplicateStatus = "DISMISSED";
+      doc.duplicateReason = null;
+    }
+    doc.updatedAt = nowIso();
+    this.save();
+    return { id: doc.id, duplicateStatus: doc.duplicateStatus.toLowerCase() };
+  }
+
+  // ─── WhatsApp senders ───
+
+  private serializeWhatsAppSender(member: BusinessMember) {
+    const user = this.data.users.find((entry) => entry.id === member.userId);
+    return {
+      memberId: member.id,
+      userId: member.userId,
+      email: user?.email ?? null,
+      fullName: user?.fullName ?? null,
+      role: member.role.toLowerCase(),
+      phoneE164: member.whatsappPhoneE164 ?? null,
+    };
+  }
+
+  getWhatsAppSenders(businessId: string) {
+    this.getBusinessOrThrow(businessId);
+    return this.data.members
+      .filter((entry) => entry.businessId === businessId)
+      .sort((a, b) => (a.role === b.role ? a.createdAt.localeCompare(b.createdAt) : a.role === "OWNER" ? -1 : 1))
+      .map((member) => this.serializeWhatsAppSender(member));
+  }
+
+  /**
+   * Allow a number to send documents, as an existing member or a sender-only
+   * entry added by email. Allowlisting never grants access to the dashboard.
+   */
+  setWhatsAppSender(businessId: string, payload: { email: string; fullName?: string | null; phoneE164: string }) {
+    this.getBusinessOrThrow(businessId);
+    const timestamp = nowIso();
+    const phone = normalizePhone(payload.phoneE164);
+    const email = normalizeEmail(payload.email);
+
+    let user = this.data.users.find((entry) => entry.email === email);
+    if (!user) {
+      user = {
+        id: randomUUID(),
+        email,
+        fullName: payload.fullName?.trim() || null,
+        phone,
+        preferredLanguage: "he",
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+      this.data.users.push(user);
+    }
+    const userId = user.id;
+
+    const taken = this.data.members.find((entry) => entry.businessId === businessId
+      && entry.userId !== userId
+      && normalizePhone(entry.whatsappPhoneE164 ?? "") === phone);
+    if (taken) {
+      throw Object.assign(new Error("This phone number is already assigned to another member"), { statusCode: 409 });
+    }
+
+    let member = this.data.members.find((entry) => entry.businessId === businessId && entry.userId === userId);
+    if (!member) {
+      member = { id: randomUUID(), businessId, userId, role: "SENDER", createdAt: timestamp };
+      this.data.members.push(member);
+    }
+    member.whatsappPhoneE164 = phone;
+    this.save();
+    return this.serializeWhatsAppSender(member);
+  }
+
+  removeWhatsAppSender(businessId: string, memberId: string) {
+    const member = this.data.members.find((entry) => entry.businessId === businessId && entry.id === memberId);
+    if (!member) {
+      throw new Error("Member not found");
+    }
+    member.whatsappPhoneE164 = null;
+    // A sender-only entry has nothing left once its number is gone
+    if (member.role === "SENDER") {
+      this.data.members = this.data.members.filter((entry) => entry.id !== member.id);
+    }
+    this.save();
+    return this.serializeWhatsAppSender(member);
+  }
+
+  /**
+   * The member a WhatsApp number belongs to, or null if it isn't allowlisted.
+   * The number WhatsApp was connected with counts as the owner's.
+   */
+  findWhatsAppSender(businessId: string, fromPhone: string) {
+    const phone = normalizePhone(fromPhone);
+    if (!phone) return null;
+    const member = this.data.members.find((entry) => entry.businessId === businessId
+      && normalizePhone(entry.whatsappPhoneE164 ?? "") === phone);
+    if (member) return this.serializeWhatsAppSender(member);
+
+    const integration = this.getWhatsAppIntegration(businessId);
+    if (integration?.customerPhoneE164 && normalizePhone(integration.customerPhoneE164) === phone) {
+      const owner = this.data.members.find((entry) => entry.businessId === businessId && entry.role === "OWNER");
+      return owner ? this.serializeWhatsAppSender(owner) : null;
+    }
+    return null;
+  }
+
+  /** When this number last messaged the business — the start of its 24h reply window. */
+  getWhatsAppLastInboundAt(businessId: string, phoneOrJid: string): string | null {
+    const phone = normalizePhone(phoneOrJid.replace(/@.*$/, ""));
+    const integration = this.getWhatsAppIntegration(businessId);
+    const member = this.data.members.find((entry) => entry.businessId === businessId
+      && normalizePhone(entry.whatsappPhoneE164 ?? "") === phone);
+    const times = [
+      integration && normalizePhone(integration.customerPhoneE164 ?? "") === phone ? integration.lastInboundAt : null,
+      member?.whatsappLastInboundAt ?? null,
+    ].filter((value): value is string => Boolean(value));
+    return times.sort().pop() ?? null;
+  }
+
+  // ─── Outbox ───
+
+  private serializeOutboxMessage(entry: OutboxMessageRecord) {
+    return {
+      id: entry.id,
+      businessId: entry.businessId,
+      channel: entry.channel.toLowerCase(),
+      kind: entry.kind,
+      recipient: entry.recipient,
+      status: entry.status.toLowerCase(),
+      attempts: entry.attempts,
+      maxAttempts: entry.maxAttempts,
+      nextAttemptAt: entry.status === "SENT" || entry.status === "FAILED" ? null : entry.nextAttemptAt,
+      lastError: entry.lastError,
+      providerMessageId: entry.providerMessageId,
+      sentAt: entry.sentAt,
+      createdAt: entry.createdAt,
+      updatedAt: entry.updatedAt,
+    };
+  }
+
+  private claimOutboxEntry(entry: OutboxMessageRecord) {
+    entry.status = "SENDING";
+    entry.attempts += 1;
+    entry.lockedAt = nowIso();
+    entry.updatedAt = nowIso();
+    return { ...this.serializeOutboxMessage(entry), payload: entry.payload };
+  }
+
+  private getOutboxEntryOrThrow(messageId: string): OutboxMessageRecord {
+    const entry = this.data.outboxMessages.find((e) => e.id === messageId);
+    if (!entry) throw new Error("Outbox message not found");
+    return entry;
+  }
+
+  createOutboxMessage(payload: {
+    businessId: string | null; channel: string; kind: string; recipient: string;
+    idempotencyKey: string; payload: Record<string, unknown>; maxAttempts: number;
+  }) {
+    const existing = this.data.outboxMessages.find((e) => e.idempotencyKey === payload.idempotencyKey);
+    if (existing) return { message: this.serializeOutboxMessage(existing), created: false };
+
+    const timestamp = nowIso();
+    const entry: OutboxMessageRecord = {
+      id: randomUUID(),
+      businessId: payload.businessId,
+      channel: payload.channel.toUpperCase() as OutboxMessageRecord["channel"],
+      kind: payload.kind,
+      recipient: payload.recipient,
+      idempotencyKey: payload.idempotencyKey,
+      payload: payload.payload,
+      status: "PENDING",
+      attempts: 0,
+      maxAttempts: payload.maxAttempts,
+      nextAttemptAt: timestamp,
+      lockedAt: null,
+      lastError: null,
+      providerMessageId: null,
+      sentAt: null,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+    this.data.outboxMessages.push(entry);
+    this.save();
+    return { message: this.serializeOutboxMessage(entry), created: true };
+  }
+
+  /** Claim one message for sending now, unless another worker has it or it's done. */
+  claimOutboxMessage(messageId: string) {
+    const entry = this.data.outboxMessages.find((e) => e.id === messageId);
+    if (!entry || (entry.status !== "PENDING" && entry.status !== "RETRYING")) return null;
+    const claimed = this.claimOutboxEntry(entry);
+    this.save();
+    return claimed;
+  }
+
+  /** Claim messages whose next attempt is due, plus any whose sender died mid-send. */
+  claimDueOutboxMessages(limit: number, lockTimeoutMs: number) {
+    const now = Date.now();
+    const due = this.data.outboxMessages
+      .filter((e) =>
+        ((e.status === "PENDING" || e.status === "RETRYING") && new Date(e.nextAttemptAt).getTime() <= now)
+        || (e.status === "SENDING" && e.lockedAt != null && now - new Date(e.lockedAt).getTime() > lockTimeoutMs))
+      .sort((a, b) => a.nextAttemptAt.localeCompare(b.nextAttemptAt))
+      .slice(0, limit);
+    const claimed = due.map((entry) => this.claimOutboxEntry(entry));
+    if (claimed.length > 0) this.save();
+    return claimed;
+  }
+
+  markOutboxSent(messageId: string, providerMessageId: string | null) {
+    const entry = this.getOutboxEntryOrThrow(messageId);
+    entry.status = "SENT";
+    entry.providerMessageId = providerMessageId;
+    entry.lastError = null;
+    entry.lockedAt = null;
+    entry.sentAt = nowIso();
+    entry.updatedAt = nowIso();
+    this.save();
+    return this.serializeOutboxMessage(entry);
+  }
+
+  /** Record a failed attempt; without a next attempt time the message has failed for good. */
+  markOutboxFailed(messageId: string, error: string, nextAttemptAt: string | null) {
+    const entry = this.getOutboxEntryOrThrow(messageId);
+    entry.status = nextAttemptAt ? "RETRYING" : "FAILED";
+    entry.lastError = error;
+    entry.lockedAt = null;
+    if (nextAttemptAt) entry.nextAttemptAt = nextAttemptAt;
+    entry.updatedAt = nowIso();
+    this.save();
+    return this.serializeOutboxMessage(entry);
+  }
+
+  /** Wipe a finished message's body; only its delivery record is kept. */
+  clearOutboxPayload(messageId: string) {
+    const entry = this.getOutboxEntryOrThrow(messageId);
+    entry.payload = {};
+    entry.updatedAt = nowIso();
+    this.save();
+  }
+
+  getOutboxMessages(businessId: string, filter: { status?: string; limit: number }) {
+    this.getBusinessOrThrow(businessId);
+    const messages = this.data.outboxMessages
+      .filter((e) => e.businessId === businessId && (!filter.status || e.status === filter.status.toUpperCase()))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, filter.limit)
+      .map((entry) => this.serializeOutboxMessage(entry));
+    return { businessId, messages };
+  }
+
+  getOutboxMessage(businessId: string, messageId: string) {
+    const entry = this.getOutboxEntryOrThrow(messageId);
+    if (entry.businessId !== businessId) throw new Error("Outbox message not found");
+    return this.serializeOutboxMessage(entry);
+  }
+
+  /** Give a failed message a fresh set of attempts. */
+  retryOutboxMessage(businessId: string, messageId: string) {
+    const entry = this.getOutboxEntryOrThrow(messageId);
+    if (entry.businessId !== businessId) throw new Error("Outbox message not found");
+    if (entry.status !== "FAILED") {
+      throw Object.assign(new Error("Only failed messages can be retried"), { statusCode: 409 });
+    }
+    entry.status = "PENDING";
+    entry.attempts = 0;
+    entry.nextAttemptAt = nowIso();
+    entry.updatedAt = nowIso();
+    this.save();
+    return this.serializeOutboxMessage(entry);
+  }
+
+  // ─── Jobs ───
+
+  private serializeJob(job: JobRecord) {
+    return {
+      id: job.id,
+      name: job.name,
+      payload: job.payload,
+      status: job.status.toLowerCase(),
+      runAt: job.runAt,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      lockedBy: job.lockedBy,
+      lastError: job.lastError,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+    };
+  }
+
+  private serializeJobRun(run: JobRunRecord) {
+    return { ...run, status: run.status.toLowerCase() };
+  }
+
+  /**
+   * Queue a job. A dedupe key that was already used returns the existing job;
+   * `supersedeQueued` skips older jobs of the same name still waiting to run.
+   */
+  enqueueJob(payload: {
+    name: string; payload: Record<string, unknown>; runAt: string;
+    dedupeKey: string | null; maxAttempts: number; supersedeQueued?: boolean;
+  }) {
+    const existing = payload.dedupeKey
+      ? this.data.jobs.find((j) => j.dedupeKey === payload.dedupeKey)
+      : undefined;
+    if (existing) return { job: this.serializeJob(existing), created: false };
+
+    const timestamp = nowIso();
+    const job: JobRecord = {
+      id: randomUUID(),
+      name: payload.name,
+      payload: payload.payload,
+      status: "QUEUED",
+      runAt: payload.runAt,
+      attempts: 0,
+      maxAttempts: payload.maxAttempts,
+      dedupeKey: payload.dedupeKey,
+      lockedBy: null,
+      lockedAt: null,
+      lastError: null,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+    if (payload.supersedeQueued) {
+      for (const queued of this.data.jobs) {
+        if (queued.name === job.name && queued.status === "QUEUED") {
+          queued.status = "SKIPPED";
+          queued.updatedAt = timestamp;
+        }
+      }
+    }
+    this.data.jobs.push(job);
+    this.save();
+    return { job: this.serializeJob(job), created: true };
+  }
+
+  /**
+   * Claim the next due job, optionally limited to some names. Jobs whose
+   * worker died are reclaimed after the lock timeout; a name that is already
+   * running elsewhere waits.
+   */
+  claimNextJob(workerId: string, names: string[] | null, lockTimeoutMs: number) {
+    const now = Date.now();
+    const isLive = (j: JobRecord) =>
+      j.status === "RUNNING" && j.lockedAt != null && now - new Date(j.lockedAt).getTime() <= lockTimeoutMs;
+    const job = this.data.jobs
+      .filter((j) =>
+        ((j.status === "QUEUED" && new Date(j.runAt).getTime() <= now) || (j.status === "RUNNING" && !isLive(j)))
+        && (!names || names.includes(j.name))
+        && !this.data.jobs.some((other) => other.id !== j.id && other.name === j.name && isLive(other)))
+      .sort((a, b) => a.runAt.localeCompare(b.runAt))[0];
+    if (!job) return null;
+
+    job.status = "RUNNING";
+    job.attempts += 1;
+    job.lockedBy = workerId;
+    job.lockedAt = nowIso();
+    job.updatedAt = nowIso();
+    this.save();
+    return this.serializeJob(job);
+  }
+
+  /**
+   * Record how a run went. A failure with a retry time is queued again,
+   * otherwise it's final.
+   */
+  finishJob(jobId: string, outcome: {
+    workerId: string; startedAt: string; result: Record<string, unknown> | null;
+    error: string | null; retryAt: string | null;
+  }) {
+    const job = this.data.jobs.find((j) => j.id === jobId);
+    if (!job) throw new Error("Job not found");
+
+    const finishedAt = nowIso();
+    job.status = outcome.error == null ? "SUCCEEDED" : outcome.retryAt ? "QUEUED" : "FAILED";
+    if (outcome.retryAt) job.runAt = outcome.retryAt;
+    job.lastError = outcome.error;
+    job.lockedBy = null;
+    job.lockedAt = null;
+    job.updatedAt = finishedAt;
+
+    this.data.jobRuns.push({
+      id: randomUUID(),
+      jobId,
+      name: job.name,
+      workerId: outcome.workerId,
+      status: outcome.error == null ? "SUCCEEDED" : "FAILED",
+      attempt: job.attempts,
+      startedAt: outcome.startedAt,
+      finishedAt,
+      durationMs: new Date(finishedAt).getTime() - new Date(outcome.startedAt).getTime(),
+      result: outcome.result,
+      error: outcome.error,
+    });
+    this.save();
+    return this.serializeJob(job);
+  }
+
+  getJobRuns(filter: { name?: string; limit: number }) {
+    const runs = this.data.jobRuns
+      .filter((r) => !filter.name || r.name === filter.name)
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+      .slice(0, filter.limit)
+      .map((run) => this.serializeJobRun(run));
+    return { runs };
+  }
+
+  // ─── missing receipt stubs (requires Postgres) ───
+
+  async getMissingReceiptAlerts(): Promise<any[]> { return []; }
+
   // ─── billing stubs (requires Postgres) ───
 
   async getBusinessBilling(): Promise<any> { return { stripeCustomerId: null, subscriptionStatus: "free", onboardingPaid: false }; }
@@ -1354,6 +3422,8 @@ export class AppStore {
   async getScanQueueCountByStatus(): Promise<any> { return {}; }
   async hasActiveScanForInbox(): Promise<boolean> { return false; }
   async getLatestCompletedScanJob(): Promise<any> { return null; }
+  async getScanJobsForBusiness(): Promise<never[]> { return []; }
+  async cancelScanJob(): Promise<boolean> { return false; }
 }
 
 import { AppStorePg } from "./store-pg";
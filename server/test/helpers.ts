@@ -0,0 +1,58 @@
+import { createServer } from "../app";
+import { createMagicLinkToken } from "../services/accountant-auth";
+import { createOwnerMagicLinkToken } from "../services/owner-auth";
+
+export type TestApp = Awaited<ReturnType<typeof createServer>>;
+
+/**
+ * Sign up a business owner through onboarding; returns their ids and session
+ * token. `accountantEmail` names the business's accountant afterwards.
+ */
+export async function signUpOwner(app: TestApp, email: string, options: { accountantEmail?: string } = {}) {
+  const response = await app.inject({
+    method: "POST",
+    url: "/api/onboarding/start",
+    payload: { email, fullName: "Test Owner", businessName: `Business of ${email}` },
+  });
+  if (response.statusCode !== 200) {
+    throw new Error(`Onboarding failed: ${response.statusCode} ${response.body}`);
+  }
+  const body = response.json();
+  const owner = { userId: body.user.id as string, businessId: body.business.id as string, token: body.sessionToken as string };
+
+  if (options.accountantEmail) {
+    await app.inject({
+      method: "PATCH",
+      url: `/api/settings/${owner.businessId}/accountant`,
+      headers: { authorization: `Bearer ${owner.token}` },
+      payload: { email: options.accountantEmail },
+    });
+  }
+  return owner;
+}
+
+/** Log in through a fresh owner magic link; returns the session token. */
+export async function logInOwner(app: TestApp, email: string): Promise<string> {
+  const response = await app.inject({
+    method: "POST",
+    url: "/api/auth/verify",
+    payload: { token: createOwnerMagicLinkToken(email) },
+  });
+  if (response.statusCode !== 200) {
+    throw new Error(`Login failed: ${response.statusCode} ${response.body}`);
+  }
+  return response.json().token as string;
+}
+
+/** Log an accountant in through a fresh magic link; returns the session token. */
+export async function logInAccountant(app: TestApp, email: string): Promise<string> {
+  const response = await app.inject({
+    method: "POST",
+    url: "/api/accountant/auth/verify",
+    payload: { token: createMagicLinkToken(email) },
+  });
+  if (response.statusCode !== 200) {
+    throw new Error(`Accountant login failed: ${response.statusCode} ${response.body}`);
+  }
+  return response.json().token as string;
+}
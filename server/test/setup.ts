@@ -0,0 +1,12 @@
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+
+// Each test file gets its own working directory, so the JSON store and local
+// blobs start empty and never touch server/data. No Postgres, mail or AI.
+process.chdir(mkdtempSync(path.join(tmpdir(), "sendtoamram-test-")));
+process.env.NODE_ENV = "test";
+process.env.JOB_WORKER = "off";
+delete process.env.DATABASE_URL;
+delete process.env.RESEND_API_KEY;
+delete process.env.ANTHROPIC_API_KEY;
@@ -7,6 +7,8 @@ import LandingPage from "./pages/LandingPage";
 import OnboardingPage from "./pages/OnboardingPage";
 import DashboardPage from "./pages/DashboardPage";
 import SettingsPage from "./pages/SettingsPage";
+import LoginPage from "./pages/LoginPage";
+import LoginVerifyPage from "./pages/LoginVerifyPage";
 import AccountantLoginPage from "./pages/accountant/AccountantLoginPage";
 import AccountantVerifyPage from "./pages/accountant/AccountantVerifyPage";
 import AccountantDashboardPage from "./pages/accountant/AccountantDashboardPage";
@@ -23,6 +25,8 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<LandingPage />} />
+          <Route path="/login" element={<LoginPage />} />
+          <Route path="/login/verify" element={<LoginVerifyPage />} />
           <Route path="/onboarding" element={<OnboardingPage />} />
           <Route path="/dashboard" element={<DashboardPage />} />
           <Route path="/settings" element={<SettingsPage />} />
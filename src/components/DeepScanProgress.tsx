@@ -1,22 +1,35 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { Search, Pause, Play, CheckCircle2, Loader2, AlertCircle } from "lucide-react";
+import { Search, Pause, Play, CheckCircle2, Loader2, AlertCircle, X, Ban } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Progress } from "@/components/ui/progress";
 import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DeepScanOptions,
   DeepScanStatus,
   getDeepScanStatus,
   startDeepScan,
   pauseDeepScan,
   resumeDeepScan,
+  cancelDeepScan,
 } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
 
 interface DeepScanProgressProps {
   businessId: string;
+  /** Status updates arrive over the event stream, so there's no need to poll */
+  live?: boolean;
 }
 
-export function useDeepScan(businessId: string) {
+export function useDeepScan(businessId: string, live = false) {
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
@@ -25,24 +38,33 @@ export function useDeepScan(businessId: string) {
     queryFn: () => getDeepScanStatus(businessId),
     refetchInterval: (query) => {
       const data = query.state.data;
-      if (data?.active) return 3000;
+      if (data?.active && !live) return 3000;
       return false;
     },
   });
 
   // Invalidate document queries when new documents are created during scanning
+  // (live dashboards get each new document as an event instead)
   useEffect(() => {
-    if (statusQuery.data?.active && statusQuery.data.processing?.created) {
+    if (!live && statusQuery.data?.active && statusQuery.data.processing?.created) {
       queryClient.invalidateQueries({ queryKey: ["dashboard", "documents"] });
       queryClient.invalidateQueries({ queryKey: ["dashboard", "summary"] });
     }
-  }, [statusQuery.data?.processing?.created, statusQuery.data?.active, queryClient]);
+  }, [live, statusQuery.data?.processing?.created, statusQuery.data?.active, queryClient]);
 
   const startMutation = useMutation({
-    mutationFn: () => startDeepScan(businessId),
-    onSuccess: () => {
+    mutationFn: (options: DeepScanOptions = {}) => startDeepScan(businessId, options),
+    onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ["deep-scan", "status", businessId] });
-      toast({ title: "סריקה עמוקה התחילה", description: "מחפש חשבוניות ב-10 שנים האחרונות..." });
+      const started = result.scans.filter((scan) => scan.started).length;
+      if (started === 0) {
+        toast({ title: "סריקה כבר פעילה", description: "אפשר להשהות או לבטל אותה לפני סריקה חדשה." });
+        return;
+      }
+      toast({
+        title: "סריקה עמוקה התחילה",
+        description: started === 1 ? "מחפש חשבוניות בתיבת המייל..." : `מחפש חשבוניות ב-${started} תיבות מייל...`,
+      });
     },
     onError: (error) => {
       toast({
@@ -54,7 +76,7 @@ export function useDeepScan(businessId: string) {
   });
 
   const pauseMutation = useMutation({
-    mutationFn: () => pauseDeepScan(businessId),
+    mutationFn: (scanJobId?: string) => pauseDeepScan(businessId, scanJobId),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["deep-scan", "status", businessId] });
       toast({ title: "הסריקה הושהתה" });
@@ -62,33 +84,161 @@ export function useDeepScan(businessId: string) {
   });
 
   const resumeMutation = useMutation({
-    mutationFn: () => resumeDeepScan(businessId),
+    mutationFn: (scanJobId?: string) => resumeDeepScan(businessId, scanJobId),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["deep-scan", "status", businessId] });
       toast({ title: "הסריקה חודשה" });
     },
   });
 
-  return { statusQuery, startMutation, pauseMutation, resumeMutation };
+  const cancelMutation = useMutation({
+    mutationFn: (scanJobId?: string) => cancelDeepScan(businessId, scanJobId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["deep-scan", "status", businessId] });
+      toast({ title: "הסריקה בוטלה", description: "מסמכים שכבר נמצאו נשמרו." });
+    },
+  });
+
+  return { statusQuery, startMutation, pauseMutation, resumeMutation, cancelMutation };
+}
+
+function splitList(value: string): string[] {
+  return value.split(/[\s,]+/).map((item) => item.trim()).filter(Boolean);
+}
+
+// Start dialog — pick the inbox, date range and extra search filters
+function DeepScanStartDialog({
+  open,
+  onOpenChange,
+  inboxes,
+  isPending,
+  onStart,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  inboxes: Array<{ id: string; email: string }>;
+  isPending: boolean;
+  onStart: (options: DeepScanOptions) => void;
+}) {
+  const [inboxId, setInboxId] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [extraTerms, setExtraTerms] = useState("");
+  const [excludedSenders, setExcludedSenders] = useState("");
+
+  const invalidRange = Boolean(from && to && from > to);
+
+  const handleStart = () => {
+    const excluded = splitList(excludedSenders);
+    onStart({
+      inboxId: inboxId || undefined,
+      from: from || undefined,
+      to: to || undefined,
+      extraTerms: extraTerms.trim() || undefined,
+      excludedSenders: excluded.length > 0 ? excluded : undefined,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>סריקה עמוקה</DialogTitle>
+          <DialogDescription>
+            חיפוש חשבוניות וקבלות בהיסטוריית המייל. בלי תאריכים נסרקות 3 השנים האחרונות.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div>
+            <label className="text-sm font-medium">תיבת מייל</label>
+            <select
+              className="flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm"
+              value={inboxId}
+              onChange={(e) => setInboxId(e.target.value)}
+            >
+              <option value="">כל התיבות</option>
+              {inboxes.map((inbox) => (
+                <option key={inbox.id} value={inbox.id}>{inbox.email}</option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-sm font-medium">מתאריך</label>
+              <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div>
+              <label className="text-sm font-medium">עד תאריך</label>
+              <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+          {invalidRange && <p className="text-xs text-destructive">תאריך ההתחלה מאוחר מתאריך הסיום.</p>}
+          <div>
+            <label className="text-sm font-medium">מילות חיפוש נוספות</label>
+            <Input
+              dir="ltr"
+              placeholder='from:billing@vendor.com OR "הזמנה"'
+              value={extraTerms}
+              onChange={(e) => setExtraTerms(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground mt-1">בתחביר החיפוש של Gmail, בנוסף למילות החשבונית הרגילות.</p>
+          </div>
+          <div>
+            <label className="text-sm font-medium">שולחים להחרגה</label>
+            <textarea
+              dir="ltr"
+              className="flex min-h-[60px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              placeholder={"newsletter@shop.com\nmarketing.example.com"}
+              value={excludedSenders}
+              onChange={(e) => setExcludedSenders(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground mt-1">כתובת או דומיין בכל שורה.</p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>ביטול</Button>
+          <Button onClick={handleStart} disabled={isPending || invalidRange}>
+            <Search className="w-4 h-4" /> {isPending ? "מתחיל..." : "התחל סריקה"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
 }
 
 // Compact inline button — always renders as a button-sized element
-export default function DeepScanProgress({ businessId }: DeepScanProgressProps) {
-  const { statusQuery, startMutation, pauseMutation, resumeMutation } = useDeepScan(businessId);
+export default function DeepScanProgress({ businessId, live }: DeepScanProgressProps) {
+  const { statusQuery, startMutation, pauseMutation, resumeMutation, cancelMutation } = useDeepScan(businessId, live);
+  const [dialogOpen, setDialogOpen] = useState(false);
   const data = statusQuery.data;
 
+  const startDialog = (
+    <DeepScanStartDialog
+      open={dialogOpen}
+      onOpenChange={setDialogOpen}
+      inboxes={data?.inboxes ?? []}
+      isPending={startMutation.isPending}
+      onStart={(options) => startMutation.mutate(options, { onSuccess: () => setDialogOpen(false) })}
+    />
+  );
+
   // No scan ever started — show start button
   if (!data || !data.scanJobId) {
     return (
-      <Button
-        variant="outline"
-        size="sm"
-        onClick={() => startMutation.mutate()}
-        disabled={startMutation.isPending}
-      >
-        <Search className={`w-4 h-4 ${startMutation.isPending ? "animate-pulse" : ""}`} />
-        {startMutation.isPending ? "מתחיל..." : "סריקה עמוקה"}
-      </Button>
+      <>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setDialogOpen(true)}
+          disabled={startMutation.isPending}
+        >
+          <Search className={`w-4 h-4 ${startMutation.isPending ? "animate-pulse" : ""}`} />
+          {startMutation.isPending ? "מתחיל..." : "סריקה עמוקה"}
+        </Button>
+        {startDialog}
+      </>
     );
   }
 
@@ -100,9 +250,26 @@ export default function DeepScanProgress({ businessId }: DeepScanProgressProps)
           <CheckCircle2 className="w-3.5 h-3.5" />
           <span>סריקה הושלמה, {data.processing?.created ?? 0} מסמכים</span>
         </div>
-        <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => startMutation.mutate()} disabled={startMutation.isPending}>
+        <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setDialogOpen(true)} disabled={startMutation.isPending}>
           סרוק שוב
         </Button>
+        {startDialog}
+      </div>
+    );
+  }
+
+  // Cancelled scan
+  if (data.status === "CANCELLED") {
+    return (
+      <div className="flex items-center gap-2">
+        <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          <Ban className="w-3.5 h-3.5" />
+          <span>הסריקה בוטלה</span>
+        </div>
+        <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setDialogOpen(true)} disabled={startMutation.isPending}>
+          סריקה חדשה
+        </Button>
+        {startDialog}
       </div>
     );
   }
@@ -115,9 +282,10 @@ export default function DeepScanProgress({ businessId }: DeepScanProgressProps)
           <AlertCircle className="w-3.5 h-3.5" />
           <span>נכשל</span>
         </div>
-        <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => startMutation.mutate()} disabled={startMutation.isPending}>
+        <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setDialogOpen(true)} disabled={startMutation.isPending}>
           נסה שוב
         </Button>
+        {startDialog}
       </div>
     );
   }
@@ -125,14 +293,19 @@ export default function DeepScanProgress({ businessId }: DeepScanProgressProps)
   // Paused — compact button to resume
   if (data.status === "PAUSED") {
     return (
-      <Button variant="outline" size="sm" onClick={() => resumeMutation.mutate()} disabled={resumeMutation.isPending}>
-        <Play className="w-3.5 h-3.5" />
-        {resumeMutation.isPending ? "מחדש..." : "המשך סריקה"}
-      </Button>
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" onClick={() => resumeMutation.mutate(undefined)} disabled={resumeMutation.isPending}>
+          <Play className="w-3.5 h-3.5" />
+          {resumeMutation.isPending ? "מחדש..." : "המשך סריקה"}
+        </Button>
+        <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => cancelMutation.mutate(undefined)} disabled={cancelMutation.isPending}>
+          <X className="w-3 h-3" /> בטל
+        </Button>
+      </div>
     );
   }
 
-  // Active — compact with spinner + pause button
+  // Active — compact with spinner + pause and cancel buttons
   return (
     <div className="flex items-center gap-2">
       <div className="flex items-center gap-1.5 text-xs text-foreground">
@@ -141,16 +314,29 @@ export default function DeepScanProgress({ businessId }: DeepScanProgressProps)
           {data.status === "DISCOVERING" ? "מחפש..." : `${data.processing?.percent ?? 0}%`}
         </span>
       </div>
-      <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => pauseMutation.mutate()} disabled={pauseMutation.isPending}>
+      <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => pauseMutation.mutate(undefined)} disabled={pauseMutation.isPending}>
         <Pause className="w-3 h-3" /> השהה
       </Button>
+      <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => cancelMutation.mutate(undefined)} disabled={cancelMutation.isPending}>
+        <X className="w-3 h-3" /> בטל
+      </Button>
     </div>
   );
 }
 
+const SCAN_STATUS_LABELS: Record<string, string> = {
+  DISCOVERING: "מחפש מיילים",
+  PROCESSING: "מעבד חשבוניות",
+  AI_PASS: "חילוץ AI",
+  PAUSED: "מושהית",
+  COMPLETED: "הושלמה",
+  FAILED: "נכשלה",
+  CANCELLED: "בוטלה",
+};
+
 // Expanded progress card — renders below the header when scan is active/paused
-export function DeepScanExpandedProgress({ businessId }: DeepScanProgressProps) {
-  const { statusQuery, pauseMutation, resumeMutation } = useDeepScan(businessId);
+export function DeepScanExpandedProgress({ businessId, live }: DeepScanProgressProps) {
+  const { statusQuery, pauseMutation, resumeMutation, cancelMutation } = useDeepScan(businessId, live);
   const data = statusQuery.data;
 
   if (!data || !data.active && data.status !== "PAUSED") return null;
@@ -177,17 +363,52 @@ export function DeepScanExpandedProgress({ businessId }: DeepScanProgressProps)
             </>
           )}
         </div>
-        {data.status === "PAUSED" ? (
-          <Button variant="outline" size="sm" className="h-7" onClick={() => resumeMutation.mutate()} disabled={resumeMutation.isPending}>
-            <Play className="w-3 h-3" /> {resumeMutation.isPending ? "מחדש..." : "המשך"}
-          </Button>
-        ) : (
-          <Button variant="outline" size="sm" className="h-7" onClick={() => pauseMutation.mutate()} disabled={pauseMutation.isPending}>
-            <Pause className="w-3 h-3" /> {pauseMutation.isPending ? "משהה..." : "השהה"}
+        <div className="flex items-center gap-2">
+          {data.status === "PAUSED" ? (
+            <Button variant="outline" size="sm" className="h-7" onClick={() => resumeMutation.mutate(undefined)} disabled={resumeMutation.isPending}>
+              <Play className="w-3 h-3" /> {resumeMutation.isPending ? "מחדש..." : "המשך"}
+            </Button>
+          ) : (
+            <Button variant="outline" size="sm" className="h-7" onClick={() => pauseMutation.mutate(undefined)} disabled={pauseMutation.isPending}>
+              <Pause className="w-3 h-3" /> {pauseMutation.isPending ? "משהה..." : "השהה"}
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" className="h-7" onClick={() => cancelMutation.mutate(undefined)} disabled={cancelMutation.isPending}>
+            <X className="w-3 h-3" /> {cancelMutation.isPending ? "מבטל..." : "בטל"}
           </Button>
-        )}
+        </div>
       </div>
       <ScanProgressBars data={data} />
+      {data.scans.length > 1 && (
+        <div className="divide-y divide-border text-xs border-t border-border pt-2">
+          {data.scans.map((scan) => (
+            <div key={scan.scanJobId} className="flex items-center justify-between gap-2 py-1.5">
+              <span className="truncate" dir="ltr">{scan.inboxEmail ?? scan.inboxId}</span>
+              <div className="flex items-center gap-2 shrink-0 text-muted-foreground">
+                <span>
+                  {SCAN_STATUS_LABELS[scan.status] ?? scan.status}
+                  {scan.active && ` · ${scan.processing?.percent ?? 0}%`}
+                </span>
+                {scan.active && (
+                  <Button variant="ghost" size="icon" className="h-6 w-6" title="השהה" onClick={() => pauseMutation.mutate(scan.scanJobId)} disabled={pauseMutation.isPending}>
+                    <Pause className="w-3 h-3" />
+                  </Button>
+                )}
+                {scan.status === "PAUSED" && (
+                  <Button variant="ghost" size="icon" className="h-6 w-6" title="המשך" onClick={() => resumeMutation.mutate(scan.scanJobId)} disabled={resumeMutation.isPending}>
+                    <Play className="w-3 h-3" />
+                  </Button>
+                )}
+                {(scan.active || scan.status === "PAUSED") && (
+                  <Button variant="ghost" size="icon" className="h-6 w-6" title="בטל" onClick={() => cancelMutation.mutate(scan.scanJobId)} disabled={cancelMutation.isPending}>
+                    <X className="w-3 h-3" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
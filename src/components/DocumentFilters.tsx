@@ -0,0 +1,192 @@
+import { useState } from "react";
+import { Filter } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  DOCUMENT_SORT_OPTIONS,
+  countActiveFilters,
+  type DocumentSearchParams,
+  type DocumentSort,
+} from "@/lib/api";
+
+/** Everything but the free-text search, which lives in the list header. */
+export type DocumentFilterValues = Omit<DocumentSearchParams, "q">;
+
+interface DocumentFiltersProps {
+  value: DocumentFilterValues;
+  onChange: (value: DocumentFilterValues) => void;
+  /** Category and inbox pickers are hidden when these aren't known, e.g. in the accountant portal */
+  categories?: string[];
+  inboxes?: Array<{ id: string; email: string }>;
+}
+
+const TYPE_LABELS: Record<NonNullable<DocumentSearchParams["type"]>, string> = {
+  invoice: "חשבונית",
+  receipt: "קבלה",
+  subscription: "מנוי",
+  payment_confirmation: "אישור תשלום",
+};
+
+const selectClassName = "flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm";
+
+function toShekels(cents: number | undefined): string {
+  return cents === undefined ? "" : String(cents / 100);
+}
+
+function toCents(shekels: string): number | undefined {
+  const value = Number(shekels);
+  return shekels.trim() === "" || !Number.isFinite(value) || value < 0 ? undefined : Math.round(value * 100);
+}
+
+/**
+ * Filter and sort popover for a document list. Edits stay local until
+ * "החל", so the list isn't refetched on every keystroke.
+ */
+const DocumentFilters = ({ value, onChange, categories = [], inboxes }: DocumentFiltersProps) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState(value);
+  const [minAmount, setMinAmount] = useState(toShekels(value.minAmountCents));
+  const [maxAmount, setMaxAmount] = useState(toShekels(value.maxAmountCents));
+  const activeCount = countActiveFilters(value);
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setDraft(value);
+      setMinAmount(toShekels(value.minAmountCents));
+      setMaxAmount(toShekels(value.maxAmountCents));
+    }
+    setOpen(next);
+  };
+
+  const update = (patch: Partial<DocumentFilterValues>) => setDraft((current) => ({ ...current, ...patch }));
+
+  const apply = () => {
+    onChange({ ...draft, minAmountCents: toCents(minAmount), maxAmountCents: toCents(maxAmount) });
+    setOpen(false);
+  };
+
+  const clear = () => {
+    onChange({ sort: value.sort });
+    setOpen(false);
+  };
+
+  const invalidRange = Boolean(draft.from && draft.to && draft.from > draft.to);
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-1" title="סינון ומיון">
+          <Filter className="w-4 h-4" />
+          {activeCount > 0 && <span className="text-xs font-semibold">{activeCount}</span>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3" dir="rtl">
+        <div>
+          <label className="text-sm font-medium">מיון</label>
+          <select
+            className={selectClassName}
+            value={draft.sort ?? "date_desc"}
+            onChange={(e) => update({ sort: e.target.value as DocumentSort })}
+          >
+            {DOCUMENT_SORT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="text-sm font-medium">מתאריך</label>
+            <Input type="date" value={draft.from ?? ""} onChange={(e) => update({ from: e.target.value || undefined })} />
+          </div>
+          <div>
+            <label className="text-sm font-medium">עד תאריך</label>
+            <Input type="date" value={draft.to ?? ""} onChange={(e) => update({ to: e.target.value || undefined })} />
+          </div>
+        </div>
+        {invalidRange && <p className="text-xs text-destructive">תאריך ההתחלה מאוחר מתאריך הסיום.</p>}
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="text-sm font-medium">מסכום (₪)</label>
+            <Input type="number" min={0} value={minAmount} onChange={(e) => setMinAmount(e.target.value)} />
+          </div>
+          <div>
+            <label className="text-sm font-medium">עד סכום (₪)</label>
+            <Input type="number" min={0} value={maxAmount} onChange={(e) => setMaxAmount(e.target.value)} />
+          </div>
+        </div>
+        {categories.length > 0 && (
+          <div>
+            <label className="text-sm font-medium">קטגוריה</label>
+            <select
+              className={selectClassName}
+              value={draft.category ?? ""}
+              onChange={(e) => update({ category: e.target.value || undefined })}
+            >
+              <option value="">הכל</option>
+              {categories.map((category) => (
+                <option key={category} value={category}>{category}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="text-sm font-medium">סוג מסמך</label>
+            <select
+              className={selectClassName}
+              value={draft.type ?? ""}
+              onChange={(e) => update({ type: (e.target.value || undefined) as DocumentFilterValues["type"] })}
+            >
+              <option value="">הכל</option>
+              {Object.entries(TYPE_LABELS).map(([type, label]) => (
+                <option key={type} value={type}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-sm font-medium">מקור</label>
+            <select
+              className={selectClassName}
+              value={draft.source ?? ""}
+              onChange={(e) => update({ source: (e.target.value || undefined) as DocumentFilterValues["source"] })}
+            >
+              <option value="">הכל</option>
+              <option value="email">מייל</option>
+              <option value="whatsapp">וואטסאפ</option>
+            </select>
+          </div>
+        </div>
+        {inboxes && inboxes.length > 0 && (
+          <div>
+            <label className="text-sm font-medium">תיבת מייל</label>
+            <select
+              className={selectClassName}
+              value={draft.inboxId ?? ""}
+              onChange={(e) => update({ inboxId: e.target.value || undefined })}
+            >
+              <option value="">כל התיבות</option>
+              {inboxes.map((inbox) => (
+                <option key={inbox.id} value={inbox.id}>{inbox.email}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={draft.late ?? false}
+            onChange={(e) => update({ late: e.target.checked || undefined })}
+          />
+          רק מסמכים שהגיעו אחרי סגירת החודש
+        </label>
+        <div className="flex justify-between gap-2 pt-1">
+          <Button variant="ghost" size="sm" onClick={clear}>נקה סינון</Button>
+          <Button variant="coral" size="sm" onClick={apply} disabled={invalidRange}>החל</Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default DocumentFilters;
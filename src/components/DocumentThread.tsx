@@ -0,0 +1,130 @@
+import { useState, type ReactNode } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { MessageSquare, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { DOCUMENT_REQUEST_LABELS, type DocumentRequest, type DocumentThread as Thread } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+
+interface DocumentThreadProps {
+  businessId: string;
+  documentId: string;
+  /** Query-key namespace, so owner and accountant caches stay apart */
+  scope: "dashboard" | "accountant";
+  /** Whose side this is; the other side's messages are highlighted */
+  viewer: "owner" | "accountant";
+  loadThread: () => Promise<Thread>;
+  addComment: (body: string) => Promise<unknown>;
+  /** Buttons shown on open requests, e.g. resolve or cancel */
+  requestActions?: (request: DocumentRequest) => ReactNode;
+}
+
+const STATUS_LABELS: Record<DocumentRequest["status"], { label: string; className: string }> = {
+  open: { label: "פתוחה", className: "bg-warning/10 text-warning" },
+  resolved: { label: "טופלה", className: "bg-success/10 text-success" },
+  cancelled: { label: "בוטלה", className: "bg-muted text-muted-foreground" },
+};
+
+function formatDateTime(dateIso: string): string {
+  return new Intl.DateTimeFormat("he-IL", { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" })
+    .format(new Date(dateIso));
+}
+
+/**
+ * A document's requests and comment thread, with a reply box. Shared by the
+ * owner's document dialog and the accountant portal.
+ */
+const DocumentThread = ({
+  businessId,
+  documentId,
+  scope,
+  viewer,
+  loadThread,
+  addComment,
+  requestActions,
+}: DocumentThreadProps) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [body, setBody] = useState("");
+  const queryKey = [scope, "document-thread", businessId, documentId];
+
+  const threadQuery = useQuery({ queryKey, queryFn: loadThread });
+
+  const commentMutation = useMutation({
+    mutationFn: () => addComment(body.trim()),
+    onSuccess: () => {
+      setBody("");
+      void queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error) => {
+      toast({ title: "שליחת ההודעה נכשלה", description: error instanceof Error ? error.message : "", variant: "destructive" });
+    },
+  });
+
+  const requests = threadQuery.data?.requests ?? [];
+  const comments = threadQuery.data?.comments ?? [];
+
+  return (
+    <div className="space-y-3 border-t border-border pt-3">
+      <p className="flex items-center gap-1 text-sm font-medium">
+        <MessageSquare className="w-4 h-4" /> {viewer === "owner" ? "שיחה עם רואה החשבון" : "שיחה עם הלקוח"}
+      </p>
+
+      {requests.map((request) => {
+        const status = STATUS_LABELS[request.status];
+        return (
+          <div key={request.id} className="flex items-start justify-between gap-2 rounded-lg border border-border px-3 py-2">
+            <div className="min-w-0 text-sm">
+              <p className="font-medium">
+                בקשה: {DOCUMENT_REQUEST_LABELS[request.kind]}
+                <span className={`mr-2 px-1.5 py-0.5 rounded text-xs ${status.className}`}>{status.label}</span>
+              </p>
+              {request.message && <p className="text-muted-foreground whitespace-pre-wrap">{request.message}</p>}
+              <p className="text-xs text-muted-foreground">{formatDateTime(request.createdAt)}</p>
+            </div>
+            {request.status === "open" && requestActions && <div className="flex gap-1 shrink-0">{requestActions(request)}</div>}
+          </div>
+        );
+      })}
+
+      <div className="space-y-2 max-h-56 overflow-y-auto">
+        {threadQuery.isLoading && <p className="text-sm text-muted-foreground">טוען...</p>}
+        {!threadQuery.isLoading && comments.length === 0 && requests.length === 0 && (
+          <p className="text-xs text-muted-foreground">אין עדיין הודעות על המסמך הזה.</p>
+        )}
+        {comments.map((comment) => (
+          <div
+            key={comment.id}
+            className={`rounded-lg px-3 py-2 text-sm ${comment.author === viewer ? "bg-secondary" : "bg-coral-light"}`}
+          >
+            <p className="text-xs text-muted-foreground">
+              {comment.author === "accountant" ? "רואה החשבון" : comment.authorName ?? "הלקוח"} · {formatDateTime(comment.createdAt)}
+              {comment.requestId && " · בתשובה לבקשה"}
+            </p>
+            <p className="whitespace-pre-wrap">{comment.body}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <Textarea
+          rows={2}
+          placeholder="כתוב/י הודעה..."
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+        />
+        <Button
+          variant="coral"
+          size="icon"
+          onClick={() => commentMutation.mutate()}
+          disabled={!body.trim() || commentMutation.isPending}
+          title="שליחה"
+        >
+          <Send className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default DocumentThread;
@@ -1,13 +1,29 @@
-import { Link, useLocation } from "react-router-dom";
+import { Link, useLocation, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { motion } from "framer-motion";
 import { Menu, X } from "lucide-react";
 import { useState } from "react";
+import { logoutOwner } from "@/lib/api";
+import { clearSession, isLoggedIn } from "@/lib/session";
 
 const Navbar = () => {
   const [mobileOpen, setMobileOpen] = useState(false);
   const location = useLocation();
   const isLanding = location.pathname === "/";
+  const navigate = useNavigate();
+  const loggedIn = isLoggedIn();
+
+  const handleLogout = () => {
+    setMobileOpen(false);
+    logoutOwner()
+      .catch(() => {
+        // Session may already be gone server-side
+      })
+      .finally(() => {
+        clearSession();
+        navigate("/login");
+      });
+  };
 
   return (
     <motion.nav
@@ -37,9 +53,18 @@ const Navbar = () => {
           <Link to="/dashboard">
             <Button variant="ghost" size="sm">דשבורד</Button>
           </Link>
-          <Link to="/onboarding">
-            <Button variant="coral" size="sm">התחל בחינם</Button>
-          </Link>
+          {loggedIn ? (
+            <Button variant="outline" size="sm" onClick={handleLogout}>התנתק</Button>
+          ) : (
+            <>
+              <Link to="/login">
+                <Button variant="ghost" size="sm">כניסה</Button>
+              </Link>
+              <Link to="/onboarding">
+                <Button variant="coral" size="sm">התחל בחינם</Button>
+              </Link>
+            </>
+          )}
         </div>
 
         <button className="md:hidden" onClick={() => setMobileOpen(!mobileOpen)}>
@@ -64,9 +89,18 @@ const Navbar = () => {
             <Link to="/dashboard" onClick={() => setMobileOpen(false)}>
               <Button variant="ghost" className="w-full justify-start">דשבורד</Button>
             </Link>
-            <Link to="/onboarding" onClick={() => setMobileOpen(false)}>
-              <Button variant="coral" className="w-full">התחל בחינם</Button>
-            </Link>
+            {loggedIn ? (
+              <Button variant="outline" className="w-full" onClick={handleLogout}>התנתק</Button>
+            ) : (
+              <>
+                <Link to="/login" onClick={() => setMobileOpen(false)}>
+                  <Button variant="ghost" className="w-full justify-start">כניסה</Button>
+                </Link>
+                <Link to="/onboarding" onClick={() => setMobileOpen(false)}>
+                  <Button variant="coral" className="w-full">התחל בחינם</Button>
+                </Link>
+              </>
+            )}
           </div>
         </motion.div>
       )}
@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { AlertTriangle, ChevronLeft, ChevronRight, FileText, Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { VatBucket, VatIssue, VatReportResponse } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+
+interface VatReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  businessId: string;
+  /** Query-key namespace, so owner and accountant caches stay apart */
+  scope: "dashboard" | "accountant";
+  loadReport: (period?: string) => Promise<VatReportResponse>;
+  downloadFile: (file: "pdf" | "pcn874", period: string) => Promise<Blob>;
+}
+
+const ISSUE_LABELS: Record<VatIssue, string> = {
+  missing_vat: "חסר מע״מ",
+  estimated_vat: "מע״מ משוער",
+  missing_supplier_id: "חסר ע.מ ספק",
+  missing_allocation_number: "חסר מספר הקצאה",
+  foreign_currency: "מטבע זר",
+};
+
+function formatShekels(cents: number): string {
+  return `₪${(cents / 100).toLocaleString("he-IL", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatDate(dateIso: string): string {
+  return new Intl.DateTimeFormat("he-IL", { day: "numeric", month: "short", year: "numeric" }).format(new Date(dateIso));
+}
+
+function BucketCard({ title, bucket }: { title: string; bucket: VatBucket }) {
+  return (
+    <div className="rounded-xl border border-border p-3">
+      <p className="text-xs text-muted-foreground">{title} · {bucket.count} מסמכים</p>
+      <p className="text-lg font-bold">{formatShekels(bucket.vatCents)}</p>
+      <p className="text-xs text-muted-foreground">לפני מע״מ: {formatShekels(bucket.netCents)}</p>
+    </div>
+  );
+}
+
+const VatReportDialog = ({ open, onOpenChange, businessId, scope, loadReport, downloadFile }: VatReportDialogProps) => {
+  const { toast } = useToast();
+  const [period, setPeriod] = useState<string | undefined>(undefined);
+
+  const reportQuery = useQuery({
+    queryKey: [scope, "vat-report", businessId, period ?? "current"],
+    queryFn: () => loadReport(period),
+    enabled: open && Boolean(businessId),
+  });
+  const report = reportQuery.data;
+
+  const downloadMutation = useMutation({
+    mutationFn: async (file: "pdf" | "pcn874") => ({
+      file,
+      blob: await downloadFile(file, report!.period.key),
+    }),
+    onSuccess: ({ file, blob }) => {
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = file === "pdf"
+        ? `vat-report-${report!.period.key}.pdf`
+        : `PCN874-${report!.period.key.replace("-", "")}.txt`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      window.URL.revokeObjectURL(url);
+    },
+    onError: (error) => {
+      toast({
+        title: "ההורדה נכשלה",
+        description: error instanceof Error ? error.message : "",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>דוח מע״מ</DialogTitle>
+          <DialogDescription>מע״מ תשומות לתקופת הדיווח, כולל מסמכים שדורשים השלמה.</DialogDescription>
+        </DialogHeader>
+
+        {reportQuery.isLoading && <p className="text-sm text-muted-foreground">טוען דוח...</p>}
+        {reportQuery.isError && (
+          <p className="text-sm text-destructive">
+            {reportQuery.error instanceof Error ? reportQuery.error.message : "טעינת הדוח נכשלה"}
+          </p>
+        )}
+
+        {report && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <Button variant="ghost" size="icon" onClick={() => setPeriod(report.period.previousKey)}>
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+              <div className="text-center">
+                <p className="font-bold">{report.period.label}</p>
+                <p className="text-xs text-muted-foreground">
+                  {report.period.frequency === "bimonthly" ? "דיווח דו-חודשי" : "דיווח חודשי"}
+                </p>
+              </div>
+              <Button variant="ghost" size="icon" onClick={() => setPeriod(report.period.nextKey)}>
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+            </div>
+
+            <div className="grid sm:grid-cols-3 gap-3">
+              <BucketCard title="הוצאות שוטפות" bucket={report.totals.expenses} />
+              <BucketCard title="רכוש קבוע" bucket={report.totals.fixedAssets} />
+              <div className="rounded-xl border border-coral/30 bg-coral-light p-3">
+                <p className="text-xs text-muted-foreground">סה״כ מע״מ תשומות</p>
+                <p className="text-lg font-bold text-coral">{formatShekels(report.totals.inputVatCents)}</p>
+              </div>
+            </div>
+
+            {report.flaggedCount > 0 && (
+              <div className="rounded-xl border border-warning/30 bg-warning/10 p-3 text-sm">
+                <p className="flex items-center gap-2 font-medium">
+                  <AlertTriangle className="w-4 h-4 text-warning" /> {report.flaggedCount} מסמכים דורשים השלמה
+                </p>
+              </div>
+            )}
+
+            <div className="max-h-64 overflow-y-auto divide-y divide-border text-sm">
+              {report.documents.length === 0 && (
+                <p className="py-4 text-center text-muted-foreground">אין מסמכים בתקופה זו.</p>
+              )}
+              {report.documents.map((doc) => (
+                <div key={doc.id} className="flex items-center justify-between gap-3 py-2">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">
+                      {doc.vendor}
+                      {doc.isFixedAsset && <span className="text-xs text-muted-foreground"> · רכוש קבוע</span>}
+                    </p>
+                    <p className="text-xs text-muted-foreground">{formatDate(doc.issuedAt)}</p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {doc.issues.map((issue) => (
+                      <span key={issue} className="text-xs rounded-full px-2 py-0.5 bg-warning/10 text-warning">
+                        {ISSUE_LABELS[issue]}
+                      </span>
+                    ))}
+                    <span className="font-medium">{formatShekels(doc.vatCents)}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => downloadMutation.mutate("pdf")} disabled={downloadMutation.isPending}>
+                <FileText className="w-4 h-4" /> PDF
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => downloadMutation.mutate("pcn874")} disabled={downloadMutation.isPending}>
+                <Download className="w-4 h-4" /> קובץ PCN874
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default VatReportDialog;
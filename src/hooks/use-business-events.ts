@@ -0,0 +1,62 @@
+import { useEffect, useRef, useState } from "react";
+import { BusinessEvent, streamBusinessEvents } from "@/lib/api";
+
+const RECONNECT_DELAY_MS = 5000;
+
+interface BusinessEventHandlers {
+  onEvent: (event: BusinessEvent) => void;
+  /** Called when the stream comes back after a drop — refetch whatever may have been missed */
+  onReconnect?: () => void;
+}
+
+/**
+ * Keep a live event stream open for the business, reconnecting when it
+ * drops. `connected` is false while there's no stream, so callers can fall
+ * back to polling.
+ */
+export function useBusinessEvents(businessId: string | null, handlers: BusinessEventHandlers) {
+  const [connected, setConnected] = useState(false);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!businessId) return;
+
+    const controller = new AbortController();
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let hasConnected = false;
+
+    const connect = () => {
+      streamBusinessEvents(
+        businessId,
+        (event) => {
+          if (event.type === "ready") {
+            setConnected(true);
+            if (hasConnected) handlersRef.current.onReconnect?.();
+            hasConnected = true;
+            return;
+          }
+          handlersRef.current.onEvent(event);
+        },
+        controller.signal,
+      )
+        .catch(() => {
+          // Dropped or refused — retried below
+        })
+        .finally(() => {
+          if (controller.signal.aborted) return;
+          setConnected(false);
+          retryTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+        });
+    };
+    connect();
+
+    return () => {
+      controller.abort();
+      clearTimeout(retryTimer);
+      setConnected(false);
+    };
+  }, [businessId]);
+
+  return { connected };
+}
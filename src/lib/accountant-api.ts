@@ -1,5 +1,19 @@
-import { getAccountantToken } from "./accountant-session";
-import type { DashboardSummaryResponse, DashboardDocument, DocumentFilter } from "./api";
+import { clearAccountantSession, getAccountantToken } from "./accountant-session";
+import { documentSearchQuery } from "./api";
+import type {
+  DashboardSummaryResponse,
+  DocumentFilter,
+  DocumentPage,
+  DocumentComment,
+  DocumentRequest,
+  DocumentRequestKind,
+  DocumentSearchParams,
+  DocumentThread,
+  ExportFormat,
+  PeriodClose,
+  PeriodStatusResponse,
+  VatReportResponse,
+} from "./api";
 
 async function accountantRequest<T>(path: string, init?: RequestInit): Promise<T> {
   const token = getAccountantToken();
@@ -15,6 +29,8 @@ async function accountantRequest<T>(path: string, init?: RequestInit): Promise<T
   });
 
   if (response.status === 401) {
+    // Expired, logged out elsewhere, or no longer this business's accountant
+    clearAccountantSession();
     throw new Error("Session expired. Please login again.");
   }
 
@@ -39,6 +55,48 @@ export interface AccountantClient {
   totalCount: number;
   lastDocumentAt: string | null;
   health: "green" | "yellow" | "red";
+  /** Staff member handling the client; null outside a firm */
+  assignedStaffId: string | null;
+}
+
+export type StaffRole = "admin" | "bookkeeper" | "read_only";
+
+export interface AccountantFirm {
+  id: string;
+  name: string;
+}
+
+export interface StaffMember {
+  id: string;
+  firmId: string;
+  email: string;
+  fullName: string | null;
+  role: StaffRole;
+  createdAt: string;
+}
+
+/** An invitation to join a firm; the invitee becomes staff only when they accept */
+export interface StaffInvitation {
+  id: string;
+  firmId: string;
+  firmName: string | null;
+  email: string;
+  fullName: string | null;
+  role: StaffRole;
+  invitedByStaffId: string;
+  expiresAt: string;
+  createdAt: string;
+}
+
+export interface AccountantFirmResponse {
+  firm: AccountantFirm | null;
+  /** The caller's own staff record */
+  me: StaffMember | null;
+  staff: StaffMember[];
+  /** The firm's unanswered invitations; admins only */
+  invitations: StaffInvitation[];
+  /** Invitations addressed to the caller */
+  myInvitations: StaffInvitation[];
 }
 
 export function sendMagicLink(email: string): Promise<{ ok: boolean; message: string }> {
@@ -49,6 +107,17 @@ export function sendMagicLink(email: string): Promise<{ ok: boolean; message: st
   }).then((r) => r.json());
 }
 
+export interface AccountantSessionInfo {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string | null;
+  expiresAt: string;
+  /** The session making this request */
+  current: boolean;
+}
+
 export function verifyMagicLink(token: string): Promise<{ ok: boolean; token: string; email: string }> {
   return fetch("/api/accountant/auth/verify", {
     method: "POST",
@@ -60,10 +129,111 @@ export function verifyMagicLink(token: string): Promise<{ ok: boolean; token: st
   });
 }
 
-export function getAccountantClients(): Promise<{ email: string; clients: AccountantClient[] }> {
+export function logoutAccountant(): Promise<{ ok: boolean }> {
+  return accountantRequest("/accountant/auth/logout", { method: "POST" });
+}
+
+export function logoutAccountantEverywhere(): Promise<{ ok: boolean; revoked: number }> {
+  return accountantRequest("/accountant/auth/logout-all", { method: "POST" });
+}
+
+export function getAccountantSessions(): Promise<{ sessions: AccountantSessionInfo[] }> {
+  return accountantRequest("/accountant/auth/sessions");
+}
+
+export function revokeAccountantSession(sessionId: string): Promise<{ ok: boolean }> {
+  return accountantRequest(`/accountant/auth/sessions/${sessionId}`, { method: "DELETE" });
+}
+
+export function getAccountantClients(): Promise<{
+  email: string;
+  firm: AccountantFirm | null;
+  role: StaffRole | null;
+  clients: AccountantClient[];
+}> {
   return accountantRequest("/accountant/clients");
 }
 
+export interface ClientInvitation {
+  id: string;
+  accountantEmail: string;
+  accountantName: string | null;
+  clientEmail: string;
+  clientName: string | null;
+  sendCount: number;
+  lastSentAt: string;
+  expiresAt: string;
+  acceptedAt: string | null;
+  acceptedBusinessId: string | null;
+  status: "pending" | "accepted" | "revoked" | "expired";
+  createdAt: string;
+}
+
+export function inviteClient(payload: {
+  clientEmail: string;
+  clientName?: string;
+  accountantName?: string;
+  autoMonthlyDelivery?: boolean;
+  monthlyDeliveryDay?: number;
+}): Promise<{ ok: boolean; invitation: ClientInvitation; deliveryStatus: string }> {
+  return accountantRequest("/accountant/invite-client", { method: "POST", body: JSON.stringify(payload) });
+}
+
+export function getClientInvitations(): Promise<{ invitations: ClientInvitation[] }> {
+  return accountantRequest("/accountant/invitations");
+}
+
+export function resendClientInvitation(invitationId: string): Promise<{ invitation: ClientInvitation }> {
+  return accountantRequest(`/accountant/invitations/${invitationId}/resend`, { method: "POST" });
+}
+
+export function revokeClientInvitation(invitationId: string): Promise<{ invitation: ClientInvitation }> {
+  return accountantRequest(`/accountant/invitations/${invitationId}`, { method: "DELETE" });
+}
+
+export function getAccountantFirm(): Promise<AccountantFirmResponse> {
+  return accountantRequest("/accountant/firm");
+}
+
+export function createAccountantFirm(payload: { name: string; fullName?: string }): Promise<AccountantFirmResponse> {
+  return accountantRequest("/accountant/firm", { method: "POST", body: JSON.stringify(payload) });
+}
+
+export function inviteFirmStaff(payload: {
+  email: string;
+  fullName?: string;
+  role: StaffRole;
+}): Promise<{ invitation: StaffInvitation }> {
+  return accountantRequest("/accountant/firm/invitations", { method: "POST", body: JSON.stringify(payload) });
+}
+
+export function revokeFirmStaffInvitation(invitationId: string): Promise<{ ok: boolean }> {
+  return accountantRequest(`/accountant/firm/invitations/${invitationId}`, { method: "DELETE" });
+}
+
+export function acceptFirmStaffInvitation(invitationId: string): Promise<AccountantFirmResponse> {
+  return accountantRequest(`/accountant/firm/invitations/${invitationId}/accept`, { method: "POST" });
+}
+
+export function declineFirmStaffInvitation(invitationId: string): Promise<{ ok: boolean }> {
+  return accountantRequest(`/accountant/firm/invitations/${invitationId}/decline`, { method: "POST" });
+}
+
+export function updateFirmStaffRole(staffId: string, role: StaffRole): Promise<{ staff: StaffMember }> {
+  return accountantRequest(`/accountant/firm/staff/${staffId}`, { method: "PATCH", body: JSON.stringify({ role }) });
+}
+
+export function removeFirmStaff(staffId: string): Promise<{ ok: boolean }> {
+  return accountantRequest(`/accountant/firm/staff/${staffId}`, { method: "DELETE" });
+}
+
+export function reassignClient(businessId: string, staffId: string): Promise<{ client: { assignedStaffId: string } }> {
+  return accountantRequest(`/accountant/clients/${businessId}/assignment`, {
+    method: "PUT",
+    body: JSON.stringify({ staffId }),
+  });
+}
+
 export function getClientSummary(businessId: string): Promise<DashboardSummaryResponse> {
   return accountantRequest(`/accountant/clients/${businessId}/summary`);
 }
@@ -71,8 +241,66 @@ export function getClientSummary(businessId: string): Promise<DashboardSummaryRe
 export function getClientDocuments(
   businessId: string,
   status: DocumentFilter = "all",
-): Promise<{ businessId: string; documents: DashboardDocument[] }> {
-  return accountantRequest(`/accountant/clients/${businessId}/documents?status=${status}`);
+  params: DocumentSearchParams = {},
+  cursor?: string | null,
+): Promise<DocumentPage> {
+  return accountantRequest(`/accountant/clients/${businessId}/documents?${documentSearchQuery(status, params, cursor)}`);
+}
+
+export function getClientDocumentThread(businessId: string, documentId: string): Promise<DocumentThread> {
+  return accountantRequest(`/accountant/clients/${businessId}/documents/${documentId}/thread`);
+}
+
+export function addClientDocumentComment(
+  businessId: string,
+  documentId: string,
+  body: string,
+): Promise<{ comment: DocumentComment }> {
+  return accountantRequest(`/accountant/clients/${businessId}/documents/${documentId}/comments`, {
+    method: "POST",
+    body: JSON.stringify({ body }),
+  });
+}
+
+export function requestFromClient(
+  businessId: string,
+  documentId: string,
+  payload: { kind: DocumentRequestKind; message?: string },
+): Promise<{ request: DocumentRequest }> {
+  return accountantRequest(`/accountant/clients/${businessId}/documents/${documentId}/requests`, {
+    method: "POST",
+    body: JSON.stringify(payload),
+  });
+}
+
+export function getClientRequests(businessId: string): Promise<{ requests: DocumentRequest[] }> {
+  return accountantRequest(`/accountant/clients/${businessId}/requests`);
+}
+
+export function closeClientRequest(
+  businessId: string,
+  requestId: string,
+  status: "resolved" | "cancelled",
+): Promise<{ request: DocumentRequest }> {
+  return accountantRequest(`/accountant/clients/${businessId}/requests/${requestId}`, {
+    method: "PATCH",
+    body: JSON.stringify({ status }),
+  });
+}
+
+export function getClientPeriods(businessId: string): Promise<PeriodStatusResponse> {
+  return accountantRequest(`/accountant/clients/${businessId}/periods`);
+}
+
+export function closeClientMonth(businessId: string, month: string): Promise<{ period: PeriodClose }> {
+  return accountantRequest(`/accountant/clients/${businessId}/periods/${month}/close`, { method: "POST" });
+}
+
+export function reopenClientMonth(businessId: string, month: string, reason: string): Promise<{ period: PeriodClose }> {
+  return accountantRequest(`/accountant/clients/${businessId}/periods/${month}/reopen`, {
+    method: "POST",
+    body: JSON.stringify({ reason }),
+  });
 }
 
 export async function downloadClientMonthlyPdf(businessId: string, month?: string): Promise<Blob> {
@@ -87,13 +315,61 @@ export async function downloadClientMonthlyPdf(businessId: string, month?: strin
   return response.blob();
 }
 
-export async function downloadClientExport(businessId: string, status: DocumentFilter = "all"): Promise<Blob> {
+export function getClientVatReport(businessId: string, period?: string): Promise<VatReportResponse> {
+  const params = period ? `?period=${encodeURIComponent(period)}` : "";
+  return accountantRequest(`/accountant/clients/${businessId}/vat-report${params}`);
+}
+
+export async function downloadClientVatReportFile(
+  businessId: string,
+  file: "pdf" | "pcn874",
+  period: string,
+): Promise<Blob> {
+  const token = getAccountantToken();
+  if (!token) throw new Error("Not authenticated");
+
+  const response = await fetch(
+    `/api/accountant/clients/${businessId}/vat-report/${file}?period=${encodeURIComponent(period)}`,
+    { headers: { Authorization: `Bearer ${token}` } },
+  );
+  if (!response.ok) {
+    let message = "Download failed";
+    try {
+      const payload = await response.json();
+      if (payload?.message) message = payload.message;
+    } catch { /* ignore */ }
+    throw new Error(message);
+  }
+  return response.blob();
+}
+
+export async function downloadClientExport(
+  businessId: string,
+  status: DocumentFilter = "all",
+  format: ExportFormat = "csv",
+): Promise<Blob> {
   const token = getAccountantToken();
   if (!token) throw new Error("Not authenticated");
 
-  const response = await fetch(`/api/accountant/clients/${businessId}/export?format=csv&status=${status}`, {
+  const response = await fetch(`/api/accountant/clients/${businessId}/export?format=${format}&status=${status}`, {
     headers: { Authorization: `Bearer ${token}` },
   });
   if (!response.ok) throw new Error("Export failed");
   return response.blob();
 }
+
+export async function downloadClientDocumentFile(
+  businessId: string,
+  documentId: string,
+  disposition: "inline" | "attachment" = "inline",
+): Promise<Blob> {
+  const token = getAccountantToken();
+  if (!token) throw new Error("Not authenticated");
+
+  const response = await fetch(
+    `/api/accountant/clients/${businessId}/documents/${documentId}/file?disposition=${disposition}`,
+    { headers: { Authorization: `Bearer ${token}` } },
+  );
+  if (!response.ok) throw new Error("File download failed");
+  return response.blob();
+}
@@ -1,7 +1,80 @@
+import { clearSession, getSessionToken } from "./session";
+
 export type InboxProvider = "gmail" | "outlook" | "imap" | "yahoo" | "icloud";
 export type OAuthProvider = "gmail" | "outlook";
 export type DocumentFilter = "all" | "sent" | "pending" | "review";
 
+export type ExportFormat = "csv" | "hashavshevet" | "rivhit" | "priority" | "uniform";
+
+/** Export formats offered in the UI, with the extension of the downloaded file. */
+export const EXPORT_FORMAT_OPTIONS: Array<{ value: ExportFormat; label: string; extension: string }> = [
+  { value: "csv", label: "CSV", extension: "csv" },
+  { value: "hashavshevet", label: "חשבשבת", extension: "zip" },
+  { value: "rivhit", label: "רווחית", extension: "csv" },
+  { value: "priority", label: "Priority", extension: "txt" },
+  { value: "uniform", label: "מבנה אחיד", extension: "zip" },
+];
+
+export type DocumentSort =
+  | "date_desc"
+  | "date_asc"
+  | "amount_desc"
+  | "amount_asc"
+  | "vendor_asc"
+  | "vendor_desc"
+  | "added_desc";
+
+export const DOCUMENT_SORT_OPTIONS: Array<{ value: DocumentSort; label: string }> = [
+  { value: "date_desc", label: "תאריך (חדש לישן)" },
+  { value: "date_asc", label: "תאריך (ישן לחדש)" },
+  { value: "amount_desc", label: "סכום (גבוה לנמוך)" },
+  { value: "amount_asc", label: "סכום (נמוך לגבוה)" },
+  { value: "vendor_asc", label: "ספק (א-ת)" },
+  { value: "vendor_desc", label: "ספק (ת-א)" },
+  { value: "added_desc", label: "נוספו לאחרונה" },
+];
+
+/** Search and filters for a document list; amounts are shekels in agorot. */
+export interface DocumentSearchParams {
+  q?: string;
+  from?: string;
+  to?: string;
+  minAmountCents?: number;
+  maxAmountCents?: number;
+  category?: string;
+  type?: "invoice" | "receipt" | "subscription" | "payment_confirmation";
+  source?: "email" | "whatsapp";
+  inboxId?: string;
+  /** Only documents that arrived after their month was closed */
+  late?: boolean;
+  sort?: DocumentSort;
+}
+
+/** One page of a document list; pass `nextCursor` back for the next one. */
+export interface DocumentPage {
+  businessId: string;
+  documents: DashboardDocument[];
+  nextCursor: string | null;
+}
+
+/** Number of filters (search included) that narrow a list; sort order doesn't count. */
+export function countActiveFilters(params: DocumentSearchParams): number {
+  return Object.entries(params).filter(([key, value]) => key !== "sort" && value !== undefined && value !== "").length;
+}
+
+export function documentSearchQuery(
+  status: DocumentFilter,
+  params: DocumentSearchParams = {},
+  cursor?: string | null,
+): string {
+  const query = new URLSearchParams({ status });
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== "") query.set(key, String(value));
+  }
+  if (cursor) query.set("cursor", cursor);
+  return query.toString();
+}
+
 export interface ConnectedInbox {
   id: string;
   email: string;
@@ -40,11 +113,22 @@ export interface OnboardingStateResponse {
 }
 
 export interface OnboardingStartPayload {
-  email?: string;
+  email: string;
   fullName?: string;
   businessName?: string;
   accountantName?: string;
   accountantEmail?: string;
+  /** From an accountant's invitation link */
+  inviteToken?: string;
+}
+
+/** An accountant's invitation, as onboarding prefills it */
+export interface InvitePrefill {
+  clientEmail: string;
+  clientName: string | null;
+  accountantName: string | null;
+  accountantEmail: string;
+  firmName: string | null;
 }
 
 export interface BillingStatus {
@@ -82,8 +166,11 @@ export interface DashboardSummaryResponse {
 export interface DashboardDocument {
   id: string;
   vendor: string;
+  /** Total in the invoice currency */
   amountCents: number;
   currency: string;
+  /** Total in shekels; null while a foreign-currency document waits for a rate */
+  amountIlsCents: number | null;
   issuedAt: string;
   category: string;
   status: "sent" | "pending" | "review";
@@ -91,13 +178,66 @@ export interface DashboardDocument {
   provider: string;
   type?: string;
   confidence?: number;
+  hasFile?: boolean;
+  /** Set when the document was linked to an earlier copy */
+  duplicateStatus?: DuplicateStatus | null;
+  /** Member who sent it over WhatsApp */
+  uploadedBy?: string | null;
+  /** Its month was closed by the accountant; read-only until reopened */
+  locked?: boolean;
+  /** Arrived after its month was closed */
+  late?: boolean;
+}
+
+export type DuplicateStatus = "suspected" | "confirmed" | "dismissed";
+
+export type DuplicateReason = "same_file" | "same_invoice_number" | "same_vendor_amount_date";
+
+export interface DuplicateGroupDocument {
+  id: string;
+  vendor: string;
+  amountCents: number;
+  currency: string;
+  amountIlsCents: number | null;
+  issuedAt: string;
+  source: "email" | "whatsapp";
+  provider: string;
+  type: string;
+  invoiceNumber: string | null;
+  hasFile: boolean;
+  duplicateStatus: DuplicateStatus | null;
+  duplicateReason: DuplicateReason | null;
+}
+
+export interface DuplicateGroup {
+  original: DuplicateGroupDocument;
+  duplicates: DuplicateGroupDocument[];
+}
+
+export interface DocumentFile {
+  filename: string;
+  mimeType: string;
+  sizeBytes: number;
 }
 
 export interface DashboardDocumentDetail extends DashboardDocument {
   businessId: string;
+  /** Shekels per unit of `currency` used for amountIlsCents */
+  exchangeRate: number | null;
   vatCents: number | null;
+  /** VAT was estimated from the rate table rather than read off the invoice */
+  vatEstimated: boolean;
+  supplierTaxId: string | null;
+  isFixedAsset: boolean;
+  invoiceNumber: string | null;
+  /** Tax Authority allocation number (מספר הקצאה) */
+  allocationNumber: string | null;
+  /** Above the threshold for its date and still missing an allocation number */
+  allocationNumberRequired: boolean;
+  duplicateOfId: string | null;
   rawText: string | null;
   comments: string | null;
+  file: DocumentFile | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -108,6 +248,11 @@ export interface DocumentUpdate {
   amountCents?: number;
   vendorName?: string;
   status?: "sent" | "pending" | "review";
+  vatCents?: number | null;
+  supplierTaxId?: string | null;
+  isFixedAsset?: boolean;
+  invoiceNumber?: string | null;
+  allocationNumber?: string | null;
 }
 
 export interface DashboardChatMessage {
@@ -118,6 +263,75 @@ export interface DashboardChatMessage {
   createdAt: string;
 }
 
+export type VatReportingFrequency = "monthly" | "bimonthly";
+
+export type VatIssue =
+  | "missing_vat"
+  | "estimated_vat"
+  | "missing_supplier_id"
+  | "missing_allocation_number"
+  | "foreign_currency";
+
+export type VatTreatment = "standard" | "exempt" | "foreign";
+
+export interface VendorVatTreatment {
+  vendorName: string;
+  treatment: VatTreatment;
+}
+
+export interface WhatsAppSenderMember {
+  memberId: string;
+  userId: string;
+  email: string | null;
+  fullName: string | null;
+  /** "sender" entries are only on the WhatsApp allowlist, with no dashboard access */
+  role: "owner" | "member" | "sender";
+  /** Number allowed to send documents over WhatsApp; null when not allowlisted */
+  phoneE164: string | null;
+}
+
+export interface VatBucket {
+  count: number;
+  netCents: number;
+  vatCents: number;
+  totalCents: number;
+}
+
+export interface VatReportResponse {
+  business: { id: string; name: string; taxId: string | null };
+  period: {
+    key: string;
+    frequency: VatReportingFrequency;
+    from: string;
+    to: string;
+    label: string;
+    previousKey: string;
+    nextKey: string;
+  };
+  totals: {
+    expenses: VatBucket;
+    fixedAssets: VatBucket;
+    inputVatCents: number;
+  };
+  documents: Array<{
+    id: string;
+    vendor: string;
+    issuedAt: string;
+    currency: string;
+    category: string;
+    supplierTaxId: string | null;
+    invoiceNumber: string | null;
+    allocationNumber: string | null;
+    isFixedAsset: boolean;
+    vatTreatment: VatTreatment;
+    netCents: number;
+    vatCents: number;
+    totalCents: number;
+    issues: VatIssue[];
+  }>;
+  flaggedCount: number;
+}
+
 export interface SettingsResponse {
   business: {
     id: string;
@@ -125,6 +339,8 @@ export interface SettingsResponse {
     accountantName: string;
     currency: string;
     timezone: string;
+    taxId: string | null;
+    vatReportingFrequency: VatReportingFrequency;
   };
   owner: {
     id: string;
@@ -157,15 +373,25 @@ export interface WhatsAppSessionResponse {
   updatedAt: string | null;
 }
 
+function authHeaders(): Record<string, string> {
+  const token = getSessionToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
 async function apiRequest<T>(path: string, init?: RequestInit): Promise<T> {
   const response = await fetch(`/api${path}`, {
     headers: {
       "Content-Type": "application/json",
+      ...authHeaders(),
       ...(init?.headers ?? {}),
     },
     ...init,
   });
 
+  if (response.status === 401) {
+    clearSession();
+  }
+
   if (!response.ok) {
     const fallbackMessage = `Request failed with status ${response.status}`;
     let message = fallbackMessage;
@@ -182,6 +408,39 @@ async function apiRequest<T>(path: string, init?: RequestInit): Promise<T> {
   return response.json() as Promise<T>;
 }
 
+// ─── Owner auth ───
+
+export interface OwnerAccount {
+  user: {
+    id: string;
+    email: string;
+    fullName: string | null;
+  };
+  businesses: Array<{ id: string; name: string; role: "OWNER" | "MEMBER" }>;
+}
+
+export function sendOwnerMagicLink(email: string): Promise<{ ok: boolean; message: string }> {
+  return apiRequest("/auth/send-magic-link", {
+    method: "POST",
+    body: JSON.stringify({ email }),
+  });
+}
+
+export function verifyOwnerMagicLink(token: string): Promise<OwnerAccount & { ok: boolean; token: string }> {
+  return apiRequest("/auth/verify", {
+    method: "POST",
+    body: JSON.stringify({ token }),
+  });
+}
+
+export function getCurrentOwner(): Promise<OwnerAccount> {
+  return apiRequest("/auth/me");
+}
+
+export function logoutOwner(): Promise<{ ok: boolean }> {
+  return apiRequest("/auth/logout", { method: "POST" });
+}
+
 export function getOAuthStartUrl(
   businessId: string,
   provider: OAuthProvider,
@@ -189,13 +448,19 @@ export function getOAuthStartUrl(
   return apiRequest(`/oauth/${provider}/start?businessId=${encodeURIComponent(businessId)}`);
 }
 
-export function startOnboarding(payload: OnboardingStartPayload): Promise<OnboardingStateResponse> {
+export function startOnboarding(
+  payload: OnboardingStartPayload,
+): Promise<OnboardingStateResponse & { sessionToken: string | null }> {
   return apiRequest("/onboarding/start", {
     method: "POST",
     body: JSON.stringify(payload),
   });
 }
 
+export function getInvitePrefill(token: string): Promise<InvitePrefill> {
+  return apiRequest(`/onboarding/invite?token=${encodeURIComponent(token)}`);
+}
+
 export function getOnboardingState(businessId: string): Promise<OnboardingStateResponse> {
   return apiRequest(`/onboarding/state/${businessId}`);
 }
@@ -204,6 +469,12 @@ export function connectInbox(payload: {
   businessId: string;
   provider: InboxProvider;
   email?: string;
+  /** IMAP / Yahoo / iCloud app password — the server verifies it with a real login */
+  appPassword?: string;
+  imapHost?: string;
+  imapPort?: number;
+  imapSecure?: boolean;
+  imapUsername?: string;
 }): Promise<{ businessId: string; connectedInboxes: ConnectedInbox[] }> {
   return apiRequest("/onboarding/connect-inbox", {
     method: "POST",
@@ -262,23 +533,41 @@ export function getDashboardSummary(businessId: string): Promise<DashboardSummar
   return apiRequest(`/dashboard/${businessId}/summary`);
 }
 
+/** Start a background sync; its progress and result arrive on the event stream. */
 export function syncDashboard(
   businessId: string,
-): Promise<{ newDocuments: number; summary: DashboardSummaryResponse }> {
+): Promise<{ started: boolean; alreadyRunning: boolean }> {
   return apiRequest(`/dashboard/${businessId}/sync`, { method: "POST" });
 }
 
+/** Sync and wait for the result — for when the event stream isn't connected. */
+export function syncDashboardAndWait(
+  businessId: string,
+): Promise<{ newDocuments: number; summary: DashboardSummaryResponse }> {
+  return apiRequest(`/dashboard/${businessId}/sync?wait=true`, { method: "POST" });
+}
+
 export function sendToAccountant(
   businessId: string,
-): Promise<{ sent: boolean; emailId?: string; documentCount?: number; accountantEmail?: string; message?: string }> {
+): Promise<{
+  sent: boolean;
+  emailId?: string | null;
+  outboxMessageId?: string;
+  deliveryStatus?: "pending" | "sending" | "retrying" | "sent" | "failed";
+  documentCount?: number;
+  accountantEmail?: string;
+  message?: string;
+}> {
   return apiRequest(`/dashboard/${businessId}/send-to-accountant`, { method: "POST" });
 }
 
 export function getDashboardDocuments(
   businessId: string,
   status: DocumentFilter,
-): Promise<{ businessId: string; documents: DashboardDocument[] }> {
-  return apiRequest(`/dashboard/${businessId}/documents?status=${status}`);
+  params: DocumentSearchParams = {},
+  cursor?: string | null,
+): Promise<DocumentPage> {
+  return apiRequest(`/dashboard/${businessId}/documents?${documentSearchQuery(status, params, cursor)}`);
 }
 
 export function getDashboardDocumentDetail(
@@ -291,8 +580,11 @@ export function getDashboardDocumentDetail(
 export async function downloadDashboardExport(
   businessId: string,
   status: DocumentFilter,
+  format: ExportFormat = "csv",
 ): Promise<Blob> {
-  const response = await fetch(`/api/dashboard/${businessId}/export?format=csv&status=${status}`);
+  const response = await fetch(`/api/dashboard/${businessId}/export?format=${format}&status=${status}`, {
+    headers: authHeaders(),
+  });
   if (!response.ok) {
     throw new Error(`Export failed with status ${response.status}`);
   }
@@ -328,6 +620,8 @@ export function updateSettingsAccount(
     businessName?: string;
     preferredLanguage?: string;
     currency?: string;
+    taxId?: string | null;
+    vatReportingFrequency?: VatReportingFrequency;
   },
 ): Promise<SettingsResponse> {
   return apiRequest(`/settings/${businessId}/account`, {
@@ -353,6 +647,43 @@ export function updateSettingsAccountant(
   });
 }
 
+export function getVatTreatments(
+  businessId: string,
+): Promise<{ businessId: string; treatments: VendorVatTreatment[] }> {
+  return apiRequest(`/settings/${businessId}/vat-treatments`);
+}
+
+export function setVatTreatment(
+  businessId: string,
+  vendorName: string,
+  treatment: VatTreatment | null,
+): Promise<{ vendorName: string; treatment: VatTreatment | null; updatedDocuments: number }> {
+  return apiRequest(`/settings/${businessId}/vat-treatments`, {
+    method: "PUT",
+    body: JSON.stringify({ vendorName, treatment }),
+  });
+}
+
+export function getWhatsAppSenders(
+  businessId: string,
+): Promise<{ businessId: string; senders: WhatsAppSenderMember[] }> {
+  return apiRequest(`/settings/${businessId}/whatsapp-senders`);
+}
+
+export function addWhatsAppSender(
+  businessId: string,
+  payload: { email: string; fullName?: string | null; phoneE164: string },
+): Promise<WhatsAppSenderMember> {
+  return apiRequest(`/settings/${businessId}/whatsapp-senders`, {
+    method: "POST",
+    body: JSON.stringify(payload),
+  });
+}
+
+export function removeWhatsAppSender(businessId: string, memberId: string): Promise<WhatsAppSenderMember> {
+  return apiRequest(`/settings/${businessId}/whatsapp-senders/${memberId}`, { method: "DELETE" });
+}
+
 export function disconnectInbox(
   businessId: string,
   inboxId: string,
@@ -373,21 +704,126 @@ export function updateDocument(
   });
 }
 
+export function getDuplicateGroups(
+  businessId: string,
+  status: "suspected" | "confirmed" = "suspected",
+): Promise<{ businessId: string; groups: DuplicateGroup[] }> {
+  return apiRequest(`/dashboard/${businessId}/duplicates?status=${status}`);
+}
+
+export function resolveDuplicate(
+  businessId: string,
+  documentId: string,
+  action: "confirm" | "dismiss",
+): Promise<{ id: string; duplicateStatus: DuplicateStatus }> {
+  return apiRequest(`/dashboard/${businessId}/documents/${documentId}/duplicate`, {
+    method: "POST",
+    body: JSON.stringify({ action }),
+  });
+}
+
+/** The file types the server keeps as originals; see DOCUMENT_FILE_TYPES on the server. */
+const DOCUMENT_FILE_TYPES = ["application/pdf", "image/png", "image/jpeg"];
+
+/**
+ * Re-type a downloaded original before handing it to createObjectURL, so a
+ * preview never opens as anything but a PDF or image. Other types become a
+ * plain download.
+ */
+export function toDocumentFileBlob(blob: Blob): Blob {
+  const type = blob.type.split(";")[0].trim().toLowerCase();
+  return new Blob([blob], { type: DOCUMENT_FILE_TYPES.includes(type) ? type : "application/octet-stream" });
+}
+
+export async function downloadDocumentFile(
+  businessId: string,
+  documentId: string,
+  disposition: "inline" | "attachment" = "inline",
+): Promise<Blob> {
+  const response = await fetch(
+    `/api/dashboard/${businessId}/documents/${documentId}/file?disposition=${disposition}`,
+    { headers: authHeaders() },
+  );
+  if (!response.ok) {
+    throw new Error(`File download failed with status ${response.status}`);
+  }
+  return response.blob();
+}
+
 export async function downloadMonthlyPdf(
   businessId: string,
   month?: string,
 ): Promise<Blob> {
   const params = month ? `?month=${encodeURIComponent(month)}` : "";
-  const response = await fetch(`/api/dashboard/${businessId}/monthly-pdf${params}`);
+  const response = await fetch(`/api/dashboard/${businessId}/monthly-pdf${params}`, {
+    headers: authHeaders(),
+  });
   if (!response.ok) {
     throw new Error(`PDF download failed with status ${response.status}`);
   }
   return response.blob();
 }
 
+// ─── VAT report ───
+
+export function getVatReport(businessId: string, period?: string): Promise<VatReportResponse> {
+  const params = period ? `?period=${encodeURIComponent(period)}` : "";
+  return apiRequest(`/dashboard/${businessId}/vat-report${params}`);
+}
+
+export async function downloadVatReportFile(
+  businessId: string,
+  file: "pdf" | "pcn874",
+  period: string,
+): Promise<Blob> {
+  const response = await fetch(
+    `/api/dashboard/${businessId}/vat-report/${file}?period=${encodeURIComponent(period)}`,
+    { headers: authHeaders() },
+  );
+  if (!response.ok) {
+    let message = `Download failed with status ${response.status}`;
+    try {
+      const payload = await response.json();
+      if (payload?.message) message = payload.message;
+    } catch { /* ignore */ }
+    throw new Error(message);
+  }
+  return response.blob();
+}
+
+// ─── Month closing ───
+
+export interface ClosedMonth {
+  monthKey: string;
+  closedAt: string;
+  closedByEmail: string;
+  /** Documents for the month that arrived after it was closed */
+  lateCount: number;
+}
+
+export interface PeriodClose {
+  id: string;
+  businessId: string;
+  monthKey: string;
+  closedAt: string;
+  closedByEmail: string;
+  reopenedAt: string | null;
+  reopenedByEmail: string | null;
+  reopenReason: string | null;
+}
+
+export interface PeriodStatusResponse {
+  closedMonths: ClosedMonth[];
+  history: PeriodClose[];
+}
+
+export function getPeriodStatus(businessId: string): Promise<PeriodStatusResponse> {
+  return apiRequest(`/dashboard/${businessId}/periods`);
+}
+
 // ─── Deep Scan ───
 
-export interface DeepScanStatus {
+export interface DeepScanProgressInfo {
   active: boolean;
   scanJobId?: string;
   status?: string;
@@ -414,26 +850,164 @@ export interface DeepScanStatus {
   updatedAt?: string;
 }
 
+/** One inbox's latest scan */
+export interface DeepScanJob extends DeepScanProgressInfo {
+  scanJobId: string;
+  inboxId: string;
+  inboxEmail: string | null;
+  status: string;
+  filters: {
+    from: string | null;
+    to: string | null;
+    extraTerms: string | null;
+    excludedSenders: string[];
+  };
+}
+
+/** Combined progress across inboxes, plus each inbox's scan */
+export interface DeepScanStatus extends DeepScanProgressInfo {
+  scans: DeepScanJob[];
+  /** Gmail inboxes that can be scanned */
+  inboxes: Array<{ id: string; email: string }>;
+}
+
+export interface DeepScanOptions {
+  /** Omit to scan every Gmail inbox */
+  inboxId?: string;
+  /** YYYY-MM-DD */
+  from?: string;
+  /** YYYY-MM-DD, inclusive */
+  to?: string;
+  extraTerms?: string;
+  excludedSenders?: string[];
+}
+
 export function startDeepScan(
   businessId: string,
-): Promise<{ scanJobId: string; status: string; message: string }> {
-  return apiRequest(`/deep-scan/${businessId}/start`, { method: "POST" });
+  options: DeepScanOptions = {},
+): Promise<{
+  scans: Array<{ scanJobId: string; inboxId: string; inboxEmail: string; status: string; started: boolean }>;
+  message: string;
+}> {
+  return apiRequest(`/deep-scan/${businessId}/start`, {
+    method: "POST",
+    body: JSON.stringify(options),
+  });
 }
 
 export function getDeepScanStatus(businessId: string): Promise<DeepScanStatus> {
   return apiRequest(`/deep-scan/${businessId}/status`);
 }
 
+/** Without a scanJobId, pause/resume/cancel apply to every scan of the business. */
 export function pauseDeepScan(
   businessId: string,
-): Promise<{ scanJobId: string; status: string }> {
-  return apiRequest(`/deep-scan/${businessId}/pause`, { method: "POST" });
+  scanJobId?: string,
+): Promise<{ scans: Array<{ scanJobId: string; status: string }> }> {
+  return apiRequest(`/deep-scan/${businessId}/pause`, {
+    method: "POST",
+    body: JSON.stringify({ scanJobId }),
+  });
 }
 
 export function resumeDeepScan(
   businessId: string,
-): Promise<{ scanJobId: string; status: string }> {
-  return apiRequest(`/deep-scan/${businessId}/resume`, { method: "POST" });
+  scanJobId?: string,
+): Promise<{ scans: Array<{ scanJobId: string; status: string }> }> {
+  return apiRequest(`/deep-scan/${businessId}/resume`, {
+    method: "POST",
+    body: JSON.stringify({ scanJobId }),
+  });
+}
+
+export function cancelDeepScan(
+  businessId: string,
+  scanJobId?: string,
+): Promise<{ scans: Array<{ scanJobId: string; status: string }> }> {
+  return apiRequest(`/deep-scan/${businessId}/cancel`, {
+    method: "POST",
+    body: JSON.stringify({ scanJobId }),
+  });
+}
+
+// ─── Live events ───
+
+interface BusinessEventBase {
+  id: string;
+  businessId: string;
+  at: string;
+}
+
+export type BusinessEvent =
+  /** Sent when the stream opens */
+  | { type: "ready" }
+  | (BusinessEventBase & (
+    | { type: "scan.phase"; scanJobId: string; inboxId: string; status: string; previousStatus: string | null }
+    | {
+      type: "scan.progress";
+      scanJobId: string;
+      inboxId: string;
+      status: string;
+      discovered: number;
+      processed: number;
+      total: number;
+      created: number;
+      aiProcessed: number;
+      aiTotal: number;
+    }
+    /** `document` is missing when it was too large to relay between servers */
+    | { type: "document.created"; documentId: string; document?: DashboardDocument }
+    | { type: "sync.started" }
+    | { type: "sync.completed"; newDocuments: number }
+    | { type: "sync.failed"; error: string }
+    | { type: "alert.created"; alertId: string; vendorName: string; expectedMonth: string }
+    | { type: "period.closed"; monthKey: string }
+    | { type: "period.reopened"; monthKey: string; reason: string }
+    | { type: "request.created"; requestId: string; documentId: string; kind: DocumentRequestKind }
+    | { type: "request.updated"; requestId: string; documentId: string; status: DocumentRequest["status"] }
+    | { type: "comment.created"; commentId: string; documentId: string; author: DocumentComment["author"] }
+  ));
+
+/**
+ * Read the business's Server-Sent Events stream until it ends or `signal`
+ * aborts. Uses fetch rather than EventSource so the session token stays in
+ * the Authorization header; reconnecting is up to the caller.
+ */
+export async function streamBusinessEvents(
+  businessId: string,
+  onEvent: (event: BusinessEvent) => void,
+  signal: AbortSignal,
+): Promise<void> {
+  const response = await fetch(`/api/events/${businessId}`, {
+    headers: { Accept: "text/event-stream", ...authHeaders() },
+    signal,
+  });
+  if (response.status === 401) {
+    clearSession();
+  }
+  if (!response.ok || !response.body) {
+    throw new Error(`Event stream failed with status ${response.status}`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += value;
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary >= 0) {
+      const data = buffer.slice(0, boundary)
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trimStart())
+        .join("\n");
+      buffer = buffer.slice(boundary + 2);
+      if (data) onEvent(JSON.parse(data) as BusinessEvent);
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
 }
 
 // ─── Categories (auto-categorization) ───
@@ -473,6 +1047,77 @@ export function dismissAlert(
   return apiRequest(`/dashboard/${businessId}/alerts/${alertId}/dismiss`, { method: "PATCH" });
 }
 
+// ─── Document requests and comments ───
+
+export type DocumentRequestKind = "original" | "tax_invoice" | "explain";
+
+export const DOCUMENT_REQUEST_LABELS: Record<DocumentRequestKind, string> = {
+  original: "המסמך המקורי",
+  tax_invoice: "חשבונית מס במקום קבלה",
+  explain: "הסבר על ההוצאה",
+};
+
+/** Something the accountant asked the owner for about a document */
+export interface DocumentRequest {
+  id: string;
+  businessId: string;
+  documentId: string;
+  kind: DocumentRequestKind;
+  message: string | null;
+  status: "open" | "resolved" | "cancelled";
+  requestedByEmail: string;
+  createdAt: string;
+  resolvedAt: string | null;
+  resolvedBy: "accountant" | "owner" | null;
+  document: { vendor: string; issuedAt: string; amountCents: number; currency: string };
+}
+
+export interface DocumentComment {
+  id: string;
+  businessId: string;
+  documentId: string;
+  /** Set on the note left when resolving a request */
+  requestId: string | null;
+  author: "accountant" | "owner";
+  authorName: string | null;
+  body: string;
+  createdAt: string;
+}
+
+export interface DocumentThread {
+  comments: DocumentComment[];
+  requests: DocumentRequest[];
+}
+
+export function getDocumentRequests(
+  businessId: string,
+  status: DocumentRequest["status"] = "open",
+): Promise<{ requests: DocumentRequest[] }> {
+  return apiRequest(`/dashboard/${businessId}/requests?status=${status}`);
+}
+
+export function getDocumentThread(businessId: string, documentId: string): Promise<DocumentThread> {
+  return apiRequest(`/dashboard/${businessId}/documents/${documentId}/thread`);
+}
+
+export function addDocumentComment(businessId: string, documentId: string, body: string): Promise<{ comment: DocumentComment }> {
+  return apiRequest(`/dashboard/${businessId}/documents/${documentId}/comments`, {
+    method: "POST",
+    body: JSON.stringify({ body }),
+  });
+}
+
+export function resolveDocumentRequest(
+  businessId: string,
+  requestId: string,
+  note?: string,
+): Promise<{ request: DocumentRequest }> {
+  return apiRequest(`/dashboard/${businessId}/requests/${requestId}/resolve`, {
+    method: "POST",
+    body: JSON.stringify(note ? { note } : {}),
+  });
+}
+
 // ─── Billing ───
 
 export function getBillingStatus(businessId: string): Promise<BillingStatus> {
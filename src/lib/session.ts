@@ -1,9 +1,35 @@
+const SESSION_TOKEN_KEY = "sendtoamram.sessionToken";
 const ACTIVE_BUSINESS_ID_KEY = "sendtoamram.activeBusinessId";
 
+export function getSessionToken(): string | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+  return window.localStorage.getItem(SESSION_TOKEN_KEY);
+}
+
+export function setSessionToken(token: string): void {
+  if (typeof window === "undefined") {
+    return;
+  }
+  window.localStorage.setItem(SESSION_TOKEN_KEY, token);
+}
+
+export function isLoggedIn(): boolean {
+  return Boolean(getSessionToken());
+}
+
+/**
+ * The active business is only a UI selection — the session token is what
+ * the API checks membership against.
+ */
 export function getActiveBusinessId(): string | null {
   if (typeof window === "undefined") {
     return null;
   }
+  if (!getSessionToken()) {
+    return null;
+  }
   return window.localStorage.getItem(ACTIVE_BUSINESS_ID_KEY);
 }
 
@@ -20,3 +46,11 @@ export function clearActiveBusinessId(): void {
   }
   window.localStorage.removeItem(ACTIVE_BUSINESS_ID_KEY);
 }
+
+export function clearSession(): void {
+  if (typeof window === "undefined") {
+    return;
+  }
+  window.localStorage.removeItem(SESSION_TOKEN_KEY);
+  window.localStorage.removeItem(ACTIVE_BUSINESS_ID_KEY);
+}
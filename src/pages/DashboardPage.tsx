@@ -1,18 +1,21 @@
 import { useMemo, useState } from "react";
 import { motion } from "framer-motion";
 import { Link, Navigate } from "react-router-dom";
-import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient, type InfiniteData } from "@tanstack/react-query";
 import {
   ArrowUpLeft,
   Check,
+  ClipboardList,
   Clock,
+  Copy,
   Download,
   Eye,
   FileText,
-  Filter,
+  Lock,
   Mail,
   MessageCircle,
   Pencil,
+  Percent,
   RefreshCw,
   Save,
   Search,
@@ -34,27 +37,59 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  BusinessEvent,
+  DashboardDocument,
   DocumentFilter,
+  DocumentPage,
+  DocumentSearchParams,
   DocumentUpdate,
+  EXPORT_FORMAT_OPTIONS,
+  countActiveFilters,
+  ExportFormat,
   downloadDashboardExport,
+  downloadDocumentFile,
   downloadMonthlyPdf,
+  downloadVatReportFile,
   getDashboardChat,
   getDashboardDocumentDetail,
   getDashboardDocuments,
   getDashboardSummary,
+  getSettings,
+  getVatReport,
   postDashboardChat,
   sendToAccountant,
   syncDashboard,
+  syncDashboardAndWait,
   updateDocument,
   createCheckoutSession,
   createBillingPortal,
   getDashboardCategories,
   getDashboardAlerts,
   dismissAlert,
+  getDuplicateGroups,
+  resolveDuplicate,
+  addDocumentComment,
+  getDocumentRequests,
+  getDocumentThread,
+  resolveDocumentRequest,
+  toDocumentFileBlob,
+  DOCUMENT_REQUEST_LABELS,
+  type DuplicateReason,
 } from "@/lib/api";
-import { getActiveBusinessId } from "@/lib/session";
+import { getActiveBusinessId, isLoggedIn } from "@/lib/session";
 import { useToast } from "@/hooks/use-toast";
+import { useBusinessEvents } from "@/hooks/use-business-events";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
 import DeepScanProgress, { DeepScanExpandedProgress } from "@/components/DeepScanProgress";
+import DocumentThread from "@/components/DocumentThread";
+import VatReportDialog from "@/components/VatReportDialog";
+import DocumentFilters, { type DocumentFilterValues } from "@/components/DocumentFilters";
 
 const statusConfig: Record<string, { label: string; className: string; icon: typeof Check }> = {
   sent: { label: "נשלח", className: "bg-success/10 text-success", icon: Check },
@@ -70,11 +105,21 @@ const sourceIcons: Record<string, string> = {
   whatsapp: "💬",
 };
 
+const duplicateReasonLabels: Record<DuplicateReason, string> = {
+  same_file: "אותו קובץ",
+  same_invoice_number: "אותו מספר חשבונית",
+  same_vendor_amount_date: "ספק, סכום ותאריך זהים",
+};
+
 function formatAmount(cents: number | null | undefined): string {
   if (cents === null || cents === undefined || cents === 0) return "ממתין לחילוץ";
   return `₪${(cents / 100).toLocaleString("he-IL", { maximumFractionDigits: 0 })}`;
 }
 
+function formatOriginalAmount(cents: number, currency: string): string {
+  return `${(cents / 100).toLocaleString("he-IL", { maximumFractionDigits: 2 })} ${currency}`;
+}
+
 function formatDate(dateIso: string): string {
   return new Intl.DateTimeFormat("he-IL", { day: "numeric", month: "short", year: "numeric" }).format(new Date(dateIso));
 }
@@ -84,7 +129,11 @@ const DashboardPage = () => {
   const [chatInput, setChatInput] = useState("");
   const [activeTab, setActiveTab] = useState<DocumentFilter>("all");
   const [searchTerm, setSearchTerm] = useState("");
+  const [filters, setFilters] = useState<DocumentFilterValues>({ sort: "date_desc" });
+  const debouncedSearch = useDebouncedValue(searchTerm.trim());
+  const documentSearch: DocumentSearchParams = { ...filters, q: debouncedSearch || undefined };
   const [selectedDocumentId, setSelectedDocumentId] = useState<string | null>(null);
+  const [vatReportOpen, setVatReportOpen] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [editForm, setEditForm] = useState<DocumentUpdate>({});
   const [customCategory, setCustomCategory] = useState("");
@@ -97,9 +146,17 @@ const DashboardPage = () => {
     enabled: Boolean(businessId),
   });
 
-  const documentsQuery = useQuery({
-    queryKey: ["dashboard", "documents", businessId, activeTab],
-    queryFn: () => getDashboardDocuments(businessId as string, activeTab),
+  const documentsQuery = useInfiniteQuery({
+    queryKey: ["dashboard", "documents", businessId, activeTab, documentSearch],
+    queryFn: ({ pageParam }) => getDashboardDocuments(businessId as string, activeTab, documentSearch, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: Boolean(businessId),
+  });
+
+  const settingsQuery = useQuery({
+    queryKey: ["settings", businessId],
+    queryFn: () => getSettings(businessId as string),
     enabled: Boolean(businessId),
   });
 
@@ -134,6 +191,50 @@ const DashboardPage = () => {
     },
   });
 
+  const duplicatesQuery = useQuery({
+    queryKey: ["dashboard", "duplicates", businessId],
+    queryFn: () => getDuplicateGroups(businessId as string),
+    enabled: Boolean(businessId),
+  });
+
+  const resolveDuplicateMutation = useMutation({
+    mutationFn: async ({ documentId, action }: { documentId: string; action: "confirm" | "dismiss" }) =>
+      resolveDuplicate(businessId as string, documentId, action),
+    onSuccess: (_, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["dashboard"] });
+      toast({ title: action === "confirm" ? "הכפילות אושרה — המסמך לא ייספר ולא יישלח" : "המסמכים סומנו כנפרדים" });
+    },
+    onError: (error) => {
+      toast({
+        title: "עדכון הכפילות נכשל",
+        description: error instanceof Error ? error.message : "",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const requestsQuery = useQuery({
+    queryKey: ["dashboard", "requests", businessId],
+    queryFn: () => getDocumentRequests(businessId as string),
+    enabled: Boolean(businessId),
+  });
+
+  const resolveRequestMutation = useMutation({
+    mutationFn: async (requestId: string) => resolveDocumentRequest(businessId as string, requestId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["dashboard", "requests", businessId] });
+      queryClient.invalidateQueries({ queryKey: ["dashboard", "document-thread", businessId] });
+      toast({ title: "הבקשה סומנה כטופלה" });
+    },
+    onError: (error) => {
+      toast({
+        title: "עדכון הבקשה נכשל",
+        description: error instanceof Error ? error.message : "",
+        variant: "destructive",
+      });
+    },
+  });
+
   const sendChatMutation = useMutation({
     mutationFn: async (text: string) => postDashboardChat(businessId as string, text),
     onSuccess: () => {
@@ -149,16 +250,133 @@ const DashboardPage = () => {
     },
   });
 
+  const [syncRunning, setSyncRunning] = useState(false);
+
+  const showSyncResult = (newDocuments: number) => {
+    toast({
+      title: "סנכרון הושלם",
+      description: newDocuments > 0
+        ? `נמצאו ${newDocuments} מסמכים חדשים.`
+        : "אין מסמכים חדשים.",
+    });
+  };
+
+  // Add a new document to every loaded list it belongs in, without refetching.
+  // Lists that are searched, filtered or sorted otherwise can't place it, so
+  // those refetch instead.
+  const addDocumentToLists = (document: DashboardDocument) => {
+    const lists = queryClient.getQueriesData<InfiniteData<DocumentPage, string | null>>({
+      queryKey: ["dashboard", "documents", businessId],
+    });
+    for (const [queryKey, list] of lists) {
+      const filter = queryKey[3] as DocumentFilter;
+      const search = (queryKey[4] ?? {}) as DocumentSearchParams;
+      if (!list || (filter !== "all" && filter !== document.status)) continue;
+      if (list.pages.some((page) => page.documents.some((entry) => entry.id === document.id))) continue;
+
+      const sort = search.sort ?? "date_desc";
+      if (countActiveFilters(search) > 0 || (sort !== "date_desc" && sort !== "added_desc")) {
+        queryClient.invalidateQueries({ queryKey, exact: true });
+        continue;
+      }
+
+      // Newest first: the first loaded page holding an older document, or the
+      // last page if nothing further is left to load
+      let target = sort === "added_desc"
+        ? 0
+        : list.pages.findIndex((page) => page.documents.some((entry) => entry.issuedAt < document.issuedAt));
+      if (target === -1) {
+        if (list.pages[list.pages.length - 1]?.nextCursor) continue;
+        target = list.pages.length - 1;
+      }
+      const pages = list.pages.map((page, index) => {
+        if (index !== target) return page;
+        const documents = sort === "added_desc"
+          ? [document, ...page.documents]
+          : [...page.documents, document].sort((a, b) => b.issuedAt.localeCompare(a.issuedAt));
+        return { ...page, documents };
+      });
+      queryClient.setQueryData(queryKey, { ...list, pages });
+    }
+  };
+
+  const handleBusinessEvent = (event: BusinessEvent) => {
+    switch (event.type) {
+      case "document.created":
+        if (event.document) {
+          addDocumentToLists(event.document);
+        } else {
+          queryClient.invalidateQueries({ queryKey: ["dashboard", "documents", businessId] });
+        }
+        queryClient.invalidateQueries({ queryKey: ["dashboard", "summary", businessId] });
+        break;
+      case "sync.started":
+        setSyncRunning(true);
+        break;
+      case "sync.completed":
+        setSyncRunning(false);
+        queryClient.invalidateQueries({ queryKey: ["dashboard", "summary", businessId] });
+        showSyncResult(event.newDocuments);
+        break;
+      case "sync.failed":
+        setSyncRunning(false);
+        toast({ title: "סנכרון נכשל", description: event.error, variant: "destructive" });
+        break;
+      case "alert.created":
+        queryClient.invalidateQueries({ queryKey: ["dashboard", "alerts", businessId] });
+        break;
+      case "scan.phase":
+        queryClient.invalidateQueries({ queryKey: ["deep-scan", "status", businessId] });
+        // The AI pass rewrites vendors and amounts in place
+        if (event.status === "COMPLETED") {
+          queryClient.invalidateQueries({ queryKey: ["dashboard", "documents", businessId] });
+        }
+        break;
+      case "scan.progress":
+        queryClient.invalidateQueries({ queryKey: ["deep-scan", "status", businessId] });
+        break;
+      case "request.created":
+      case "request.updated":
+        queryClient.invalidateQueries({ queryKey: ["dashboard", "requests", businessId] });
+        queryClient.invalidateQueries({ queryKey: ["dashboard", "document-thread", businessId, event.documentId] });
+        break;
+      case "comment.created":
+        queryClient.invalidateQueries({ queryKey: ["dashboard", "document-thread", businessId, event.documentId] });
+        break;
+      // Closing locks the month's documents, reopening unlocks them
+      case "period.closed":
+      case "period.reopened":
+        queryClient.invalidateQueries({ queryKey: ["dashboard", "documents", businessId] });
+        queryClient.invalidateQueries({ queryKey: ["dashboard", "document-detail", businessId] });
+        break;
+    }
+  };
+
+  const { connected: liveUpdates } = useBusinessEvents(businessId, {
+    onEvent: handleBusinessEvent,
+    onReconnect: () => {
+      queryClient.invalidateQueries({ queryKey: ["dashboard"] });
+      queryClient.invalidateQueries({ queryKey: ["deep-scan", "status", businessId] });
+    },
+  });
+
+  // With the event stream up the sync runs in the background and reports
+  // back over it; without it, wait for the result as before
   const syncMutation = useMutation({
-    mutationFn: async () => syncDashboard(businessId as string),
+    mutationFn: async () => {
+      if (liveUpdates) {
+        await syncDashboard(businessId as string);
+        return null;
+      }
+      return syncDashboardAndWait(businessId as string);
+    },
     onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: ["dashboard"] });
-      toast({
-        title: "סנכרון הושלם",
-        description: data.newDocuments > 0
-          ? `נמצאו ${data.newDocuments} מסמכים חדשים.`
-          : "אין מסמכים חדשים.",
-      });
+      if (data) {
+        queryClient.invalidateQueries({ queryKey: ["dashboard"] });
+        showSyncResult(data.newDocuments);
+        return;
+      }
+      setSyncRunning(true);
     },
     onError: (error) => {
       toast({
@@ -168,6 +386,7 @@ const DashboardPage = () => {
       });
     },
   });
+  const syncing = syncMutation.isPending || syncRunning;
 
   const sendMutation = useMutation({
     mutationFn: async () => sendToAccountant(businessId as string),
@@ -195,12 +414,13 @@ const DashboardPage = () => {
   });
 
   const exportMutation = useMutation({
-    mutationFn: async () => downloadDashboardExport(businessId as string, activeTab),
-    onSuccess: (blob) => {
+    mutationFn: async (format: ExportFormat) => downloadDashboardExport(businessId as string, activeTab, format),
+    onSuccess: (blob, format) => {
+      const extension = EXPORT_FORMAT_OPTIONS.find((option) => option.value === format)?.extension ?? "csv";
       const url = window.URL.createObjectURL(blob);
       const link = document.createElement("a");
       link.href = url;
-      link.download = `sendtoamram-${businessId}-${activeTab}.csv`;
+      link.download = `sendtoamram-${businessId}-${format}-${activeTab}.${extension}`;
       document.body.appendChild(link);
       link.click();
       link.remove();
@@ -254,6 +474,33 @@ const DashboardPage = () => {
     },
   });
 
+  const fileMutation = useMutation({
+    mutationFn: async (disposition: "inline" | "attachment") =>
+      downloadDocumentFile(businessId as string, selectedDocumentId as string, disposition),
+    onSuccess: (downloaded, disposition) => {
+      const url = window.URL.createObjectURL(toDocumentFileBlob(downloaded));
+      if (disposition === "inline") {
+        window.open(url, "_blank", "noopener");
+        window.setTimeout(() => window.URL.revokeObjectURL(url), 60_000);
+        return;
+      }
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = detailQuery.data?.file?.filename ?? "document";
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      window.URL.revokeObjectURL(url);
+    },
+    onError: (error) => {
+      toast({
+        title: "פתיחת הקובץ נכשלה",
+        description: error instanceof Error ? error.message : "לא הצלחנו לטעון את הקובץ המקורי.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const checkoutMutation = useMutation({
     mutationFn: async () => createCheckoutSession(businessId as string),
     onSuccess: (data) => {
@@ -290,18 +537,14 @@ const DashboardPage = () => {
   const isPaid = !billing || (billing.onboardingPaid && billing.subscriptionStatus === "active");
 
   const filteredDocuments = useMemo(() => {
-    const docs = documentsQuery.data?.documents ?? [];
+    const docs = documentsQuery.data?.pages.flatMap((page) => page.documents) ?? [];
     // Filter out ignored documents by default
-    const nonIgnored = docs.filter((doc) => doc.status !== "ignored");
-    const term = searchTerm.trim().toLowerCase();
-    if (!term) {
-      return nonIgnored;
-    }
-    return nonIgnored.filter((doc) => doc.vendor.toLowerCase().includes(term) || doc.category.toLowerCase().includes(term));
-  }, [documentsQuery.data?.documents, searchTerm]);
+    return docs.filter((doc) => doc.status !== "ignored");
+  }, [documentsQuery.data?.pages]);
+  const isSearching = countActiveFilters(documentSearch) > 0;
 
   if (!businessId) {
-    return <Navigate to="/onboarding" replace />;
+    return <Navigate to={isLoggedIn() ? "/onboarding" : "/login"} replace />;
   }
 
   const stats = summary
@@ -355,11 +598,11 @@ const DashboardPage = () => {
               <Link to="/settings">
                 <Button variant="outline" size="sm">⚙️ הגדרות</Button>
               </Link>
-              {isPaid && <DeepScanProgress businessId={businessId as string} />}
+              {isPaid && <DeepScanProgress businessId={businessId as string} live={liveUpdates} />}
               {isPaid && (
-                <Button variant="outline" size="sm" onClick={() => syncMutation.mutate()} disabled={syncMutation.isPending}>
-                  <RefreshCw className={`w-4 h-4 ${syncMutation.isPending ? "animate-spin" : ""}`} />
-                  {syncMutation.isPending ? "מסנכרן..." : "סנכרן עכשיו"}
+                <Button variant="outline" size="sm" onClick={() => syncMutation.mutate()} disabled={syncing}>
+                  <RefreshCw className={`w-4 h-4 ${syncing ? "animate-spin" : ""}`} />
+                  {syncing ? "מסנכרן..." : "סנכרן עכשיו"}
                 </Button>
               )}
               {isPaid && (
@@ -373,10 +616,26 @@ const DashboardPage = () => {
                 </Button>
               )}
               {isPaid && (
-                <Button variant="outline" size="sm" onClick={() => exportMutation.mutate()} disabled={exportMutation.isPending}>
-                  <Download className="w-4 h-4" /> {exportMutation.isPending ? "מייצא..." : "ייצוא CSV"}
+                <Button variant="outline" size="sm" onClick={() => setVatReportOpen(true)}>
+                  <Percent className="w-4 h-4" /> דוח מע״מ
                 </Button>
               )}
+              {isPaid && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="sm" disabled={exportMutation.isPending}>
+                      <Download className="w-4 h-4" /> {exportMutation.isPending ? "מייצא..." : "ייצוא"}
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    {EXPORT_FORMAT_OPTIONS.map((option) => (
+                      <DropdownMenuItem key={option.value} onSelect={() => exportMutation.mutate(option.value)}>
+                        {option.label}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
               {isPaid && billing && (
                 <Button variant="ghost" size="sm" onClick={() => portalMutation.mutate()} disabled={portalMutation.isPending}>
                   <CreditCard className="w-4 h-4" /> ניהול מנוי
@@ -448,7 +707,42 @@ const DashboardPage = () => {
               ))}
           </div>
 
-          <DeepScanExpandedProgress businessId={businessId as string} />
+          <DeepScanExpandedProgress businessId={businessId as string} live={liveUpdates} />
+
+          {(requestsQuery.data?.requests ?? []).length > 0 && (
+            <div className="mb-6 bg-coral-light/40 border border-coral/20 rounded-xl p-4">
+              <div className="flex items-center gap-2 mb-3">
+                <ClipboardList className="w-5 h-5 text-coral" />
+                <h3 className="font-display font-semibold text-foreground">בקשות מרואה החשבון</h3>
+              </div>
+              <div className="space-y-2">
+                {(requestsQuery.data?.requests ?? []).map((request) => (
+                  <div key={request.id} className="flex items-center justify-between gap-3 bg-card rounded-lg px-4 py-2 border border-border">
+                    <div className="min-w-0">
+                      <span className="font-medium text-foreground">{DOCUMENT_REQUEST_LABELS[request.kind]}</span>
+                      <span className="text-muted-foreground text-sm mr-2">
+                        · {request.document.vendor} · {formatDate(request.document.issuedAt)} · {formatOriginalAmount(request.document.amountCents, request.document.currency)}
+                      </span>
+                      {request.message && <p className="text-xs text-muted-foreground truncate">{request.message}</p>}
+                    </div>
+                    <div className="flex gap-1 shrink-0">
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setSelectedDocumentId(request.documentId)}>
+                        <Eye className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => resolveRequestMutation.mutate(request.id)}
+                        disabled={resolveRequestMutation.isPending}
+                      >
+                        <Check className="w-4 h-4" /> טופל
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
 
           {(alertsQuery.data?.alerts ?? []).length > 0 && (
             <div className="mb-6 bg-warning/5 border border-warning/20 rounded-xl p-4">
@@ -479,6 +773,67 @@ const DashboardPage = () => {
             </div>
           )}
 
+          {(duplicatesQuery.data?.groups ?? []).length > 0 && (
+            <div className="mb-6 bg-coral-light/40 border border-coral/20 rounded-xl p-4">
+              <div className="flex items-center gap-2 mb-1">
+                <Copy className="w-5 h-5 text-coral" />
+                <h3 className="font-display font-semibold text-foreground">כפילויות אפשריות</h3>
+              </div>
+              <p className="text-xs text-muted-foreground mb-3">
+                מסמכים שנראים כמו עותק של מסמך קיים. כפילות מאושרת לא נספרת בסיכומים, בדוחות ובשליחה לרואה החשבון.
+              </p>
+              <div className="space-y-3">
+                {(duplicatesQuery.data?.groups ?? []).map((group) => (
+                  <div key={group.original.id} className="bg-card rounded-lg border border-border divide-y divide-border">
+                    <div className="flex items-center justify-between gap-3 px-4 py-2">
+                      <div className="min-w-0">
+                        <span className="font-medium text-foreground">{group.original.vendor}</span>
+                        <span className="text-muted-foreground text-sm mr-2">
+                          · {formatDate(group.original.issuedAt)} · {formatOriginalAmount(group.original.amountCents, group.original.currency)}
+                        </span>
+                      </div>
+                      <Button variant="ghost" size="sm" onClick={() => setSelectedDocumentId(group.original.id)}>
+                        <Eye className="w-4 h-4" /> מקור
+                      </Button>
+                    </div>
+                    {group.duplicates.map((duplicate) => (
+                      <div key={duplicate.id} className="flex items-center justify-between gap-3 px-4 py-2 text-sm">
+                        <div className="min-w-0">
+                          <span>{duplicate.source === "whatsapp" ? sourceIcons.whatsapp : sourceIcons[duplicate.provider] ?? "📄"}</span>
+                          <span className="text-muted-foreground mr-2">
+                            {formatDate(duplicate.issuedAt)}
+                            {duplicate.duplicateReason && ` · ${duplicateReasonLabels[duplicate.duplicateReason]}`}
+                          </span>
+                        </div>
+                        <div className="flex gap-1 shrink-0">
+                          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setSelectedDocumentId(duplicate.id)}>
+                            <Eye className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => resolveDuplicateMutation.mutate({ documentId: duplicate.id, action: "confirm" })}
+                            disabled={resolveDuplicateMutation.isPending}
+                          >
+                            <Check className="w-4 h-4" /> כפילות
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => resolveDuplicateMutation.mutate({ documentId: duplicate.id, action: "dismiss" })}
+                            disabled={resolveDuplicateMutation.isPending}
+                          >
+                            <X className="w-4 h-4" /> לא כפילות
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div className="grid lg:grid-cols-3 gap-6">
             <div className="lg:col-span-2">
               <div className="bg-card rounded-xl shadow-card border border-border">
@@ -507,7 +862,12 @@ const DashboardPage = () => {
                           onChange={(event) => setSearchTerm(event.target.value)}
                         />
                       </div>
-                      <Button variant="outline" size="sm" disabled><Filter className="w-4 h-4" /></Button>
+                      <DocumentFilters
+                        value={filters}
+                        onChange={setFilters}
+                        categories={categoriesQuery.data?.categories}
+                        inboxes={settingsQuery.data?.inboxes}
+                      />
                     </div>
                   </div>
                 </div>
@@ -518,8 +878,14 @@ const DashboardPage = () => {
                   )}
                   {!documentsQuery.isLoading && filteredDocuments.length === 0 && (
                     <div className="p-8 text-center space-y-2">
-                      <p className="text-sm text-muted-foreground">לא נמצאו מסמכים לתצוגה.</p>
-                      <p className="text-xs text-muted-foreground">חבר/י תיבת דואר ולחץ/י "סנכרן עכשיו" כדי לייבא חשבוניות.</p>
+                      {isSearching ? (
+                        <p className="text-sm text-muted-foreground">לא נמצאו מסמכים התואמים לחיפוש.</p>
+                      ) : (
+                        <>
+                          <p className="text-sm text-muted-foreground">לא נמצאו מסמכים לתצוגה.</p>
+                          <p className="text-xs text-muted-foreground">חבר/י תיבת דואר ולחץ/י "סנכרן עכשיו" כדי לייבא חשבוניות.</p>
+                        </>
+                      )}
                     </div>
                   )}
                   {!documentsQuery.isLoading &&
@@ -531,16 +897,34 @@ const DashboardPage = () => {
                           <span className="text-lg">{sourceIcon}</span>
                           <div className="flex-1 min-w-0">
                             <p className="font-medium text-foreground truncate">{doc.vendor}</p>
-                            <p className="text-xs text-muted-foreground">{formatDate(doc.issuedAt)} · {doc.category}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {formatDate(doc.issuedAt)} · {doc.category}
+                              {doc.uploadedBy && ` · הועלה ע״י ${doc.uploadedBy}`}
+                              {doc.duplicateStatus === "suspected" && <span className="text-coral"> · כפילות אפשרית</span>}
+                              {doc.late && <span className="text-coral"> · הגיע אחרי סגירת החודש</span>}
+                            </p>
+                          </div>
+                          <div className="text-left">
+                            <span className="font-display font-semibold text-foreground">
+                              {doc.amountIlsCents != null ? formatAmount(doc.amountIlsCents) : formatOriginalAmount(doc.amountCents, doc.currency)}
+                            </span>
+                            {doc.currency !== "ILS" && doc.amountIlsCents != null && (
+                              <p className="text-xs text-muted-foreground">{formatOriginalAmount(doc.amountCents, doc.currency)}</p>
+                            )}
                           </div>
-                          <span className="font-display font-semibold text-foreground">{formatAmount(doc.amountCents)}</span>
                           <span className={`px-2 py-1 rounded-md text-xs font-medium ${status.className}`}>
                             {status.label}
                           </span>
+                          {doc.locked && (
+                            <span title="החודש נסגר על ידי רואה החשבון">
+                              <Lock className="w-4 h-4 text-muted-foreground" />
+                            </span>
+                          )}
                           <Button
                             variant="ghost"
                             size="icon"
                             className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                            disabled={doc.locked}
                             onClick={async (e) => {
                               e.stopPropagation();
                               if (confirm("התעלם ממסמך זה? הוא יסומן כ'לא רלוונטי' ולא יישלח לרואה החשבון.")) {
@@ -567,6 +951,18 @@ const DashboardPage = () => {
                         </div>
                       );
                     })}
+                  {documentsQuery.hasNextPage && (
+                    <div className="p-4 text-center">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => documentsQuery.fetchNextPage()}
+                        disabled={documentsQuery.isFetchingNextPage}
+                      >
+                        {documentsQuery.isFetchingNextPage ? "טוען..." : "טען עוד"}
+                      </Button>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -626,6 +1022,15 @@ const DashboardPage = () => {
         </div>
       </div>
 
+      <VatReportDialog
+        open={vatReportOpen}
+        onOpenChange={setVatReportOpen}
+        businessId={businessId as string}
+        scope="dashboard"
+        loadReport={(period) => getVatReport(businessId as string, period)}
+        downloadFile={(file, period) => downloadVatReportFile(businessId as string, file, period)}
+      />
+
       <Dialog
         open={Boolean(selectedDocumentId)}
         onOpenChange={(open) => {
@@ -636,11 +1041,11 @@ const DashboardPage = () => {
           }
         }}
       >
-        <DialogContent className="max-w-lg">
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <div className="flex items-center justify-between">
               <DialogTitle>פרטי מסמך</DialogTitle>
-              {detailQuery.data && !isEditing && (
+              {detailQuery.data && !isEditing && !detailQuery.data.locked && (
                 <Button
                   variant="ghost"
                   size="sm"
@@ -649,6 +1054,11 @@ const DashboardPage = () => {
                     setEditForm({
                       vendorName: detailQuery.data!.vendor,
                       amountCents: detailQuery.data!.amountCents,
+                      vatCents: detailQuery.data!.vatCents,
+                      supplierTaxId: detailQuery.data!.supplierTaxId,
+                      invoiceNumber: detailQuery.data!.invoiceNumber,
+                      allocationNumber: detailQuery.data!.allocationNumber,
+                      isFixedAsset: detailQuery.data!.isFixedAsset,
                       category: detailQuery.data!.category,
                       status: detailQuery.data!.status,
                       comments: detailQuery.data!.comments ?? "",
@@ -666,12 +1076,42 @@ const DashboardPage = () => {
           {detailQuery.isLoading && <p className="text-sm text-muted-foreground">טוען פרטים...</p>}
           {detailQuery.data && !isEditing && (
             <div className="space-y-2 text-sm">
+              {detailQuery.data.locked && (
+                <p className="flex items-center gap-1 text-muted-foreground">
+                  <Lock className="w-4 h-4" /> החודש נסגר על ידי רואה החשבון, ולכן אי אפשר לערוך את המסמך.
+                </p>
+              )}
+              {detailQuery.data.late && (
+                <p className="text-coral">המסמך הגיע אחרי שרואה החשבון סגר את החודש.</p>
+              )}
               <p><span className="font-medium">ספק:</span> {detailQuery.data.vendor}</p>
-              <p><span className="font-medium">סכום:</span> {formatAmount(detailQuery.data.amountCents)}</p>
-              <p><span className="font-medium">מע״מ:</span> {detailQuery.data.vatCents ? formatAmount(detailQuery.data.vatCents) : "לא זוהה"}</p>
+              <p><span className="font-medium">סכום:</span> {detailQuery.data.amountIlsCents != null
+                ? formatAmount(detailQuery.data.amountIlsCents)
+                : "ממתין לשער המרה"}</p>
+              {detailQuery.data.currency !== "ILS" && (
+                <p>
+                  <span className="font-medium">סכום מקור:</span> {formatOriginalAmount(detailQuery.data.amountCents, detailQuery.data.currency)}
+                  {detailQuery.data.exchangeRate != null && ` · שער יציג ${detailQuery.data.exchangeRate}`}
+                </p>
+              )}
+              <p><span className="font-medium">מע״מ:</span> {detailQuery.data.vatCents != null
+                ? `${formatAmount(detailQuery.data.vatCents)}${detailQuery.data.vatEstimated ? " (משוער)" : ""}`
+                : "לא זוהה"}</p>
+              <p><span className="font-medium">ע.מ / ח.פ ספק:</span> {detailQuery.data.supplierTaxId ?? "לא זוהה"}</p>
+              <p><span className="font-medium">מספר חשבונית:</span> {detailQuery.data.invoiceNumber ?? "לא זוהה"}</p>
+              <p>
+                <span className="font-medium">מספר הקצאה:</span> {detailQuery.data.allocationNumber ?? "—"}
+                {detailQuery.data.allocationNumberRequired && (
+                  <span className="text-coral"> · נדרש לקיזוז המע״מ בחשבונית בסכום זה</span>
+                )}
+              </p>
+              {detailQuery.data.isFixedAsset && <p><span className="font-medium">רכוש קבוע:</span> כן</p>}
               <p><span className="font-medium">תאריך:</span> {formatDate(detailQuery.data.issuedAt)}</p>
               <p><span className="font-medium">סטטוס:</span> {statusConfig[detailQuery.data.status]?.label ?? detailQuery.data.status}</p>
               <p><span className="font-medium">מקור:</span> {detailQuery.data.source}</p>
+              {detailQuery.data.uploadedBy && (
+                <p><span className="font-medium">הועלה על ידי:</span> {detailQuery.data.uploadedBy}</p>
+              )}
               <p><span className="font-medium">סוג:</span> {detailQuery.data.type}</p>
               <p><span className="font-medium">קטגוריה:</span> {detailQuery.data.category}</p>
               <p><span className="font-medium">ביטחון OCR:</span> {((detailQuery.data.confidence ?? 0) * 100).toFixed(1)}%</p>
@@ -684,6 +1124,44 @@ const DashboardPage = () => {
                   <p className="text-muted-foreground whitespace-pre-wrap max-h-32 overflow-y-auto text-xs">{detailQuery.data.rawText}</p>
                 </div>
               )}
+              {detailQuery.data.file && (
+                <div className="flex items-center gap-2 pt-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => fileMutation.mutate("inline")}
+                    disabled={fileMutation.isPending}
+                  >
+                    <Eye className="w-4 h-4" /> צפייה בקובץ המקורי
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => fileMutation.mutate("attachment")}
+                    disabled={fileMutation.isPending}
+                  >
+                    <Download className="w-4 h-4" /> הורדה
+                  </Button>
+                </div>
+              )}
+              <DocumentThread
+                businessId={businessId as string}
+                documentId={detailQuery.data.id}
+                scope="dashboard"
+                viewer="owner"
+                loadThread={() => getDocumentThread(businessId as string, detailQuery.data!.id)}
+                addComment={(body) => addDocumentComment(businessId as string, detailQuery.data!.id, body)}
+                requestActions={(request) => (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => resolveRequestMutation.mutate(request.id)}
+                    disabled={resolveRequestMutation.isPending}
+                  >
+                    <Check className="w-4 h-4" /> טופל
+                  </Button>
+                )}
+              />
             </div>
           )}
           {detailQuery.data && isEditing && (
@@ -696,7 +1174,7 @@ const DashboardPage = () => {
                 />
               </div>
               <div>
-                <label className="text-sm font-medium">סכום (₪)</label>
+                <label className="text-sm font-medium">סכום ({detailQuery.data?.currency === "ILS" ? "₪" : detailQuery.data?.currency})</label>
                 <Input
                   type="number"
                   step="0.01"
@@ -704,6 +1182,57 @@ const DashboardPage = () => {
                   onChange={(e) => setEditForm((f) => ({ ...f, amountCents: Math.round(parseFloat(e.target.value || "0") * 100) }))}
                 />
               </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="text-sm font-medium">מע״מ (₪)</label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    value={editForm.vatCents != null ? (editForm.vatCents / 100).toFixed(2) : ""}
+                    onChange={(e) => setEditForm((f) => ({
+                      ...f,
+                      vatCents: e.target.value === "" ? null : Math.round(parseFloat(e.target.value) * 100),
+                    }))}
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium">ע.מ / ח.פ ספק</label>
+                  <Input
+                    dir="ltr"
+                    inputMode="numeric"
+                    value={editForm.supplierTaxId ?? ""}
+                    onChange={(e) => setEditForm((f) => ({ ...f, supplierTaxId: e.target.value.trim() || null }))}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="text-sm font-medium">מספר חשבונית</label>
+                  <Input
+                    dir="ltr"
+                    value={editForm.invoiceNumber ?? ""}
+                    onChange={(e) => setEditForm((f) => ({ ...f, invoiceNumber: e.target.value.trim() || null }))}
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium">מספר הקצאה</label>
+                  <Input
+                    dir="ltr"
+                    inputMode="numeric"
+                    placeholder="9 ספרות"
+                    value={editForm.allocationNumber ?? ""}
+                    onChange={(e) => setEditForm((f) => ({ ...f, allocationNumber: e.target.value.trim() || null }))}
+                  />
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={editForm.isFixedAsset ?? false}
+                  onChange={(e) => setEditForm((f) => ({ ...f, isFixedAsset: e.target.checked }))}
+                />
+                רכוש קבוע (מדווח בנפרד בדוח המע״מ)
+              </label>
               <div>
                 <label className="text-sm font-medium">קטגוריה</label>
                 <select
@@ -760,7 +1289,11 @@ const DashboardPage = () => {
                 <Button
                   variant="coral"
                   size="sm"
-                  onClick={() => updateMutation.mutate(editForm)}
+                  onClick={() => {
+                    // Resending unchanged VAT would mark an estimate as confirmed
+                    const vatChanged = editForm.vatCents !== detailQuery.data?.vatCents;
+                    updateMutation.mutate(vatChanged ? editForm : { ...editForm, vatCents: undefined });
+                  }}
                   disabled={updateMutation.isPending}
                 >
                   <Save className="w-4 h-4" /> {updateMutation.isPending ? "שומר..." : "שמור"}
@@ -21,16 +21,18 @@ import {
   DashboardDocument,
   DeepScanStatus,
   InboxProvider,
+  InvitePrefill,
   OAuthProvider,
   createCheckoutSession,
   getBillingStatus,
   getDashboardDocuments,
   getDeepScanStatus,
+  getInvitePrefill,
   getOnboardingState,
   runInitialScan,
   startOnboarding,
 } from "@/lib/api";
-import { getActiveBusinessId, setActiveBusinessId } from "@/lib/session";
+import { getActiveBusinessId, setActiveBusinessId, setSessionToken } from "@/lib/session";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery } from "@tanstack/react-query";
 import { ScanProgressBars } from "@/components/DeepScanProgress";
@@ -52,8 +54,11 @@ const providers: Array<{
 const OnboardingPage = () => {
   const [step, setStep] = useState(0);
   const [businessId, setBusinessId] = useState<string | null>(null);
+  const [ownerEmail, setOwnerEmail] = useState("");
   const [accountantName, setAccountantName] = useState("");
   const [accountantEmail, setAccountantEmail] = useState("");
+  const [inviteToken, setInviteToken] = useState<string | null>(null);
+  const [invite, setInvite] = useState<InvitePrefill | null>(null);
   const [connectedInboxes, setConnectedInboxes] = useState<ConnectedInbox[]>([]);
   const [isStarting, setIsStarting] = useState(false);
   const [isConnectingProvider, setIsConnectingProvider] = useState<InboxProvider | null>(null);
@@ -115,7 +120,27 @@ const OnboardingPage = () => {
     const callbackBusinessId = params.get("businessId");
     const message = params.get("message");
     const paymentStatus = params.get("payment");
+    const invitation = params.get("invite");
     const savedBusinessId = getActiveBusinessId();
+
+    // Signup from an accountant's invitation: prefill them as the accountant
+    if (invitation && !savedBusinessId) {
+      getInvitePrefill(invitation)
+        .then((prefill) => {
+          setInviteToken(invitation);
+          setInvite(prefill);
+          setOwnerEmail(prefill.clientEmail);
+          setAccountantName(prefill.accountantName ?? "");
+          setAccountantEmail(prefill.accountantEmail);
+        })
+        .catch((error) => {
+          toast({
+            title: "ההזמנה לא בתוקף",
+            description: error instanceof Error ? error.message : "אפשר להירשם גם בלי הזמנה.",
+            variant: "destructive",
+          });
+        });
+    }
     const nextBusinessId = callbackBusinessId ?? savedBusinessId;
 
     if (nextBusinessId) {
@@ -173,9 +198,14 @@ const OnboardingPage = () => {
     setIsStarting(true);
     try {
       const response = await startOnboarding({
+        email: ownerEmail.trim(),
         accountantName: accountantName || undefined,
         accountantEmail: accountantEmail || undefined,
+        inviteToken: inviteToken ?? undefined,
       });
+      if (response.sessionToken) {
+        setSessionToken(response.sessionToken);
+      }
       setActiveBusinessId(response.business.id);
       hydrateState(response);
       setStep(1);
@@ -191,7 +221,7 @@ const OnboardingPage = () => {
             <Button
               variant="outline"
               size="sm"
-              onClick={() => navigate("/dashboard")}
+              onClick={() => navigate("/login")}
               className="mt-2 w-full"
             >
               התחבר במקום
@@ -328,6 +358,23 @@ const OnboardingPage = () => {
               <p className="text-muted-foreground mb-8">
                 נתאים את כל החוויה סביבו כדי שהמסמכים יגיעו בזמן.
               </p>
+              {invite && (
+                <div className="flex items-center gap-2 p-3 mb-4 rounded-xl border border-success bg-success/5 text-sm text-foreground">
+                  <Check className="w-4 h-4 text-success flex-shrink-0" />
+                  <span>
+                    הוזמנת על ידי {invite.accountantName || invite.accountantEmail}
+                    {invite.firmName ? ` (${invite.firmName})` : ""}. המסמכים שלך יגיעו ישירות אליו.
+                  </span>
+                </div>
+              )}
+              <Input
+                type="email"
+                placeholder="המייל שלך"
+                value={ownerEmail}
+                onChange={(e) => setOwnerEmail(e.target.value)}
+                className="h-14 text-lg rounded-xl mb-3 border-border focus:border-coral focus:ring-coral"
+                dir="ltr"
+              />
               <Input
                 placeholder="לדוגמה: סיגל, משה, דבורה..."
                 value={accountantName}
@@ -339,10 +386,11 @@ const OnboardingPage = () => {
                 placeholder="כתובת מייל של רואה החשבון"
                 value={accountantEmail}
                 onChange={(e) => setAccountantEmail(e.target.value)}
+                disabled={Boolean(invite)}
                 className="h-14 text-lg rounded-xl mb-4 border-border focus:border-coral focus:ring-coral"
                 dir="ltr"
               />
-              <Button variant="coral" className="w-full h-12" onClick={beginOnboarding} disabled={isStarting}>
+              <Button variant="coral" className="w-full h-12" onClick={beginOnboarding} disabled={isStarting || !ownerEmail.trim()}>
                 {isStarting
                   ? "מגדירים את החשבון..."
                   : accountantName
@@ -8,16 +8,23 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
 import {
+  addWhatsAppSender,
   connectInbox,
   connectWhatsAppIntegration,
   disconnectInbox,
   getOAuthStartUrl,
   getSettings,
+  getVatTreatments,
+  getWhatsAppSenders,
   getWhatsAppSession,
+  removeWhatsAppSender,
+  setVatTreatment,
   updateSettingsAccount,
   updateSettingsAccountant,
+  type VatReportingFrequency,
+  type VatTreatment,
 } from "@/lib/api";
-import { getActiveBusinessId } from "@/lib/session";
+import { getActiveBusinessId, isLoggedIn } from "@/lib/session";
 import { useToast } from "@/hooks/use-toast";
 
 type SettingsTab = "account" | "inboxes" | "accountant" | "notifications" | "integrations" | "billing";
@@ -39,6 +46,12 @@ const providerLabel: Record<string, string> = {
   icloud: "iCloud",
 };
 
+const vatTreatmentLabel: Record<VatTreatment, string> = {
+  standard: "רגיל",
+  exempt: "פטור ממע״מ",
+  foreign: "ספק מחו״ל",
+};
+
 const SettingsPage = () => {
   const businessId = getActiveBusinessId();
   const [activeTab, setActiveTab] = useState<SettingsTab>("account");
@@ -48,6 +61,8 @@ const SettingsPage = () => {
     phone: "",
     businessName: "",
     currency: "ILS",
+    taxId: "",
+    vatReportingFrequency: "bimonthly" as VatReportingFrequency,
   });
   const [accountantForm, setAccountantForm] = useState({
     name: "",
@@ -57,10 +72,23 @@ const SettingsPage = () => {
     monthlyDeliveryDay: 3,
     autoMonthlyDelivery: true,
   });
+  const [vatTreatmentForm, setVatTreatmentForm] = useState<{ vendorName: string; treatment: VatTreatment }>({
+    vendorName: "",
+    treatment: "exempt",
+  });
+  const [imapForm, setImapForm] = useState<{
+    open: boolean;
+    provider: "imap" | "yahoo" | "icloud";
+    email: string;
+    appPassword: string;
+    host: string;
+    port: string;
+  }>({ open: false, provider: "imap", email: "", appPassword: "", host: "", port: "993" });
   const [whatsAppPhone, setWhatsAppPhone] = useState("");
   const [whatsAppName, setWhatsAppName] = useState("");
   const [whatsAppQrDataUrl, setWhatsAppQrDataUrl] = useState<string | null>(null);
   const [whatsAppRuntimeStatus, setWhatsAppRuntimeStatus] = useState<string | null>(null);
+  const [senderForm, setSenderForm] = useState({ email: "", fullName: "", phoneE164: "" });
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
@@ -70,6 +98,18 @@ const SettingsPage = () => {
     enabled: Boolean(businessId),
   });
 
+  const vatTreatmentsQuery = useQuery({
+    queryKey: ["settings", businessId, "vat-treatments"],
+    queryFn: () => getVatTreatments(businessId as string),
+    enabled: Boolean(businessId),
+  });
+
+  const whatsAppSendersQuery = useQuery({
+    queryKey: ["settings", businessId, "whatsapp-senders"],
+    queryFn: () => getWhatsAppSenders(businessId as string),
+    enabled: Boolean(businessId),
+  });
+
   useEffect(() => {
     if (!settingsQuery.data) {
       return;
@@ -80,6 +120,8 @@ const SettingsPage = () => {
       phone: settingsQuery.data.owner?.phone ?? "",
       businessName: settingsQuery.data.business.name,
       currency: settingsQuery.data.business.currency,
+      taxId: settingsQuery.data.business.taxId ?? "",
+      vatReportingFrequency: settingsQuery.data.business.vatReportingFrequency,
     });
     setAccountantForm({
       name: settingsQuery.data.accountant.name ?? "",
@@ -133,6 +175,8 @@ const SettingsPage = () => {
         phone: accountForm.phone || null,
         businessName: accountForm.businessName,
         currency: accountForm.currency,
+        taxId: accountForm.taxId.trim() || null,
+        vatReportingFrequency: accountForm.vatReportingFrequency,
       }),
     onSuccess: () => {
       refreshAll();
@@ -170,6 +214,62 @@ const SettingsPage = () => {
     },
   });
 
+  const saveVatTreatmentMutation = useMutation({
+    mutationFn: ({ vendorName, treatment }: { vendorName: string; treatment: VatTreatment | null }) =>
+      setVatTreatment(businessId as string, vendorName, treatment),
+    onSuccess: (response) => {
+      refreshAll();
+      setVatTreatmentForm((prev) => ({ ...prev, vendorName: "" }));
+      toast({
+        title: "הגדרת המע״מ לספק נשמרה",
+        description: response.updatedDocuments > 0 ? `${response.updatedDocuments} מסמכים עודכנו` : undefined,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "שמירת הגדרת המע״מ נכשלה",
+        description: error instanceof Error ? error.message : "אירעה שגיאה בשמירה.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addWhatsAppSenderMutation = useMutation({
+    mutationFn: () =>
+      addWhatsAppSender(businessId as string, {
+        email: senderForm.email,
+        fullName: senderForm.fullName || null,
+        phoneE164: senderForm.phoneE164,
+      }),
+    onSuccess: () => {
+      refreshAll();
+      setSenderForm({ email: "", fullName: "", phoneE164: "" });
+      toast({ title: "המספר נוסף לרשימת השולחים" });
+    },
+    onError: (error) => {
+      toast({
+        title: "הוספת המספר נכשלה",
+        description: error instanceof Error ? error.message : "אירעה שגיאה בשמירה.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeWhatsAppSenderMutation = useMutation({
+    mutationFn: (memberId: string) => removeWhatsAppSender(businessId as string, memberId),
+    onSuccess: () => {
+      refreshAll();
+      toast({ title: "המספר הוסר מרשימת השולחים" });
+    },
+    onError: (error) => {
+      toast({
+        title: "הסרת המספר נכשלה",
+        description: error instanceof Error ? error.message : "אירעה שגיאה בהסרה.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const disconnectInboxMutation = useMutation({
     mutationFn: (inboxId: string) => disconnectInbox(businessId as string, inboxId),
     onSuccess: () => {
@@ -186,9 +286,18 @@ const SettingsPage = () => {
   });
 
   const connectImapMutation = useMutation({
-    mutationFn: () => connectInbox({ businessId: businessId as string, provider: "imap" }),
+    mutationFn: () =>
+      connectInbox({
+        businessId: businessId as string,
+        provider: imapForm.provider,
+        email: imapForm.email,
+        appPassword: imapForm.appPassword,
+        imapHost: imapForm.provider === "imap" ? imapForm.host : undefined,
+        imapPort: imapForm.provider === "imap" ? Number(imapForm.port) || 993 : undefined,
+      }),
     onSuccess: () => {
       refreshAll();
+      setImapForm((prev) => ({ ...prev, open: false, appPassword: "" }));
       toast({ title: "תיבת IMAP נוספה" });
     },
     onError: (error) => {
@@ -240,7 +349,7 @@ const SettingsPage = () => {
   };
 
   if (!businessId) {
-    return <Navigate to="/onboarding" replace />;
+    return <Navigate to={isLoggedIn() ? "/onboarding" : "/login"} replace />;
   }
 
   const data = settingsQuery.data;
@@ -295,16 +404,80 @@ const SettingsPage = () => {
                         <Field label="שם העסק">
                           <Input value={accountForm.businessName} onChange={(event) => setAccountForm((prev) => ({ ...prev, businessName: event.target.value }))} className="h-11" />
                         </Field>
+                        <Field label="מספר עוסק / ח.פ">
+                          <Input value={accountForm.taxId} onChange={(event) => setAccountForm((prev) => ({ ...prev, taxId: event.target.value }))} className="h-11" dir="ltr" inputMode="numeric" placeholder="9 ספרות" />
+                        </Field>
                       </div>
                       <div className="mt-4 flex items-center gap-3">
                         <Field label="מטבע">
                           <Input value={accountForm.currency} onChange={(event) => setAccountForm((prev) => ({ ...prev, currency: event.target.value }))} className="h-11 w-36" />
                         </Field>
+                        <Field label="דיווח מע״מ">
+                          <select
+                            className="flex h-11 w-40 rounded-md border border-input bg-background px-3 text-sm"
+                            value={accountForm.vatReportingFrequency}
+                            onChange={(event) => setAccountForm((prev) => ({ ...prev, vatReportingFrequency: event.target.value as VatReportingFrequency }))}
+                          >
+                            <option value="bimonthly">דו-חודשי</option>
+                            <option value="monthly">חודשי</option>
+                          </select>
+                        </Field>
                         <Button variant="coral" className="mt-6" onClick={() => saveAccountMutation.mutate()} disabled={saveAccountMutation.isPending}>
                           {saveAccountMutation.isPending ? "שומר..." : "שמור שינויים"}
                         </Button>
                       </div>
                     </SettingsCard>
+
+                    <SettingsCard title="מע״מ לפי ספק">
+                      <p className="text-sm text-muted-foreground mb-4">
+                        ספקים פטורים ממע״מ או מחו״ל לא ייספרו במע״מ התשומות. חשבוניות במטבע זר מסומנות כספק מחו״ל אוטומטית.
+                      </p>
+                      <div className="space-y-2 mb-4">
+                        {(vatTreatmentsQuery.data?.treatments ?? []).length === 0 && (
+                          <p className="text-sm text-muted-foreground">לא הוגדרו ספקים.</p>
+                        )}
+                        {(vatTreatmentsQuery.data?.treatments ?? []).map((entry) => (
+                          <div key={entry.vendorName} className="flex items-center justify-between rounded-xl border border-border px-4 py-2 text-sm">
+                            <span className="font-medium">{entry.vendorName}</span>
+                            <div className="flex items-center gap-2">
+                              <span className="text-muted-foreground">{vatTreatmentLabel[entry.treatment]}</span>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => saveVatTreatmentMutation.mutate({ vendorName: entry.vendorName, treatment: null })}
+                                disabled={saveVatTreatmentMutation.isPending}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                      <div className="flex items-end gap-3">
+                        <Field label="שם הספק">
+                          <Input value={vatTreatmentForm.vendorName} onChange={(event) => setVatTreatmentForm((prev) => ({ ...prev, vendorName: event.target.value }))} className="h-11" />
+                        </Field>
+                        <Field label="סוג">
+                          <select
+                            className="flex h-11 w-40 rounded-md border border-input bg-background px-3 text-sm"
+                            value={vatTreatmentForm.treatment}
+                            onChange={(event) => setVatTreatmentForm((prev) => ({ ...prev, treatment: event.target.value as VatTreatment }))}
+                          >
+                            {(Object.keys(vatTreatmentLabel) as VatTreatment[]).map((treatment) => (
+                              <option key={treatment} value={treatment}>{vatTreatmentLabel[treatment]}</option>
+                            ))}
+                          </select>
+                        </Field>
+                        <Button
+                          variant="outline"
+                          className="h-11"
+                          onClick={() => saveVatTreatmentMutation.mutate(vatTreatmentForm)}
+                          disabled={!vatTreatmentForm.vendorName.trim() || saveVatTreatmentMutation.isPending}
+                        >
+                          <Plus className="w-4 h-4" /> הוסף
+                        </Button>
+                      </div>
+                    </SettingsCard>
                   </div>
                 )}
 
@@ -316,10 +489,54 @@ const SettingsPage = () => {
                         <div className="flex gap-2">
                           <Button variant="outline" size="sm" onClick={() => startOAuth("gmail")}>Gmail OAuth</Button>
                           <Button variant="outline" size="sm" onClick={() => startOAuth("outlook")}>Outlook OAuth</Button>
-                          <Button variant="coral" size="sm" onClick={() => connectImapMutation.mutate()}><Plus className="w-4 h-4" /> הוסף IMAP</Button>
+                          <Button variant="coral" size="sm" onClick={() => setImapForm((prev) => ({ ...prev, open: !prev.open }))}><Plus className="w-4 h-4" /> הוסף IMAP</Button>
                         </div>
                       }
                     >
+                      {imapForm.open && (
+                        <div className="mb-4 p-4 rounded-xl border border-border space-y-4">
+                          <div className="flex gap-2">
+                            {(["imap", "yahoo", "icloud"] as const).map((provider) => (
+                              <Button
+                                key={provider}
+                                variant={imapForm.provider === provider ? "coral" : "outline"}
+                                size="sm"
+                                onClick={() => setImapForm((prev) => ({ ...prev, provider }))}
+                              >
+                                {providerLabel[provider]}
+                              </Button>
+                            ))}
+                          </div>
+                          <div className="grid sm:grid-cols-2 gap-4">
+                            <Field label="אימייל">
+                              <Input type="email" dir="ltr" value={imapForm.email} onChange={(event) => setImapForm((prev) => ({ ...prev, email: event.target.value }))} className="h-11" />
+                            </Field>
+                            <Field label="סיסמת אפליקציה">
+                              <Input type="password" dir="ltr" value={imapForm.appPassword} onChange={(event) => setImapForm((prev) => ({ ...prev, appPassword: event.target.value }))} className="h-11" />
+                            </Field>
+                            {imapForm.provider === "imap" && (
+                              <>
+                                <Field label="שרת IMAP">
+                                  <Input dir="ltr" placeholder="imap.company.co.il" value={imapForm.host} onChange={(event) => setImapForm((prev) => ({ ...prev, host: event.target.value }))} className="h-11" />
+                                </Field>
+                                <Field label="פורט">
+                                  <Input type="number" dir="ltr" value={imapForm.port} onChange={(event) => setImapForm((prev) => ({ ...prev, port: event.target.value }))} className="h-11 w-28" />
+                                </Field>
+                              </>
+                            )}
+                          </div>
+                          <p className="text-xs text-muted-foreground">
+                            הסיסמה נשמרת מוצפנת ומשמשת רק לקריאת חשבוניות מתיבת הדואר הנכנס.
+                          </p>
+                          <Button
+                            variant="coral"
+                            onClick={() => connectImapMutation.mutate()}
+                            disabled={connectImapMutation.isPending || !imapForm.email || !imapForm.appPassword || (imapForm.provider === "imap" && !imapForm.host)}
+                          >
+                            {connectImapMutation.isPending ? "מתחבר..." : "חבר תיבה"}
+                          </Button>
+                        </div>
+                      )}
                       <div className="space-y-3">
                         {data.inboxes.map((inbox) => (
                           <div key={inbox.id} className="flex items-center gap-4 p-4 bg-secondary/50 rounded-xl">
@@ -423,6 +640,55 @@ const SettingsPage = () => {
                         </span>
                       </div>
                     </SettingsCard>
+
+                    <SettingsCard title="מי יכול לשלוח ב-WhatsApp">
+                      <p className="text-sm text-muted-foreground mb-4">
+                        רק מספרים ברשימה יכולים לשלוח מסמכים ולשאול שאלות. הודעות ממספרים אחרים נדחות.
+                      </p>
+                      <div className="space-y-2 mb-4">
+                        {(whatsAppSendersQuery.data?.senders ?? []).filter((sender) => sender.phoneE164).length === 0 && (
+                          <p className="text-sm text-muted-foreground">לא הוגדרו מספרים.</p>
+                        )}
+                        {(whatsAppSendersQuery.data?.senders ?? []).filter((sender) => sender.phoneE164).map((sender) => (
+                          <div key={sender.memberId} className="flex items-center justify-between rounded-xl border border-border px-4 py-2 text-sm">
+                            <div>
+                              <span className="font-medium">{sender.fullName || sender.email}</span>
+                              {sender.role === "owner" && <span className="text-xs text-muted-foreground"> · בעלים</span>}
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <span className="text-muted-foreground" dir="ltr">{sender.phoneE164}</span>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => removeWhatsAppSenderMutation.mutate(sender.memberId)}
+                                disabled={removeWhatsAppSenderMutation.isPending}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                      <div className="grid sm:grid-cols-3 gap-3 items-end">
+                        <Field label="אימייל">
+                          <Input value={senderForm.email} onChange={(event) => setSenderForm((prev) => ({ ...prev, email: event.target.value }))} className="h-11" dir="ltr" />
+                        </Field>
+                        <Field label="שם">
+                          <Input value={senderForm.fullName} onChange={(event) => setSenderForm((prev) => ({ ...prev, fullName: event.target.value }))} className="h-11" />
+                        </Field>
+                        <Field label="מספר WhatsApp">
+                          <Input value={senderForm.phoneE164} onChange={(event) => setSenderForm((prev) => ({ ...prev, phoneE164: event.target.value }))} placeholder="+972501234567" className="h-11" dir="ltr" />
+                        </Field>
+                      </div>
+                      <Button
+                        variant="outline"
+                        className="h-11 mt-3"
+                        onClick={() => addWhatsAppSenderMutation.mutate()}
+                        disabled={!senderForm.email.trim() || !senderForm.phoneE164.trim() || addWhatsAppSenderMutation.isPending}
+                      >
+                        <Plus className="w-4 h-4" /> הוסף מספר
+                      </Button>
+                    </SettingsCard>
                   </div>
                 )}
 
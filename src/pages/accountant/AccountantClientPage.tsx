@@ -1,6 +1,6 @@
 import { useMemo, useState } from "react";
 import { useParams, useNavigate, Link } from "react-router-dom";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useInfiniteQuery, useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import {
   ArrowRight,
   Download,
@@ -8,19 +8,60 @@ import {
   Check,
   Clock,
   AlertTriangle,
+  Percent,
+  Lock,
+  MessageSquare,
   Search,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  addClientDocumentComment,
+  closeClientMonth,
+  closeClientRequest,
+  getClientDocumentThread,
+  getClientRequests,
+  requestFromClient,
+  getClientPeriods,
   getClientSummary,
   getClientDocuments,
+  reopenClientMonth,
   downloadClientMonthlyPdf,
   downloadClientExport,
+  downloadClientDocumentFile,
+  downloadClientVatReportFile,
+  getClientVatReport,
 } from "@/lib/accountant-api";
+import VatReportDialog from "@/components/VatReportDialog";
+import DocumentFilters, { type DocumentFilterValues } from "@/components/DocumentFilters";
+import DocumentThread from "@/components/DocumentThread";
 import { isAccountantLoggedIn } from "@/lib/accountant-session";
 import { useToast } from "@/hooks/use-toast";
-import type { DocumentFilter } from "@/lib/api";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import {
+  DOCUMENT_REQUEST_LABELS,
+  EXPORT_FORMAT_OPTIONS,
+  countActiveFilters,
+  toDocumentFileBlob,
+  type DashboardDocument,
+  type DocumentRequestKind,
+  type DocumentFilter,
+  type DocumentSearchParams,
+  type ExportFormat,
+} from "@/lib/api";
 
 const statusConfig: Record<string, { label: string; className: string }> = {
   sent: { label: "נשלח", className: "bg-success/10 text-success" },
@@ -33,32 +74,313 @@ function formatAmount(cents: number): string {
   return `₪${(cents / 100).toLocaleString("he-IL", { maximumFractionDigits: 0 })}`;
 }
 
+function formatOriginalAmount(cents: number, currency: string): string {
+  return `${(cents / 100).toLocaleString("he-IL", { maximumFractionDigits: 2 })} ${currency}`;
+}
+
 function formatDate(dateIso: string): string {
   return new Intl.DateTimeFormat("he-IL", { day: "numeric", month: "short", year: "numeric" }).format(new Date(dateIso));
 }
 
+function formatMonth(monthKey: string): string {
+  return new Intl.DateTimeFormat("he-IL", { month: "long", year: "numeric", timeZone: "UTC" })
+    .format(new Date(`${monthKey}-01T00:00:00Z`));
+}
+
+function previousMonthKey(): string {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1)).toISOString().slice(0, 7);
+}
+
+/**
+ * Close a client's months and reopen them with a reason. Closed months
+ * are read-only for the owner; documents that arrive for them later are
+ * counted as late, and `onShowLate` filters the list down to those.
+ */
+const PeriodsDialog = ({
+  open,
+  onOpenChange,
+  businessId,
+  onShowLate,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  businessId: string;
+  onShowLate: () => void;
+}) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [month, setMonth] = useState(previousMonthKey);
+  const [reopening, setReopening] = useState<string | null>(null);
+  const [reason, setReason] = useState("");
+
+  const periodsQuery = useQuery({
+    queryKey: ["accountant", "client-periods", businessId],
+    queryFn: () => getClientPeriods(businessId),
+    enabled: open,
+  });
+
+  const onError = (error: unknown) => {
+    toast({ title: "הפעולה נכשלה", description: error instanceof Error ? error.message : "", variant: "destructive" });
+  };
+
+  const refresh = () => {
+    void queryClient.invalidateQueries({ queryKey: ["accountant", "client-periods", businessId] });
+    void queryClient.invalidateQueries({ queryKey: ["accountant", "client-documents", businessId] });
+  };
+
+  const closeMutation = useMutation({
+    mutationFn: (monthKey: string) => closeClientMonth(businessId, monthKey),
+    onSuccess: (_, monthKey) => {
+      toast({ title: "החודש נסגר", description: formatMonth(monthKey) });
+      refresh();
+    },
+    onError,
+  });
+
+  const reopenMutation = useMutation({
+    mutationFn: (monthKey: string) => reopenClientMonth(businessId, monthKey, reason.trim()),
+    onSuccess: () => {
+      setReopening(null);
+      setReason("");
+      refresh();
+    },
+    onError,
+  });
+
+  const closedMonths = periodsQuery.data?.closedMonths ?? [];
+  const reopened = (periodsQuery.data?.history ?? []).filter((entry) => entry.reopenedAt);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg" dir="rtl">
+        <DialogHeader>
+          <DialogTitle>סגירת חודשים</DialogTitle>
+          <DialogDescription>
+            מסמכים של חודש סגור נעולים לעריכה אצל הלקוח. מסמכים שמגיעים אחרי הסגירה מסומנים כמאוחרים.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Input type="month" className="flex-1" value={month} onChange={(e) => setMonth(e.target.value)} />
+          <Button
+            variant="coral"
+            onClick={() => closeMutation.mutate(month)}
+            disabled={!/^\d{4}-\d{2}$/.test(month) || closeMutation.isPending}
+          >
+            <Lock className="w-4 h-4" /> סגור חודש
+          </Button>
+        </div>
+
+        <div className="divide-y divide-border max-h-72 overflow-y-auto border-t border-border">
+          {periodsQuery.isLoading && <p className="py-4 text-sm text-muted-foreground text-center">טוען...</p>}
+          {!periodsQuery.isLoading && closedMonths.length === 0 && (
+            <p className="py-4 text-sm text-muted-foreground text-center">אין חודשים סגורים.</p>
+          )}
+          {closedMonths.map((closed) => (
+            <div key={closed.monthKey} className="py-3 space-y-2">
+              <div className="flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-foreground">
+                    {formatMonth(closed.monthKey)}
+                    {closed.lateCount > 0 && (
+                      <span className="text-xs text-coral"> · {closed.lateCount} מסמכים מאוחרים</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    נסגר {formatDate(closed.closedAt)} על ידי {closed.closedByEmail}
+                  </p>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  {closed.lateCount > 0 && (
+                    <Button variant="ghost" size="sm" onClick={onShowLate}>הצג מאוחרים</Button>
+                  )}
+                  <Button variant="ghost" size="sm" onClick={() => { setReopening(closed.monthKey); setReason(""); }}>
+                    פתח מחדש
+                  </Button>
+                </div>
+              </div>
+              {reopening === closed.monthKey && (
+                <div className="flex gap-2">
+                  <Input placeholder="סיבת הפתיחה" value={reason} onChange={(e) => setReason(e.target.value)} />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => reopenMutation.mutate(closed.monthKey)}
+                    disabled={reason.trim().length < 3 || reopenMutation.isPending}
+                  >
+                    אישור
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {reopened.length > 0 && (
+          <div className="space-y-1 border-t border-border pt-3">
+            <p className="text-sm font-medium">נפתחו מחדש</p>
+            {reopened.map((entry) => (
+              <p key={entry.id} className="text-xs text-muted-foreground">
+                {formatMonth(entry.monthKey)} · {formatDate(entry.reopenedAt!)} · {entry.reopenedByEmail}: {entry.reopenReason}
+              </p>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const selectClassName = "flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm";
+
+/**
+ * A document's thread in the portal: comment, or ask the owner for the
+ * original, a tax invoice or an explanation. The owner gets an email and a
+ * WhatsApp message; their replies and resolutions show up here.
+ */
+const ThreadDialog = ({
+  businessId,
+  document: doc,
+  onOpenChange,
+}: {
+  businessId: string;
+  document: DashboardDocument | null;
+  onOpenChange: (open: boolean) => void;
+}) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [kind, setKind] = useState<DocumentRequestKind>("original");
+  const [message, setMessage] = useState("");
+
+  const refresh = () => {
+    void queryClient.invalidateQueries({ queryKey: ["accountant", "document-thread", businessId] });
+    void queryClient.invalidateQueries({ queryKey: ["accountant", "client-requests", businessId] });
+  };
+
+  const onError = (error: unknown) => {
+    toast({ title: "הפעולה נכשלה", description: error instanceof Error ? error.message : "", variant: "destructive" });
+  };
+
+  const requestMutation = useMutation({
+    mutationFn: () => requestFromClient(businessId, doc!.id, { kind, message: message.trim() || undefined }),
+    onSuccess: () => {
+      toast({ title: "הבקשה נשלחה ללקוח" });
+      setMessage("");
+      refresh();
+    },
+    onError,
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: ({ requestId, status }: { requestId: string; status: "resolved" | "cancelled" }) =>
+      closeClientRequest(businessId, requestId, status),
+    onSuccess: refresh,
+    onError,
+  });
+
+  return (
+    <Dialog open={Boolean(doc)} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto" dir="rtl">
+        <DialogHeader>
+          <DialogTitle>{doc?.vendor}</DialogTitle>
+          <DialogDescription>
+            {doc && `${formatDate(doc.issuedAt)} · ${doc.category}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">בקשה מהלקוח</label>
+          <div className="flex gap-2">
+            <select
+              className={selectClassName}
+              value={kind}
+              onChange={(e) => setKind(e.target.value as DocumentRequestKind)}
+            >
+              {Object.entries(DOCUMENT_REQUEST_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <Button
+              variant="coral"
+              onClick={() => requestMutation.mutate()}
+              disabled={!doc || requestMutation.isPending}
+            >
+              בקש
+            </Button>
+          </div>
+          <Input placeholder="הערה ללקוח (לא חובה)" value={message} onChange={(e) => setMessage(e.target.value)} />
+        </div>
+
+        {doc && (
+          <DocumentThread
+            businessId={businessId}
+            documentId={doc.id}
+            scope="accountant"
+            viewer="accountant"
+            loadThread={() => getClientDocumentThread(businessId, doc.id)}
+            addComment={(body) => addClientDocumentComment(businessId, doc.id, body)}
+            requestActions={(request) => (
+              <>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => closeMutation.mutate({ requestId: request.id, status: "resolved" })}
+                  disabled={closeMutation.isPending}
+                >
+                  <Check className="w-4 h-4" /> טופל
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => closeMutation.mutate({ requestId: request.id, status: "cancelled" })}
+                  disabled={closeMutation.isPending}
+                >
+                  בטל
+                </Button>
+              </>
+            )}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
 const AccountantClientPage = () => {
   const { businessId } = useParams<{ businessId: string }>();
   const navigate = useNavigate();
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState<DocumentFilter>("all");
   const [searchTerm, setSearchTerm] = useState("");
-
-  if (!isAccountantLoggedIn()) {
-    navigate("/accountant", { replace: true });
-    return null;
-  }
+  const [filters, setFilters] = useState<DocumentFilterValues>({ sort: "date_desc" });
+  const debouncedSearch = useDebouncedValue(searchTerm.trim());
+  const documentSearch: DocumentSearchParams = { ...filters, q: debouncedSearch || undefined };
+  const [vatReportOpen, setVatReportOpen] = useState(false);
+  const [periodsOpen, setPeriodsOpen] = useState(false);
+  const [threadDocument, setThreadDocument] = useState<DashboardDocument | null>(null);
+  const loggedIn = isAccountantLoggedIn();
 
   const summaryQuery = useQuery({
     queryKey: ["accountant", "client-summary", businessId],
     queryFn: () => getClientSummary(businessId!),
-    enabled: Boolean(businessId),
+    enabled: loggedIn && Boolean(businessId),
+  });
+
+  const documentsQuery = useInfiniteQuery({
+    queryKey: ["accountant", "client-documents", businessId, activeTab, documentSearch],
+    queryFn: ({ pageParam }) => getClientDocuments(businessId!, activeTab, documentSearch, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: loggedIn && Boolean(businessId),
   });
 
-  const documentsQuery = useQuery({
-    queryKey: ["accountant", "client-documents", businessId, activeTab],
-    queryFn: () => getClientDocuments(businessId!, activeTab),
-    enabled: Boolean(businessId),
+  // Polled so the owner's resolutions show up without a reload
+  const requestsQuery = useQuery({
+    queryKey: ["accountant", "client-requests", businessId],
+    queryFn: () => getClientRequests(businessId!),
+    enabled: loggedIn && Boolean(businessId),
+    refetchInterval: 60_000,
   });
 
   const pdfMutation = useMutation({
@@ -80,12 +402,13 @@ const AccountantClientPage = () => {
   });
 
   const exportMutation = useMutation({
-    mutationFn: () => downloadClientExport(businessId!, activeTab),
-    onSuccess: (blob) => {
+    mutationFn: (format: ExportFormat) => downloadClientExport(businessId!, activeTab, format),
+    onSuccess: (blob, format) => {
+      const extension = EXPORT_FORMAT_OPTIONS.find((option) => option.value === format)?.extension ?? "csv";
       const url = window.URL.createObjectURL(blob);
       const link = document.createElement("a");
       link.href = url;
-      link.download = `sendtoamram-${businessId}-${activeTab}.csv`;
+      link.download = `sendtoamram-${businessId}-${format}-${activeTab}.${extension}`;
       document.body.appendChild(link);
       link.click();
       link.remove();
@@ -96,12 +419,35 @@ const AccountantClientPage = () => {
     },
   });
 
-  const filteredDocuments = useMemo(() => {
-    const docs = documentsQuery.data?.documents ?? [];
-    const term = searchTerm.trim().toLowerCase();
-    if (!term) return docs;
-    return docs.filter((doc) => doc.vendor.toLowerCase().includes(term) || doc.category.toLowerCase().includes(term));
-  }, [documentsQuery.data?.documents, searchTerm]);
+  const fileMutation = useMutation({
+    mutationFn: (documentId: string) => downloadClientDocumentFile(businessId!, documentId),
+    onSuccess: (downloaded) => {
+      const url = window.URL.createObjectURL(toDocumentFileBlob(downloaded));
+      window.open(url, "_blank", "noopener");
+      window.setTimeout(() => window.URL.revokeObjectURL(url), 60_000);
+    },
+    onError: (error) => {
+      toast({ title: "פתיחת הקובץ נכשלה", description: error instanceof Error ? error.message : "", variant: "destructive" });
+    },
+  });
+
+  const documents = useMemo(
+    () => documentsQuery.data?.pages.flatMap((page) => page.documents) ?? [],
+    [documentsQuery.data?.pages],
+  );
+  const isSearching = countActiveFilters(documentSearch) > 0;
+  const openRequests = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const request of requestsQuery.data?.requests ?? []) {
+      if (request.status === "open") counts.set(request.documentId, (counts.get(request.documentId) ?? 0) + 1);
+    }
+    return counts;
+  }, [requestsQuery.data]);
+
+  if (!loggedIn) {
+    navigate("/accountant", { replace: true });
+    return null;
+  }
 
   const summary = summaryQuery.data;
 
@@ -126,9 +472,26 @@ const AccountantClientPage = () => {
             <Button variant="outline" size="sm" onClick={() => pdfMutation.mutate()} disabled={pdfMutation.isPending}>
               <FileText className="w-4 h-4" /> PDF
             </Button>
-            <Button variant="outline" size="sm" onClick={() => exportMutation.mutate()} disabled={exportMutation.isPending}>
-              <Download className="w-4 h-4" /> CSV
+            <Button variant="outline" size="sm" onClick={() => setVatReportOpen(true)}>
+              <Percent className="w-4 h-4" /> מע״מ
             </Button>
+            <Button variant="outline" size="sm" onClick={() => setPeriodsOpen(true)}>
+              <Lock className="w-4 h-4" /> סגירת חודשים
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" disabled={exportMutation.isPending}>
+                  <Download className="w-4 h-4" /> ייצוא
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {EXPORT_FORMAT_OPTIONS.map((option) => (
+                  <DropdownMenuItem key={option.value} onSelect={() => exportMutation.mutate(option.value)}>
+                    {option.label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
         </div>
       </header>
@@ -170,14 +533,17 @@ const AccountantClientPage = () => {
                 </button>
               ))}
             </div>
-            <div className="relative flex-1 sm:w-48 sm:max-w-xs">
-              <Search className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-              <Input
-                placeholder="חפש..."
-                className="pr-9 h-9"
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-              />
+            <div className="flex gap-2">
+              <div className="relative flex-1 sm:w-48 sm:max-w-xs">
+                <Search className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  placeholder="חפש..."
+                  className="pr-9 h-9"
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                />
+              </div>
+              <DocumentFilters value={filters} onChange={setFilters} />
             </div>
           </div>
 
@@ -185,27 +551,97 @@ const AccountantClientPage = () => {
             {documentsQuery.isLoading && (
               <div className="p-8 text-sm text-muted-foreground text-center">טוען מסמכים...</div>
             )}
-            {!documentsQuery.isLoading && filteredDocuments.length === 0 && (
-              <div className="p-8 text-center text-sm text-muted-foreground">אין מסמכים להצגה.</div>
+            {!documentsQuery.isLoading && documents.length === 0 && (
+              <div className="p-8 text-center text-sm text-muted-foreground">
+                {isSearching ? "לא נמצאו מסמכים התואמים לחיפוש." : "אין מסמכים להצגה."}
+              </div>
             )}
-            {filteredDocuments.map((doc) => {
+            {documents.map((doc) => {
               const status = statusConfig[doc.status] ?? statusConfig.pending;
               return (
                 <div key={doc.id} className="flex items-center gap-4 p-4">
                   <div className="flex-1 min-w-0">
                     <p className="font-medium text-foreground truncate">{doc.vendor}</p>
-                    <p className="text-xs text-muted-foreground">{formatDate(doc.issuedAt)} · {doc.category}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDate(doc.issuedAt)} · {doc.category}
+                      {doc.late && <span className="text-coral"> · הגיע אחרי סגירת החודש</span>}
+                      {openRequests.has(doc.id) && <span className="text-warning"> · ממתין לתשובת הלקוח</span>}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="icon" title="הודעות ובקשות" onClick={() => setThreadDocument(doc)}>
+                    <MessageSquare className="w-4 h-4" />
+                  </Button>
+                  {doc.hasFile && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="צפייה בקובץ המקורי"
+                      onClick={() => fileMutation.mutate(doc.id)}
+                      disabled={fileMutation.isPending}
+                    >
+                      <FileText className="w-4 h-4" />
+                    </Button>
+                  )}
+                  <div className="text-left">
+                    <span className="font-display font-semibold text-foreground">
+                      {doc.amountIlsCents != null ? formatAmount(doc.amountIlsCents) : formatOriginalAmount(doc.amountCents, doc.currency)}
+                    </span>
+                    {doc.currency !== "ILS" && doc.amountIlsCents != null && (
+                      <p className="text-xs text-muted-foreground">{formatOriginalAmount(doc.amountCents, doc.currency)}</p>
+                    )}
                   </div>
-                  <span className="font-display font-semibold text-foreground">{formatAmount(doc.amountCents)}</span>
                   <span className={`px-2 py-1 rounded-md text-xs font-medium ${status.className}`}>
                     {status.label}
                   </span>
+                  {doc.locked && (
+                    <span title="החודש סגור">
+                      <Lock className="w-4 h-4 text-muted-foreground" />
+                    </span>
+                  )}
                 </div>
               );
             })}
+            {documentsQuery.hasNextPage && (
+              <div className="p-4 text-center">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => documentsQuery.fetchNextPage()}
+                  disabled={documentsQuery.isFetchingNextPage}
+                >
+                  {documentsQuery.isFetchingNextPage ? "טוען..." : "טען עוד"}
+                </Button>
+              </div>
+            )}
           </div>
         </div>
       </div>
+
+      <VatReportDialog
+        open={vatReportOpen}
+        onOpenChange={setVatReportOpen}
+        businessId={businessId!}
+        scope="accountant"
+        loadReport={(period) => getClientVatReport(businessId!, period)}
+        downloadFile={(file, period) => downloadClientVatReportFile(businessId!, file, period)}
+      />
+
+      <ThreadDialog
+        businessId={businessId!}
+        document={threadDocument}
+        onOpenChange={(open) => !open && setThreadDocument(null)}
+      />
+
+      <PeriodsDialog
+        open={periodsOpen}
+        onOpenChange={setPeriodsOpen}
+        businessId={businessId!}
+        onShowLate={() => {
+          setFilters({ sort: filters.sort, late: true });
+          setActiveTab("all");
+          setPeriodsOpen(false);
+        }}
+      />
     </div>
   );
 };
@@ -1,10 +1,42 @@
 import { useState } from "react";
 import { useNavigate, Link } from "react-router-dom";
-import { useQuery } from "@tanstack/react-query";
-import { Users, LogOut, FileText, ChevronLeft } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Users, LogOut, FileText, ChevronLeft, MonitorSmartphone, Building2, Trash2, UserPlus } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { getAccountantClients, type AccountantClient } from "@/lib/accountant-api";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  acceptFirmStaffInvitation,
+  createAccountantFirm,
+  declineFirmStaffInvitation,
+  getAccountantClients,
+  getAccountantFirm,
+  getAccountantSessions,
+  getClientInvitations,
+  inviteClient,
+  inviteFirmStaff,
+  logoutAccountant,
+  logoutAccountantEverywhere,
+  reassignClient,
+  removeFirmStaff,
+  resendClientInvitation,
+  revokeAccountantSession,
+  revokeClientInvitation,
+  revokeFirmStaffInvitation,
+  updateFirmStaffRole,
+  type ClientInvitation,
+  type StaffMember,
+  type StaffRole,
+} from "@/lib/accountant-api";
 import { clearAccountantSession, getAccountantEmail, isAccountantLoggedIn } from "@/lib/accountant-session";
+import { useToast } from "@/hooks/use-toast";
 
 const healthColors: Record<string, { bg: string; text: string; label: string }> = {
   green: { bg: "bg-success/10", text: "text-success", label: "תקין" },
@@ -12,21 +44,573 @@ const healthColors: Record<string, { bg: string; text: string; label: string }>
   red: { bg: "bg-coral-light", text: "text-coral", label: "דורש טיפול" },
 };
 
+const roleLabels: Record<StaffRole, string> = {
+  admin: "מנהל",
+  bookkeeper: "מנהל חשבונות",
+  read_only: "צפייה בלבד",
+};
+
+const selectClassName = "flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm";
+
+function staffName(member: StaffMember): string {
+  return member.fullName || member.email;
+}
+
+/** "Chrome · Windows" from a user agent; good enough to tell devices apart. */
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return "מכשיר לא ידוע";
+  const browser = /Edg\//.test(userAgent) ? "Edge"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Chrome\//.test(userAgent) ? "Chrome"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : "דפדפן";
+  const os = /iPhone|iPad/.test(userAgent) ? "iOS"
+    : /Android/.test(userAgent) ? "Android"
+    : /Windows/.test(userAgent) ? "Windows"
+    : /Mac OS X/.test(userAgent) ? "macOS"
+    : /Linux/.test(userAgent) ? "Linux"
+    : null;
+  return os ? `${browser} · ${os}` : browser;
+}
+
+const invitationLabels: Record<ClientInvitation["status"], { text: string; label: string }> = {
+  pending: { text: "text-warning", label: "ממתינה" },
+  accepted: { text: "text-success", label: "נרשם" },
+  revoked: { text: "text-muted-foreground", label: "בוטלה" },
+  expired: { text: "text-muted-foreground", label: "פג תוקף" },
+};
+
+function formatDateTime(dateIso: string): string {
+  return new Intl.DateTimeFormat("he-IL", { dateStyle: "short", timeStyle: "short" }).format(new Date(dateIso));
+}
+
+const SessionsDialog = ({
+  open,
+  onOpenChange,
+  onLoggedOut,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onLoggedOut: () => void;
+}) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const sessionsQuery = useQuery({
+    queryKey: ["accountant", "sessions"],
+    queryFn: getAccountantSessions,
+    enabled: open,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: revokeAccountantSession,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["accountant", "sessions"] }),
+    onError: (error) => {
+      toast({ title: "הניתוק נכשל", description: error instanceof Error ? error.message : "", variant: "destructive" });
+    },
+  });
+
+  const logoutAllMutation = useMutation({
+    mutationFn: logoutAccountantEverywhere,
+    onSuccess: onLoggedOut,
+    onError: (error) => {
+      toast({ title: "הניתוק נכשל", description: error instanceof Error ? error.message : "", variant: "destructive" });
+    },
+  });
+
+  const sessions = sessionsQuery.data?.sessions ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md" dir="rtl">
+        <DialogHeader>
+          <DialogTitle>מכשירים מחוברים</DialogTitle>
+          <DialogDescription>כל כניסה תקפה ל-7 ימים. אפשר לנתק מכשיר שאינך מזהה.</DialogDescription>
+        </DialogHeader>
+
+        <div className="divide-y divide-border max-h-80 overflow-y-auto">
+          {sessionsQuery.isLoading && <p className="py-4 text-sm text-muted-foreground text-center">טוען...</p>}
+          {sessions.map((session) => (
+            <div key={session.id} className="flex items-center justify-between gap-3 py-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-foreground">
+                  {describeDevice(session.userAgent)}
+                  {session.current && <span className="text-xs text-success"> · המכשיר הזה</span>}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {session.lastUsedAt ? `פעיל לאחרונה ${formatDateTime(session.lastUsedAt)}` : `נכנס ${formatDateTime(session.createdAt)}`}
+                  {session.ipAddress && <span dir="ltr"> · {session.ipAddress}</span>}
+                </p>
+              </div>
+              {!session.current && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => revokeMutation.mutate(session.id)}
+                  disabled={revokeMutation.isPending}
+                >
+                  נתק
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => logoutAllMutation.mutate()}
+            disabled={logoutAllMutation.isPending}
+          >
+            <LogOut className="w-4 h-4" /> התנתק מכל המכשירים
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+/**
+ * The firm's staff. Admins invite members, change roles and remove them;
+ * an accountant without a firm can start one here, and answers invitations
+ * to join one.
+ */
+const FirmDialog = ({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [firmName, setFirmName] = useState("");
+  const [fullName, setFullName] = useState("");
+  const [newEmail, setNewEmail] = useState("");
+  const [newName, setNewName] = useState("");
+  const [newRole, setNewRole] = useState<StaffRole>("bookkeeper");
+
+  const firmQuery = useQuery({
+    queryKey: ["accountant", "firm"],
+    queryFn: getAccountantFirm,
+    enabled: open,
+  });
+
+  const onError = (error: unknown) => {
+    toast({ title: "הפעולה נכשלה", description: error instanceof Error ? error.message : "", variant: "destructive" });
+  };
+
+  const refresh = () => {
+    void queryClient.invalidateQueries({ queryKey: ["accountant", "firm"] });
+    void queryClient.invalidateQueries({ queryKey: ["accountant", "clients"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => createAccountantFirm({ name: firmName.trim(), fullName: fullName.trim() || undefined }),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: () => inviteFirmStaff({ email: newEmail.trim(), fullName: newName.trim() || undefined, role: newRole }),
+    onSuccess: () => {
+      setNewEmail("");
+      setNewName("");
+      refresh();
+      toast({ title: "ההזמנה נשלחה", description: "איש הצוות יצטרף אחרי שיאשר את ההזמנה." });
+    },
+    onError,
+  });
+
+  const revokeInvitationMutation = useMutation({
+    mutationFn: revokeFirmStaffInvitation,
+    onSuccess: refresh,
+    onError,
+  });
+
+  const answerMutation = useMutation({
+    mutationFn: async ({ invitationId, accept }: { invitationId: string; accept: boolean }) => {
+      if (accept) await acceptFirmStaffInvitation(invitationId);
+      else await declineFirmStaffInvitation(invitationId);
+    },
+    onSuccess: refresh,
+    onError,
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: ({ staffId, role }: { staffId: string; role: StaffRole }) => updateFirmStaffRole(staffId, role),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: removeFirmStaff,
+    onSuccess: refresh,
+    onError,
+  });
+
+  const firm = firmQuery.data?.firm ?? null;
+  const me = firmQuery.data?.me ?? null;
+  const staff = firmQuery.data?.staff ?? [];
+  const invitations = firmQuery.data?.invitations ?? [];
+  const myInvitations = firmQuery.data?.myInvitations ?? [];
+  const isAdmin = me?.role === "admin";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg" dir="rtl">
+        <DialogHeader>
+          <DialogTitle>{firm ? firm.name : "משרד רואי חשבון"}</DialogTitle>
+          <DialogDescription>
+            {firm
+              ? "אנשי הצוות במשרד. כל לקוח משויך לאיש צוות אחד; מנהלים רואים את כל הלקוחות."
+              : "פתחו משרד כדי לצרף אנשי צוות ולחלק ביניהם את הלקוחות."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {firmQuery.isLoading && <p className="py-4 text-sm text-muted-foreground text-center">טוען...</p>}
+
+        {myInvitations.map((invitation) => (
+          <div key={invitation.id} className="rounded-lg border border-border px-3 py-2 space-y-2">
+            <p className="text-sm">
+              הוזמנת להצטרף ל<span className="font-medium">{invitation.firmName}</span> בתפקיד {roleLabels[invitation.role]}.
+              {" "}הלקוחות שלך יהיו גלויים למנהלי המשרד.
+            </p>
+            <div className="flex gap-2">
+              <Button
+                variant="coral"
+                size="sm"
+                onClick={() => answerMutation.mutate({ invitationId: invitation.id, accept: true })}
+                disabled={answerMutation.isPending || Boolean(firm)}
+                title={firm ? "את/ה כבר חבר/ה במשרד" : undefined}
+              >
+                הצטרפות
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => answerMutation.mutate({ invitationId: invitation.id, accept: false })}
+                disabled={answerMutation.isPending}
+              >
+                דחייה
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {!firmQuery.isLoading && !firm && (
+          <div className="space-y-3">
+            <div>
+              <label className="text-sm font-medium">שם המשרד</label>
+              <Input value={firmName} onChange={(e) => setFirmName(e.target.value)} />
+            </div>
+            <div>
+              <label className="text-sm font-medium">השם שלך (לא חובה)</label>
+              <Input value={fullName} onChange={(e) => setFullName(e.target.value)} />
+            </div>
+            <DialogFooter>
+              <Button
+                variant="coral"
+                onClick={() => createMutation.mutate()}
+                disabled={!firmName.trim() || createMutation.isPending}
+              >
+                פתח משרד
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+
+        {firm && (
+          <div className="divide-y divide-border max-h-72 overflow-y-auto">
+            {staff.map((member) => (
+              <div key={member.id} className="flex items-center justify-between gap-3 py-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-foreground truncate">
+                    {staffName(member)}
+                    {member.id === me?.id && <span className="text-xs text-success"> · את/ה</span>}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate" dir="ltr">{member.email}</p>
+                </div>
+                {isAdmin ? (
+                  <div className="flex items-center gap-1 shrink-0">
+                    <select
+                      className={`${selectClassName} w-36`}
+                      value={member.role}
+                      onChange={(e) => roleMutation.mutate({ staffId: member.id, role: e.target.value as StaffRole })}
+                      disabled={roleMutation.isPending}
+                    >
+                      {Object.entries(roleLabels).map(([role, label]) => (
+                        <option key={role} value={role}>{label}</option>
+                      ))}
+                    </select>
+                    {member.id !== me?.id && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="הסר מהמשרד"
+                        onClick={() => removeMutation.mutate(member.id)}
+                        disabled={removeMutation.isPending}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                ) : (
+                  <span className="text-xs text-muted-foreground shrink-0">{roleLabels[member.role]}</span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {firm && isAdmin && invitations.length > 0 && (
+          <div className="space-y-1 border-t border-border pt-3">
+            <p className="text-sm font-medium">ממתינים לאישור</p>
+            {invitations.map((invitation) => (
+              <div key={invitation.id} className="flex items-center justify-between gap-3 text-sm">
+                <span className="truncate" dir="ltr">{invitation.email}</span>
+                <div className="flex items-center gap-1 shrink-0">
+                  <span className="text-xs text-muted-foreground">{roleLabels[invitation.role]}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="ביטול ההזמנה"
+                    onClick={() => revokeInvitationMutation.mutate(invitation.id)}
+                    disabled={revokeInvitationMutation.isPending}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {firm && isAdmin && (
+          <div className="space-y-2 border-t border-border pt-4">
+            <p className="text-sm font-medium">הזמנת איש צוות</p>
+            <div className="grid grid-cols-2 gap-2">
+              <Input type="email" placeholder="מייל" dir="ltr" value={newEmail} onChange={(e) => setNewEmail(e.target.value)} />
+              <Input placeholder="שם (לא חובה)" value={newName} onChange={(e) => setNewName(e.target.value)} />
+            </div>
+            <div className="flex gap-2">
+              <select
+                className={selectClassName}
+                value={newRole}
+                onChange={(e) => setNewRole(e.target.value as StaffRole)}
+              >
+                {Object.entries(roleLabels).map(([role, label]) => (
+                  <option key={role} value={role}>{label}</option>
+                ))}
+              </select>
+              <Button
+                variant="coral"
+                onClick={() => inviteMutation.mutate()}
+                disabled={!newEmail.trim() || inviteMutation.isPending}
+              >
+                הזמן
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+/**
+ * Invite a client by email and follow up on sent invitations. A client who
+ * signs up from the link lands in the client list with no further setup.
+ */
+const InvitationsDialog = ({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [clientEmail, setClientEmail] = useState("");
+  const [clientName, setClientName] = useState("");
+  const [monthlyDeliveryDay, setMonthlyDeliveryDay] = useState(3);
+
+  const invitationsQuery = useQuery({
+    queryKey: ["accountant", "invitations"],
+    queryFn: getClientInvitations,
+    enabled: open,
+  });
+
+  const onError = (error: unknown) => {
+    toast({ title: "הפעולה נכשלה", description: error instanceof Error ? error.message : "", variant: "destructive" });
+  };
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["accountant", "invitations"] });
+
+  const inviteMutation = useMutation({
+    mutationFn: () => inviteClient({
+      clientEmail: clientEmail.trim(),
+      clientName: clientName.trim() || undefined,
+      monthlyDeliveryDay,
+    }),
+    onSuccess: ({ invitation }) => {
+      toast({ title: "ההזמנה נשלחה", description: invitation.clientEmail });
+      setClientEmail("");
+      setClientName("");
+      void refresh();
+    },
+    onError,
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: resendClientInvitation,
+    onSuccess: () => {
+      toast({ title: "ההזמנה נשלחה שוב" });
+      void refresh();
+    },
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: revokeClientInvitation,
+    onSuccess: refresh,
+    onError,
+  });
+
+  const invitations = invitationsQuery.data?.invitations ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg" dir="rtl">
+        <DialogHeader>
+          <DialogTitle>הזמנת לקוחות</DialogTitle>
+          <DialogDescription>
+            הלקוח יקבל קישור הרשמה עם הפרטים שלך כבר ממולאים, ויופיע ברשימת הלקוחות שלך מיד אחרי ההרשמה.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <Input type="email" placeholder="מייל הלקוח" dir="ltr" value={clientEmail} onChange={(e) => setClientEmail(e.target.value)} />
+            <Input placeholder="שם (לא חובה)" value={clientName} onChange={(e) => setClientName(e.target.value)} />
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="text-sm shrink-0">דוח חודשי ב-</label>
+            <Input
+              type="number"
+              min={1}
+              max={28}
+              className="w-20"
+              value={monthlyDeliveryDay}
+              onChange={(e) => setMonthlyDeliveryDay(Math.min(28, Math.max(1, Number(e.target.value) || 1)))}
+            />
+            <span className="text-sm text-muted-foreground flex-1">לחודש</span>
+            <Button
+              variant="coral"
+              onClick={() => inviteMutation.mutate()}
+              disabled={!clientEmail.trim() || inviteMutation.isPending}
+            >
+              שלח הזמנה
+            </Button>
+          </div>
+        </div>
+
+        <div className="divide-y divide-border max-h-72 overflow-y-auto border-t border-border">
+          {invitationsQuery.isLoading && <p className="py-4 text-sm text-muted-foreground text-center">טוען...</p>}
+          {!invitationsQuery.isLoading && invitations.length === 0 && (
+            <p className="py-4 text-sm text-muted-foreground text-center">עוד לא נשלחו הזמנות.</p>
+          )}
+          {invitations.map((invitation) => {
+            const status = invitationLabels[invitation.status];
+            const canResend = invitation.status === "pending" || invitation.status === "expired";
+            return (
+              <div key={invitation.id} className="flex items-center justify-between gap-3 py-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-foreground truncate">
+                    {invitation.clientName || invitation.clientEmail}
+                    <span className={`text-xs ${status.text}`}> · {status.label}</span>
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {invitation.acceptedAt
+                      ? `נרשם ${formatDateTime(invitation.acceptedAt)}`
+                      : `נשלחה ${formatDateTime(invitation.lastSentAt)}${invitation.sendCount > 1 ? ` (${invitation.sendCount} פעמים)` : ""}`}
+                  </p>
+                </div>
+                {canResend && (
+                  <div className="flex gap-1 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => resendMutation.mutate(invitation.id)}
+                      disabled={resendMutation.isPending}
+                    >
+                      שלח שוב
+                    </Button>
+                    {invitation.status === "pending" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => revokeMutation.mutate(invitation.id)}
+                        disabled={revokeMutation.isPending}
+                      >
+                        בטל
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
 const AccountantDashboardPage = () => {
   const navigate = useNavigate();
   const email = getAccountantEmail();
+  const [sessionsOpen, setSessionsOpen] = useState(false);
+  const [firmOpen, setFirmOpen] = useState(false);
+  const [invitationsOpen, setInvitationsOpen] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
 
-  if (!isAccountantLoggedIn()) {
-    navigate("/accountant", { replace: true });
-    return null;
-  }
+  const loggedIn = isAccountantLoggedIn();
 
   const clientsQuery = useQuery({
     queryKey: ["accountant", "clients"],
     queryFn: getAccountantClients,
+    enabled: loggedIn,
   });
 
   const clients = clientsQuery.data?.clients ?? [];
+  const firm = clientsQuery.data?.firm ?? null;
+  const role = clientsQuery.data?.role ?? null;
+  const canReassign = role === "admin" || role === "bookkeeper";
+
+  // For the assignee pickers and the invitations banner
+  const firmQuery = useQuery({
+    queryKey: ["accountant", "firm"],
+    queryFn: getAccountantFirm,
+    enabled: loggedIn,
+  });
+  const staff = firmQuery.data?.staff ?? [];
+  const myInvitations = firmQuery.data?.myInvitations ?? [];
+
+  const reassignMutation = useMutation({
+    mutationFn: ({ businessId, staffId }: { businessId: string; staffId: string }) => reassignClient(businessId, staffId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["accountant", "clients"] }),
+    onError: (error) => {
+      toast({ title: "השיוך נכשל", description: error instanceof Error ? error.message : "", variant: "destructive" });
+    },
+  });
+
+  if (!loggedIn) {
+    navigate("/accountant", { replace: true });
+    return null;
+  }
+
+  const endSession = () => {
+    clearAccountantSession();
+    navigate("/accountant");
+  };
+
+  const handleLogout = () => {
+    logoutAccountant()
+      .catch(() => {
+        // Session may already be gone server-side
+      })
+      .finally(endSession);
+  };
 
   return (
     <div className="min-h-screen bg-background" dir="rtl">
@@ -38,23 +622,43 @@ const AccountantDashboardPage = () => {
             </div>
             <div>
               <h1 className="font-display font-bold text-lg text-foreground">פורטל רואה חשבון</h1>
-              <p className="text-xs text-muted-foreground" dir="ltr">{email}</p>
+              <p className="text-xs text-muted-foreground">
+                <span dir="ltr">{email}</span>
+                {firm && role && <span> · {firm.name} · {roleLabels[role]}</span>}
+              </p>
             </div>
           </div>
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={() => {
-              clearAccountantSession();
-              navigate("/accountant");
-            }}
-          >
-            <LogOut className="w-4 h-4" /> התנתק
-          </Button>
+          <div className="flex gap-2">
+            {role !== "read_only" && (
+              <Button variant="ghost" size="sm" onClick={() => setInvitationsOpen(true)}>
+                <UserPlus className="w-4 h-4" /> הזמן לקוח
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" onClick={() => setFirmOpen(true)}>
+              <Building2 className="w-4 h-4" /> {firm ? "צוות" : "משרד"}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setSessionsOpen(true)}>
+              <MonitorSmartphone className="w-4 h-4" /> מכשירים
+            </Button>
+            <Button variant="ghost" size="sm" onClick={handleLogout}>
+              <LogOut className="w-4 h-4" /> התנתק
+            </Button>
+          </div>
         </div>
       </header>
 
       <div className="container mx-auto px-4 py-8">
+        {myInvitations.length > 0 && (
+          <div className="mb-6 flex items-center justify-between gap-3 rounded-xl border border-border bg-card px-4 py-3">
+            <p className="text-sm">
+              הוזמנת להצטרף ל{myInvitations.map((invitation) => invitation.firmName).join(", ")}.
+            </p>
+            <Button variant="outline" size="sm" onClick={() => setFirmOpen(true)}>
+              לפרטים
+            </Button>
+          </div>
+        )}
+
         <h2 className="font-display text-xl font-semibold mb-6">הלקוחות שלי ({clients.length})</h2>
 
         {clientsQuery.isLoading && (
@@ -72,40 +676,66 @@ const AccountantDashboardPage = () => {
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
           {clients.map((client) => {
             const health = healthColors[client.health] ?? healthColors.green;
+            const assignee = staff.find((member) => member.id === client.assignedStaffId);
             return (
-              <Link
+              <div
                 key={client.businessId}
-                to={`/accountant/clients/${client.businessId}`}
                 className="bg-card rounded-xl shadow-card border border-border p-5 hover:shadow-md transition-shadow"
               >
-                <div className="flex items-start justify-between mb-3">
-                  <h3 className="font-display font-semibold text-foreground">{client.businessName}</h3>
-                  <span className={`px-2 py-1 rounded-md text-xs font-medium ${health.bg} ${health.text}`}>
-                    {health.label}
-                  </span>
-                </div>
-                <div className="grid grid-cols-3 gap-2 text-center text-sm">
-                  <div>
-                    <p className="font-bold text-foreground">{client.totalCount}</p>
-                    <p className="text-xs text-muted-foreground">סה״כ</p>
+                <Link to={`/accountant/clients/${client.businessId}`} className="block">
+                  <div className="flex items-start justify-between mb-3">
+                    <h3 className="font-display font-semibold text-foreground">{client.businessName}</h3>
+                    <span className={`px-2 py-1 rounded-md text-xs font-medium ${health.bg} ${health.text}`}>
+                      {health.label}
+                    </span>
                   </div>
-                  <div>
-                    <p className="font-bold text-warning">{client.pendingCount}</p>
-                    <p className="text-xs text-muted-foreground">ממתין</p>
+                  <div className="grid grid-cols-3 gap-2 text-center text-sm">
+                    <div>
+                      <p className="font-bold text-foreground">{client.totalCount}</p>
+                      <p className="text-xs text-muted-foreground">סה״כ</p>
+                    </div>
+                    <div>
+                      <p className="font-bold text-warning">{client.pendingCount}</p>
+                      <p className="text-xs text-muted-foreground">ממתין</p>
+                    </div>
+                    <div>
+                      <p className="font-bold text-success">{client.sentCount}</p>
+                      <p className="text-xs text-muted-foreground">נשלח</p>
+                    </div>
                   </div>
-                  <div>
-                    <p className="font-bold text-success">{client.sentCount}</p>
-                    <p className="text-xs text-muted-foreground">נשלח</p>
+                  <div className="flex items-center justify-end mt-3 text-xs text-muted-foreground">
+                    צפה בפרטים <ChevronLeft className="w-3 h-3 mr-1" />
                   </div>
-                </div>
-                <div className="flex items-center justify-end mt-3 text-xs text-muted-foreground">
-                  צפה בפרטים <ChevronLeft className="w-3 h-3 mr-1" />
-                </div>
-              </Link>
+                </Link>
+                {firm && staff.length > 0 && (
+                  <div className="mt-3 pt-3 border-t border-border flex items-center gap-2 text-xs text-muted-foreground">
+                    <span className="shrink-0">מטופל ע״י</span>
+                    {canReassign ? (
+                      <select
+                        className={selectClassName}
+                        value={client.assignedStaffId ?? ""}
+                        onChange={(e) => reassignMutation.mutate({ businessId: client.businessId, staffId: e.target.value })}
+                        disabled={reassignMutation.isPending}
+                      >
+                        {!assignee && <option value="">לא משויך</option>}
+                        {staff.map((member) => (
+                          <option key={member.id} value={member.id}>{staffName(member)}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span className="text-foreground">{assignee ? staffName(assignee) : "לא משויך"}</span>
+                    )}
+                  </div>
+                )}
+              </div>
             );
           })}
         </div>
       </div>
+
+      <FirmDialog open={firmOpen} onOpenChange={setFirmOpen} />
+      <InvitationsDialog open={invitationsOpen} onOpenChange={setInvitationsOpen} />
+      <SessionsDialog open={sessionsOpen} onOpenChange={setSessionsOpen} onLoggedOut={endSession} />
     </div>
   );
 };
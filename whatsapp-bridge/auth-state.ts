@@ -0,0 +1,97 @@
+import {
+  BufferJSON,
+  initAuthCreds,
+  proto,
+  type AuthenticationCreds,
+  type AuthenticationState,
+  type SignalDataTypeMap,
+} from "@whiskeysockets/baileys";
+import type pg from "pg";
+
+/**
+ * Baileys auth state in Postgres — the database counterpart of
+ * useMultiFileAuthState. Credentials and signal keys are stored per business
+ * as BufferJSON rows keyed "creds" or "<type>-<id>", so any bridge instance
+ * can resume a session without a new QR scan.
+ */
+export async function createPostgresAuthState(pool: pg.Pool, businessId: string): Promise<{
+  state: AuthenticationState;
+  saveCreds: () => Promise<void>;
+}> {
+  const readData = async (key: string): Promise<unknown> => {
+    const result = await pool.query(
+      `SELECT value FROM whatsapp_auth_keys WHERE business_id = $1 AND key = $2`,
+      [businessId, key],
+    );
+    return result.rows[0] ? JSON.parse(result.rows[0].value, BufferJSON.reviver) : null;
+  };
+
+  const writeData = async (client: pg.Pool | pg.PoolClient, key: string, data: unknown): Promise<void> => {
+    await client.query(
+      `INSERT INTO whatsapp_auth_keys (business_id, key, value, updated_at)
+       VALUES ($1, $2, $3, now())
+       ON CONFLICT (business_id, key) DO UPDATE SET value = EXCLUDED.value, updated_at = now()`,
+      [businessId, key, JSON.stringify(data, BufferJSON.replacer)],
+    );
+  };
+
+  const creds = ((await readData("creds")) as AuthenticationCreds | null) ?? initAuthCreds();
+
+  return {
+    state: {
+      creds,
+      keys: {
+        get: async (type, ids) => {
+          const data: { [id: string]: SignalDataTypeMap[typeof type] } = {};
+          if (ids.length === 0) return data;
+          const result = await pool.query(
+            `SELECT key, value FROM whatsapp_auth_keys WHERE business_id = $1 AND key = ANY($2)`,
+            [businessId, ids.map((id) => `${type}-${id}`)],
+          );
+          const rows = new Map<string, string>(result.rows.map((row: { key: string; value: string }) => [row.key, row.value]));
+          for (const id of ids) {
+            const raw = rows.get(`${type}-${id}`);
+            if (raw == null) continue;
+            let value = JSON.parse(raw, BufferJSON.reviver);
+            if (type === "app-state-sync-key" && value) {
+              value = proto.Message.AppStateSyncKeyData.fromObject(value);
+            }
+            data[id] = value;
+          }
+          return data;
+        },
+        set: async (data) => {
+          const client = await pool.connect();
+          try {
+            await client.query("BEGIN");
+            for (const category of Object.keys(data) as Array<keyof SignalDataTypeMap>) {
+              for (const [id, value] of Object.entries(data[category] ?? {})) {
+                const key = `${category}-${id}`;
+                if (value) {
+                  await writeData(client, key, value);
+                } else {
+                  await client.query(
+                    `DELETE FROM whatsapp_auth_keys WHERE business_id = $1 AND key = $2`,
+                    [businessId, key],
+                  );
+                }
+              }
+            }
+            await client.query("COMMIT");
+          } catch (error) {
+            await client.query("ROLLBACK");
+            throw error;
+          } finally {
+            client.release();
+          }
+        },
+      },
+    },
+    saveCreds: () => writeData(pool, "creds", creds),
+  };
+}
+
+/** Forget a business's credentials, e.g. after WhatsApp logged the device out. */
+export async function clearPostgresAuthState(pool: pg.Pool, businessId: string): Promise<void> {
+  await pool.query(`DELETE FROM whatsapp_auth_keys WHERE business_id = $1`, [businessId]);
+}
@@ -0,0 +1,38 @@
+import pg from "pg";
+
+/**
+ * Postgres holds Baileys auth state and session leases when DATABASE_URL is
+ * set. Without it the bridge keeps auth files under SESSIONS_DIR and runs as
+ * a single instance.
+ */
+export const pool = process.env.DATABASE_URL
+  ? new pg.Pool({
+    connectionString: process.env.DATABASE_URL,
+    ssl: { rejectUnauthorized: false },
+    max: 5,
+  })
+  : null;
+
+/**
+ * The bridge owns these tables, so it creates them on startup rather than
+ * relying on the app's schema.
+ */
+export async function ensureBridgeSchema(): Promise<void> {
+  if (!pool) return;
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS whatsapp_auth_keys (
+      business_id text NOT NULL,
+      key text NOT NULL,
+      value text NOT NULL,
+      updated_at timestamptz NOT NULL DEFAULT now(),
+      PRIMARY KEY (business_id, key)
+    );
+    CREATE TABLE IF NOT EXISTS whatsapp_session_leases (
+      business_id text PRIMARY KEY,
+      instance_id text NOT NULL,
+      instance_url text,
+      expires_at timestamptz NOT NULL,
+      updated_at timestamptz NOT NULL DEFAULT now()
+    );
+  `);
+}
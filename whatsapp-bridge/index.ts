@@ -1,5 +1,8 @@
 import Fastify from "fastify";
+import { ensureBridgeSchema } from "./db";
+import { INSTANCE_ID } from "./leases";
 import { registerBridgeRoutes } from "./routes";
+import { shutdownSessions } from "./sessions";
 
 const BRIDGE_PORT = parseInt(process.env.BRIDGE_PORT ?? "3002", 10);
 const BRIDGE_SECRET = process.env.BRIDGE_SECRET ?? "";
@@ -28,10 +31,22 @@ app.get("/health", async () => ({
   timestamp: new Date().toISOString(),
 }));
 
-app.listen({ port: BRIDGE_PORT, host: "0.0.0.0" }, (err) => {
-  if (err) {
+// Hand sessions over to another instance instead of waiting for their leases to expire
+for (const signal of ["SIGTERM", "SIGINT"] as const) {
+  process.once(signal, async () => {
+    console.log(`Received ${signal}, releasing sessions`);
+    await shutdownSessions();
+    await app.close();
+    process.exit(0);
+  });
+}
+
+ensureBridgeSchema()
+  .then(() => app.listen({ port: BRIDGE_PORT, host: "0.0.0.0" }))
+  .then(() => {
+    console.log(`WhatsApp Bridge ${INSTANCE_ID} running on port ${BRIDGE_PORT}`);
+  })
+  .catch((err) => {
     app.log.error(err);
     process.exit(1);
-  }
-  console.log(`WhatsApp Bridge running on port ${BRIDGE_PORT}`);
-});
+  });
@@ -0,0 +1,115 @@
+import * as os from "os";
+import { pool } from "./db";
+
+/**
+ * Session ownership across bridge replicas. Each business's WhatsApp socket
+ * runs on exactly one instance — the holder of its lease. Leases are renewed
+ * while the session runs; when an instance dies they expire and another
+ * instance claims them and resumes the session from the stored auth state.
+ */
+
+export const INSTANCE_ID = process.env.BRIDGE_INSTANCE_ID || `${os.hostname()}-${process.pid}`;
+
+/** How other replicas reach this one, for forwarding requests about sessions it owns. */
+export const INSTANCE_URL = process.env.BRIDGE_PUBLIC_URL?.replace(/\/$/, "") || null;
+
+export const LEASE_TTL_MS = parseInt(process.env.LEASE_TTL_MS ?? "30000", 10);
+
+export interface SessionLease {
+  businessId: string;
+  instanceId: string;
+  instanceUrl: string | null;
+  expiresAt: string;
+}
+
+const LEASE_COLUMNS = `business_id AS "businessId", instance_id AS "instanceId",
+  instance_url AS "instanceUrl", expires_at AS "expiresAt"`;
+
+type LeaseRow = Omit<SessionLease, "expiresAt"> & { expiresAt: Date };
+
+function serializeLease(row: LeaseRow): SessionLease {
+  return { ...row, expiresAt: row.expiresAt.toISOString() };
+}
+
+/**
+ * Take the lease for a business if it's free, expired or already ours.
+ * Concurrent claims are settled by the row lock: only one instance gets a row back.
+ */
+export async function acquireLease(businessId: string): Promise<boolean> {
+  if (!pool) return true;
+  const result = await pool.query(
+    `INSERT INTO whatsapp_session_leases (business_id, instance_id, instance_url, expires_at, updated_at)
+     VALUES ($1, $2, $3, now() + $4::int * interval '1 millisecond', now())
+     ON CONFLICT (business_id) DO UPDATE
+       SET instance_id = EXCLUDED.instance_id, instance_url = EXCLUDED.instance_url,
+           expires_at = EXCLUDED.expires_at, updated_at = now()
+       WHERE whatsapp_session_leases.instance_id = EXCLUDED.instance_id
+          OR whatsapp_session_leases.expires_at < now()
+     RETURNING business_id`,
+    [businessId, INSTANCE_ID, INSTANCE_URL, LEASE_TTL_MS],
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/** Extend our leases; returns the businesses whose lease we still hold. */
+export async function renewLeases(businessIds: string[]): Promise<Set<string>> {
+  if (!pool) return new Set(businessIds);
+  if (businessIds.length === 0) return new Set();
+  const result = await pool.query(
+    `UPDATE whatsapp_session_leases
+     SET expires_at = now() + $3::int * interval '1 millisecond', instance_url = $4, updated_at = now()
+     WHERE instance_id = $1 AND business_id = ANY($2)
+     RETURNING business_id`,
+    [INSTANCE_ID, businessIds, LEASE_TTL_MS, INSTANCE_URL],
+  );
+  return new Set(result.rows.map((row: { business_id: string }) => row.business_id));
+}
+
+/**
+ * Let go of a session. A disconnected session is deleted so nobody resumes
+ * it; on shutdown the lease is only expired, so another instance takes over
+ * right away.
+ */
+export async function releaseLease(businessId: string, options: { handOver?: boolean } = {}): Promise<void> {
+  if (!pool) return;
+  if (options.handOver) {
+    await pool.query(
+      `UPDATE whatsapp_session_leases SET expires_at = now(), updated_at = now()
+       WHERE business_id = $1 AND instance_id = $2`,
+      [businessId, INSTANCE_ID],
+    );
+  } else {
+    await pool.query(
+      `DELETE FROM whatsapp_session_leases WHERE business_id = $1 AND instance_id = $2`,
+      [businessId, INSTANCE_ID],
+    );
+  }
+}
+
+/** The live lease on a business, or null if nobody holds one. */
+export async function getLeaseOwner(businessId: string): Promise<SessionLease | null> {
+  if (!pool) return null;
+  const result = await pool.query<LeaseRow>(
+    `SELECT ${LEASE_COLUMNS} FROM whatsapp_session_leases
+     WHERE business_id = $1 AND expires_at >= now()`,
+    [businessId],
+  );
+  return result.rows[0] ? serializeLease(result.rows[0]) : null;
+}
+
+/** Sessions whose owner went away without handing them over — ready to be claimed. */
+export async function getExpiredLeases(): Promise<string[]> {
+  if (!pool) return [];
+  const result = await pool.query(
+    `SELECT business_id FROM whatsapp_session_leases WHERE expires_at < now() ORDER BY expires_at ASC`,
+  );
+  return result.rows.map((row: { business_id: string }) => row.business_id);
+}
+
+export async function listLeases(): Promise<SessionLease[]> {
+  if (!pool) return [];
+  const result = await pool.query<LeaseRow>(
+    `SELECT ${LEASE_COLUMNS} FROM whatsapp_session_leases ORDER BY business_id`,
+  );
+  return result.rows.map(serializeLease);
+}
@@ -1,10 +1,14 @@
-import { FastifyInstance } from "fastify";
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { INSTANCE_ID, getLeaseOwner } from "./leases";
 import {
   startSession,
   getSessionStatus,
   sendMessage,
   disconnectSession,
   listActiveSessions,
+  isLocalSession,
+  startLeaseMaintenance,
+  type InboundMessageHandler,
 } from "./sessions";
 
 interface BridgeConfig {
@@ -12,26 +16,55 @@ interface BridgeConfig {
   bridgeSecret: string;
 }
 
+/**
+ * With several replicas behind one URL, a request may land on an instance
+ * that doesn't hold the session. Pass it on to the lease owner and relay
+ * the answer; returns false when the session is (or may become) ours.
+ */
+async function forwardToOwner(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  businessId: string,
+  bridgeSecret: string,
+): Promise<boolean> {
+  if (isLocalSession(businessId)) return false;
+  const owner = await getLeaseOwner(businessId);
+  if (!owner || owner.instanceId === INSTANCE_ID) return false;
+
+  // Never bounce a request twice, e.g. while a lease is changing hands
+  if (!owner.instanceUrl || request.headers["x-bridge-forwarded-by"]) {
+    reply.code(409).send({ error: `Session is owned by bridge instance ${owner.instanceId}` });
+    return true;
+  }
+
+  const headers: Record<string, string> = { "X-Bridge-Forwarded-By": INSTANCE_ID };
+  if (bridgeSecret) headers["X-Bridge-Secret"] = bridgeSecret;
+  if (request.body !== undefined) headers["Content-Type"] = "application/json";
+
+  const response = await fetch(`${owner.instanceUrl}${request.url}`, {
+    method: request.method,
+    headers,
+    body: request.body !== undefined ? JSON.stringify(request.body) : undefined,
+    signal: AbortSignal.timeout(15_000),
+  });
+  reply
+    .code(response.status)
+    .header("Content-Type", response.headers.get("content-type") ?? "application/json")
+    .send(await response.text());
+  return true;
+}
+
 export function registerBridgeRoutes(app: FastifyInstance, config: BridgeConfig): void {
   // Callback for inbound messages → forward to Vercel webhook
-  function onInboundMessage(
-    businessId: string,
-    fromPhone: string,
-    text?: string,
-    imageBase64?: string,
-    mimeType?: string,
-  ): void {
+  const onInboundMessage: InboundMessageHandler = (businessId, fromPhone, message) => {
     if (!config.webhookUrl) {
       console.log(`[bridge] No webhook URL configured, skipping inbound from ${fromPhone}`);
       return;
     }
 
     const body: Record<string, any> = { businessId, fromPhone };
-    if (text) body.text = text;
-    if (imageBase64) {
-      body.imageBase64 = imageBase64;
-      body.mimeType = mimeType;
-    }
+    if (message.text) body.text = message.text;
+    if (message.media?.length) body.media = message.media;
 
     const headers: Record<string, string> = {
       "Content-Type": "application/json",
@@ -47,13 +80,17 @@ export function registerBridgeRoutes(app: FastifyInstance, config: BridgeConfig)
     }).catch((err) => {
       console.error(`[bridge] Failed to forward inbound to webhook:`, err);
     });
-  }
+  };
+
+  // Renew our leases and resume sessions left behind by other instances
+  startLeaseMaintenance(onInboundMessage);
 
   // Start/connect a session
   app.post<{ Params: { businessId: string } }>(
     "/sessions/:businessId/connect",
-    async (request) => {
+    async (request, reply) => {
       const { businessId } = request.params;
+      if (await forwardToOwner(request, reply, businessId, config.bridgeSecret)) return reply;
       await startSession(businessId, onInboundMessage);
       return getSessionStatus(businessId);
     },
@@ -62,8 +99,9 @@ export function registerBridgeRoutes(app: FastifyInstance, config: BridgeConfig)
   // Get session status
   app.get<{ Params: { businessId: string } }>(
     "/sessions/:businessId/status",
-    async (request) => {
+    async (request, reply) => {
       const { businessId } = request.params;
+      if (await forwardToOwner(request, reply, businessId, config.bridgeSecret)) return reply;
       return getSessionStatus(businessId);
     },
   );
@@ -71,8 +109,9 @@ export function registerBridgeRoutes(app: FastifyInstance, config: BridgeConfig)
   // Send a text message
   app.post<{ Params: { businessId: string }; Body: { to: string; text: string } }>(
     "/sessions/:businessId/send",
-    async (request) => {
+    async (request, reply) => {
       const { businessId } = request.params;
+      if (await forwardToOwner(request, reply, businessId, config.bridgeSecret)) return reply;
       const { to, text } = request.body;
       return sendMessage(businessId, to, text);
     },
@@ -81,15 +120,16 @@ export function registerBridgeRoutes(app: FastifyInstance, config: BridgeConfig)
   // Disconnect/destroy session
   app.delete<{ Params: { businessId: string } }>(
     "/sessions/:businessId",
-    async (request) => {
+    async (request, reply) => {
       const { businessId } = request.params;
+      if (await forwardToOwner(request, reply, businessId, config.bridgeSecret)) return reply;
       await disconnectSession(businessId);
       return { ok: true };
     },
   );
 
-  // List all active sessions
+  // List all active sessions and which instance owns each
   app.get("/sessions", async () => {
-    return { sessions: listActiveSessions() };
+    return { instanceId: INSTANCE_ID, sessions: await listActiveSessions() };
   });
 }
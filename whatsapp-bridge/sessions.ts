@@ -3,6 +3,8 @@ import {
   useMultiFileAuthState,
   DisconnectReason,
   fetchLatestBaileysVersion,
+  downloadMediaMessage,
+  type WAMessage,
   type WASocket,
   type BaileysEventMap,
 } from "@whiskeysockets/baileys";
@@ -10,9 +12,37 @@ import { Boom } from "@hapi/boom";
 import * as path from "path";
 import * as fs from "fs";
 import * as QRCode from "qrcode";
+import { clearPostgresAuthState, createPostgresAuthState } from "./auth-state";
+import { pool } from "./db";
+import {
+  INSTANCE_ID,
+  LEASE_TTL_MS,
+  acquireLease,
+  getExpiredLeases,
+  listLeases,
+  releaseLease,
+  renewLeases,
+} from "./leases";
 
 const SESSIONS_DIR = process.env.SESSIONS_DIR ?? "./sessions";
 
+/** Photos of one receipt arrive as separate messages; wait this long for the next page. */
+const ALBUM_WINDOW_MS = 6_000;
+const MAX_ALBUM_PAGES = 10;
+
+export interface InboundMedia {
+  base64: string;
+  mimeType: string;
+  filename?: string | null;
+  caption?: string | null;
+}
+
+export type InboundMessageHandler = (
+  businessId: string,
+  fromPhone: string,
+  message: { text?: string; media?: InboundMedia[] },
+) => void;
+
 interface SessionInfo {
   socket: WASocket | null;
   status: "idle" | "connecting" | "qr" | "connected" | "failed";
@@ -24,6 +54,44 @@ interface SessionInfo {
 
 const sessions = new Map<string, SessionInfo>();
 
+const pendingAlbums = new Map<string, { pages: InboundMedia[]; timer: ReturnType<typeof setTimeout> }>();
+
+/**
+ * Hold photos from a sender until none has arrived for ALBUM_WINDOW_MS, then
+ * forward them together so the server stores one multi-page document.
+ */
+function queueAlbumPage(
+  businessId: string,
+  fromPhone: string,
+  page: InboundMedia,
+  onInboundMessage: InboundMessageHandler,
+): void {
+  const key = `${businessId}:${fromPhone}`;
+  const flush = () => {
+    const album = pendingAlbums.get(key);
+    if (!album) return;
+    clearTimeout(album.timer);
+    pendingAlbums.delete(key);
+    onInboundMessage(businessId, fromPhone, { media: album.pages });
+  };
+
+  let album = pendingAlbums.get(key);
+  if (album) {
+    clearTimeout(album.timer);
+    album.pages.push(page);
+    album.timer = setTimeout(flush, ALBUM_WINDOW_MS);
+  } else {
+    album = { pages: [page], timer: setTimeout(flush, ALBUM_WINDOW_MS) };
+    pendingAlbums.set(key, album);
+  }
+  if (album.pages.length >= MAX_ALBUM_PAGES) flush();
+}
+
+async function downloadMedia(msg: WAMessage): Promise<string> {
+  const buffer = await downloadMediaMessage(msg, "buffer", {});
+  return (buffer as Buffer).toString("base64");
+}
+
 function getSessionDir(businessId: string): string {
   return path.join(SESSIONS_DIR, businessId);
 }
@@ -59,26 +127,49 @@ export function getSessionStatus(businessId: string): {
   };
 }
 
+/** Postgres when DATABASE_URL is set, otherwise auth files under SESSIONS_DIR. */
+async function loadAuthState(businessId: string) {
+  if (pool) return createPostgresAuthState(pool, businessId);
+  const sessionDir = getSessionDir(businessId);
+  fs.mkdirSync(sessionDir, { recursive: true });
+  return useMultiFileAuthState(sessionDir);
+}
+
+async function clearAuthState(businessId: string): Promise<void> {
+  if (pool) {
+    await clearPostgresAuthState(pool, businessId);
+  } else {
+    fs.rmSync(getSessionDir(businessId), { recursive: true, force: true });
+  }
+}
+
+/** Whether this instance is running the session for a business. */
+export function isLocalSession(businessId: string): boolean {
+  return Boolean(sessions.get(businessId)?.socket);
+}
+
 export async function startSession(
   businessId: string,
-  onInboundMessage?: (businessId: string, fromPhone: string, text?: string, imageBase64?: string, mimeType?: string) => void,
+  onInboundMessage?: InboundMessageHandler,
+  options: { reconnect?: boolean } = {},
 ): Promise<SessionInfo> {
-  const session = getSession(businessId);
+  // Already connected or connecting (a reconnect replaces the closed socket)
+  const existing = sessions.get(businessId);
+  if (!options.reconnect && existing && (existing.status === "connected" || existing.status === "connecting")) {
+    return existing;
+  }
 
-  // Already connected or connecting
-  if (session.status === "connected" || session.status === "connecting") {
-    return session;
+  if (!(await acquireLease(businessId))) {
+    throw Object.assign(new Error("Session is owned by another bridge instance"), { statusCode: 409 });
   }
 
+  const session = getSession(businessId);
   session.status = "connecting";
   session.lastError = null;
   session.qrDataUrl = null;
 
-  const sessionDir = getSessionDir(businessId);
-  fs.mkdirSync(sessionDir, { recursive: true });
-
   try {
-    const { state, saveCreds } = await useMultiFileAuthState(sessionDir);
+    const { state, saveCreds } = await loadAuthState(businessId);
     const { version } = await fetchLatestBaileysVersion();
 
     const socket = makeWASocket({
@@ -102,6 +193,8 @@ export async function startSession(
       }
 
       if (connection === "close") {
+        // Stopped here on purpose (disconnect, shutdown, lease lost) — nothing to recover
+        if (sessions.get(businessId) !== session) return;
         const reason = (lastDisconnect?.error as Boom)?.output?.statusCode;
         const shouldReconnect = reason !== DisconnectReason.loggedOut;
 
@@ -109,15 +202,24 @@ export async function startSession(
           session.retryCount++;
           session.status = "connecting";
           console.log(`[${businessId}] Reconnecting (attempt ${session.retryCount})...`);
-          setTimeout(() => startSession(businessId, onInboundMessage), 3000);
+          setTimeout(() => {
+            // Stopped in the meantime
+            if (sessions.get(businessId) !== session) return;
+            startSession(businessId, onInboundMessage, { reconnect: true })
+              .catch((err) => console.error(`[${businessId}] Reconnect failed:`, err));
+          }, 3000);
         } else {
           session.status = "failed";
           session.lastError = `Connection closed: ${reason ?? "unknown"}`;
           session.socket = null;
           if (reason === DisconnectReason.loggedOut) {
-            // Clean up session files
-            fs.rmSync(sessionDir, { recursive: true, force: true });
+            // The device was unlinked; the stored credentials are useless now
+            await clearAuthState(businessId).catch((err) =>
+              console.error(`[${businessId}] Failed to clear auth state:`, err));
           }
+          // Nobody should resume a failed session until it's connected again
+          await releaseLease(businessId).catch((err) =>
+            console.error(`[${businessId}] Failed to release lease:`, err));
           console.log(`[${businessId}] Session ended: ${session.lastError}`);
         }
       }
@@ -145,26 +247,45 @@ export async function startSession(
           msg.message?.extendedTextMessage?.text;
 
         if (text) {
-          onInboundMessage(businessId, fromPhone, text);
+          onInboundMessage(businessId, fromPhone, { text });
           continue;
         }
 
-        // Image message
+        // Image message — may be one page of an album
         const imageMessage = msg.message?.imageMessage;
         if (imageMessage) {
           try {
-            const stream = await (socket as any).downloadMediaMessage(msg);
-            const chunks: Buffer[] = [];
-            for await (const chunk of stream) {
-              chunks.push(chunk);
-            }
-            const imageBuffer = Buffer.concat(chunks);
-            const base64 = imageBuffer.toString("base64");
-            const mimeType = imageMessage.mimetype ?? "image/jpeg";
-            onInboundMessage(businessId, fromPhone, undefined, base64, mimeType);
+            queueAlbumPage(businessId, fromPhone, {
+              base64: await downloadMedia(msg),
+              mimeType: imageMessage.mimetype ?? "image/jpeg",
+              caption: imageMessage.caption ?? null,
+            }, onInboundMessage);
           } catch (err) {
             console.error(`[${businessId}] Failed to download media:`, err);
           }
+          continue;
+        }
+
+        // Document message (PDF, or a photo sent as a file)
+        const documentMessage = msg.message?.documentMessage
+          ?? msg.message?.documentWithCaptionMessage?.message?.documentMessage;
+        const mimeType = documentMessage?.mimetype?.split(";")[0].trim();
+        if (documentMessage && mimeType && (mimeType === "application/pdf" || mimeType.startsWith("image/"))) {
+          try {
+            const media: InboundMedia = {
+              base64: await downloadMedia(msg),
+              mimeType,
+              filename: documentMessage.fileName ?? null,
+              caption: documentMessage.caption ?? null,
+            };
+            if (mimeType === "application/pdf") {
+              onInboundMessage(businessId, fromPhone, { media: [media] });
+            } else {
+              queueAlbumPage(businessId, fromPhone, media, onInboundMessage);
+            }
+          } catch (err) {
+            console.error(`[${businessId}] Failed to download document:`, err);
+          }
         }
       }
     });
@@ -174,6 +295,7 @@ export async function startSession(
     session.status = "failed";
     session.lastError = error.message;
     console.error(`[${businessId}] Failed to start session:`, error);
+    await releaseLease(businessId).catch(() => undefined);
     return session;
   }
 }
@@ -195,26 +317,94 @@ export async function sendMessage(
   return { ok: true, messageId: result?.key?.id };
 }
 
-export async function disconnectSession(businessId: string): Promise<void> {
-  const session = getSession(businessId);
-  if (session.socket) {
+/** Close the socket here without logging out, keeping the stored credentials. */
+function stopLocalSession(businessId: string): void {
+  const session = sessions.get(businessId);
+  if (session?.socket) {
     session.socket.end(undefined);
     session.socket = null;
   }
-  session.status = "idle";
-  session.qrDataUrl = null;
-  session.connectedJid = null;
   sessions.delete(businessId);
 }
 
-export function listActiveSessions(): Array<{
+export async function disconnectSession(businessId: string): Promise<void> {
+  stopLocalSession(businessId);
+  await releaseLease(businessId);
+}
+
+/**
+ * Every session this instance knows about, plus sessions other instances
+ * hold leases on (their status lives on the owner, so it's null here).
+ */
+export async function listActiveSessions(): Promise<Array<{
   businessId: string;
-  status: string;
+  status: string | null;
   connectedJid: string | null;
-}> {
-  return Array.from(sessions.entries()).map(([businessId, session]) => ({
+  ownerInstanceId: string | null;
+  leaseExpiresAt: string | null;
+}>> {
+  const leases = new Map((await listLeases()).map((lease) => [lease.businessId, lease]));
+  const local = Array.from(sessions.entries()).map(([businessId, session]) => ({
     businessId,
     status: session.status,
     connectedJid: session.connectedJid,
+    ownerInstanceId: leases.get(businessId)?.instanceId ?? INSTANCE_ID,
+    leaseExpiresAt: leases.get(businessId)?.expiresAt ?? null,
   }));
+  const remote = [...leases.values()]
+    .filter((lease) => !sessions.has(lease.businessId))
+    .map((lease) => ({
+      businessId: lease.businessId,
+      status: null,
+      connectedJid: null,
+      ownerInstanceId: lease.instanceId,
+      leaseExpiresAt: lease.expiresAt,
+    }));
+  return [...local, ...remote];
+}
+
+/**
+ * Keep our leases alive and pick up sessions orphaned by an instance that
+ * went away. A session whose lease was taken over (we stalled past the TTL)
+ * is stopped here, so the socket only ever runs in one place.
+ */
+export function startLeaseMaintenance(onInboundMessage: InboundMessageHandler): void {
+  if (!pool) return;
+  let running = false;
+  setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      const held = Array.from(sessions.entries())
+        .filter(([, session]) => session.socket)
+        .map(([businessId]) => businessId);
+      const renewed = await renewLeases(held);
+      for (const businessId of held) {
+        if (renewed.has(businessId)) continue;
+        console.warn(`[${businessId}] Lease lost to another instance, stopping local session`);
+        stopLocalSession(businessId);
+      }
+
+      for (const businessId of await getExpiredLeases()) {
+        if (isLocalSession(businessId)) continue;
+        console.log(`[${businessId}] Resuming orphaned session`);
+        await startSession(businessId, onInboundMessage).catch((err) => {
+          if (err.statusCode !== 409) console.error(`[${businessId}] Failed to resume session:`, err);
+        });
+      }
+    } catch (err) {
+      console.error(`[bridge] Lease maintenance failed:`, err);
+    } finally {
+      running = false;
+    }
+  }, Math.max(1_000, Math.floor(LEASE_TTL_MS / 3)));
+}
+
+/** On shutdown, close sockets and expire our leases so another instance resumes them at once. */
+export async function shutdownSessions(): Promise<void> {
+  for (const businessId of Array.from(sessions.keys())) {
+    const held = isLocalSession(businessId);
+    stopLocalSession(businessId);
+    if (held) await releaseLease(businessId, { handOver: true }).catch(() => undefined);
+  }
 }